@@ -0,0 +1,45 @@
+import { hasRole, type UserRole } from "../lib/auth/roles.ts";
+
+interface AdminNavProps {
+  currentPath: string;
+  role: UserRole;
+}
+
+const LINKS: { href: string; label: string; role: UserRole }[] = [
+  { href: "/admin", label: "Overview", role: "admin" },
+  { href: "/admin/users", label: "Users", role: "support" },
+  { href: "/admin/jobs", label: "Jobs", role: "admin" },
+  { href: "/admin/analytics", label: "Analytics", role: "admin" },
+  { href: "/admin/audit", label: "Audit Log", role: "admin" },
+];
+
+/**
+ * Tabs across the top of the admin area, showing only the pages the
+ * signed-in user's role can open
+ */
+export default function AdminNav({ currentPath, role }: AdminNavProps) {
+  return (
+    <nav
+      class="flex flex-wrap gap-2 mb-8 border-b border-gray-200 dark:border-gray-700"
+      aria-label="Admin"
+    >
+      {LINKS.filter((link) => hasRole(role, link.role)).map((link) => {
+        const active = currentPath === link.href;
+        return (
+          <a
+            key={link.href}
+            href={link.href}
+            aria-current={active ? "page" : undefined}
+            class={`px-4 py-2 -mb-px text-sm font-medium border-b-2 ${
+              active
+                ? "border-indigo-600 text-indigo-600 dark:text-indigo-400"
+                : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            }`}
+          >
+            {link.label}
+          </a>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,36 @@
+interface ImpersonationBannerProps {
+  email: string;
+}
+
+/**
+ * Shown on every page while a support user or admin is impersonating
+ * someone, with a button to switch back to their own account
+ */
+export default function ImpersonationBanner(
+  { email }: ImpersonationBannerProps,
+) {
+  return (
+    <div
+      class="bg-yellow-300 text-yellow-900 px-4 py-2 text-sm"
+      role="status"
+    >
+      <form
+        method="POST"
+        action="/api/impersonation/stop"
+        class="max-w-7xl mx-auto flex flex-wrap items-center justify-between gap-2"
+      >
+        <p>
+          You are signed in as{" "}
+          <strong>{email}</strong>. Everything you do is recorded in the audit
+          log.
+        </p>
+        <button
+          type="submit"
+          class="px-3 py-1 font-medium bg-yellow-900 text-yellow-50 rounded-md hover:bg-yellow-800"
+        >
+          Stop impersonating
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -4,17 +4,37 @@
 
 import * as $_404 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
+import * as $_middleware from "./routes/_middleware.ts";
 import * as $admin_analytics from "./routes/admin/analytics.tsx";
+import * as $admin_audit from "./routes/admin/audit.tsx";
+import * as $admin_index from "./routes/admin/index.tsx";
+import * as $admin_jobs from "./routes/admin/jobs.tsx";
+import * as $admin_users from "./routes/admin/users.tsx";
 import * as $analytics from "./routes/analytics.tsx";
 import * as $api_docs from "./routes/api-docs.tsx";
 import * as $api_path_ from "./routes/api/[...path].ts";
+import * as $api_middleware from "./routes/api/_middleware.ts";
+import * as $api_admin_audit from "./routes/api/admin/audit.ts";
+import * as $api_admin_cache from "./routes/api/admin/cache.ts";
+import * as $api_admin_jobs from "./routes/api/admin/jobs.ts";
+import * as $api_admin_jobs_job_id_retry from "./routes/api/admin/jobs/[job_id]/retry.ts";
+import * as $api_admin_users from "./routes/api/admin/users.ts";
+import * as $api_admin_users_user_id_ from "./routes/api/admin/users/[user_id].ts";
+import * as $api_admin_users_user_id_impersonate from "./routes/api/admin/users/[user_id]/impersonate.ts";
 import * as $api_analytics_summary from "./routes/api/analytics/summary.ts";
 import * as $api_analytics_track from "./routes/api/analytics/track.ts";
-import * as $api_auth_google from "./routes/api/auth/google.ts";
-import * as $api_auth_google_callback from "./routes/api/auth/google/callback.ts";
+import * as $api_auth_provider_ from "./routes/api/auth/[provider].ts";
+import * as $api_auth_provider_callback from "./routes/api/auth/[provider]/callback.ts";
+import * as $api_auth_passkey_options from "./routes/api/auth/passkey/options.ts";
+import * as $api_auth_passkey_verify from "./routes/api/auth/passkey/verify.ts";
 import * as $api_auth_resend_verification from "./routes/api/auth/resend-verification.ts";
 import * as $api_auth_verify_email from "./routes/api/auth/verify-email.ts";
+import * as $api_browse from "./routes/api/browse.ts";
+import * as $api_collections_collection_id_watch_in_order from "./routes/api/collections/[collection_id]/watch-in-order.ts";
+import * as $api_content_tmdb_id_episodes from "./routes/api/content/[tmdb_id]/episodes.ts";
+import * as $api_content_tmdb_id_episodes_season_number_ from "./routes/api/content/[tmdb_id]/episodes/[season_number].ts";
 import * as $api_content_tmdb_id_favourite from "./routes/api/content/[tmdb_id]/favourite.ts";
+import * as $api_content_tmdb_id_friends from "./routes/api/content/[tmdb_id]/friends.ts";
 import * as $api_content_tmdb_id_notes from "./routes/api/content/[tmdb_id]/notes.ts";
 import * as $api_content_tmdb_id_rating from "./routes/api/content/[tmdb_id]/rating.ts";
 import * as $api_content_tmdb_id_status from "./routes/api/content/[tmdb_id]/status.ts";
@@ -22,26 +42,38 @@ import * as $api_content_tmdb_id_tags from "./routes/api/content/[tmdb_id]/tags.
 import * as $api_content_tmdb_id_tags_tag_id_ from "./routes/api/content/[tmdb_id]/tags/[tag_id].ts";
 import * as $api_content_tmdb_id_watched from "./routes/api/content/[tmdb_id]/watched.ts";
 import * as $api_content_tmdb_id_watchlist from "./routes/api/content/[tmdb_id]/watchlist.ts";
+import * as $api_events from "./routes/api/events.ts";
+import * as $api_feed from "./routes/api/feed.ts";
 import * as $api_forgot_password from "./routes/api/forgot-password.ts";
-import * as $api_jobs_process_embeddings from "./routes/api/jobs/process-embeddings.ts";
-import * as $api_jobs_sync_streaming from "./routes/api/jobs/sync-streaming.ts";
+import * as $api_impersonation_stop from "./routes/api/impersonation/stop.ts";
+import * as $api_jobs_run from "./routes/api/jobs/run.ts";
 import * as $api_leaving_soon from "./routes/api/leaving-soon.ts";
+import * as $api_library_continue_watching from "./routes/api/library/continue-watching.ts";
 import * as $api_library_favourites from "./routes/api/library/favourites.ts";
 import * as $api_library_lists from "./routes/api/library/lists.ts";
 import * as $api_library_watched from "./routes/api/library/watched.ts";
 import * as $api_library_watchlist from "./routes/api/library/watchlist.ts";
 import * as $api_lists from "./routes/api/lists.ts";
 import * as $api_lists_list_id_ from "./routes/api/lists/[list_id].ts";
+import * as $api_lists_list_id_collaborators from "./routes/api/lists/[list_id]/collaborators.ts";
+import * as $api_lists_list_id_collaborators_user_id_ from "./routes/api/lists/[list_id]/collaborators/[user_id].ts";
+import * as $api_lists_list_id_invites from "./routes/api/lists/[list_id]/invites.ts";
+import * as $api_lists_list_id_invites_invite_id_ from "./routes/api/lists/[list_id]/invites/[invite_id].ts";
 import * as $api_lists_list_id_items from "./routes/api/lists/[list_id]/items.ts";
+import * as $api_lists_invites_token_ from "./routes/api/lists/invites/[token].ts";
 import * as $api_login from "./routes/api/login.ts";
+import * as $api_login_two_factor from "./routes/api/login/two-factor.ts";
 import * as $api_logout from "./routes/api/logout.ts";
 import * as $api_new_releases from "./routes/api/new-releases.ts";
+import * as $api_notifications_digest_preview from "./routes/api/notifications/digest/preview.ts";
 import * as $api_notifications_subscribe from "./routes/api/notifications/subscribe.ts";
 import * as $api_notifications_test from "./routes/api/notifications/test.ts";
 import * as $api_notifications_vapid_key from "./routes/api/notifications/vapid-key.ts";
+import * as $api_people_person_id_follow from "./routes/api/people/[person_id]/follow.ts";
 import * as $api_premium_checkout from "./routes/api/premium/checkout.ts";
 import * as $api_premium_portal from "./routes/api/premium/portal.ts";
 import * as $api_premium_webhook from "./routes/api/premium/webhook.ts";
+import * as $api_profile_user_id_follow from "./routes/api/profile/[user_id]/follow.ts";
 import * as $api_recommendations from "./routes/api/recommendations.ts";
 import * as $api_recommendations_tmdb_id_chat from "./routes/api/recommendations/[tmdb_id]/chat.ts";
 import * as $api_recommendations_tmdb_id_dismiss from "./routes/api/recommendations/[tmdb_id]/dismiss.ts";
@@ -54,16 +86,30 @@ import * as $api_settings_account from "./routes/api/settings/account.ts";
 import * as $api_settings_avatar from "./routes/api/settings/avatar.ts";
 import * as $api_settings_delete_account from "./routes/api/settings/delete-account.ts";
 import * as $api_settings_export from "./routes/api/settings/export.ts";
+import * as $api_settings_identities from "./routes/api/settings/identities.ts";
+import * as $api_settings_identities_identity_id_ from "./routes/api/settings/identities/[identity_id].ts";
+import * as $api_settings_import from "./routes/api/settings/import.ts";
 import * as $api_settings_notification_preferences from "./routes/api/settings/notification-preferences.ts";
 import * as $api_settings_notifications from "./routes/api/settings/notifications.ts";
+import * as $api_settings_passkeys from "./routes/api/settings/passkeys.ts";
+import * as $api_settings_passkeys_passkey_id_ from "./routes/api/settings/passkeys/[passkey_id].ts";
+import * as $api_settings_passkeys_options from "./routes/api/settings/passkeys/options.ts";
 import * as $api_settings_profile from "./routes/api/settings/profile.ts";
 import * as $api_settings_public_profile from "./routes/api/settings/public-profile.ts";
 import * as $api_settings_region from "./routes/api/settings/region.ts";
+import * as $api_settings_restore from "./routes/api/settings/restore.ts";
+import * as $api_settings_services from "./routes/api/settings/services.ts";
+import * as $api_settings_sessions from "./routes/api/settings/sessions.ts";
+import * as $api_settings_sessions_session_id_ from "./routes/api/settings/sessions/[session_id].ts";
+import * as $api_settings_two_factor from "./routes/api/settings/two-factor.ts";
+import * as $api_settings_two_factor_recovery_codes from "./routes/api/settings/two-factor/recovery-codes.ts";
+import * as $api_settings_two_factor_setup from "./routes/api/settings/two-factor/setup.ts";
 import * as $api_signup from "./routes/api/signup.ts";
 import * as $api_tags from "./routes/api/tags.ts";
 import * as $api_trending from "./routes/api/trending.ts";
 import * as $api_user_premium from "./routes/api/user/premium.ts";
 import * as $browse from "./routes/browse.tsx";
+import * as $collection_collection_id_ from "./routes/collection/[collection_id].tsx";
 import * as $content_tmdb_id_ from "./routes/content/[tmdb_id].tsx";
 import * as $dashboard from "./routes/dashboard.tsx";
 import * as $docs_api from "./routes/docs/api.tsx";
@@ -71,7 +117,9 @@ import * as $forgot_password from "./routes/forgot-password.tsx";
 import * as $index from "./routes/index.tsx";
 import * as $library from "./routes/library.tsx";
 import * as $lists_list_id_ from "./routes/lists/[list_id].tsx";
+import * as $lists_invite_token_ from "./routes/lists/invite/[token].tsx";
 import * as $login from "./routes/login.tsx";
+import * as $person_person_id_ from "./routes/person/[person_id].tsx";
 import * as $premium from "./routes/premium.tsx";
 import * as $privacy from "./routes/privacy.tsx";
 import * as $profile_user_id_ from "./routes/profile/[user_id].tsx";
@@ -82,24 +130,37 @@ import * as $settings from "./routes/settings.tsx";
 import * as $signup from "./routes/signup.tsx";
 import * as $sitemap_xml from "./routes/sitemap.xml.ts";
 import * as $terms from "./routes/terms.tsx";
+import * as $AcceptListInvite from "./islands/AcceptListInvite.tsx";
+import * as $ActivityFeed from "./islands/ActivityFeed.tsx";
 import * as $AddToListButton from "./islands/AddToListButton.tsx";
 import * as $AddToWatchlistButton from "./islands/AddToWatchlistButton.tsx";
+import * as $AdminUserActions from "./islands/AdminUserActions.tsx";
 import * as $Analytics from "./islands/Analytics.tsx";
 import * as $AnalyticsDashboard from "./islands/AnalyticsDashboard.tsx";
 import * as $BrowsePage from "./islands/BrowsePage.tsx";
 import * as $ContinueWatching from "./islands/ContinueWatching.tsx";
 import * as $CreateListModal from "./islands/CreateListModal.tsx";
+import * as $DeviceSessions from "./islands/DeviceSessions.tsx";
+import * as $EpisodeTracker from "./islands/EpisodeTracker.tsx";
 import * as $FavouriteButton from "./islands/FavouriteButton.tsx";
+import * as $FollowButton from "./islands/FollowButton.tsx";
+import * as $FollowPersonButton from "./islands/FollowPersonButton.tsx";
+import * as $FriendsWhoWatched from "./islands/FriendsWhoWatched.tsx";
+import * as $ImportLibrary from "./islands/ImportLibrary.tsx";
 import * as $LeavingSoon from "./islands/LeavingSoon.tsx";
 import * as $LibraryTabs from "./islands/LibraryTabs.tsx";
+import * as $LinkedAccounts from "./islands/LinkedAccounts.tsx";
+import * as $ListCollaborators from "./islands/ListCollaborators.tsx";
 import * as $ListSettings from "./islands/ListSettings.tsx";
 import * as $LoginForm from "./islands/LoginForm.tsx";
 import * as $MarkAsWatchedButton from "./islands/MarkAsWatchedButton.tsx";
+import * as $MyServices from "./islands/MyServices.tsx";
 import * as $Navigation from "./islands/Navigation.tsx";
 import * as $NewReleases from "./islands/NewReleases.tsx";
 import * as $NotFoundSearch from "./islands/NotFoundSearch.tsx";
 import * as $NotesComponent from "./islands/NotesComponent.tsx";
 import * as $NotificationPrompt from "./islands/NotificationPrompt.tsx";
+import * as $PasskeySettings from "./islands/PasskeySettings.tsx";
 import * as $PremiumPricingPage from "./islands/PremiumPricingPage.tsx";
 import * as $PublicProfilePage from "./islands/PublicProfilePage.tsx";
 import * as $QuickActions from "./islands/QuickActions.tsx";
@@ -107,6 +168,8 @@ import * as $RatingComponent from "./islands/RatingComponent.tsx";
 import * as $RecommendationChat from "./islands/RecommendationChat.tsx";
 import * as $RecommendationFeed from "./islands/RecommendationFeed.tsx";
 import * as $ReorderableList from "./islands/ReorderableList.tsx";
+import * as $RestoreBackup from "./islands/RestoreBackup.tsx";
+import * as $RetryJobButton from "./islands/RetryJobButton.tsx";
 import * as $SearchPage from "./islands/SearchPage.tsx";
 import * as $SettingsPage from "./islands/SettingsPage.tsx";
 import * as $ShareButton from "./islands/ShareButton.tsx";
@@ -116,24 +179,50 @@ import * as $SwipeableListItem from "./islands/SwipeableListItem.tsx";
 import * as $TagsComponent from "./islands/TagsComponent.tsx";
 import * as $ThemeToggle from "./islands/ThemeToggle.tsx";
 import * as $Toast from "./islands/Toast.tsx";
+import * as $TriggerJobButton from "./islands/TriggerJobButton.tsx";
+import * as $TwoFactorSettings from "./islands/TwoFactorSettings.tsx";
+import * as $WatchInOrderButton from "./islands/WatchInOrderButton.tsx";
 import type { Manifest } from "$fresh/server.ts";
 
 const manifest = {
   routes: {
     "./routes/_404.tsx": $_404,
     "./routes/_app.tsx": $_app,
+    "./routes/_middleware.ts": $_middleware,
     "./routes/admin/analytics.tsx": $admin_analytics,
+    "./routes/admin/audit.tsx": $admin_audit,
+    "./routes/admin/index.tsx": $admin_index,
+    "./routes/admin/jobs.tsx": $admin_jobs,
+    "./routes/admin/users.tsx": $admin_users,
     "./routes/analytics.tsx": $analytics,
     "./routes/api-docs.tsx": $api_docs,
     "./routes/api/[...path].ts": $api_path_,
+    "./routes/api/_middleware.ts": $api_middleware,
+    "./routes/api/admin/audit.ts": $api_admin_audit,
+    "./routes/api/admin/cache.ts": $api_admin_cache,
+    "./routes/api/admin/jobs.ts": $api_admin_jobs,
+    "./routes/api/admin/jobs/[job_id]/retry.ts": $api_admin_jobs_job_id_retry,
+    "./routes/api/admin/users.ts": $api_admin_users,
+    "./routes/api/admin/users/[user_id].ts": $api_admin_users_user_id_,
+    "./routes/api/admin/users/[user_id]/impersonate.ts":
+      $api_admin_users_user_id_impersonate,
     "./routes/api/analytics/summary.ts": $api_analytics_summary,
     "./routes/api/analytics/track.ts": $api_analytics_track,
-    "./routes/api/auth/google.ts": $api_auth_google,
-    "./routes/api/auth/google/callback.ts": $api_auth_google_callback,
+    "./routes/api/auth/[provider].ts": $api_auth_provider_,
+    "./routes/api/auth/[provider]/callback.ts": $api_auth_provider_callback,
+    "./routes/api/auth/passkey/options.ts": $api_auth_passkey_options,
+    "./routes/api/auth/passkey/verify.ts": $api_auth_passkey_verify,
     "./routes/api/auth/resend-verification.ts": $api_auth_resend_verification,
     "./routes/api/auth/verify-email.ts": $api_auth_verify_email,
+    "./routes/api/browse.ts": $api_browse,
+    "./routes/api/collections/[collection_id]/watch-in-order.ts":
+      $api_collections_collection_id_watch_in_order,
+    "./routes/api/content/[tmdb_id]/episodes.ts": $api_content_tmdb_id_episodes,
+    "./routes/api/content/[tmdb_id]/episodes/[season_number].ts":
+      $api_content_tmdb_id_episodes_season_number_,
     "./routes/api/content/[tmdb_id]/favourite.ts":
       $api_content_tmdb_id_favourite,
+    "./routes/api/content/[tmdb_id]/friends.ts": $api_content_tmdb_id_friends,
     "./routes/api/content/[tmdb_id]/notes.ts": $api_content_tmdb_id_notes,
     "./routes/api/content/[tmdb_id]/rating.ts": $api_content_tmdb_id_rating,
     "./routes/api/content/[tmdb_id]/status.ts": $api_content_tmdb_id_status,
@@ -143,26 +232,42 @@ const manifest = {
     "./routes/api/content/[tmdb_id]/watched.ts": $api_content_tmdb_id_watched,
     "./routes/api/content/[tmdb_id]/watchlist.ts":
       $api_content_tmdb_id_watchlist,
+    "./routes/api/events.ts": $api_events,
+    "./routes/api/feed.ts": $api_feed,
     "./routes/api/forgot-password.ts": $api_forgot_password,
-    "./routes/api/jobs/process-embeddings.ts": $api_jobs_process_embeddings,
-    "./routes/api/jobs/sync-streaming.ts": $api_jobs_sync_streaming,
+    "./routes/api/impersonation/stop.ts": $api_impersonation_stop,
+    "./routes/api/jobs/run.ts": $api_jobs_run,
     "./routes/api/leaving-soon.ts": $api_leaving_soon,
+    "./routes/api/library/continue-watching.ts": $api_library_continue_watching,
     "./routes/api/library/favourites.ts": $api_library_favourites,
     "./routes/api/library/lists.ts": $api_library_lists,
     "./routes/api/library/watched.ts": $api_library_watched,
     "./routes/api/library/watchlist.ts": $api_library_watchlist,
     "./routes/api/lists.ts": $api_lists,
     "./routes/api/lists/[list_id].ts": $api_lists_list_id_,
+    "./routes/api/lists/[list_id]/collaborators.ts":
+      $api_lists_list_id_collaborators,
+    "./routes/api/lists/[list_id]/collaborators/[user_id].ts":
+      $api_lists_list_id_collaborators_user_id_,
+    "./routes/api/lists/[list_id]/invites.ts": $api_lists_list_id_invites,
+    "./routes/api/lists/[list_id]/invites/[invite_id].ts":
+      $api_lists_list_id_invites_invite_id_,
     "./routes/api/lists/[list_id]/items.ts": $api_lists_list_id_items,
+    "./routes/api/lists/invites/[token].ts": $api_lists_invites_token_,
     "./routes/api/login.ts": $api_login,
+    "./routes/api/login/two-factor.ts": $api_login_two_factor,
     "./routes/api/logout.ts": $api_logout,
     "./routes/api/new-releases.ts": $api_new_releases,
+    "./routes/api/notifications/digest/preview.ts":
+      $api_notifications_digest_preview,
     "./routes/api/notifications/subscribe.ts": $api_notifications_subscribe,
     "./routes/api/notifications/test.ts": $api_notifications_test,
     "./routes/api/notifications/vapid-key.ts": $api_notifications_vapid_key,
+    "./routes/api/people/[person_id]/follow.ts": $api_people_person_id_follow,
     "./routes/api/premium/checkout.ts": $api_premium_checkout,
     "./routes/api/premium/portal.ts": $api_premium_portal,
     "./routes/api/premium/webhook.ts": $api_premium_webhook,
+    "./routes/api/profile/[user_id]/follow.ts": $api_profile_user_id_follow,
     "./routes/api/recommendations.ts": $api_recommendations,
     "./routes/api/recommendations/[tmdb_id]/chat.ts":
       $api_recommendations_tmdb_id_chat,
@@ -177,17 +282,35 @@ const manifest = {
     "./routes/api/settings/avatar.ts": $api_settings_avatar,
     "./routes/api/settings/delete-account.ts": $api_settings_delete_account,
     "./routes/api/settings/export.ts": $api_settings_export,
+    "./routes/api/settings/identities.ts": $api_settings_identities,
+    "./routes/api/settings/identities/[identity_id].ts":
+      $api_settings_identities_identity_id_,
+    "./routes/api/settings/import.ts": $api_settings_import,
     "./routes/api/settings/notification-preferences.ts":
       $api_settings_notification_preferences,
     "./routes/api/settings/notifications.ts": $api_settings_notifications,
+    "./routes/api/settings/passkeys.ts": $api_settings_passkeys,
+    "./routes/api/settings/passkeys/[passkey_id].ts":
+      $api_settings_passkeys_passkey_id_,
+    "./routes/api/settings/passkeys/options.ts": $api_settings_passkeys_options,
     "./routes/api/settings/profile.ts": $api_settings_profile,
     "./routes/api/settings/public-profile.ts": $api_settings_public_profile,
     "./routes/api/settings/region.ts": $api_settings_region,
+    "./routes/api/settings/restore.ts": $api_settings_restore,
+    "./routes/api/settings/services.ts": $api_settings_services,
+    "./routes/api/settings/sessions.ts": $api_settings_sessions,
+    "./routes/api/settings/sessions/[session_id].ts":
+      $api_settings_sessions_session_id_,
+    "./routes/api/settings/two-factor.ts": $api_settings_two_factor,
+    "./routes/api/settings/two-factor/recovery-codes.ts":
+      $api_settings_two_factor_recovery_codes,
+    "./routes/api/settings/two-factor/setup.ts": $api_settings_two_factor_setup,
     "./routes/api/signup.ts": $api_signup,
     "./routes/api/tags.ts": $api_tags,
     "./routes/api/trending.ts": $api_trending,
     "./routes/api/user/premium.ts": $api_user_premium,
     "./routes/browse.tsx": $browse,
+    "./routes/collection/[collection_id].tsx": $collection_collection_id_,
     "./routes/content/[tmdb_id].tsx": $content_tmdb_id_,
     "./routes/dashboard.tsx": $dashboard,
     "./routes/docs/api.tsx": $docs_api,
@@ -195,7 +318,9 @@ const manifest = {
     "./routes/index.tsx": $index,
     "./routes/library.tsx": $library,
     "./routes/lists/[list_id].tsx": $lists_list_id_,
+    "./routes/lists/invite/[token].tsx": $lists_invite_token_,
     "./routes/login.tsx": $login,
+    "./routes/person/[person_id].tsx": $person_person_id_,
     "./routes/premium.tsx": $premium,
     "./routes/privacy.tsx": $privacy,
     "./routes/profile/[user_id].tsx": $profile_user_id_,
@@ -208,24 +333,37 @@ const manifest = {
     "./routes/terms.tsx": $terms,
   },
   islands: {
+    "./islands/AcceptListInvite.tsx": $AcceptListInvite,
+    "./islands/ActivityFeed.tsx": $ActivityFeed,
     "./islands/AddToListButton.tsx": $AddToListButton,
     "./islands/AddToWatchlistButton.tsx": $AddToWatchlistButton,
+    "./islands/AdminUserActions.tsx": $AdminUserActions,
     "./islands/Analytics.tsx": $Analytics,
     "./islands/AnalyticsDashboard.tsx": $AnalyticsDashboard,
     "./islands/BrowsePage.tsx": $BrowsePage,
     "./islands/ContinueWatching.tsx": $ContinueWatching,
     "./islands/CreateListModal.tsx": $CreateListModal,
+    "./islands/DeviceSessions.tsx": $DeviceSessions,
+    "./islands/EpisodeTracker.tsx": $EpisodeTracker,
     "./islands/FavouriteButton.tsx": $FavouriteButton,
+    "./islands/FollowButton.tsx": $FollowButton,
+    "./islands/FollowPersonButton.tsx": $FollowPersonButton,
+    "./islands/FriendsWhoWatched.tsx": $FriendsWhoWatched,
+    "./islands/ImportLibrary.tsx": $ImportLibrary,
     "./islands/LeavingSoon.tsx": $LeavingSoon,
     "./islands/LibraryTabs.tsx": $LibraryTabs,
+    "./islands/LinkedAccounts.tsx": $LinkedAccounts,
+    "./islands/ListCollaborators.tsx": $ListCollaborators,
     "./islands/ListSettings.tsx": $ListSettings,
     "./islands/LoginForm.tsx": $LoginForm,
     "./islands/MarkAsWatchedButton.tsx": $MarkAsWatchedButton,
+    "./islands/MyServices.tsx": $MyServices,
     "./islands/Navigation.tsx": $Navigation,
     "./islands/NewReleases.tsx": $NewReleases,
     "./islands/NotFoundSearch.tsx": $NotFoundSearch,
     "./islands/NotesComponent.tsx": $NotesComponent,
     "./islands/NotificationPrompt.tsx": $NotificationPrompt,
+    "./islands/PasskeySettings.tsx": $PasskeySettings,
     "./islands/PremiumPricingPage.tsx": $PremiumPricingPage,
     "./islands/PublicProfilePage.tsx": $PublicProfilePage,
     "./islands/QuickActions.tsx": $QuickActions,
@@ -233,6 +371,8 @@ const manifest = {
     "./islands/RecommendationChat.tsx": $RecommendationChat,
     "./islands/RecommendationFeed.tsx": $RecommendationFeed,
     "./islands/ReorderableList.tsx": $ReorderableList,
+    "./islands/RestoreBackup.tsx": $RestoreBackup,
+    "./islands/RetryJobButton.tsx": $RetryJobButton,
     "./islands/SearchPage.tsx": $SearchPage,
     "./islands/SettingsPage.tsx": $SettingsPage,
     "./islands/ShareButton.tsx": $ShareButton,
@@ -242,6 +382,9 @@ const manifest = {
     "./islands/TagsComponent.tsx": $TagsComponent,
     "./islands/ThemeToggle.tsx": $ThemeToggle,
     "./islands/Toast.tsx": $Toast,
+    "./islands/TriggerJobButton.tsx": $TriggerJobButton,
+    "./islands/TwoFactorSettings.tsx": $TwoFactorSettings,
+    "./islands/WatchInOrderButton.tsx": $WatchInOrderButton,
   },
   baseUrl: import.meta.url,
 } satisfies Manifest;
@@ -0,0 +1,57 @@
+import { useState } from "preact/hooks";
+
+interface AcceptListInviteProps {
+  token: string;
+}
+
+/**
+ * Island component for accepting an invite to collaborate on a list
+ */
+export default function AcceptListInvite({ token }: AcceptListInviteProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/lists/invites/${encodeURIComponent(token)}`,
+        { method: "POST" },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || data.error || "Failed to accept invite",
+        );
+      }
+
+      globalThis.location.href = `/lists/${data.list_id}`;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div class="space-y-4">
+      <button
+        type="button"
+        onClick={handleAccept}
+        disabled={loading}
+        class={`w-full px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          loading ? "opacity-50 cursor-not-allowed" : ""
+        }`}
+      >
+        {loading ? "Joining..." : "Accept invite"}
+      </button>
+      {error && (
+        <div class="rounded-md bg-red-50 p-4">
+          <p class="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
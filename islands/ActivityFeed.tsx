@@ -0,0 +1,151 @@
+import { useEffect, useState } from "preact/hooks";
+import { IS_BROWSER } from "$fresh/runtime.ts";
+import { getPosterUrl } from "../lib/images.ts";
+import type { FeedEvent } from "../lib/social/activity.ts";
+
+const PAGE_SIZE = 20;
+
+/**
+ * Describe a feed event in words
+ */
+function describeEvent(event: FeedEvent): string {
+  switch (event.type) {
+    case "watched":
+      return "watched";
+    case "rated":
+      return `rated ${event.rating}/10`;
+    case "list_add":
+      return `added to ${event.list?.name ?? "a list"}`;
+  }
+}
+
+/**
+ * Format a timestamp relative to now (e.g. "3h ago")
+ */
+function formatRelativeTime(iso: string): string {
+  const seconds = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days}d ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+/**
+ * Island component for the dashboard activity feed
+ * Shows what followed users have recently watched, rated and added to lists
+ */
+export default function ActivityFeed() {
+  const [events, setEvents] = useState<FeedEvent[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = async (before: string | null) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (before) {
+        params.set("before", before);
+      }
+
+      const response = await fetch(`/api/feed?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to load activity feed");
+      }
+
+      const data: { events: FeedEvent[]; next_before: string | null } =
+        await response.json();
+      setEvents((current) =>
+        before ? [...current, ...data.events] : data.events
+      );
+      setNextBefore(data.next_before);
+    } catch (err) {
+      console.error("Error loading activity feed:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load activity feed",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!IS_BROWSER) return;
+    loadPage(null);
+  }, []);
+
+  return (
+    <section class="bg-white shadow rounded-lg p-6">
+      <h2 class="text-xl font-semibold text-gray-900 mb-4">
+        Friends' Activity
+      </h2>
+
+      {error && <p class="text-sm text-red-600 mb-4">{error}</p>}
+
+      {!loading && !error && events.length === 0 && (
+        <p class="text-sm text-gray-500">
+          Nothing here yet. Follow people from their public profiles to see what
+          they're watching.
+        </p>
+      )}
+
+      <ul class="divide-y divide-gray-100">
+        {events.map((event) => {
+          const name = event.user.display_name || "Anonymous User";
+          return (
+            <li key={event.id} class="flex items-center gap-4 py-3">
+              <a href={`/content/${event.content.tmdb_id}`} class="shrink-0">
+                <img
+                  src={getPosterUrl(event.content.poster_path, "w92")}
+                  alt={event.content.title}
+                  class="w-12 aspect-[2/3] rounded object-cover"
+                  loading="lazy"
+                  width="48"
+                  height="72"
+                />
+              </a>
+              <div class="min-w-0 flex-1">
+                <p class="text-sm text-gray-900">
+                  <a
+                    href={`/profile/${event.user.id}`}
+                    class="font-medium hover:text-indigo-600"
+                  >
+                    {name}
+                  </a>{" "}
+                  {describeEvent(event)}{" "}
+                  <a
+                    href={`/content/${event.content.tmdb_id}`}
+                    class="font-medium hover:text-indigo-600"
+                  >
+                    {event.content.title}
+                  </a>
+                </p>
+                <p class="text-xs text-gray-500 mt-1">
+                  {formatRelativeTime(event.created_at)}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {loading && <p class="text-sm text-gray-500 mt-4">Loading...</p>}
+
+      {!loading && nextBefore && (
+        <button
+          type="button"
+          onClick={() => loadPage(nextBefore)}
+          class="mt-4 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          Load more
+        </button>
+      )}
+    </section>
+  );
+}
@@ -6,6 +6,7 @@ interface List {
   name: string;
   description: string | null;
   item_count: number;
+  role: "owner" | "editor" | "viewer";
 }
 
 interface AddToListButtonProps {
@@ -14,7 +15,8 @@ interface AddToListButtonProps {
 
 /**
  * Island component for adding content to custom lists
- * Shows a dropdown with user's lists and allows adding content to selected list
+ * Shows a dropdown with user's lists (including shared lists they can edit)
+ * and allows adding content to selected list
  */
 export default function AddToListButton({ tmdbId }: AddToListButtonProps) {
   const [lists, setLists] = useState<List[]>([]);
@@ -35,7 +37,10 @@ export default function AddToListButton({ tmdbId }: AddToListButtonProps) {
           throw new Error("Failed to fetch lists");
         }
         const data = await response.json();
-        setLists(data.lists || []);
+        // Shared lists only accept new items from editors
+        setLists(
+          (data.lists || []).filter((list: List) => list.role !== "viewer"),
+        );
       } catch (error) {
         console.error("Error fetching lists:", error);
         setError("Failed to load lists");
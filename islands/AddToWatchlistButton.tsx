@@ -1,6 +1,7 @@
 import { useState } from "preact/hooks";
 import { IS_BROWSER } from "$fresh/runtime.ts";
 import { useToast } from "./Toast.tsx";
+import { useRealtimeEvents } from "../lib/realtime/client.ts";
 
 interface AddToWatchlistButtonProps {
   tmdbId: number;
@@ -20,6 +21,15 @@ export default function AddToWatchlistButton(
   const [isLoading, setIsLoading] = useState(false);
   const { showToast, ToastContainer } = useToast();
 
+  // Keep in sync with changes made in other tabs and devices
+  useRealtimeEvents((message) => {
+    if (
+      message.type === "content" && message.tmdb_id === tmdbId && !isLoading
+    ) {
+      setIsInWatchlist(message.status === "to_watch");
+    }
+  });
+
   const handleToggle = async () => {
     if (!IS_BROWSER || isLoading) return;
 
@@ -0,0 +1,133 @@
+import { useState } from "preact/hooks";
+
+type UserRole = "user" | "support" | "admin";
+
+interface AdminUserActionsProps {
+  userId: string;
+  email: string;
+  role: UserRole;
+  premium: boolean;
+  /** Whether the viewer is an admin and can change the user */
+  canManage: boolean;
+  /** Whether the viewer can impersonate the user */
+  canImpersonate: boolean;
+}
+
+/**
+ * Premium toggle, role picker and impersonate button for a row on the
+ * admin users page
+ */
+export default function AdminUserActions(
+  { userId, email, role, premium, canManage, canImpersonate }:
+    AdminUserActionsProps,
+) {
+  const [current, setCurrent] = useState({ role, premium });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (changes: { role?: UserRole; premium?: boolean }) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update user");
+      }
+
+      setCurrent({ role: data.user.role, premium: data.user.premium });
+    } catch (err) {
+      console.error("Failed to update user:", err);
+      setError(err instanceof Error ? err.message : "Failed to update user");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const impersonate = async () => {
+    const reason = globalThis.prompt(
+      `Sign in as ${email}? Everything you do will be recorded.\n\nReason (optional):`,
+    );
+    if (reason === null) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/impersonate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to impersonate user");
+      }
+
+      globalThis.location.href = data.redirectTo;
+    } catch (err) {
+      console.error("Failed to impersonate user:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to impersonate user",
+      );
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div class="flex flex-col items-end gap-1">
+      <div class="flex items-center gap-2">
+        {canManage && (
+          <>
+            <label class="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={current.premium}
+                disabled={loading}
+                onChange={(e) =>
+                  update({ premium: (e.target as HTMLInputElement).checked })}
+              />
+              Complimentary premium
+            </label>
+            <select
+              value={current.role}
+              disabled={loading}
+              onChange={(e) =>
+                update({
+                  role: (e.target as HTMLSelectElement).value as UserRole,
+                })}
+              class="text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+              aria-label={`Role for ${email}`}
+            >
+              <option value="user">User</option>
+              <option value="support">Support</option>
+              <option value="admin">Admin</option>
+            </select>
+          </>
+        )}
+        {canImpersonate && current.role === "user" && (
+          <button
+            type="button"
+            onClick={impersonate}
+            disabled={loading}
+            class={`px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+              loading ? "opacity-50 cursor-not-allowed" : ""
+            }`}
+          >
+            Impersonate
+          </button>
+        )}
+      </div>
+      {error && <p class="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,10 +1,22 @@
-import { useEffect, useState } from "preact/hooks";
+import { useEffect, useRef, useState } from "preact/hooks";
 import type { Content } from "../lib/tmdb/client.ts";
 import {
   getGridPosterSize,
   getPosterSrcSet,
   getPosterUrl,
 } from "../lib/images.ts";
+import {
+  BROWSE_GENRES,
+  BROWSE_LANGUAGES,
+  BROWSE_PROVIDERS,
+  BROWSE_REGIONS,
+  type BrowseFilters,
+  browseFiltersToParams,
+  type BrowseSort,
+  DEFAULT_BROWSE_FILTERS,
+  hasActiveBrowseFilters,
+  parseBrowseFilters,
+} from "../lib/browse/filters.ts";
 import ContentGrid from "../components/ContentGrid.tsx";
 import QuickActions from "./QuickActions.tsx";
 import { useToast } from "./Toast.tsx";
@@ -12,50 +24,157 @@ import NewReleases from "./NewReleases.tsx";
 import LeavingSoon from "./LeavingSoon.tsx";
 import SkeletonCard from "../components/SkeletonCard.tsx";
 
-interface TrendingResponse {
+interface BrowseResponse {
   results: Content[];
   total_results: number;
   page: number;
   total_pages: number;
+  region: string | null;
+}
+
+interface BrowsePageProps {
+  /** Filters from the page URL, so shared links open filtered */
+  initialFilters?: BrowseFilters;
 }
 
+const SORT_OPTIONS: Array<{ value: BrowseSort; label: string }> = [
+  { value: "popularity", label: "Most popular" },
+  { value: "rating", label: "Highest rated" },
+  { value: "newest", label: "Newest" },
+];
+
+const RATING_OPTIONS = [5, 6, 7, 8];
+
+const RUNTIME_OPTIONS: Array<{
+  label: string;
+  min: number | null;
+  max: number | null;
+}> = [
+  { label: "Any length", min: null, max: null },
+  { label: "Under 30 min", min: null, max: 30 },
+  { label: "Under 90 min", min: null, max: 90 },
+  { label: "90-120 min", min: 90, max: 120 },
+  { label: "Over 2 hours", min: 120, max: null },
+];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-sm border transition-colors ${
+    active
+      ? "bg-indigo-600 border-indigo-600 text-white"
+      : "bg-white border-gray-300 text-gray-700 hover:border-indigo-400"
+  }`;
+
+const selectClass =
+  "px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
 /**
  * Browse page island component
- * Displays trending content and other browse sections
+ * Filterable, paginated catalogue backed by TMDB discover. Filters live in
+ * the URL so a filtered view can be shared or bookmarked.
  */
-export default function BrowsePage() {
-  const [trending, setTrending] = useState<Content[]>([]);
+export default function BrowsePage(
+  { initialFilters = DEFAULT_BROWSE_FILTERS }: BrowsePageProps,
+) {
+  const [filters, setFilters] = useState<BrowseFilters>(initialFilters);
+  const [results, setResults] = useState<Content[]>([]);
+  const [totalPages, setTotalPages] = useState(0);
+  const [totalResults, setTotalResults] = useState(0);
+  const [region, setRegion] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [contentStatuses, setContentStatuses] = useState<
     Record<number, "watched" | "to_watch" | "favourite" | null>
   >({});
   const { showToast, ToastContainer } = useToast();
+  // Set while applying filters from browser history, so they aren't pushed back
+  const fromHistory = useRef(false);
+  const resultsTop = useRef<HTMLElement>(null);
 
-  // Fetch trending content on mount
+  // Keep filters in sync with back/forward navigation
   useEffect(() => {
-    const fetchTrending = async () => {
+    const handlePopState = () => {
+      const parsed = parseBrowseFilters(
+        new URLSearchParams(globalThis.location.search),
+      );
+      fromHistory.current = true;
+      setFilters(parsed.filters ?? DEFAULT_BROWSE_FILTERS);
+    };
+
+    globalThis.addEventListener("popstate", handlePopState);
+    return () => globalThis.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  // Fetch results whenever filters change
+  useEffect(() => {
+    const params = browseFiltersToParams(filters);
+    const query = params.toString();
+
+    if (fromHistory.current) {
+      fromHistory.current = false;
+    } else if (query !== globalThis.location.search.replace(/^\?/, "")) {
+      globalThis.history.pushState(
+        null,
+        "",
+        query ? `/browse?${query}` : "/browse",
+      );
+    }
+
+    // The API needs the type even when it's the default
+    params.set("type", filters.type);
+
+    const controller = new AbortController();
+    const fetchResults = async () => {
       try {
         setLoading(true);
         setError(null);
 
-        const response = await fetch("/api/trending?time_window=day&page=1");
+        const response = await fetch(`/api/browse?${params}`, {
+          signal: controller.signal,
+        });
 
         if (!response.ok) {
-          throw new Error("Failed to fetch trending content");
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.message || "Failed to fetch titles");
         }
 
-        const data: TrendingResponse = await response.json();
-        setTrending(data.results);
+        const data: BrowseResponse = await response.json();
+        setResults(data.results);
+        setTotalPages(data.total_pages);
+        setTotalResults(data.total_results);
+        setRegion(data.region);
       } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") {
+          return;
+        }
         setError(err instanceof Error ? err.message : "An error occurred");
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
-    fetchTrending();
-  }, []);
+    fetchResults();
+    return () => controller.abort();
+  }, [filters]);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<BrowseFilters>) => {
+    setFilters((prev) => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const goToPage = (page: number) => {
+    setFilters((prev) => ({ ...prev, page }));
+    resultsTop.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  const toggleId = (ids: number[], id: number) =>
+    ids.includes(id) ? ids.filter((value) => value !== id) : [...ids, id];
+
+  const parseYear = (value: string) => {
+    const year = parseInt(value, 10);
+    return Number.isInteger(year) ? year : null;
+  };
 
   // Fetch content status when hovering over a card
   const fetchContentStatus = async (tmdbId: number) => {
@@ -122,16 +241,275 @@ export default function BrowsePage() {
     }
   };
 
+  const filtered = hasActiveBrowseFilters(filters);
+  const runtimeIndex = RUNTIME_OPTIONS.findIndex((option) =>
+    option.min === filters.runtimeMin && option.max === filters.runtimeMax
+  );
+
   return (
     <div>
       <ToastContainer />
-      {/* New Releases Section */}
-      <NewReleases />
-      {/* Leaving Soon Section */}
-      <LeavingSoon />
-      {/* Trending Section */}
-      <section class="mb-12">
-        <h2 class="text-2xl font-bold text-gray-900 mb-6">Trending</h2>
+      {/* Curated sections on the unfiltered landing view only */}
+      {!filtered && filters.page === 1 && (
+        <>
+          {/* New Releases Section */}
+          <NewReleases />
+          {/* Leaving Soon Section */}
+          <LeavingSoon />
+        </>
+      )}
+      {/* Catalogue Section */}
+      <section class="mb-12" ref={resultsTop}>
+        <div class="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div class="inline-flex rounded-md shadow-sm" role="group">
+            {(["movie", "tv"] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() =>
+                  updateFilters({
+                    type,
+                    // Genre IDs differ between movies and TV
+                    genres: filters.genres.filter((id) =>
+                      BROWSE_GENRES[type].some((genre) => genre.id === id)
+                    ),
+                  })}
+                aria-pressed={filters.type === type}
+                class={`px-4 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md ${
+                  filters.type === type
+                    ? "bg-indigo-600 border-indigo-600 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {type === "movie" ? "Movies" : "TV Shows"}
+              </button>
+            ))}
+          </div>
+
+          <div class="flex items-center gap-2">
+            <label for="browse-sort" class="text-sm text-gray-600">
+              Sort by
+            </label>
+            <select
+              id="browse-sort"
+              value={filters.sort}
+              onChange={(e) =>
+                updateFilters({
+                  sort: (e.target as HTMLSelectElement).value as BrowseSort,
+                })}
+              class={selectClass}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6 space-y-4">
+          <div>
+            <h3 class="text-sm font-medium text-gray-700 mb-2">Genres</h3>
+            <div class="flex flex-wrap gap-2">
+              {BROWSE_GENRES[filters.type].map((genre) => (
+                <button
+                  key={genre.id}
+                  type="button"
+                  aria-pressed={filters.genres.includes(genre.id)}
+                  onClick={() =>
+                    updateFilters({
+                      genres: toggleId(filters.genres, genre.id),
+                    })}
+                  class={chipClass(filters.genres.includes(genre.id))}
+                >
+                  {genre.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 class="text-sm font-medium text-gray-700 mb-2">
+              Streaming on
+            </h3>
+            <div class="flex flex-wrap items-center gap-2">
+              {BROWSE_PROVIDERS.map((provider) => (
+                <button
+                  key={provider.id}
+                  type="button"
+                  aria-pressed={filters.providers.includes(provider.id)}
+                  onClick={() =>
+                    updateFilters({
+                      providers: toggleId(filters.providers, provider.id),
+                    })}
+                  class={chipClass(filters.providers.includes(provider.id))}
+                >
+                  {provider.name}
+                </button>
+              ))}
+              <select
+                aria-label="Streaming region"
+                value={filters.region ?? ""}
+                onChange={(e) => {
+                  const value = (e.target as HTMLSelectElement).value;
+                  updateFilters({
+                    region: BROWSE_REGIONS.find((r) => r.code === value)
+                      ?.code ?? null,
+                  });
+                }}
+                class={selectClass}
+              >
+                <option value="">Your region</option>
+                {BROWSE_REGIONS.map((option) => (
+                  <option key={option.code} value={option.code}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div class="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div>
+              <label
+                for="browse-year-from"
+                class="block text-sm font-medium text-gray-700 mb-1"
+              >
+                From year
+              </label>
+              <input
+                id="browse-year-from"
+                type="number"
+                min="1874"
+                placeholder="Any"
+                value={filters.yearFrom ?? ""}
+                onChange={(e) =>
+                  updateFilters({
+                    yearFrom: parseYear((e.target as HTMLInputElement).value),
+                  })}
+                class={`${selectClass} w-full`}
+              />
+            </div>
+            <div>
+              <label
+                for="browse-year-to"
+                class="block text-sm font-medium text-gray-700 mb-1"
+              >
+                To year
+              </label>
+              <input
+                id="browse-year-to"
+                type="number"
+                min="1874"
+                placeholder="Any"
+                value={filters.yearTo ?? ""}
+                onChange={(e) =>
+                  updateFilters({
+                    yearTo: parseYear((e.target as HTMLInputElement).value),
+                  })}
+                class={`${selectClass} w-full`}
+              />
+            </div>
+            <div>
+              <label
+                for="browse-rating"
+                class="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Rating
+              </label>
+              <select
+                id="browse-rating"
+                value={filters.minRating ?? ""}
+                onChange={(e) => {
+                  const value = (e.target as HTMLSelectElement).value;
+                  updateFilters({ minRating: value ? Number(value) : null });
+                }}
+                class={`${selectClass} w-full`}
+              >
+                <option value="">Any rating</option>
+                {RATING_OPTIONS.map((rating) => (
+                  <option key={rating} value={rating}>{rating}+</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                for="browse-runtime"
+                class="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Runtime
+              </label>
+              <select
+                id="browse-runtime"
+                value={runtimeIndex === -1 ? 0 : runtimeIndex}
+                onChange={(e) => {
+                  const option = RUNTIME_OPTIONS[
+                    Number((e.target as HTMLSelectElement).value)
+                  ];
+                  updateFilters({
+                    runtimeMin: option.min,
+                    runtimeMax: option.max,
+                  });
+                }}
+                class={`${selectClass} w-full`}
+              >
+                {RUNTIME_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                for="browse-language"
+                class="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Language
+              </label>
+              <select
+                id="browse-language"
+                value={filters.language ?? ""}
+                onChange={(e) => {
+                  const value = (e.target as HTMLSelectElement).value;
+                  updateFilters({ language: value || null });
+                }}
+                class={`${selectClass} w-full`}
+              >
+                <option value="">Any language</option>
+                {BROWSE_LANGUAGES.map((language) => (
+                  <option key={language.code} value={language.code}>
+                    {language.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {filtered && (
+            <button
+              type="button"
+              onClick={() =>
+                updateFilters({
+                  ...DEFAULT_BROWSE_FILTERS,
+                  type: filters.type,
+                })}
+              class="text-sm text-indigo-600 hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {!loading && !error && totalResults > 0 && (
+          <p class="text-sm text-gray-600 mb-4">
+            {totalResults.toLocaleString()}{" "}
+            {filters.type === "movie" ? "movies" : "TV shows"}
+            {region && ` streaming in ${region}`}
+          </p>
+        )}
 
         {/* Loading State - Skeleton Cards */}
         {loading && (
@@ -147,10 +525,10 @@ export default function BrowsePage() {
           </div>
         )}
 
-        {/* Trending Content Grid */}
-        {!loading && !error && trending.length > 0 && (
+        {/* Content Grid */}
+        {!loading && !error && results.length > 0 && (
           <ContentGrid>
-            {trending.map((content) => (
+            {results.map((content) => (
               <a
                 href={`/content/${content.tmdb_id}`}
                 class="block group relative hover:scale-105 transition-transform"
@@ -209,11 +587,39 @@ export default function BrowsePage() {
         )}
 
         {/* Empty State */}
-        {!loading && !error && trending.length === 0 && (
+        {!loading && !error && results.length === 0 && (
           <div class="text-center py-8">
-            <p class="text-gray-600">No trending content available</p>
+            <p class="text-gray-600">No titles match these filters</p>
           </div>
         )}
+
+        {/* Pagination */}
+        {!error && totalPages > 1 && (
+          <nav
+            class="flex items-center justify-center gap-4 mt-8"
+            aria-label="Pagination"
+          >
+            <button
+              type="button"
+              onClick={() => goToPage(filters.page - 1)}
+              disabled={loading || filters.page <= 1}
+              class="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span class="text-sm text-gray-600">
+              Page {filters.page} of {totalPages}
+            </span>
+            <button
+              type="button"
+              onClick={() => goToPage(filters.page + 1)}
+              disabled={loading || filters.page >= totalPages}
+              class="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </nav>
+        )}
       </section>
     </div>
   );
@@ -6,37 +6,53 @@ import {
 } from "../lib/images.ts";
 import SkeletonCard from "../components/SkeletonCard.tsx";
 
-interface WatchedContent {
+interface NextEpisode {
+  season_number: number;
+  episode_number: number;
+  name: string | null;
+  air_date: string | null;
+  still_path: string | null;
+}
+
+interface ContinueWatchingContent {
   tmdb_id: number;
   type: "movie" | "tv" | "documentary";
   title: string;
   poster_path: string | null;
   release_date: string | null;
   watched_at: string;
-  rating: number | null;
+  next_episode: NextEpisode | null;
+}
+
+interface ContinueWatchingResponse {
+  content: ContinueWatchingContent[];
 }
 
-interface WatchedResponse {
-  content: WatchedContent[];
+/**
+ * Format an episode reference as "S1 · E2"
+ */
+function formatEpisodeCode(episode: NextEpisode): string {
+  return `S${episode.season_number} · E${episode.episode_number}`;
 }
 
 /**
  * Continue Watching section component
- * Displays recently watched content for quick access
+ * Displays the next unwatched episode of shows in progress,
+ * followed by recently watched content for quick access
  */
 export default function ContinueWatching() {
-  const [content, setContent] = useState<WatchedContent[]>([]);
+  const [content, setContent] = useState<ContinueWatchingContent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch recently watched content on mount
+  // Fetch continue watching feed on mount
   useEffect(() => {
     const fetchWatched = async () => {
       try {
         setLoading(true);
         setError(null);
 
-        const response = await fetch("/api/library/watched");
+        const response = await fetch("/api/library/continue-watching?limit=6");
 
         if (!response.ok) {
           if (response.status === 401) {
@@ -45,9 +61,8 @@ export default function ContinueWatching() {
           throw new Error("Failed to fetch watched content");
         }
 
-        const data: WatchedResponse = await response.json();
-        // Limit to most recent 6 items for home feed
-        setContent((data.content || []).slice(0, 6));
+        const data: ContinueWatchingResponse = await response.json();
+        setContent(data.content || []);
       } catch (err) {
         setError(err instanceof Error ? err.message : "An error occurred");
         console.error("Error fetching watched content:", err);
@@ -120,7 +135,13 @@ export default function ContinueWatching() {
                   <h3 class="font-semibold text-sm text-gray-900 mb-1 group-hover:text-indigo-600 transition-colors line-clamp-2">
                     {item.title}
                   </h3>
-                  {item.release_date && (
+                  {item.next_episode && (
+                    <p class="text-xs text-indigo-600 font-medium line-clamp-2">
+                      Next: {formatEpisodeCode(item.next_episode)}
+                      {item.next_episode.name && ` – ${item.next_episode.name}`}
+                    </p>
+                  )}
+                  {!item.next_episode && item.release_date && (
                     <p class="text-xs text-gray-500">
                       {new Date(item.release_date).getFullYear()}
                     </p>
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "preact/hooks";
+
+interface DeviceSession {
+  id: string;
+  device: string;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+function formatLastSeen(date: string): string {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 5) {
+    return "Active now";
+  }
+  if (minutes < 60) {
+    return `Last seen ${minutes} minutes ago`;
+  }
+  return `Last seen ${
+    new Date(date).toLocaleString("en-GB", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }`;
+}
+
+/**
+ * "Devices & sessions" island for the settings page
+ *
+ * Lists the devices the user is signed in on, and lets them sign out of one
+ * or of all of them.
+ */
+export default function DeviceSessions() {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSessions() {
+      try {
+        const response = await fetch("/api/settings/sessions");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load sessions");
+        }
+
+        setSessions(data.sessions);
+      } catch (err) {
+        console.error("Failed to load sessions:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load sessions",
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchSessions();
+  }, []);
+
+  const handleSignOut = async (sessionId: string) => {
+    setBusyId(sessionId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/settings/sessions/${sessionId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to sign out device");
+      }
+
+      setSessions((current) => current.filter((s) => s.id !== sessionId));
+    } catch (err) {
+      console.error("Failed to sign out device:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to sign out device",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (
+      !confirm(
+        "Sign out on every device, including this one? You'll need to sign in again.",
+      )
+    ) {
+      return;
+    }
+
+    setBusyId("all");
+    setError(null);
+
+    try {
+      const response = await fetch("/api/settings/sessions", {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to sign out everywhere");
+      }
+
+      globalThis.location.href = "/login";
+    } catch (err) {
+      console.error("Failed to sign out everywhere:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to sign out everywhere",
+      );
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p class="text-sm text-gray-500 dark:text-gray-400">
+        Loading devices...
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <ul class="divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+        {sessions.map((session) => (
+          <li
+            key={session.id}
+            class="flex items-center justify-between gap-4 py-3"
+          >
+            <div>
+              <p class="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {session.device}
+                {session.current && (
+                  <span class="ml-2 text-xs font-normal text-green-700 dark:text-green-400">
+                    This device
+                  </span>
+                )}
+              </p>
+              <p class="text-xs text-gray-500 dark:text-gray-400">
+                {session.current
+                  ? "Active now"
+                  : formatLastSeen(session.last_seen_at)}
+                {session.ip_address && ` · ${session.ip_address}`}
+              </p>
+            </div>
+            {!session.current && (
+              <button
+                type="button"
+                onClick={() => handleSignOut(session.id)}
+                disabled={busyId !== null}
+                class="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {busyId === session.id ? "Signing out..." : "Sign out"}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <button
+        type="button"
+        onClick={handleSignOutEverywhere}
+        disabled={busyId !== null}
+        class="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-800 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+      >
+        {busyId === "all" ? "Signing out..." : "Sign out everywhere"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "preact/hooks";
+import { IS_BROWSER } from "$fresh/runtime.ts";
+import { useToast } from "./Toast.tsx";
+
+interface EpisodeTrackerProps {
+  tmdbId: number;
+}
+
+interface SeasonProgress {
+  season_number: number;
+  name: string;
+  watched_episodes: number;
+  total_episodes: number;
+  completed: boolean;
+}
+
+interface EpisodeRef {
+  season_number: number;
+  episode_number: number;
+}
+
+interface ProgressResponse {
+  seasons: SeasonProgress[];
+  next_episode: EpisodeRef | null;
+}
+
+interface Episode {
+  episode_number: number;
+  name: string;
+  air_date: string | null;
+  runtime: number | null;
+  watched: boolean;
+}
+
+/**
+ * Island component for tracking watched seasons and episodes of a TV show
+ * Shows per-season progress and lets users tick off individual episodes
+ */
+export default function EpisodeTracker({ tmdbId }: EpisodeTrackerProps) {
+  const [seasons, setSeasons] = useState<SeasonProgress[]>([]);
+  const [nextEpisode, setNextEpisode] = useState<EpisodeRef | null>(null);
+  const [openSeason, setOpenSeason] = useState<number | null>(null);
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const { showToast, ToastContainer } = useToast();
+
+  const loadProgress = async () => {
+    const response = await fetch(`/api/content/${tmdbId}/episodes`);
+    if (!response.ok) {
+      throw new Error("Failed to load episode progress");
+    }
+    const data: ProgressResponse = await response.json();
+    setSeasons(data.seasons.filter((season) => season.total_episodes > 0));
+    setNextEpisode(data.next_episode);
+  };
+
+  const loadEpisodes = async (seasonNumber: number) => {
+    const response = await fetch(
+      `/api/content/${tmdbId}/episodes/${seasonNumber}`,
+    );
+    if (!response.ok) {
+      throw new Error("Failed to load episodes");
+    }
+    const data: { episodes: Episode[] } = await response.json();
+    setEpisodes(data.episodes);
+  };
+
+  useEffect(() => {
+    if (!IS_BROWSER) return;
+    loadProgress()
+      .catch((error) => console.error("Error loading progress:", error))
+      .finally(() => setLoading(false));
+  }, [tmdbId]);
+
+  const toggleSeasonOpen = async (seasonNumber: number) => {
+    if (openSeason === seasonNumber) {
+      setOpenSeason(null);
+      return;
+    }
+
+    setOpenSeason(seasonNumber);
+    setEpisodes([]);
+    try {
+      await loadEpisodes(seasonNumber);
+    } catch (error) {
+      console.error("Error loading episodes:", error);
+      showToast("Failed to load episodes. Please try again.", "error");
+    }
+  };
+
+  const updateProgress = async (
+    method: "POST" | "DELETE",
+    seasonNumber: number,
+    episodeNumber?: number,
+  ) => {
+    if (updating) return;
+    setUpdating(true);
+
+    try {
+      const response = await fetch(`/api/content/${tmdbId}/episodes`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          season_number: seasonNumber,
+          episode_number: episodeNumber,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorMessage = response.status === 401
+          ? "Please log in to track episodes"
+          : "Failed to update progress. Please try again.";
+        showToast(errorMessage, "error");
+        return;
+      }
+
+      await loadProgress();
+      if (openSeason === seasonNumber) {
+        await loadEpisodes(seasonNumber);
+      }
+    } catch (error) {
+      console.error("Error updating episode progress:", error);
+      showToast("An error occurred. Please try again.", "error");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading || seasons.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <ToastContainer />
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="text-lg font-medium text-gray-800">Episodes</h3>
+        {nextEpisode && (
+          <span class="text-sm text-indigo-600 font-medium">
+            Up next: S{nextEpisode.season_number} · E{nextEpisode
+              .episode_number}
+          </span>
+        )}
+      </div>
+      <ul class="space-y-2">
+        {seasons.map((season) => (
+          <li
+            key={season.season_number}
+            class="bg-white rounded-lg border border-gray-200"
+          >
+            <div class="flex items-center gap-3 p-3">
+              <button
+                type="button"
+                onClick={() => toggleSeasonOpen(season.season_number)}
+                aria-expanded={openSeason === season.season_number}
+                class="flex-1 text-left"
+              >
+                <span class="font-medium text-gray-900">{season.name}</span>
+                <span class="ml-2 text-sm text-gray-600">
+                  {season.watched_episodes} / {season.total_episodes}
+                </span>
+                <div class="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    class="h-full bg-green-600"
+                    style={`width: ${
+                      Math.round(
+                        (season.watched_episodes / season.total_episodes) *
+                          100,
+                      )
+                    }%`}
+                  />
+                </div>
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  updateProgress(
+                    season.completed ? "DELETE" : "POST",
+                    season.season_number,
+                  )}
+                disabled={updating}
+                class={`px-3 py-1 text-sm rounded-md font-medium transition-colors ${
+                  season.completed
+                    ? "bg-green-600 text-white hover:bg-green-700"
+                    : "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                } ${updating ? "opacity-50 cursor-not-allowed" : ""}`}
+              >
+                {season.completed ? "✓ Season watched" : "Mark season"}
+              </button>
+            </div>
+            {openSeason === season.season_number && (
+              <ul class="border-t border-gray-200 divide-y divide-gray-100">
+                {episodes.map((episode) => (
+                  <li
+                    key={episode.episode_number}
+                    class="flex items-center gap-3 px-3 py-2"
+                  >
+                    <input
+                      type="checkbox"
+                      id={`episode-${season.season_number}-${episode.episode_number}`}
+                      checked={episode.watched}
+                      disabled={updating}
+                      onChange={() =>
+                        updateProgress(
+                          episode.watched ? "DELETE" : "POST",
+                          season.season_number,
+                          episode.episode_number,
+                        )}
+                      class="h-4 w-4 text-indigo-600 rounded"
+                    />
+                    <label
+                      for={`episode-${season.season_number}-${episode.episode_number}`}
+                      class="flex-1 text-sm text-gray-800"
+                    >
+                      {episode.episode_number}. {episode.name}
+                    </label>
+                    {episode.air_date && (
+                      <span class="text-xs text-gray-500">
+                        {new Date(episode.air_date).toLocaleDateString(
+                          "en-GB",
+                        )}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "preact/hooks";
+import { useToast } from "./Toast.tsx";
+
+interface FollowButtonProps {
+  userId: string;
+  initialFollowing: boolean;
+  initialFollowers: number;
+}
+
+/**
+ * Island component for following or unfollowing a user from their profile
+ */
+export default function FollowButton({
+  userId,
+  initialFollowing,
+  initialFollowers,
+}: FollowButtonProps) {
+  const [following, setFollowing] = useState(initialFollowing);
+  const [followers, setFollowers] = useState(initialFollowers);
+  const [loading, setLoading] = useState(false);
+  const { showToast, ToastContainer } = useToast();
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/profile/${userId}/follow`, {
+        method: following ? "DELETE" : "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to update");
+      }
+
+      setFollowing(data.following);
+      setFollowers(data.followers);
+    } catch (error) {
+      console.error("Error updating follow:", error);
+      showToast(
+        error instanceof Error ? error.message : "Failed to update",
+        "error",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div class="flex items-center gap-4">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={loading}
+        aria-pressed={following}
+        class={`px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          following
+            ? "text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+            : "text-white bg-indigo-600 border border-transparent hover:bg-indigo-700"
+        } ${loading ? "opacity-50 cursor-not-allowed" : ""}`}
+      >
+        {following ? "Following" : "Follow"}
+      </button>
+      <span class="text-sm text-gray-500">
+        {followers} {followers === 1 ? "follower" : "followers"}
+      </span>
+      <ToastContainer />
+    </div>
+  );
+}
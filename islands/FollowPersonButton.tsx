@@ -0,0 +1,71 @@
+import { useState } from "preact/hooks";
+import { useToast } from "./Toast.tsx";
+
+interface FollowPersonButtonProps {
+  personId: number;
+  /** What the person is followed as, e.g. "director" */
+  role: string;
+  initialFollowing: boolean;
+}
+
+/**
+ * Island component for following or unfollowing an actor, director or
+ * other crew member from their person page
+ */
+export default function FollowPersonButton({
+  personId,
+  role,
+  initialFollowing,
+}: FollowPersonButtonProps) {
+  const [following, setFollowing] = useState(initialFollowing);
+  const [loading, setLoading] = useState(false);
+  const { showToast, ToastContainer } = useToast();
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/people/${personId}/follow`, {
+        method: following ? "DELETE" : "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 401
+            ? `Please log in to follow this ${role}`
+            : data.message || data.error || "Failed to update",
+        );
+      }
+
+      setFollowing(data.following);
+    } catch (error) {
+      console.error("Error updating person follow:", error);
+      showToast(
+        error instanceof Error ? error.message : "Failed to update",
+        "error",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={loading}
+        aria-pressed={following}
+        class={`px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          following
+            ? "text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+            : "text-white bg-indigo-600 border border-transparent hover:bg-indigo-700"
+        } ${loading ? "opacity-50 cursor-not-allowed" : ""}`}
+      >
+        {following ? `Following this ${role}` : `Follow this ${role}`}
+      </button>
+      <ToastContainer />
+    </>
+  );
+}
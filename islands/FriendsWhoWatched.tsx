@@ -0,0 +1,97 @@
+import { useEffect, useState } from "preact/hooks";
+import { IS_BROWSER } from "$fresh/runtime.ts";
+
+interface FriendsWhoWatchedProps {
+  tmdbId: number;
+}
+
+interface Friend {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  rating: number | null;
+  watched_at: string | null;
+}
+
+/**
+ * Island component showing followed users who have watched a title
+ * Renders nothing until there is at least one friend to show
+ */
+export default function FriendsWhoWatched({ tmdbId }: FriendsWhoWatchedProps) {
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [total, setTotal] = useState(0);
+
+  useEffect(() => {
+    if (!IS_BROWSER) return;
+
+    fetch(`/api/content/${tmdbId}/friends`)
+      .then((response) => response.ok ? response.json() : null)
+      .then((data: { friends: Friend[]; total: number } | null) => {
+        if (data) {
+          setFriends(data.friends);
+          setTotal(data.total);
+        }
+      })
+      .catch((error) =>
+        console.error("Error loading friends who watched:", error)
+      );
+  }, [tmdbId]);
+
+  if (friends.length === 0) {
+    return null;
+  }
+
+  const others = total - friends.length;
+
+  return (
+    <div class="mb-8">
+      <h2 class="text-2xl font-semibold text-gray-900 mb-3">
+        Friends who watched
+      </h2>
+      <ul class="flex flex-wrap gap-4">
+        {friends.map((friend) => {
+          const name = friend.display_name || "Anonymous User";
+          return (
+            <li key={friend.id}>
+              <a
+                href={`/profile/${friend.id}`}
+                class="flex items-center gap-2 group"
+              >
+                {friend.avatar_url
+                  ? (
+                    <img
+                      src={friend.avatar_url}
+                      alt=""
+                      class="w-10 h-10 rounded-full object-cover"
+                    />
+                  )
+                  : (
+                    <div class="w-10 h-10 rounded-full bg-indigo-100 flex items-center justify-center">
+                      <span class="text-sm font-bold text-indigo-600">
+                        {name.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                  )}
+                <div>
+                  <div class="text-sm font-medium text-gray-900 group-hover:text-indigo-600">
+                    {name}
+                  </div>
+                  {friend.rating !== null && (
+                    <div class="text-xs text-gray-500">
+                      Rated {friend.rating}/10
+                    </div>
+                  )}
+                </div>
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+      {others > 0 && (
+        <p class="mt-3 text-sm text-gray-500">
+          and {others} more {others === 1 ? "friend" : "friends"}
+        </p>
+      )}
+    </div>
+  );
+}
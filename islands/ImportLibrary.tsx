@@ -0,0 +1,286 @@
+import { useState } from "preact/hooks";
+import type { ImportRow, UnmatchedRow } from "../lib/import/formats.ts";
+
+interface ImportResponse {
+  format: string | null;
+  total: number;
+  imported: number;
+  unmatched: UnmatchedRow[];
+}
+
+interface RowFix {
+  tmdbId: string;
+  contentType: "movie" | "tv";
+}
+
+const FORMAT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "", label: "Detect automatically" },
+  { value: "letterboxd_diary", label: "Letterboxd diary.csv" },
+  { value: "letterboxd_ratings", label: "Letterboxd ratings.csv" },
+  { value: "letterboxd_watched", label: "Letterboxd watched.csv" },
+  { value: "letterboxd_watchlist", label: "Letterboxd watchlist.csv" },
+  { value: "imdb_ratings", label: "IMDb ratings" },
+  { value: "imdb_watchlist", label: "IMDb watchlist" },
+  { value: "streamowl_json", label: "StreamOwl JSON export" },
+];
+
+/**
+ * Library import island for the settings page
+ *
+ * Uploads a Letterboxd/IMDb CSV or StreamOwl JSON export, shows a summary of
+ * the import and lets the user fix unmatched rows by entering a TMDB ID.
+ */
+export default function ImportLibrary() {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+  const [fixes, setFixes] = useState<Record<number, RowFix | undefined>>(
+    {},
+  );
+  const [fixingRow, setFixingRow] = useState<number | null>(null);
+
+  const handleImport = async (e: Event) => {
+    e.preventDefault();
+    if (!file) {
+      setError("Choose a file to import");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setFixes({});
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (format) {
+        formData.append("format", format);
+      }
+
+      const response = await fetch("/api/settings/import", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to import library");
+      }
+
+      setResult(data);
+    } catch (err) {
+      console.error("Failed to import library:", err);
+      setError(err instanceof Error ? err.message : "Failed to import library");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFix = (unmatched: UnmatchedRow, fix: Partial<RowFix>) => {
+    setFixes((current) => ({
+      ...current,
+      [unmatched.row]: {
+        tmdbId: "",
+        contentType: unmatched.entry?.content_type ?? "movie",
+        ...current[unmatched.row],
+        ...fix,
+      },
+    }));
+  };
+
+  const handleFixRow = async (unmatched: UnmatchedRow) => {
+    const fix = fixes[unmatched.row];
+    const tmdbId = parseInt(fix?.tmdbId || "", 10);
+    if (!fix || !unmatched.entry || !Number.isInteger(tmdbId) || tmdbId <= 0) {
+      setError("Enter a valid TMDB ID");
+      return;
+    }
+
+    setFixingRow(unmatched.row);
+    setError(null);
+
+    try {
+      const row: ImportRow = {
+        ...unmatched.entry,
+        tmdb_id: tmdbId,
+        content_type: fix.contentType,
+      };
+
+      const response = await fetch("/api/settings/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: [row] }),
+      });
+      const data: ImportResponse & { message?: string } = await response
+        .json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to import row");
+      }
+      if (data.imported === 0) {
+        throw new Error("Could not find that TMDB ID");
+      }
+
+      setResult((current) =>
+        current
+          ? {
+            ...current,
+            imported: current.imported + data.imported,
+            unmatched: current.unmatched.filter((u) => u.row !== unmatched.row),
+          }
+          : current
+      );
+    } catch (err) {
+      console.error("Failed to fix import row:", err);
+      setError(err instanceof Error ? err.message : "Failed to import row");
+    } finally {
+      setFixingRow(null);
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleImport} class="space-y-3">
+        <div class="flex flex-col sm:flex-row gap-3">
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) =>
+              setFile((e.target as HTMLInputElement).files?.[0] ?? null)}
+            class="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100 dark:file:bg-indigo-900/30 dark:file:text-indigo-300"
+          />
+          <select
+            value={format}
+            onChange={(e) => setFormat((e.target as HTMLSelectElement).value)}
+            class="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={loading || !file}
+          class={`inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+            loading || !file ? "opacity-50 cursor-not-allowed" : ""
+          }`}
+        >
+          {loading ? "Importing..." : "Import"}
+        </button>
+      </form>
+
+      {loading && (
+        <p class="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          Matching titles against TMDB. Large files can take a few minutes.
+        </p>
+      )}
+
+      {error && (
+        <div class="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div class="mt-4">
+          <div class="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md">
+            <p class="text-sm text-green-800 dark:text-green-200">
+              ✓ Imported {result.imported} of {result.total} titles.
+              {result.unmatched.length > 0 &&
+                ` ${result.unmatched.length} could not be matched.`}
+            </p>
+          </div>
+
+          {result.unmatched.length > 0 && (
+            <div class="mt-4 overflow-x-auto">
+              <table class="min-w-full text-sm">
+                <thead>
+                  <tr class="text-left text-gray-500 dark:text-gray-400">
+                    <th class="py-2 pr-3 font-medium">Row</th>
+                    <th class="py-2 pr-3 font-medium">Title</th>
+                    <th class="py-2 pr-3 font-medium">Reason</th>
+                    <th class="py-2 font-medium">Fix</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-gray-200 dark:divide-gray-700">
+                  {result.unmatched.map((unmatched) => (
+                    <tr key={unmatched.row} class="align-top">
+                      <td class="py-2 pr-3 text-gray-500 dark:text-gray-400">
+                        {unmatched.row}
+                      </td>
+                      <td class="py-2 pr-3 text-gray-900 dark:text-gray-100">
+                        {unmatched.title || "Untitled"}
+                        {unmatched.year && (
+                          <span class="ml-1 text-gray-500 dark:text-gray-400">
+                            ({unmatched.year})
+                          </span>
+                        )}
+                      </td>
+                      <td class="py-2 pr-3 text-gray-600 dark:text-gray-300">
+                        {unmatched.reason}
+                      </td>
+                      <td class="py-2">
+                        {unmatched.entry
+                          ? (
+                            <div class="flex gap-2">
+                              <input
+                                type="number"
+                                min="1"
+                                placeholder="TMDB ID"
+                                value={fixes[unmatched.row]?.tmdbId ?? ""}
+                                onInput={(e) =>
+                                  updateFix(unmatched, {
+                                    tmdbId: (e.target as HTMLInputElement)
+                                      .value,
+                                  })}
+                                class="w-24 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                              />
+                              <select
+                                value={fixes[unmatched.row]?.contentType ??
+                                  unmatched.entry.content_type ?? "movie"}
+                                onChange={(e) =>
+                                  updateFix(unmatched, {
+                                    contentType: (e.target as HTMLSelectElement)
+                                      .value as "movie" | "tv",
+                                  })}
+                                class="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                              >
+                                <option value="movie">Movie</option>
+                                <option value="tv">TV</option>
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => handleFixRow(unmatched)}
+                                disabled={fixingRow === unmatched.row}
+                                class="px-3 py-1 text-sm font-medium text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 rounded-md hover:bg-indigo-100 dark:hover:bg-indigo-900/50 disabled:opacity-50"
+                              >
+                                {fixingRow === unmatched.row ? "..." : "Fix"}
+                              </button>
+                            </div>
+                          )
+                          : (
+                            <span class="text-gray-400 dark:text-gray-500">
+                              —
+                            </span>
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p class="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Find the TMDB ID in the title's URL on themoviedb.org.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useEffect, useState } from "preact/hooks";
+import { useEffect, useRef, useState } from "preact/hooks";
 import { IS_BROWSER } from "$fresh/runtime.ts";
+import { useRealtimeEvents } from "../lib/realtime/client.ts";
 import {
   getGridPosterSize,
   getPosterSrcSet,
@@ -57,6 +58,7 @@ interface CustomList {
   created_at: string;
   updated_at: string;
   item_count: number;
+  role: "owner" | "editor" | "viewer";
 }
 
 interface LibraryTabsProps {
@@ -89,6 +91,10 @@ export default function LibraryTabs(
   const [toast, setToast] = useState<
     { message: string; type: "success" | "error" } | null
   >(null);
+  // Bumped to refetch the active tab when it changes in another session
+  const [contentVersion, setContentVersion] = useState(0);
+  // Refetches triggered by real-time events skip the loading skeleton
+  const silentRefresh = useRef(false);
 
   // Detect mobile viewport
   useEffect(() => {
@@ -163,7 +169,7 @@ export default function LibraryTabs(
       // Fetch watched content
       const fetchWatchedContent = async () => {
         try {
-          setLoading(true);
+          setLoading(!silentRefresh.current);
           setError(null);
           const response = await fetch("/api/library/watched");
 
@@ -186,7 +192,7 @@ export default function LibraryTabs(
       // Fetch watchlist content
       const fetchWatchlistContent = async () => {
         try {
-          setLoading(true);
+          setLoading(!silentRefresh.current);
           setError(null);
           const response = await fetch("/api/library/watchlist");
 
@@ -209,7 +215,7 @@ export default function LibraryTabs(
       // Fetch favourites content
       const fetchFavouritesContent = async () => {
         try {
-          setLoading(true);
+          setLoading(!silentRefresh.current);
           setError(null);
           const response = await fetch("/api/library/favourites");
 
@@ -231,7 +237,8 @@ export default function LibraryTabs(
     } else {
       setLoading(false);
     }
-  }, [activeTab]);
+    silentRefresh.current = false;
+  }, [activeTab, contentVersion]);
 
   const formatDate = (dateString: string): string => {
     try {
@@ -246,6 +253,17 @@ export default function LibraryTabs(
     }
   };
 
+  // Apply library and list changes made in other tabs and devices
+  useRealtimeEvents((message) => {
+    if (message.type === "content" || message.type === "resync") {
+      silentRefresh.current = true;
+      setContentVersion((version) => version + 1);
+    }
+    if (message.type !== "content") {
+      handleListCreated();
+    }
+  });
+
   const handleListCreated = () => {
     // Refresh lists after creation
     const fetchLists = async () => {
@@ -464,6 +482,7 @@ export default function LibraryTabs(
                         <div class="text-xs text-gray-500 mt-1">
                           {list.item_count}{" "}
                           item{list.item_count !== 1 ? "s" : ""}
+                          {list.role !== "owner" && " · Shared with you"}
                         </div>
                       </a>
                     </li>
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "preact/hooks";
+
+interface Identity {
+  id: string;
+  provider: string;
+  email: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+interface Provider {
+  id: string;
+  name: string;
+}
+
+// Errors the provider callback redirects back to settings with
+const LINK_ERRORS: Record<string, string> = {
+  identity_in_use:
+    "That account is already linked to another Stream Owl account.",
+  oauth_failed: "Linking was cancelled or failed.",
+  oauth_callback_failed: "We couldn't finish linking. Please try again.",
+  provider_unavailable:
+    "That provider isn't available right now. Please try again later.",
+};
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * "Connected Accounts" island for the settings page
+ *
+ * Lists the sign-in providers linked to the account, links others (by
+ * sending the user through the provider's sign-in) and unlinks them.
+ */
+export default function LinkedAccounts() {
+  const [identities, setIdentities] = useState<Identity[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const errorCode = new URL(globalThis.location.href).searchParams.get(
+      "error",
+    );
+    if (errorCode && Object.hasOwn(LINK_ERRORS, errorCode)) {
+      setError(LINK_ERRORS[errorCode]);
+    }
+
+    async function fetchIdentities() {
+      try {
+        const response = await fetch("/api/settings/identities");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load linked accounts");
+        }
+
+        setIdentities(data.identities);
+        setProviders(data.providers);
+      } catch (err) {
+        console.error("Failed to load linked accounts:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load linked accounts",
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchIdentities();
+  }, []);
+
+  const providerName = (id: string) =>
+    providers.find((provider) => provider.id === id)?.name ?? id;
+
+  const handleUnlink = async (identity: Identity) => {
+    if (
+      !confirm(
+        `Unlink ${
+          providerName(identity.provider)
+        }? You won't be able to sign in with it any more.`,
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(identity.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/settings/identities/${identity.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to unlink account");
+      }
+
+      setIdentities((current) => current.filter((i) => i.id !== identity.id));
+    } catch (err) {
+      console.error("Failed to unlink account:", err);
+      setError(err instanceof Error ? err.message : "Failed to unlink account");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p class="text-sm text-gray-500 dark:text-gray-400">
+        Loading linked accounts...
+      </p>
+    );
+  }
+
+  // Offer the providers that aren't linked yet
+  const unlinked = providers.filter((provider) =>
+    !identities.some((identity) => identity.provider === provider.id)
+  );
+
+  return (
+    <div>
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {identities.length > 0 && (
+        <ul class="divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+          {identities.map((identity) => (
+            <li
+              key={identity.id}
+              class="flex items-center justify-between gap-4 py-3"
+            >
+              <div>
+                <p class="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {providerName(identity.provider)}
+                  {identity.email && (
+                    <span class="ml-1 font-normal text-gray-500 dark:text-gray-400">
+                      · {identity.email}
+                    </span>
+                  )}
+                </p>
+                <p class="text-xs text-gray-500 dark:text-gray-400">
+                  Linked {formatDate(identity.created_at)}
+                  {identity.last_used_at &&
+                    ` · Last used ${formatDate(identity.last_used_at)}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleUnlink(identity)}
+                disabled={busyId !== null}
+                class="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {busyId === identity.id ? "Unlinking..." : "Unlink"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unlinked.length > 0
+        ? (
+          <div class="flex flex-wrap gap-2">
+            {unlinked.map((provider) => (
+              <a
+                key={provider.id}
+                href={`/api/auth/${provider.id}?link=true`}
+                class="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+              >
+                Link {provider.name}
+              </a>
+            ))}
+          </div>
+        )
+        : identities.length === 0 && (
+          <p class="text-sm text-gray-500 dark:text-gray-400">
+            No sign-in providers are available.
+          </p>
+        )}
+    </div>
+  );
+}
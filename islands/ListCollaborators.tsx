@@ -0,0 +1,350 @@
+import { IS_BROWSER } from "$fresh/runtime.ts";
+import { useEffect, useState } from "preact/hooks";
+import { useToast } from "./Toast.tsx";
+
+type CollaboratorRole = "viewer" | "editor";
+
+interface Collaborator {
+  user_id: string;
+  display_name: string | null;
+  email: string;
+  role: CollaboratorRole;
+}
+
+interface Invite {
+  id: string;
+  email: string | null;
+  role: CollaboratorRole;
+  url: string;
+  expires_at: string;
+}
+
+interface ListCollaboratorsProps {
+  listId: string;
+  role: "owner" | "editor" | "viewer";
+  /** Current user's ID, used when a collaborator leaves the list */
+  userId: string;
+}
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+/**
+ * Island component for sharing a list with collaborators
+ *
+ * Owners can invite people by email or with a link, change roles, remove
+ * collaborators and revoke pending invites. Collaborators just see their role
+ * and can leave the list.
+ */
+export default function ListCollaborators({
+  listId,
+  role,
+  userId,
+}: ListCollaboratorsProps) {
+  const isOwner = role === "owner";
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(isOwner);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<CollaboratorRole>("viewer");
+  const [submitting, setSubmitting] = useState(false);
+  const { showToast, ToastContainer } = useToast();
+
+  const loadCollaborators = async () => {
+    try {
+      const response = await fetch(`/api/lists/${listId}/collaborators`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load collaborators");
+      }
+      setCollaborators(data.collaborators);
+      setInvites(data.invites);
+    } catch (error) {
+      console.error("Error loading collaborators:", error);
+      showToast("Failed to load collaborators", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (IS_BROWSER && isOwner) {
+      loadCollaborators();
+    }
+  }, [listId, isOwner]);
+
+  const request = async (
+    url: string,
+    method: string,
+    body?: Record<string, unknown>,
+  ) => {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const handleInvite = async (e: Event) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const data = await request(`/api/lists/${listId}/invites`, "POST", {
+        role: inviteRole,
+        email: inviteEmail.trim() || undefined,
+      });
+
+      if (data.invite.email) {
+        showToast(`Invite sent to ${data.invite.email}`, "success");
+      } else {
+        await navigator.clipboard.writeText(data.invite.url).catch(() => {});
+        showToast("Invite link created and copied", "success");
+      }
+      setInviteEmail("");
+      setInvites([data.invite, ...invites]);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to create invite",
+        "error",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (
+    collaborator: Collaborator,
+    newRole: CollaboratorRole,
+  ) => {
+    try {
+      await request(
+        `/api/lists/${listId}/collaborators/${collaborator.user_id}`,
+        "PATCH",
+        { role: newRole },
+      );
+      setCollaborators(
+        collaborators.map((c) =>
+          c.user_id === collaborator.user_id ? { ...c, role: newRole } : c
+        ),
+      );
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to update role",
+        "error",
+      );
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    try {
+      await request(
+        `/api/lists/${listId}/collaborators/${collaborator.user_id}`,
+        "DELETE",
+      );
+      setCollaborators(
+        collaborators.filter((c) => c.user_id !== collaborator.user_id),
+      );
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to remove",
+        "error",
+      );
+    }
+  };
+
+  const handleRevoke = async (invite: Invite) => {
+    try {
+      await request(`/api/lists/${listId}/invites/${invite.id}`, "DELETE");
+      setInvites(invites.filter((i) => i.id !== invite.id));
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to revoke invite",
+        "error",
+      );
+    }
+  };
+
+  const handleCopy = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(invite.url);
+      showToast("Invite link copied", "success");
+    } catch {
+      showToast("Failed to copy link", "error");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm("Leave this list? You'll need a new invite to rejoin.")) {
+      return;
+    }
+
+    try {
+      await request(
+        `/api/lists/${listId}/collaborators/${userId}`,
+        "DELETE",
+      );
+      globalThis.location.href = "/library";
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to leave list",
+        "error",
+      );
+    }
+  };
+
+  if (!isOwner) {
+    return (
+      <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex items-center justify-between">
+        <p class="text-sm text-gray-600">
+          {role === "editor"
+            ? "You can add, remove and reorder items in this list."
+            : "You can view this list."}
+        </p>
+        <button
+          type="button"
+          onClick={handleLeave}
+          class="px-3 py-1.5 text-sm font-medium text-red-600 border border-red-200 rounded-md hover:bg-red-50"
+        >
+          Leave list
+        </button>
+        <ToastContainer />
+      </div>
+    );
+  }
+
+  return (
+    <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 class="text-lg font-semibold text-gray-900 mb-4">Collaborators</h2>
+
+      <form onSubmit={handleInvite} class="flex flex-col sm:flex-row gap-2">
+        <input
+          type="email"
+          value={inviteEmail}
+          onInput={(e) => setInviteEmail((e.target as HTMLInputElement).value)}
+          placeholder="Email address (leave blank for a link)"
+          aria-label="Invitee email address"
+          class={`flex-1 ${inputClass}`}
+        />
+        <select
+          value={inviteRole}
+          onChange={(e) =>
+            setInviteRole(
+              (e.target as HTMLSelectElement).value as CollaboratorRole,
+            )}
+          aria-label="Invite role"
+          class={inputClass}
+        >
+          <option value="viewer">Can view</option>
+          <option value="editor">Can edit</option>
+        </select>
+        <button
+          type="submit"
+          disabled={submitting}
+          class={`px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+            submitting ? "opacity-50 cursor-not-allowed" : ""
+          }`}
+        >
+          {inviteEmail.trim() ? "Send invite" : "Create link"}
+        </button>
+      </form>
+
+      {loading && <p class="text-sm text-gray-500 mt-4">Loading...</p>}
+
+      {!loading && collaborators.length > 0 && (
+        <ul class="mt-4 divide-y divide-gray-200">
+          {collaborators.map((collaborator) => (
+            <li
+              key={collaborator.user_id}
+              class="py-2 flex items-center justify-between gap-2"
+            >
+              <div class="min-w-0">
+                <p class="text-sm font-medium text-gray-900 truncate">
+                  {collaborator.display_name || collaborator.email}
+                </p>
+                {collaborator.display_name && (
+                  <p class="text-xs text-gray-500 truncate">
+                    {collaborator.email}
+                  </p>
+                )}
+              </div>
+              <div class="flex items-center gap-2">
+                <select
+                  value={collaborator.role}
+                  onChange={(e) =>
+                    handleRoleChange(
+                      collaborator,
+                      (e.target as HTMLSelectElement)
+                        .value as CollaboratorRole,
+                    )}
+                  aria-label={`Role for ${
+                    collaborator.display_name || collaborator.email
+                  }`}
+                  class={inputClass}
+                >
+                  <option value="viewer">Can view</option>
+                  <option value="editor">Can edit</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(collaborator)}
+                  class="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!loading && invites.length > 0 && (
+        <div class="mt-4 pt-4 border-t border-gray-200">
+          <h3 class="text-sm font-medium text-gray-700 mb-2">
+            Pending invites
+          </h3>
+          <ul class="space-y-2">
+            {invites.map((invite) => (
+              <li
+                key={invite.id}
+                class="flex items-center justify-between gap-2 text-sm"
+              >
+                <span class="text-gray-600 truncate">
+                  {invite.email || "Invite link"} ·{" "}
+                  {invite.role === "editor" ? "can edit" : "can view"} · expires
+                  {" "}
+                  {new Date(invite.expires_at).toLocaleDateString()}
+                </span>
+                <div class="flex items-center gap-3">
+                  {!invite.email && (
+                    <button
+                      type="button"
+                      onClick={() => handleCopy(invite)}
+                      class="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Copy link
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(invite)}
+                    class="text-red-600 hover:text-red-800"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ToastContainer />
+    </div>
+  );
+}
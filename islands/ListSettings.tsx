@@ -96,7 +96,7 @@ export default function ListSettings({
             <p class="text-sm text-gray-500 mt-1">
               {isPublic
                 ? "Anyone with the link can view this list"
-                : "Only you can view this list"}
+                : "Only you and collaborators can view this list"}
             </p>
           </div>
           <button
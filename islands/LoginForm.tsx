@@ -1,26 +1,54 @@
-import { useState } from "preact/hooks";
+import { useEffect, useState } from "preact/hooks";
+import { getSafeReturnTo } from "../lib/auth/return-to.ts";
+import { getPasskey, isPasskeySupported } from "../lib/auth/webauthn-client.ts";
 import { CSRF_FIELD_NAME } from "../lib/security/csrf.ts";
 
 interface LoginFormProps {
   csrfToken: string;
   returnTo: string;
+  /** Challenge from a provider sign-in, to start at the code step */
+  twoFactorChallenge?: string;
 }
 
 interface ValidationErrors {
   email?: string;
   password?: string;
+  code?: string;
   general?: string;
 }
 
 /**
  * Login form component with client-side error handling
  * Displays field-level validation errors
+ *
+ * Users with two-factor authentication are asked for a code once their
+ * password is accepted, or straight away after signing in with a provider. Browsers that support passkeys also get a "Sign in
+ * with a passkey" button, which needs no email or password.
  */
-export default function LoginForm({ csrfToken, returnTo }: LoginFormProps) {
+export default function LoginForm(
+  { csrfToken, returnTo, twoFactorChallenge }: LoginFormProps,
+) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set once the password is accepted and a second factor is needed
+  const [challenge, setChallenge] = useState<string | null>(
+    twoFactorChallenge ?? null,
+  );
+  const [code, setCode] = useState("");
+  const [rememberDevice, setRememberDevice] = useState(false);
+  // Checked after hydration, since the server can't know
+  const [passkeySupported, setPasskeySupported] = useState(false);
+
+  useEffect(() => {
+    setPasskeySupported(isPasskeySupported());
+  }, []);
+
+  const redirectAfterLogin = () => {
+    // Redirect handled by server
+    globalThis.location.href = getSafeReturnTo(returnTo);
+  };
 
   const handleSubmit = async (e: Event) => {
     e.preventDefault();
@@ -40,9 +68,16 @@ export default function LoginForm({ csrfToken, returnTo }: LoginFormProps) {
       });
 
       if (response.ok) {
-        // Redirect handled by server
-        const redirectUrl = returnTo.startsWith("/") ? returnTo : "/dashboard";
-        globalThis.location.href = redirectUrl;
+        // A successful sign-in redirects, so only the two-factor step is JSON
+        const isJson = response.headers.get("Content-Type")?.includes(
+          "application/json",
+        );
+        const data = isJson ? await response.json() : null;
+        if (data?.twoFactorRequired) {
+          setChallenge(data.challenge);
+          return;
+        }
+        redirectAfterLogin();
         return;
       }
 
@@ -83,6 +118,190 @@ export default function LoginForm({ csrfToken, returnTo }: LoginFormProps) {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: Event) => {
+    e.preventDefault();
+    setErrors({});
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("challenge", challenge ?? "");
+      formData.append("code", code);
+      formData.append("rememberDevice", String(rememberDevice));
+      formData.append("returnTo", returnTo);
+      formData.append(CSRF_FIELD_NAME, csrfToken);
+
+      const response = await fetch("/api/login/two-factor", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (response.ok) {
+        redirectAfterLogin();
+        return;
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401 || response.status === 400) {
+        setErrors({
+          code: errorData.message || "Invalid verification code",
+        });
+      } else {
+        setErrors({
+          general: errorData.message || "Failed to log in. Please try again.",
+        });
+      }
+    } catch (_error) {
+      setErrors({
+        general: "Network error. Please check your connection and try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePasskeySignIn = async () => {
+    setErrors({});
+    setIsSubmitting(true);
+
+    try {
+      const optionsResponse = await fetch("/api/auth/passkey/options", {
+        method: "POST",
+      });
+      const options = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        setErrors({
+          general: options.message || "Failed to start passkey sign-in.",
+        });
+        return;
+      }
+
+      const credential = await getPasskey(options.publicKey);
+      const response = await fetch("/api/auth/passkey/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          challengeId: options.challengeId,
+          credential,
+          returnTo,
+          [CSRF_FIELD_NAME]: csrfToken,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors({
+          general: data.message || "Passkey sign-in failed. Please try again.",
+        });
+        return;
+      }
+
+      globalThis.location.href = data.redirectTo;
+    } catch (error) {
+      // The browser reports cancelling as NotAllowedError; nothing to show
+      if (
+        !(error instanceof DOMException && error.name === "NotAllowedError")
+      ) {
+        setErrors({
+          general: "Passkey sign-in failed. Please try again.",
+        });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startOver = () => {
+    setChallenge(null);
+    setCode("");
+    setPassword("");
+    setErrors({});
+  };
+
+  if (challenge) {
+    return (
+      <form class="mt-8 space-y-6" onSubmit={handleTwoFactorSubmit}>
+        {errors.general && (
+          <div
+            class="rounded-md bg-red-50 p-4"
+            role="alert"
+            aria-live="assertive"
+          >
+            <p class="text-sm font-medium text-red-800">{errors.general}</p>
+          </div>
+        )}
+
+        <div>
+          <label
+            for="code"
+            class="block text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Verification code
+          </label>
+          <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Enter the 6-digit code from your authenticator app, or one of your
+            recovery codes.
+          </p>
+          <input
+            id="code"
+            name="code"
+            type="text"
+            inputMode="text"
+            autoComplete="one-time-code"
+            autoFocus
+            required
+            value={code}
+            onInput={(e) => setCode((e.target as HTMLInputElement).value)}
+            class={`mt-2 appearance-none relative block w-full px-3 py-2 border ${
+              errors.code
+                ? "border-red-300 text-red-900 placeholder-red-300 focus:ring-red-500 focus:border-red-500"
+                : "border-gray-300 placeholder-gray-600 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 focus:ring-indigo-500 focus:border-indigo-500"
+            } rounded-md focus:outline-none sm:text-sm bg-white dark:bg-gray-800`}
+            placeholder="123456"
+            aria-invalid={errors.code ? "true" : "false"}
+            aria-describedby={errors.code ? "code-error" : undefined}
+          />
+          {errors.code && (
+            <p id="code-error" class="mt-1 text-sm text-red-600" role="alert">
+              {errors.code}
+            </p>
+          )}
+        </div>
+
+        <label class="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={rememberDevice}
+            onChange={(e) =>
+              setRememberDevice((e.target as HTMLInputElement).checked)}
+            class="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          Remember this device for 30 days
+        </label>
+
+        <div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            class="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Verifying..." : "Verify"}
+          </button>
+        </div>
+
+        <div class="text-center">
+          <button
+            type="button"
+            onClick={startOver}
+            class="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Start over
+          </button>
+        </div>
+      </form>
+    );
+  }
+
   return (
     <form class="mt-8 space-y-6" onSubmit={handleSubmit}>
       <input type="hidden" name="returnTo" value={returnTo} />
@@ -185,6 +404,16 @@ export default function LoginForm({ csrfToken, returnTo }: LoginFormProps) {
         >
           {isSubmitting ? "Signing in..." : "Sign in"}
         </button>
+        {passkeySupported && (
+          <button
+            type="button"
+            onClick={handlePasskeySignIn}
+            disabled={isSubmitting}
+            class="mt-3 w-full flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Sign in with a passkey
+          </button>
+        )}
       </div>
 
       <div class="text-center">
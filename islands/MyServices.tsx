@@ -0,0 +1,196 @@
+import { useEffect, useState } from "preact/hooks";
+
+interface StreamingService {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  selected: boolean;
+  title_count: number;
+}
+
+// Services shown before "Show all"
+const INITIAL_VISIBLE = 12;
+
+/**
+ * "My services" island for the settings page
+ *
+ * Lets the user tick the streaming services they subscribe to. Watchlist
+ * titles arriving on these services trigger "now available" alerts.
+ */
+export default function MyServices() {
+  const [services, setServices] = useState<StreamingService[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState("");
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  useEffect(() => {
+    async function fetchServices() {
+      try {
+        const response = await fetch("/api/settings/services");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load services");
+        }
+
+        setServices(data.services);
+        setSelected(
+          new Set(
+            data.services
+              .filter((service: StreamingService) => service.selected)
+              .map((service: StreamingService) => service.id),
+          ),
+        );
+      } catch (err) {
+        console.error("Failed to load streaming services:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load services",
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchServices();
+  }, []);
+
+  const toggleService = async (serviceId: string) => {
+    const next = new Set(selected);
+    if (next.has(serviceId)) {
+      next.delete(serviceId);
+    } else {
+      next.add(serviceId);
+    }
+
+    const previous = selected;
+    setSelected(next);
+    setSaving(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const response = await fetch("/api/settings/services", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service_ids: Array.from(next) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update services");
+      }
+
+      setSelected(new Set(data.service_ids));
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error("Failed to update streaming services:", err);
+      setSelected(previous);
+      setError(
+        err instanceof Error ? err.message : "Failed to update services",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p class="text-sm text-gray-500 dark:text-gray-400">
+        Loading services...
+      </p>
+    );
+  }
+
+  const query = filter.trim().toLowerCase();
+  const matching = services.filter((service) =>
+    service.name.toLowerCase().includes(query)
+  );
+  // Keep the user's own services visible even when the list is collapsed
+  const visible = showAll || query
+    ? matching
+    : matching.filter((service, index) =>
+      index < INITIAL_VISIBLE || selected.has(service.id)
+    );
+
+  return (
+    <div>
+      {success && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md">
+          <p class="text-sm text-green-800 dark:text-green-200">
+            Your services have been updated.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {services.length > INITIAL_VISIBLE && (
+        <input
+          type="search"
+          value={filter}
+          onInput={(e) => setFilter((e.target as HTMLInputElement).value)}
+          placeholder="Filter services"
+          class="mb-3 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      )}
+
+      {visible.length === 0
+        ? (
+          <p class="text-sm text-gray-500 dark:text-gray-400">
+            No services found.
+          </p>
+        )
+        : (
+          <div class="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {visible.map((service) => (
+              <label
+                key={service.id}
+                class={`flex items-center gap-3 px-4 py-3 rounded-lg border-2 cursor-pointer transition-colors ${
+                  selected.has(service.id)
+                    ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20"
+                    : "border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-300 dark:hover:border-gray-600"
+                } ${saving ? "opacity-50 cursor-not-allowed" : ""}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(service.id)}
+                  disabled={saving}
+                  onChange={() => toggleService(service.id)}
+                  class="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                />
+                {service.logo_url && (
+                  <img
+                    src={service.logo_url}
+                    alt=""
+                    class="w-8 h-8 rounded object-contain"
+                    loading="lazy"
+                  />
+                )}
+                <span class="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {service.name}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+      {!showAll && !query && matching.length > visible.length && (
+        <button
+          type="button"
+          onClick={() => setShowAll(true)}
+          class="mt-3 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          Show all {services.length} services
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "preact/hooks";
+import {
+  createPasskey,
+  isPasskeySupported,
+} from "../lib/auth/webauthn-client.ts";
+
+interface Passkey {
+  id: string;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * "Passkeys" island for the settings page
+ *
+ * Lists the user's passkeys, adds one for this device and removes them.
+ */
+export default function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supported, setSupported] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSupported(isPasskeySupported());
+
+    async function fetchPasskeys() {
+      try {
+        const response = await fetch("/api/settings/passkeys");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load passkeys");
+        }
+
+        setPasskeys(data.passkeys);
+      } catch (err) {
+        console.error("Failed to load passkeys:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load passkeys",
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchPasskeys();
+  }, []);
+
+  const handleAdd = async () => {
+    setBusyId("add");
+    setError(null);
+
+    try {
+      const optionsResponse = await fetch("/api/settings/passkeys/options", {
+        method: "POST",
+      });
+      const options = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(options.message || "Failed to start adding a passkey");
+      }
+
+      const credential = await createPasskey(options.publicKey);
+      const response = await fetch("/api/settings/passkeys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeId: options.challengeId, credential }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to add passkey");
+      }
+
+      setPasskeys((current) => [data.passkey, ...current]);
+    } catch (err) {
+      // Cancelling the browser prompt isn't an error worth showing
+      if (err instanceof DOMException && err.name === "NotAllowedError") {
+        return;
+      }
+      console.error("Failed to add passkey:", err);
+      setError(
+        err instanceof DOMException && err.name === "InvalidStateError"
+          ? "This device already has a passkey for your account"
+          : err instanceof Error
+          ? err.message
+          : "Failed to add passkey",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    if (
+      !confirm(
+        `Remove "${passkey.name}"? You won't be able to sign in with it any more.`,
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(passkey.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/settings/passkeys/${passkey.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to remove passkey");
+      }
+
+      setPasskeys((current) => current.filter((p) => p.id !== passkey.id));
+    } catch (err) {
+      console.error("Failed to remove passkey:", err);
+      setError(err instanceof Error ? err.message : "Failed to remove passkey");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p class="text-sm text-gray-500 dark:text-gray-400">
+        Loading passkeys...
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {passkeys.length > 0 && (
+        <ul class="divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+          {passkeys.map((passkey) => (
+            <li
+              key={passkey.id}
+              class="flex items-center justify-between gap-4 py-3"
+            >
+              <div>
+                <p class="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {passkey.name}
+                </p>
+                <p class="text-xs text-gray-500 dark:text-gray-400">
+                  Added {formatDate(passkey.created_at)}
+                  {passkey.last_used_at &&
+                    ` · Last used ${formatDate(passkey.last_used_at)}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(passkey)}
+                disabled={busyId !== null}
+                class="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {busyId === passkey.id ? "Removing..." : "Remove"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {supported
+        ? (
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={busyId !== null}
+            class="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {busyId === "add" ? "Waiting for your device..." : "Add a passkey"}
+          </button>
+        )
+        : (
+          <p class="text-sm text-gray-500 dark:text-gray-400">
+            This browser doesn't support passkeys.
+          </p>
+        )}
+    </div>
+  );
+}
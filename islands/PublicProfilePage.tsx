@@ -4,6 +4,7 @@ import {
   getPosterUrl,
 } from "../lib/images.ts";
 import ContentGrid from "../components/ContentGrid.tsx";
+import FollowButton from "./FollowButton.tsx";
 
 interface PublicProfilePageProps {
   userId: string;
@@ -22,13 +23,22 @@ interface PublicProfilePageProps {
     poster_path: string | null;
     release_date: string | null;
   }>;
+  followers: number;
+  following: number;
+  viewerId: string | null;
+  viewerFollows: boolean;
 }
 
 export default function PublicProfilePage({
+  userId,
   displayName,
   avatarUrl,
   stats,
   favourites,
+  followers,
+  following,
+  viewerId,
+  viewerFollows,
 }: PublicProfilePageProps) {
   const displayNameText = displayName || "Anonymous User";
 
@@ -58,7 +68,24 @@ export default function PublicProfilePage({
                 <h1 class="text-3xl font-bold text-gray-900">
                   {displayNameText}
                 </h1>
-                <p class="text-sm text-gray-500 mt-1">Public Profile</p>
+                <p class="text-sm text-gray-500 mt-1">
+                  Public Profile · {following} following
+                </p>
+                <div class="mt-3">
+                  {viewerId && viewerId !== userId
+                    ? (
+                      <FollowButton
+                        userId={userId}
+                        initialFollowing={viewerFollows}
+                        initialFollowers={followers}
+                      />
+                    )
+                    : (
+                      <span class="text-sm text-gray-500">
+                        {followers} {followers === 1 ? "follower" : "followers"}
+                      </span>
+                    )}
+                </div>
               </div>
             </div>
           </div>
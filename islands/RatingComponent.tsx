@@ -2,6 +2,7 @@ import { useEffect, useState } from "preact/hooks";
 import { IS_BROWSER } from "$fresh/runtime.ts";
 import { useToast } from "./Toast.tsx";
 import { trackRateContent } from "../lib/analytics/client.ts";
+import { useRealtimeEvents } from "../lib/realtime/client.ts";
 
 interface RatingComponentProps {
   tmdbId: number;
@@ -25,6 +26,15 @@ export default function RatingComponent(
     setRating(initialRating);
   }, [initialRating]);
 
+  // Keep in sync with ratings made in other tabs and devices
+  useRealtimeEvents((message) => {
+    if (
+      message.type === "content" && message.tmdb_id === tmdbId && !isLoading
+    ) {
+      setRating(message.rating);
+    }
+  });
+
   const handleSliderChange = (value: number) => {
     // Round to half-point precision
     const roundedValue = Math.round(value * 2) / 2;
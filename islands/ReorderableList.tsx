@@ -5,43 +5,120 @@ import {
   getPosterSrcSet,
   getPosterUrl,
 } from "../lib/images.ts";
+import type { ListItemDetails as ListItem } from "../lib/lists/items.ts";
+import { moveItem, rebaseMove } from "../lib/lists/ordering.ts";
+import { useRealtimeEvents } from "../lib/realtime/client.ts";
 import ContentGrid from "../components/ContentGrid.tsx";
 
-interface ListItem {
-  tmdb_id: number;
-  type: "movie" | "tv" | "documentary";
-  title: string;
-  poster_path: string | null;
-  release_date: string | null;
-  position: number;
-}
-
 interface ReorderableListProps {
   listId: string;
   items: ListItem[];
-  isOwner: boolean;
+  /** lists.items_version the items were loaded at */
+  version: number;
+  canEdit: boolean;
+  /** Show who added each item */
+  showAddedBy: boolean;
+  /** Subscribe to live updates (signed-in users only) */
+  live: boolean;
+}
+
+/**
+ * Arrange items in the given TMDB ID order, renumbering positions
+ */
+function arrange(items: ListItem[], ids: number[]): ListItem[] {
+  const byId = new Map(items.map((item) => [item.tmdb_id, item]));
+  return ids.map((id, index) => ({ ...byId.get(id)!, position: index }));
+}
+
+/**
+ * Send a reorder request for the given order
+ */
+function sendReorder(
+  listId: string,
+  items: ListItem[],
+  version: number,
+): Promise<Response> {
+  return fetch(`/api/lists/${listId}/items`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      items: items.map((item) => ({
+        tmdb_id: item.tmdb_id,
+        position: item.position,
+      })),
+      version,
+    }),
+  });
 }
 
 /**
  * Island component for displaying and reordering list items with drag-and-drop
+ *
+ * Collaborators may be editing the same list, so reorders carry the version
+ * the items were loaded at. If someone else changed the list first the server
+ * answers 409 with the latest items; the move is then replayed onto those and
+ * retried once before falling back to showing the latest order. Changes made
+ * elsewhere arrive over the real-time event stream and are applied live.
  */
 export default function ReorderableList({
   listId,
   items: initialItems,
-  isOwner,
+  version: initialVersion,
+  canEdit: initialCanEdit,
+  showAddedBy,
+  live,
 }: ReorderableListProps) {
   const [items, setItems] = useState<ListItem[]>(initialItems);
+  const [version, setVersion] = useState(initialVersion);
+  const [canEdit, setCanEdit] = useState(initialCanEdit);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [isReordering, setIsReordering] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
 
   // Update items when initialItems change
   useEffect(() => {
     setItems(initialItems);
-  }, [initialItems]);
+    setVersion(initialVersion);
+  }, [initialItems, initialVersion]);
+
+  const refresh = async () => {
+    try {
+      const response = await fetch(`/api/lists/${listId}/items`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch list items");
+      }
+      const data: {
+        version: number;
+        role: string | null;
+        items: ListItem[];
+      } = await response.json();
+      setItems(data.items);
+      setVersion(data.version);
+      setCanEdit(data.role === "owner" || data.role === "editor");
+    } catch (error) {
+      console.error("Error refreshing list items:", error);
+    }
+  };
+
+  // Apply changes made by collaborators and in other tabs
+  useRealtimeEvents((message) => {
+    if (isReordering) return;
+
+    if (
+      message.type === "resync" ||
+      (message.type === "list_items" && message.list_id === listId &&
+        message.version !== version) ||
+      (message.type === "lists" && message.list_id === listId)
+    ) {
+      refresh();
+    }
+  }, live);
 
   const handleDragStart = (e: DragEvent, index: number) => {
-    if (!IS_BROWSER || !isOwner) return;
+    if (!IS_BROWSER || !canEdit) return;
 
     e.stopPropagation();
     setDraggedIndex(index);
@@ -73,7 +150,7 @@ export default function ReorderableList({
   };
 
   const handleDragOver = (e: DragEvent, index: number) => {
-    if (!IS_BROWSER || !isOwner || draggedIndex === null) return;
+    if (!IS_BROWSER || !canEdit || draggedIndex === null) return;
 
     e.preventDefault();
     if (e.dataTransfer) {
@@ -88,7 +165,7 @@ export default function ReorderableList({
   };
 
   const handleDrop = async (e: DragEvent, dropIndex: number) => {
-    if (!IS_BROWSER || !isOwner || draggedIndex === null) return;
+    if (!IS_BROWSER || !canEdit || draggedIndex === null) return;
 
     e.preventDefault();
     setDragOverIndex(null);
@@ -98,45 +175,62 @@ export default function ReorderableList({
       return;
     }
 
-    // Create new items array with reordered positions
-    const newItems = [...items];
-    const [draggedItem] = newItems.splice(draggedIndex, 1);
-    newItems.splice(dropIndex, 0, draggedItem);
-
-    // Update positions
-    const reorderedItems = newItems.map((item, index) => ({
-      ...item,
-      position: index,
-    }));
+    const previousItems = items;
+    const movedId = items[draggedIndex].tmdb_id;
+    const intendedIds = moveItem(
+      items.map((item) => item.tmdb_id),
+      movedId,
+      dropIndex,
+    );
+    const reorderedItems = arrange(items, intendedIds);
 
     // Optimistically update UI
     setItems(reorderedItems);
     setIsReordering(true);
+    setNotice(null);
 
     try {
-      // Send reorder request to API
-      const response = await fetch(`/api/lists/${listId}/items`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          items: reorderedItems.map((item) => ({
-            tmdb_id: item.tmdb_id,
-            position: item.position,
-          })),
-        }),
-      });
+      let response = await sendReorder(listId, reorderedItems, version);
+
+      if (response.status === 409) {
+        // Someone else changed the list; replay the move onto their version
+        const latest: { version: number; items: ListItem[] } = await response
+          .json();
+        const rebasedItems = arrange(
+          latest.items,
+          rebaseMove(
+            intendedIds,
+            latest.items.map((item) => item.tmdb_id),
+            movedId,
+          ),
+        );
+        setItems(rebasedItems);
+        setNotice("This list was updated by someone else.");
+        response = await sendReorder(listId, rebasedItems, latest.version);
+
+        if (response.status === 409) {
+          // Still racing; show the latest order rather than retrying forever
+          const newest: { version: number; items: ListItem[] } = await response
+            .json();
+          setItems(newest.items);
+          setVersion(newest.version);
+          setNotice(
+            "This list was updated by someone else. Please try again.",
+          );
+          return;
+        }
+      }
 
       if (!response.ok) {
         throw new Error("Failed to reorder items");
       }
 
-      // Success - items are already updated optimistically
+      const data: { version: number } = await response.json();
+      setVersion(data.version);
     } catch (error) {
       console.error("Error reordering items:", error);
-      // Revert to original order on error
-      setItems(initialItems);
+      // Revert to the order before this move on error
+      setItems(previousItems);
     } finally {
       setIsReordering(false);
       setDraggedIndex(null);
@@ -147,7 +241,7 @@ export default function ReorderableList({
     return (
       <div class="text-center py-12">
         <p class="text-gray-600 mb-2">This list is empty.</p>
-        {isOwner && (
+        {canEdit && (
           <p class="text-gray-500 text-sm">
             Add content to this list to see it here.
           </p>
@@ -158,11 +252,14 @@ export default function ReorderableList({
 
   return (
     <div class={isReordering ? "opacity-75" : ""}>
+      {notice && (
+        <p class="text-sm text-yellow-700 mb-4 text-center">{notice}</p>
+      )}
       <ContentGrid>
         {items.map((item, index) => {
           const isDragging = draggedIndex === index;
           const isDragOver = dragOverIndex === index;
-          const isDraggable = isOwner && !isReordering;
+          const isDraggable = canEdit && !isReordering;
 
           return (
             <div
@@ -213,6 +310,11 @@ export default function ReorderableList({
                         {new Date(item.release_date).getFullYear()}
                       </p>
                     )}
+                    {showAddedBy && item.added_by_name && (
+                      <p class="text-xs text-gray-400 mt-1 truncate">
+                        Added by {item.added_by_name}
+                      </p>
+                    )}
                   </div>
                 </div>
               </a>
@@ -220,7 +322,7 @@ export default function ReorderableList({
           );
         })}
       </ContentGrid>
-      {isOwner && items.length > 1 && (
+      {canEdit && items.length > 1 && (
         <p class="text-sm text-gray-500 mt-4 text-center">
           Drag items to reorder
         </p>
@@ -0,0 +1,211 @@
+import { useState } from "preact/hooks";
+import type {
+  RestoreDiff,
+  RestoreItemRef,
+  RestoreMode,
+} from "../lib/import/restore-diff.ts";
+
+interface RestoreResponse {
+  applied: boolean;
+  diff: RestoreDiff;
+  unresolved: RestoreItemRef[];
+}
+
+/**
+ * Summarise a list of names or titles, truncating long lists
+ */
+function summarise(items: string[], limit = 5): string {
+  if (items.length <= limit) {
+    return items.join(", ");
+  }
+  return `${items.slice(0, limit).join(", ")} and ${items.length - limit} more`;
+}
+
+/**
+ * Restore island for the settings page
+ *
+ * Reads a StreamOwl JSON export, previews the changes with a dry run and
+ * only writes them once the user confirms.
+ */
+export default function RestoreBackup() {
+  const [exportJson, setExportJson] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RestoreResponse | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const handleFileChange = async (e: Event) => {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    setPreview(null);
+    setSuccess(false);
+    setError(null);
+
+    if (!file) {
+      setExportJson(null);
+      setFileName(null);
+      return;
+    }
+
+    setExportJson(await file.text());
+    setFileName(file.name);
+  };
+
+  const runRestore = async (dryRun: boolean) => {
+    if (!exportJson) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const response = await fetch(
+        `/api/settings/restore?mode=${mode}&dry_run=${dryRun}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: exportJson,
+        },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to restore export");
+      }
+
+      if (dryRun) {
+        setPreview(data);
+      } else {
+        setPreview(null);
+        setSuccess(true);
+      }
+    } catch (err) {
+      console.error("Failed to restore export:", err);
+      setError(err instanceof Error ? err.message : "Failed to restore export");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const diff = preview?.diff;
+  const titles = (items: RestoreItemRef[]) =>
+    summarise(items.map((item) => item.title));
+
+  return (
+    <div>
+      <div class="flex flex-col sm:flex-row gap-3">
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          class="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100 dark:file:bg-indigo-900/30 dark:file:text-indigo-300"
+        />
+        <select
+          value={mode}
+          onChange={(e) => {
+            setMode((e.target as HTMLSelectElement).value as RestoreMode);
+            setPreview(null);
+          }}
+          class="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="merge">Merge with my data</option>
+          <option value="replace">Replace my data</option>
+        </select>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => runRestore(true)}
+        disabled={loading || !exportJson}
+        class={`mt-3 inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          loading || !exportJson ? "opacity-50 cursor-not-allowed" : ""
+        }`}
+      >
+        {loading && !preview ? "Checking..." : "Preview changes"}
+      </button>
+
+      {error && (
+        <div class="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div class="mt-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md">
+          <p class="text-sm text-green-800 dark:text-green-200">
+            ✓ Restored {fileName}
+          </p>
+        </div>
+      )}
+
+      {preview && diff && (
+        <div class="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-md">
+          <h3 class="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+            Restoring will {diff.mode === "replace" ? "replace" : "merge"}:
+          </h3>
+          <ul class="space-y-1 text-sm text-gray-600 dark:text-gray-300">
+            <li>
+              Library: {diff.library.added.length} added,{" "}
+              {diff.library.updated.length} updated,{" "}
+              {diff.library.removed.length} removed, {diff.library.unchanged}
+              {" "}
+              unchanged
+            </li>
+            {diff.library.added.length > 0 && (
+              <li class="pl-4 text-xs">Added: {titles(diff.library.added)}</li>
+            )}
+            {diff.library.updated.length > 0 && (
+              <li class="pl-4 text-xs">
+                Updated: {titles(diff.library.updated)}
+              </li>
+            )}
+            {diff.library.removed.length > 0 && (
+              <li class="pl-4 text-xs text-red-600 dark:text-red-400">
+                Removed: {titles(diff.library.removed)}
+              </li>
+            )}
+            <li>
+              Lists: {diff.lists.added.length} added,{" "}
+              {diff.lists.updated.length} updated, {diff.lists.removed.length}
+              {" "}
+              removed
+              {diff.lists.removed.length > 0 &&
+                ` (${summarise(diff.lists.removed)})`}
+            </li>
+            <li>
+              Tags: {diff.tags.added.length} added, {diff.tags.updated.length}
+              {" "}
+              updated, {diff.tags.removed.length} removed;{" "}
+              {diff.contentTags.added} tag assignments added,{" "}
+              {diff.contentTags.removed} removed
+            </li>
+          </ul>
+
+          {preview.unresolved.length > 0 && (
+            <p class="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+              {preview.unresolved.length}{" "}
+              titles couldn't be found on TMDB and will be skipped:{" "}
+              {titles(preview.unresolved)}
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => runRestore(false)}
+            disabled={loading}
+            class={`mt-4 inline-flex items-center px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+              diff.mode === "replace"
+                ? "bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                : "bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500"
+            } ${loading ? "opacity-50 cursor-not-allowed" : ""}`}
+          >
+            {loading ? "Restoring..." : "Restore"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
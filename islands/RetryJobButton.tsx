@@ -0,0 +1,53 @@
+import { useState } from "preact/hooks";
+
+interface RetryJobButtonProps {
+  jobId: string;
+}
+
+/**
+ * Retry button for a failed or dead job on the admin jobs page
+ */
+export default function RetryJobButton({ jobId }: RetryJobButtonProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/jobs/${jobId}/retry`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to retry job");
+      }
+
+      globalThis.location.reload();
+    } catch (err) {
+      console.error("Failed to retry job:", err);
+      setError(err instanceof Error ? err.message : "Failed to retry job");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div class="text-right">
+      <button
+        type="button"
+        onClick={handleRetry}
+        disabled={loading}
+        class={`px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          loading ? "opacity-50 cursor-not-allowed" : ""
+        }`}
+      >
+        {loading ? "Retrying..." : "Retry"}
+      </button>
+      {error && (
+        <p class="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
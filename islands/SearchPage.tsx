@@ -1,5 +1,13 @@
 import { useEffect, useState } from "preact/hooks";
-import type { Content } from "../lib/tmdb/client.ts";
+import type {
+  CollectionSummary,
+  Content,
+  PersonSummary,
+} from "../lib/tmdb/client.ts";
+import type {
+  SearchResultKind,
+  UnifiedSearchResponse,
+} from "../lib/search/unified.ts";
 import {
   getGridPosterSize,
   getPosterSrcSet,
@@ -12,13 +20,6 @@ import SkeletonCard from "../components/SkeletonCard.tsx";
 import ErrorDisplay from "../components/ErrorDisplay.tsx";
 import { trackSearch } from "../lib/analytics/client.ts";
 
-interface SearchResponse {
-  results: Content[];
-  total_results: number;
-  page: number;
-  total_pages: number;
-}
-
 /**
  * TMDB genre ID to name mapping
  * Common genres for both movies and TV shows
@@ -67,15 +68,35 @@ const STREAMING_SERVICES = [
   { id: 531, name: "Paramount+" },
 ].sort((a, b) => a.name.localeCompare(b.name));
 
+type ContentTypeFilter = "all" | "movie" | "tv" | "person" | "collection";
+
+const SECTION_HEADINGS: Record<SearchResultKind, string> = {
+  title: "Movies & TV Shows",
+  person: "People",
+  collection: "Collections",
+};
+
 /**
- * Search page island component
- * Handles search input with debouncing and displays results
+ * Helper function to get profile image URL
  */
-type ContentTypeFilter = "all" | "movie" | "tv";
+function getProfileUrl(profilePath: string | null): string {
+  if (!profilePath) {
+    return "https://via.placeholder.com/185x278?text=No+Photo";
+  }
+  return `https://image.tmdb.org/t/p/w185${profilePath}`;
+}
 
+/**
+ * Search page island component
+ * Handles search input with debouncing and displays titles, people and
+ * collections in grouped sections, best match first
+ */
 export default function SearchPage() {
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<Content[]>([]);
+  const [people, setPeople] = useState<PersonSummary[]>([]);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [sections, setSections] = useState<SearchResultKind[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [typeFilter, setTypeFilter] = useState<ContentTypeFilter>("all");
@@ -107,6 +128,9 @@ export default function SearchPage() {
     // If query is empty, clear results
     if (query.trim().length === 0) {
       setResults([]);
+      setPeople([]);
+      setCollections([]);
+      setSections([]);
       setLoading(false);
       setError(null);
       setProviderAvailability({}); // Clear provider availability on new search
@@ -128,8 +152,11 @@ export default function SearchPage() {
           throw new Error("Failed to search");
         }
 
-        const data: SearchResponse = await response.json();
+        const data: UnifiedSearchResponse = await response.json();
         setResults(data.results);
+        setPeople(data.people);
+        setCollections(data.collections);
+        setSections(data.sections);
         setError(null);
         // Clear provider availability when new search results arrive
         setProviderAvailability({});
@@ -137,10 +164,16 @@ export default function SearchPage() {
         setContentStatuses({});
 
         // Track search event
-        trackSearch(query.trim(), data.results.length);
+        trackSearch(
+          query.trim(),
+          data.results.length + data.people.length + data.collections.length,
+        );
       } catch (err) {
         setError(err instanceof Error ? err.message : "An error occurred");
         setResults([]);
+        setPeople([]);
+        setCollections([]);
+        setSections([]);
         setProviderAvailability({});
       } finally {
         setLoading(false);
@@ -253,7 +286,10 @@ export default function SearchPage() {
   // Filter results by content type, genre, year range, and streaming service
   const filteredResults = results.filter((content) => {
     // Apply type filter
-    if (typeFilter !== "all" && content.type !== typeFilter) {
+    if (
+      (typeFilter === "movie" || typeFilter === "tv") &&
+      content.type !== typeFilter
+    ) {
       return false;
     }
 
@@ -299,6 +335,28 @@ export default function SearchPage() {
     return true;
   });
 
+  const hasResults = results.length + people.length + collections.length > 0;
+  const totalCount = results.length + people.length + collections.length;
+  // Genre, year and service filters only apply to movies and TV shows
+  const showTitleFilters = results.length > 0 && typeFilter !== "person" &&
+    typeFilter !== "collection";
+  const visibleSections = sections.filter((kind) => {
+    if (kind === "title") {
+      return showTitleFilters && filteredResults.length > 0;
+    }
+    return typeFilter === "all" || typeFilter === kind;
+  });
+  const visibleCount = visibleSections.reduce(
+    (count, kind) =>
+      count +
+      (kind === "title"
+        ? filteredResults.length
+        : kind === "person"
+        ? people.length
+        : collections.length),
+    0,
+  );
+
   // Fetch content status when hovering over a card
   const fetchContentStatus = async (tmdbId: number) => {
     // Skip if already fetched
@@ -370,22 +428,22 @@ export default function SearchPage() {
       {/* Search Input */}
       <div class="mb-8">
         <label for="search-input" class="sr-only">
-          Search for movies and TV shows
+          Search for movies, TV shows and people
         </label>
         <input
           type="text"
           id="search-input"
           value={query}
           onInput={(e) => setQuery((e.target as HTMLInputElement).value)}
-          placeholder="Search for movies and TV shows..."
-          aria-label="Search for movies and TV shows"
+          placeholder="Search for movies, TV shows and people..."
+          aria-label="Search for movies, TV shows and people"
           aria-describedby="search-description"
           class="w-full px-4 py-3 text-lg border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-600 dark:placeholder-gray-400"
           autofocus
         />
         <p id="search-description" class="sr-only">
-          Enter a search term to find movies and TV shows. Results will appear
-          as you type.
+          Enter a search term to find movies, TV shows, people and collections.
+          Results will appear as you type.
         </p>
       </div>
 
@@ -417,7 +475,7 @@ export default function SearchPage() {
       )}
 
       {/* Filter Buttons */}
-      {!loading && !error && results.length > 0 && (
+      {!loading && !error && hasResults && (
         <div class="mb-6 space-y-4">
           {/* Content Type Filters */}
           <div class="flex gap-2 flex-wrap">
@@ -460,10 +518,40 @@ export default function SearchPage() {
             >
               TV Shows
             </button>
+            {people.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setTypeFilter("person")}
+                aria-pressed={typeFilter === "person"}
+                aria-label="Show only people"
+                class={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  typeFilter === "person"
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                People
+              </button>
+            )}
+            {collections.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setTypeFilter("collection")}
+                aria-pressed={typeFilter === "collection"}
+                aria-label="Show only collections"
+                class={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  typeFilter === "collection"
+                    ? "bg-indigo-600 text-white"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                Collections
+              </button>
+            )}
           </div>
 
           {/* Genre Filter Dropdown */}
-          {sortedGenres.length > 0 && (
+          {showTitleFilters && sortedGenres.length > 0 && (
             <div class="flex items-center gap-2">
               <label
                 for="genre-filter"
@@ -501,7 +589,8 @@ export default function SearchPage() {
           )}
 
           {/* Year Range Filter */}
-          {minAvailableYear !== null && maxAvailableYear !== null && (
+          {showTitleFilters && minAvailableYear !== null &&
+            maxAvailableYear !== null && (
             <div class="flex items-center gap-2 flex-wrap">
               <label
                 for="min-year"
@@ -563,7 +652,7 @@ export default function SearchPage() {
           )}
 
           {/* Streaming Service Filter */}
-          {results.length > 0 && (
+          {showTitleFilters && (
             <div class="flex items-center gap-2">
               <label
                 for="streaming-service-filter"
@@ -637,90 +726,183 @@ export default function SearchPage() {
         </div>
       )}
 
-      {/* Results */}
-      {!loading && !error && filteredResults.length > 0 && (
+      {/* Results, grouped by kind with the best match first */}
+      {!loading && !error && visibleSections.length > 0 && (
         <div role="region" aria-live="polite" aria-label="Search results">
           <p class="text-gray-600 mb-4" role="status">
-            Found {filteredResults.length}{" "}
-            result{filteredResults.length !== 1 ? "s" : ""}
+            Found {visibleCount} result{visibleCount !== 1 ? "s" : ""}
             {(typeFilter !== "all" || genreFilter !== null ||
               minYear !== null || maxYear !== null ||
               streamingServiceFilter !== null) &&
-              ` (${results.length} total)`}
+              ` (${totalCount} total)`}
           </p>
-          <ContentGrid>
-            {filteredResults.map((content) => (
-              <a
-                href={`/content/${content.tmdb_id}`}
-                class="block group relative hover:scale-105 transition-transform"
-                key={`${content.type}-${content.tmdb_id}`}
-                onMouseEnter={() => fetchContentStatus(content.tmdb_id)}
-              >
-                <div class="bg-white rounded-lg shadow-md overflow-hidden relative">
-                  <img
-                    src={getPosterUrl(content.poster_path, getGridPosterSize())}
-                    srcSet={getPosterSrcSet(content.poster_path)}
-                    sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
-                    alt={content.title}
-                    class="w-full aspect-[2/3] object-cover"
-                    loading="lazy"
-                    width="300"
-                    height="450"
-                  />
-                  {/* Quick Actions Overlay */}
-                  <div
-                    onClick={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                    }}
-                  >
-                    <QuickActions
-                      tmdbId={content.tmdb_id}
-                      initialStatus={contentStatuses[content.tmdb_id] || null}
-                      onAction={(action, success) =>
-                        handleQuickAction(
-                          action,
-                          success,
-                          content.title,
-                          content.tmdb_id,
-                        )}
-                    />
-                  </div>
-                  <div class="p-3">
-                    <h3 class="font-semibold text-sm text-gray-900 line-clamp-2 group-hover:text-indigo-600">
-                      {content.title}
-                    </h3>
-                    <div class="flex items-center justify-between mt-2">
-                      <span class="text-xs text-gray-500 uppercase">
-                        {content.type}
-                      </span>
-                      {content.release_date && (
-                        <span class="text-xs text-gray-500">
-                          {new Date(content.release_date).getFullYear()}
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </a>
-            ))}
-          </ContentGrid>
+          {visibleSections.map((kind) => (
+            <section
+              key={kind}
+              class="mb-10"
+              aria-label={SECTION_HEADINGS[kind]}
+            >
+              {visibleSections.length > 1 && (
+                <h2 class="text-xl font-semibold text-gray-900 mb-4">
+                  {SECTION_HEADINGS[kind]}
+                </h2>
+              )}
+              {kind === "title" && (
+                <ContentGrid>
+                  {filteredResults.map((content) => (
+                    <a
+                      href={`/content/${content.tmdb_id}`}
+                      class="block group relative hover:scale-105 transition-transform"
+                      key={`${content.type}-${content.tmdb_id}`}
+                      onMouseEnter={() => fetchContentStatus(content.tmdb_id)}
+                    >
+                      <div class="bg-white rounded-lg shadow-md overflow-hidden relative">
+                        <img
+                          src={getPosterUrl(
+                            content.poster_path,
+                            getGridPosterSize(),
+                          )}
+                          srcSet={getPosterSrcSet(content.poster_path)}
+                          sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
+                          alt={content.title}
+                          class="w-full aspect-[2/3] object-cover"
+                          loading="lazy"
+                          width="300"
+                          height="450"
+                        />
+                        {/* Quick Actions Overlay */}
+                        <div
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                          }}
+                        >
+                          <QuickActions
+                            tmdbId={content.tmdb_id}
+                            initialStatus={contentStatuses[content.tmdb_id] ||
+                              null}
+                            onAction={(action, success) =>
+                              handleQuickAction(
+                                action,
+                                success,
+                                content.title,
+                                content.tmdb_id,
+                              )}
+                          />
+                        </div>
+                        <div class="p-3">
+                          <h3 class="font-semibold text-sm text-gray-900 line-clamp-2 group-hover:text-indigo-600">
+                            {content.title}
+                          </h3>
+                          <div class="flex items-center justify-between mt-2">
+                            <span class="text-xs text-gray-500 uppercase">
+                              {content.type}
+                            </span>
+                            {content.release_date && (
+                              <span class="text-xs text-gray-500">
+                                {new Date(content.release_date).getFullYear()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </a>
+                  ))}
+                </ContentGrid>
+              )}
+              {kind === "person" && (
+                <ContentGrid>
+                  {people.map((person) => (
+                    <a
+                      href={`/person/${person.tmdb_id}`}
+                      class="block group hover:scale-105 transition-transform"
+                      key={`person-${person.tmdb_id}`}
+                    >
+                      <div class="bg-white rounded-lg shadow-md overflow-hidden">
+                        <img
+                          src={getProfileUrl(person.profile_path)}
+                          alt={person.name}
+                          class="w-full aspect-[2/3] object-cover"
+                          loading="lazy"
+                          width="185"
+                          height="278"
+                        />
+                        <div class="p-3">
+                          <h3 class="font-semibold text-sm text-gray-900 line-clamp-2 group-hover:text-indigo-600">
+                            {person.name}
+                          </h3>
+                          <p class="text-xs text-gray-500 mt-1">
+                            {person.known_for_department}
+                          </p>
+                          {person.known_for.length > 0 && (
+                            <p class="text-xs text-gray-600 mt-1 line-clamp-2">
+                              {person.known_for.map((item) => item.title)
+                                .join(", ")}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </a>
+                  ))}
+                </ContentGrid>
+              )}
+              {kind === "collection" && (
+                <ContentGrid>
+                  {collections.map((collection) => (
+                    <a
+                      href={`/collection/${collection.tmdb_id}`}
+                      class="block group hover:scale-105 transition-transform"
+                      key={`collection-${collection.tmdb_id}`}
+                    >
+                      <div class="bg-white rounded-lg shadow-md overflow-hidden">
+                        <img
+                          src={getPosterUrl(
+                            collection.poster_path,
+                            getGridPosterSize(),
+                          )}
+                          srcSet={getPosterSrcSet(collection.poster_path)}
+                          sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
+                          alt={collection.name}
+                          class="w-full aspect-[2/3] object-cover"
+                          loading="lazy"
+                          width="300"
+                          height="450"
+                        />
+                        <div class="p-3">
+                          <h3 class="font-semibold text-sm text-gray-900 line-clamp-2 group-hover:text-indigo-600">
+                            {collection.name}
+                          </h3>
+                          <span class="text-xs text-gray-500 uppercase">
+                            Collection
+                          </span>
+                        </div>
+                      </div>
+                    </a>
+                  ))}
+                </ContentGrid>
+              )}
+            </section>
+          ))}
         </div>
       )}
 
       {/* No Results */}
       {!loading && !error && query.trim().length > 0 &&
-        filteredResults.length === 0 &&
+        visibleSections.length === 0 &&
         (
           <div class="text-center py-8">
             <p class="text-gray-600">
-              {results.length === 0
+              {!hasResults
                 ? `No results found for "${query}"`
                 : `No ${
                   typeFilter === "movie"
                     ? "movies"
                     : typeFilter === "tv"
                     ? "TV shows"
+                    : typeFilter === "person"
+                    ? "people"
+                    : typeFilter === "collection"
+                    ? "collections"
                     : "content"
                 }${
                   genreFilter !== null ? ` in ${GENRE_MAP[genreFilter]}` : ""
@@ -740,7 +922,7 @@ export default function SearchPage() {
                     : ""
                 } found for "${query}"`}
             </p>
-            {results.length > 0 &&
+            {hasResults &&
               (typeFilter !== "all" || genreFilter !== null ||
                 minYear !== null || maxYear !== null ||
                 streamingServiceFilter !== null) &&
@@ -797,7 +979,7 @@ export default function SearchPage() {
       {!loading && !error && query.trim().length === 0 && (
         <div class="text-center py-8">
           <p class="text-gray-600">
-            Start typing to search for movies and TV shows
+            Start typing to search for movies, TV shows and people
           </p>
         </div>
       )}
@@ -2,6 +2,13 @@ import { useEffect, useState } from "preact/hooks";
 import { SUPPORTED_REGIONS } from "../lib/tmdb/client.ts";
 import type { SupportedRegion } from "../lib/tmdb/client.ts";
 import { getRegionName } from "../lib/region.ts";
+import DeviceSessions from "./DeviceSessions.tsx";
+import LinkedAccounts from "./LinkedAccounts.tsx";
+import PasskeySettings from "./PasskeySettings.tsx";
+import TwoFactorSettings from "./TwoFactorSettings.tsx";
+import ImportLibrary from "./ImportLibrary.tsx";
+import MyServices from "./MyServices.tsx";
+import RestoreBackup from "./RestoreBackup.tsx";
 import ThemeToggle from "./ThemeToggle.tsx";
 
 interface SettingsPageProps {
@@ -15,8 +22,13 @@ interface SettingsPageProps {
   isPremium: boolean;
   subscriptionDetails: {
     planName: string | null;
+    billingInterval: string | null;
+    status: string;
     currentPeriodEnd: number | null;
-    customerId: string | null;
+    trialEnd: number | null;
+    cancelAtPeriodEnd: boolean;
+    paymentFailed: boolean;
+    customerId: string;
   } | null;
   userProfile: {
     email: string;
@@ -199,8 +211,15 @@ export default function SettingsPage({
     });
   };
 
-  const getPlanDisplayName = (planName: string | null): string => {
-    if (!planName) return "Premium";
+  const getPlanDisplayName = (
+    planName: string | null,
+    billingInterval: string | null,
+  ): string => {
+    if (!planName) {
+      if (billingInterval === "month") return "Premium Monthly";
+      if (billingInterval === "year") return "Premium Yearly";
+      return "Premium";
+    }
     // Format plan name (e.g., "price_xxx" -> "Premium" or use nickname)
     if (planName.includes("monthly")) return "Premium Monthly";
     if (planName.includes("yearly") || planName.includes("annual")) {
@@ -209,6 +228,21 @@ export default function SettingsPage({
     return planName;
   };
 
+  const getSubscriptionStatusText = (
+    details: NonNullable<SettingsPageProps["subscriptionDetails"]>,
+  ): string => {
+    if (details.status === "trialing" && details.trialEnd) {
+      return `Free trial ends on ${formatDate(details.trialEnd)}`;
+    }
+    if (!details.currentPeriodEnd) {
+      return "Active subscription";
+    }
+    if (details.cancelAtPeriodEnd) {
+      return `Cancelled, ends on ${formatDate(details.currentPeriodEnd)}`;
+    }
+    return `Renews on ${formatDate(details.currentPeriodEnd)}`;
+  };
+
   const handleSaveDisplayName = async () => {
     setNameLoading(true);
     setError(null);
@@ -739,15 +773,20 @@ export default function SettingsPage({
                   <div class="flex items-start justify-between">
                     <div>
                       <h3 class="text-sm font-medium text-indigo-900">
-                        {getPlanDisplayName(subscriptionDetails.planName)}
+                        {getPlanDisplayName(
+                          subscriptionDetails.planName,
+                          subscriptionDetails.billingInterval,
+                        )}
                       </h3>
                       <p class="mt-1 text-sm text-indigo-700">
-                        {subscriptionDetails.currentPeriodEnd
-                          ? `Renews on ${
-                            formatDate(subscriptionDetails.currentPeriodEnd)
-                          }`
-                          : "Active subscription"}
+                        {getSubscriptionStatusText(subscriptionDetails)}
                       </p>
+                      {subscriptionDetails.paymentFailed && (
+                        <p class="mt-1 text-sm text-red-700 dark:text-red-300">
+                          Your last payment failed. Update your payment method
+                          to keep Premium.
+                        </p>
+                      )}
                     </div>
                     <button
                       type="button"
@@ -872,6 +911,31 @@ export default function SettingsPage({
               </div>
             )}
 
+            <div class="mb-6 pb-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Import Library
+              </h2>
+              <p class="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Bring your history across from Letterboxd or IMDb, or add the
+                library from a StreamOwl JSON export. Existing entries are never
+                downgraded.
+              </p>
+              <ImportLibrary />
+            </div>
+
+            <div class="mb-6 pb-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Restore from Export
+              </h2>
+              <p class="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Load a StreamOwl JSON export back in, including lists and tags.
+                Merge keeps anything not in the export; replace makes your
+                library, lists and tags match it exactly. You'll see a preview
+                before anything changes.
+              </p>
+              <RestoreBackup />
+            </div>
+
             <div class="mb-6">
               <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
                 Region Preference
@@ -936,6 +1000,18 @@ export default function SettingsPage({
               )}
             </div>
 
+            <div class="mb-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                My Services
+              </h2>
+              <p class="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Pick the streaming services you subscribe to. We'll let you know
+                when something on your watchlist starts streaming on one of them
+                in your region.
+              </p>
+              <MyServices />
+            </div>
+
             <div class="mb-6 pt-6 border-t border-gray-200 dark:border-gray-700">
               <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
                 Public Profile
@@ -1182,6 +1258,46 @@ export default function SettingsPage({
               </div>
             </div>
 
+            <div class="mb-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Passkeys
+              </h2>
+              <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Sign in with your fingerprint, face or screen lock instead of a
+                password.
+              </p>
+              <PasskeySettings />
+            </div>
+
+            <div class="mb-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Connected Accounts
+              </h2>
+              <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Sign in with another account you already have.
+              </p>
+              <LinkedAccounts />
+            </div>
+
+            <div class="mb-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Two-Factor Authentication
+              </h2>
+              <TwoFactorSettings />
+            </div>
+
+            <div class="mb-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Devices & Sessions
+              </h2>
+              <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                These devices are signed in to your account. Sign out of any you
+                don't recognise, or everywhere if you think someone else has
+                access.
+              </p>
+              <DeviceSessions />
+            </div>
+
             {/* Delete Account Section */}
             <div class="pt-6 border-t border-gray-200 dark:border-gray-700">
               <h2 class="text-lg font-medium text-red-600 dark:text-red-500 mb-2">
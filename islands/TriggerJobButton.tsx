@@ -0,0 +1,71 @@
+import { useState } from "preact/hooks";
+
+interface TriggerJobButtonProps {
+  type: "streaming.sync" | "embedding.backfill";
+  label: string;
+}
+
+/**
+ * Button on the admin overview that queues a streaming sync or an
+ * embedding backfill
+ */
+export default function TriggerJobButton(
+  { type, label }: TriggerJobButtonProps,
+) {
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setLoading(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to queue jobs");
+      }
+
+      setMessage(
+        data.queued === 0
+          ? "Already queued"
+          : `Queued ${data.queued} job${data.queued === 1 ? "" : "s"}`,
+      );
+    } catch (err) {
+      console.error("Failed to queue jobs:", err);
+      setError(err instanceof Error ? err.message : "Failed to queue jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={loading}
+        class={`px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          loading ? "opacity-50 cursor-not-allowed" : ""
+        }`}
+      >
+        {loading ? "Queueing..." : label}
+      </button>
+      {message && (
+        <p class="mt-1 text-xs text-green-700 dark:text-green-400">
+          {message}
+        </p>
+      )}
+      {error && (
+        <p class="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
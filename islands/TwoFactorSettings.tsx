@@ -0,0 +1,292 @@
+import { useEffect, useState } from "preact/hooks";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  available: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+// What the form below the status is being used for
+type Mode = "idle" | "setup" | "regenerate" | "disable";
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const PRIMARY_BUTTON_CLASS =
+  "px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50";
+const SECONDARY_BUTTON_CLASS =
+  "px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50";
+
+/**
+ * "Two-factor authentication" island for the settings page
+ *
+ * Sets up an authenticator app, shows recovery codes once when they're
+ * created, and turns two-factor sign-in off again after asking for the
+ * password and a code.
+ */
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch("/api/settings/two-factor");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load two-factor settings");
+      }
+
+      setStatus(data);
+    } catch (err) {
+      console.error("Failed to load two-factor settings:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load two-factor settings",
+      );
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const reset = (nextMode: Mode = "idle") => {
+    setMode(nextMode);
+    setCode("");
+    setPassword("");
+    setError(null);
+  };
+
+  /**
+   * Send a request and return its JSON, throwing its message on failure
+   */
+  const send = async (
+    url: string,
+    method: string,
+    body?: Record<string, string>,
+  ) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong");
+      }
+      return data;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setSetup(await send("/api/settings/two-factor/setup", "POST"));
+      reset("setup");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start setup");
+    }
+  };
+
+  const handleSubmit = async (e: Event) => {
+    e.preventDefault();
+
+    try {
+      if (mode === "setup") {
+        const data = await send("/api/settings/two-factor", "POST", { code });
+        setSetup(null);
+        setRecoveryCodes(data.recoveryCodes);
+      } else if (mode === "regenerate") {
+        const data = await send(
+          "/api/settings/two-factor/recovery-codes",
+          "POST",
+          { code },
+        );
+        setRecoveryCodes(data.recoveryCodes);
+      } else if (mode === "disable") {
+        await send("/api/settings/two-factor", "DELETE", { password, code });
+      }
+      reset();
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  if (!status) {
+    return error
+      ? <p class="text-sm text-red-600 dark:text-red-400">{error}</p>
+      : (
+        <p class="text-sm text-gray-500 dark:text-gray-400">
+          Loading two-factor settings...
+        </p>
+      );
+  }
+
+  if (!status.available) {
+    return (
+      <p class="text-sm text-gray-500 dark:text-gray-400">
+        Two-factor authentication protects password sign-in. Your account signs
+        in with a linked provider, so it's protected by that account instead.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p class="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div class="mb-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+          <p class="text-sm font-medium text-yellow-900 dark:text-yellow-100 mb-2">
+            Save these recovery codes somewhere safe. Each one signs you in once
+            if you lose your authenticator app, and they won't be shown again.
+          </p>
+          <ul class="grid grid-cols-2 gap-1 font-mono text-sm text-gray-900 dark:text-gray-100 mb-3">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes(null)}
+            class={SECONDARY_BUTTON_CLASS}
+          >
+            I've saved them
+          </button>
+        </div>
+      )}
+
+      <p class="text-sm text-gray-700 dark:text-gray-300 mb-4">
+        {status.enabled
+          ? `On. You have ${status.recoveryCodesRemaining} recovery ${
+            status.recoveryCodesRemaining === 1 ? "code" : "codes"
+          } left.`
+          : "Off. Turn it on to ask for a code from an authenticator app when you sign in with your password."}
+      </p>
+
+      {mode === "setup" && setup && (
+        <div class="mb-4 text-sm text-gray-700 dark:text-gray-300 space-y-2">
+          <p>
+            Add Stream Owl to your authenticator app by{" "}
+            <a
+              href={setup.otpauthUri}
+              class="font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              opening this link
+            </a>{" "}
+            on your phone, or by entering this key:
+          </p>
+          <p class="font-mono text-gray-900 dark:text-gray-100 break-all">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </p>
+          <p>Then enter the 6-digit code it shows.</p>
+        </div>
+      )}
+
+      {mode !== "idle" && (
+        <form onSubmit={handleSubmit} class="space-y-3 mb-4 max-w-sm">
+          {mode === "disable" && (
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              placeholder="Password"
+              value={password}
+              onInput={(e) => setPassword((e.target as HTMLInputElement).value)}
+              class={INPUT_CLASS}
+            />
+          )}
+          <input
+            type="text"
+            autoComplete="one-time-code"
+            required
+            placeholder={mode === "setup"
+              ? "6-digit code"
+              : "Code from your app or a recovery code"}
+            value={code}
+            onInput={(e) =>
+              setCode((e.target as HTMLInputElement).value)}
+            class={INPUT_CLASS}
+          />
+          <div class="flex gap-2">
+            <button type="submit" disabled={busy} class={PRIMARY_BUTTON_CLASS}>
+              {busy
+                ? "Checking..."
+                : mode === "setup"
+                ? "Turn on"
+                : mode === "regenerate"
+                ? "Create new codes"
+                : "Turn off"}
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                reset()}
+              disabled={busy}
+              class={SECONDARY_BUTTON_CLASS}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {mode === "idle" && (
+        <div class="flex gap-2">
+          {status.enabled
+            ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => reset("regenerate")}
+                  class={SECONDARY_BUTTON_CLASS}
+                >
+                  New recovery codes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => reset("disable")}
+                  class="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-800 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  Turn off
+                </button>
+              </>
+            )
+            : (
+              <button
+                type="button"
+                onClick={handleStartSetup}
+                disabled={busy}
+                class={PRIMARY_BUTTON_CLASS}
+              >
+                {busy ? "Starting..." : "Set up authenticator app"}
+              </button>
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from "preact/hooks";
+import { useToast } from "./Toast.tsx";
+
+interface WatchInOrderButtonProps {
+  collectionId: number;
+}
+
+/**
+ * Island component that turns a collection into a custom list of its
+ * movies in release order, then opens the new list
+ */
+export default function WatchInOrderButton(
+  { collectionId }: WatchInOrderButtonProps,
+) {
+  const [loading, setLoading] = useState(false);
+  const { showToast, ToastContainer } = useToast();
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(
+        `/api/collections/${collectionId}/watch-in-order`,
+        { method: "POST" },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || data.error || "Failed to create list",
+        );
+      }
+
+      globalThis.location.href = `/lists/${data.list.id}`;
+    } catch (error) {
+      console.error("Error creating watch-in-order list:", error);
+      showToast(
+        error instanceof Error ? error.message : "Failed to create list",
+        "error",
+      );
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={loading}
+        class={`px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 border border-transparent hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          loading ? "opacity-50 cursor-not-allowed" : ""
+        }`}
+      >
+        {loading ? "Creating list..." : "Watch in order"}
+      </button>
+      <ToastContainer />
+    </>
+  );
+}
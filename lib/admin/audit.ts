@@ -0,0 +1,84 @@
+/**
+ * Audit trail for the admin area
+ *
+ * Every change staff make through the admin area is recorded in
+ * admin_audit_log, as is every request made while impersonating a user, so
+ * there is a full record of what was done on a user's behalf.
+ */
+
+import { query } from "../db.ts";
+import { getClientIp } from "../security/rate-limit.ts";
+
+export type AuditAction =
+  | "user.premium_update"
+  | "user.role_update"
+  | "job.trigger"
+  | "impersonation.start"
+  | "impersonation.stop"
+  | "impersonation.request";
+
+export interface AuditEvent {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  target_user_id: string | null;
+  target_email: string | null;
+  details: Record<string, unknown>;
+  ip_address: string | null;
+  created_at: Date;
+}
+
+/**
+ * Record something a staff member did
+ *
+ * @param req The staff member's request, for their IP address
+ * @param actorId Staff user ID
+ * @param action What they did
+ * @param targetUserId The user it was done to, if any
+ * @param details Anything else worth keeping, such as old and new values
+ */
+export async function recordAuditEvent(
+  req: Request,
+  actorId: string,
+  action: AuditAction,
+  targetUserId: string | null,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  await query(
+    `INSERT INTO admin_audit_log
+       (actor_id, action, target_user_id, details, ip_address)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      actorId,
+      action,
+      targetUserId,
+      JSON.stringify(details),
+      getClientIp(req).slice(0, 45),
+    ],
+  );
+}
+
+/**
+ * List audit events, newest first
+ *
+ * @param filters Optional user filter, matching either the actor or target
+ * @param limit Maximum number of events
+ * @param offset Number of events to skip
+ */
+export async function listAuditEvents(
+  filters: { userId?: string } = {},
+  limit = 50,
+  offset = 0,
+): Promise<AuditEvent[]> {
+  return await query<AuditEvent>(
+    `SELECT l.*, actor.email AS actor_email, target.email AS target_email
+     FROM admin_audit_log l
+     LEFT JOIN users actor ON actor.id = l.actor_id
+     LEFT JOIN users target ON target.id = l.target_user_id
+     WHERE $1::uuid IS NULL OR l.actor_id = $1 OR l.target_user_id = $1
+     ORDER BY l.created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [filters.userId ?? null, limit, offset],
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * User lookup for the admin area
+ */
+
+import { query } from "../db.ts";
+import type { UserRole } from "../auth/roles.ts";
+
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  display_name: string | null;
+  role: UserRole;
+  /** Complimentary premium granted by an admin */
+  premium: boolean;
+  /** Status of the user's most recent Stripe subscription, if any */
+  subscription_status: string | null;
+  email_verified: boolean;
+  created_at: Date;
+}
+
+const SUMMARY_COLUMNS = `id, email, display_name, role,
+  complimentary_premium AS premium,
+  (SELECT s.status FROM subscriptions s WHERE s.user_id = users.id
+   ORDER BY s.created_at DESC LIMIT 1) AS subscription_status,
+  email_verified_at IS NOT NULL AS email_verified, created_at`;
+
+/**
+ * List users, newest first
+ *
+ * @param search Optional text matched against email and display name
+ * @param limit Maximum number of users
+ * @param offset Number of users to skip
+ */
+export async function listUsers(
+  search: string | null,
+  limit = 50,
+  offset = 0,
+): Promise<AdminUserSummary[]> {
+  return await query<AdminUserSummary>(
+    `SELECT ${SUMMARY_COLUMNS}
+     FROM users
+     WHERE $1::text IS NULL
+        OR email ILIKE '%' || $1 || '%'
+        OR display_name ILIKE '%' || $1 || '%'
+     ORDER BY created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [search, limit, offset],
+  );
+}
+
+/**
+ * Get one user's summary
+ *
+ * @param userId User ID (UUID)
+ * @returns The user, or null if not found
+ */
+export async function getUserSummary(
+  userId: string,
+): Promise<AdminUserSummary | null> {
+  const rows = await query<AdminUserSummary>(
+    `SELECT ${SUMMARY_COLUMNS} FROM users WHERE id = $1`,
+    [userId],
+  );
+  return rows[0] ?? null;
+}
@@ -1,12 +1,12 @@
 /**
  * Rate limiting utilities for AI recommendations
  *
- * Tracks daily recommendation usage for free tier users
- * Limits free users to 3 AI recommendations per day
+ * Tracks daily recommendation usage for plans with a daily limit
+ * (see dailyRecommendations in lib/auth/entitlements.ts)
  */
 
 import { redisCache } from "../cache/redis.ts";
-import { isPremiumUser } from "../auth/premium.ts";
+import { getEntitlements } from "../auth/entitlements.ts";
 
 /**
  * Get daily usage key for a user
@@ -31,10 +31,10 @@ function getSecondsUntilMidnight(): number {
  * Get current recommendation usage count for a user today
  */
 export async function getRecommendationUsage(userId: string): Promise<number> {
-  // Premium users have unlimited recommendations
-  const isPremium = await isPremiumUser(userId);
-  if (isPremium) {
-    return 0; // No limit for premium users
+  // Plans without a daily limit aren't tracked
+  const { dailyRecommendations } = await getEntitlements(userId);
+  if (dailyRecommendations === null) {
+    return 0;
   }
 
   const key = getDailyUsageKey(userId);
@@ -48,10 +48,10 @@ export async function getRecommendationUsage(userId: string): Promise<number> {
 export async function incrementRecommendationUsage(
   userId: string,
 ): Promise<number> {
-  // Premium users have unlimited recommendations
-  const isPremium = await isPremiumUser(userId);
-  if (isPremium) {
-    return 0; // No limit for premium users
+  // Plans without a daily limit aren't tracked
+  const { dailyRecommendations } = await getEntitlements(userId);
+  if (dailyRecommendations === null) {
+    return 0;
   }
 
   const key = getDailyUsageKey(userId);
@@ -66,29 +66,29 @@ export async function incrementRecommendationUsage(
 export async function hasReachedRecommendationLimit(
   userId: string,
 ): Promise<boolean> {
-  // Premium users have unlimited recommendations
-  const isPremium = await isPremiumUser(userId);
-  if (isPremium) {
-    return false; // No limit for premium users
+  // Plans without a daily limit aren't tracked
+  const { dailyRecommendations } = await getEntitlements(userId);
+  if (dailyRecommendations === null) {
+    return false;
   }
 
   const usage = await getRecommendationUsage(userId);
-  return usage >= 3; // Free tier limit: 3 recommendations per day
+  return usage >= dailyRecommendations;
 }
 
 /**
  * Get remaining recommendations for a user today
- * Returns 0 for premium users (unlimited)
+ * Returns 999 for plans without a daily limit
  */
 export async function getRemainingRecommendations(
   userId: string,
 ): Promise<number> {
-  // Premium users have unlimited recommendations
-  const isPremium = await isPremiumUser(userId);
-  if (isPremium) {
-    return 999; // Return a high number for premium users
+  // Plans without a daily limit aren't tracked
+  const { dailyRecommendations } = await getEntitlements(userId);
+  if (dailyRecommendations === null) {
+    return 999;
   }
 
   const usage = await getRecommendationUsage(userId);
-  return Math.max(0, 3 - usage); // Free tier limit: 3 recommendations per day
+  return Math.max(0, dailyRecommendations - usage);
 }
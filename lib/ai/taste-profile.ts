@@ -6,6 +6,10 @@
  */
 
 import { query } from "../db.ts";
+import { enqueueJob } from "../jobs/queue.ts";
+
+// Wait this long before recalculating so bursts of changes share one run
+const TASTE_PROFILE_DEBOUNCE_MS = 5000;
 
 /**
  * Calculate and store user taste profile
@@ -121,3 +125,21 @@ export async function recalculateTasteProfile(
 ): Promise<number[] | null> {
   return await calculateAndStoreTasteProfile(userId);
 }
+
+/**
+ * Queue a taste profile recalculation on the background job queue
+ *
+ * Changes made in quick succession (rating then marking as watched, or a
+ * bulk import) collapse into a single recalculation a few seconds later.
+ *
+ * @param userId User ID (UUID)
+ * @returns Job ID, or null if a recalculation is already queued
+ */
+export async function enqueueTasteProfileRecalculation(
+  userId: string,
+): Promise<string | null> {
+  return await enqueueJob("taste_profile.recalculate", { userId }, {
+    dedupeKey: userId,
+    delayMs: TASTE_PROFILE_DEBOUNCE_MS,
+  });
+}
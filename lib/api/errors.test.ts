@@ -171,6 +171,18 @@ Deno.test("createTooManyRequestsResponse should create 429 response", async () =
   assertEquals(body.message, "Rate limit exceeded");
   assertEquals(body.rateLimitExceeded, true);
   assertEquals(body.remainingSeconds, 60);
+  assertEquals(response.headers.get("Retry-After"), "60");
+});
+
+Deno.test("createTooManyRequestsResponse should include rate limit headers", () => {
+  const response = createTooManyRequestsResponse("Rate limit exceeded", 5, {
+    "RateLimit-Limit": "60",
+    "RateLimit-Remaining": "0",
+  });
+
+  assertEquals(response.headers.get("RateLimit-Limit"), "60");
+  assertEquals(response.headers.get("RateLimit-Remaining"), "0");
+  assertEquals(response.headers.get("Content-Type"), "application/json");
 });
 
 Deno.test("createTooManyRequestsResponse should handle null remainingSeconds", async () => {
@@ -178,4 +190,5 @@ Deno.test("createTooManyRequestsResponse should handle null remainingSeconds", a
 
   const body = await response.json();
   assertEquals(body.remainingSeconds, undefined);
+  assertEquals(response.headers.get("Retry-After"), null);
 });
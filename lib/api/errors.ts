@@ -151,10 +151,14 @@ export function createForbiddenResponse(
 
 /**
  * Create a 429 Too Many Requests response
+ *
+ * Sets Retry-After from remainingSeconds. Pass the limiter's RateLimit-*
+ * headers (getRateLimitHeaders) in headers to describe the limit too.
  */
 export function createTooManyRequestsResponse(
   message: string,
   remainingSeconds?: number | null,
+  headers?: Record<string, string>,
 ): Response {
   const body: ApiErrorResponse & {
     rateLimitExceeded?: boolean;
@@ -170,6 +174,12 @@ export function createTooManyRequestsResponse(
 
   return new Response(JSON.stringify(body), {
     status: 429,
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      ...headers,
+      "Content-Type": "application/json",
+      ...(remainingSeconds !== undefined && remainingSeconds !== null && {
+        "Retry-After": String(remainingSeconds),
+      }),
+    },
   });
 }
@@ -0,0 +1,31 @@
+/**
+ * Response header helpers for middleware
+ */
+
+/**
+ * Add headers to a response built by a handler
+ *
+ * Some responses (e.g. Response.redirect) have immutable headers; those are
+ * copied first.
+ *
+ * @param response Response from the handler
+ * @param headers Headers to set
+ * @returns The response, or a copy of it, with the headers set
+ */
+export function withHeaders(
+  response: Response,
+  headers: Record<string, string>,
+): Response {
+  try {
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    for (const [name, value] of Object.entries(headers)) {
+      copy.headers.set(name, value);
+    }
+    return copy;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for route access rules
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { getRouteAccess, hasJobsApiKey } from "./access.ts";
+
+Deno.test("getRouteAccess should require a user for unlisted API routes", () => {
+  assertEquals(getRouteAccess("/api/library/watchlist", "GET"), "user");
+  assertEquals(getRouteAccess("/api/some-new-endpoint", "POST"), "user");
+});
+
+Deno.test("getRouteAccess should allow public API routes", () => {
+  assertEquals(getRouteAccess("/api/login", "POST"), "public");
+  assertEquals(getRouteAccess("/api/login/two-factor", "POST"), "public");
+  assertEquals(getRouteAccess("/api/search", "GET"), "public");
+  assertEquals(getRouteAccess("/api/search/providers", "POST"), "public");
+  assertEquals(getRouteAccess("/api/auth/google/callback", "GET"), "public");
+  assertEquals(getRouteAccess("/api/auth/passkey/verify", "POST"), "public");
+  assertEquals(getRouteAccess("/api/auth/apple/callback", "POST"), "public");
+});
+
+Deno.test("getRouteAccess should keep fixed /api/auth routes ahead of providers", () => {
+  assertEquals(getRouteAccess("/api/auth/google", "GET"), "public");
+  assertEquals(
+    getRouteAccess("/api/auth/resend-verification", "POST"),
+    "user",
+  );
+});
+
+Deno.test("getRouteAccess should match methods", () => {
+  assertEquals(getRouteAccess("/api/lists/abc/items", "GET"), "public");
+  assertEquals(getRouteAccess("/api/lists/abc/items", "POST"), "user");
+});
+
+Deno.test("getRouteAccess should protect admin and job routes", () => {
+  assertEquals(getRouteAccess("/api/admin/jobs/1/retry", "POST"), "admin");
+  assertEquals(getRouteAccess("/api/jobs/run", "GET"), "jobs");
+});
+
+Deno.test("getRouteAccess should let support staff into user lookup only", () => {
+  assertEquals(getRouteAccess("/api/admin/users", "GET"), "support");
+  assertEquals(
+    getRouteAccess("/api/admin/users/abc/impersonate", "POST"),
+    "support",
+  );
+  assertEquals(getRouteAccess("/api/admin/users/abc", "PATCH"), "admin");
+  assertEquals(getRouteAccess("/admin/users", "GET"), "support");
+  assertEquals(getRouteAccess("/admin/audit", "GET"), "admin");
+  assertEquals(getRouteAccess("/admin", "GET"), "admin");
+});
+
+Deno.test("getRouteAccess should leave unlisted pages public", () => {
+  assertEquals(getRouteAccess("/dashboard", "GET"), "public");
+  assertEquals(getRouteAccess("/administrator", "GET"), "public");
+});
+
+Deno.test("hasJobsApiKey should need a configured key", () => {
+  const request = new Request("https://example.com/api/jobs/run", {
+    headers: { Authorization: "Bearer secret" },
+  });
+
+  Deno.env.delete("JOBS_API_KEY");
+  assertEquals(hasJobsApiKey(request), false);
+
+  Deno.env.set("JOBS_API_KEY", "secret");
+  try {
+    assertEquals(hasJobsApiKey(request), true);
+    assertEquals(
+      hasJobsApiKey(new Request("https://example.com/api/jobs/run")),
+      false,
+    );
+  } finally {
+    Deno.env.delete("JOBS_API_KEY");
+  }
+});
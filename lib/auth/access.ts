@@ -0,0 +1,109 @@
+/**
+ * Who may call each route
+ *
+ * Access is declared here rather than checked in each handler. The root
+ * middleware (routes/_middleware.ts) looks up the first rule matching the
+ * request and refuses it before the handler runs, so handlers can read the
+ * session from ctx.state without checking it again.
+ *
+ * Anything under /api that no rule covers needs a signed-in user, so a new
+ * endpoint is private until it's listed here as public. Pages are public
+ * unless listed; signed-out visitors to a listed page are sent to the login
+ * page, and signed-in users without the role get a 404.
+ */
+
+/**
+ * - public: anyone
+ * - user: a signed-in user
+ * - support: a signed-in support user or admin (see ./roles.ts)
+ * - admin: a signed-in admin
+ * - jobs: the JOBS_API_KEY bearer token, or a signed-in admin
+ */
+export type AccessLevel = "public" | "user" | "support" | "admin" | "jobs";
+
+interface AccessRule {
+  pattern: URLPattern;
+  access: AccessLevel;
+  /** Methods the rule applies to (default: all) */
+  methods?: string[];
+}
+
+function rule(
+  pathname: string,
+  access: AccessLevel,
+  methods?: string[],
+): AccessRule {
+  return { pattern: new URLPattern({ pathname }), access, methods };
+}
+
+const ACCESS_RULES: AccessRule[] = [
+  // Signing in and out, and account recovery
+  rule("/api/login", "public"),
+  rule("/api/login/two-factor", "public"),
+  rule("/api/signup", "public"),
+  rule("/api/logout", "public"),
+  rule("/api/forgot-password", "public"),
+  rule("/api/reset-password", "public"),
+  rule("/api/auth/passkey/*", "public"),
+  rule("/api/auth/verify-email", "public"),
+  rule("/api/auth/resend-verification", "user"),
+  // Sign-in providers (see ./oidc.ts), after the fixed /api/auth routes
+  rule("/api/auth/:provider{/callback}?", "public"),
+
+  // Browsing works signed out; signed-in users get personalised results
+  rule("/api/search{/*}?", "public"),
+  rule("/api/browse", "public"),
+  rule("/api/trending", "public"),
+  rule("/api/new-releases", "public"),
+  rule("/api/leaving-soon", "public"),
+  rule("/api/lists/:list_id/items", "public", ["GET"]),
+  rule("/api/notifications/vapid-key", "public"),
+  rule("/api/analytics/track", "public"),
+
+  // Verified by its Stripe signature instead
+  rule("/api/premium/webhook", "public"),
+
+  rule("/api/jobs/*", "jobs"),
+
+  // Support staff can look users up and impersonate them; the rest of the
+  // admin area is for admins
+  rule("/api/admin/users", "support", ["GET"]),
+  rule("/api/admin/users/:user_id/impersonate", "support"),
+  rule("/api/admin/*", "admin"),
+  rule("/api/analytics/summary", "admin"),
+
+  rule("/api/*", "user"),
+
+  rule("/admin/users", "support"),
+  rule("/admin{/*}?", "admin"),
+  rule("/analytics", "admin"),
+];
+
+/**
+ * Look up the access level for a request
+ *
+ * @param pathname URL path
+ * @param method HTTP method
+ * @returns The first matching rule's level, or "public" for unlisted pages
+ */
+export function getRouteAccess(pathname: string, method: string): AccessLevel {
+  for (const { pattern, access, methods } of ACCESS_RULES) {
+    if (methods && !methods.includes(method)) {
+      continue;
+    }
+    if (pattern.test({ pathname })) {
+      return access;
+    }
+  }
+  return "public";
+}
+
+/**
+ * Check a request for the JOBS_API_KEY bearer token
+ *
+ * @returns false when no key is configured
+ */
+export function hasJobsApiKey(req: Request): boolean {
+  const apiKey = Deno.env.get("JOBS_API_KEY");
+  return !!apiKey && req.headers.get("Authorization") === `Bearer ${apiKey}`;
+}
@@ -21,6 +21,40 @@ export const SESSION_COOKIE_OPTIONS = {
   maxAge: 7 * 24 * 60 * 60, // 7 days in seconds
 };
 
+function appendCookie(
+  headers: Headers,
+  name: string,
+  value: string,
+  maxAge: number,
+  sameSite: "Lax" | "None" = SESSION_COOKIE_OPTIONS.sameSite,
+): void {
+  const cookieValue =
+    `${name}=${value}; Path=${SESSION_COOKIE_OPTIONS.path}; HttpOnly; SameSite=${sameSite}; Max-Age=${maxAge}`;
+
+  // Appended rather than set, so one response can set several cookies
+  if (SESSION_COOKIE_OPTIONS.secure) {
+    headers.append("Set-Cookie", `${cookieValue}; Secure`);
+  } else {
+    headers.append("Set-Cookie", cookieValue);
+  }
+}
+
+function getCookie(request: Request, name: string): string | undefined {
+  const cookieHeader = request.headers.get("Cookie");
+  if (!cookieHeader) {
+    return undefined;
+  }
+
+  const cookies = cookieHeader.split(";").map((c) => c.trim());
+  const cookie = cookies.find((c) => c.startsWith(`${name}=`));
+
+  if (!cookie) {
+    return undefined;
+  }
+
+  return cookie.substring(name.length + 1);
+}
+
 /**
  * Set session cookie in response headers
  *
@@ -28,14 +62,12 @@ export const SESSION_COOKIE_OPTIONS = {
  * @param token JWT token string
  */
 export function setSessionCookie(headers: Headers, token: string): void {
-  const cookieValue =
-    `${SESSION_COOKIE_NAME}=${token}; Path=${SESSION_COOKIE_OPTIONS.path}; HttpOnly; SameSite=${SESSION_COOKIE_OPTIONS.sameSite}; Max-Age=${SESSION_COOKIE_OPTIONS.maxAge}`;
-
-  if (SESSION_COOKIE_OPTIONS.secure) {
-    headers.set("Set-Cookie", `${cookieValue}; Secure`);
-  } else {
-    headers.set("Set-Cookie", cookieValue);
-  }
+  appendCookie(
+    headers,
+    SESSION_COOKIE_NAME,
+    token,
+    SESSION_COOKIE_OPTIONS.maxAge,
+  );
 }
 
 /**
@@ -44,14 +76,7 @@ export function setSessionCookie(headers: Headers, token: string): void {
  * @param headers Response headers object
  */
 export function clearSessionCookie(headers: Headers): void {
-  const cookieValue =
-    `${SESSION_COOKIE_NAME}=; Path=${SESSION_COOKIE_OPTIONS.path}; HttpOnly; SameSite=${SESSION_COOKIE_OPTIONS.sameSite}; Max-Age=0`;
-
-  if (SESSION_COOKIE_OPTIONS.secure) {
-    headers.set("Set-Cookie", `${cookieValue}; Secure`);
-  } else {
-    headers.set("Set-Cookie", cookieValue);
-  }
+  appendCookie(headers, SESSION_COOKIE_NAME, "", 0);
 }
 
 /**
@@ -61,19 +86,122 @@ export function clearSessionCookie(headers: Headers): void {
  * @returns Session token if present, undefined otherwise
  */
 export function getSessionToken(request: Request): string | undefined {
-  const cookieHeader = request.headers.get("Cookie");
-  if (!cookieHeader) {
-    return undefined;
-  }
+  return getCookie(request, SESSION_COOKIE_NAME);
+}
 
-  const cookies = cookieHeader.split(";").map((c) => c.trim());
-  const sessionCookie = cookies.find((c) =>
-    c.startsWith(`${SESSION_COOKIE_NAME}=`)
+/**
+ * Cookie name for the token that lets a device skip two-factor sign-in
+ */
+export const TRUSTED_DEVICE_COOKIE_NAME = "trusted_device";
+
+/**
+ * Set the trusted device cookie (see ./two-factor.ts)
+ *
+ * @param headers Response headers object
+ * @param token Trusted device token
+ * @param maxAge Lifetime in seconds
+ */
+export function setTrustedDeviceCookie(
+  headers: Headers,
+  token: string,
+  maxAge: number,
+): void {
+  appendCookie(headers, TRUSTED_DEVICE_COOKIE_NAME, token, maxAge);
+}
+
+/**
+ * Extract the trusted device token from request cookies
+ *
+ * @param request Request object
+ * @returns Trusted device token if present, undefined otherwise
+ */
+export function getTrustedDeviceToken(request: Request): string | undefined {
+  return getCookie(request, TRUSTED_DEVICE_COOKIE_NAME);
+}
+
+/**
+ * Cookie name for the two-factor challenge of a provider sign-in, which
+ * redirects to the login page rather than returning JSON
+ */
+export const TWO_FACTOR_CHALLENGE_COOKIE_NAME = "two_factor_challenge";
+
+/**
+ * Set the two-factor challenge cookie
+ *
+ * @param headers Response headers object
+ * @param token Token from createTwoFactorChallengeToken
+ * @param maxAge Lifetime in seconds
+ */
+export function setTwoFactorChallengeCookie(
+  headers: Headers,
+  token: string,
+  maxAge: number,
+): void {
+  appendCookie(headers, TWO_FACTOR_CHALLENGE_COOKIE_NAME, token, maxAge);
+}
+
+/**
+ * Clear the two-factor challenge cookie once sign-in is complete
+ *
+ * @param headers Response headers object
+ */
+export function clearTwoFactorChallengeCookie(headers: Headers): void {
+  appendCookie(headers, TWO_FACTOR_CHALLENGE_COOKIE_NAME, "", 0);
+}
+
+/**
+ * Extract the two-factor challenge token from request cookies
+ *
+ * @param request Request object
+ * @returns Challenge token if present, undefined otherwise
+ */
+export function getTwoFactorChallengeToken(
+  request: Request,
+): string | undefined {
+  return getCookie(request, TWO_FACTOR_CHALLENGE_COOKIE_NAME);
+}
+
+/**
+ * Cookie name for the OpenID Connect sign-in in progress
+ */
+export const OIDC_FLOW_COOKIE_NAME = "oidc_flow";
+
+/**
+ * Set the OpenID Connect flow cookie (see ./oidc.ts)
+ *
+ * Providers using form_post send the user back with a cross-site POST,
+ * which doesn't carry SameSite=Lax cookies, so over HTTPS the cookie is
+ * SameSite=None. It's signed and only useful with the state the
+ * provider returns.
+ *
+ * @param headers Response headers object
+ * @param token Token from createOidcFlowToken
+ */
+export function setOidcFlowCookie(headers: Headers, token: string): void {
+  appendCookie(
+    headers,
+    OIDC_FLOW_COOKIE_NAME,
+    token,
+    10 * 60,
+    SESSION_COOKIE_OPTIONS.secure ? "None" : "Lax",
   );
+}
 
-  if (!sessionCookie) {
-    return undefined;
-  }
+/**
+ * Clear the OpenID Connect flow cookie once the flow is over
+ *
+ * @param headers Response headers object
+ */
+export function clearOidcFlowCookie(headers: Headers): void {
+  appendCookie(headers, OIDC_FLOW_COOKIE_NAME, "", 0);
+}
 
-  return sessionCookie.substring(SESSION_COOKIE_NAME.length + 1);
+/**
+ * Extract the OpenID Connect flow token from request cookies
+ *
+ * @param request Request object
+ * @returns Flow token if present, undefined otherwise
+ */
+export function getOidcFlowToken(request: Request): string | undefined {
+  return getCookie(request, OIDC_FLOW_COOKIE_NAME);
 }
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for premium entitlements
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  PAYMENT_GRACE_DAYS,
+  PLAN_ENTITLEMENTS,
+  subscriptionGrantsPremium,
+  type SubscriptionState,
+} from "./entitlements.ts";
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function subscription(
+  overrides: Partial<SubscriptionState>,
+): SubscriptionState {
+  return {
+    status: "active",
+    current_period_end: new Date(NOW.getTime() + 10 * DAY),
+    cancel_at_period_end: false,
+    payment_failed_at: null,
+    ...overrides,
+  };
+}
+
+Deno.test("subscriptionGrantsPremium should grant premium while active or trialing", () => {
+  assertEquals(subscriptionGrantsPremium(subscription({}), NOW), true);
+  assertEquals(
+    subscriptionGrantsPremium(subscription({ status: "trialing" }), NOW),
+    true,
+  );
+});
+
+Deno.test("subscriptionGrantsPremium should grant premium until a cancelled period ends", () => {
+  assertEquals(
+    subscriptionGrantsPremium(
+      subscription({ cancel_at_period_end: true }),
+      NOW,
+    ),
+    true,
+  );
+  assertEquals(
+    subscriptionGrantsPremium(
+      subscription({
+        cancel_at_period_end: true,
+        current_period_end: new Date(NOW.getTime() - DAY),
+      }),
+      NOW,
+    ),
+    false,
+  );
+});
+
+Deno.test("subscriptionGrantsPremium should allow a grace period after a failed payment", () => {
+  const failedDaysAgo = (days: number) =>
+    subscription({
+      status: "past_due",
+      payment_failed_at: new Date(NOW.getTime() - days * DAY),
+    });
+
+  assertEquals(subscriptionGrantsPremium(failedDaysAgo(1), NOW), true);
+  assertEquals(
+    subscriptionGrantsPremium(failedDaysAgo(PAYMENT_GRACE_DAYS), NOW),
+    false,
+  );
+
+  // Without a recorded failure the grace period runs from the renewal date
+  assertEquals(
+    subscriptionGrantsPremium(
+      subscription({
+        status: "past_due",
+        current_period_end: new Date(
+          NOW.getTime() - (PAYMENT_GRACE_DAYS + 1) * DAY,
+        ),
+      }),
+      NOW,
+    ),
+    false,
+  );
+});
+
+Deno.test("subscriptionGrantsPremium should not grant premium for ended subscriptions", () => {
+  for (const status of ["canceled", "unpaid", "incomplete", "paused"]) {
+    assertEquals(
+      subscriptionGrantsPremium(subscription({ status }), NOW),
+      false,
+    );
+  }
+});
+
+Deno.test("PLAN_ENTITLEMENTS should only limit the free plan", () => {
+  assertEquals(PLAN_ENTITLEMENTS.free.maxCustomLists, 3);
+  assertEquals(PLAN_ENTITLEMENTS.free.dataExport, false);
+  assertEquals(PLAN_ENTITLEMENTS.premium.maxCustomLists, null);
+  assertEquals(PLAN_ENTITLEMENTS.premium.dailyRecommendations, null);
+});
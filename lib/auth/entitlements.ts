@@ -0,0 +1,168 @@
+/**
+ * Premium entitlements
+ *
+ * What each plan allows, and which plan a user is on. Every premium gate
+ * (list limits, data export, AI chat, recommendation limits, leaving-soon
+ * alerts) asks here, so the limits live in one place.
+ *
+ * A user is premium while one of their Stripe subscriptions (mirrored in
+ * lib/stripe/subscriptions.ts) grants it, or while an admin has given them
+ * complimentary premium.
+ */
+
+import { query } from "../db.ts";
+
+export type Plan = "free" | "premium";
+
+/**
+ * What a plan allows
+ */
+export interface Entitlements {
+  plan: Plan;
+  /** Custom lists the user can own, or null for no limit */
+  maxCustomLists: number | null;
+  /** AI recommendations a day, or null for no limit */
+  dailyRecommendations: number | null;
+  /** Export library data from settings */
+  dataExport: boolean;
+  /** AI chat and mood-based recommendations */
+  aiChat: boolean;
+  /** Push alerts for watchlist titles leaving a streaming service */
+  leavingSoonAlerts: boolean;
+}
+
+export const PLAN_ENTITLEMENTS: Record<Plan, Entitlements> = {
+  free: {
+    plan: "free",
+    maxCustomLists: 3,
+    dailyRecommendations: 3,
+    dataExport: false,
+    aiChat: false,
+    leavingSoonAlerts: false,
+  },
+  premium: {
+    plan: "premium",
+    maxCustomLists: null,
+    dailyRecommendations: null,
+    dataExport: true,
+    aiChat: true,
+    leavingSoonAlerts: true,
+  },
+};
+
+/**
+ * Days premium continues after a failed payment, while Stripe retries it
+ */
+export const PAYMENT_GRACE_DAYS = 7;
+
+/**
+ * The parts of a subscription that decide whether it grants premium
+ */
+export interface SubscriptionState {
+  status: string;
+  current_period_end: Date | null;
+  cancel_at_period_end: boolean;
+  payment_failed_at: Date | null;
+}
+
+/**
+ * Check whether a subscription grants premium
+ *
+ * Trialing and active subscriptions do, including ones cancelled at period
+ * end until the period is over. Past due subscriptions do for
+ * PAYMENT_GRACE_DAYS after the first failed payment. Anything else
+ * (canceled, unpaid, incomplete, paused) doesn't.
+ */
+export function subscriptionGrantsPremium(
+  subscription: SubscriptionState,
+  now: Date = new Date(),
+): boolean {
+  switch (subscription.status) {
+    case "trialing":
+    case "active":
+      // In case the deletion event at period end never arrives
+      return !subscription.cancel_at_period_end ||
+        !subscription.current_period_end ||
+        subscription.current_period_end > now;
+    case "past_due": {
+      const failedAt = subscription.payment_failed_at ??
+        subscription.current_period_end;
+      if (!failedAt) {
+        return true;
+      }
+      return now.getTime() - failedAt.getTime() <
+        PAYMENT_GRACE_DAYS * 24 * 60 * 60 * 1000;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the plan a user is on
+ *
+ * @returns "free" for unknown users
+ */
+export async function getPlan(userId: string): Promise<Plan> {
+  // One row per subscription, or one with a null status if there are none
+  const rows = await query<
+    Omit<SubscriptionState, "status"> & {
+      complimentary_premium: boolean;
+      status: string | null;
+    }
+  >(
+    `SELECT u.complimentary_premium, s.status, s.current_period_end,
+            COALESCE(s.cancel_at_period_end, false) AS cancel_at_period_end,
+            s.payment_failed_at
+     FROM users u
+     LEFT JOIN subscriptions s ON s.user_id = u.id
+     WHERE u.id = $1`,
+    [userId],
+  );
+
+  const premium = rows.some((row) =>
+    row.complimentary_premium ||
+    (row.status !== null &&
+      subscriptionGrantsPremium({ ...row, status: row.status }))
+  );
+  return premium ? "premium" : "free";
+}
+
+/**
+ * Get what a user's plan allows
+ */
+export async function getEntitlements(userId: string): Promise<Entitlements> {
+  return PLAN_ENTITLEMENTS[await getPlan(userId)];
+}
+
+/**
+ * Check if a user has premium
+ *
+ * @param userId - The user ID to check
+ * @returns true if user has premium, false otherwise
+ */
+export async function isPremiumUser(userId: string): Promise<boolean> {
+  return (await getPlan(userId)) === "premium";
+}
+
+/**
+ * Grant or remove complimentary premium
+ *
+ * Called by admins. It doesn't affect premium from a subscription.
+ *
+ * @param userId - The user ID to update
+ * @param granted - Whether the user should have complimentary premium
+ * @returns false if the user doesn't exist
+ */
+export async function setComplimentaryPremium(
+  userId: string,
+  granted: boolean,
+): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    `UPDATE users SET complimentary_premium = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2
+     RETURNING id`,
+    [granted, userId],
+  );
+  return result.length > 0;
+}
@@ -0,0 +1,175 @@
+/**
+ * Linked sign-in identities
+ *
+ * Each row ties an account at an OpenID Connect provider (see ./oidc.ts) to a
+ * user, so one user can sign in with several providers as well as, or
+ * instead of, a password or passkey. An account at a provider can only be
+ * linked to one user.
+ */
+
+import { query, transaction } from "../db.ts";
+import type { OidcProfile } from "./oidc.ts";
+
+/**
+ * A linked identity, as listed in settings
+ */
+export interface IdentityRecord {
+  id: string;
+  provider: string;
+  email: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * Find the user an identity is linked to
+ *
+ * @returns The identity's ID and its user, or null if it isn't linked
+ */
+export async function findIdentity(
+  provider: string,
+  subject: string,
+): Promise<{ id: string; user_id: string; email: string } | null> {
+  const rows = await query<{ id: string; user_id: string; email: string }>(
+    `SELECT i.id, i.user_id, u.email FROM user_identities i
+     JOIN users u ON u.id = i.user_id
+     WHERE i.provider = $1 AND i.subject = $2`,
+    [provider, subject],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Link an identity to a user
+ *
+ * @throws Error from the database if it's already linked
+ */
+export async function linkIdentity(
+  userId: string,
+  provider: string,
+  profile: OidcProfile,
+): Promise<void> {
+  await query(
+    `INSERT INTO user_identities (user_id, provider, subject, email, last_used_at)
+     VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
+    [userId, provider, profile.subject, profile.email],
+  );
+}
+
+/**
+ * Record a sign-in with an identity, and fill in the user's name and
+ * picture from the provider if they haven't set their own
+ */
+export async function recordIdentityUse(
+  id: string,
+  userId: string,
+  profile: OidcProfile,
+): Promise<void> {
+  await query(
+    `UPDATE user_identities SET last_used_at = CURRENT_TIMESTAMP,
+       email = COALESCE($2, email)
+     WHERE id = $1`,
+    [id, profile.email],
+  );
+  await query(
+    `UPDATE users SET display_name = COALESCE(display_name, $2),
+       avatar_url = COALESCE(avatar_url, $3), updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND (display_name IS NULL OR avatar_url IS NULL)`,
+    [userId, profile.name, profile.picture],
+  );
+}
+
+/**
+ * Find a user by email, to link an identity whose provider has verified the
+ * same address
+ */
+export async function findUserByEmail(
+  email: string,
+): Promise<{ id: string; email: string } | null> {
+  const rows = await query<{ id: string; email: string }>(
+    "SELECT id, email FROM users WHERE email = $1",
+    [email.toLowerCase()],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Create a user who signed up with a provider, with the identity linked
+ *
+ * @param profile Must have a verified email
+ */
+export async function createUserWithIdentity(
+  provider: string,
+  profile: OidcProfile & { email: string },
+): Promise<{ id: string; email: string }> {
+  return await transaction(async (client) => {
+    const result = await client.queryObject<{ id: string; email: string }>({
+      text:
+        `INSERT INTO users (email, display_name, avatar_url, email_verified_at)
+             VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+             RETURNING id, email`,
+      args: [profile.email, profile.name, profile.picture],
+    });
+    const user = result.rows[0];
+
+    await client.queryObject({
+      text:
+        `INSERT INTO user_identities (user_id, provider, subject, email, last_used_at)
+             VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
+      args: [user.id, provider, profile.subject, profile.email],
+    });
+
+    return user;
+  });
+}
+
+/**
+ * List a user's linked identities, oldest first
+ */
+export async function listIdentities(
+  userId: string,
+): Promise<IdentityRecord[]> {
+  return await query<IdentityRecord>(
+    `SELECT id, provider, email, created_at, last_used_at FROM user_identities
+     WHERE user_id = $1
+     ORDER BY created_at`,
+    [userId],
+  );
+}
+
+/**
+ * Check whether a user could still sign in without one of their identities,
+ * with a password, a passkey or another identity
+ */
+export async function canSignInWithout(
+  userId: string,
+  identityId: string,
+): Promise<boolean> {
+  const rows = await query<{ can_sign_in: boolean }>(
+    `SELECT (
+       EXISTS (SELECT 1 FROM users WHERE id = $1 AND password_hash IS NOT NULL)
+       OR EXISTS (SELECT 1 FROM passkeys WHERE user_id = $1)
+       OR EXISTS (
+         SELECT 1 FROM user_identities WHERE user_id = $1 AND id <> $2
+       )
+     ) AS can_sign_in`,
+    [userId, identityId],
+  );
+  return rows[0]?.can_sign_in ?? false;
+}
+
+/**
+ * Unlink one of a user's identities
+ *
+ * @returns false if the user has no such identity
+ */
+export async function unlinkIdentity(
+  id: string,
+  userId: string,
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    "DELETE FROM user_identities WHERE id = $1 AND user_id = $2 RETURNING id",
+    [id, userId],
+  );
+  return rows.length > 0;
+}
@@ -8,8 +8,10 @@ import {
 } from "https://deno.land/std@0.216.0/assert/mod.ts";
 import {
   createSessionToken,
+  createTwoFactorChallengeToken,
   type SessionPayload as _SessionPayload,
   verifySessionToken,
+  verifyTwoFactorChallengeToken,
 } from "./jwt.ts";
 
 // Set up test JWT secret
@@ -44,6 +46,40 @@ Deno.test("verifySessionToken should decode valid token", async () => {
   assert(typeof payload.exp === "number");
 });
 
+Deno.test("verifySessionToken should keep the session and impersonator", async () => {
+  Deno.env.set("JWT_SECRET", TEST_JWT_SECRET);
+
+  const token = await createSessionToken(
+    "test-user-id",
+    "test@example.com",
+    3600,
+    { sessionId: "session-id", impersonatorId: "staff-user-id" },
+  );
+  const payload = await verifySessionToken(token);
+
+  assertEquals(payload.userId, "test-user-id");
+  assertEquals(payload.sessionId, "session-id");
+  assertEquals(payload.impersonatorId, "staff-user-id");
+});
+
+Deno.test("two-factor challenge tokens should never pass as sessions", async () => {
+  Deno.env.set("JWT_SECRET", TEST_JWT_SECRET);
+
+  const challenge = await createTwoFactorChallengeToken("test-user-id");
+  assertEquals(await verifyTwoFactorChallengeToken(challenge), "test-user-id");
+
+  let rejected = false;
+  try {
+    await verifySessionToken(challenge);
+  } catch {
+    rejected = true;
+  }
+  assert(rejected);
+
+  const session = await createSessionToken("test-user-id", "a@example.com");
+  assertEquals(await verifyTwoFactorChallengeToken(session), null);
+});
+
 Deno.test("verifySessionToken should reject invalid token", async () => {
   Deno.env.set("JWT_SECRET", TEST_JWT_SECRET);
 
@@ -10,6 +10,7 @@ import {
   getNumericDate,
   verify,
 } from "https://deno.land/x/djwt@v3.0.2/mod.ts";
+import type { OidcFlow } from "./oidc.ts";
 
 /**
  * Get JWT secret from environment variable
@@ -25,12 +26,29 @@ function getJwtSecret(): string {
   return secret;
 }
 
+/**
+ * Import the JWT secret as an HMAC key
+ */
+async function getSigningKey(): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getJwtSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
 /**
  * Session payload structure
  */
 export interface SessionPayload {
   userId: string;
   email: string;
+  /** Row in the sessions table (see ./sessions.ts) */
+  sessionId?: string;
+  /** Set when a support user or admin is impersonating userId */
+  impersonatorId?: string;
   iat?: number;
   exp?: number;
 }
@@ -41,25 +59,23 @@ export interface SessionPayload {
  * @param userId User ID (UUID)
  * @param email User email address
  * @param expiresInSeconds Token expiration time in seconds (default: 7 days)
+ * @param claims The session's ID, and the staff user ID for impersonation
+ *   sessions
  * @returns Signed JWT token string
  */
 export async function createSessionToken(
   userId: string,
   email: string,
   expiresInSeconds: number = 7 * 24 * 60 * 60, // 7 days default
+  claims: { sessionId?: string; impersonatorId?: string } = {},
 ): Promise<string> {
-  const secret = getJwtSecret();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    new TextEncoder().encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign", "verify"],
-  );
+  const key = await getSigningKey();
 
   const payload = {
     userId,
     email,
+    ...(claims.sessionId ? { sessionId: claims.sessionId } : {}),
+    ...(claims.impersonatorId ? { impersonatorId: claims.impersonatorId } : {}),
     exp: getNumericDate(new Date(Date.now() + expiresInSeconds * 1000)),
     iat: getNumericDate(new Date()),
   };
@@ -67,6 +83,11 @@ export async function createSessionToken(
   return await create({ alg: "HS256", typ: "JWT" }, payload, key);
 }
 
+function isOptionalString(payload: object, key: string): boolean {
+  return !(key in payload) ||
+    typeof (payload as Record<string, unknown>)[key] === "string";
+}
+
 /**
  * Verify and decode a JWT token
  *
@@ -77,14 +98,7 @@ export async function createSessionToken(
 export async function verifySessionToken(
   token: string,
 ): Promise<SessionPayload> {
-  const secret = getJwtSecret();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    new TextEncoder().encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign", "verify"],
-  );
+  const key = await getSigningKey();
 
   try {
     const payload = await verify(token, key) as unknown;
@@ -95,7 +109,9 @@ export async function verifySessionToken(
       "userId" in payload &&
       "email" in payload &&
       typeof (payload as { userId: unknown }).userId === "string" &&
-      typeof (payload as { email: unknown }).email === "string"
+      typeof (payload as { email: unknown }).email === "string" &&
+      isOptionalString(payload, "sessionId") &&
+      isOptionalString(payload, "impersonatorId")
     ) {
       return payload as SessionPayload;
     }
@@ -105,3 +121,101 @@ export async function verifySessionToken(
     throw new Error(`Invalid or expired token: ${message}`);
   }
 }
+
+// Long enough to open an authenticator app and type a code
+export const TWO_FACTOR_CHALLENGE_SECONDS = 5 * 60;
+
+/**
+ * Create a token showing a user has passed the password step of sign-in
+ * and still owes a second factor (see ./two-factor.ts)
+ *
+ * It has no email claim, so verifySessionToken never accepts it as a
+ * session.
+ *
+ * @param userId User ID (UUID)
+ * @returns Signed JWT token string, valid for 5 minutes
+ */
+export async function createTwoFactorChallengeToken(
+  userId: string,
+): Promise<string> {
+  const key = await getSigningKey();
+  return await create({ alg: "HS256", typ: "JWT" }, {
+    twoFactorUserId: userId,
+    exp: getNumericDate(
+      new Date(Date.now() + TWO_FACTOR_CHALLENGE_SECONDS * 1000),
+    ),
+    iat: getNumericDate(new Date()),
+  }, key);
+}
+
+/**
+ * Verify a two-factor challenge token
+ *
+ * @param token Token from createTwoFactorChallengeToken
+ * @returns The user ID, or null if the token is invalid or expired
+ */
+export async function verifyTwoFactorChallengeToken(
+  token: string,
+): Promise<string | null> {
+  try {
+    const payload = await verify(token, await getSigningKey()) as unknown;
+    if (
+      typeof payload === "object" &&
+      payload !== null &&
+      typeof (payload as { twoFactorUserId?: unknown }).twoFactorUserId ===
+        "string"
+    ) {
+      return (payload as { twoFactorUserId: string }).twoFactorUserId;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Long enough to sign in at the provider
+const OIDC_FLOW_SECONDS = 10 * 60;
+
+/**
+ * Create a token holding the secrets of a sign-in in progress with an
+ * OpenID Connect provider (see ./oidc.ts), to keep in a cookie until the
+ * provider sends the user back
+ *
+ * @param flow The flow's state, nonce and PKCE verifier, and where it leads
+ * @returns Signed JWT token string, valid for 10 minutes
+ */
+export async function createOidcFlowToken(flow: OidcFlow): Promise<string> {
+  const key = await getSigningKey();
+  return await create({ alg: "HS256", typ: "JWT" }, {
+    oidcFlow: flow,
+    exp: getNumericDate(new Date(Date.now() + OIDC_FLOW_SECONDS * 1000)),
+    iat: getNumericDate(new Date()),
+  }, key);
+}
+
+/**
+ * Verify an OpenID Connect flow token
+ *
+ * @param token Token from createOidcFlowToken
+ * @returns The flow, or null if the token is invalid or expired
+ */
+export async function verifyOidcFlowToken(
+  token: string,
+): Promise<OidcFlow | null> {
+  try {
+    const payload = await verify(token, await getSigningKey()) as {
+      oidcFlow?: OidcFlow;
+    };
+    const flow = payload.oidcFlow;
+    if (
+      typeof flow === "object" && flow !== null &&
+      typeof flow.provider === "string" && typeof flow.state === "string" &&
+      typeof flow.nonce === "string" && typeof flow.codeVerifier === "string"
+    ) {
+      return flow;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
@@ -5,9 +5,11 @@
  * validate them, and make session data available to route handlers.
  */
 
-import type { HandlerContext } from "$fresh/server.ts";
+import type { FreshContext } from "$fresh/server.ts";
 import { getSessionToken } from "./cookies.ts";
 import { type SessionPayload, verifySessionToken } from "./jwt.ts";
+import type { UserRole } from "./roles.ts";
+import { isSessionActive } from "./sessions.ts";
 
 /**
  * Session data attached to Fresh context
@@ -17,74 +19,108 @@ export interface SessionContext {
   isAuthenticated: boolean;
 }
 
+/**
+ * State the root middleware sets on every request
+ */
+export interface AppState extends SessionContext {
+  requestId: string;
+  /** The user's role, loaded only for routes that need one */
+  role?: UserRole;
+}
+
+// Sessions already looked up for a request, so pages and the logger calling
+// getSessionFromRequest after the root middleware don't query again
+const requestSessions = new WeakMap<
+  Request,
+  Promise<SessionPayload | null>
+>();
+
 /**
  * Extract and validate session from request
  *
+ * The token must be valid and its session (see ./sessions.ts) still active.
+ *
  * @param request Request object
  * @returns Session payload if valid token found, null otherwise
  */
-export async function getSessionFromRequest(
+export function getSessionFromRequest(
   request: Request,
 ): Promise<SessionPayload | null> {
+  let session = requestSessions.get(request);
+  if (!session) {
+    session = loadSession(request);
+    requestSessions.set(request, session);
+  }
+  return session;
+}
+
+async function loadSession(request: Request): Promise<SessionPayload | null> {
   const token = getSessionToken(request);
   if (!token) {
     return null;
   }
 
+  let payload: SessionPayload;
   try {
-    return await verifySessionToken(token);
+    payload = await verifySessionToken(token);
   } catch {
     // Token is invalid or expired
     return null;
   }
+
+  // Tokens from before sessions were stored can't be revoked, so they're
+  // no longer accepted
+  if (!payload.sessionId) {
+    return null;
+  }
+  return await isSessionActive(payload.sessionId, payload.userId)
+    ? payload
+    : null;
 }
 
 /**
- * Middleware function to attach session to Fresh handler context
+ * Get the session the root middleware attached to the context
  *
  * Usage in route handlers:
  * ```ts
  * export const handler: Handlers = {
  *   async GET(req, ctx) {
- *     const session = ctx.state.session;
- *     if (!session) {
- *       return new Response("Unauthorized", { status: 401 });
- *     }
- *     // Use session.userId, session.email
+ *     const session = getSession(ctx);
+ *     // Use session?.userId, session?.email
  *   }
  * }
  * ```
  */
-export async function withSession(
-  req: Request,
-  ctx: HandlerContext,
-): Promise<HandlerContext & { state: SessionContext }> {
-  const session = await getSessionFromRequest(req);
-
-  return {
-    ...ctx,
-    state: {
-      ...ctx.state,
-      session,
-      isAuthenticated: session !== null,
-    },
-  };
+export function getSession(ctx: FreshContext): SessionPayload | null {
+  return (ctx.state as Partial<SessionContext>).session ?? null;
 }
 
 /**
- * Helper to require authentication in route handlers
+ * Get the signed-in user's session in route handlers
+ *
+ * Routes that need a user are declared in ./access.ts and refused by the
+ * middleware before the handler runs; this only narrows the type.
  *
  * @param ctx Handler context with session state
  * @returns Session payload if authenticated
- * @throws Response with 401 status if not authenticated
+ * @throws Response with 401 JSON status if not authenticated
  */
-export function requireAuth(
-  ctx: HandlerContext & { state: SessionContext },
-): SessionPayload {
-  if (!ctx.state.session || !ctx.state.isAuthenticated) {
-    throw new Response("Unauthorized", { status: 401 });
+export function requireAuth(ctx: FreshContext): SessionPayload {
+  const session = getSession(ctx);
+  if (!session) {
+    throw createUnauthorizedJsonResponse();
   }
-  return ctx.state.session;
+  return session;
+}
+
+function createUnauthorizedJsonResponse(): Response {
+  return new Response(
+    JSON.stringify({ error: "Unauthorized" }),
+    {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    },
+  );
 }
 
 /**
@@ -103,13 +139,7 @@ export async function requireAuthForApi(
   const session = await getSessionFromRequest(request);
 
   if (!session) {
-    throw new Response(
-      JSON.stringify({ error: "Unauthorized" }),
-      {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      },
-    );
+    throw createUnauthorizedJsonResponse();
   }
 
   return session;
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for OpenID Connect sign-in
+ *
+ * Runs the whole flow against the mock provider in
+ * lib/fixtures/oidc-provider.ts, with fetch routed to it in-process.
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { createMockOidcProvider } from "../fixtures/oidc-provider.ts";
+import {
+  beginAuthorization,
+  completeAuthorization,
+  createCodeChallenge,
+  discoverProvider,
+  getProvider,
+  getRedirectUri,
+  type OidcFlow,
+  type OidcProvider,
+  verifyIdToken,
+} from "./oidc.ts";
+import { base64UrlDecode, base64UrlEncode } from "./webauthn.ts";
+
+const ISSUER = "https://idp.test";
+const mockProvider = createMockOidcProvider({
+  issuer: ISSUER,
+  clientId: "stream-owl",
+  clientSecret: "mock-secret",
+});
+const APP_REQUEST = new Request("http://localhost:8000/api/auth/idp");
+
+async function withMockProvider(
+  fn: (provider: OidcProvider) => Promise<void>,
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  Deno.env.set("OIDC_ISSUER", ISSUER);
+  Deno.env.set("OIDC_CLIENT_ID", "stream-owl");
+  Deno.env.set("OIDC_CLIENT_SECRET", "mock-secret");
+  Deno.env.set("OIDC_PROVIDER_ID", "idp");
+  globalThis.fetch = (input, init) =>
+    mockProvider(new Request(input instanceof URL ? input.href : input, init));
+
+  try {
+    await fn(getProvider("idp")!);
+  } finally {
+    globalThis.fetch = originalFetch;
+    for (
+      const name of [
+        "OIDC_ISSUER",
+        "OIDC_CLIENT_ID",
+        "OIDC_CLIENT_SECRET",
+        "OIDC_PROVIDER_ID",
+      ]
+    ) {
+      Deno.env.delete(name);
+    }
+  }
+}
+
+/**
+ * Start a flow and follow the provider's redirect back
+ *
+ * @returns The flow and the callback's query parameters
+ */
+async function authorize(
+  provider: OidcProvider,
+  email = "viewer@example.com",
+): Promise<{ flow: OidcFlow; callback: URLSearchParams }> {
+  const { url, flow } = await beginAuthorization(APP_REQUEST, provider, {
+    returnTo: "/dashboard",
+  });
+  const authorizeUrl = new URL(url);
+  authorizeUrl.searchParams.set("login_hint", email);
+
+  const response = await mockProvider(new Request(authorizeUrl));
+  const location = new URL(response.headers.get("Location")!);
+  assertEquals(
+    `${location.origin}${location.pathname}`,
+    getRedirectUri(APP_REQUEST, provider),
+  );
+  return { flow, callback: location.searchParams };
+}
+
+Deno.test("createCodeChallenge should match the RFC 7636 example", async () => {
+  assertEquals(
+    await createCodeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk"),
+    "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM",
+  );
+});
+
+Deno.test("getProvider should only return configured providers", () => {
+  assertEquals(getProvider("idp"), null);
+});
+
+Deno.test("sign-in should complete against the mock provider", async () => {
+  await withMockProvider(async (provider) => {
+    const metadata = await discoverProvider(provider);
+    assertEquals(metadata.token_endpoint, `${ISSUER}/token`);
+
+    const { flow, callback } = await authorize(provider);
+    assertEquals(callback.get("state"), flow.state);
+
+    const profile = await completeAuthorization(provider, {
+      code: callback.get("code")!,
+      redirectUri: getRedirectUri(APP_REQUEST, provider),
+      codeVerifier: flow.codeVerifier,
+      nonce: flow.nonce,
+    });
+    assertEquals(profile, {
+      subject: "mock|viewer@example.com",
+      email: "viewer@example.com",
+      emailVerified: true,
+      name: "viewer",
+      picture: null,
+    });
+  });
+});
+
+Deno.test("sign-in should fail with the wrong PKCE verifier or a reused code", async () => {
+  await withMockProvider(async (provider) => {
+    const { flow, callback } = await authorize(provider);
+    const params = {
+      code: callback.get("code")!,
+      redirectUri: getRedirectUri(APP_REQUEST, provider),
+      codeVerifier: "not-the-verifier",
+      nonce: flow.nonce,
+    };
+
+    await assertRejects(
+      () => completeAuthorization(provider, params),
+      Error,
+      "code_verifier",
+    );
+    // The failed attempt used the code up
+    await assertRejects(
+      () =>
+        completeAuthorization(provider, {
+          ...params,
+          codeVerifier: flow.codeVerifier,
+        }),
+      Error,
+      "Unknown or expired code",
+    );
+  });
+});
+
+Deno.test("sign-in should fail when the nonce doesn't match", async () => {
+  await withMockProvider(async (provider) => {
+    const { flow, callback } = await authorize(provider);
+
+    await assertRejects(
+      () =>
+        completeAuthorization(provider, {
+          code: callback.get("code")!,
+          redirectUri: getRedirectUri(APP_REQUEST, provider),
+          codeVerifier: flow.codeVerifier,
+          nonce: "another-nonce",
+        }),
+      Error,
+      "nonce",
+    );
+  });
+});
+
+Deno.test("verifyIdToken should reject tokens for other clients or with altered claims", async () => {
+  await withMockProvider(async (provider) => {
+    const { flow, callback } = await authorize(provider);
+    const response = await fetch(`${ISSUER}/token`, {
+      method: "POST",
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: callback.get("code")!,
+        redirect_uri: getRedirectUri(APP_REQUEST, provider),
+        client_id: "stream-owl",
+        client_secret: "mock-secret",
+        code_verifier: flow.codeVerifier,
+      }),
+    });
+    const { id_token: idToken } = await response.json();
+    const metadata = await discoverProvider(provider);
+
+    await assertRejects(
+      () =>
+        verifyIdToken(idToken, metadata, {
+          clientId: "someone-else",
+          nonce: flow.nonce,
+        }),
+      Error,
+      "another client",
+    );
+
+    const [header, payload, signature] = idToken.split(".");
+    const claims = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(payload)),
+    );
+    const altered = base64UrlEncode(
+      new TextEncoder().encode(
+        JSON.stringify({ ...claims, sub: "mock|admin" }),
+      ),
+    );
+    await assertRejects(
+      () =>
+        verifyIdToken(`${header}.${altered}.${signature}`, metadata, {
+          clientId: "stream-owl",
+          nonce: flow.nonce,
+        }),
+      Error,
+      "signature",
+    );
+  });
+});
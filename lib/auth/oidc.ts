@@ -0,0 +1,460 @@
+/**
+ * OpenID Connect sign-in
+ *
+ * Every provider goes through the same authorization code flow: endpoints
+ * come from the issuer's discovery document, the code exchange is bound to
+ * the browser with PKCE, and the ID token's signature (against the issuer's
+ * JWKS), issuer, audience, expiry and nonce are checked before its claims
+ * are trusted. Providers are enabled by setting their client credentials
+ * (see getConfiguredProviders).
+ *
+ * Facebook Login doesn't offer the code flow over OIDC for the web, so it
+ * isn't listed here.
+ */
+
+import { base64UrlDecode, base64UrlEncode } from "./webauthn.ts";
+
+/**
+ * A provider users can sign in with
+ */
+export interface OidcProvider {
+  /** Used in URLs and stored in user_identities.provider */
+  id: string;
+  /** Shown on buttons, e.g. "Google" */
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  /**
+   * "form_post" makes the provider POST the result to the callback, which
+   * Apple requires when asking for the user's email
+   */
+  responseMode?: "query" | "form_post";
+}
+
+/**
+ * The parts of a discovery document we use
+ */
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+/**
+ * Who signed in, from the ID token (and userinfo when the token lacks an
+ * email)
+ */
+export interface OidcProfile {
+  /** The provider's stable ID for the user */
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  picture: string | null;
+}
+
+/**
+ * A sign-in in progress, kept in a signed cookie until the provider sends
+ * the user back (see createOidcFlowToken in ./jwt.ts)
+ */
+export interface OidcFlow {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  /** Path to go to afterwards */
+  returnTo: string;
+  /** Set when a signed-in user is linking the provider to their account */
+  linkUserId?: string;
+}
+
+// Discovery documents and keys change rarely; keys are refetched early if a
+// token is signed with one we haven't seen
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Allowed difference between our clock and the provider's
+const CLOCK_SKEW_SECONDS = 60;
+
+const metadataCache = new Map<
+  string,
+  { metadata: OidcMetadata; expiresAt: number }
+>();
+const jwksCache = new Map<string, { keys: JsonWebKey[]; expiresAt: number }>();
+
+/**
+ * List the providers with credentials configured
+ */
+export function getConfiguredProviders(): OidcProvider[] {
+  const env = (name: string) => Deno.env.get(name) || "";
+  const providers: OidcProvider[] = [];
+
+  if (env("GOOGLE_OAUTH_CLIENT_ID") && env("GOOGLE_OAUTH_CLIENT_SECRET")) {
+    providers.push({
+      id: "google",
+      name: "Google",
+      issuer: "https://accounts.google.com",
+      clientId: env("GOOGLE_OAUTH_CLIENT_ID"),
+      clientSecret: env("GOOGLE_OAUTH_CLIENT_SECRET"),
+      scopes: ["openid", "email", "profile"],
+    });
+  }
+
+  if (env("APPLE_CLIENT_ID") && env("APPLE_CLIENT_SECRET")) {
+    providers.push({
+      id: "apple",
+      name: "Apple",
+      issuer: "https://appleid.apple.com",
+      clientId: env("APPLE_CLIENT_ID"),
+      // A JWT signed with the Sign in with Apple key, valid up to 6 months
+      clientSecret: env("APPLE_CLIENT_SECRET"),
+      scopes: ["openid", "email", "name"],
+      responseMode: "form_post",
+    });
+  }
+
+  // Any other OIDC provider, such as a company identity provider or the mock
+  // provider in scripts/mock-oidc-server.ts
+  if (env("OIDC_ISSUER") && env("OIDC_CLIENT_ID")) {
+    providers.push({
+      id: env("OIDC_PROVIDER_ID") || "oidc",
+      name: env("OIDC_PROVIDER_NAME") || "Single sign-on",
+      issuer: env("OIDC_ISSUER").replace(/\/$/, ""),
+      clientId: env("OIDC_CLIENT_ID"),
+      clientSecret: env("OIDC_CLIENT_SECRET"),
+      scopes: ["openid", "email", "profile"],
+    });
+  }
+
+  return providers;
+}
+
+/**
+ * Look up a configured provider by ID
+ */
+export function getProvider(id: string): OidcProvider | null {
+  return getConfiguredProviders().find((provider) => provider.id === id) ??
+    null;
+}
+
+/**
+ * Get the callback URL registered with providers
+ */
+export function getRedirectUri(req: Request, provider: OidcProvider): string {
+  const origin = Deno.env.get("APP_BASE_URL") || new URL(req.url).origin;
+  return `${origin.replace(/\/$/, "")}/api/auth/${provider.id}/callback`;
+}
+
+/**
+ * Fetch a provider's discovery document
+ *
+ * @throws Error if it can't be fetched or is for another issuer
+ */
+export async function discoverProvider(
+  provider: OidcProvider,
+): Promise<OidcMetadata> {
+  const cached = metadataCache.get(provider.issuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(
+    `${provider.issuer}/.well-known/openid-configuration`,
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${provider.name} discovery document: ${response.status}`,
+    );
+  }
+  const metadata = await response.json() as OidcMetadata;
+  if (metadata.issuer !== provider.issuer) {
+    throw new Error(
+      `${provider.name} discovery document is for another issuer`,
+    );
+  }
+
+  metadataCache.set(provider.issuer, {
+    metadata,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  });
+  return metadata;
+}
+
+/**
+ * Generate a random value for state, nonce or a PKCE verifier
+ */
+export function generateRandomToken(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Derive the PKCE S256 code challenge for a verifier
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier),
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Build the URL that sends the user to the provider
+ */
+export async function buildAuthorizationUrl(
+  provider: OidcProvider,
+  metadata: OidcMetadata,
+  params: {
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+  },
+): Promise<string> {
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    client_id: provider.clientId,
+    redirect_uri: params.redirectUri,
+    response_type: "code",
+    scope: provider.scopes.join(" "),
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: await createCodeChallenge(params.codeVerifier),
+    code_challenge_method: "S256",
+    ...(provider.responseMode === "form_post"
+      ? { response_mode: "form_post" }
+      : {}),
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Start signing in with a provider
+ *
+ * @param options Where to go afterwards, and the signed-in user when linking
+ * @returns The URL to send the user to, and the flow to keep until they're
+ *   back
+ */
+export async function beginAuthorization(
+  req: Request,
+  provider: OidcProvider,
+  options: { returnTo: string; linkUserId?: string },
+): Promise<{ url: string; flow: OidcFlow }> {
+  const flow: OidcFlow = {
+    provider: provider.id,
+    state: generateRandomToken(),
+    nonce: generateRandomToken(),
+    codeVerifier: generateRandomToken(),
+    ...options,
+  };
+  const url = await buildAuthorizationUrl(
+    provider,
+    await discoverProvider(provider),
+    { redirectUri: getRedirectUri(req, provider), ...flow },
+  );
+  return { url, flow };
+}
+
+async function getJwks(
+  metadata: OidcMetadata,
+  refresh: boolean,
+): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(metadata.jwks_uri);
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.keys;
+  }
+
+  const response = await fetch(metadata.jwks_uri);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch signing keys: ${response.status}`);
+  }
+  const { keys } = await response.json() as { keys: JsonWebKey[] };
+  jwksCache.set(metadata.jwks_uri, {
+    keys,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  });
+  return keys;
+}
+
+async function importJwk(jwk: JsonWebKey, alg: string): Promise<CryptoKey> {
+  if (alg === "RS256") {
+    return await crypto.subtle.importKey(
+      "jwk",
+      { ...jwk, alg: "RS256" },
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["verify"],
+    );
+  }
+  if (alg === "ES256") {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"],
+    );
+  }
+  throw new Error(`Unsupported ID token algorithm ${alg}`);
+}
+
+/**
+ * Verify an ID token and return its claims
+ *
+ * @param expected The issuer's metadata, our client ID and the nonce we sent
+ * @throws Error if the signature or any claim check fails
+ */
+export async function verifyIdToken(
+  idToken: string,
+  metadata: OidcMetadata,
+  expected: { clientId: string; nonce: string },
+): Promise<Record<string, unknown>> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) {
+    throw new Error("ID token is malformed");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const decode = (part: string) =>
+    JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+  const header = decode(encodedHeader) as { alg?: string; kid?: string };
+  const claims = decode(encodedPayload) as Record<string, unknown>;
+
+  const alg = header.alg ?? "";
+  const findKey = (keys: JsonWebKey[]) =>
+    keys.find((key) =>
+      (!header.kid || (key as { kid?: string }).kid === header.kid) &&
+      (!key.alg || key.alg === alg)
+    );
+  const jwk = findKey(await getJwks(metadata, false)) ??
+    findKey(await getJwks(metadata, true));
+  if (!jwk) {
+    throw new Error("ID token is signed with an unknown key");
+  }
+
+  const valid = await crypto.subtle.verify(
+    alg === "ES256"
+      ? { name: "ECDSA", hash: "SHA-256" }
+      : { name: "RSASSA-PKCS1-v1_5" },
+    await importJwk(jwk, alg),
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+  );
+  if (!valid) {
+    throw new Error("ID token signature is invalid");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== metadata.issuer) {
+    throw new Error("ID token is from another issuer");
+  }
+  if (!audiences.includes(expected.clientId)) {
+    throw new Error("ID token is for another client");
+  }
+  if (audiences.length > 1 && claims.azp !== expected.clientId) {
+    throw new Error("ID token is for another client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp < now - CLOCK_SKEW_SECONDS) {
+    throw new Error("ID token has expired");
+  }
+  if (typeof claims.iat === "number" && claims.iat > now + CLOCK_SKEW_SECONDS) {
+    throw new Error("ID token was issued in the future");
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new Error("ID token nonce doesn't match");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return claims;
+}
+
+/**
+ * Turn ID token (or userinfo) claims into a profile
+ */
+export function toProfile(claims: Record<string, unknown>): OidcProfile {
+  const text = (value: unknown) =>
+    typeof value === "string" && value ? value : null;
+  return {
+    subject: String(claims.sub),
+    email: text(claims.email)?.toLowerCase() ?? null,
+    // Apple sends "true" as a string
+    emailVerified: claims.email_verified === true ||
+      claims.email_verified === "true",
+    name: text(claims.name),
+    picture: text(claims.picture),
+  };
+}
+
+/**
+ * Finish the flow: exchange the code and verify the ID token
+ *
+ * @throws Error if the exchange or any check fails
+ */
+export async function completeAuthorization(
+  provider: OidcProvider,
+  params: {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    nonce: string;
+  },
+): Promise<OidcProfile> {
+  const metadata = await discoverProvider(provider);
+
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: params.codeVerifier,
+    }),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Failed to exchange code with ${provider.name}: ${response.status} ${errorText}`,
+    );
+  }
+
+  const tokens = await response.json() as {
+    id_token?: string;
+    access_token?: string;
+  };
+  if (!tokens.id_token) {
+    throw new Error(`${provider.name} didn't return an ID token`);
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, metadata, {
+    clientId: provider.clientId,
+    nonce: params.nonce,
+  });
+  const profile = toProfile(claims);
+
+  // Some providers only put the email in userinfo
+  if (!profile.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetch(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userinfo.ok) {
+      const info = await userinfo.json() as Record<string, unknown>;
+      if (info.sub === profile.subject) {
+        const extra = toProfile(info);
+        return { ...extra, name: profile.name ?? extra.name };
+      }
+    }
+  }
+
+  return profile;
+}
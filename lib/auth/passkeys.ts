@@ -0,0 +1,283 @@
+/**
+ * Passkeys
+ *
+ * Stores users' WebAuthn credentials and the challenges issued while
+ * registering or signing in with them; the protocol checks are in
+ * ./webauthn.ts. Passkeys are discoverable, so signing in needs no email:
+ * the browser offers the user's passkeys for this site and the one they pick
+ * says whose account it is.
+ *
+ * Challenges are single-use and expire after 5 minutes.
+ */
+
+import { query } from "../db.ts";
+import {
+  base64UrlEncode,
+  generateChallenge,
+  type RelyingParty,
+  SUPPORTED_ALGORITHMS,
+  type VerifiedRegistration,
+} from "./webauthn.ts";
+
+const CHALLENGE_SECONDS = 5 * 60;
+
+export type PasskeyChallengePurpose = "registration" | "authentication";
+
+/**
+ * A passkey, as listed in settings
+ */
+export interface PasskeyRecord {
+  id: string;
+  name: string;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * A passkey with what's needed to verify a sign-in
+ */
+export interface StoredPasskey extends PasskeyRecord {
+  user_id: string;
+  credential_id: string;
+  public_key: string;
+  sign_count: number;
+  transports: string[];
+}
+
+/**
+ * Get the relying party passkeys are scoped to
+ *
+ * Uses APP_BASE_URL when set, so passkeys keep working behind a proxy that
+ * changes the request URL, and the request's own origin otherwise.
+ */
+export function getRelyingParty(req: Request): RelyingParty {
+  const origin = new URL(
+    Deno.env.get("APP_BASE_URL") || new URL(req.url).origin,
+  );
+  return { id: origin.hostname, name: "Stream Owl", origin: origin.origin };
+}
+
+/**
+ * Issue a challenge
+ *
+ * @param purpose What the challenge is for
+ * @param userId The signed-in user, for registration
+ * @returns The challenge's ID, for the browser to send back, and the
+ *   challenge itself
+ */
+export async function createPasskeyChallenge(
+  purpose: PasskeyChallengePurpose,
+  userId: string | null = null,
+): Promise<{ id: string; challenge: string }> {
+  const challenge = generateChallenge();
+  const rows = await query<{ id: string }>(
+    `INSERT INTO passkey_challenges (user_id, purpose, challenge, expires_at)
+     VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(secs => $4))
+     RETURNING id`,
+    [userId, purpose, challenge, CHALLENGE_SECONDS],
+  );
+  return { id: rows[0].id, challenge };
+}
+
+/**
+ * Use up a challenge
+ *
+ * @param id Challenge ID from createPasskeyChallenge
+ * @param purpose What it must have been issued for
+ * @param userId The user it must have been issued to, for registration
+ * @returns The challenge, or null if it doesn't exist, has expired or was
+ *   already used
+ */
+export async function consumePasskeyChallenge(
+  id: string,
+  purpose: PasskeyChallengePurpose,
+  userId: string | null = null,
+): Promise<string | null> {
+  const rows = await query<{ challenge: string }>(
+    `DELETE FROM passkey_challenges
+     WHERE id = $1 AND purpose = $2 AND user_id IS NOT DISTINCT FROM $3
+       AND expires_at > CURRENT_TIMESTAMP
+     RETURNING challenge`,
+    [id, purpose, userId],
+  );
+  return rows[0]?.challenge ?? null;
+}
+
+/**
+ * Build the options for navigator.credentials.create(), with binary fields
+ * base64url encoded
+ *
+ * @param existing The user's current credential IDs, so the same
+ *   authenticator isn't registered twice
+ */
+export function buildRegistrationOptions(
+  rp: RelyingParty,
+  user: { id: string; email: string; displayName: string | null },
+  challenge: string,
+  existing: { credential_id: string; transports: string[] }[],
+) {
+  return {
+    challenge,
+    rp: { id: rp.id, name: rp.name },
+    user: {
+      id: base64UrlEncode(new TextEncoder().encode(user.id)),
+      name: user.email,
+      displayName: user.displayName || user.email,
+    },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({
+      type: "public-key",
+      alg,
+    })),
+    timeout: CHALLENGE_SECONDS * 1000,
+    attestation: "none",
+    authenticatorSelection: {
+      residentKey: "required",
+      requireResidentKey: true,
+      userVerification: "required",
+    },
+    excludeCredentials: existing.map((passkey) => ({
+      type: "public-key",
+      id: passkey.credential_id,
+      transports: passkey.transports,
+    })),
+  };
+}
+
+/**
+ * Build the options for navigator.credentials.get(), with binary fields
+ * base64url encoded
+ */
+export function buildAuthenticationOptions(
+  rp: RelyingParty,
+  challenge: string,
+) {
+  return {
+    challenge,
+    rpId: rp.id,
+    timeout: CHALLENGE_SECONDS * 1000,
+    userVerification: "required",
+  };
+}
+
+/**
+ * Check that a passkey's user handle belongs to a user
+ *
+ * Browsers send the handle given at registration (the user's ID) when
+ * signing in with a discoverable credential.
+ */
+export function isUserHandleFor(
+  userHandle: string | null | undefined,
+  userId: string,
+): boolean {
+  return !userHandle ||
+    userHandle === base64UrlEncode(new TextEncoder().encode(userId));
+}
+
+/**
+ * Save a verified passkey
+ *
+ * @throws Error from the database if the credential is already registered
+ */
+export async function savePasskey(
+  userId: string,
+  registration: VerifiedRegistration,
+  name: string,
+): Promise<PasskeyRecord> {
+  const rows = await query<PasskeyRecord>(
+    `INSERT INTO passkeys
+       (user_id, credential_id, public_key, algorithm, sign_count, transports, name)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id, name, created_at, last_used_at`,
+    [
+      userId,
+      registration.credentialId,
+      registration.publicKey,
+      registration.algorithm,
+      registration.signCount,
+      registration.transports,
+      name.slice(0, 100),
+    ],
+  );
+  return rows[0];
+}
+
+/**
+ * List a user's passkeys, newest first
+ */
+export async function listPasskeys(userId: string): Promise<PasskeyRecord[]> {
+  return await query<PasskeyRecord>(
+    `SELECT id, name, created_at, last_used_at FROM passkeys
+     WHERE user_id = $1
+     ORDER BY created_at DESC`,
+    [userId],
+  );
+}
+
+/**
+ * List a user's credential IDs, for excludeCredentials
+ */
+export async function listPasskeyCredentials(
+  userId: string,
+): Promise<{ credential_id: string; transports: string[] }[]> {
+  return await query<{ credential_id: string; transports: string[] }>(
+    "SELECT credential_id, transports FROM passkeys WHERE user_id = $1",
+    [userId],
+  );
+}
+
+/**
+ * Find a passkey by its credential ID
+ */
+export async function findPasskey(
+  credentialId: string,
+): Promise<StoredPasskey | null> {
+  const rows = await query<StoredPasskey>(
+    `SELECT id, user_id, credential_id, public_key, sign_count::int AS sign_count,
+            transports, name, created_at, last_used_at
+     FROM passkeys WHERE credential_id = $1`,
+    [credentialId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Record a sign-in with a passkey and its new signature count
+ */
+export async function recordPasskeyUse(
+  id: string,
+  signCount: number,
+): Promise<void> {
+  await query(
+    `UPDATE passkeys SET sign_count = $2, last_used_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [id, signCount],
+  );
+}
+
+/**
+ * Remove one of a user's passkeys
+ *
+ * @returns false if the user has no such passkey
+ */
+export async function deletePasskey(
+  id: string,
+  userId: string,
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    "DELETE FROM passkeys WHERE id = $1 AND user_id = $2 RETURNING id",
+    [id, userId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Delete expired challenges
+ *
+ * @returns Number of challenges deleted
+ */
+export async function prunePasskeyChallenges(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    "DELETE FROM passkey_challenges WHERE expires_at <= CURRENT_TIMESTAMP RETURNING id",
+  );
+  return rows.length;
+}
@@ -0,0 +1,35 @@
+/**
+ * Unit tests for returnTo validation
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { getSafeReturnTo } from "./return-to.ts";
+
+Deno.test("getSafeReturnTo should keep paths on this site", () => {
+  assertEquals(getSafeReturnTo("/settings"), "/settings");
+  assertEquals(
+    getSafeReturnTo("/search?q=alien#results"),
+    "/search?q=alien#results",
+  );
+});
+
+Deno.test("getSafeReturnTo should refuse links to other sites", () => {
+  for (
+    const returnTo of [
+      "https://evil.example",
+      "//evil.example",
+      "/\\evil.example",
+      "/\t/evil.example",
+      "javascript:alert(1)",
+      "settings",
+    ]
+  ) {
+    assertEquals(getSafeReturnTo(returnTo), "/dashboard");
+  }
+});
+
+Deno.test("getSafeReturnTo should use the fallback when nothing was requested", () => {
+  assertEquals(getSafeReturnTo(null), "/dashboard");
+  assertEquals(getSafeReturnTo(""), "/dashboard");
+  assertEquals(getSafeReturnTo(undefined, "/settings"), "/settings");
+});
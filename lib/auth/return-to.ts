@@ -0,0 +1,32 @@
+/**
+ * Where to send the user after signing in
+ */
+
+const DEFAULT_RETURN_TO = "/dashboard";
+
+/**
+ * Get a returnTo path that stays on this site, to prevent open redirects
+ *
+ * Browsers read "//host" and "/\host" as links to another site, and drop
+ * tabs and line breaks from URLs before doing so, so those are refused as
+ * well as anything that isn't a path.
+ *
+ * @param returnTo Requested path, from a query string or form
+ * @param fallback Path to use if the requested one isn't safe
+ * @returns returnTo if it's a path on this site, otherwise fallback
+ */
+export function getSafeReturnTo(
+  returnTo: string | null | undefined,
+  fallback = DEFAULT_RETURN_TO,
+): string {
+  if (
+    !returnTo ||
+    !returnTo.startsWith("/") ||
+    returnTo[1] === "/" ||
+    returnTo[1] === "\\" ||
+    /[\t\n\r]/.test(returnTo)
+  ) {
+    return fallback;
+  }
+  return returnTo;
+}
@@ -0,0 +1,30 @@
+/**
+ * Unit tests for user roles
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { hasRole, isStaffRole, isUserRole } from "./roles.ts";
+
+Deno.test("hasRole should grant lower roles' access to higher roles", () => {
+  assert(hasRole("admin", "support"));
+  assert(hasRole("admin", "user"));
+  assert(hasRole("support", "support"));
+  assert(hasRole("user", "user"));
+  assertEquals(hasRole("support", "admin"), false);
+  assertEquals(hasRole("user", "support"), false);
+});
+
+Deno.test("isStaffRole should be true for support and admin only", () => {
+  assert(isStaffRole("admin"));
+  assert(isStaffRole("support"));
+  assertEquals(isStaffRole("user"), false);
+});
+
+Deno.test("isUserRole should reject unknown roles", () => {
+  assert(isUserRole("support"));
+  assertEquals(isUserRole("owner"), false);
+  assertEquals(isUserRole("Admin"), false);
+});
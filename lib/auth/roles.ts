@@ -0,0 +1,88 @@
+/**
+ * User roles
+ *
+ * Every user has one role, stored in users.role:
+ * - user: everyone by default
+ * - support: can look up users and impersonate them to help with problems
+ * - admin: everything support can do, plus changing users, running jobs and
+ *   reading the audit log and analytics
+ *
+ * Roles are ordered, so a check for "support" also passes for admins.
+ */
+
+import { query } from "../db.ts";
+
+export const USER_ROLES = ["user", "support", "admin"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+/**
+ * Check whether a string is a known role
+ */
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a role grants at least another role's access
+ *
+ * @param role The user's role
+ * @param required The role the action needs
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Check whether a role is staff (support or admin)
+ */
+export function isStaffRole(role: UserRole): boolean {
+  return hasRole(role, "support");
+}
+
+/**
+ * Get a user's role
+ *
+ * @param userId User ID (UUID)
+ * @returns The role, or null if the user doesn't exist
+ */
+export async function getUserRole(userId: string): Promise<UserRole | null> {
+  const rows = await query<{ role: UserRole }>(
+    "SELECT role FROM users WHERE id = $1",
+    [userId],
+  );
+  return rows[0]?.role ?? null;
+}
+
+/**
+ * Check whether a user has at least the given role
+ *
+ * @param userId User ID (UUID)
+ * @param required The role the action needs
+ */
+export async function userHasRole(
+  userId: string,
+  required: UserRole,
+): Promise<boolean> {
+  const role = await getUserRole(userId);
+  return role !== null && hasRole(role, required);
+}
+
+/**
+ * Change a user's role
+ *
+ * @param userId User ID (UUID)
+ * @param role New role
+ * @returns false if the user doesn't exist
+ */
+export async function setUserRole(
+  userId: string,
+  role: UserRole,
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `UPDATE users SET role = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2 RETURNING id`,
+    [role, userId],
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,174 @@
+/**
+ * Server-side sessions
+ *
+ * Every sign-in creates a row in the sessions table, and the session token
+ * (./jwt.ts) carries its ID. Tokens are only accepted while their row is
+ * active, so signing out, resetting a password or deleting the account ends
+ * the session everywhere rather than just clearing one browser's cookie.
+ */
+
+import { query } from "../db.ts";
+import { getClientIp } from "../security/rate-limit.ts";
+import { createSessionToken } from "./jwt.ts";
+
+// Matches the session cookie's Max-Age
+const SESSION_SECONDS = 7 * 24 * 60 * 60;
+
+// last_seen_at is only written when it's older than this, so busy sessions
+// don't write on every request
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * A signed-in device, as listed in settings
+ */
+export interface SessionRecord {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Start a session and create its token
+ *
+ * @param req The sign-in request, for the device's user agent and IP address
+ * @param user The user signing in
+ * @param options expiresInSeconds (default 7 days), and impersonatorId for
+ *   support sessions
+ * @returns Signed session token for the session cookie
+ */
+export async function startSession(
+  req: Request,
+  user: { id: string; email: string },
+  options: { expiresInSeconds?: number; impersonatorId?: string } = {},
+): Promise<string> {
+  const expiresInSeconds = options.expiresInSeconds ?? SESSION_SECONDS;
+  const rows = await query<{ id: string }>(
+    `INSERT INTO sessions
+       (user_id, impersonator_id, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(secs => $5))
+     RETURNING id`,
+    [
+      user.id,
+      options.impersonatorId ?? null,
+      req.headers.get("User-Agent")?.slice(0, 500) ?? null,
+      getClientIp(req).slice(0, 45),
+      expiresInSeconds,
+    ],
+  );
+
+  return await createSessionToken(user.id, user.email, expiresInSeconds, {
+    sessionId: rows[0].id,
+    impersonatorId: options.impersonatorId,
+  });
+}
+
+/**
+ * Check that a session hasn't been revoked or expired, and note that it
+ * was seen
+ *
+ * @param sessionId Session ID from the token
+ * @param userId User ID from the token
+ */
+export async function isSessionActive(
+  sessionId: string,
+  userId: string,
+): Promise<boolean> {
+  const rows = await query<{ last_seen_at: Date }>(
+    `SELECT last_seen_at FROM sessions
+     WHERE id = $1 AND user_id = $2
+       AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [sessionId, userId],
+  );
+  if (rows.length === 0) {
+    return false;
+  }
+
+  if (
+    Date.now() - new Date(rows[0].last_seen_at).getTime() >
+      LAST_SEEN_INTERVAL_MS
+  ) {
+    await query(
+      "UPDATE sessions SET last_seen_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [sessionId],
+    );
+  }
+  return true;
+}
+
+/**
+ * List a user's active sessions, most recently seen first
+ *
+ * Support sessions started by impersonating the user aren't listed; they
+ * are in the admin audit log instead.
+ */
+export async function listActiveSessions(
+  userId: string,
+): Promise<SessionRecord[]> {
+  return await query<SessionRecord>(
+    `SELECT id, user_agent, ip_address, created_at, last_seen_at, expires_at
+     FROM sessions
+     WHERE user_id = $1 AND impersonator_id IS NULL
+       AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY last_seen_at DESC`,
+    [userId],
+  );
+}
+
+/**
+ * Revoke one session
+ *
+ * @param sessionId Session ID
+ * @param userId Only revoke the session if it belongs to this user
+ * @returns false if there was no such active session
+ */
+export async function revokeSession(
+  sessionId: string,
+  userId: string,
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+     RETURNING id`,
+    [sessionId, userId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Revoke all of a user's sessions, signing them out everywhere
+ *
+ * @param userId User ID
+ * @param exceptSessionId A session to keep, such as the current one
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: string,
+  exceptSessionId?: string,
+): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND revoked_at IS NULL
+       AND ($2::uuid IS NULL OR id <> $2)
+     RETURNING id`,
+    [userId, exceptSessionId ?? null],
+  );
+  return rows.length;
+}
+
+/**
+ * Delete sessions that expired or were revoked more than a day ago
+ *
+ * @returns Number of sessions deleted
+ */
+export async function pruneSessions(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `DELETE FROM sessions
+     WHERE expires_at <= CURRENT_TIMESTAMP - INTERVAL '1 day'
+        OR revoked_at <= CURRENT_TIMESTAMP - INTERVAL '1 day'
+     RETURNING id`,
+  );
+  return rows.length;
+}
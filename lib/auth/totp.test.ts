@@ -0,0 +1,87 @@
+/**
+ * Unit tests for time-based one-time passwords
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateHotp,
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  verifyTotp,
+} from "./totp.ts";
+
+// The RFC 6238 test secret, "12345678901234567890" in ASCII
+const RFC_SECRET = base32Encode(
+  new TextEncoder().encode("12345678901234567890"),
+);
+
+Deno.test("base32 should round-trip bytes", () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  assertEquals(base32Decode(base32Encode(bytes)), bytes);
+  assertEquals(base32Encode(new TextEncoder().encode("foobar")), "MZXW6YTBOI");
+  assertEquals(
+    new TextDecoder().decode(base32Decode("mzxw 6ytb oi======")),
+    "foobar",
+  );
+});
+
+Deno.test("generateHotp should match the RFC 6238 test vectors", async () => {
+  // 8-digit SHA-1 codes from RFC 6238 appendix B
+  const vectors: [number, string][] = [
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+    [20000000000, "65353130"],
+  ];
+
+  for (const [seconds, expected] of vectors) {
+    assertEquals(
+      await generateHotp(RFC_SECRET, getTimeStep(seconds * 1000), 8),
+      expected,
+    );
+  }
+});
+
+Deno.test("verifyTotp should accept codes from adjacent steps only", async () => {
+  const secret = generateTotpSecret();
+  const now = 1_700_000_000_000;
+  const step = getTimeStep(now);
+
+  const code = await generateTotp(secret, now);
+  assertEquals(await verifyTotp(secret, code, now), step);
+  assertEquals(
+    await verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`, now),
+    step,
+  );
+
+  const previous = await generateTotp(secret, now - 30_000);
+  assertEquals(await verifyTotp(secret, previous, now), step - 1);
+
+  const stale = await generateTotp(secret, now - 90_000);
+  assertEquals(await verifyTotp(secret, stale, now), null);
+});
+
+Deno.test("verifyTotp should reject malformed codes", async () => {
+  const secret = generateTotpSecret();
+  assertEquals(await verifyTotp(secret, "12345"), null);
+  assertEquals(await verifyTotp(secret, "abcdef"), null);
+  assertEquals(await verifyTotp(secret, ""), null);
+});
+
+Deno.test("buildOtpauthUri should include the secret and issuer", () => {
+  const uri = new URL(buildOtpauthUri("JBSWY3DPEHPK3PXP", "a@example.com"));
+  assertEquals(uri.protocol, "otpauth:");
+  assert(uri.pathname.endsWith("Stream%20Owl%3Aa%40example.com"));
+  assertEquals(uri.searchParams.get("secret"), "JBSWY3DPEHPK3PXP");
+  assertEquals(uri.searchParams.get("issuer"), "Stream Owl");
+  assertEquals(uri.searchParams.get("digits"), "6");
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for two-factor authentication helpers
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertNotEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTotpCode,
+  normaliseRecoveryCode,
+} from "./two-factor.ts";
+
+Deno.test("generateRecoveryCodes should create distinct formatted codes", () => {
+  const codes = generateRecoveryCodes();
+  assertEquals(codes.length, 10);
+  assertEquals(new Set(codes).size, 10);
+  for (const code of codes) {
+    assert(/^[a-z2-7]{5}-[a-z2-7]{5}$/.test(code), code);
+  }
+});
+
+Deno.test("hashRecoveryCode should ignore case, spaces and dashes", async () => {
+  const hash = await hashRecoveryCode("abcde-fghij");
+  assertEquals(hash.length, 64);
+  assertEquals(await hashRecoveryCode("ABCDE FGHIJ"), hash);
+  assertEquals(await hashRecoveryCode("abcdefghij"), hash);
+  assertNotEquals(await hashRecoveryCode("abcde-fghik"), hash);
+  assertEquals(normaliseRecoveryCode(" Ab-Cd "), "abcd");
+});
+
+Deno.test("isTotpCode should tell app codes from recovery codes", () => {
+  assert(isTotpCode("123456"));
+  assert(isTotpCode("123 456"));
+  assertEquals(isTotpCode("12345"), false);
+  assertEquals(isTotpCode("abcde-fghij"), false);
+  for (const code of generateRecoveryCodes()) {
+    assertEquals(isTotpCode(code), false);
+  }
+});
@@ -0,0 +1,384 @@
+/**
+ * Two-factor authentication
+ *
+ * Users with a password can turn on a TOTP second factor (./totp.ts). Once
+ * it's on, password and provider sign-in ask for a code from their
+ * authenticator app, or
+ * one of ten single-use recovery codes, before starting a session. Devices
+ * the user chooses to remember skip the second step for 30 days.
+ *
+ * Recovery codes and trusted device tokens are only stored as SHA-256
+ * hashes. The TOTP secret itself has to be stored as-is to check codes.
+ */
+
+import { type PoolClient, query, transaction } from "../db.ts";
+import { getTrustedDeviceToken } from "./cookies.ts";
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "./totp.ts";
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Matches the trusted device cookie's Max-Age
+export const TRUSTED_DEVICE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * A user's two-factor settings, as shown in settings
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Only accounts with a password can turn it on */
+  available: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * How a second factor was verified
+ */
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Rate limit key for a user's failed second-factor attempts
+ *
+ * Failures count against the user as well as the IP address (see
+ * ../security/rate-limit.ts), so guessing can't be spread across addresses.
+ */
+export function getTwoFactorAttemptsKey(userId: string): string {
+  return `2fa:${userId}`;
+}
+
+/**
+ * Generate a set of recovery codes, formatted like "abcde-fghij"
+ */
+export function generateRecoveryCodes(
+  count: number = RECOVERY_CODE_COUNT,
+): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7)))
+      .slice(0, 10)
+      .toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Normalise a recovery code as typed, ignoring case, spaces and dashes
+ */
+export function normaliseRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * Hash a recovery code for storage or lookup
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  return await sha256Hex(normaliseRecoveryCode(code));
+}
+
+/**
+ * Check whether a code looks like an authenticator code rather than a
+ * recovery code
+ */
+export function isTotpCode(code: string): boolean {
+  return /^\d{6}$/.test(code.replace(/\s/g, ""));
+}
+
+/**
+ * Replace a user's recovery codes
+ */
+async function storeRecoveryCodes(
+  client: PoolClient,
+  userId: string,
+  codes: string[],
+): Promise<void> {
+  await client.queryObject(
+    "DELETE FROM two_factor_recovery_codes WHERE user_id = $1",
+    [userId],
+  );
+  for (const code of codes) {
+    await client.queryObject(
+      `INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+       VALUES ($1, $2)`,
+      [userId, await hashRecoveryCode(code)],
+    );
+  }
+}
+
+/**
+ * Check whether a user has two-factor authentication turned on
+ */
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const rows = await query<{ enabled: boolean }>(
+    "SELECT totp_enabled_at IS NOT NULL AS enabled FROM users WHERE id = $1",
+    [userId],
+  );
+  return rows[0]?.enabled ?? false;
+}
+
+/**
+ * Get a user's two-factor settings
+ */
+export async function getTwoFactorStatus(
+  userId: string,
+): Promise<TwoFactorStatus> {
+  const rows = await query<{
+    enabled: boolean;
+    has_password: boolean;
+    remaining: number;
+  }>(
+    `SELECT u.totp_enabled_at IS NOT NULL AS enabled,
+            u.password_hash IS NOT NULL AS has_password,
+            (SELECT COUNT(*)::int FROM two_factor_recovery_codes c
+             WHERE c.user_id = u.id AND c.used_at IS NULL) AS remaining
+     FROM users u WHERE u.id = $1`,
+    [userId],
+  );
+  const row = rows[0];
+  return {
+    enabled: row?.enabled ?? false,
+    available: row?.has_password ?? false,
+    recoveryCodesRemaining: row?.enabled ? row.remaining : 0,
+  };
+}
+
+/**
+ * Start setting up two-factor authentication
+ *
+ * Stores a new secret that isn't used for sign-in until enableTwoFactor
+ * confirms the user's app produces codes for it.
+ *
+ * @returns The secret and otpauth URI to show, or null if it's already on
+ */
+export async function beginTwoFactorSetup(
+  userId: string,
+  email: string,
+): Promise<{ secret: string; otpauthUri: string } | null> {
+  const secret = generateTotpSecret();
+  const rows = await query<{ id: string }>(
+    `UPDATE users SET totp_secret = $2, totp_last_used_step = NULL
+     WHERE id = $1 AND totp_enabled_at IS NULL
+     RETURNING id`,
+    [userId, secret],
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+  return { secret, otpauthUri: buildOtpauthUri(secret, email) };
+}
+
+/**
+ * Turn on two-factor authentication once the user has entered a code for
+ * the secret from beginTwoFactorSetup
+ *
+ * @returns New recovery codes to show the user once, or null if the code
+ *   was wrong or setup wasn't started
+ */
+export async function enableTwoFactor(
+  userId: string,
+  code: string,
+): Promise<string[] | null> {
+  const rows = await query<{ totp_secret: string | null }>(
+    "SELECT totp_secret FROM users WHERE id = $1 AND totp_enabled_at IS NULL",
+    [userId],
+  );
+  const secret = rows[0]?.totp_secret;
+  if (!secret) {
+    return null;
+  }
+
+  const step = await verifyTotp(secret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const codes = generateRecoveryCodes();
+  await transaction(async (client) => {
+    await client.queryObject(
+      `UPDATE users
+       SET totp_enabled_at = CURRENT_TIMESTAMP, totp_last_used_step = $2
+       WHERE id = $1`,
+      [userId, step],
+    );
+    await storeRecoveryCodes(client, userId, codes);
+  });
+  return codes;
+}
+
+/**
+ * Turn off two-factor authentication, dropping the secret, recovery codes
+ * and trusted devices
+ *
+ * Callers must have re-authenticated the user first.
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await transaction(async (client) => {
+    await client.queryObject(
+      `UPDATE users
+       SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL
+       WHERE id = $1`,
+      [userId],
+    );
+    await client.queryObject(
+      "DELETE FROM two_factor_recovery_codes WHERE user_id = $1",
+      [userId],
+    );
+    await client.queryObject(
+      "DELETE FROM trusted_devices WHERE user_id = $1",
+      [userId],
+    );
+  });
+}
+
+/**
+ * Check a second factor: a code from the user's app, or an unused recovery
+ * code, which is then used up
+ *
+ * Each authenticator code is only accepted once.
+ *
+ * @returns How it was verified, or null if the code was wrong
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+): Promise<SecondFactorMethod | null> {
+  if (isTotpCode(code)) {
+    const rows = await query<{ totp_secret: string }>(
+      `SELECT totp_secret FROM users
+       WHERE id = $1 AND totp_enabled_at IS NOT NULL`,
+      [userId],
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const step = await verifyTotp(rows[0].totp_secret, code);
+    if (step === null) {
+      return null;
+    }
+    const updated = await query<{ id: string }>(
+      `UPDATE users SET totp_last_used_step = $2
+       WHERE id = $1
+         AND (totp_last_used_step IS NULL OR totp_last_used_step < $2)
+       RETURNING id`,
+      [userId, step],
+    );
+    return updated.length > 0 ? "totp" : null;
+  }
+
+  const used = await query<{ id: string }>(
+    `UPDATE two_factor_recovery_codes SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, await hashRecoveryCode(code)],
+  );
+  return used.length > 0 ? "recovery_code" : null;
+}
+
+/**
+ * Replace a user's recovery codes with a new set
+ *
+ * @returns The new codes to show the user once
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await transaction(async (client) => {
+    await storeRecoveryCodes(client, userId, codes);
+  });
+  return codes;
+}
+
+/**
+ * Remember a device so it skips the second step
+ *
+ * @returns Token for the trusted device cookie
+ */
+export async function createTrustedDevice(
+  req: Request,
+  userId: string,
+): Promise<string> {
+  const token = base32Encode(crypto.getRandomValues(new Uint8Array(32)));
+  await query(
+    `INSERT INTO trusted_devices (user_id, token_hash, user_agent, expires_at)
+     VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(secs => $4))`,
+    [
+      userId,
+      await sha256Hex(token),
+      req.headers.get("User-Agent")?.slice(0, 500) ?? null,
+      TRUSTED_DEVICE_SECONDS,
+    ],
+  );
+  return token;
+}
+
+/**
+ * Check a trusted device cookie token against a user's remembered devices
+ */
+export async function isTrustedDevice(
+  userId: string,
+  token: string,
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `SELECT id FROM trusted_devices
+     WHERE user_id = $1 AND token_hash = $2
+       AND expires_at > CURRENT_TIMESTAMP`,
+    [userId, await sha256Hex(token)],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Check whether signing in as a user needs a second factor on this device
+ *
+ * @returns true if the user has two-factor authentication on and the
+ *   request doesn't come from one of their trusted devices
+ */
+export async function isSecondFactorRequired(
+  req: Request,
+  userId: string,
+): Promise<boolean> {
+  if (!(await isTwoFactorEnabled(userId))) {
+    return false;
+  }
+  const deviceToken = getTrustedDeviceToken(req);
+  return !deviceToken || !(await isTrustedDevice(userId, deviceToken));
+}
+
+/**
+ * Forget all of a user's trusted devices, so each asks for a code again
+ *
+ * @returns Number of devices forgotten
+ */
+export async function forgetTrustedDevices(userId: string): Promise<number> {
+  const rows = await query<{ id: string }>(
+    "DELETE FROM trusted_devices WHERE user_id = $1 RETURNING id",
+    [userId],
+  );
+  return rows.length;
+}
+
+/**
+ * Delete expired trusted devices
+ *
+ * @returns Number of devices deleted
+ */
+export async function pruneTrustedDevices(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    "DELETE FROM trusted_devices WHERE expires_at <= CURRENT_TIMESTAMP RETURNING id",
+  );
+  return rows.length;
+}
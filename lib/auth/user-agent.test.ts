@@ -0,0 +1,38 @@
+/**
+ * Unit tests for User-Agent descriptions
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { describeUserAgent } from "./user-agent.ts";
+
+Deno.test("describeUserAgent should name common browsers and platforms", () => {
+  assertEquals(
+    describeUserAgent(
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    ),
+    "Chrome on macOS",
+  );
+  assertEquals(
+    describeUserAgent(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0",
+    ),
+    "Edge on Windows",
+  );
+  assertEquals(
+    describeUserAgent(
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1",
+    ),
+    "Safari on iPhone",
+  );
+  assertEquals(
+    describeUserAgent(
+      "Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0",
+    ),
+    "Firefox on Linux",
+  );
+});
+
+Deno.test("describeUserAgent should fall back for unknown devices", () => {
+  assertEquals(describeUserAgent(null), "Unknown device");
+  assertEquals(describeUserAgent("curl/8.4.0"), "Unknown device");
+});
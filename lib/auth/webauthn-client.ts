@@ -0,0 +1,110 @@
+/**
+ * Browser side of passkeys
+ *
+ * The API sends WebAuthn options and takes responses with binary fields
+ * base64url encoded (see ./webauthn.ts). These convert them to and from the
+ * ArrayBuffers navigator.credentials uses, for islands.
+ */
+
+import { base64UrlDecode, base64UrlEncode } from "./webauthn.ts";
+
+/**
+ * Options from /api/settings/passkeys/options
+ */
+export interface CreationOptionsJSON {
+  challenge: string;
+  rp: PublicKeyCredentialRpEntity;
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: PublicKeyCredentialParameters[];
+  timeout: number;
+  attestation: AttestationConveyancePreference;
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+  excludeCredentials: {
+    type: PublicKeyCredentialType;
+    id: string;
+    transports: AuthenticatorTransport[];
+  }[];
+}
+
+/**
+ * Options from /api/auth/passkey/options
+ */
+export interface RequestOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: UserVerificationRequirement;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  return base64UrlEncode(new Uint8Array(buffer));
+}
+
+/**
+ * Check whether this browser can use passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return typeof globalThis.PublicKeyCredential === "function" &&
+    !!navigator.credentials;
+}
+
+/**
+ * Create a passkey from /api/settings/passkeys/options
+ *
+ * @returns The response to send to /api/settings/passkeys
+ * @throws DOMException if the user cancels
+ */
+export async function createPasskey(
+  options: CreationOptionsJSON,
+): Promise<Record<string, unknown>> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: base64UrlDecode(options.challenge),
+      user: { ...options.user, id: base64UrlDecode(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map((c) => ({
+        ...c,
+        id: base64UrlDecode(c.id),
+      })),
+    },
+  }) as PublicKeyCredential;
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+}
+
+/**
+ * Sign in with a passkey from /api/auth/passkey/options
+ *
+ * @returns The response to send to /api/auth/passkey/verify
+ * @throws DOMException if the user cancels
+ */
+export async function getPasskey(
+  options: RequestOptionsJSON,
+): Promise<Record<string, unknown>> {
+  const credential = await navigator.credentials.get({
+    publicKey: { ...options, challenge: base64UrlDecode(options.challenge) },
+  }) as PublicKeyCredential;
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Unit tests for WebAuthn verification
+ *
+ * A software authenticator below builds the same responses a browser would,
+ * signed with keys generated for each test.
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  decodeCbor,
+  derToRawSignature,
+  type RelyingParty,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "./webauthn.ts";
+
+const RP: RelyingParty = {
+  id: "localhost",
+  name: "Stream Owl",
+  origin: "http://localhost:8000",
+};
+
+function encodeCbor(value: unknown): Uint8Array {
+  const head = (major: number, length: number): number[] => {
+    if (length < 24) return [(major << 5) | length];
+    if (length < 256) return [(major << 5) | 24, length];
+    return [(major << 5) | 25, length >> 8, length & 255];
+  };
+
+  if (typeof value === "number") {
+    return new Uint8Array(value < 0 ? head(1, -1 - value) : head(0, value));
+  }
+  if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    return new Uint8Array([...head(3, bytes.length), ...bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return new Uint8Array([...head(2, value.length), ...value]);
+  }
+  if (value instanceof Map) {
+    const parts: number[] = head(5, value.size);
+    for (const [k, v] of value) {
+      parts.push(...encodeCbor(k), ...encodeCbor(v));
+    }
+    return new Uint8Array(parts);
+  }
+  throw new Error("Unsupported test value");
+}
+
+function rawToDer(raw: Uint8Array): Uint8Array {
+  const integer = (bytes: Uint8Array): number[] => {
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) start++;
+    const trimmed = [...bytes.slice(start)];
+    if (trimmed[0] & 0x80) trimmed.unshift(0);
+    return [0x02, trimmed.length, ...trimmed];
+  };
+  const body = [...integer(raw.slice(0, 32)), ...integer(raw.slice(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+/**
+ * A software authenticator holding one credential
+ */
+async function createAuthenticator(algorithm: -7 | -257 = -7) {
+  const keyPair = algorithm === -7
+    ? await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    )
+    : await crypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      true,
+      ["sign", "verify"],
+    );
+  const jwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+  const coseKey = encodeCbor(
+    algorithm === -7
+      ? new Map<number, unknown>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, base64UrlDecode(jwk.x!)],
+        [-3, base64UrlDecode(jwk.y!)],
+      ])
+      : new Map<number, unknown>([
+        [1, 3],
+        [3, -257],
+        [-1, base64UrlDecode(jwk.n!)],
+        [-2, base64UrlDecode(jwk.e!)],
+      ]),
+  );
+  const credentialId = crypto.getRandomValues(new Uint8Array(16));
+  let counter = 0;
+
+  const authenticatorData = async (
+    rpId: string,
+    flags: number,
+    attested: boolean,
+  ) => {
+    counter++;
+    const data = [
+      ...await sha256(new TextEncoder().encode(rpId)),
+      flags | (attested ? 0x40 : 0),
+      (counter >>> 24) & 255,
+      (counter >>> 16) & 255,
+      (counter >>> 8) & 255,
+      counter & 255,
+    ];
+    if (attested) {
+      data.push(
+        ...new Uint8Array(16),
+        credentialId.length >> 8,
+        credentialId.length & 255,
+        ...credentialId,
+        ...coseKey,
+      );
+    }
+    return new Uint8Array(data);
+  };
+
+  const clientData = (type: string, challenge: string, origin: string) =>
+    new TextEncoder().encode(JSON.stringify({ type, challenge, origin }));
+
+  return {
+    resetCounter(value: number) {
+      counter = value;
+    },
+    async register(
+      challenge: string,
+      options: { origin?: string; rpId?: string; flags?: number } = {},
+    ) {
+      const authData = await authenticatorData(
+        options.rpId ?? RP.id,
+        options.flags ?? 0x05,
+        true,
+      );
+      return {
+        id: base64UrlEncode(credentialId),
+        rawId: base64UrlEncode(credentialId),
+        type: "public-key",
+        response: {
+          clientDataJSON: base64UrlEncode(
+            clientData(
+              "webauthn.create",
+              challenge,
+              options.origin ?? RP.origin,
+            ),
+          ),
+          attestationObject: base64UrlEncode(
+            encodeCbor(
+              new Map<string, unknown>([
+                ["fmt", "none"],
+                ["attStmt", new Map()],
+                ["authData", authData],
+              ]),
+            ),
+          ),
+          transports: ["internal"],
+        },
+      };
+    },
+    async authenticate(challenge: string, options: { origin?: string } = {}) {
+      const authData = await authenticatorData(RP.id, 0x05, false);
+      const clientDataJSON = clientData(
+        "webauthn.get",
+        challenge,
+        options.origin ?? RP.origin,
+      );
+      const signed = new Uint8Array([
+        ...authData,
+        ...await sha256(clientDataJSON),
+      ]);
+      const signature = algorithm === -7
+        ? rawToDer(
+          new Uint8Array(
+            await crypto.subtle.sign(
+              { name: "ECDSA", hash: "SHA-256" },
+              keyPair.privateKey,
+              signed,
+            ),
+          ),
+        )
+        : new Uint8Array(
+          await crypto.subtle.sign(
+            "RSASSA-PKCS1-v1_5",
+            keyPair.privateKey,
+            signed,
+          ),
+        );
+      return {
+        id: base64UrlEncode(credentialId),
+        rawId: base64UrlEncode(credentialId),
+        type: "public-key",
+        response: {
+          clientDataJSON: base64UrlEncode(clientDataJSON),
+          authenticatorData: base64UrlEncode(authData),
+          signature: base64UrlEncode(signature),
+          userHandle: null,
+        },
+      };
+    },
+  };
+}
+
+Deno.test("base64url should round-trip bytes", () => {
+  const bytes = new Uint8Array([251, 255, 191, 0, 1]);
+  assertEquals(base64UrlEncode(bytes), "-_-_AAE");
+  assertEquals(base64UrlDecode("-_-_AAE"), bytes);
+});
+
+Deno.test("decodeCbor should decode maps with integer and text keys", () => {
+  const encoded = encodeCbor(
+    new Map<unknown, unknown>([[1, 2], [-7, "x"], ["k", new Uint8Array([9])]]),
+  );
+  const { value, length } = decodeCbor(encoded);
+  assertEquals(length, encoded.length);
+  assertEquals(
+    value,
+    new Map<unknown, unknown>([[1, 2], [-7, "x"], ["k", new Uint8Array([9])]]),
+  );
+  assertThrows(() => decodeCbor(new Uint8Array([0x5f])));
+});
+
+Deno.test("derToRawSignature should strip sign bytes and pad integers", () => {
+  const raw = new Uint8Array(64);
+  raw[0] = 0x80;
+  raw[63] = 1;
+  assertEquals(derToRawSignature(rawToDer(raw)), raw);
+});
+
+Deno.test("passkeys should register and sign in with ES256 and RS256", async () => {
+  for (const algorithm of [-7, -257] as const) {
+    const authenticator = await createAuthenticator(algorithm);
+    const registration = await verifyRegistrationResponse(
+      await authenticator.register("reg-challenge"),
+      "reg-challenge",
+      RP,
+    );
+    assertEquals(registration.algorithm, algorithm);
+    assertEquals(registration.signCount, 1);
+    assertEquals(registration.transports, ["internal"]);
+
+    const result = await verifyAuthenticationResponse(
+      await authenticator.authenticate("auth-challenge"),
+      "auth-challenge",
+      RP,
+      registration,
+    );
+    assertEquals(result.signCount, 2);
+  }
+});
+
+Deno.test("verifyRegistrationResponse should reject mismatched responses", async () => {
+  const authenticator = await createAuthenticator();
+
+  await assertRejects(
+    async () =>
+      verifyRegistrationResponse(
+        await authenticator.register("other"),
+        "expected",
+        RP,
+      ),
+    Error,
+    "challenge",
+  );
+  await assertRejects(
+    async () =>
+      verifyRegistrationResponse(
+        await authenticator.register("c", { origin: "https://evil.example" }),
+        "c",
+        RP,
+      ),
+    Error,
+    "another site",
+  );
+  await assertRejects(
+    async () =>
+      verifyRegistrationResponse(
+        await authenticator.register("c", { rpId: "evil.example" }),
+        "c",
+        RP,
+      ),
+    Error,
+    "another site",
+  );
+  await assertRejects(
+    async () =>
+      verifyRegistrationResponse(
+        await authenticator.register("c", { flags: 0x01 }),
+        "c",
+        RP,
+      ),
+    Error,
+    "verify the user",
+  );
+});
+
+Deno.test("verifyAuthenticationResponse should reject bad signatures and cloned counters", async () => {
+  const authenticator = await createAuthenticator();
+  const stored = await verifyRegistrationResponse(
+    await authenticator.register("c"),
+    "c",
+    RP,
+  );
+
+  // Signed by a different key
+  const other = await createAuthenticator();
+  await assertRejects(
+    async () =>
+      verifyAuthenticationResponse(
+        await other.authenticate("c"),
+        "c",
+        RP,
+        stored,
+      ),
+    Error,
+    "signature",
+  );
+
+  // A counter that didn't go up
+  authenticator.resetCounter(0);
+  await assertRejects(
+    async () =>
+      verifyAuthenticationResponse(
+        await authenticator.authenticate("c"),
+        "c",
+        RP,
+        stored,
+      ),
+    Error,
+    "copied",
+  );
+});
@@ -0,0 +1,501 @@
+/**
+ * WebAuthn (passkey) registration and assertion verification
+ *
+ * Implements the relying party checks from the WebAuthn Level 2 spec with
+ * Web Crypto, so nothing needs a network call or a native module. We ask
+ * for attestation "none" and don't check attestation statements: a passkey
+ * is trusted because the signed-in user registered it, not because of who
+ * made the authenticator.
+ *
+ * Supports ES256 (-7) and RS256 (-257) credential keys, which between them
+ * cover platform authenticators and security keys.
+ *
+ * Verification failures throw an Error whose message can be shown to the
+ * user.
+ */
+
+/** COSE algorithm identifiers we accept, in order of preference */
+export const SUPPORTED_ALGORITHMS = [-7, -257] as const;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * The relying party a credential is scoped to
+ */
+export interface RelyingParty {
+  /** Domain the credential is bound to, e.g. "streamowl.app" */
+  id: string;
+  name: string;
+  /** Origin the browser reports, e.g. "https://streamowl.app" */
+  origin: string;
+}
+
+/**
+ * Registration response from the browser, with binary fields base64url
+ * encoded (the shape of PublicKeyCredential.toJSON())
+ */
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Assertion response from the browser, with binary fields base64url encoded
+ */
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/**
+ * A verified new credential, ready to store
+ */
+export interface VerifiedRegistration {
+  /** base64url credential ID */
+  credentialId: string;
+  /** base64url COSE public key */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(
+    /=+$/,
+    "",
+  );
+}
+
+/**
+ * Decode base64url, with or without padding
+ *
+ * @throws Error if the string isn't base64url
+ */
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Generate a random challenge, base64url encoded
+ */
+export function generateChallenge(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Decode one CBOR item (RFC 8949), as used in attestation objects and COSE
+ * keys
+ *
+ * Maps decode to Map so integer keys keep their type. Indefinite lengths,
+ * floats and tags aren't used by WebAuthn and aren't supported.
+ *
+ * @returns The value and the number of bytes it took
+ * @throws Error if the data is malformed or uses unsupported features
+ */
+export function decodeCbor(
+  bytes: Uint8Array,
+  offset = 0,
+): { value: unknown; length: number } {
+  let position = offset;
+
+  const readLength = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : 0;
+    if (size === 0 || position + size > bytes.length) {
+      throw new Error("Unsupported or truncated CBOR length");
+    }
+    let length = 0;
+    for (let i = 0; i < size; i++) {
+      length = length * 256 + bytes[position++];
+    }
+    return length;
+  };
+
+  const readItem = (): unknown => {
+    if (position >= bytes.length) {
+      throw new Error("Truncated CBOR data");
+    }
+    const initial = bytes[position++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+      case 3: {
+        const length = readLength(info);
+        if (position + length > bytes.length) {
+          throw new Error("Truncated CBOR data");
+        }
+        const data = bytes.slice(position, position + length);
+        position += length;
+        return major === 2 ? data : new TextDecoder().decode(data);
+      }
+      case 4: {
+        const length = readLength(info);
+        return Array.from({ length }, () => readItem());
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        throw new Error("Unsupported CBOR simple value");
+      default:
+        throw new Error("Unsupported CBOR type");
+    }
+  };
+
+  const value = readItem();
+  return { value, length: position - offset };
+}
+
+/**
+ * Parsed authenticator data
+ */
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+  /** Present in registration responses */
+  credential?: { id: Uint8Array; publicKey: Uint8Array };
+}
+
+/**
+ * Parse authenticator data
+ *
+ * @throws Error if it's malformed
+ */
+export function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error("Authenticator data is too short");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.slice(0, 32),
+    flags,
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // 16-byte AAGUID, then a 2-byte length and the credential ID
+    if (data.length < 55) {
+      throw new Error("Attested credential data is too short");
+    }
+    const idLength = view.getUint16(53);
+    const idEnd = 55 + idLength;
+    if (data.length < idEnd) {
+      throw new Error("Attested credential data is too short");
+    }
+    const { length } = decodeCbor(data, idEnd);
+    result.credential = {
+      id: data.slice(55, idEnd),
+      publicKey: data.slice(idEnd, idEnd + length),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Import a COSE public key for signature checks
+ *
+ * @returns The key and its COSE algorithm
+ * @throws Error if the key type or algorithm isn't supported
+ */
+export async function importCosePublicKey(
+  coseKey: Uint8Array,
+): Promise<{ key: CryptoKey; algorithm: number }> {
+  const map = decodeCbor(coseKey).value;
+  if (!(map instanceof Map)) {
+    throw new Error("Credential public key is not a COSE key");
+  }
+  const keyType = map.get(1);
+  const algorithm = map.get(3);
+
+  if (keyType === 2 && algorithm === -7 && map.get(-1) === 1) {
+    const x = map.get(-2);
+    const y = map.get(-3);
+    if (!(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+      throw new Error("Credential public key is missing coordinates");
+    }
+    const raw = new Uint8Array([0x04, ...x, ...y]);
+    const key = await crypto.subtle.importKey(
+      "raw",
+      raw,
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"],
+    );
+    return { key, algorithm };
+  }
+
+  if (keyType === 3 && algorithm === -257) {
+    const n = map.get(-1);
+    const e = map.get(-2);
+    if (!(n instanceof Uint8Array) || !(e instanceof Uint8Array)) {
+      throw new Error("Credential public key is missing its modulus");
+    }
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      {
+        kty: "RSA",
+        alg: "RS256",
+        n: base64UrlEncode(n),
+        e: base64UrlEncode(e),
+      },
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["verify"],
+    );
+    return { key, algorithm };
+  }
+
+  throw new Error("This passkey uses an unsupported algorithm");
+}
+
+/**
+ * Convert a DER-encoded ECDSA signature to the raw r||s form Web Crypto
+ * expects
+ */
+export function derToRawSignature(der: Uint8Array): Uint8Array {
+  // SEQUENCE { INTEGER r, INTEGER s }
+  if (der[0] !== 0x30) {
+    throw new Error("Signature is not DER encoded");
+  }
+  let position = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+  const raw = new Uint8Array(64);
+
+  for (const target of [0, 32]) {
+    if (der[position] !== 0x02) {
+      throw new Error("Signature is not DER encoded");
+    }
+    const length = der[position + 1];
+    let integer = der.slice(position + 2, position + 2 + length);
+    position += 2 + length;
+    // Drop the sign byte, and left-pad short integers
+    while (integer.length > 32 && integer[0] === 0) {
+      integer = integer.slice(1);
+    }
+    if (integer.length > 32) {
+      throw new Error("Signature is not a P-256 signature");
+    }
+    raw.set(integer, target + 32 - integer.length);
+  }
+  return raw;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Check clientDataJSON against what we asked the browser for
+ */
+function verifyClientData(
+  clientDataJSON: Uint8Array,
+  type: "webauthn.create" | "webauthn.get",
+  expectedChallenge: string,
+  rp: RelyingParty,
+): void {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  } catch {
+    throw new Error("Client data is not valid JSON");
+  }
+
+  if (clientData.type !== type) {
+    throw new Error("Unexpected passkey response type");
+  }
+  if (clientData.challenge !== expectedChallenge) {
+    throw new Error("Passkey challenge doesn't match");
+  }
+  if (clientData.origin !== rp.origin) {
+    throw new Error("Passkey response came from another site");
+  }
+}
+
+/**
+ * Check the authenticator data flags and relying party hash
+ */
+async function verifyAuthenticatorData(
+  authData: AuthenticatorData,
+  rp: RelyingParty,
+): Promise<void> {
+  const expectedHash = await sha256(new TextEncoder().encode(rp.id));
+  if (!bytesEqual(authData.rpIdHash, expectedHash)) {
+    throw new Error("Passkey is for another site");
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new Error("Passkey didn't confirm the user was present");
+  }
+  if (!(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new Error("Passkey didn't verify the user");
+  }
+}
+
+/**
+ * Verify a registration response
+ *
+ * @param response Browser response to navigator.credentials.create()
+ * @param expectedChallenge The challenge we issued (base64url)
+ * @param rp Relying party the credential must be scoped to
+ * @throws Error if any check fails
+ */
+export async function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expectedChallenge: string,
+  rp: RelyingParty,
+): Promise<VerifiedRegistration> {
+  if (response.type !== "public-key") {
+    throw new Error("Unexpected credential type");
+  }
+  verifyClientData(
+    base64UrlDecode(response.response.clientDataJSON),
+    "webauthn.create",
+    expectedChallenge,
+    rp,
+  );
+
+  const attestation = decodeCbor(
+    base64UrlDecode(response.response.attestationObject),
+  ).value;
+  if (!(attestation instanceof Map)) {
+    throw new Error("Attestation object is malformed");
+  }
+  const authDataBytes = attestation.get("authData");
+  if (!(authDataBytes instanceof Uint8Array)) {
+    throw new Error("Attestation object has no authenticator data");
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData, rp);
+  if (!authData.credential) {
+    throw new Error("Passkey response has no credential");
+  }
+
+  const credentialId = base64UrlEncode(authData.credential.id);
+  if (credentialId !== response.rawId) {
+    throw new Error("Credential ID doesn't match");
+  }
+
+  // Make sure the key is one we can check signatures with later
+  const { algorithm } = await importCosePublicKey(
+    authData.credential.publicKey,
+  );
+
+  return {
+    credentialId,
+    publicKey: base64UrlEncode(authData.credential.publicKey),
+    algorithm,
+    signCount: authData.signCount,
+    transports: (response.response.transports ?? []).filter((t) =>
+      typeof t === "string"
+    ),
+  };
+}
+
+/**
+ * Verify an assertion (sign-in) response
+ *
+ * @param response Browser response to navigator.credentials.get()
+ * @param expectedChallenge The challenge we issued (base64url)
+ * @param rp Relying party the credential is scoped to
+ * @param credential The stored credential's public key and signature count
+ * @returns The authenticator's new signature count, to store
+ * @throws Error if any check fails, including a signature count that went
+ *   backwards, which suggests the authenticator was cloned
+ */
+export async function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  expectedChallenge: string,
+  rp: RelyingParty,
+  credential: { publicKey: string; signCount: number },
+): Promise<{ signCount: number }> {
+  if (response.type !== "public-key") {
+    throw new Error("Unexpected credential type");
+  }
+  const clientDataJSON = base64UrlDecode(response.response.clientDataJSON);
+  verifyClientData(clientDataJSON, "webauthn.get", expectedChallenge, rp);
+
+  const authDataBytes = base64UrlDecode(response.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData, rp);
+
+  const { key, algorithm } = await importCosePublicKey(
+    base64UrlDecode(credential.publicKey),
+  );
+  const signed = new Uint8Array([
+    ...authDataBytes,
+    ...await sha256(clientDataJSON),
+  ]);
+  const signature = base64UrlDecode(response.response.signature);
+  const valid = algorithm === -7
+    ? await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      derToRawSignature(signature),
+      signed,
+    )
+    : await crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signature, signed);
+  if (!valid) {
+    throw new Error("Passkey signature is invalid");
+  }
+
+  // Authenticators that don't count always report 0
+  if (
+    (authData.signCount > 0 || credential.signCount > 0) &&
+    authData.signCount <= credential.signCount
+  ) {
+    throw new Error(
+      "This passkey may have been copied. Remove it and add it again.",
+    );
+  }
+
+  return { signCount: authData.signCount };
+}
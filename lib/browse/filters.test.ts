@@ -0,0 +1,76 @@
+/**
+ * Unit tests for browse catalogue filters
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  browseFiltersToParams,
+  DEFAULT_BROWSE_FILTERS,
+  hasActiveBrowseFilters,
+  parseBrowseFilters,
+} from "./filters.ts";
+
+const NOW = new Date("2024-03-11T00:00:00Z");
+
+function parse(query: string) {
+  return parseBrowseFilters(new URLSearchParams(query), NOW);
+}
+
+Deno.test("parseBrowseFilters should default every filter", () => {
+  assertEquals(parse("").filters, DEFAULT_BROWSE_FILTERS);
+});
+
+Deno.test("parseBrowseFilters should parse every filter", () => {
+  const { filters } = parse(
+    "type=tv&page=3&sort=rating&genres=18,80,18&year_from=1990&year_to=1999" +
+      "&min_rating=7.5&min_votes=200&runtime_min=20&runtime_max=60" +
+      "&language=ko&providers=8,337&region=GB",
+  );
+
+  assertEquals(filters, {
+    type: "tv",
+    page: 3,
+    sort: "rating",
+    genres: [18, 80],
+    yearFrom: 1990,
+    yearTo: 1999,
+    minRating: 7.5,
+    minVotes: 200,
+    runtimeMin: 20,
+    runtimeMax: 60,
+    language: "ko",
+    providers: [8, 337],
+    region: "GB",
+  });
+});
+
+Deno.test("parseBrowseFilters should report the invalid field", () => {
+  assertEquals(parse("type=book").error?.field, "type");
+  assertEquals(parse("page=501").error?.field, "page");
+  assertEquals(parse("genres=18,action").error?.field, "genres");
+  assertEquals(parse("year_from=2000&year_to=1990").error?.field, "year_from");
+  assertEquals(parse("year_to=2030").error?.field, "year_to");
+  assertEquals(parse("min_rating=11").error?.field, "min_rating");
+  assertEquals(parse("language=english").error?.field, "language");
+  assertEquals(parse("region=XX").error?.field, "region");
+});
+
+Deno.test("browseFiltersToParams should round-trip and leave out defaults", () => {
+  assertEquals(browseFiltersToParams(DEFAULT_BROWSE_FILTERS).toString(), "");
+
+  const query = "type=tv&sort=newest&genres=18%2C80&min_rating=7&providers=8" +
+    "&page=2";
+  const { filters } = parse(query);
+  assert(filters);
+  assertEquals(browseFiltersToParams(filters).toString(), query);
+});
+
+Deno.test("hasActiveBrowseFilters should ignore type and page", () => {
+  assert(
+    !hasActiveBrowseFilters({ ...DEFAULT_BROWSE_FILTERS, type: "tv", page: 4 }),
+  );
+  assert(hasActiveBrowseFilters({ ...DEFAULT_BROWSE_FILTERS, genres: [18] }));
+});
@@ -0,0 +1,338 @@
+/**
+ * Browse catalogue filters
+ *
+ * Parses and serialises the filters behind /browse and /api/browse, so the
+ * same query string works as a shareable page URL and as an API request.
+ * Pure, so it can be used by routes and islands alike.
+ */
+
+import type { SupportedRegion } from "../tmdb/client.ts";
+
+export type BrowseType = "movie" | "tv";
+
+export type BrowseSort = "popularity" | "rating" | "newest";
+
+export const BROWSE_SORTS: readonly BrowseSort[] = [
+  "popularity",
+  "rating",
+  "newest",
+];
+
+/**
+ * Filters for the browse catalogue
+ */
+export interface BrowseFilters {
+  type: BrowseType;
+  page: number;
+  sort: BrowseSort;
+  /** TMDB genre IDs; titles must have all of them */
+  genres: number[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  /** Minimum TMDB vote average (0-10) */
+  minRating: number | null;
+  /** Minimum number of TMDB votes, to keep obscure titles out of top-rated */
+  minVotes: number | null;
+  runtimeMin: number | null;
+  runtimeMax: number | null;
+  /** ISO 639-1 original language */
+  language: string | null;
+  /** TMDB watch provider IDs; titles must be on any of them */
+  providers: number[];
+  /** Region for provider filtering (defaults to the user's region) */
+  region: SupportedRegion | null;
+}
+
+export const DEFAULT_BROWSE_FILTERS: BrowseFilters = {
+  type: "movie",
+  page: 1,
+  sort: "popularity",
+  genres: [],
+  yearFrom: null,
+  yearTo: null,
+  minRating: null,
+  minVotes: null,
+  runtimeMin: null,
+  runtimeMax: null,
+  language: null,
+  providers: [],
+  region: null,
+};
+
+/**
+ * Regions offered for provider filtering
+ *
+ * Mirrors SUPPORTED_REGIONS without pulling the TMDB client into islands.
+ */
+export const BROWSE_REGIONS: { code: SupportedRegion; name: string }[] = [
+  { code: "US", name: "United States" },
+  { code: "GB", name: "United Kingdom" },
+  { code: "CA", name: "Canada" },
+  { code: "AU", name: "Australia" },
+  { code: "DE", name: "Germany" },
+  { code: "FR", name: "France" },
+];
+
+/**
+ * TMDB only serves the first 500 pages of discover results
+ */
+export const MAX_BROWSE_PAGE = 500;
+
+// Earliest year TMDB has films for
+const MIN_YEAR = 1874;
+
+/**
+ * TMDB genres, by the content type they apply to
+ */
+export const BROWSE_GENRES: Record<BrowseType, { id: number; name: string }[]> =
+  {
+    movie: [
+      { id: 28, name: "Action" },
+      { id: 12, name: "Adventure" },
+      { id: 16, name: "Animation" },
+      { id: 35, name: "Comedy" },
+      { id: 80, name: "Crime" },
+      { id: 99, name: "Documentary" },
+      { id: 18, name: "Drama" },
+      { id: 10751, name: "Family" },
+      { id: 14, name: "Fantasy" },
+      { id: 36, name: "History" },
+      { id: 27, name: "Horror" },
+      { id: 10402, name: "Music" },
+      { id: 9648, name: "Mystery" },
+      { id: 10749, name: "Romance" },
+      { id: 878, name: "Science Fiction" },
+      { id: 53, name: "Thriller" },
+      { id: 10752, name: "War" },
+      { id: 37, name: "Western" },
+    ],
+    tv: [
+      { id: 10759, name: "Action & Adventure" },
+      { id: 16, name: "Animation" },
+      { id: 35, name: "Comedy" },
+      { id: 80, name: "Crime" },
+      { id: 99, name: "Documentary" },
+      { id: 18, name: "Drama" },
+      { id: 10751, name: "Family" },
+      { id: 10762, name: "Kids" },
+      { id: 9648, name: "Mystery" },
+      { id: 10764, name: "Reality" },
+      { id: 10765, name: "Sci-Fi & Fantasy" },
+      { id: 10768, name: "War & Politics" },
+      { id: 37, name: "Western" },
+    ],
+  };
+
+/**
+ * Common original languages offered as a filter
+ */
+export const BROWSE_LANGUAGES: { code: string; name: string }[] = [
+  { code: "en", name: "English" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "es", name: "Spanish" },
+  { code: "it", name: "Italian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "hi", name: "Hindi" },
+  { code: "zh", name: "Chinese" },
+  { code: "sv", name: "Swedish" },
+  { code: "da", name: "Danish" },
+  { code: "no", name: "Norwegian" },
+];
+
+/**
+ * Major streaming services, by TMDB watch provider ID
+ */
+export const BROWSE_PROVIDERS: { id: number; name: string }[] = [
+  { id: 8, name: "Netflix" },
+  { id: 9, name: "Amazon Prime Video" },
+  { id: 15, name: "Hulu" },
+  { id: 337, name: "Disney+" },
+  { id: 350, name: "Apple TV+" },
+  { id: 384, name: "HBO Max" },
+  { id: 386, name: "Peacock" },
+  { id: 531, name: "Paramount+" },
+].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Result of parsing browse filters from a query string
+ */
+export type ParseBrowseFiltersResult =
+  | { filters: BrowseFilters; error?: undefined }
+  | { filters?: undefined; error: { message: string; field: string } };
+
+/**
+ * Parse browse filters from a query string
+ *
+ * Missing parameters take their defaults; the first invalid one is reported
+ * with its field so the API can return a 400.
+ *
+ * @param params Query string parameters
+ * @param now Current date, for the latest allowed year
+ * @returns Parsed filters, or an error message and field
+ */
+export function parseBrowseFilters(
+  params: URLSearchParams,
+  now: Date = new Date(),
+): ParseBrowseFiltersResult {
+  const errors: { message: string; field: string }[] = [];
+  const fail = (message: string, field: string): null => {
+    errors.push({ message, field });
+    return null;
+  };
+
+  const parseInteger = (name: string, min: number, max: number) => {
+    const raw = params.get(name);
+    if (raw === null || raw === "") {
+      return null;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return fail(
+        `${name} must be a whole number between ${min} and ${max}`,
+        name,
+      );
+    }
+    return value;
+  };
+
+  const parseIds = (name: string): number[] => {
+    const raw = params.get(name);
+    if (!raw) {
+      return [];
+    }
+    const ids = raw.split(",").map((part) => Number(part.trim()));
+    if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+      fail(`${name} must be a comma-separated list of IDs`, name);
+      return [];
+    }
+    return [...new Set(ids)];
+  };
+
+  const type = params.get("type") || DEFAULT_BROWSE_FILTERS.type;
+  if (type !== "movie" && type !== "tv") {
+    fail("type must be 'movie' or 'tv'", "type");
+  }
+
+  const sort = params.get("sort") || DEFAULT_BROWSE_FILTERS.sort;
+  if (!BROWSE_SORTS.includes(sort as BrowseSort)) {
+    fail(`sort must be one of: ${BROWSE_SORTS.join(", ")}`, "sort");
+  }
+
+  const maxYear = now.getUTCFullYear() + 5;
+  const yearFrom = parseInteger("year_from", MIN_YEAR, maxYear);
+  const yearTo = parseInteger("year_to", MIN_YEAR, maxYear);
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+    fail("year_from must not be after year_to", "year_from");
+  }
+
+  const runtimeMin = parseInteger("runtime_min", 0, 1000);
+  const runtimeMax = parseInteger("runtime_max", 0, 1000);
+  if (runtimeMin !== null && runtimeMax !== null && runtimeMin > runtimeMax) {
+    fail("runtime_min must not be more than runtime_max", "runtime_min");
+  }
+
+  const rawRating = params.get("min_rating");
+  let minRating: number | null = null;
+  if (rawRating) {
+    minRating = Number(rawRating);
+    if (!Number.isFinite(minRating) || minRating < 0 || minRating > 10) {
+      minRating = fail("min_rating must be between 0 and 10", "min_rating");
+    }
+  }
+
+  const language = params.get("language") || null;
+  if (language !== null && !/^[a-z]{2}$/.test(language)) {
+    fail("language must be a two-letter ISO 639-1 code", "language");
+  }
+
+  const region = params.get("region") || null;
+  const regionCodes = BROWSE_REGIONS.map(({ code }) => code as string);
+  if (region !== null && !regionCodes.includes(region)) {
+    fail(`region must be one of: ${regionCodes.join(", ")}`, "region");
+  }
+
+  const page = parseInteger("page", 1, MAX_BROWSE_PAGE) ?? 1;
+  const minVotes = parseInteger("min_votes", 0, 1_000_000);
+  const genres = parseIds("genres");
+  const providers = parseIds("providers");
+
+  if (errors.length > 0) {
+    return { error: errors[0] };
+  }
+
+  return {
+    filters: {
+      type: type as BrowseType,
+      page,
+      sort: sort as BrowseSort,
+      genres,
+      yearFrom,
+      yearTo,
+      minRating,
+      minVotes,
+      runtimeMin,
+      runtimeMax,
+      language,
+      providers,
+      region: region as SupportedRegion | null,
+    },
+  };
+}
+
+/**
+ * Serialise browse filters to a query string
+ *
+ * Defaults are left out, so the default catalogue is plain /browse.
+ *
+ * @param filters Filters to serialise
+ * @returns Query string parameters
+ */
+export function browseFiltersToParams(filters: BrowseFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | number | null) => {
+    if (value !== null && value !== "") {
+      params.set(name, String(value));
+    }
+  };
+
+  if (filters.type !== DEFAULT_BROWSE_FILTERS.type) {
+    set("type", filters.type);
+  }
+  if (filters.sort !== DEFAULT_BROWSE_FILTERS.sort) {
+    set("sort", filters.sort);
+  }
+  set("genres", filters.genres.join(","));
+  set("year_from", filters.yearFrom);
+  set("year_to", filters.yearTo);
+  set("min_rating", filters.minRating);
+  set("min_votes", filters.minVotes);
+  set("runtime_min", filters.runtimeMin);
+  set("runtime_max", filters.runtimeMax);
+  set("language", filters.language);
+  set("providers", filters.providers.join(","));
+  set("region", filters.region);
+  if (filters.page !== 1) {
+    set("page", filters.page);
+  }
+
+  return params;
+}
+
+/**
+ * Check whether any filter other than type and page is set
+ */
+export function hasActiveBrowseFilters(filters: BrowseFilters): boolean {
+  return filters.sort !== DEFAULT_BROWSE_FILTERS.sort ||
+    filters.genres.length > 0 ||
+    filters.yearFrom !== null ||
+    filters.yearTo !== null ||
+    filters.minRating !== null ||
+    filters.minVotes !== null ||
+    filters.runtimeMin !== null ||
+    filters.runtimeMax !== null ||
+    filters.language !== null ||
+    filters.providers.length > 0 ||
+    filters.region !== null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Cache storage backend
+ *
+ * RedisCache (./redis.ts) handles keys, expiry and metrics; a backend only
+ * stores strings. Implementations: Upstash Redis (./upstash.ts), an
+ * in-process LRU (./memory.ts) and Deno KV (./kv.ts).
+ *
+ * Backends may throw on failure. RedisCache catches and logs errors, so a
+ * broken cache never fails a request.
+ */
+export interface CacheBackend {
+  /**
+   * Name shown in cache metrics, e.g. "memory"
+   */
+  readonly name: string;
+
+  /**
+   * Get a value
+   *
+   * @returns The value, or null if missing or expired
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Set a value that expires after ttlSeconds
+   */
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Delete a value
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Increment an integer counter, creating it at 1
+   *
+   * @param ttlSeconds Expiry set when the counter is created
+   * @returns The new value
+   */
+  increment(key: string, ttlSeconds?: number): Promise<number>;
+}
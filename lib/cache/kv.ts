@@ -0,0 +1,107 @@
+/**
+ * Deno KV cache backend
+ *
+ * Persists across restarts and, on Deno Deploy, is shared by every instance.
+ * Needs --unstable-kv. KV values are limited to 64 KiB, so larger values are
+ * not cached.
+ */
+
+import type { CacheBackend } from "./backend.ts";
+
+const KEY_PREFIX = "cache";
+
+// Deno KV rejects values over 64 KiB; leave room for the entry wrapper
+const MAX_VALUE_LENGTH = 60 * 1024;
+
+interface KvEntry {
+  value: string;
+  expiresAt: number;
+}
+
+export class DenoKvCacheBackend implements CacheBackend {
+  readonly name = "kv";
+
+  private kv: Promise<Deno.Kv> | null = null;
+
+  /**
+   * @param path Database path; defaults to Deno's own location
+   */
+  constructor(private readonly path?: string) {}
+
+  private open(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = Deno.openKv(this.path);
+    }
+    return this.kv;
+  }
+
+  /**
+   * Close the database
+   */
+  async close(): Promise<void> {
+    if (this.kv) {
+      (await this.kv).close();
+      this.kv = null;
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const kv = await this.open();
+    const entry = await kv.get<KvEntry>([KEY_PREFIX, key]);
+    // KV removes expired keys lazily, so check the expiry too
+    if (!entry.value || entry.value.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry.value.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (value.length > MAX_VALUE_LENGTH) {
+      return;
+    }
+
+    const kv = await this.open();
+    const expireIn = ttlSeconds * 1000;
+    await kv.set(
+      [KEY_PREFIX, key],
+      { value, expiresAt: Date.now() + expireIn } satisfies KvEntry,
+      { expireIn },
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    const kv = await this.open();
+    await kv.delete([KEY_PREFIX, key]);
+  }
+
+  async increment(key: string, ttlSeconds?: number): Promise<number> {
+    const kv = await this.open();
+    const kvKey = [KEY_PREFIX, key];
+
+    // Compare-and-swap until no other writer gets in between
+    while (true) {
+      const current = await kv.get<KvEntry>(kvKey);
+      const live = current.value && current.value.expiresAt > Date.now()
+        ? current.value
+        : null;
+      const value = (live ? parseInt(live.value, 10) || 0 : 0) + 1;
+      const expiresAt = live?.expiresAt ??
+        (ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity);
+
+      const result = await kv.atomic()
+        .check(current)
+        .set(
+          kvKey,
+          { value: String(value), expiresAt } satisfies KvEntry,
+          Number.isFinite(expiresAt)
+            ? { expireIn: Math.max(1, expiresAt - Date.now()) }
+            : undefined,
+        )
+        .commit();
+
+      if (result.ok) {
+        return value;
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Unit tests for the in-process LRU cache backend
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { MemoryCacheBackend } from "./memory.ts";
+
+Deno.test("MemoryCacheBackend should evict the least recently used entry", async () => {
+  const cache = new MemoryCacheBackend(2);
+
+  await cache.set("a", "1", 60);
+  await cache.set("b", "2", 60);
+  await cache.get("a");
+  await cache.set("c", "3", 60);
+
+  assertEquals(await cache.get("a"), "1");
+  assertEquals(await cache.get("b"), null);
+  assertEquals(await cache.get("c"), "3");
+  assertEquals(cache.size, 2);
+});
+
+Deno.test("MemoryCacheBackend should not return expired entries", async () => {
+  const cache = new MemoryCacheBackend();
+
+  await cache.set("key", "value", 0);
+
+  assertEquals(await cache.get("key"), null);
+  assertEquals(cache.size, 0);
+});
+
+Deno.test("MemoryCacheBackend should increment counters from 1", async () => {
+  const cache = new MemoryCacheBackend();
+
+  assertEquals(await cache.increment("count", 60), 1);
+  assertEquals(await cache.increment("count", 60), 2);
+  assertEquals(await cache.get("count"), "2");
+});
@@ -0,0 +1,82 @@
+/**
+ * In-process LRU cache backend
+ *
+ * Needs no configuration, so it is the default when Upstash isn't set up.
+ * Each process has its own cache, which is lost on restart.
+ */
+
+import type { CacheBackend } from "./backend.ts";
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory";
+
+  // Map iterates in insertion order, so the first key is the least recently
+  // used once every read re-inserts its key
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  /**
+   * Number of entries held, including expired ones not yet evicted
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private write(key: string, entry: MemoryEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.read(key)?.value ?? null);
+  }
+
+  set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.write(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  increment(key: string, ttlSeconds?: number): Promise<number> {
+    const entry = this.read(key);
+    const value = (entry ? parseInt(entry.value, 10) || 0 : 0) + 1;
+    this.write(key, {
+      value: String(value),
+      expiresAt: entry?.expiresAt ??
+        (ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity),
+    });
+    return Promise.resolve(value);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the cache facade: stale-while-revalidate and metrics
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { MemoryCacheBackend } from "./memory.ts";
+import { RedisCache } from "./redis.ts";
+
+Deno.test("getOrRevalidate should load on a miss and serve hits from the cache", async () => {
+  const cache = new RedisCache(new MemoryCacheBackend());
+  let calls = 0;
+  const loader = () => Promise.resolve(++calls);
+
+  assertEquals(await cache.getOrRevalidate("/movie/1", {}, loader, 60), 1);
+  assertEquals(await cache.getOrRevalidate("/movie/1", {}, loader, 60), 1);
+
+  assertEquals(calls, 1);
+  const metrics = cache.getMetrics();
+  assertEquals(metrics.backend, "memory");
+  assertEquals(metrics.namespaces.tmdb.hits, 1);
+  assertEquals(metrics.namespaces.tmdb.misses, 1);
+  assertEquals(metrics.namespaces.tmdb.hit_rate, 0.5);
+});
+
+Deno.test("getOrRevalidate should serve stale entries while refreshing once", async () => {
+  const cache = new RedisCache(new MemoryCacheBackend());
+  let calls = 0;
+  const loader = () => Promise.resolve(++calls);
+
+  // A zero TTL makes the entry stale straight away
+  await cache.getOrRevalidate("/trending", undefined, loader, 0, 60);
+  const [first, second] = await Promise.all([
+    cache.getOrRevalidate("/trending", undefined, loader, 0, 60),
+    cache.getOrRevalidate("/trending", undefined, loader, 0, 60),
+  ]);
+  await cache.settle();
+
+  assertEquals([first, second], [1, 1]);
+  assertEquals(calls, 2);
+  assertEquals(
+    await cache.getOrRevalidate("/trending", undefined, loader, 0, 60),
+    2,
+  );
+  await cache.settle();
+  assertEquals(cache.getMetrics().namespaces.tmdb.stale_hits, 3);
+  assertEquals(cache.getMetrics().namespaces.tmdb.revalidations, 2);
+});
+
+Deno.test("getOrRevalidate should keep the stale entry when a refresh fails", async () => {
+  const cache = new RedisCache(new MemoryCacheBackend());
+  await cache.getOrRevalidate(
+    "/movie/2",
+    {},
+    () => Promise.resolve("v1"),
+    0,
+    60,
+  );
+
+  const stale = await cache.getOrRevalidate(
+    "/movie/2",
+    {},
+    () => Promise.reject(new Error("TMDB is down")),
+    0,
+    60,
+  );
+  await cache.settle();
+
+  assertEquals(stale, "v1");
+  assertEquals(
+    await cache.getOrRevalidate(
+      "/movie/2",
+      {},
+      () => Promise.resolve("v2"),
+      0,
+      60,
+    ),
+    "v1",
+  );
+  await cache.settle();
+});
+
+Deno.test("getOrRevalidate should call the loader directly when caching is off", async () => {
+  const cache = new RedisCache(null);
+
+  assertEquals(
+    await cache.getOrRevalidate("/movie/3", {}, () => Promise.resolve(3), 60),
+    3,
+  );
+  await assertRejects(() =>
+    cache.getOrRevalidate(
+      "/movie/3",
+      {},
+      () => Promise.reject(new Error("fail")),
+      60,
+    )
+  );
+  assertEquals(cache.getMetrics(), { backend: "none", namespaces: {} });
+});
@@ -1,37 +1,138 @@
 /**
- * Redis/Upstash cache module for TMDB API responses
+ * Cache module for TMDB API responses and other shared data
  *
- * Provides a Redis cache client using Upstash Redis REST API.
- * Falls back gracefully if Redis is not configured.
+ * RedisCache handles keys, expiry, stale-while-revalidate and hit/miss
+ * metrics on top of a pluggable storage backend (./backend.ts):
+ *
+ * - "upstash": Upstash Redis, shared by every instance
+ * - "kv": Deno KV
+ * - "memory": in-process LRU
+ * - "none": caching disabled
+ *
+ * CACHE_BACKEND picks one. By default Upstash is used when configured, and
+ * the in-memory LRU otherwise. Cache failures are logged and treated as
+ * misses, so a broken cache never fails a request.
  */
 
+import type { CacheBackend } from "./backend.ts";
+import { DenoKvCacheBackend } from "./kv.ts";
+import { MemoryCacheBackend } from "./memory.ts";
+import { UpstashCacheBackend } from "./upstash.ts";
+
 /**
  * Cache entry with metadata
  */
 interface CacheEntry<T> {
   data: T;
   expiresAt: number;
+  /** Until when the entry may be served while it's refreshed */
+  staleUntil?: number;
+}
+
+/**
+ * Hit/miss counts for one key namespace (e.g. "tmdb")
+ */
+export interface CacheMetrics {
+  hits: number;
+  /** Expired entries served while a refresh ran in the background */
+  stale_hits: number;
+  misses: number;
+  /** Background refreshes started */
+  revalidations: number;
+  /** Backend failures, counted as misses too */
+  errors: number;
+  /** Share of lookups answered from the cache, stale or not (0-1) */
+  hit_rate: number;
+}
+
+/**
+ * Cache metrics snapshot
+ */
+export interface CacheMetricsSnapshot {
+  backend: string;
+  namespaces: Record<string, CacheMetrics>;
+}
+
+type Counter = Exclude<keyof CacheMetrics, "hit_rate">;
+
+/**
+ * Create the cache backend configured by the environment
+ *
+ * @returns The backend, or null if caching is disabled
+ */
+export function createCacheBackendFromEnv(): CacheBackend | null {
+  const choice = Deno.env.get("CACHE_BACKEND")?.toLowerCase();
+  const redisUrl = Deno.env.get("UPSTASH_REDIS_REST_URL");
+  const redisToken = Deno.env.get("UPSTASH_REDIS_REST_TOKEN");
+
+  switch (choice) {
+    case "none":
+      return null;
+    case "kv":
+      return new DenoKvCacheBackend(Deno.env.get("CACHE_KV_PATH") || undefined);
+    case "memory":
+      return createMemoryBackend();
+    case "upstash":
+    case undefined:
+    case "":
+      if (redisUrl && redisToken) {
+        return new UpstashCacheBackend(redisUrl, redisToken);
+      }
+      if (choice === "upstash") {
+        console.warn(
+          "CACHE_BACKEND is upstash but Upstash isn't configured; using memory",
+        );
+      }
+      return createMemoryBackend();
+    default:
+      console.warn(`Unknown CACHE_BACKEND "${choice}"; using memory`);
+      return createMemoryBackend();
+  }
+}
+
+function createMemoryBackend(): MemoryCacheBackend {
+  const maxEntries = parseInt(
+    Deno.env.get("CACHE_MEMORY_MAX_ENTRIES") || "",
+    10,
+  );
+  return new MemoryCacheBackend(maxEntries > 0 ? maxEntries : undefined);
 }
 
 /**
- * Redis cache client wrapper
+ * Cache client wrapper
  */
-class RedisCache {
-  private redisUrl: string | null = null;
-  private redisToken: string | null = null;
-  private enabled: boolean = false;
-
-  constructor() {
-    this.redisUrl = Deno.env.get("UPSTASH_REDIS_REST_URL") || null;
-    this.redisToken = Deno.env.get("UPSTASH_REDIS_REST_TOKEN") || null;
-    this.enabled = !!(this.redisUrl && this.redisToken);
+export class RedisCache {
+  private backend: CacheBackend | null;
+  private metrics = new Map<string, Record<Counter, number>>();
+  private revalidating = new Map<string, Promise<void>>();
+
+  constructor(
+    backend: CacheBackend | null = createCacheBackendFromEnv(),
+  ) {
+    this.backend = backend;
   }
 
   /**
-   * Check if Redis cache is enabled
+   * Check if caching is enabled
    */
   isEnabled(): boolean {
-    return this.enabled;
+    return this.backend !== null;
+  }
+
+  /**
+   * Name of the active backend, or "none"
+   */
+  getBackendName(): string {
+    return this.backend?.name ?? "none";
+  }
+
+  /**
+   * Replace the backend, e.g. to share one across instances
+   *
+   * Call once at startup; entries in the old backend are not carried over.
+   */
+  setBackend(backend: CacheBackend | null): void {
+    this.backend = backend;
   }
 
   /**
@@ -52,130 +153,128 @@ class RedisCache {
   }
 
   /**
-   * Get cached value
+   * Count an event against the key's namespace (the part before the first
+   * colon)
    */
-  async get<T>(key: string): Promise<T | null> {
-    if (!this.enabled) {
-      return null;
+  private record(key: string, counter: Counter): void {
+    const namespace = key.split(":")[0];
+    let counts = this.metrics.get(namespace);
+    if (!counts) {
+      counts = {
+        hits: 0,
+        stale_hits: 0,
+        misses: 0,
+        revalidations: 0,
+        errors: 0,
+      };
+      this.metrics.set(namespace, counts);
     }
+    counts[counter]++;
+  }
 
-    try {
-      // Upstash REST API format: POST with command array
-      const response = await fetch(`${this.redisUrl}`, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${this.redisToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(["GET", key]),
-      });
-
-      if (!response.ok) {
-        // If Redis is unavailable, log and return null (graceful degradation)
-        console.warn(`Redis cache get failed: ${response.status}`);
-        return null;
-      }
-
-      const result = await response.json();
-      if (!result.result) {
-        return null;
-      }
-
-      const entry = JSON.parse(result.result) as CacheEntry<T>;
-      const now = Date.now();
+  private logError(action: string, error: unknown): void {
+    console.warn(
+      `Cache ${action} error (${this.getBackendName()}): ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
 
-      // Check if entry has expired
-      if (entry.expiresAt < now) {
-        // Entry expired, delete it
-        await this.delete(key);
-        return null;
-      }
+  /**
+   * Read an entry, stale or not
+   */
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (!this.backend) {
+      return null;
+    }
 
-      return entry.data;
+    try {
+      const raw = await this.backend.get(key);
+      return raw === null ? null : JSON.parse(raw) as CacheEntry<T>;
     } catch (error) {
-      // Graceful degradation: if Redis fails, continue without cache
-      console.warn(
-        `Redis cache error: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+      // Graceful degradation: if the cache fails, continue without it
+      this.record(key, "errors");
+      this.logError("get", error);
       return null;
     }
   }
 
   /**
-   * Set cached value with TTL
+   * Write an entry that is fresh for ttlSeconds, then stale for staleSeconds
    */
-  async set<T>(
+  private async writeEntry<T>(
     key: string,
     value: T,
     ttlSeconds: number,
+    staleSeconds: number,
   ): Promise<void> {
-    if (!this.enabled) {
+    if (!this.backend) {
       return;
     }
 
     try {
-      const expiresAt = Date.now() + (ttlSeconds * 1000);
+      const now = Date.now();
       const entry: CacheEntry<T> = {
         data: value,
-        expiresAt,
+        expiresAt: now + ttlSeconds * 1000,
       };
-
-      // Upstash REST API format: POST with SETEX command
-      // SETEX key seconds value
-      const response = await fetch(`${this.redisUrl}`, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${this.redisToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify([
-          "SETEX",
-          key,
-          ttlSeconds.toString(),
-          JSON.stringify(entry),
-        ]),
-      });
-
-      if (!response.ok) {
-        console.warn(`Redis cache set failed: ${response.status}`);
+      if (staleSeconds > 0) {
+        entry.staleUntil = now + (ttlSeconds + staleSeconds) * 1000;
       }
-    } catch (error) {
-      // Graceful degradation: if Redis fails, continue without cache
-      console.warn(
-        `Redis cache error: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
+      await this.backend.set(
+        key,
+        JSON.stringify(entry),
+        ttlSeconds + staleSeconds,
       );
+    } catch (error) {
+      this.record(key, "errors");
+      this.logError("set", error);
     }
   }
 
+  /**
+   * Get cached value
+   * Only fresh values are returned; stale ones count as misses
+   */
+  async get<T>(key: string): Promise<T | null> {
+    if (!this.backend) {
+      return null;
+    }
+
+    const entry = await this.readEntry<T>(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.record(key, "hits");
+      return entry.data;
+    }
+
+    this.record(key, "misses");
+    return null;
+  }
+
+  /**
+   * Set cached value with TTL
+   */
+  async set<T>(
+    key: string,
+    value: T,
+    ttlSeconds: number,
+  ): Promise<void> {
+    await this.writeEntry(key, value, ttlSeconds, 0);
+  }
+
   /**
    * Delete cached value
    */
   async delete(key: string): Promise<void> {
-    if (!this.enabled) {
+    if (!this.backend) {
       return;
     }
 
     try {
-      // Upstash REST API format: POST with DEL command
-      await fetch(`${this.redisUrl}`, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${this.redisToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(["DEL", key]),
-      });
+      await this.backend.delete(key);
     } catch (error) {
       // Ignore errors on delete
-      console.warn(
-        `Redis cache delete error: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+      this.logError("delete", error);
     }
   }
 
@@ -203,114 +302,142 @@ class RedisCache {
     await this.set(key, value, ttlSeconds);
   }
 
+  /**
+   * Get a value through the cache with stale-while-revalidate
+   *
+   * A fresh entry is returned as is. An expired entry still inside its
+   * stale window is returned straight away while the loader refreshes it in
+   * the background (once per key at a time). Otherwise the loader runs and
+   * its result is cached. Loader errors are thrown only when there is
+   * nothing cached to fall back on.
+   *
+   * @param endpoint API endpoint (e.g., "/movie/550")
+   * @param params Query parameters
+   * @param loader Fetches the value on a miss
+   * @param ttlSeconds How long the value stays fresh
+   * @param staleSeconds How long after that it may be served stale
+   *   (default: ttlSeconds)
+   * @returns The cached or loaded value
+   */
+  async getOrRevalidate<T>(
+    endpoint: string,
+    params: Record<string, string | number | boolean> | undefined,
+    loader: () => Promise<T>,
+    ttlSeconds: number,
+    staleSeconds: number = ttlSeconds,
+  ): Promise<T> {
+    const key = this.generateCacheKey(endpoint, params);
+    const entry = await this.readEntry<T>(key);
+    const now = Date.now();
+
+    if (entry && entry.expiresAt > now) {
+      this.record(key, "hits");
+      return entry.data;
+    }
+
+    if (entry && (entry.staleUntil ?? 0) > now) {
+      this.record(key, "stale_hits");
+      this.revalidate(key, loader, ttlSeconds, staleSeconds);
+      return entry.data;
+    }
+
+    if (this.backend) {
+      this.record(key, "misses");
+    }
+    const value = await loader();
+    await this.writeEntry(key, value, ttlSeconds, staleSeconds);
+    return value;
+  }
+
+  /**
+   * Refresh an entry in the background, unless a refresh is already running
+   */
+  private revalidate<T>(
+    key: string,
+    loader: () => Promise<T>,
+    ttlSeconds: number,
+    staleSeconds: number,
+  ): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    this.record(key, "revalidations");
+    const refresh = (async () => {
+      try {
+        const value = await loader();
+        await this.writeEntry(key, value, ttlSeconds, staleSeconds);
+      } catch (error) {
+        // Keep serving the stale entry; the next request will try again
+        this.logError("revalidate", error);
+      } finally {
+        this.revalidating.delete(key);
+      }
+    })();
+    this.revalidating.set(key, refresh);
+  }
+
+  /**
+   * Wait for background refreshes to finish (for tests and shutdown)
+   */
+  async settle(): Promise<void> {
+    await Promise.all(this.revalidating.values());
+  }
+
+  /**
+   * Get hit/miss counts since startup, by key namespace
+   */
+  getMetrics(): CacheMetricsSnapshot {
+    const namespaces: Record<string, CacheMetrics> = {};
+    for (const [namespace, counts] of this.metrics) {
+      const lookups = counts.hits + counts.stale_hits + counts.misses;
+      namespaces[namespace] = {
+        ...counts,
+        hit_rate: lookups > 0
+          ? Math.round(((counts.hits + counts.stale_hits) / lookups) * 1000) /
+            1000
+          : 0,
+      };
+    }
+    return { backend: this.getBackendName(), namespaces };
+  }
+
+  /**
+   * Reset hit/miss counts
+   */
+  resetMetrics(): void {
+    this.metrics.clear();
+  }
+
   /**
    * Increment a counter value (for rate limiting)
    * Returns the new value after increment
    */
   async increment(key: string, ttlSeconds?: number): Promise<number> {
-    if (!this.enabled) {
+    if (!this.backend) {
       return 0;
     }
 
     try {
-      // Use INCR command, optionally with EXPIRE if TTL provided
-      const commands: (string | number)[] = ["INCR", key];
-      if (ttlSeconds !== undefined) {
-        // Use INCR with EXPIRE - first increment, then set expiry if key is new
-        // Note: Upstash REST API doesn't support multi-command transactions easily
-        // So we'll use INCR and then EXPIRE separately
-        const response = await fetch(`${this.redisUrl}`, {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${this.redisToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(commands),
-        });
-
-        if (!response.ok) {
-          console.warn(`Redis increment failed: ${response.status}`);
-          return 0;
-        }
-
-        const result = await response.json();
-        const newValue = parseInt(result.result || "0", 10);
-
-        // Set expiry if TTL provided (only if this is a new key)
-        if (ttlSeconds > 0 && newValue === 1) {
-          await fetch(`${this.redisUrl}`, {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${this.redisToken}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(["EXPIRE", key, ttlSeconds.toString()]),
-          });
-        }
-
-        return newValue;
-      } else {
-        const response = await fetch(`${this.redisUrl}`, {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${this.redisToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(commands),
-        });
-
-        if (!response.ok) {
-          console.warn(`Redis increment failed: ${response.status}`);
-          return 0;
-        }
-
-        const result = await response.json();
-        return parseInt(result.result || "0", 10);
-      }
+      return await this.backend.increment(key, ttlSeconds);
     } catch (error) {
-      console.warn(
-        `Redis increment error: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+      this.logError("increment", error);
       return 0;
     }
   }
 
   /**
-   * Get an integer value from Redis
+   * Get an integer counter value
    */
   async getInt(key: string): Promise<number> {
-    if (!this.enabled) {
+    if (!this.backend) {
       return 0;
     }
 
     try {
-      const response = await fetch(`${this.redisUrl}`, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${this.redisToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(["GET", key]),
-      });
-
-      if (!response.ok) {
-        return 0;
-      }
-
-      const result = await response.json();
-      if (!result.result) {
-        return 0;
-      }
-
-      return parseInt(result.result, 10) || 0;
+      return parseInt((await this.backend.get(key)) || "0", 10) || 0;
     } catch (error) {
-      console.warn(
-        `Redis getInt error: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+      this.logError("getInt", error);
       return 0;
     }
   }
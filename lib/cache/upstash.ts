@@ -0,0 +1,69 @@
+/**
+ * Upstash Redis cache backend
+ *
+ * Talks to Upstash over its REST API, which takes one Redis command per
+ * request as a JSON array.
+ */
+
+import type { CacheBackend } from "./backend.ts";
+
+export class UpstashCacheBackend implements CacheBackend {
+  readonly name = "upstash";
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+  ) {}
+
+  /**
+   * Run a Redis command
+   *
+   * Public so other shared state (e.g. rate limits) can run commands the
+   * cache interface doesn't cover.
+   *
+   * @returns The command's result
+   */
+  async command(args: string[]): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Redis ${args[0]} failed: ${response.status}`);
+    }
+
+    const body = await response.json() as { result?: unknown };
+    return body.result ?? null;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.command(["GET", key]);
+    return result === null ? null : String(result);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.command(["SETEX", key, String(ttlSeconds), value]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(["DEL", key]);
+  }
+
+  async increment(key: string, ttlSeconds?: number): Promise<number> {
+    const value = parseInt(String(await this.command(["INCR", key])), 10) ||
+      0;
+
+    // The REST API has no transactions, so set the expiry separately when
+    // the counter is new
+    if (ttlSeconds !== undefined && ttlSeconds > 0 && value === 1) {
+      await this.command(["EXPIRE", key, String(ttlSeconds)]);
+    }
+
+    return value;
+  }
+}
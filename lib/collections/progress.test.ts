@@ -0,0 +1,61 @@
+/**
+ * Unit tests for collection progress helpers
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import type { CollectionPart } from "../tmdb/client.ts";
+import { getCollectionProgress, orderCollectionParts } from "./progress.ts";
+
+const TODAY = new Date("2024-06-01T12:00:00Z");
+
+function part(id: number, releaseDate: string): CollectionPart {
+  return {
+    id,
+    title: `Part ${id}`,
+    overview: "",
+    release_date: releaseDate,
+    poster_path: null,
+    backdrop_path: null,
+    vote_average: 7,
+    vote_count: 100,
+  };
+}
+
+Deno.test("orderCollectionParts should sort by release date with unannounced last", () => {
+  const ordered = orderCollectionParts([
+    part(3, "2010-06-18"),
+    part(4, ""),
+    part(1, "1995-11-22"),
+    part(2, "1999-11-24"),
+  ]);
+
+  assertEquals(ordered.map((p) => p.id), [1, 2, 3, 4]);
+});
+
+Deno.test("getCollectionProgress should count watched and favourited parts", () => {
+  const parts = [
+    part(1, "1995-11-22"),
+    part(2, "1999-11-24"),
+    part(3, "2010-06-18"),
+  ];
+
+  const progress = getCollectionProgress(
+    parts,
+    { 1: "watched", 2: "to_watch", 3: "favourite" },
+    TODAY,
+  );
+
+  assertEquals(progress.watched, 2);
+  assertEquals(progress.released, 3);
+  assertEquals(progress.next?.id, 2);
+});
+
+Deno.test("getCollectionProgress should leave unreleased parts out", () => {
+  const parts = [part(1, "2019-06-21"), part(2, "2026-06-19"), part(3, "")];
+
+  const progress = getCollectionProgress(parts, { 1: "watched" }, TODAY);
+
+  assertEquals(progress.watched, 1);
+  assertEquals(progress.released, 1);
+  assertEquals(progress.next, null);
+});
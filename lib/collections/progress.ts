@@ -0,0 +1,78 @@
+/**
+ * Collection (franchise) progress
+ *
+ * Orders the movies in a TMDB collection by release date and works out how
+ * far through it a user is from their library statuses.
+ */
+
+import type { CollectionPart } from "../tmdb/client.ts";
+
+type LibraryStatus = "watched" | "to_watch" | "favourite";
+
+/**
+ * A user's progress through a collection
+ */
+export interface CollectionProgress {
+  /** Released movies the user has watched (or favourited) */
+  watched: number;
+  /** Released movies in the collection */
+  released: number;
+  /** First released movie the user hasn't watched yet */
+  next: CollectionPart | null;
+}
+
+/**
+ * Check whether a movie has been released
+ */
+export function isReleased(part: CollectionPart, today: Date): boolean {
+  return !!part.release_date &&
+    part.release_date <= today.toISOString().slice(0, 10);
+}
+
+/**
+ * Sort a collection's movies into release order
+ *
+ * TMDB returns parts in no particular order. Movies without a release date
+ * are unannounced, so they go last.
+ *
+ * @param parts Collection parts
+ * @returns A new array in release order
+ */
+export function orderCollectionParts(
+  parts: CollectionPart[],
+): CollectionPart[] {
+  return [...parts].sort((a, b) => {
+    if (!a.release_date || !b.release_date) {
+      return (a.release_date ? 0 : 1) - (b.release_date ? 0 : 1);
+    }
+    return a.release_date.localeCompare(b.release_date) || a.id - b.id;
+  });
+}
+
+/**
+ * Work out a user's progress through a collection
+ *
+ * Favourites count as watched, as they are in the rest of the library.
+ * Unreleased movies aren't counted, so finishing everything out so far
+ * reads as complete.
+ *
+ * @param parts Collection parts in release order
+ * @param statuses Library status by TMDB ID
+ * @param today Current date
+ * @returns Watched and released counts, and the next movie to watch
+ */
+export function getCollectionProgress(
+  parts: CollectionPart[],
+  statuses: Record<number, LibraryStatus>,
+  today: Date = new Date(),
+): CollectionProgress {
+  const released = parts.filter((part) => isReleased(part, today));
+  const isWatched = (part: CollectionPart) =>
+    statuses[part.id] === "watched" || statuses[part.id] === "favourite";
+
+  return {
+    watched: released.filter(isWatched).length,
+    released: released.length,
+    next: released.find((part) => !isWatched(part)) ?? null,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * "Watch in order" lists for collections
+ *
+ * Turns a TMDB collection into a custom list with its movies in release
+ * order, so a franchise can be worked through with the usual list tools.
+ */
+
+import { getOrCreateContent } from "../content.ts";
+import { query, transaction } from "../db.ts";
+import { publishToUser } from "../realtime/events.ts";
+import type { CollectionDetails } from "../tmdb/client.ts";
+import { orderCollectionParts } from "./progress.ts";
+
+/**
+ * List created for a collection
+ */
+export interface WatchInOrderList {
+  id: string;
+  name: string;
+  item_count: number;
+}
+
+/**
+ * Create a custom list of a collection's movies in release order
+ *
+ * Unannounced movies (no release date yet) are left out. Callers should
+ * check the user's list limit first.
+ *
+ * @param userId User creating the list
+ * @param collection Collection details from TMDB
+ * @returns The new list
+ */
+export async function createWatchInOrderList(
+  userId: string,
+  collection: CollectionDetails,
+): Promise<WatchInOrderList> {
+  const parts = orderCollectionParts(collection.parts).filter((part) =>
+    part.release_date
+  );
+
+  // Look up known titles in one query; create the rest from the collection
+  // data, which has everything a content record needs
+  const contentIds = new Map<number, string>();
+  if (parts.length > 0) {
+    const existing = await query<{ id: string; tmdb_id: number }>(
+      "SELECT id, tmdb_id FROM content WHERE tmdb_id = ANY($1::int[])",
+      [parts.map((part) => part.id)],
+    );
+    for (const row of existing) {
+      contentIds.set(row.tmdb_id, row.id);
+    }
+  }
+  for (const part of parts) {
+    if (!contentIds.has(part.id)) {
+      contentIds.set(part.id, await getOrCreateContent(part, "movie"));
+    }
+  }
+
+  const name = `${collection.name}: watch in order`.slice(0, 255);
+
+  const listId = await transaction(async (client) => {
+    const created = await client.queryObject<{ id: string }>(
+      `INSERT INTO lists (user_id, name, description, is_public)
+       VALUES ($1, $2, $3, FALSE)
+       RETURNING id`,
+      [userId, name, `Every film in ${collection.name}, in release order.`],
+    );
+    const id = created.rows[0].id;
+
+    for (const [position, part] of parts.entries()) {
+      await client.queryObject(
+        `INSERT INTO list_items (list_id, content_id, position, added_by)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (list_id, content_id) DO NOTHING`,
+        [id, contentIds.get(part.id), position, userId],
+      );
+    }
+
+    return id;
+  });
+
+  // Show the new list in the user's other tabs and devices
+  await publishToUser(userId, { type: "lists", list_id: listId });
+
+  return { id: listId, name, item_count: parts.length };
+}
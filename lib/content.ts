@@ -5,7 +5,7 @@
  */
 
 import { query, transaction } from "./db.ts";
-import type { MovieDetails, TvDetails } from "./tmdb/client.ts";
+import type { CollectionPart, MovieDetails, TvDetails } from "./tmdb/client.ts";
 import { enqueueEmbeddingJob } from "./ai/embedding-queue.ts";
 
 /**
@@ -31,12 +31,13 @@ export interface ContentRecord {
  * If content exists with the given TMDB ID, returns it.
  * Otherwise, creates a new content record from TMDB details.
  *
- * @param tmdbDetails TMDB movie or TV details
+ * @param tmdbDetails TMDB movie or TV details (a collection part is enough
+ *   for a movie)
  * @param contentType Content type ('movie' or 'tv')
  * @returns Content record ID
  */
 export async function getOrCreateContent(
-  tmdbDetails: MovieDetails | TvDetails,
+  tmdbDetails: MovieDetails | CollectionPart | TvDetails,
   contentType: "movie" | "tv",
 ): Promise<string> {
   const tmdbId = tmdbDetails.id;
@@ -44,9 +45,11 @@ export async function getOrCreateContent(
     ? (tmdbDetails as MovieDetails).title
     : (tmdbDetails as TvDetails).name;
   const overview = tmdbDetails.overview || null;
-  const releaseDate = contentType === "movie"
-    ? (tmdbDetails as MovieDetails).release_date
-    : (tmdbDetails as TvDetails).first_air_date;
+  // TMDB sends an empty string for unannounced release dates
+  const releaseDate =
+    (contentType === "movie"
+      ? (tmdbDetails as MovieDetails).release_date
+      : (tmdbDetails as TvDetails).first_air_date) || null;
   const posterPath = tmdbDetails.poster_path || null;
   const backdropPath = tmdbDetails.backdrop_path || null;
 
@@ -91,12 +94,9 @@ export async function getOrCreateContent(
 
     const contentId = result.rows[0].id;
 
-    // Queue embedding generation job for new content
-    // Don't await - let it process in background
-    enqueueEmbeddingJob(contentId).catch((error) => {
-      console.error("Failed to enqueue embedding job:", error);
-      // Non-critical error - content was created successfully
-    });
+    // Queue embedding generation in the same transaction, so the job only
+    // exists if the content does
+    await enqueueEmbeddingJob(contentId, client);
 
     return contentId;
   });
@@ -143,3 +143,35 @@ export async function getContentById(
 
   return results[0];
 }
+
+/**
+ * Get a user's library status for several titles at once
+ *
+ * Matches what GET /api/content/[tmdb_id]/status reports for each title,
+ * for pages that list many titles.
+ *
+ * @param userId User ID
+ * @param tmdbIds TMDB content IDs
+ * @returns Status by TMDB ID, for titles in the user's library only
+ */
+export async function getLibraryStatuses(
+  userId: string,
+  tmdbIds: number[],
+): Promise<Record<number, "watched" | "to_watch" | "favourite">> {
+  if (tmdbIds.length === 0) {
+    return {};
+  }
+
+  const rows = await query<{
+    tmdb_id: number;
+    status: "watched" | "to_watch" | "favourite";
+  }>(
+    `SELECT c.tmdb_id, uc.status
+     FROM user_content uc
+     INNER JOIN content c ON uc.content_id = c.id
+     WHERE uc.user_id = $1 AND c.tmdb_id = ANY($2::int[])`,
+    [userId, tmdbIds],
+  );
+
+  return Object.fromEntries(rows.map((row) => [row.tmdb_id, row.status]));
+}
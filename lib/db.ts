@@ -8,6 +8,8 @@
 import { Pool } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
 import { PoolClient } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
 
+export type { PoolClient };
+
 /**
  * Get database URL from environment variable
  * Falls back to a default local connection if not set
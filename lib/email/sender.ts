@@ -1,10 +1,69 @@
 /**
  * Email sending utilities
  *
- * Provides functions for sending emails. Currently logs to console,
- * but can be extended to use email service providers (SendGrid, AWS SES, etc.)
+ * Every email goes through sendEmail, which delivers it through the SMTP
+ * server configured in SMTP_HOST. Without one (in development), emails are
+ * written to the console instead.
  */
 
+import { escapeHtml } from "../notifications/digest-message.ts";
+import { sendSmtp, type SmtpConfig } from "./smtp.ts";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Get the SMTP server from environment variables
+ *
+ * @returns null if SMTP_HOST isn't set
+ */
+function getSmtpConfig(): SmtpConfig | null {
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) {
+    return null;
+  }
+  return {
+    hostname,
+    port: parseInt(Deno.env.get("SMTP_PORT") || "587", 10),
+    username: Deno.env.get("SMTP_USER") || undefined,
+    password: Deno.env.get("SMTP_PASSWORD") || undefined,
+  };
+}
+
+/**
+ * Send an email
+ *
+ * @returns false if SMTP isn't configured and the email was only written to
+ *   the console
+ * @throws Error if the SMTP server doesn't accept the email
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const config = getSmtpConfig();
+  if (!config) {
+    console.log("=".repeat(80));
+    console.log(`To: ${message.to}`);
+    console.log(`Subject: ${message.subject}`);
+    console.log("");
+    console.log(message.text);
+    console.log("=".repeat(80));
+    return false;
+  }
+
+  const from = Deno.env.get("EMAIL_FROM");
+  if (!from) {
+    throw new Error(
+      "EMAIL_FROM environment variable is not set. Please set it in your .env file or environment.",
+    );
+  }
+
+  await sendSmtp(config, { from, ...message });
+  return true;
+}
+
 /**
  * Send a password reset email
  *
@@ -12,34 +71,25 @@
  * @param resetToken Password reset token
  * @param resetUrl Full URL to password reset page
  */
-export function sendPasswordResetEmail(
+export async function sendPasswordResetEmail(
   to: string,
   _resetToken: string,
   resetUrl: string,
-): void {
-  // In production, this would send an actual email via an email service provider
-  // For now, we'll log to console for development/testing
-  console.log("=".repeat(80));
-  console.log("PASSWORD RESET EMAIL");
-  console.log("=".repeat(80));
-  console.log(`To: ${to}`);
-  console.log(`Subject: Reset your password`);
-  console.log("");
-  console.log(`Click the link below to reset your password:`);
-  console.log(`${resetUrl}`);
-  console.log("");
-  console.log(`This link will expire in 24 hours.`);
-  console.log(`If you didn't request this, please ignore this email.`);
-  console.log("=".repeat(80));
-
-  // TODO: Integrate with email service provider (SendGrid, AWS SES, etc.)
-  // Example:
-  // await sendEmail({
-  //   to,
-  //   subject: "Reset your password",
-  //   html: generatePasswordResetEmailHtml(resetUrl),
-  //   text: generatePasswordResetEmailText(resetUrl),
-  // });
+): Promise<void> {
+  await sendEmail({
+    to,
+    subject: "Reset your password",
+    text: [
+      "Click the link below to reset your password:",
+      resetUrl,
+      "",
+      "This link will expire in 24 hours.",
+      "If you didn't request this, please ignore this email.",
+    ].join("\n"),
+    html: `<p>Click the link below to reset your password:</p>
+<p><a href="${escapeHtml(resetUrl)}">Reset your password</a></p>
+<p>This link will expire in 24 hours.<br>If you didn't request this, please ignore this email.</p>`,
+  });
 }
 
 /**
@@ -48,28 +98,83 @@ export function sendPasswordResetEmail(
  * @param to Recipient email address
  * @param verificationUrl Full URL to email verification endpoint
  */
-export function sendVerificationEmail(
+export async function sendVerificationEmail(
   to: string,
   verificationUrl: string,
-): void {
-  // In production, this would send an actual email via an email service provider
-  // For now, we'll log to console for development/testing
-  console.log("=".repeat(80));
-  console.log("EMAIL VERIFICATION");
-  console.log("=".repeat(80));
-  console.log(`To: ${to}`);
-  console.log(`Subject: Verify your email address`);
-  console.log("");
-  console.log(`Welcome to Stream Owl!`);
-  console.log("");
-  console.log(`Please click the link below to verify your email address:`);
-  console.log(`${verificationUrl}`);
-  console.log("");
-  console.log(`This link will expire in 48 hours.`);
-  console.log(`If you didn't create an account, please ignore this email.`);
-  console.log("=".repeat(80));
+): Promise<void> {
+  await sendEmail({
+    to,
+    subject: "Verify your email address",
+    text: [
+      "Welcome to Stream Owl!",
+      "",
+      "Please click the link below to verify your email address:",
+      verificationUrl,
+      "",
+      "This link will expire in 48 hours.",
+      "If you didn't create an account, please ignore this email.",
+    ].join("\n"),
+    html: `<p>Welcome to Stream Owl!</p>
+<p>Please click the link below to verify your email address:</p>
+<p><a href="${escapeHtml(verificationUrl)}">Verify your email address</a></p>
+<p>This link will expire in 48 hours.<br>If you didn't create an account, please ignore this email.</p>`,
+  });
+}
 
-  // TODO: Integrate with email service provider (SendGrid, AWS SES, etc.)
+/**
+ * Send an invitation to collaborate on a list
+ *
+ * @param to Recipient email address
+ * @param inviterName Display name of the list owner
+ * @param listName Name of the list
+ * @param role Role granted by the invite ("viewer" or "editor")
+ * @param inviteUrl Full URL to the invite page
+ */
+export async function sendListInviteEmail(
+  to: string,
+  inviterName: string,
+  listName: string,
+  role: string,
+  inviteUrl: string,
+): Promise<void> {
+  const invitation = `${inviterName} has invited you to ${
+    role === "editor" ? "edit" : "view"
+  } their list "${listName}" on Stream Owl.`;
+
+  await sendEmail({
+    to,
+    subject: `${inviterName} shared "${listName}" with you`,
+    text: [
+      invitation,
+      "",
+      "Click the link below to accept:",
+      inviteUrl,
+      "",
+      "This link will expire in 7 days.",
+    ].join("\n"),
+    html: `<p>${escapeHtml(invitation)}</p>
+<p><a href="${escapeHtml(inviteUrl)}">Accept the invite</a></p>
+<p>This link will expire in 7 days.</p>`,
+  });
+}
+
+/**
+ * Send a weekly digest email
+ *
+ * @param to Recipient email address
+ * @param subject Email subject
+ * @param html Rendered HTML body
+ * @param text Plain-text body
+ * @returns false if SMTP isn't configured and the email was only written to
+ *   the console
+ */
+export async function sendWeeklyDigestEmail(
+  to: string,
+  subject: string,
+  html: string,
+  text: string,
+): Promise<boolean> {
+  return await sendEmail({ to, subject, html, text });
 }
 
 /**
@@ -99,3 +204,17 @@ export function generateVerificationUrl(
 ): string {
   return `${baseUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`;
 }
+
+/**
+ * Generate list invite URL from token
+ *
+ * @param baseUrl Base URL of the application (e.g., "https://example.com")
+ * @param token List invite token
+ * @returns Full list invite URL
+ */
+export function generateListInviteUrl(
+  baseUrl: string,
+  token: string,
+): string {
+  return `${baseUrl}/lists/invite/${encodeURIComponent(token)}`;
+}
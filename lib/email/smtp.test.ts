@@ -0,0 +1,69 @@
+/**
+ * Unit tests for SMTP message building
+ */
+
+import {
+  assertEquals,
+  assertStringIncludes,
+  assertThrows,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { buildMessage } from "./smtp.ts";
+
+const DATE = new Date("2026-03-15T12:00:00Z");
+
+function decodeBase64(value: string): string {
+  const binary = atob(value.replaceAll("\r\n", ""));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+  );
+}
+
+Deno.test("buildMessage should send text and HTML as alternatives", () => {
+  const message = buildMessage({
+    from: "Stream Owl <no-reply@streamowl.test>",
+    to: "viewer@example.com",
+    subject: "Your week",
+    text: "Plain text",
+    html: "<p>Über HTML</p>",
+  }, DATE);
+
+  const [headers, ...parts] = message.split(/\r\n--=_[0-9a-f-]+(?:--)?\r\n/);
+  assertStringIncludes(headers, "Subject: Your week\r\n");
+  assertStringIncludes(headers, "Date: Sun, 15 Mar 2026 12:00:00 +0000\r\n");
+  assertStringIncludes(headers, "@streamowl.test>\r\n");
+  assertStringIncludes(headers, "Content-Type: multipart/alternative;");
+
+  const bodies = parts.filter((part) => part).map((part) =>
+    decodeBase64(part.split("\r\n\r\n")[1])
+  );
+  assertEquals(bodies, ["Plain text", "<p>Über HTML</p>"]);
+});
+
+Deno.test("buildMessage should encode non-ASCII subjects", () => {
+  const message = buildMessage({
+    from: "no-reply@streamowl.test",
+    to: "viewer@example.com",
+    subject: "Amélie is leaving",
+    text: "Text only",
+  }, DATE);
+
+  assertStringIncludes(
+    message,
+    "Subject: =?UTF-8?B?QW3DqWxpZSBpcyBsZWF2aW5n?=\r\n",
+  );
+  assertStringIncludes(message, "Content-Type: text/plain; charset=utf-8");
+});
+
+Deno.test("buildMessage should refuse headers with line breaks", () => {
+  assertThrows(
+    () =>
+      buildMessage({
+        from: "no-reply@streamowl.test",
+        to: "viewer@example.com\r\nBcc: everyone@example.com",
+        subject: "Hi",
+        text: "Text",
+      }),
+    Error,
+    "line breaks",
+  );
+});
@@ -0,0 +1,268 @@
+/**
+ * Minimal SMTP client
+ *
+ * Enough of RFC 5321 to hand a message to a relay: implicit TLS on port 465,
+ * STARTTLS elsewhere when the server offers it, and AUTH PLAIN. Messages are
+ * built as multipart/alternative with base64 bodies, so any UTF-8 text is
+ * safe to send.
+ */
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const CRLF = "\r\n";
+
+/**
+ * Port where the connection starts with TLS rather than upgrading to it
+ */
+const IMPLICIT_TLS_PORT = 465;
+
+function encodeBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64-encode a body, wrapped at 76 characters as MIME requires
+ */
+function encodeBody(value: string): string {
+  return encodeBase64(value).replace(/.{1,76}/g, `$&${CRLF}`);
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${encodeBase64(value)}?=`;
+}
+
+/**
+ * Get the address from "Name <address>" or a bare address
+ */
+function getAddress(value: string): string {
+  return value.match(/<([^>]+)>\s*$/)?.[1] ?? value.trim();
+}
+
+/**
+ * Build the DATA section of a message: headers, a blank line and the body
+ *
+ * @throws Error if an address or the subject contains a line break, which
+ *   would let it add headers
+ */
+export function buildMessage(
+  message: MailMessage,
+  date: Date = new Date(),
+): string {
+  for (const value of [message.from, message.to, message.subject]) {
+    if (/[\r\n]/.test(value)) {
+      throw new Error("Email headers can't contain line breaks");
+    }
+  }
+
+  const domain = getAddress(message.from).split("@")[1] || "localhost";
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+  const textPart = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join(CRLF);
+  }
+
+  const boundary = `=_${crypto.randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One connection to an SMTP server, read and written a line at a time
+ */
+class SmtpConnection {
+  #conn: Deno.Conn;
+  #buffer = "";
+  #decoder = new TextDecoder();
+  #encoder = new TextEncoder();
+
+  constructor(conn: Deno.Conn) {
+    this.#conn = conn;
+  }
+
+  async #readLine(): Promise<string> {
+    while (!this.#buffer.includes(CRLF)) {
+      const chunk = new Uint8Array(4096);
+      const read = await this.#conn.read(chunk);
+      if (read === null) {
+        throw new Error("SMTP server closed the connection");
+      }
+      this.#buffer += this.#decoder.decode(chunk.subarray(0, read), {
+        stream: true,
+      });
+    }
+    const end = this.#buffer.indexOf(CRLF);
+    const line = this.#buffer.slice(0, end);
+    this.#buffer = this.#buffer.slice(end + CRLF.length);
+    return line;
+  }
+
+  async #write(data: string): Promise<void> {
+    let bytes = this.#encoder.encode(data);
+    while (bytes.length > 0) {
+      bytes = bytes.subarray(await this.#conn.write(bytes));
+    }
+  }
+
+  /**
+   * Read a reply, which may span several "250-..." lines
+   *
+   * @param expected Reply codes that mean success
+   * @param step Name of the step, for the error message
+   */
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const lines: string[] = [];
+    let line: string;
+    do {
+      line = await this.#readLine();
+      lines.push(line.slice(4));
+    } while (line[3] === "-");
+
+    const code = parseInt(line.slice(0, 3), 10);
+    if (!expected.includes(code)) {
+      throw new Error(`SMTP ${step} failed: ${code} ${lines.join(" ")}`);
+    }
+    return { code, lines };
+  }
+
+  /**
+   * Send a command and read its reply
+   */
+  async command(
+    line: string,
+    expected: number[],
+    step = line.split(" ")[0],
+  ): Promise<SmtpReply> {
+    await this.#write(line + CRLF);
+    return await this.expect(expected, step);
+  }
+
+  /**
+   * Send the message after DATA, ending with a lone "."
+   */
+  async data(message: string): Promise<void> {
+    // Lines starting with "." are doubled so they don't end the message
+    const stuffed = message.replace(/^\./gm, "..");
+    await this.#write(`${stuffed}${CRLF}.${CRLF}`);
+    await this.expect([250], "DATA");
+  }
+
+  async startTls(hostname: string): Promise<void> {
+    this.#conn = await Deno.startTls(this.#conn as Deno.TcpConn, {
+      hostname,
+    });
+    this.#buffer = "";
+  }
+
+  close(): void {
+    try {
+      this.#conn.close();
+    } catch {
+      // Already closed
+    }
+  }
+}
+
+/**
+ * Deliver a message through an SMTP server
+ *
+ * @throws Error if the server refuses any step, or if credentials would have
+ *   to be sent without TLS
+ */
+export async function sendSmtp(
+  config: SmtpConfig,
+  message: MailMessage,
+): Promise<void> {
+  const data = buildMessage(message);
+  const implicitTls = config.port === IMPLICIT_TLS_PORT;
+  const smtp = new SmtpConnection(
+    implicitTls
+      ? await Deno.connectTls({ hostname: config.hostname, port: config.port })
+      : await Deno.connect({ hostname: config.hostname, port: config.port }),
+  );
+
+  try {
+    await smtp.expect([220], "greeting");
+    const ehlo = await smtp.command("EHLO localhost", [250]);
+
+    let secure = implicitTls;
+    if (!secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await smtp.command("STARTTLS", [220]);
+      await smtp.startTls(config.hostname);
+      await smtp.command("EHLO localhost", [250]);
+      secure = true;
+    }
+
+    if (config.username) {
+      if (!secure) {
+        throw new Error(
+          "SMTP server doesn't support TLS, so credentials can't be sent",
+        );
+      }
+      const credentials = encodeBase64(
+        `\0${config.username}\0${config.password ?? ""}`,
+      );
+      await smtp.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    await smtp.command(`MAIL FROM:<${getAddress(message.from)}>`, [250]);
+    await smtp.command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251]);
+    await smtp.command("DATA", [354]);
+    await smtp.data(data);
+    await smtp.command("QUIT", [221]);
+  } finally {
+    smtp.close();
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * StreamOwl data export format
+ *
+ * Builds the JSON document produced by /api/settings/export. The same shape is
+ * read back by the import and restore endpoints, and restore uses
+ * getExportData() to snapshot the current library before diffing.
+ */
+
+import { type PoolClient, query } from "./db.ts";
+
+/**
+ * Full user data export document
+ */
+export interface ExportData {
+  exportedAt: string;
+  profile: {
+    email: string;
+    displayName: string | null;
+    avatarUrl: string | null;
+    createdAt: string;
+  };
+  library: {
+    tmdbId: number;
+    contentType: string;
+    title: string;
+    status: string;
+    rating: number | null;
+    notes: string | null;
+    watchedAt: string | null;
+    addedAt: string;
+  }[];
+  lists: {
+    name: string;
+    description: string | null;
+    isPublic: boolean;
+    items: {
+      tmdbId: number;
+      contentType: string;
+      title: string;
+      position: number;
+      addedAt: string;
+    }[];
+  }[];
+  tags: {
+    name: string;
+    colour: string;
+    content: {
+      tmdbId: number;
+      contentType: string;
+      title: string;
+    }[];
+  }[];
+}
+
+interface UserProfile {
+  email: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  created_at: Date;
+}
+
+interface UserContentItem {
+  tmdb_id: number;
+  content_type: string;
+  title: string;
+  status: string;
+  rating: number | null;
+  notes: string | null;
+  watched_at: Date | null;
+  added_at: Date;
+}
+
+interface ListItem {
+  list_name: string;
+  list_description: string | null;
+  is_public: boolean;
+  tmdb_id: number;
+  content_type: string;
+  title: string;
+  position: number;
+  added_at: Date;
+}
+
+interface Tag {
+  name: string;
+  colour: string;
+}
+
+interface ContentTag {
+  tag_name: string;
+  tmdb_id: number;
+  content_type: string;
+  title: string;
+}
+
+/**
+ * Build the export document for a user
+ *
+ * @param userId User ID
+ * @param client Optional transaction client, so callers can read a
+ *   consistent snapshot inside transaction()
+ * @returns Export document, or null if the user doesn't exist
+ */
+export async function getExportData(
+  userId: string,
+  client?: PoolClient,
+): Promise<ExportData | null> {
+  const run = async <T>(sql: string, params: unknown[]): Promise<T[]> =>
+    client
+      ? (await client.queryObject<T>(sql, params)).rows
+      : await query<T>(sql, params);
+
+  // Fetch user profile
+  const profileResult = await run<UserProfile>(
+    `SELECT email, display_name, avatar_url, created_at
+     FROM users WHERE id = $1`,
+    [userId],
+  );
+
+  if (profileResult.length === 0) {
+    return null;
+  }
+
+  const profile = profileResult[0];
+
+  // Fetch user library (user_content with content details)
+  const libraryResult = await run<UserContentItem>(
+    `SELECT
+      c.tmdb_id,
+      c.type AS content_type,
+      c.title,
+      uc.status,
+      uc.rating,
+      uc.notes,
+      uc.watched_at,
+      uc.created_at AS added_at
+    FROM user_content uc
+    INNER JOIN content c ON uc.content_id = c.id
+    WHERE uc.user_id = $1
+    ORDER BY uc.created_at DESC`,
+    [userId],
+  );
+
+  // Fetch custom lists with their items
+  const listItemsResult = await run<ListItem>(
+    `SELECT
+      l.name AS list_name,
+      l.description AS list_description,
+      l.is_public,
+      c.tmdb_id,
+      c.type AS content_type,
+      c.title,
+      li.position,
+      li.created_at AS added_at
+    FROM lists l
+    LEFT JOIN list_items li ON li.list_id = l.id
+    LEFT JOIN content c ON li.content_id = c.id
+    WHERE l.user_id = $1
+    ORDER BY l.name, li.position`,
+    [userId],
+  );
+
+  // Fetch tags
+  const tagsResult = await run<Tag>(
+    `SELECT name, colour FROM tags WHERE user_id = $1 ORDER BY name`,
+    [userId],
+  );
+
+  // Fetch content tagged by user
+  const contentTagsResult = await run<ContentTag>(
+    `SELECT
+      t.name AS tag_name,
+      c.tmdb_id,
+      c.type AS content_type,
+      c.title
+    FROM content_tags ct
+    INNER JOIN tags t ON ct.tag_id = t.id
+    INNER JOIN content c ON ct.content_id = c.id
+    WHERE t.user_id = $1
+    ORDER BY t.name, c.title`,
+    [userId],
+  );
+
+  // Build lists structure
+  const listsMap = new Map<string, ExportData["lists"][number]>();
+
+  for (const item of listItemsResult) {
+    if (!listsMap.has(item.list_name)) {
+      listsMap.set(item.list_name, {
+        name: item.list_name,
+        description: item.list_description,
+        isPublic: item.is_public,
+        items: [],
+      });
+    }
+
+    // Only add item if it has content (not an empty list)
+    if (item.tmdb_id !== null) {
+      listsMap.get(item.list_name)!.items.push({
+        tmdbId: item.tmdb_id,
+        contentType: item.content_type,
+        title: item.title,
+        position: item.position,
+        addedAt: item.added_at.toISOString(),
+      });
+    }
+  }
+
+  // Build tags structure with their content
+  const tagsMap = new Map<string, ExportData["tags"][number]>();
+
+  for (const tag of tagsResult) {
+    tagsMap.set(tag.name, {
+      name: tag.name,
+      colour: tag.colour,
+      content: [],
+    });
+  }
+
+  for (const item of contentTagsResult) {
+    if (tagsMap.has(item.tag_name)) {
+      tagsMap.get(item.tag_name)!.content.push({
+        tmdbId: item.tmdb_id,
+        contentType: item.content_type,
+        title: item.title,
+      });
+    }
+  }
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: {
+      email: profile.email,
+      displayName: profile.display_name,
+      avatarUrl: profile.avatar_url,
+      createdAt: profile.created_at.toISOString(),
+    },
+    library: libraryResult.map((item) => ({
+      tmdbId: item.tmdb_id,
+      contentType: item.content_type,
+      title: item.title,
+      status: item.status,
+      rating: item.rating,
+      notes: item.notes,
+      watchedAt: item.watched_at?.toISOString() || null,
+      addedAt: item.added_at.toISOString(),
+    })),
+    lists: Array.from(listsMap.values()),
+    tags: Array.from(tagsMap.values()),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for API fixture naming and mode selection
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { getFixtureMode, getFixturePath } from "./http.ts";
+
+Deno.test("getFixturePath should map endpoints to directories", () => {
+  Deno.env.delete("API_FIXTURES_DIR");
+
+  const path = getFixturePath(
+    "tmdb",
+    "/movie/550",
+    new URLSearchParams({ api_key: "secret" }),
+  );
+
+  assertEquals(path, "fixtures/tmdb/movie/550.json");
+});
+
+Deno.test("getFixturePath should sort parameters and drop API keys", () => {
+  Deno.env.set("API_FIXTURES_DIR", "test/fixtures/");
+
+  const path = getFixturePath(
+    "tmdb",
+    "/search/movie",
+    new URLSearchParams({ query: "Star Wars", api_key: "secret", page: "1" }),
+  );
+
+  assertEquals(
+    path,
+    "test/fixtures/tmdb/search/movie__page-1_query-Star-Wars.json",
+  );
+  Deno.env.delete("API_FIXTURES_DIR");
+});
+
+Deno.test("getFixturePath should name root endpoints index", () => {
+  const path = getFixturePath(
+    "omdb",
+    "/",
+    new URLSearchParams({ apikey: "secret", i: "tt0111161" }),
+  );
+
+  assertEquals(path, "fixtures/omdb/index__i-tt0111161.json");
+});
+
+Deno.test("getFixturePath should shorten long queries without collisions", () => {
+  const withGenres = (genres: string) =>
+    getFixturePath(
+      "tmdb",
+      "/discover/movie",
+      new URLSearchParams({ with_genres: genres, sort_by: "x".repeat(120) }),
+    );
+
+  const a = withGenres("28");
+  const b = withGenres("12");
+
+  assertEquals(a === b, false);
+  assertEquals(a.length < 180, true);
+});
+
+Deno.test("getFixtureMode should default to off", () => {
+  Deno.env.set("API_FIXTURES", "replay");
+  assertEquals(getFixtureMode(), "replay");
+
+  Deno.env.set("API_FIXTURES", "sometimes");
+  assertEquals(getFixtureMode(), "off");
+
+  Deno.env.delete("API_FIXTURES");
+  assertEquals(getFixtureMode(), "off");
+});
@@ -0,0 +1,199 @@
+/**
+ * Record/replay fixtures for third-party APIs
+ *
+ * Lets the TMDB and OMDb clients run without network access. Set
+ * API_FIXTURES=record to save every response to disk as it comes back from
+ * the real API, then API_FIXTURES=replay to serve those responses instead of
+ * calling out. With the variable unset, requests go straight to the API.
+ *
+ * Fixtures live under API_FIXTURES_DIR (default "fixtures"), one JSON file
+ * per request, e.g. fixtures/tmdb/movie/550.json. API keys are never part of
+ * the file name or contents, so recorded fixtures are safe to commit.
+ */
+
+/**
+ * How API requests are served
+ */
+export type FixtureMode = "off" | "record" | "replay";
+
+/**
+ * A recorded API response
+ */
+export interface Fixture {
+  status: number;
+  body: unknown;
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures";
+
+// Query parameters carrying credentials; left out of fixture names
+const SECRET_PARAMS = new Set(["api_key", "apikey"]);
+
+// Longer query suffixes are truncated and given a hash to stay unique
+const MAX_QUERY_SUFFIX_LENGTH = 100;
+
+/**
+ * Get the fixture mode from the API_FIXTURES environment variable
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = Deno.env.get("API_FIXTURES");
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+/**
+ * Get the directory fixtures are read from and written to
+ */
+export function getFixturesDir(): string {
+  return (Deno.env.get("API_FIXTURES_DIR") || DEFAULT_FIXTURES_DIR).replace(
+    /\/+$/,
+    "",
+  );
+}
+
+/**
+ * FNV-1a hash, used to keep long fixture names unique
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Work out the file a request's fixture is stored in
+ *
+ * The endpoint becomes the directory path and the query parameters, sorted
+ * and without credentials, the file name suffix:
+ * ("tmdb", "/search/movie", {query: "Inception", page: "1"}) is stored in
+ * tmdb/search/movie__page-1_query-Inception.json.
+ *
+ * @param service API name, e.g. "tmdb"
+ * @param endpoint Path relative to the API base URL, e.g. "/movie/550"
+ * @param params Query parameters
+ * @returns Path to the fixture file
+ */
+export function getFixturePath(
+  service: string,
+  endpoint: string,
+  params: URLSearchParams,
+): string {
+  const segments = endpoint.split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .map((segment) => segment.replace(/[^A-Za-z0-9._-]/g, "-"));
+  if (segments.length === 0) {
+    segments.push("index");
+  }
+
+  const query = [...params.entries()]
+    .filter(([key]) => !SECRET_PARAMS.has(key.toLowerCase()))
+    .sort(([a, aValue], [b, bValue]) =>
+      a.localeCompare(b) || aValue.localeCompare(bValue)
+    )
+    .map(([key, value]) => `${key}-${value}`)
+    .join("_");
+
+  let suffix = query.replace(/[^A-Za-z0-9._-]/g, "-");
+  if (suffix.length > MAX_QUERY_SUFFIX_LENGTH) {
+    suffix = `${suffix.slice(0, MAX_QUERY_SUFFIX_LENGTH)}-${hashString(query)}`;
+  }
+
+  const name = segments.pop()!;
+  return [
+    getFixturesDir(),
+    service,
+    ...segments,
+    `${name}${suffix ? `__${suffix}` : ""}.json`,
+  ].join("/");
+}
+
+/**
+ * Read a recorded response
+ *
+ * @returns The fixture, or null if none has been recorded
+ */
+export async function readFixture(
+  service: string,
+  endpoint: string,
+  params: URLSearchParams,
+): Promise<Fixture | null> {
+  try {
+    const text = await Deno.readTextFile(
+      getFixturePath(service, endpoint, params),
+    );
+    return JSON.parse(text) as Fixture;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save a response as a fixture, replacing any earlier recording
+ */
+export async function writeFixture(
+  service: string,
+  endpoint: string,
+  params: URLSearchParams,
+  fixture: Fixture,
+): Promise<void> {
+  const path = getFixturePath(service, endpoint, params);
+  await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2) + "\n");
+}
+
+/**
+ * Fetch an API URL, recording or replaying it according to API_FIXTURES
+ *
+ * In replay mode a request with no recorded fixture throws rather than
+ * falling back to the network, so a missing fixture is never mistaken for a
+ * hermetic run.
+ *
+ * @param service API name, e.g. "tmdb"
+ * @param endpoint Path relative to the API base URL
+ * @param url Full request URL
+ * @returns The live or recorded response
+ */
+export async function fetchWithFixtures(
+  service: string,
+  endpoint: string,
+  url: URL,
+): Promise<Response> {
+  const mode = getFixtureMode();
+
+  if (mode === "replay") {
+    const fixture = await readFixture(service, endpoint, url.searchParams);
+    if (!fixture) {
+      throw new Error(
+        `No ${service} fixture recorded for ${endpoint} (${
+          getFixturePath(service, endpoint, url.searchParams)
+        }). Record it with API_FIXTURES=record.`,
+      );
+    }
+    return new Response(JSON.stringify(fixture.body), {
+      status: fixture.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const response = await fetch(url.toString());
+
+  if (mode === "record") {
+    try {
+      const body = await response.clone().json();
+      await writeFixture(service, endpoint, url.searchParams, {
+        status: response.status,
+        body,
+      });
+    } catch (error) {
+      // Recording is best effort; the live response is still usable
+      console.error(`Failed to record ${service} fixture:`, error);
+    }
+  }
+
+  return response;
+}
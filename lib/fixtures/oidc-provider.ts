@@ -0,0 +1,266 @@
+/**
+ * Mock OpenID Connect provider
+ *
+ * Implements just enough of a provider (discovery, authorize, token, JWKS and
+ * userinfo) to run the sign-in flow in lib/auth/oidc.ts without a real one.
+ * Authorize requests are approved straight away, signing in as the email in
+ * login_hint (or mock.user@example.com), so there's no login page to click
+ * through. ID tokens are RS256, signed with a key generated on first use.
+ *
+ * Served over HTTP by scripts/mock-oidc-server.ts, and called in-process by
+ * tests.
+ */
+
+import { base64UrlEncode } from "../auth/webauthn.ts";
+
+export const MOCK_OIDC_DEFAULT_EMAIL = "mock.user@example.com";
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+export interface MockOidcProviderOptions {
+  /** Base URL the provider is reachable at, e.g. http://localhost:8788 */
+  issuer: string;
+  /** Accepted client ID; any client is accepted when not set */
+  clientId?: string;
+  /** Required client secret; not checked when not set */
+  clientSecret?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function oauthError(error: string, description: string): Response {
+  return json({ error, error_description: description }, 400);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+async function sha256Base64Url(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Create a mock provider
+ *
+ * @returns A request handler serving the provider's endpoints under the
+ *   issuer URL's path
+ */
+export function createMockOidcProvider(
+  options: MockOidcProviderOptions,
+): (req: Request) => Promise<Response> {
+  const issuer = options.issuer.replace(/\/$/, "");
+  const basePath = new URL(issuer).pathname.replace(/\/$/, "");
+  const codes = new Map<string, IssuedCode>();
+  const accessTokens = new Map<string, Record<string, unknown>>();
+  let keyPair: Promise<CryptoKeyPair> | null = null;
+
+  const getKeyPair = () =>
+    keyPair ??= crypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      true,
+      ["sign", "verify"],
+    );
+
+  const signIdToken = async (claims: Record<string, unknown>) => {
+    const encode = (value: unknown) =>
+      base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+    const signingInput = `${encode({ alg: "RS256", kid: "mock-1" })}.${
+      encode(claims)
+    }`;
+    const signature = await crypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      (await getKeyPair()).privateKey,
+      new TextEncoder().encode(signingInput),
+    );
+    return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+  };
+
+  const authorize = (url: URL): Response => {
+    const params = url.searchParams;
+    const clientId = params.get("client_id") ?? "";
+    const redirectUri = params.get("redirect_uri") ?? "";
+    if (options.clientId && clientId !== options.clientId) {
+      return oauthError("unauthorized_client", "Unknown client_id");
+    }
+    if (!redirectUri) {
+      return oauthError("invalid_request", "redirect_uri is required");
+    }
+    if (params.get("response_type") !== "code") {
+      return oauthError("unsupported_response_type", "Only code is supported");
+    }
+    if (
+      !params.get("code_challenge") ||
+      params.get("code_challenge_method") !== "S256"
+    ) {
+      return oauthError("invalid_request", "PKCE with S256 is required");
+    }
+
+    const email = (params.get("login_hint") || MOCK_OIDC_DEFAULT_EMAIL)
+      .toLowerCase();
+    const code = crypto.randomUUID();
+    codes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge: params.get("code_challenge")!,
+      nonce: params.get("nonce"),
+      claims: {
+        sub: `mock|${email}`,
+        email,
+        email_verified: true,
+        name: email.split("@")[0],
+      },
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const result = { code, state: params.get("state") ?? "" };
+    if (params.get("response_mode") === "form_post") {
+      const inputs = Object.entries(result)
+        .map(([name, value]) =>
+          `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`
+        )
+        .join("");
+      return new Response(
+        `<!DOCTYPE html><form method="post" action="${
+          escapeHtml(redirectUri)
+        }">${inputs}</form><script>document.forms[0].submit()</script>`,
+        { headers: { "Content-Type": "text/html" } },
+      );
+    }
+
+    const target = new URL(redirectUri);
+    for (const [name, value] of Object.entries(result)) {
+      target.searchParams.set(name, value);
+    }
+    return new Response(null, {
+      status: 302,
+      headers: { Location: target.toString() },
+    });
+  };
+
+  const token = async (req: Request): Promise<Response> => {
+    const form = new URLSearchParams(await req.text());
+    if (form.get("grant_type") !== "authorization_code") {
+      return oauthError("unsupported_grant_type", "Only authorization_code");
+    }
+
+    const code = form.get("code") ?? "";
+    const issued = codes.get(code);
+    // Codes are single-use
+    codes.delete(code);
+    if (!issued || issued.expiresAt < Date.now()) {
+      return oauthError("invalid_grant", "Unknown or expired code");
+    }
+    if (
+      form.get("client_id") !== issued.clientId ||
+      (options.clientSecret &&
+        form.get("client_secret") !== options.clientSecret)
+    ) {
+      return json({ error: "invalid_client" }, 401);
+    }
+    if (form.get("redirect_uri") !== issued.redirectUri) {
+      return oauthError("invalid_grant", "redirect_uri doesn't match");
+    }
+    if (
+      await sha256Base64Url(form.get("code_verifier") ?? "") !==
+        issued.codeChallenge
+    ) {
+      return oauthError("invalid_grant", "code_verifier doesn't match");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = crypto.randomUUID();
+    accessTokens.set(accessToken, issued.claims);
+    return json({
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: TOKEN_TTL_SECONDS,
+      id_token: await signIdToken({
+        ...issued.claims,
+        iss: issuer,
+        aud: issued.clientId,
+        iat: now,
+        exp: now + TOKEN_TTL_SECONDS,
+        ...(issued.nonce ? { nonce: issued.nonce } : {}),
+      }),
+    });
+  };
+
+  return async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const path = url.pathname.startsWith(basePath)
+      ? url.pathname.slice(basePath.length)
+      : url.pathname;
+
+    switch (`${req.method} ${path}`) {
+      case "GET /.well-known/openid-configuration":
+        return json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          response_types_supported: ["code"],
+          response_modes_supported: ["query", "form_post"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["RS256"],
+          code_challenge_methods_supported: ["S256"],
+        });
+      case "GET /authorize":
+        return authorize(url);
+      case "POST /token":
+        return await token(req);
+      case "GET /jwks": {
+        const jwk = await crypto.subtle.exportKey(
+          "jwk",
+          (await getKeyPair()).publicKey,
+        );
+        return json({
+          keys: [{
+            kty: jwk.kty,
+            n: jwk.n,
+            e: jwk.e,
+            kid: "mock-1",
+            alg: "RS256",
+            use: "sig",
+          }],
+        });
+      }
+      case "GET /userinfo": {
+        const bearer = req.headers.get("Authorization")?.replace(
+          /^Bearer /,
+          "",
+        );
+        const claims = bearer ? accessTokens.get(bearer) : undefined;
+        return claims ? json(claims) : json({ error: "invalid_token" }, 401);
+      }
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  };
+}
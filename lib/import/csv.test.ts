@@ -0,0 +1,48 @@
+/**
+ * Unit tests for CSV parsing utilities
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { parseCsv, parseCsvWithHeaders } from "./csv.ts";
+
+Deno.test("parseCsv should split simple rows and fields", () => {
+  const rows = parseCsv("a,b,c\n1,2,3\n");
+
+  assertEquals(rows, [["a", "b", "c"], ["1", "2", "3"]]);
+});
+
+Deno.test("parseCsv should handle quoted fields with commas and quotes", () => {
+  const rows = parseCsv(
+    'Name,Year\n"Crouching Tiger, Hidden Dragon",2000\n"The ""Best"" Film",1999',
+  );
+
+  assertEquals(rows, [
+    ["Name", "Year"],
+    ["Crouching Tiger, Hidden Dragon", "2000"],
+    ['The "Best" Film', "1999"],
+  ]);
+});
+
+Deno.test("parseCsv should handle newlines inside quotes and CRLF endings", () => {
+  const rows = parseCsv('a,b\r\n"line one\nline two",x\r\n');
+
+  assertEquals(rows, [["a", "b"], ["line one\nline two", "x"]]);
+});
+
+Deno.test("parseCsv should skip blank lines and strip byte order mark", () => {
+  const rows = parseCsv("﻿a,b\n\n1,2\n,\n");
+
+  assertEquals(rows, [["a", "b"], ["1", "2"]]);
+});
+
+Deno.test("parseCsvWithHeaders should key records by trimmed header", () => {
+  const { headers, records } = parseCsvWithHeaders(
+    " Name ,Year\nAlien,1979\nHeat",
+  );
+
+  assertEquals(headers, ["Name", "Year"]);
+  assertEquals(records, [
+    { Name: "Alien", Year: "1979" },
+    { Name: "Heat", Year: "" },
+  ]);
+});
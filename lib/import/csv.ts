@@ -0,0 +1,92 @@
+/**
+ * Minimal CSV parser for library imports
+ *
+ * Handles quoted fields, escaped quotes ("") and newlines inside quotes,
+ * which is enough for Letterboxd and IMDb export files.
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * @param text CSV file contents
+ * @returns Array of rows, each an array of field values (blank lines skipped)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip UTF-8 byte order mark that some exporters prepend
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      field = "";
+      if (row.some((value) => value.trim() !== "")) {
+        rows.push(row);
+      }
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((value) => value.trim() !== "")) {
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text into objects keyed by the header row
+ *
+ * @param text CSV file contents
+ * @returns Header names and one record per data row
+ */
+export function parseCsvWithHeaders(
+  text: string,
+): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const records = dataRows.map((values) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (values[index] ?? "").trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
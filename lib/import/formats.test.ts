@@ -0,0 +1,161 @@
+/**
+ * Unit tests for library import format detection and normalisation
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  dedupeRows,
+  detectCsvFormat,
+  type ImportRow,
+  parseImportFile,
+  scaleRating,
+} from "./formats.ts";
+
+Deno.test("scaleRating should convert Letterboxd stars to a 10 point scale", () => {
+  assertEquals(scaleRating("4.5", 5), 9);
+  assertEquals(scaleRating("0.5", 5), 1);
+  assertEquals(scaleRating("5", 5), 10);
+});
+
+Deno.test("scaleRating should keep IMDb ratings on a 10 point scale", () => {
+  assertEquals(scaleRating("7", 10), 7);
+  assertEquals(scaleRating(8.5, 10), 8.5);
+});
+
+Deno.test("scaleRating should return null for missing or out of range values", () => {
+  assertEquals(scaleRating("", 5), null);
+  assertEquals(scaleRating(null, 10), null);
+  assertEquals(scaleRating("abc", 5), null);
+  assertEquals(scaleRating("6", 5), null);
+});
+
+Deno.test("detectCsvFormat should recognise Letterboxd exports", () => {
+  const base = ["Date", "Name", "Year", "Letterboxd URI"];
+
+  assertEquals(
+    detectCsvFormat([...base, "Rating", "Rewatch", "Tags", "Watched Date"]),
+    "letterboxd_diary",
+  );
+  assertEquals(detectCsvFormat([...base, "Rating"]), "letterboxd_ratings");
+  assertEquals(detectCsvFormat(base, "watchlist.csv"), "letterboxd_watchlist");
+  assertEquals(detectCsvFormat(base, "watched.csv"), "letterboxd_watched");
+});
+
+Deno.test("detectCsvFormat should recognise IMDb exports", () => {
+  assertEquals(
+    detectCsvFormat(["Const", "Your Rating", "Date Rated", "Title"]),
+    "imdb_ratings",
+  );
+  assertEquals(
+    detectCsvFormat(["Position", "Const", "Created", "Title"]),
+    "imdb_watchlist",
+  );
+  assertEquals(detectCsvFormat(["foo", "bar"]), null);
+});
+
+Deno.test("parseImportFile should normalise a Letterboxd diary", () => {
+  const csv = [
+    "Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date",
+    "2024-01-02,Alien,1979,https://boxd.it/a,4.5,,,2024-01-01",
+    "2024-03-02,Alien,1979,https://boxd.it/b,5,Yes,,2024-03-01",
+    "2024-02-02,Heat,1995,https://boxd.it/c,,,,2024-02-01",
+  ].join("\n");
+
+  const result = parseImportFile(csv, { filename: "diary.csv" });
+
+  assertEquals(result.format, "letterboxd_diary");
+  assertEquals(result.rows.length, 2);
+  assertEquals(result.rows[0].title, "Alien");
+  assertEquals(result.rows[0].rating, 10);
+  assertEquals(result.rows[0].status, "watched");
+  assertEquals(result.rows[0].watched_at, "2024-03-01T00:00:00.000Z");
+  assertEquals(result.rows[1].rating, null);
+});
+
+Deno.test("parseImportFile should normalise IMDb ratings and skip episodes", () => {
+  const csv = [
+    "Const,Your Rating,Date Rated,Title,URL,Title Type,IMDb Rating,Runtime (mins),Year",
+    "tt0137523,9,2023-05-01,Fight Club,https://imdb.com,Movie,8.8,139,1999",
+    "tt0903747,10,2023-06-01,Breaking Bad,https://imdb.com,TV Series,9.5,49,2008",
+    "tt0959621,8,2023-06-02,Pilot,https://imdb.com,TV Episode,9.0,58,2008",
+  ].join("\n");
+
+  const result = parseImportFile(csv);
+
+  assertEquals(result.format, "imdb_ratings");
+  assertEquals(result.rows.length, 2);
+  assertEquals(result.rows[0].imdb_id, "tt0137523");
+  assertEquals(result.rows[0].content_type, "movie");
+  assertEquals(result.rows[1].content_type, "tv");
+  assertEquals(result.rows[1].rating, 10);
+  assertEquals(result.skipped.length, 1);
+  assertEquals(result.skipped[0].title, "Pilot");
+});
+
+Deno.test("parseImportFile should read the library from a StreamOwl export", () => {
+  const json = JSON.stringify({
+    exportedAt: "2024-01-01T00:00:00.000Z",
+    profile: {},
+    library: [
+      {
+        tmdbId: 550,
+        contentType: "movie",
+        title: "Fight Club",
+        status: "favourite",
+        rating: 9.5,
+        notes: "Rewatch",
+        watchedAt: "2023-12-01T00:00:00.000Z",
+        addedAt: "2023-12-01T00:00:00.000Z",
+      },
+      { tmdbId: 0, contentType: "movie", title: "Broken", status: "watched" },
+    ],
+    lists: [],
+    tags: [],
+  });
+
+  const result = parseImportFile(json);
+
+  assertEquals(result.format, "streamowl_json");
+  assertEquals(result.rows.length, 1);
+  assertEquals(result.rows[0].tmdb_id, 550);
+  assertEquals(result.rows[0].status, "favourite");
+  assertEquals(result.rows[0].notes, "Rewatch");
+  assertEquals(result.skipped[0].reason, "Missing TMDB ID");
+});
+
+Deno.test("parseImportFile should reject unrecognised files", () => {
+  let threw = false;
+  try {
+    parseImportFile("foo,bar\n1,2");
+  } catch {
+    threw = true;
+  }
+  assert(threw);
+});
+
+Deno.test("dedupeRows should prefer watched status over watchlist", () => {
+  const base: ImportRow = {
+    row: 1,
+    title: "Heat",
+    year: 1995,
+    content_type: "movie",
+    tmdb_id: null,
+    imdb_id: null,
+    status: "to_watch",
+    rating: null,
+    notes: null,
+    watched_at: null,
+  };
+
+  const rows = dedupeRows([
+    base,
+    { ...base, row: 2, status: "watched", watched_at: "2024-01-01" },
+  ]);
+
+  assertEquals(rows.length, 1);
+  assertEquals(rows[0].status, "watched");
+  assertEquals(rows[0].watched_at, "2024-01-01");
+});
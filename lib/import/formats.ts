@@ -0,0 +1,397 @@
+/**
+ * Library import file formats
+ *
+ * Detects and normalises Letterboxd CSV exports (diary, ratings, watched,
+ * watchlist), IMDb CSV exports (ratings, watchlist) and StreamOwl's own JSON
+ * export into a common row shape that the importer can match against TMDB.
+ */
+
+import type { ExportData } from "../export.ts";
+import { parseCsvWithHeaders } from "./csv.ts";
+
+/**
+ * Supported import formats
+ */
+export const IMPORT_FORMATS = [
+  "letterboxd_diary",
+  "letterboxd_ratings",
+  "letterboxd_watched",
+  "letterboxd_watchlist",
+  "imdb_ratings",
+  "imdb_watchlist",
+  "streamowl_json",
+] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/**
+ * Library status an imported row maps to
+ */
+export type ImportStatus = "watched" | "to_watch" | "favourite";
+
+/**
+ * Normalised import row
+ */
+export interface ImportRow {
+  /** 1-based data row number in the source file */
+  row: number;
+  title: string;
+  year: number | null;
+  content_type: "movie" | "tv" | null;
+  tmdb_id: number | null;
+  imdb_id: string | null;
+  status: ImportStatus;
+  /** Rating on StreamOwl's 0-10 scale */
+  rating: number | null;
+  notes: string | null;
+  /** ISO 8601 date or timestamp */
+  watched_at: string | null;
+}
+
+/**
+ * Row that could not be imported, reported back for manual fixing
+ */
+export interface UnmatchedRow {
+  row: number;
+  title: string;
+  year: number | null;
+  reason: string;
+  /** Normalised row, so the client can resubmit it with a TMDB ID */
+  entry?: ImportRow;
+}
+
+/**
+ * Result of parsing an import file
+ */
+export interface ParsedImport {
+  format: ImportFormat;
+  rows: ImportRow[];
+  skipped: UnmatchedRow[];
+}
+
+/**
+ * Check whether a string is a supported import format
+ */
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === "string" &&
+    (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Convert a rating from another scale to StreamOwl's 0-10 scale
+ *
+ * Rounds to half-point precision to match /api/content/[tmdb_id]/rating.
+ *
+ * @param value Raw rating value
+ * @param scaleMax Maximum of the source scale (5 for Letterboxd, 10 for IMDb)
+ * @returns Rating between 0 and 10, or null if missing or invalid
+ */
+export function scaleRating(
+  value: string | number | null | undefined,
+  scaleMax: number,
+): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const numeric = typeof value === "number" ? value : parseFloat(value);
+  if (!Number.isFinite(numeric) || numeric < 0 || numeric > scaleMax) {
+    return null;
+  }
+
+  return Math.round((numeric / scaleMax) * 10 * 2) / 2;
+}
+
+/**
+ * Parse a year column, returning null when missing or invalid
+ */
+function parseYear(value: string | undefined): number | null {
+  const year = parseInt(value || "", 10);
+  return Number.isInteger(year) && year > 1800 && year < 3000 ? year : null;
+}
+
+/**
+ * Parse a date column into an ISO date string, returning null when invalid
+ */
+function parseDate(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Detect the format of a CSV file from its header row
+ *
+ * Letterboxd's watched.csv and watchlist.csv share headers, so the file name
+ * is used to tell them apart (defaulting to watchlist).
+ *
+ * @param headers CSV header names
+ * @param filename Optional original file name
+ * @returns Detected format, or null if not recognised
+ */
+export function detectCsvFormat(
+  headers: string[],
+  filename?: string,
+): ImportFormat | null {
+  const has = (name: string) => headers.includes(name);
+  const name = (filename || "").toLowerCase();
+
+  if (has("Letterboxd URI") && has("Name")) {
+    if (has("Watched Date")) return "letterboxd_diary";
+    if (has("Rating")) return "letterboxd_ratings";
+    if (name.includes("watched")) return "letterboxd_watched";
+    return "letterboxd_watchlist";
+  }
+
+  if (has("Const") && has("Title")) {
+    if (has("Your Rating")) return "imdb_ratings";
+    return "imdb_watchlist";
+  }
+
+  return null;
+}
+
+/**
+ * Map an IMDb "Title Type" value to a content type
+ *
+ * IMDb exports use either camelCase ("tvSeries") or display names
+ * ("TV Series") depending on export age.
+ *
+ * @returns Content type, or null for types we don't track (e.g. episodes)
+ */
+function mapImdbTitleType(
+  titleType: string | undefined,
+): "movie" | "tv" | null {
+  const normalised = (titleType || "movie").toLowerCase().replace(/\s+/g, "");
+  if (normalised === "tvseries" || normalised === "tvminiseries") {
+    return "tv";
+  }
+  if (normalised === "tvepisode" || normalised === "videogame") {
+    return null;
+  }
+  return "movie";
+}
+
+/**
+ * Normalise Letterboxd CSV records
+ */
+function normaliseLetterboxd(
+  format: ImportFormat,
+  records: Record<string, string>[],
+): { rows: ImportRow[]; skipped: UnmatchedRow[] } {
+  const rows: ImportRow[] = [];
+  const skipped: UnmatchedRow[] = [];
+
+  records.forEach((record, index) => {
+    const title = record["Name"] || "";
+    const year = parseYear(record["Year"]);
+    if (!title) {
+      skipped.push({ row: index + 1, title, year, reason: "Missing title" });
+      return;
+    }
+
+    rows.push({
+      row: index + 1,
+      title,
+      year,
+      content_type: "movie",
+      tmdb_id: null,
+      imdb_id: null,
+      status: format === "letterboxd_watchlist" ? "to_watch" : "watched",
+      rating: scaleRating(record["Rating"], 5),
+      notes: null,
+      watched_at: format === "letterboxd_watchlist"
+        ? null
+        : parseDate(record["Watched Date"] || record["Date"]),
+    });
+  });
+
+  return { rows, skipped };
+}
+
+/**
+ * Normalise IMDb CSV records
+ */
+function normaliseImdb(
+  format: ImportFormat,
+  records: Record<string, string>[],
+): { rows: ImportRow[]; skipped: UnmatchedRow[] } {
+  const rows: ImportRow[] = [];
+  const skipped: UnmatchedRow[] = [];
+
+  records.forEach((record, index) => {
+    const title = record["Title"] || "";
+    const year = parseYear(record["Year"]);
+    const contentType = mapImdbTitleType(record["Title Type"]);
+
+    if (!title) {
+      skipped.push({ row: index + 1, title, year, reason: "Missing title" });
+      return;
+    }
+    if (!contentType) {
+      skipped.push({
+        row: index + 1,
+        title,
+        year,
+        reason: `Unsupported title type: ${record["Title Type"]}`,
+      });
+      return;
+    }
+
+    const imdbId = record["Const"];
+    rows.push({
+      row: index + 1,
+      title,
+      year,
+      content_type: contentType,
+      tmdb_id: null,
+      imdb_id: /^tt\d+$/.test(imdbId) ? imdbId : null,
+      status: format === "imdb_watchlist" ? "to_watch" : "watched",
+      rating: format === "imdb_ratings"
+        ? scaleRating(record["Your Rating"], 10)
+        : null,
+      notes: null,
+      watched_at: format === "imdb_ratings"
+        ? parseDate(record["Date Rated"])
+        : null,
+    });
+  });
+
+  return { rows, skipped };
+}
+
+/**
+ * Normalise the library section of a StreamOwl JSON export
+ */
+function normaliseStreamOwlExport(
+  data: ExportData,
+): { rows: ImportRow[]; skipped: UnmatchedRow[] } {
+  const rows: ImportRow[] = [];
+  const skipped: UnmatchedRow[] = [];
+
+  data.library.forEach((item, index) => {
+    const title = typeof item.title === "string" ? item.title : "";
+    const status = item.status as ImportStatus;
+    const contentType = item.contentType === "tv" ? "tv" : "movie";
+
+    if (!Number.isInteger(item.tmdbId) || item.tmdbId <= 0) {
+      skipped.push({
+        row: index + 1,
+        title,
+        year: null,
+        reason: "Missing TMDB ID",
+      });
+      return;
+    }
+    if (!["watched", "to_watch", "favourite"].includes(status)) {
+      skipped.push({
+        row: index + 1,
+        title,
+        year: null,
+        reason: `Unknown status: ${item.status}`,
+      });
+      return;
+    }
+
+    rows.push({
+      row: index + 1,
+      title,
+      year: null,
+      content_type: contentType,
+      tmdb_id: item.tmdbId,
+      imdb_id: null,
+      status,
+      rating: scaleRating(item.rating, 10),
+      notes: typeof item.notes === "string" ? item.notes : null,
+      watched_at: parseDate(item.watchedAt ?? undefined),
+    });
+  });
+
+  return { rows, skipped };
+}
+
+/**
+ * Merge duplicate rows for the same title
+ *
+ * Letterboxd diaries contain one row per viewing. Keeps the most recent
+ * viewing, the most recent non-null rating, and prefers watched over
+ * watchlist status.
+ *
+ * @param rows Normalised rows
+ * @returns Rows with duplicates merged, in original order
+ */
+export function dedupeRows(rows: ImportRow[]): ImportRow[] {
+  const byKey = new Map<string, ImportRow>();
+
+  for (const row of rows) {
+    const key = row.tmdb_id
+      ? `tmdb:${row.content_type}:${row.tmdb_id}`
+      : row.imdb_id
+      ? `imdb:${row.imdb_id}`
+      : `title:${row.title.toLowerCase()}:${row.year ?? ""}`;
+
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...row });
+      continue;
+    }
+
+    const isNewer = (row.watched_at || "") >= (existing.watched_at || "");
+    if (row.rating !== null && (existing.rating === null || isNewer)) {
+      existing.rating = row.rating;
+    }
+    if (isNewer && row.watched_at) {
+      existing.watched_at = row.watched_at;
+    }
+    if (existing.status === "to_watch" && row.status !== "to_watch") {
+      existing.status = row.status;
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+/**
+ * Parse an uploaded import file
+ *
+ * @param text File contents
+ * @param options Original file name and optional explicit format
+ * @returns Detected format with normalised and skipped rows
+ * @throws Error if the file format cannot be recognised or parsed
+ */
+export function parseImportFile(
+  text: string,
+  options: { filename?: string; format?: ImportFormat } = {},
+): ParsedImport {
+  const trimmed = text.trim();
+
+  if (options.format === "streamowl_json" || trimmed.startsWith("{")) {
+    let data: ExportData;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+    if (!data || !Array.isArray(data.library)) {
+      throw new Error("JSON file is not a StreamOwl export");
+    }
+    const { rows, skipped } = normaliseStreamOwlExport(data);
+    return { format: "streamowl_json", rows: dedupeRows(rows), skipped };
+  }
+
+  const { headers, records } = parseCsvWithHeaders(trimmed);
+  const format = options.format ?? detectCsvFormat(headers, options.filename);
+  if (!format) {
+    throw new Error(
+      "Unrecognised file format. Upload a Letterboxd or IMDb CSV export, or a StreamOwl JSON export.",
+    );
+  }
+
+  const { rows, skipped } = format.startsWith("letterboxd_")
+    ? normaliseLetterboxd(format, records)
+    : normaliseImdb(format, records);
+
+  return { format, rows: dedupeRows(rows), skipped };
+}
@@ -0,0 +1,252 @@
+/**
+ * Library importer
+ *
+ * Matches normalised import rows to TMDB (by TMDB ID, IMDb ID or title/year
+ * search) and writes them into the user's library via user_content.
+ */
+
+import { enqueueTasteProfileRecalculation } from "../ai/taste-profile.ts";
+import { getContentByTmdbId, getOrCreateContent } from "../content.ts";
+import { query } from "../db.ts";
+import {
+  type Content,
+  findByImdbId,
+  getMovieDetails,
+  getTvDetails,
+  searchMovies,
+  searchTv,
+} from "../tmdb/client.ts";
+import type { ImportRow, UnmatchedRow } from "./formats.ts";
+
+/**
+ * Maximum number of rows processed in a single import request
+ */
+export const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * Outcome of importing a batch of rows
+ */
+export interface ImportResult {
+  total: number;
+  imported: number;
+  unmatched: UnmatchedRow[];
+}
+
+/**
+ * TMDB match for an import row
+ */
+interface ImportMatch {
+  tmdbId: number;
+  contentType: "movie" | "tv";
+}
+
+/**
+ * Normalise a title for loose comparison
+ */
+function normaliseTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Get release year from an internal content model
+ */
+function getReleaseYear(content: Content): number | null {
+  return content.release_date
+    ? new Date(content.release_date).getFullYear()
+    : null;
+}
+
+/**
+ * Pick the best search result for a title and year
+ *
+ * Prefers an exact title and year match, then an exact year match, then an
+ * exact title within a year either side (release dates vary by country).
+ * Without a year, only an exact title match is accepted.
+ */
+function pickBestResult(
+  results: Content[],
+  title: string,
+  year: number | null,
+): Content | null {
+  const wanted = normaliseTitle(title);
+  const sameTitle = (content: Content) =>
+    normaliseTitle(content.title) === wanted;
+
+  if (year === null) {
+    return results.find(sameTitle) ?? null;
+  }
+
+  return results.find((c) => sameTitle(c) && getReleaseYear(c) === year) ??
+    results.find((c) => getReleaseYear(c) === year) ??
+    results.find((c) => {
+      const releaseYear = getReleaseYear(c);
+      return sameTitle(c) && releaseYear !== null &&
+        Math.abs(releaseYear - year) <= 1;
+    }) ??
+    null;
+}
+
+/**
+ * Find the TMDB title for an import row
+ *
+ * @param row Normalised import row
+ * @returns TMDB match, or null if nothing suitable was found
+ */
+export async function matchImportRow(
+  row: ImportRow,
+): Promise<ImportMatch | null> {
+  if (row.tmdb_id) {
+    return { tmdbId: row.tmdb_id, contentType: row.content_type ?? "movie" };
+  }
+
+  if (row.imdb_id) {
+    const results = await findByImdbId(row.imdb_id);
+    const match = results.find((c) => c.type === row.content_type) ??
+      results[0];
+    if (match) {
+      return {
+        tmdbId: match.tmdb_id,
+        contentType: match.type === "tv" ? "tv" : "movie",
+      };
+    }
+  }
+
+  const searchOrder: Array<"movie" | "tv"> = row.content_type
+    ? [row.content_type]
+    : ["movie", "tv"];
+
+  for (const contentType of searchOrder) {
+    const search = contentType === "tv" ? searchTv : searchMovies;
+    const results = await search(row.title);
+    const match = pickBestResult(results.results, row.title, row.year);
+    if (match) {
+      return { tmdbId: match.tmdb_id, contentType };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the content record ID for a TMDB title, creating it if needed
+ *
+ * @param tmdbId TMDB ID
+ * @param contentType Content type used to fetch details from TMDB
+ * @returns Content record ID
+ */
+export async function resolveContentId(
+  tmdbId: number,
+  contentType: "movie" | "tv",
+): Promise<string> {
+  const existing = await getContentByTmdbId(tmdbId);
+  if (existing) {
+    return existing.id;
+  }
+
+  const details = contentType === "tv"
+    ? await getTvDetails(tmdbId)
+    : await getMovieDetails(tmdbId);
+  return await getOrCreateContent(details, contentType);
+}
+
+/**
+ * Write an imported row to the user's library
+ *
+ * Never downgrades an existing entry: watched or favourite titles stay as
+ * they are when the import only has them on a watchlist. Imported ratings
+ * replace existing ones; notes and watched dates only fill gaps.
+ */
+async function upsertLibraryEntry(
+  userId: string,
+  contentId: string,
+  row: ImportRow,
+): Promise<void> {
+  const watchedAt = row.watched_at
+    ? new Date(row.watched_at)
+    : row.status === "watched"
+    ? new Date()
+    : null;
+
+  await query(
+    `INSERT INTO user_content (user_id, content_id, status, rating, notes, watched_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (user_id, content_id) DO UPDATE SET
+       status = CASE
+         WHEN user_content.status = 'to_watch' OR EXCLUDED.status = 'favourite'
+           THEN EXCLUDED.status
+         ELSE user_content.status
+       END,
+       rating = COALESCE(EXCLUDED.rating, user_content.rating),
+       notes = COALESCE(user_content.notes, EXCLUDED.notes),
+       watched_at = COALESCE(user_content.watched_at, EXCLUDED.watched_at),
+       updated_at = CURRENT_TIMESTAMP`,
+    [userId, contentId, row.status, row.rating, row.notes, watchedAt],
+  );
+}
+
+/**
+ * Import normalised rows into a user's library
+ *
+ * Rows are processed sequentially so the TMDB client's rate limiter and
+ * cache do the throttling. Failures are reported per row rather than
+ * aborting the whole import.
+ *
+ * @param userId User ID
+ * @param rows Normalised import rows
+ * @returns Counts and the rows that could not be matched
+ */
+export async function importRows(
+  userId: string,
+  rows: ImportRow[],
+): Promise<ImportResult> {
+  const unmatched: UnmatchedRow[] = [];
+  let imported = 0;
+
+  for (const row of rows) {
+    try {
+      const match = await matchImportRow(row);
+      if (!match) {
+        unmatched.push({
+          row: row.row,
+          title: row.title,
+          year: row.year,
+          reason: "No TMDB match found",
+          entry: row,
+        });
+        continue;
+      }
+
+      const contentId = await resolveContentId(
+        match.tmdbId,
+        match.contentType,
+      );
+      await upsertLibraryEntry(userId, contentId, row);
+      imported++;
+    } catch (error) {
+      console.error(`Failed to import row ${row.row}:`, error);
+      unmatched.push({
+        row: row.row,
+        title: row.title,
+        year: row.year,
+        reason: "Failed to look up title",
+        entry: row,
+      });
+    }
+  }
+
+  if (imported > 0) {
+    try {
+      await enqueueTasteProfileRecalculation(userId);
+    } catch (error) {
+      console.error("Error queueing taste profile recalculation:", error);
+      // Don't fail the import if the job can't be queued
+    }
+  }
+
+  return { total: rows.length, imported, unmatched };
+}
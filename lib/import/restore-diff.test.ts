@@ -0,0 +1,234 @@
+/**
+ * Unit tests for export restore planning
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import type { ExportData } from "../export.ts";
+import {
+  collectPlanContent,
+  planRestore,
+  validateExportData,
+} from "./restore-diff.ts";
+
+function createExport(overrides: Partial<ExportData> = {}): ExportData {
+  return {
+    exportedAt: "2024-01-01T00:00:00.000Z",
+    profile: {
+      email: "user@example.com",
+      displayName: null,
+      avatarUrl: null,
+      createdAt: "2023-01-01T00:00:00.000Z",
+    },
+    library: [],
+    lists: [],
+    tags: [],
+    ...overrides,
+  };
+}
+
+function libraryItem(
+  tmdbId: number,
+  overrides: Partial<ExportData["library"][number]> = {},
+): ExportData["library"][number] {
+  return {
+    tmdbId,
+    contentType: "movie",
+    title: `Title ${tmdbId}`,
+    status: "watched",
+    rating: null,
+    notes: null,
+    watchedAt: null,
+    addedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function listItem(tmdbId: number, position: number) {
+  return {
+    tmdbId,
+    contentType: "movie",
+    title: `Title ${tmdbId}`,
+    position,
+    addedAt: "2024-01-01T00:00:00.000Z",
+  };
+}
+
+Deno.test("validateExportData should accept an export document", () => {
+  const data = createExport({ library: [libraryItem(1)] });
+
+  assertEquals(validateExportData(data), data);
+});
+
+Deno.test("validateExportData should reject invalid fields", () => {
+  assertThrows(() => validateExportData(null));
+  assertThrows(() => validateExportData({ library: [], lists: [] }));
+  assertThrows(
+    () => validateExportData(createExport({ library: [libraryItem(0)] })),
+    Error,
+    "library[0].tmdbId",
+  );
+  assertThrows(
+    () =>
+      validateExportData(
+        createExport({ library: [libraryItem(1, { status: "loved" })] }),
+      ),
+    Error,
+    "library[0].status",
+  );
+  assertThrows(
+    () =>
+      validateExportData(
+        createExport({
+          tags: [{ name: "Cosy", colour: "red", content: [] }],
+        }),
+      ),
+    Error,
+    "tags[0].colour",
+  );
+});
+
+Deno.test("planRestore should report added, updated and unchanged titles", () => {
+  const current = createExport({
+    library: [libraryItem(1), libraryItem(2, { rating: 7 })],
+  });
+  const incoming = createExport({
+    library: [
+      libraryItem(1),
+      libraryItem(2, { rating: 9 }),
+      libraryItem(3, { status: "to_watch" }),
+    ],
+  });
+
+  const plan = planRestore(current, incoming, "merge");
+
+  assertEquals(plan.diff.library.added.map((item) => item.tmdbId), [3]);
+  assertEquals(plan.diff.library.updated.map((item) => item.tmdbId), [2]);
+  assertEquals(plan.diff.library.unchanged, 1);
+  assertEquals(plan.library.upsert.map((item) => item.tmdbId), [2, 3]);
+});
+
+Deno.test("planRestore merge should keep existing data missing from the export", () => {
+  const current = createExport({
+    library: [
+      libraryItem(1, { rating: 8, notes: "Great" }),
+      libraryItem(2),
+    ],
+  });
+  const incoming = createExport({
+    library: [libraryItem(1, { status: "favourite" })],
+  });
+
+  const plan = planRestore(current, incoming, "merge");
+
+  assertEquals(plan.diff.library.removed, []);
+  assertEquals(plan.library.remove, []);
+  assertEquals(plan.library.upsert[0].status, "favourite");
+  assertEquals(plan.library.upsert[0].rating, 8);
+  assertEquals(plan.library.upsert[0].notes, "Great");
+});
+
+Deno.test("planRestore replace should remove data missing from the export", () => {
+  const current = createExport({
+    library: [libraryItem(1, { rating: 8 }), libraryItem(2)],
+    lists: [{
+      name: "Old",
+      description: null,
+      isPublic: false,
+      items: [listItem(2, 0)],
+    }],
+    tags: [{ name: "Cosy", colour: "#3B82F6", content: [listItem(1, 0)] }],
+  });
+  const incoming = createExport({ library: [libraryItem(1)] });
+
+  const plan = planRestore(current, incoming, "replace");
+
+  assertEquals(plan.diff.library.removed.map((item) => item.tmdbId), [2]);
+  assertEquals(plan.library.upsert[0].rating, null);
+  assertEquals(plan.lists.remove, ["Old"]);
+  assertEquals(plan.tags.remove, ["Cosy"]);
+  assertEquals(plan.diff.contentTags.removed, 1);
+});
+
+Deno.test("planRestore should treat numeric strings and equivalent dates as unchanged", () => {
+  const current = createExport({
+    library: [
+      libraryItem(1, {
+        rating: "7.5" as unknown as number,
+        watchedAt: "2024-01-01T00:00:00.000Z",
+      }),
+    ],
+  });
+  const incoming = createExport({
+    library: [
+      libraryItem(1, { rating: 7.5, watchedAt: "2024-01-01T00:00:00Z" }),
+    ],
+  });
+
+  const plan = planRestore(current, incoming, "merge");
+
+  assertEquals(plan.diff.library.unchanged, 1);
+  assertEquals(plan.library.upsert, []);
+});
+
+Deno.test("planRestore should rebuild list positions in export order", () => {
+  const current = createExport({
+    lists: [{
+      name: "Favourites",
+      description: "Best",
+      isPublic: false,
+      items: [listItem(5, 0), listItem(1, 1)],
+    }],
+  });
+  const incoming = createExport({
+    lists: [{
+      name: "Favourites",
+      description: null,
+      isPublic: true,
+      items: [listItem(2, 1), listItem(1, 0)],
+    }],
+  });
+
+  const merged = planRestore(current, incoming, "merge");
+  assertEquals(merged.diff.lists.updated, ["Favourites"]);
+  assertEquals(merged.lists.upsert[0].description, "Best");
+  assertEquals(
+    merged.lists.upsert[0].items.map((item) => [item.tmdbId, item.position]),
+    [[1, 0], [2, 1], [5, 2]],
+  );
+
+  const replaced = planRestore(current, incoming, "replace");
+  assertEquals(replaced.lists.upsert[0].description, null);
+  assertEquals(
+    replaced.lists.upsert[0].items.map((item) => item.tmdbId),
+    [1, 2],
+  );
+});
+
+Deno.test("planRestore should count tag assignment changes", () => {
+  const current = createExport({
+    tags: [{ name: "Cosy", colour: "#3B82F6", content: [listItem(1, 0)] }],
+  });
+  const incoming = createExport({
+    tags: [
+      {
+        name: "Cosy",
+        colour: "#3b82f6",
+        content: [listItem(1, 0), listItem(2, 0)],
+      },
+      { name: "Scary", colour: "#FF0000", content: [listItem(3, 0)] },
+    ],
+  });
+
+  const plan = planRestore(current, incoming, "merge");
+
+  assertEquals(plan.diff.tags.added, ["Scary"]);
+  assertEquals(plan.diff.tags.updated, ["Cosy"]);
+  assertEquals(plan.diff.contentTags, { added: 2, removed: 0 });
+  assertEquals(
+    collectPlanContent(plan).map((item) => item.tmdbId).sort(),
+    [1, 2, 3],
+  );
+});
@@ -0,0 +1,462 @@
+/**
+ * Restore planning for StreamOwl JSON exports
+ *
+ * Pure helpers that validate an uploaded ExportData document and work out
+ * what restoring it would change, given the user's current data in the same
+ * shape. The plan drives both the dry-run diff and the actual restore, so the
+ * preview always matches what gets written.
+ *
+ * Titles are keyed by TMDB ID (content.tmdb_id is unique), lists and tags by
+ * name, mirroring how the export groups them.
+ */
+
+import type { ExportData } from "../export.ts";
+
+/**
+ * How a restore treats data that isn't in the export
+ *
+ * - merge: keep existing library entries, lists, list items and tag
+ *   assignments; export values win where both have data
+ * - replace: make the library, lists and tags exactly match the export
+ */
+export type RestoreMode = "merge" | "replace";
+
+export type LibraryEntry = ExportData["library"][number];
+export type ListEntry = ExportData["lists"][number];
+export type TagEntry = ExportData["tags"][number];
+
+/**
+ * Title reference used in diff output
+ */
+export interface RestoreItemRef {
+  tmdbId: number;
+  contentType: string;
+  title: string;
+}
+
+/**
+ * Summary of the changes a restore would make
+ */
+export interface RestoreDiff {
+  mode: RestoreMode;
+  library: {
+    added: RestoreItemRef[];
+    updated: RestoreItemRef[];
+    removed: RestoreItemRef[];
+    unchanged: number;
+  };
+  lists: {
+    added: string[];
+    updated: string[];
+    removed: string[];
+    unchanged: number;
+  };
+  tags: {
+    added: string[];
+    updated: string[];
+    removed: string[];
+    unchanged: number;
+  };
+  contentTags: {
+    added: number;
+    removed: number;
+  };
+}
+
+/**
+ * Changes to apply, with the final state of every added or updated record
+ */
+export interface RestorePlan {
+  diff: RestoreDiff;
+  library: { upsert: LibraryEntry[]; remove: RestoreItemRef[] };
+  lists: { upsert: ListEntry[]; remove: string[] };
+  tags: { upsert: TagEntry[]; remove: string[] };
+}
+
+const VALID_STATUSES = ["watched", "to_watch", "favourite"];
+const COLOUR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+/**
+ * Check whether a value is a valid TMDB ID
+ */
+function isTmdbId(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Check whether a value is null or a parseable date string
+ */
+function isOptionalDate(value: unknown): boolean {
+  return value === null || value === undefined ||
+    (typeof value === "string" && !isNaN(new Date(value).getTime()));
+}
+
+/**
+ * Check whether a value is a non-empty name that fits the database column
+ */
+function isName(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0 &&
+    value.length <= 255;
+}
+
+/**
+ * Validate an uploaded export document
+ *
+ * Checks every field the restore writes, so a bad document is rejected
+ * before anything touches the database.
+ *
+ * @param value Parsed JSON body
+ * @returns The document typed as ExportData
+ * @throws Error describing the first invalid field
+ */
+export function validateExportData(value: unknown): ExportData {
+  if (!value || typeof value !== "object") {
+    throw new Error("Export must be a JSON object");
+  }
+
+  const data = value as Partial<ExportData>;
+  if (!Array.isArray(data.library)) {
+    throw new Error("library must be an array");
+  }
+  if (!Array.isArray(data.lists)) {
+    throw new Error("lists must be an array");
+  }
+  if (!Array.isArray(data.tags)) {
+    throw new Error("tags must be an array");
+  }
+
+  data.library.forEach((item, index) => {
+    const path = `library[${index}]`;
+    if (!item || !isTmdbId(item.tmdbId)) {
+      throw new Error(`${path}.tmdbId must be a positive integer`);
+    }
+    if (typeof item.contentType !== "string") {
+      throw new Error(`${path}.contentType must be a string`);
+    }
+    if (!VALID_STATUSES.includes(item.status)) {
+      throw new Error(
+        `${path}.status must be one of: ${VALID_STATUSES.join(", ")}`,
+      );
+    }
+    if (
+      item.rating !== null && item.rating !== undefined &&
+      (typeof item.rating !== "number" || item.rating < 0 || item.rating > 10)
+    ) {
+      throw new Error(`${path}.rating must be a number between 0 and 10`);
+    }
+    if (
+      item.notes !== null && item.notes !== undefined &&
+      typeof item.notes !== "string"
+    ) {
+      throw new Error(`${path}.notes must be a string`);
+    }
+    if (!isOptionalDate(item.watchedAt)) {
+      throw new Error(`${path}.watchedAt must be a date`);
+    }
+  });
+
+  data.lists.forEach((list, index) => {
+    const path = `lists[${index}]`;
+    if (!list || !isName(list.name)) {
+      throw new Error(`${path}.name must be a non-empty string`);
+    }
+    if (!Array.isArray(list.items)) {
+      throw new Error(`${path}.items must be an array`);
+    }
+    list.items.forEach((item, itemIndex) => {
+      if (!item || !isTmdbId(item.tmdbId)) {
+        throw new Error(
+          `${path}.items[${itemIndex}].tmdbId must be a positive integer`,
+        );
+      }
+    });
+  });
+
+  data.tags.forEach((tag, index) => {
+    const path = `tags[${index}]`;
+    if (!tag || !isName(tag.name)) {
+      throw new Error(`${path}.name must be a non-empty string`);
+    }
+    if (typeof tag.colour !== "string" || !COLOUR_PATTERN.test(tag.colour)) {
+      throw new Error(`${path}.colour must be a hex colour like #3B82F6`);
+    }
+    if (!Array.isArray(tag.content)) {
+      throw new Error(`${path}.content must be an array`);
+    }
+    tag.content.forEach((item, itemIndex) => {
+      if (!item || !isTmdbId(item.tmdbId)) {
+        throw new Error(
+          `${path}.content[${itemIndex}].tmdbId must be a positive integer`,
+        );
+      }
+    });
+  });
+
+  return data as ExportData;
+}
+
+/**
+ * Build a title reference for diff output
+ */
+function toRef(item: RestoreItemRef): RestoreItemRef {
+  return {
+    tmdbId: item.tmdbId,
+    contentType: item.contentType,
+    title: item.title,
+  };
+}
+
+/**
+ * Compare two optional timestamps by instant rather than string form
+ */
+function sameTime(a: string | null, b: string | null): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Work out the final library entry for a title present in the export
+ */
+function resolveLibraryEntry(
+  current: LibraryEntry | undefined,
+  incoming: LibraryEntry,
+  mode: RestoreMode,
+): LibraryEntry {
+  const normalised: LibraryEntry = {
+    ...incoming,
+    rating: incoming.rating ?? null,
+    notes: incoming.notes ?? null,
+    watchedAt: incoming.watchedAt ?? null,
+  };
+
+  if (!current || mode === "replace") {
+    return normalised;
+  }
+
+  // Merge: export values win, but missing values don't clear existing data
+  return {
+    ...normalised,
+    rating: normalised.rating ?? current.rating,
+    notes: normalised.notes ?? current.notes,
+    watchedAt: normalised.watchedAt ?? current.watchedAt,
+  };
+}
+
+/**
+ * Check whether two library entries hold the same user data
+ */
+function sameLibraryEntry(a: LibraryEntry, b: LibraryEntry): boolean {
+  return a.status === b.status &&
+    (a.rating === null ? null : Number(a.rating)) ===
+      (b.rating === null ? null : Number(b.rating)) &&
+    (a.notes ?? null) === (b.notes ?? null) &&
+    sameTime(a.watchedAt, b.watchedAt);
+}
+
+/**
+ * Deduplicate records by key, keeping the first occurrence
+ */
+function uniqueBy<T, K>(items: T[], key: (item: T) => K): T[] {
+  const seen = new Set<K>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) {
+      return false;
+    }
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Plan a restore of an export document over the user's current data
+ *
+ * @param current The user's data as returned by getExportData()
+ * @param incoming Validated export document being restored
+ * @param mode Merge or replace
+ * @returns Diff summary and the records to write or delete
+ */
+export function planRestore(
+  current: ExportData,
+  incoming: ExportData,
+  mode: RestoreMode,
+): RestorePlan {
+  const diff: RestoreDiff = {
+    mode,
+    library: { added: [], updated: [], removed: [], unchanged: 0 },
+    lists: { added: [], updated: [], removed: [], unchanged: 0 },
+    tags: { added: [], updated: [], removed: [], unchanged: 0 },
+    contentTags: { added: 0, removed: 0 },
+  };
+  const plan: RestorePlan = {
+    diff,
+    library: { upsert: [], remove: [] },
+    lists: { upsert: [], remove: [] },
+    tags: { upsert: [], remove: [] },
+  };
+
+  // Library
+  const currentLibrary = new Map(
+    current.library.map((item) => [item.tmdbId, item]),
+  );
+  const incomingLibrary = uniqueBy(incoming.library, (item) => item.tmdbId);
+  const incomingIds = new Set(incomingLibrary.map((item) => item.tmdbId));
+
+  for (const item of incomingLibrary) {
+    const existing = currentLibrary.get(item.tmdbId);
+    const target = resolveLibraryEntry(existing, item, mode);
+
+    if (!existing) {
+      diff.library.added.push(toRef(item));
+      plan.library.upsert.push(target);
+    } else if (!sameLibraryEntry(existing, target)) {
+      diff.library.updated.push(toRef(existing));
+      plan.library.upsert.push(target);
+    } else {
+      diff.library.unchanged++;
+    }
+  }
+
+  if (mode === "replace") {
+    for (const item of current.library) {
+      if (!incomingIds.has(item.tmdbId)) {
+        diff.library.removed.push(toRef(item));
+        plan.library.remove.push(toRef(item));
+      }
+    }
+  }
+
+  // Lists
+  const currentLists = new Map(current.lists.map((list) => [list.name, list]));
+  const incomingLists = uniqueBy(incoming.lists, (list) => list.name);
+  const incomingListNames = new Set(incomingLists.map((list) => list.name));
+
+  for (const list of incomingLists) {
+    const existing = currentLists.get(list.name);
+    const exportedItems = uniqueBy(
+      [...list.items].sort((a, b) => a.position - b.position),
+      (item) => item.tmdbId,
+    );
+    const exportedIds = new Set(exportedItems.map((item) => item.tmdbId));
+
+    // Merge keeps items only in the current list, after the exported ones
+    const extraItems = existing && mode === "merge"
+      ? existing.items.filter((item) => !exportedIds.has(item.tmdbId))
+      : [];
+    const items = [...exportedItems, ...extraItems].map((item, position) => ({
+      ...item,
+      position,
+    }));
+
+    const target: ListEntry = {
+      name: list.name,
+      description: mode === "merge"
+        ? list.description ?? existing?.description ?? null
+        : list.description ?? null,
+      isPublic: list.isPublic === true,
+      items,
+    };
+
+    if (!existing) {
+      diff.lists.added.push(list.name);
+      plan.lists.upsert.push(target);
+      continue;
+    }
+
+    const sameItems = existing.items.length === target.items.length &&
+      existing.items.every((item, index) =>
+        item.tmdbId === target.items[index].tmdbId
+      );
+    if (
+      sameItems && existing.description === target.description &&
+      existing.isPublic === target.isPublic
+    ) {
+      diff.lists.unchanged++;
+    } else {
+      diff.lists.updated.push(list.name);
+      plan.lists.upsert.push(target);
+    }
+  }
+
+  if (mode === "replace") {
+    for (const list of current.lists) {
+      if (!incomingListNames.has(list.name)) {
+        diff.lists.removed.push(list.name);
+        plan.lists.remove.push(list.name);
+      }
+    }
+  }
+
+  // Tags
+  const currentTags = new Map(current.tags.map((tag) => [tag.name, tag]));
+  const incomingTags = uniqueBy(incoming.tags, (tag) => tag.name);
+  const incomingTagNames = new Set(incomingTags.map((tag) => tag.name));
+
+  for (const tag of incomingTags) {
+    const existing = currentTags.get(tag.name);
+    const existingIds = new Set(existing?.content.map((c) => c.tmdbId) ?? []);
+    const exported = uniqueBy(tag.content, (item) => item.tmdbId);
+    const exportedIds = new Set(exported.map((item) => item.tmdbId));
+
+    const kept = existing && mode === "merge"
+      ? existing.content.filter((item) => !exportedIds.has(item.tmdbId))
+      : [];
+    const target: TagEntry = {
+      name: tag.name,
+      colour: tag.colour,
+      content: [...exported, ...kept],
+    };
+
+    const added = exported.filter((item) => !existingIds.has(item.tmdbId))
+      .length;
+    const removed = mode === "replace" && existing
+      ? existing.content.filter((item) => !exportedIds.has(item.tmdbId)).length
+      : 0;
+    diff.contentTags.added += added;
+    diff.contentTags.removed += removed;
+
+    if (!existing) {
+      diff.tags.added.push(tag.name);
+      plan.tags.upsert.push(target);
+    } else if (
+      added > 0 || removed > 0 ||
+      existing.colour.toLowerCase() !== tag.colour.toLowerCase()
+    ) {
+      diff.tags.updated.push(tag.name);
+      plan.tags.upsert.push(target);
+    } else {
+      diff.tags.unchanged++;
+    }
+  }
+
+  if (mode === "replace") {
+    for (const tag of current.tags) {
+      if (!incomingTagNames.has(tag.name)) {
+        diff.tags.removed.push(tag.name);
+        diff.contentTags.removed += tag.content.length;
+        plan.tags.remove.push(tag.name);
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Collect every title a plan needs a content record for
+ *
+ * @param plan Restore plan
+ * @returns Unique title references across library, list items and tags
+ */
+export function collectPlanContent(plan: RestorePlan): RestoreItemRef[] {
+  return uniqueBy(
+    [
+      ...plan.library.upsert,
+      ...plan.lists.upsert.flatMap((list) => list.items),
+      ...plan.tags.upsert.flatMap((tag) => tag.content),
+    ].map(toRef),
+    (item) => item.tmdbId,
+  );
+}
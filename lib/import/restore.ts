@@ -0,0 +1,317 @@
+/**
+ * Restore a StreamOwl JSON export
+ *
+ * Rebuilds user_content, lists/list_items, tags and content_tags from an
+ * ExportData document. Titles are resolved to content records first (fetching
+ * from TMDB where needed), then the current data is snapshotted, diffed and
+ * written inside a single transaction so a failed restore leaves the library
+ * untouched.
+ */
+
+import { enqueueTasteProfileRecalculation } from "../ai/taste-profile.ts";
+import { type PoolClient, query, transaction } from "../db.ts";
+import { type ExportData, getExportData } from "../export.ts";
+import { resolveContentId } from "./importer.ts";
+import {
+  planRestore,
+  type RestoreDiff,
+  type RestoreItemRef,
+  type RestoreMode,
+  type RestorePlan,
+} from "./restore-diff.ts";
+
+/**
+ * Options for a restore
+ */
+export interface RestoreOptions {
+  mode: RestoreMode;
+  /** Compute the diff without writing anything */
+  dryRun: boolean;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreResult {
+  applied: boolean;
+  diff: RestoreDiff;
+  /** Titles that couldn't be found on TMDB and were left out */
+  unresolved: RestoreItemRef[];
+}
+
+/**
+ * Collect every title referenced by an export document
+ */
+function collectExportContent(data: ExportData): RestoreItemRef[] {
+  const refs = new Map<number, RestoreItemRef>();
+  const add = (item: RestoreItemRef) => {
+    if (!refs.has(item.tmdbId)) {
+      refs.set(item.tmdbId, {
+        tmdbId: item.tmdbId,
+        contentType: item.contentType,
+        title: item.title,
+      });
+    }
+  };
+
+  data.library.forEach(add);
+  data.lists.forEach((list) => list.items.forEach(add));
+  data.tags.forEach((tag) => tag.content.forEach(add));
+
+  return Array.from(refs.values());
+}
+
+/**
+ * Resolve content record IDs for every title in an export
+ *
+ * Looks up existing content in one query and only goes to TMDB for titles
+ * the catalogue hasn't seen yet.
+ *
+ * @returns Content IDs keyed by TMDB ID, and titles that couldn't be resolved
+ */
+async function resolveExportContent(
+  data: ExportData,
+): Promise<{ contentIds: Map<number, string>; unresolved: RestoreItemRef[] }> {
+  const refs = collectExportContent(data);
+  const contentIds = new Map<number, string>();
+  const unresolved: RestoreItemRef[] = [];
+
+  if (refs.length === 0) {
+    return { contentIds, unresolved };
+  }
+
+  const existing = await query<{ id: string; tmdb_id: number }>(
+    "SELECT id, tmdb_id FROM content WHERE tmdb_id = ANY($1::int[])",
+    [refs.map((ref) => ref.tmdbId)],
+  );
+  for (const row of existing) {
+    contentIds.set(row.tmdb_id, row.id);
+  }
+
+  for (const ref of refs) {
+    if (contentIds.has(ref.tmdbId)) {
+      continue;
+    }
+    try {
+      const contentId = await resolveContentId(
+        ref.tmdbId,
+        ref.contentType === "tv" ? "tv" : "movie",
+      );
+      contentIds.set(ref.tmdbId, contentId);
+    } catch (error) {
+      console.error(`Failed to resolve TMDB ID ${ref.tmdbId}:`, error);
+      unresolved.push(ref);
+    }
+  }
+
+  return { contentIds, unresolved };
+}
+
+/**
+ * Drop titles that couldn't be resolved from an export document
+ */
+function withoutUnresolved(
+  data: ExportData,
+  contentIds: Map<number, string>,
+): ExportData {
+  const known = (item: { tmdbId: number }) => contentIds.has(item.tmdbId);
+
+  return {
+    ...data,
+    library: data.library.filter(known),
+    lists: data.lists.map((list) => ({
+      ...list,
+      items: list.items.filter(known),
+    })),
+    tags: data.tags.map((tag) => ({
+      ...tag,
+      content: tag.content.filter(known),
+    })),
+  };
+}
+
+/**
+ * Parse an optional export timestamp, defaulting to now
+ */
+function toTimestamp(value: string | null | undefined): Date {
+  const date = value ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Write a restore plan to the database
+ */
+async function applyPlan(
+  client: PoolClient,
+  userId: string,
+  plan: RestorePlan,
+  contentIds: Map<number, string>,
+): Promise<void> {
+  // Library
+  if (plan.library.remove.length > 0) {
+    await client.queryObject(
+      `DELETE FROM user_content uc
+       USING content c
+       WHERE uc.content_id = c.id
+         AND uc.user_id = $1
+         AND c.tmdb_id = ANY($2::int[])`,
+      [userId, plan.library.remove.map((item) => item.tmdbId)],
+    );
+  }
+
+  for (const item of plan.library.upsert) {
+    await client.queryObject(
+      `INSERT INTO user_content
+         (user_id, content_id, status, rating, notes, watched_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (user_id, content_id) DO UPDATE SET
+         status = EXCLUDED.status,
+         rating = EXCLUDED.rating,
+         notes = EXCLUDED.notes,
+         watched_at = EXCLUDED.watched_at,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        userId,
+        contentIds.get(item.tmdbId),
+        item.status,
+        item.rating,
+        item.notes,
+        item.watchedAt ? new Date(item.watchedAt) : null,
+        toTimestamp(item.addedAt),
+      ],
+    );
+  }
+
+  // Lists
+  if (plan.lists.remove.length > 0) {
+    await client.queryObject(
+      "DELETE FROM lists WHERE user_id = $1 AND name = ANY($2::text[])",
+      [userId, plan.lists.remove],
+    );
+  }
+
+  for (const list of plan.lists.upsert) {
+    const existing = await client.queryObject<{ id: string }>(
+      `SELECT id FROM lists
+       WHERE user_id = $1 AND name = $2
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [userId, list.name],
+    );
+
+    let listId: string;
+    if (existing.rows.length > 0) {
+      listId = existing.rows[0].id;
+      await client.queryObject(
+        `UPDATE lists
+         SET description = $1, is_public = $2, items_version = items_version + 1
+         WHERE id = $3`,
+        [list.description, list.isPublic, listId],
+      );
+      await client.queryObject("DELETE FROM list_items WHERE list_id = $1", [
+        listId,
+      ]);
+    } else {
+      const created = await client.queryObject<{ id: string }>(
+        `INSERT INTO lists (user_id, name, description, is_public)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [userId, list.name, list.description, list.isPublic],
+      );
+      listId = created.rows[0].id;
+    }
+
+    for (const item of list.items) {
+      await client.queryObject(
+        `INSERT INTO list_items
+           (list_id, content_id, position, created_at, added_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          listId,
+          contentIds.get(item.tmdbId),
+          item.position,
+          toTimestamp(item.addedAt),
+          userId,
+        ],
+      );
+    }
+  }
+
+  // Tags
+  if (plan.tags.remove.length > 0) {
+    await client.queryObject(
+      "DELETE FROM tags WHERE user_id = $1 AND name = ANY($2::text[])",
+      [userId, plan.tags.remove],
+    );
+  }
+
+  for (const tag of plan.tags.upsert) {
+    const result = await client.queryObject<{ id: string }>(
+      `INSERT INTO tags (user_id, name, colour)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, name) DO UPDATE SET colour = EXCLUDED.colour
+       RETURNING id`,
+      [userId, tag.name, tag.colour],
+    );
+    const tagId = result.rows[0].id;
+
+    await client.queryObject("DELETE FROM content_tags WHERE tag_id = $1", [
+      tagId,
+    ]);
+    for (const item of tag.content) {
+      await client.queryObject(
+        `INSERT INTO content_tags (tag_id, content_id)
+         VALUES ($1, $2)
+         ON CONFLICT (tag_id, content_id) DO NOTHING`,
+        [tagId, contentIds.get(item.tmdbId)],
+      );
+    }
+  }
+}
+
+/**
+ * Restore an export document into a user's account
+ *
+ * Dry runs still resolve titles against TMDB so the diff reflects exactly
+ * what a real restore would write; they just skip the writes.
+ *
+ * @param userId User ID
+ * @param data Validated export document
+ * @param options Mode and dry-run flag
+ * @returns Diff of the changes, and titles that couldn't be resolved
+ * @throws Error if the user doesn't exist
+ */
+export async function restoreExportData(
+  userId: string,
+  data: ExportData,
+  options: RestoreOptions,
+): Promise<RestoreResult> {
+  const { contentIds, unresolved } = await resolveExportContent(data);
+  const incoming = withoutUnresolved(data, contentIds);
+
+  const diff = await transaction(async (client) => {
+    const current = await getExportData(userId, client);
+    if (!current) {
+      throw new Error("User not found");
+    }
+
+    const plan = planRestore(current, incoming, options.mode);
+    if (!options.dryRun) {
+      await applyPlan(client, userId, plan, contentIds);
+    }
+    return plan.diff;
+  });
+
+  const changed = diff.library.added.length > 0 ||
+    diff.library.updated.length > 0 || diff.library.removed.length > 0;
+  if (!options.dryRun && changed) {
+    try {
+      await enqueueTasteProfileRecalculation(userId);
+    } catch (error) {
+      console.error("Error queueing taste profile recalculation:", error);
+      // Don't fail the restore if the job can't be queued
+    }
+  }
+
+  return { applied: !options.dryRun, diff, unresolved };
+}
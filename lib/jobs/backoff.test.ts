@@ -0,0 +1,32 @@
+/**
+ * Unit tests for job retry backoff
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { getBackoffDelay } from "./backoff.ts";
+
+const noJitter = { baseMs: 1000, maxMs: 60_000, jitter: 0 };
+
+Deno.test("getBackoffDelay should double the delay with each attempt", () => {
+  assertEquals(getBackoffDelay(1, noJitter), 1000);
+  assertEquals(getBackoffDelay(2, noJitter), 2000);
+  assertEquals(getBackoffDelay(3, noJitter), 4000);
+  assertEquals(getBackoffDelay(5, noJitter), 16000);
+});
+
+Deno.test("getBackoffDelay should cap the delay at maxMs", () => {
+  assertEquals(getBackoffDelay(10, noJitter), 60_000);
+  assertEquals(getBackoffDelay(100, noJitter), 60_000);
+});
+
+Deno.test("getBackoffDelay should take up to the jitter fraction off the delay", () => {
+  const options = { baseMs: 1000, maxMs: 60_000, jitter: 0.5 };
+
+  assertEquals(getBackoffDelay(2, options, () => 0), 2000);
+  assertEquals(getBackoffDelay(2, options, () => 0.5), 1500);
+  assertEquals(getBackoffDelay(2, options, () => 0.999), 1001);
+});
+
+Deno.test("getBackoffDelay should treat attempt 0 like the first attempt", () => {
+  assertEquals(getBackoffDelay(0, noJitter), 1000);
+});
@@ -0,0 +1,48 @@
+/**
+ * Retry backoff for background jobs
+ *
+ * Failed jobs are retried after an exponentially growing delay. Jitter spreads
+ * retries out so a burst of failures (e.g. TMDB being briefly unavailable)
+ * doesn't come back as a burst of retries.
+ */
+
+/**
+ * Backoff settings
+ */
+export interface BackoffOptions {
+  /** Delay before the first retry */
+  baseMs: number;
+  /** Upper bound for any single delay */
+  maxMs: number;
+  /** Fraction of the delay that is randomised (0 = none, 1 = full jitter) */
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseMs: 30 * 1000,
+  maxMs: 6 * 60 * 60 * 1000,
+  jitter: 0.5,
+};
+
+/**
+ * Calculate how long to wait before retrying a failed job
+ *
+ * The delay doubles with every attempt up to maxMs, then up to `jitter` of it
+ * is taken off at random.
+ *
+ * @param attempt Number of attempts made so far (1 after the first failure)
+ * @param options Backoff settings
+ * @param random Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const delay = Math.min(options.maxMs, options.baseMs * 2 ** exponent);
+  const jitter = Math.min(1, Math.max(0, options.jitter));
+
+  return Math.round(delay * (1 - jitter * random()));
+}
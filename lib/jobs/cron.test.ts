@@ -0,0 +1,88 @@
+/**
+ * Unit tests for cron expression parsing
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { nextCronRun, parseCron } from "./cron.ts";
+
+Deno.test("parseCron should expand lists, ranges and steps", () => {
+  const schedule = parseCron("0,30 9-11 */10 * 1-5");
+
+  assertEquals([...schedule.minutes], [0, 30]);
+  assertEquals([...schedule.hours], [9, 10, 11]);
+  assertEquals([...schedule.daysOfMonth], [1, 11, 21, 31]);
+  assertEquals(schedule.months.size, 12);
+  assertEquals([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+});
+
+Deno.test("parseCron should treat 7 as Sunday", () => {
+  const schedule = parseCron("0 0 * * 7");
+
+  assertEquals([...schedule.daysOfWeek], [0]);
+});
+
+Deno.test("parseCron should reject malformed expressions", () => {
+  assertThrows(() => parseCron("* * * *"));
+  assertThrows(() => parseCron("60 * * * *"));
+  assertThrows(() => parseCron("*/0 * * * *"));
+  assertThrows(() => parseCron("5-1 * * * *"));
+  assertThrows(() => parseCron("abc * * * *"));
+});
+
+Deno.test("nextCronRun should return the next matching minute", () => {
+  const from = new Date("2024-03-10T10:15:30Z");
+
+  assertEquals(
+    nextCronRun("*/5 * * * *", from).toISOString(),
+    "2024-03-10T10:20:00.000Z",
+  );
+  assertEquals(
+    nextCronRun("0 * * * *", from).toISOString(),
+    "2024-03-10T11:00:00.000Z",
+  );
+  assertEquals(
+    nextCronRun("30 3 * * *", from).toISOString(),
+    "2024-03-11T03:30:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun should never return the starting minute", () => {
+  const from = new Date("2024-03-10T11:00:00Z");
+
+  assertEquals(
+    nextCronRun("0 * * * *", from).toISOString(),
+    "2024-03-10T12:00:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun should roll over months and years", () => {
+  const from = new Date("2024-12-31T23:59:00Z");
+
+  assertEquals(
+    nextCronRun("0 0 1 * *", from).toISOString(),
+    "2025-01-01T00:00:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun should match either day field when both are restricted", () => {
+  // 2024-03-10 is a Sunday; the 15th is a Friday
+  const from = new Date("2024-03-10T12:00:00Z");
+
+  assertEquals(
+    nextCronRun("0 9 15 * 1", from).toISOString(),
+    "2024-03-11T09:00:00.000Z",
+  );
+  assertEquals(
+    nextCronRun("0 9 15 * *", from).toISOString(),
+    "2024-03-15T09:00:00.000Z",
+  );
+});
+
+Deno.test("nextCronRun should throw for expressions that never fire", () => {
+  assertThrows(() =>
+    nextCronRun("0 0 31 2 *", new Date("2024-01-01T00:00:00Z"))
+  );
+});
@@ -0,0 +1,175 @@
+/**
+ * Cron expression parsing for scheduled jobs
+ *
+ * Supports the standard five fields (minute, hour, day of month, month, day
+ * of week) with `*`, lists, ranges and steps, evaluated in UTC. As in classic
+ * cron, when both day of month and day of week are restricted a day matches
+ * if either does.
+ */
+
+/**
+ * Parsed cron expression: the allowed values for each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day of month / day of week were restricted (not `*`) */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+// Give up after this many days without a match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_DAYS = 366 * 5;
+
+/**
+ * Parse a single cron field into its allowed values
+ */
+function parseField(
+  value: string,
+  field: typeof FIELDS[number],
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron ${field.name} field: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(range);
+      // "5/15" means every 15 from 5 onwards
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (
+      !Number.isInteger(start) || !Number.isInteger(end) ||
+      start < field.min || end > field.max || start > end
+    ) {
+      throw new Error(`Invalid cron ${field.name} field: ${part}`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ *
+ * @param expression Cron expression, e.g. "0 * * * *"
+ * @returns Parsed schedule
+ * @throws Error if the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((
+    part,
+    index,
+  ) => parseField(part, FIELDS[index]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+/**
+ * Check whether a schedule runs on a given UTC day
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Calculate the next time a cron expression fires after a given instant
+ *
+ * @param expression Cron expression or parsed schedule
+ * @param from Instant to search from (exclusive)
+ * @returns Next matching minute, in UTC
+ * @throws Error if the expression is malformed or never fires
+ */
+export function nextCronRun(
+  expression: string | CronSchedule,
+  from: Date = new Date(),
+): Date {
+  const schedule = typeof expression === "string"
+    ? parseCron(expression)
+    : expression;
+
+  // Start at the next whole minute
+  const candidate = new Date(from.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error("Cron expression never fires");
+}
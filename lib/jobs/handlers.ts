@@ -0,0 +1,160 @@
+/**
+ * Background job handlers and schedules
+ *
+ * Every job type in JobPayloads has a handler here. Handlers throw to signal
+ * failure; the worker records the error and retries with backoff. Handlers
+ * may run more than once for the same job (a retry after a partial failure,
+ * or a lease that expired mid-run), so they must be safe to repeat.
+ */
+
+import { generateContentEmbedding } from "../ai/embedding-queue.ts";
+import { recalculateTasteProfile } from "../ai/taste-profile.ts";
+import { prunePasskeyChallenges } from "../auth/passkeys.ts";
+import { pruneSessions } from "../auth/sessions.ts";
+import { pruneTrustedDevices } from "../auth/two-factor.ts";
+import {
+  pruneWeeklyDigests,
+  sendWeeklyDigests,
+} from "../notifications/digest.ts";
+import {
+  pruneLeavingSoonAlerts,
+  sendLeavingSoonAlerts,
+} from "../notifications/leaving-soon.ts";
+import { logInfo } from "../logging/logger.ts";
+import { sendPushToUser } from "../notifications/push.ts";
+import { pruneRateLimits } from "../security/limiter-stores.ts";
+import { processStreamingSyncJob } from "../streaming/sync.ts";
+import { pruneStripeEvents } from "../stripe/subscriptions.ts";
+import {
+  type JobPayloads,
+  type JobRecord,
+  type JobType,
+  pruneJobs,
+} from "./queue.ts";
+
+/**
+ * How to run one job type
+ */
+export interface JobDefinition<T extends JobType> {
+  run: (payload: JobPayloads[T], job: JobRecord<T>) => Promise<void>;
+  /** Pause after each job of this type, to stay under API rate limits */
+  delayMs?: number;
+}
+
+export type JobHandlers = { [T in JobType]: JobDefinition<T> };
+
+/**
+ * A recurring job, enqueued whenever its cron expression fires (UTC)
+ */
+export type ScheduledJob = {
+  [T in JobType]: {
+    name: string;
+    type: T;
+    cron: string;
+    payload: JobPayloads[T];
+  };
+}[JobType];
+
+export const JOB_HANDLERS: JobHandlers = {
+  "embedding.generate": {
+    run: async ({ contentId }) => {
+      await generateContentEmbedding(contentId);
+    },
+    // OpenAI rate limit: ~10 requests/second
+    delayMs: 100,
+  },
+
+  "streaming.sync": {
+    run: async ({ maxItems = 50, maxAgeHours = 24 }) => {
+      const result = await processStreamingSyncJob(maxItems, maxAgeHours);
+      await logInfo("Streaming sync finished", undefined, { ...result });
+
+      if (result.totalProcessed > 0 && result.successCount === 0) {
+        throw new Error(
+          `Streaming sync failed for all ${result.totalProcessed} items`,
+        );
+      }
+    },
+  },
+
+  "taste_profile.recalculate": {
+    run: async ({ userId }) => {
+      await recalculateTasteProfile(userId);
+    },
+  },
+
+  "notification.push": {
+    run: async ({ userId, type, notification }) => {
+      await sendPushToUser(userId, type, notification);
+    },
+  },
+
+  "notification.leaving_soon": {
+    run: async ({ daysAhead }) => {
+      await pruneLeavingSoonAlerts();
+      const result = await sendLeavingSoonAlerts(daysAhead);
+      await logInfo("Leaving-soon alerts sent", undefined, { ...result });
+    },
+  },
+
+  "notification.weekly_digest": {
+    run: async () => {
+      await pruneWeeklyDigests();
+      const result = await sendWeeklyDigests();
+      await logInfo("Weekly digests sent", undefined, { ...result });
+    },
+  },
+
+  "jobs.prune": {
+    run: async ({ completedDays, deadDays }) => {
+      const deleted = await pruneJobs(completedDays, deadDays);
+      const rateLimits = await pruneRateLimits();
+      const sessions = await pruneSessions();
+      const devices = await pruneTrustedDevices();
+      const challenges = await prunePasskeyChallenges();
+      const stripeEvents = await pruneStripeEvents();
+      await logInfo("Pruned expired records", undefined, {
+        jobs: deleted,
+        rateLimits,
+        sessions,
+        trustedDevices: devices,
+        passkeyChallenges: challenges,
+        stripeEvents,
+      });
+    },
+  },
+};
+
+export const JOB_SCHEDULES: ScheduledJob[] = [
+  {
+    name: "streaming-sync",
+    type: "streaming.sync",
+    cron: "0 * * * *",
+    payload: { maxItems: 50, maxAgeHours: 24 },
+  },
+  {
+    name: "leaving-soon-alerts",
+    type: "notification.leaving_soon",
+    cron: "0 9 * * *",
+    payload: {},
+  },
+  {
+    name: "weekly-digest",
+    type: "notification.weekly_digest",
+    cron: "0 8 * * 1",
+    payload: {},
+  },
+  {
+    name: "prune-jobs",
+    type: "jobs.prune",
+    cron: "30 3 * * *",
+    payload: {},
+  },
+];
+
+/**
+ * Check whether a job type has a handler
+ */
+export function isJobType(value: string): value is JobType {
+  return Object.hasOwn(JOB_HANDLERS, value);
+}
@@ -0,0 +1,405 @@
+/**
+ * Postgres-backed background job queue
+ *
+ * Jobs are rows in the jobs table. Workers claim them with
+ * SELECT ... FOR UPDATE SKIP LOCKED and hold a lease (locked_until) while they
+ * run; a job whose lease expires is claimable again, so a crashed worker never
+ * strands work. Failed jobs are retried with exponential backoff until
+ * max_attempts, then parked in the 'dead' state for an admin to inspect.
+ *
+ * Handlers live in ./handlers.ts and the worker loop in ./worker.ts; this
+ * module only deals with storage so it can be imported anywhere without
+ * pulling in every handler's dependencies.
+ */
+
+import { type PoolClient, query } from "../db.ts";
+import type {
+  NotificationPayload,
+  NotificationType,
+} from "../notifications/push.ts";
+import { getBackoffDelay } from "./backoff.ts";
+
+/**
+ * Payload for each job type
+ */
+export interface JobPayloads {
+  "embedding.generate": { contentId: string };
+  "streaming.sync": {
+    maxItems?: number;
+    maxAgeHours?: number;
+  };
+  "taste_profile.recalculate": { userId: string };
+  "notification.push": {
+    userId: string;
+    type: NotificationType;
+    notification: NotificationPayload;
+  };
+  "notification.leaving_soon": { daysAhead?: number };
+  "notification.weekly_digest": Record<string, never>;
+  "jobs.prune": { completedDays?: number; deadDays?: number };
+}
+
+export type JobType = keyof JobPayloads;
+
+export const JOB_STATUSES = [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+  "dead",
+] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+/**
+ * Job record from database
+ */
+export interface JobRecord<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  dedupe_key: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueOptions {
+  /** Earliest time the job may run (defaults to now) */
+  runAt?: Date;
+  /** Alternative to runAt: run after this many milliseconds */
+  delayMs?: number;
+  /** Higher runs first (default 0) */
+  priority?: number;
+  /** Attempts before the job is marked dead (default 5) */
+  maxAttempts?: number;
+  /**
+   * Collapse duplicates: while a job with the same type and key is waiting
+   * to run, enqueueing another is a no-op
+   */
+  dedupeKey?: string;
+  /** Enqueue inside an existing transaction */
+  client?: PoolClient;
+}
+
+/**
+ * Check whether a string is a known job status
+ */
+export function isJobStatus(value: string): value is JobStatus {
+  return (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Add a job to the queue
+ *
+ * @param type Job type
+ * @param payload Job payload
+ * @param options Scheduling and dedupe options
+ * @returns Job ID, or null if an identical job is already waiting
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {},
+): Promise<string | null> {
+  const runAt = options.runAt ??
+    new Date(Date.now() + (options.delayMs ?? 0));
+
+  const sql = `INSERT INTO jobs
+       (type, payload, priority, max_attempts, run_at, dedupe_key)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (type, dedupe_key)
+       WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'failed')
+     DO NOTHING
+     RETURNING id`;
+  const params = [
+    type,
+    JSON.stringify(payload),
+    options.priority ?? 0,
+    options.maxAttempts ?? 5,
+    runAt,
+    options.dedupeKey ?? null,
+  ];
+
+  const rows = options.client
+    ? (await options.client.queryObject<{ id: string }>(sql, params)).rows
+    : await query<{ id: string }>(sql, params);
+
+  return rows.length > 0 ? rows[0].id : null;
+}
+
+/**
+ * Claim the next due job
+ *
+ * Picks the highest-priority job that is due, or a running job whose lease
+ * has expired, and leases it to the worker. attempts is incremented on claim
+ * so a job that keeps killing its worker still ends up dead.
+ *
+ * @param workerId Identifier of the claiming worker
+ * @param leaseMs How long the worker may hold the job before it is reclaimable
+ * @param types Only claim these job types (all types if omitted)
+ * @returns Claimed job or null if none are due
+ */
+export async function claimJob(
+  workerId: string,
+  leaseMs: number,
+  types?: JobType[],
+): Promise<JobRecord | null> {
+  const rows = await query<JobRecord>(
+    `UPDATE jobs
+     SET status = 'running',
+         attempts = attempts + 1,
+         locked_by = $1,
+         locked_until = NOW() + make_interval(secs => $2::float8 / 1000)
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE (
+           (status IN ('pending', 'failed') AND run_at <= NOW())
+           OR (status = 'running' AND locked_until < NOW()
+               AND attempts < max_attempts)
+         )
+         AND ($3::text[] IS NULL OR type = ANY($3::text[]))
+       ORDER BY priority DESC, run_at ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [workerId, leaseMs, types && types.length > 0 ? types : null],
+  );
+
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * Extend a running job's lease
+ *
+ * @param jobId Job ID
+ * @param workerId Worker holding the lease
+ * @param leaseMs New lease length from now
+ * @returns False if the worker no longer holds the job
+ */
+export async function extendJobLease(
+  jobId: string,
+  workerId: string,
+  leaseMs: number,
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `UPDATE jobs
+     SET locked_until = NOW() + make_interval(secs => $3::float8 / 1000)
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'
+     RETURNING id`,
+    [jobId, workerId, leaseMs],
+  );
+
+  return rows.length > 0;
+}
+
+/**
+ * Mark a job as completed
+ *
+ * Ignored if the worker's lease expired and another worker took the job over.
+ *
+ * @param jobId Job ID
+ * @param workerId Worker holding the lease
+ */
+export async function completeJob(
+  jobId: string,
+  workerId: string,
+): Promise<void> {
+  await query(
+    `UPDATE jobs
+     SET status = 'completed', completed_at = NOW(), last_error = NULL,
+         locked_by = NULL, locked_until = NULL
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+    [jobId, workerId],
+  );
+}
+
+/**
+ * Record a failed attempt
+ *
+ * Schedules a retry with backoff, or marks the job dead once it has used all
+ * its attempts. A retry that would duplicate a job queued meanwhile with the
+ * same dedupe key is dropped in favour of the newer job.
+ *
+ * @param job Claimed job (attempts includes the failed attempt)
+ * @param workerId Worker holding the lease
+ * @param errorMessage Error from the handler
+ * @returns New status, or null if the worker no longer held the job
+ */
+export async function failJob(
+  job: JobRecord,
+  workerId: string,
+  errorMessage: string,
+): Promise<JobStatus | null> {
+  const retryAt = new Date(Date.now() + getBackoffDelay(job.attempts));
+
+  const rows = await query<{ status: JobStatus }>(
+    `WITH duplicate AS (
+       SELECT 1 FROM jobs
+       WHERE type = $4 AND dedupe_key = $5 AND id <> $1
+         AND status IN ('pending', 'failed')
+     )
+     UPDATE jobs
+     SET status = CASE
+           WHEN attempts >= max_attempts OR EXISTS (SELECT 1 FROM duplicate)
+             THEN 'dead'::job_status
+           ELSE 'failed'::job_status
+         END,
+         last_error = CASE
+           WHEN attempts < max_attempts AND EXISTS (SELECT 1 FROM duplicate)
+             THEN $3 || ' (superseded by a newer queued job)'
+           ELSE $3
+         END,
+         run_at = $6,
+         locked_by = NULL,
+         locked_until = NULL
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'
+     RETURNING status`,
+    [job.id, workerId, errorMessage, job.type, job.dedupe_key, retryAt],
+  );
+
+  return rows.length > 0 ? rows[0].status : null;
+}
+
+/**
+ * Mark jobs dead whose lease expired on their final attempt
+ *
+ * These would otherwise sit in 'running' forever, since claimJob won't take
+ * a job that has no attempts left.
+ *
+ * @returns Number of jobs marked dead
+ */
+export async function reapExpiredJobs(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `UPDATE jobs
+     SET status = 'dead',
+         last_error = 'Lease expired on final attempt (worker stopped or timed out)',
+         locked_by = NULL,
+         locked_until = NULL
+     WHERE status = 'running'
+       AND locked_until < NOW()
+       AND attempts >= max_attempts
+     RETURNING id`,
+  );
+
+  return rows.length;
+}
+
+/**
+ * Get a job by ID
+ *
+ * @param jobId Job ID
+ * @returns Job or null if not found
+ */
+export async function getJobById(jobId: string): Promise<JobRecord | null> {
+  const rows = await query<JobRecord>("SELECT * FROM jobs WHERE id = $1", [
+    jobId,
+  ]);
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * List jobs for inspection, most recently updated first
+ *
+ * @param filters Optional status and type filters
+ * @param limit Maximum number of jobs
+ * @param offset Number of jobs to skip
+ * @returns Jobs matching the filters
+ */
+export async function listJobs(
+  filters: { status?: JobStatus; type?: string } = {},
+  limit = 50,
+  offset = 0,
+): Promise<JobRecord[]> {
+  return await query<JobRecord>(
+    `SELECT * FROM jobs
+     WHERE ($1::job_status IS NULL OR status = $1::job_status)
+       AND ($2::text IS NULL OR type = $2)
+     ORDER BY updated_at DESC
+     LIMIT $3 OFFSET $4`,
+    [filters.status ?? null, filters.type ?? null, limit, offset],
+  );
+}
+
+/**
+ * Count jobs by type and status
+ *
+ * @returns One row per type/status pair that has jobs
+ */
+export async function getJobCounts(): Promise<
+  { type: string; status: JobStatus; count: number }[]
+> {
+  const rows = await query<{ type: string; status: JobStatus; count: bigint }>(
+    `SELECT type, status, COUNT(*) AS count
+     FROM jobs
+     GROUP BY type, status
+     ORDER BY type, status`,
+  );
+
+  return rows.map((row) => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * Requeue a failed or dead job to run immediately with a fresh set of attempts
+ *
+ * Jobs with a duplicate already waiting to run are left alone.
+ *
+ * @param jobId Job ID
+ * @returns Requeued job, or null if the job isn't failed/dead or has a duplicate
+ */
+export async function retryJob(jobId: string): Promise<JobRecord | null> {
+  const rows = await query<JobRecord>(
+    `UPDATE jobs j
+     SET status = 'pending', attempts = 0, run_at = NOW(),
+         locked_by = NULL, locked_until = NULL
+     WHERE j.id = $1
+       AND j.status IN ('failed', 'dead')
+       AND NOT EXISTS (
+         SELECT 1 FROM jobs other
+         WHERE other.type = j.type
+           AND other.dedupe_key = j.dedupe_key
+           AND other.id <> j.id
+           AND other.status IN ('pending', 'failed')
+       )
+     RETURNING j.*`,
+    [jobId],
+  );
+
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * Delete old finished jobs
+ *
+ * @param completedDays Keep completed jobs for this many days
+ * @param deadDays Keep dead jobs for this many days
+ * @returns Number of jobs deleted
+ */
+export async function pruneJobs(
+  completedDays = 7,
+  deadDays = 30,
+): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `DELETE FROM jobs
+     WHERE (status = 'completed'
+            AND completed_at < NOW() - make_interval(days => $1))
+        OR (status = 'dead'
+            AND updated_at < NOW() - make_interval(days => $2))
+     RETURNING id`,
+    [completedDays, deadDays],
+  );
+
+  return rows.length;
+}
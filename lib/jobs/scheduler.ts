@@ -0,0 +1,122 @@
+/**
+ * Recurring job scheduler
+ *
+ * Schedules are declared in code (JOB_SCHEDULES) and mirrored into the
+ * job_schedules table, which records when each one next fires. Any worker can
+ * enqueue due schedules: rows are locked with SKIP LOCKED and next_run_at is
+ * advanced in the same transaction, so each run is enqueued exactly once no
+ * matter how many workers are polling.
+ */
+
+import { query, transaction } from "../db.ts";
+import { nextCronRun } from "./cron.ts";
+import { JOB_SCHEDULES, type ScheduledJob } from "./handlers.ts";
+import { enqueueJob, type JobPayloads, type JobType } from "./queue.ts";
+
+/**
+ * Job schedule record from database
+ */
+export interface JobScheduleRecord {
+  name: string;
+  job_type: JobType;
+  cron: string;
+  payload: JobPayloads[JobType];
+  enabled: boolean;
+  next_run_at: Date;
+  last_run_at: Date | null;
+}
+
+// Schedules only need mirroring once per process
+let schedulesSynced = false;
+
+/**
+ * Mirror schedule definitions into the job_schedules table
+ *
+ * New schedules are added, changed ones updated (next_run_at is recalculated
+ * only when the cron expression changes) and removed ones deleted. The
+ * enabled flag is left alone so a schedule can be paused in the database.
+ *
+ * @param schedules Schedule definitions
+ */
+export async function syncJobSchedules(
+  schedules: ScheduledJob[] = JOB_SCHEDULES,
+): Promise<void> {
+  await transaction(async (client) => {
+    for (const schedule of schedules) {
+      await client.queryObject(
+        `INSERT INTO job_schedules (name, job_type, cron, payload, next_run_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (name) DO UPDATE SET
+           job_type = EXCLUDED.job_type,
+           payload = EXCLUDED.payload,
+           cron = EXCLUDED.cron,
+           next_run_at = CASE
+             WHEN job_schedules.cron <> EXCLUDED.cron THEN EXCLUDED.next_run_at
+             ELSE job_schedules.next_run_at
+           END`,
+        [
+          schedule.name,
+          schedule.type,
+          schedule.cron,
+          JSON.stringify(schedule.payload),
+          nextCronRun(schedule.cron),
+        ],
+      );
+    }
+
+    await client.queryObject(
+      "DELETE FROM job_schedules WHERE NOT (name = ANY($1::text[]))",
+      [schedules.map((schedule) => schedule.name)],
+    );
+  });
+}
+
+/**
+ * Enqueue a job for every schedule that is due
+ *
+ * A schedule that fires while its previous job is still waiting to run
+ * doesn't queue a second copy.
+ *
+ * @returns Number of schedules that fired
+ */
+export async function enqueueDueSchedules(): Promise<number> {
+  if (!schedulesSynced) {
+    await syncJobSchedules();
+    schedulesSynced = true;
+  }
+
+  return await transaction(async (client) => {
+    const due = await client.queryObject<JobScheduleRecord>(
+      `SELECT * FROM job_schedules
+       WHERE enabled = true AND next_run_at <= NOW()
+       FOR UPDATE SKIP LOCKED`,
+    );
+
+    const now = new Date();
+    for (const schedule of due.rows) {
+      await enqueueJob(schedule.job_type, schedule.payload, {
+        dedupeKey: `schedule:${schedule.name}`,
+        client,
+      });
+      await client.queryObject(
+        `UPDATE job_schedules
+         SET next_run_at = $1, last_run_at = NOW()
+         WHERE name = $2`,
+        [nextCronRun(schedule.cron, now), schedule.name],
+      );
+    }
+
+    return due.rows.length;
+  });
+}
+
+/**
+ * Get all job schedules
+ *
+ * @returns Schedules ordered by name
+ */
+export async function getJobSchedules(): Promise<JobScheduleRecord[]> {
+  return await query<JobScheduleRecord>(
+    "SELECT * FROM job_schedules ORDER BY name",
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Background job worker
+ *
+ * runJobs() does one pass: enqueue due schedules, reap expired leases, then
+ * claim and run jobs until the queue is empty or maxJobs is reached. It backs
+ * both the cron-triggered /api/jobs/run endpoint and the long-running
+ * `deno task jobs:work` process, which simply calls it in a loop.
+ */
+
+import { logError, logInfo } from "../logging/logger.ts";
+import {
+  JOB_HANDLERS,
+  type JobDefinition,
+  type JobHandlers,
+} from "./handlers.ts";
+import {
+  claimJob,
+  completeJob,
+  extendJobLease,
+  failJob,
+  type JobRecord,
+  type JobStatus,
+  type JobType,
+  reapExpiredJobs,
+} from "./queue.ts";
+import { enqueueDueSchedules } from "./scheduler.ts";
+
+// Workers renew their lease at half this interval while a job runs, so only
+// a worker that has died or hung loses its jobs
+export const DEFAULT_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Options for a worker pass
+ */
+export interface RunJobsOptions {
+  /** Maximum number of jobs to run (default 20) */
+  maxJobs?: number;
+  /** Only run these job types (all types if omitted) */
+  types?: JobType[];
+  /** Identifier recorded in locked_by (random if omitted) */
+  workerId?: string;
+  /** Lease length for claimed jobs */
+  leaseMs?: number;
+  /** Handler map (defaults to JOB_HANDLERS) */
+  handlers?: JobHandlers;
+}
+
+/**
+ * Outcome of a worker pass
+ */
+export interface RunJobsResult {
+  /** Schedules that fired */
+  scheduled: number;
+  /** Jobs marked dead because their lease expired on the final attempt */
+  reaped: number;
+  processed: number;
+  completed: number;
+  /** Failed jobs that will be retried */
+  retrying: number;
+  /** Failed jobs that used up their attempts */
+  dead: number;
+  duration: number;
+}
+
+/**
+ * Generate a worker identifier
+ */
+export function generateWorkerId(): string {
+  return `worker-${Deno.pid}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Run a single claimed job, renewing its lease until it finishes
+ *
+ * @returns Resulting job status, or null if the worker lost the lease
+ */
+async function runJob(
+  job: JobRecord,
+  workerId: string,
+  leaseMs: number,
+  definition: JobDefinition<JobType> | undefined,
+): Promise<JobStatus | null> {
+  if (!definition) {
+    // Leave it to retry: a newer deployment may know this type
+    return await failJob(job, workerId, `No handler for job type ${job.type}`);
+  }
+
+  const heartbeat = setInterval(() => {
+    extendJobLease(job.id, workerId, leaseMs).catch((error) => {
+      logError("Failed to extend job lease", undefined, error, {
+        jobId: job.id,
+      });
+    });
+  }, leaseMs / 2);
+
+  try {
+    await definition.run(job.payload, job);
+    await completeJob(job.id, workerId);
+    return "completed";
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await logError("Job failed", undefined, error, {
+      jobId: job.id,
+      type: job.type,
+      attempt: job.attempts,
+    });
+    return await failJob(job, workerId, errorMessage);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Run due jobs
+ *
+ * @param options Worker options
+ * @returns Counts of what happened
+ */
+export async function runJobs(
+  options: RunJobsOptions = {},
+): Promise<RunJobsResult> {
+  const startTime = Date.now();
+  const maxJobs = options.maxJobs ?? 20;
+  const workerId = options.workerId ?? generateWorkerId();
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const handlers = options.handlers ?? JOB_HANDLERS;
+
+  const result: RunJobsResult = {
+    scheduled: await enqueueDueSchedules(),
+    reaped: await reapExpiredJobs(),
+    processed: 0,
+    completed: 0,
+    retrying: 0,
+    dead: 0,
+    duration: 0,
+  };
+
+  while (result.processed < maxJobs) {
+    const job = await claimJob(workerId, leaseMs, options.types);
+    if (!job) {
+      break;
+    }
+
+    const definition = handlers[job.type] as
+      | JobDefinition<JobType>
+      | undefined;
+    const status = await runJob(job, workerId, leaseMs, definition);
+
+    result.processed++;
+    if (status === "completed") {
+      result.completed++;
+    } else if (status === "failed") {
+      result.retrying++;
+    } else if (status === "dead") {
+      result.dead++;
+    }
+
+    if (definition?.delayMs && result.processed < maxJobs) {
+      await new Promise((resolve) => setTimeout(resolve, definition.delayMs));
+    }
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
+
+/**
+ * Run jobs continuously until aborted
+ *
+ * Polls every idleMs while the queue is empty and keeps going without a
+ * pause while there is work.
+ *
+ * @param options Worker options, plus the idle poll interval and abort signal
+ */
+export async function runWorker(
+  options: RunJobsOptions & { idleMs?: number; signal?: AbortSignal } = {},
+): Promise<void> {
+  const idleMs = options.idleMs ?? 5000;
+  const workerId = options.workerId ?? generateWorkerId();
+
+  while (!options.signal?.aborted) {
+    let processed = 0;
+    try {
+      const result = await runJobs({ ...options, workerId });
+      processed = result.processed;
+      if (processed > 0 || result.scheduled > 0 || result.reaped > 0) {
+        await logInfo("Worker pass finished", undefined, {
+          workerId,
+          ...result,
+        });
+      }
+    } catch (error) {
+      await logError("Worker pass failed", undefined, error, { workerId });
+    }
+
+    if (processed === 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, idleMs);
+        options.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve();
+        }, { once: true });
+      });
+    }
+  }
+}
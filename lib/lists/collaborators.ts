@@ -0,0 +1,304 @@
+/**
+ * List collaborators and invites
+ *
+ * Owners share a list by creating an invite. Email invites are addressed to
+ * one person and can be accepted once, by the account with that email. Link
+ * invites have no email and can be accepted by anyone holding the link until
+ * they expire or the owner revokes them.
+ */
+
+import { query, transaction } from "../db.ts";
+import type { CollaboratorRole } from "./permissions.ts";
+
+/**
+ * How long an invite stays valid
+ */
+export const INVITE_EXPIRY_DAYS = 7;
+
+/**
+ * A collaborator on a list
+ */
+export interface ListCollaborator {
+  user_id: string;
+  display_name: string | null;
+  email: string;
+  role: CollaboratorRole;
+  created_at: Date;
+}
+
+/**
+ * A pending invite to a list
+ */
+export interface ListInvite {
+  id: string;
+  token: string;
+  email: string | null;
+  role: CollaboratorRole;
+  expires_at: Date;
+  created_at: Date;
+}
+
+/**
+ * Invite details shown on the accept page
+ */
+export interface InviteDetails {
+  list_id: string;
+  list_name: string;
+  owner_id: string;
+  owner_name: string | null;
+  email: string | null;
+  role: CollaboratorRole;
+}
+
+/**
+ * Result of accepting an invite
+ */
+export type AcceptInviteResult =
+  | { status: "accepted"; listId: string; role: CollaboratorRole }
+  | { status: "invalid" }
+  | { status: "wrong_email" }
+  | { status: "owner"; listId: string };
+
+/**
+ * Generate a cryptographically secure invite token
+ *
+ * @returns Random token string (32 bytes, base64 encoded, URL-safe)
+ */
+export function generateInviteToken(): string {
+  const randomBytes = new Uint8Array(32);
+  crypto.getRandomValues(randomBytes);
+  return btoa(String.fromCharCode(...randomBytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=/g, "");
+}
+
+/**
+ * Get the collaborators on a list, excluding the owner
+ *
+ * @param listId List ID
+ * @returns Collaborators, oldest first
+ */
+export async function getCollaborators(
+  listId: string,
+): Promise<ListCollaborator[]> {
+  return await query<ListCollaborator>(
+    `SELECT lc.user_id, u.display_name, u.email, lc.role, lc.created_at
+     FROM list_collaborators lc
+     INNER JOIN users u ON lc.user_id = u.id
+     WHERE lc.list_id = $1
+     ORDER BY lc.created_at ASC`,
+    [listId],
+  );
+}
+
+/**
+ * Change a collaborator's role
+ *
+ * @param listId List ID
+ * @param userId Collaborator's user ID
+ * @param role New role
+ * @returns true if the user was a collaborator
+ */
+export async function setCollaboratorRole(
+  listId: string,
+  userId: string,
+  role: CollaboratorRole,
+): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    `UPDATE list_collaborators SET role = $3
+     WHERE list_id = $1 AND user_id = $2
+     RETURNING id`,
+    [listId, userId, role],
+  );
+  return result.length > 0;
+}
+
+/**
+ * Remove a collaborator from a list
+ *
+ * Items they added stay in the list.
+ *
+ * @param listId List ID
+ * @param userId Collaborator's user ID
+ * @returns true if the user was a collaborator
+ */
+export async function removeCollaborator(
+  listId: string,
+  userId: string,
+): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    `DELETE FROM list_collaborators
+     WHERE list_id = $1 AND user_id = $2
+     RETURNING id`,
+    [listId, userId],
+  );
+  return result.length > 0;
+}
+
+/**
+ * Create an invite to a list
+ *
+ * @param listId List ID
+ * @param invitedBy User creating the invite
+ * @param role Role granted on acceptance
+ * @param email Invitee's email for an email invite, or null for a link invite
+ * @returns The new invite
+ */
+export async function createInvite(
+  listId: string,
+  invitedBy: string,
+  role: CollaboratorRole,
+  email: string | null,
+): Promise<ListInvite> {
+  const token = generateInviteToken();
+  const expiresAt = new Date(
+    Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const result = await query<ListInvite>(
+    `INSERT INTO list_invites (list_id, token, email, role, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, token, email, role, expires_at, created_at`,
+    [listId, token, email, role, invitedBy, expiresAt.toISOString()],
+  );
+  return result[0];
+}
+
+/**
+ * Get the invites on a list that can still be accepted
+ *
+ * @param listId List ID
+ * @returns Pending invites, newest first
+ */
+export async function getPendingInvites(
+  listId: string,
+): Promise<ListInvite[]> {
+  return await query<ListInvite>(
+    `SELECT id, token, email, role, expires_at, created_at
+     FROM list_invites
+     WHERE list_id = $1
+       AND accepted_at IS NULL
+       AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY created_at DESC`,
+    [listId],
+  );
+}
+
+/**
+ * Revoke an invite
+ *
+ * @param listId List ID
+ * @param inviteId Invite ID
+ * @returns true if the invite existed
+ */
+export async function revokeInvite(
+  listId: string,
+  inviteId: string,
+): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    "DELETE FROM list_invites WHERE id = $1 AND list_id = $2 RETURNING id",
+    [inviteId, listId],
+  );
+  return result.length > 0;
+}
+
+/**
+ * Look up a pending invite by token
+ *
+ * @param token Invite token
+ * @returns Invite details, or null if the invite is invalid, used or expired
+ */
+export async function getInviteByToken(
+  token: string,
+): Promise<InviteDetails | null> {
+  const result = await query<InviteDetails>(
+    `SELECT l.id AS list_id, l.name AS list_name, l.user_id AS owner_id,
+       u.display_name AS owner_name, i.email, i.role
+     FROM list_invites i
+     INNER JOIN lists l ON i.list_id = l.id
+     INNER JOIN users u ON l.user_id = u.id
+     WHERE i.token = $1
+       AND i.accepted_at IS NULL
+       AND i.expires_at > CURRENT_TIMESTAMP`,
+    [token],
+  );
+  return result[0] ?? null;
+}
+
+/**
+ * Accept an invite on behalf of a user
+ *
+ * Accepting never downgrades an existing collaborator: someone who is already
+ * an editor stays an editor if they open a viewer link.
+ *
+ * @param token Invite token
+ * @param userId User accepting the invite
+ * @returns Outcome of the acceptance
+ */
+export async function acceptInvite(
+  token: string,
+  userId: string,
+): Promise<AcceptInviteResult> {
+  return await transaction<AcceptInviteResult>(async (client) => {
+    const inviteResult = await client.queryObject<{
+      id: string;
+      list_id: string;
+      owner_id: string;
+      email: string | null;
+      role: CollaboratorRole;
+    }>(
+      `SELECT i.id, i.list_id, l.user_id AS owner_id, i.email, i.role
+       FROM list_invites i
+       INNER JOIN lists l ON i.list_id = l.id
+       WHERE i.token = $1
+         AND i.accepted_at IS NULL
+         AND i.expires_at > CURRENT_TIMESTAMP
+       FOR UPDATE OF i`,
+      [token],
+    );
+
+    if (inviteResult.rows.length === 0) {
+      return { status: "invalid" };
+    }
+
+    const invite = inviteResult.rows[0];
+    if (invite.owner_id === userId) {
+      return { status: "owner", listId: invite.list_id };
+    }
+
+    if (invite.email) {
+      const userResult = await client.queryObject<{ email: string }>(
+        "SELECT email FROM users WHERE id = $1",
+        [userId],
+      );
+      const email = userResult.rows[0]?.email;
+      if (!email || email.toLowerCase() !== invite.email.toLowerCase()) {
+        return { status: "wrong_email" };
+      }
+
+      // Email invites are single-use
+      await client.queryObject(
+        "UPDATE list_invites SET accepted_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [invite.id],
+      );
+    }
+
+    const collaborator = await client.queryObject<{ role: CollaboratorRole }>(
+      `INSERT INTO list_collaborators (list_id, user_id, role, invited_by)
+       SELECT $1, $2, $3, invited_by FROM list_invites WHERE id = $4
+       ON CONFLICT (list_id, user_id) DO UPDATE SET role = CASE
+         WHEN list_collaborators.role = 'editor' THEN list_collaborators.role
+         ELSE EXCLUDED.role
+       END
+       RETURNING role`,
+      [invite.list_id, userId, invite.role, invite.id],
+    );
+
+    return {
+      status: "accepted",
+      listId: invite.list_id,
+      role: collaborator.rows[0].role,
+    };
+  });
+}
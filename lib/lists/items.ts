@@ -0,0 +1,52 @@
+/**
+ * List item queries
+ *
+ * Shared by the list page and the list items API so both return the same
+ * item shape, including who added each item.
+ */
+
+import { type PoolClient, query } from "../db.ts";
+
+/**
+ * An item in a custom list
+ */
+export interface ListItemDetails {
+  tmdb_id: number;
+  type: "movie" | "tv" | "documentary";
+  title: string;
+  poster_path: string | null;
+  release_date: string | null;
+  position: number;
+  /** Display name of the user who added the item, if known */
+  added_by_name: string | null;
+}
+
+/**
+ * Fetch the items in a list in display order
+ *
+ * @param listId List ID
+ * @param client Optional transaction client
+ * @returns Items ordered by position
+ */
+export async function getListItems(
+  listId: string,
+  client?: PoolClient,
+): Promise<ListItemDetails[]> {
+  const sql = `SELECT
+      c.tmdb_id,
+      c.type,
+      c.title,
+      c.poster_path,
+      c.release_date,
+      li.position,
+      u.display_name AS added_by_name
+    FROM list_items li
+    INNER JOIN content c ON li.content_id = c.id
+    LEFT JOIN users u ON li.added_by = u.id
+    WHERE li.list_id = $1
+    ORDER BY li.position ASC, li.created_at ASC`;
+
+  return client
+    ? (await client.queryObject<ListItemDetails>(sql, [listId])).rows
+    : await query<ListItemDetails>(sql, [listId]);
+}
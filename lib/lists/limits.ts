@@ -0,0 +1,40 @@
+/**
+ * Custom list limits
+ *
+ * Free accounts can have a limited number of custom lists; premium accounts
+ * have no limit (see lib/auth/entitlements.ts).
+ */
+
+import { getEntitlements, PLAN_ENTITLEMENTS } from "../auth/entitlements.ts";
+import { query } from "../db.ts";
+
+/**
+ * Custom lists a free account can own
+ */
+export const FREE_TIER_LIST_LIMIT = PLAN_ENTITLEMENTS.free.maxCustomLists;
+
+/**
+ * Message shown when a free account hits the list limit
+ */
+export const LIST_LIMIT_MESSAGE =
+  `You've reached the limit of ${FREE_TIER_LIST_LIMIT} custom lists for free accounts. Upgrade to Premium for unlimited lists.`;
+
+/**
+ * Check whether a user can't create any more custom lists
+ *
+ * @param userId User ID
+ * @returns true if the user's plan has a limit and they're at it
+ */
+export async function hasReachedListLimit(userId: string): Promise<boolean> {
+  const { maxCustomLists } = await getEntitlements(userId);
+  if (maxCustomLists === null) {
+    return false;
+  }
+
+  const result = await query<{ count: number }>(
+    `SELECT COUNT(*)::INTEGER as count FROM lists WHERE user_id = $1`,
+    [userId],
+  );
+
+  return (result[0]?.count || 0) >= maxCustomLists;
+}
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for list ordering helpers
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { applyPositionUpdates, moveItem, rebaseMove } from "./ordering.ts";
+
+Deno.test("applyPositionUpdates should order items by requested position", () => {
+  const order = applyPositionUpdates([1, 2, 3], [
+    { tmdb_id: 1, position: 2 },
+    { tmdb_id: 2, position: 0 },
+    { tmdb_id: 3, position: 1 },
+  ]);
+
+  assertEquals(order, [2, 3, 1]);
+});
+
+Deno.test("applyPositionUpdates should keep items missing from the request after the requested ones", () => {
+  // Item 4 was added by another collaborator after the client loaded the list
+  const order = applyPositionUpdates([1, 2, 3, 4], [
+    { tmdb_id: 3, position: 0 },
+    { tmdb_id: 1, position: 1 },
+    { tmdb_id: 2, position: 2 },
+  ]);
+
+  assertEquals(order, [3, 1, 2, 4]);
+});
+
+Deno.test("applyPositionUpdates should ignore items no longer in the list", () => {
+  const order = applyPositionUpdates([1, 3], [
+    { tmdb_id: 3, position: 0 },
+    { tmdb_id: 2, position: 1 },
+    { tmdb_id: 1, position: 2 },
+  ]);
+
+  assertEquals(order, [3, 1]);
+});
+
+Deno.test("applyPositionUpdates should break position ties by current order", () => {
+  const order = applyPositionUpdates([1, 2, 3], [
+    { tmdb_id: 3, position: 0 },
+    { tmdb_id: 2, position: 0 },
+  ]);
+
+  assertEquals(order, [2, 3, 1]);
+});
+
+Deno.test("moveItem should move an item to the drop index", () => {
+  assertEquals(moveItem([1, 2, 3, 4], 1, 2), [2, 3, 1, 4]);
+  assertEquals(moveItem([1, 2, 3, 4], 4, 0), [4, 1, 2, 3]);
+  assertEquals(moveItem([1, 2, 3], 9, 0), [1, 2, 3]);
+});
+
+Deno.test("rebaseMove should place the item after its intended neighbour", () => {
+  // User moved 1 after 3; meanwhile someone added 5 and moved 4 to the top
+  const intended = [2, 3, 1, 4];
+  const latest = [4, 1, 2, 3, 5];
+
+  assertEquals(rebaseMove(intended, latest, 1), [4, 2, 3, 1, 5]);
+});
+
+Deno.test("rebaseMove should fall back to an earlier neighbour if one was removed", () => {
+  // User moved 1 after 3, but 3 has since been removed
+  const intended = [2, 3, 1, 4];
+  const latest = [1, 2, 4];
+
+  assertEquals(rebaseMove(intended, latest, 1), [2, 1, 4]);
+});
+
+Deno.test("rebaseMove should move the item to the top when that was the intent", () => {
+  assertEquals(rebaseMove([3, 1, 2], [1, 2, 3, 4], 3), [3, 1, 2, 4]);
+});
+
+Deno.test("rebaseMove should leave the latest order alone if the item was removed", () => {
+  assertEquals(rebaseMove([2, 1], [2, 3], 1), [2, 3]);
+});
@@ -0,0 +1,110 @@
+/**
+ * List ordering helpers
+ *
+ * Pure functions shared by the reorder endpoint and ReorderableList. Lists can
+ * be edited by several collaborators at once, so a reorder request may be
+ * built from a stale copy of the list: these helpers turn a request into a
+ * complete, gap-free ordering of the items that actually exist, and let the
+ * client replay a move onto a fresher copy.
+ */
+
+/**
+ * Requested position for a single item
+ */
+export interface PositionUpdate {
+  tmdb_id: number;
+  position: number;
+}
+
+/**
+ * Build the new order for a list from a reorder request
+ *
+ * Items in the request are sorted by their requested position (ties keep
+ * their current relative order). Items the request doesn't mention, such as
+ * ones another collaborator added meanwhile, keep their current relative
+ * order after the requested ones. Requested items that are no longer in the
+ * list are ignored.
+ *
+ * @param currentIds TMDB IDs in their current order
+ * @param updates Requested positions
+ * @returns TMDB IDs in their new order; index is the new position
+ */
+export function applyPositionUpdates(
+  currentIds: number[],
+  updates: PositionUpdate[],
+): number[] {
+  const currentIndex = new Map(currentIds.map((id, index) => [id, index]));
+  const requested = new Map<number, number>();
+  for (const update of updates) {
+    if (currentIndex.has(update.tmdb_id)) {
+      requested.set(update.tmdb_id, update.position);
+    }
+  }
+
+  const moved = Array.from(requested.keys()).sort((a, b) =>
+    requested.get(a)! - requested.get(b)! ||
+    currentIndex.get(a)! - currentIndex.get(b)!
+  );
+  const rest = currentIds.filter((id) => !requested.has(id));
+
+  return [...moved, ...rest];
+}
+
+/**
+ * Move one item so it sits where it was dropped
+ *
+ * @param ids TMDB IDs in their current order
+ * @param movedId Item being moved
+ * @param toIndex Index the item should end up at
+ * @returns New order, or the original order if the item isn't in the list
+ */
+export function moveItem(
+  ids: number[],
+  movedId: number,
+  toIndex: number,
+): number[] {
+  const fromIndex = ids.indexOf(movedId);
+  if (fromIndex === -1) {
+    return ids;
+  }
+
+  const next = ids.filter((id) => id !== movedId);
+  const index = Math.max(0, Math.min(toIndex, next.length));
+  next.splice(index, 0, movedId);
+  return next;
+}
+
+/**
+ * Replay a move made on a stale copy of a list onto the latest order
+ *
+ * The moved item is placed directly after the item that preceded it in the
+ * intended order, or first if it was moved to the top. If that neighbour has
+ * since been removed, the next earlier surviving neighbour is used.
+ *
+ * @param intendedIds Order the user produced, based on a stale copy
+ * @param latestIds Latest order from the server
+ * @param movedId Item the user moved
+ * @returns Latest order with the move applied, or the latest order unchanged
+ *   if the moved item has been removed
+ */
+export function rebaseMove(
+  intendedIds: number[],
+  latestIds: number[],
+  movedId: number,
+): number[] {
+  if (!latestIds.includes(movedId)) {
+    return latestIds;
+  }
+
+  const without = latestIds.filter((id) => id !== movedId);
+  const intendedIndex = intendedIds.indexOf(movedId);
+
+  for (let i = intendedIndex - 1; i >= 0; i--) {
+    const anchorIndex = without.indexOf(intendedIds[i]);
+    if (anchorIndex !== -1) {
+      return moveItem(latestIds, movedId, anchorIndex + 1);
+    }
+  }
+
+  return moveItem(latestIds, movedId, 0);
+}
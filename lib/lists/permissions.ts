@@ -0,0 +1,115 @@
+/**
+ * List access control
+ *
+ * A list has one owner (lists.user_id) and any number of collaborators in
+ * list_collaborators. Viewers can see a private list; editors can also add,
+ * remove and reorder items. Only the owner can change list settings or manage
+ * collaborators and invites.
+ */
+
+import { type PoolClient, query } from "../db.ts";
+
+/**
+ * A user's role on a list
+ */
+export type ListRole = "owner" | "editor" | "viewer";
+
+/**
+ * Roles that can be granted to collaborators
+ */
+export const COLLABORATOR_ROLES = ["viewer", "editor"] as const;
+
+/**
+ * Role that can be granted to a collaborator
+ */
+export type CollaboratorRole = typeof COLLABORATOR_ROLES[number];
+
+/**
+ * List details needed for access checks
+ */
+export interface ListRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  items_version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A list together with the current user's role on it
+ */
+export interface ListAccess {
+  list: ListRecord;
+  /** null if the user has no role (they may still view a public list) */
+  role: ListRole | null;
+}
+
+/**
+ * Check whether a value is a role that can be granted to a collaborator
+ */
+export function isCollaboratorRole(value: unknown): value is CollaboratorRole {
+  return COLLABORATOR_ROLES.includes(value as CollaboratorRole);
+}
+
+/**
+ * Load a list and the user's role on it
+ *
+ * @param listId List ID
+ * @param userId User ID, or null for anonymous visitors
+ * @param client Optional transaction client; when given the list row is
+ *   locked (FOR UPDATE) so concurrent item changes are serialised
+ * @returns List and role, or null if the list doesn't exist
+ */
+export async function getListAccess(
+  listId: string,
+  userId: string | null,
+  client?: PoolClient,
+): Promise<ListAccess | null> {
+  const sql = `SELECT l.id, l.user_id, l.name, l.description, l.is_public,
+       l.items_version, l.created_at, l.updated_at,
+       (SELECT lc.role::text FROM list_collaborators lc
+        WHERE lc.list_id = l.id AND lc.user_id = $2) AS collaborator_role
+     FROM lists l
+     WHERE l.id = $1${client ? " FOR UPDATE OF l" : ""}`;
+  const params = [listId, userId];
+
+  const rows = client
+    ? (await client.queryObject<
+      ListRecord & { collaborator_role: CollaboratorRole | null }
+    >(sql, params)).rows
+    : await query<ListRecord & { collaborator_role: CollaboratorRole | null }>(
+      sql,
+      params,
+    );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const { collaborator_role, ...list } = rows[0];
+  let role: ListRole | null = null;
+  if (userId && list.user_id === userId) {
+    role = "owner";
+  } else if (userId && collaborator_role) {
+    role = collaborator_role;
+  }
+
+  return { list, role };
+}
+
+/**
+ * Check whether a user can view a list
+ */
+export function canViewList(access: ListAccess): boolean {
+  return access.list.is_public || access.role !== null;
+}
+
+/**
+ * Check whether a user can add, remove and reorder items in a list
+ */
+export function canEditList(access: ListAccess): boolean {
+  return access.role === "owner" || access.role === "editor";
+}
@@ -7,6 +7,7 @@
 
 import { getClientIp } from "../security/rate-limit.ts";
 import { getSessionFromRequest } from "../auth/middleware.ts";
+import type { SessionPayload } from "../auth/jwt.ts";
 
 /**
  * Log levels
@@ -22,6 +23,8 @@ export enum LogLevel {
  * Request context extracted from HTTP request
  */
 export interface RequestContext {
+  /** Set by the root middleware; also sent back in X-Request-ID */
+  requestId?: string;
   method: string;
   url: string;
   pathname: string;
@@ -47,6 +50,25 @@ export interface LogEntry {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Request IDs assigned by the root middleware
+ */
+const requestIds = new WeakMap<Request, string>();
+
+/**
+ * Tag a request with an ID so every log line about it can be correlated
+ */
+export function setRequestId(req: Request, requestId: string): void {
+  requestIds.set(req, requestId);
+}
+
+/**
+ * Get the ID the root middleware gave a request, if any
+ */
+export function getRequestId(req: Request): string | undefined {
+  return requestIds.get(req);
+}
+
 /**
  * Extract request context from a Request object
  */
@@ -71,6 +93,7 @@ export async function extractRequestContext(
   }
 
   return {
+    requestId: requestIds.get(req),
     method: req.method,
     url: req.url,
     pathname: url.pathname,
@@ -247,3 +270,33 @@ export async function logRouteError(
   const errorMessage = message || "Route handler error";
   await logError(errorMessage, req, error, metadata);
 }
+
+/**
+ * Write an access log line for a finished request
+ *
+ * Takes the session the middleware already resolved rather than verifying
+ * the token again.
+ */
+export function logAccess(
+  req: Request,
+  status: number,
+  durationMs: number,
+  session: SessionPayload | null,
+): void {
+  const url = new URL(req.url);
+  writeLog({
+    timestamp: new Date().toISOString(),
+    level: status >= 500 ? LogLevel.ERROR : LogLevel.INFO,
+    message: `${req.method} ${url.pathname} ${status}`,
+    context: {
+      requestId: requestIds.get(req),
+      method: req.method,
+      url: req.url,
+      pathname: url.pathname,
+      ip: getClientIp(req),
+      userAgent: req.headers.get("user-agent") || undefined,
+      userId: session?.userId,
+    },
+    metadata: { status, durationMs: Math.round(durationMs) },
+  });
+}
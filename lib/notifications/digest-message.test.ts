@@ -0,0 +1,141 @@
+/**
+ * Unit tests for weekly digest formatting
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  buildDigestNotification,
+  buildDigestSections,
+  type DigestItem,
+  getWeekStart,
+  isDigestEmpty,
+  renderDigestEmail,
+  type WeeklyDigest,
+} from "./digest-message.ts";
+
+const TODAY = "2024-03-11"; // a Monday
+
+function item(
+  overrides: Partial<DigestItem> & { content_id: string; title: string },
+): DigestItem {
+  return {
+    tmdb_id: 1,
+    poster_path: null,
+    service_name: "Netflix",
+    available_until: null,
+    ...overrides,
+  };
+}
+
+function digest(overrides: Partial<WeeklyDigest> = {}): WeeklyDigest {
+  return {
+    week_of: TODAY,
+    display_name: "Sam",
+    new_arrivals: [],
+    now_available: [],
+    leaving_soon: [],
+    recommendations: [],
+    ...overrides,
+  };
+}
+
+Deno.test("getWeekStart should return the Monday of the week", () => {
+  assertEquals(getWeekStart(new Date("2024-03-11T08:00:00Z")), "2024-03-11");
+  assertEquals(getWeekStart(new Date("2024-03-14T23:59:00Z")), "2024-03-11");
+  assertEquals(getWeekStart(new Date("2024-03-17T12:00:00Z")), "2024-03-11");
+});
+
+Deno.test("isDigestEmpty should be true only when every section is empty", () => {
+  assert(isDigestEmpty(digest()));
+  assert(
+    !isDigestEmpty(digest({
+      recommendations: [
+        item({ content_id: "a", title: "Heat", service_name: null }),
+      ],
+    })),
+  );
+});
+
+Deno.test("buildDigestSections should group services and cap long sections", () => {
+  const sections = buildDigestSections(
+    digest({
+      now_available: [
+        item({ content_id: "a", title: "Alien" }),
+        item({ content_id: "a", title: "Alien", service_name: "Hulu" }),
+      ],
+      new_arrivals: ["a", "b", "c", "d", "e", "f", "g"].map((id) =>
+        item({ content_id: id, title: `Title ${id}` })
+      ),
+    }),
+    TODAY,
+  );
+
+  assertEquals(sections.map((s) => s.key), ["now_available", "new_arrivals"]);
+  assertEquals(sections[0].titles[0].detail, "Netflix, Hulu");
+  assertEquals(sections[1].titles.length, 5);
+  assertEquals(sections[1].more, 2);
+});
+
+Deno.test("buildDigestSections should order leaving-soon titles soonest first", () => {
+  const [section] = buildDigestSections(
+    digest({
+      leaving_soon: [
+        item({
+          content_id: "a",
+          title: "Zodiac",
+          available_until: "2024-03-16",
+        }),
+        item({ content_id: "b", title: "Heat", available_until: "2024-03-12" }),
+      ],
+    }),
+    TODAY,
+  );
+
+  assertEquals(section.titles.map((t) => t.title), ["Heat", "Zodiac"]);
+  assertEquals(section.titles[0].detail, "Netflix, leaving tomorrow");
+});
+
+Deno.test("buildDigestNotification should summarise each section", () => {
+  const payload = buildDigestNotification(digest({
+    now_available: [item({ content_id: "a", title: "Alien" })],
+    leaving_soon: [
+      item({ content_id: "b", title: "Heat", available_until: "2024-03-12" }),
+      item({ content_id: "c", title: "Se7en", available_until: "2024-03-14" }),
+    ],
+    recommendations: [
+      item({ content_id: "d", title: "Zodiac", service_name: null }),
+    ],
+  }));
+
+  assertEquals(
+    payload.body,
+    "1 watchlist title now streaming, 2 leaving soon, a pick based on your taste.",
+  );
+  assertEquals(payload.tag, "weekly-digest-2024-03-11");
+  assertEquals(payload.type, "weekly_digest");
+});
+
+Deno.test("renderDigestEmail should link titles and escape HTML", () => {
+  const email = renderDigestEmail(
+    digest({
+      display_name: "<Sam>",
+      new_arrivals: [
+        item({ content_id: "a", tmdb_id: 550, title: "Tom & Jerry" }),
+      ],
+    }),
+    "https://example.com",
+    TODAY,
+  );
+
+  assertStringIncludes(email.html, "Hi &lt;Sam&gt;,");
+  assertStringIncludes(email.html, "Tom &amp; Jerry");
+  assertStringIncludes(email.html, 'href="https://example.com/content/550"');
+  assertStringIncludes(
+    email.text,
+    "- Tom & Jerry (Netflix): https://example.com/content/550",
+  );
+});
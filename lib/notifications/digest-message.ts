@@ -0,0 +1,351 @@
+/**
+ * Weekly digest formatting
+ *
+ * Pure helpers for turning a user's weekly digest into a push notification
+ * and an HTML/plain-text email.
+ */
+
+import { getPosterUrl } from "../images.ts";
+import { describeDeparture } from "./leaving-soon-message.ts";
+import type { NotificationPayload } from "./push.ts";
+
+/**
+ * A title in one section of the digest
+ *
+ * Titles on several services appear once per service and are grouped when
+ * the digest is rendered.
+ */
+export interface DigestItem {
+  content_id: string;
+  tmdb_id: number;
+  title: string;
+  poster_path: string | null;
+  /** Service the title arrived on or is leaving (null for recommendations) */
+  service_name: string | null;
+  /** Last day on the service (YYYY-MM-DD), for leaving-soon titles */
+  available_until: string | null;
+}
+
+/**
+ * Everything that goes into one user's weekly digest
+ */
+export interface WeeklyDigest {
+  /** Monday of the week the digest is sent (YYYY-MM-DD) */
+  week_of: string;
+  display_name: string | null;
+  /** Titles added to the user's services this week */
+  new_arrivals: DigestItem[];
+  /** Watchlist titles that started streaming in the user's region */
+  now_available: DigestItem[];
+  /** Watchlist titles leaving a service within the next week */
+  leaving_soon: DigestItem[];
+  recommendations: DigestItem[];
+}
+
+/**
+ * A rendered digest section, with titles grouped and capped
+ */
+export interface DigestSection {
+  key: "now_available" | "leaving_soon" | "new_arrivals" | "recommendations";
+  heading: string;
+  titles: {
+    tmdb_id: number;
+    title: string;
+    poster_path: string | null;
+    detail: string | null;
+  }[];
+  /** Titles left out of the section for length */
+  more: number;
+}
+
+/**
+ * A rendered digest email
+ */
+export interface DigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Titles shown per section before "and N more"
+const MAX_SECTION_TITLES = 5;
+
+const SECTION_HEADINGS: Record<DigestSection["key"], string> = {
+  now_available: "Now streaming from your watchlist",
+  leaving_soon: "Leaving soon",
+  new_arrivals: "New on your services",
+  recommendations: "Picked for you",
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the Monday of the week containing a date (UTC)
+ *
+ * @param date Any date
+ * @returns Monday of that week (YYYY-MM-DD)
+ */
+export function getWeekStart(date: Date): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - daysSinceMonday * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Check whether a digest has nothing worth sending
+ */
+export function isDigestEmpty(digest: WeeklyDigest): boolean {
+  return digest.new_arrivals.length === 0 &&
+    digest.now_available.length === 0 &&
+    digest.leaving_soon.length === 0 &&
+    digest.recommendations.length === 0;
+}
+
+/**
+ * Group a section's items by title, listing each title's services once
+ *
+ * Leaving-soon titles keep their earliest departure and are sorted soonest
+ * first; other sections keep the order they were queried in.
+ */
+function groupSection(
+  key: DigestSection["key"],
+  items: DigestItem[],
+  today: string,
+): DigestSection {
+  const groups = new Map<
+    string,
+    {
+      tmdb_id: number;
+      title: string;
+      poster_path: string | null;
+      services: string[];
+      date: string | null;
+    }
+  >();
+
+  for (const item of items) {
+    const group = groups.get(item.content_id);
+    if (!group) {
+      groups.set(item.content_id, {
+        tmdb_id: item.tmdb_id,
+        title: item.title,
+        poster_path: item.poster_path,
+        services: item.service_name ? [item.service_name] : [],
+        date: item.available_until,
+      });
+      continue;
+    }
+    if (item.service_name && !group.services.includes(item.service_name)) {
+      group.services.push(item.service_name);
+    }
+    if (
+      item.available_until && (!group.date || item.available_until < group.date)
+    ) {
+      group.date = item.available_until;
+    }
+  }
+
+  const grouped = Array.from(groups.values());
+  if (key === "leaving_soon") {
+    grouped.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+  }
+
+  const titles = grouped.slice(0, MAX_SECTION_TITLES).map((group) => {
+    const services = group.services.join(", ");
+    let detail: string | null = services || null;
+    if (key === "leaving_soon" && group.date) {
+      detail = `${services}, leaving ${describeDeparture(group.date, today)}`;
+    }
+    return {
+      tmdb_id: group.tmdb_id,
+      title: group.title,
+      poster_path: group.poster_path,
+      detail,
+    };
+  });
+
+  return {
+    key,
+    heading: SECTION_HEADINGS[key],
+    titles,
+    more: grouped.length - titles.length,
+  };
+}
+
+/**
+ * Build the non-empty sections of a digest, most urgent first
+ *
+ * @param digest The user's digest
+ * @param today Today's date (YYYY-MM-DD)
+ * @returns Sections in display order
+ */
+export function buildDigestSections(
+  digest: WeeklyDigest,
+  today: string,
+): DigestSection[] {
+  return [
+    groupSection("now_available", digest.now_available, today),
+    groupSection("leaving_soon", digest.leaving_soon, today),
+    groupSection("new_arrivals", digest.new_arrivals, today),
+    groupSection("recommendations", digest.recommendations, today),
+  ].filter((section) => section.titles.length > 0);
+}
+
+/**
+ * Count the distinct titles in a list of items
+ */
+function countTitles(items: DigestItem[]): number {
+  return new Set(items.map((item) => item.content_id)).size;
+}
+
+/**
+ * Build the weekly digest push notification
+ *
+ * @param digest The user's digest (not empty)
+ * @returns Notification payload
+ */
+export function buildDigestNotification(
+  digest: WeeklyDigest,
+): NotificationPayload {
+  const parts: string[] = [];
+  const nowAvailable = countTitles(digest.now_available);
+  const leavingSoon = countTitles(digest.leaving_soon);
+  const newArrivals = countTitles(digest.new_arrivals);
+
+  if (nowAvailable > 0) {
+    parts.push(
+      `${nowAvailable} watchlist ${
+        nowAvailable === 1 ? "title" : "titles"
+      } now streaming`,
+    );
+  }
+  if (leavingSoon > 0) {
+    parts.push(`${leavingSoon} leaving soon`);
+  }
+  if (newArrivals > 0) {
+    parts.push(`${newArrivals} new on your services`);
+  }
+  if (digest.recommendations.length > 0) {
+    parts.push(
+      `${
+        digest.recommendations.length === 1 ? "a pick" : "picks"
+      } based on your taste`,
+    );
+  }
+
+  const body = parts.join(", ");
+
+  return {
+    title: "Your week on Stream Owl",
+    body: body.charAt(0).toUpperCase() + body.slice(1) + ".",
+    icon: "/logo.svg",
+    badge: "/logo.svg",
+    tag: `weekly-digest-${digest.week_of}`,
+    url: "/dashboard",
+    type: "weekly_digest",
+  };
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+/**
+ * Render the weekly digest email
+ *
+ * @param digest The user's digest (not empty)
+ * @param baseUrl Base URL of the application (e.g., "https://example.com")
+ * @param today Today's date (YYYY-MM-DD)
+ * @returns Subject, HTML body and plain-text body
+ */
+export function renderDigestEmail(
+  digest: WeeklyDigest,
+  baseUrl: string,
+  today: string,
+): DigestEmail {
+  const sections = buildDigestSections(digest, today);
+  const greeting = digest.display_name
+    ? `Hi ${digest.display_name},`
+    : "Hi there,";
+  const intro = "Here's what happened on your streaming services this week.";
+  const settingsUrl = `${baseUrl}/settings`;
+
+  const htmlSections = sections.map((section) => {
+    const rows = section.titles.map((title) => {
+      const url = `${baseUrl}/content/${title.tmdb_id}`;
+      const poster = title.poster_path
+        ? `<img src="${
+          escapeHtml(getPosterUrl(title.poster_path, "w92"))
+        }" width="46" alt="" style="border-radius:4px;vertical-align:middle;margin-right:12px">`
+        : "";
+      const detail = title.detail
+        ? `<br><span style="color:#6b7280;font-size:13px">${
+          escapeHtml(title.detail)
+        }</span>`
+        : "";
+      return `<tr><td style="padding:6px 0">${poster}<a href="${
+        escapeHtml(url)
+      }" style="color:#4f46e5;font-weight:600;text-decoration:none">${
+        escapeHtml(title.title)
+      }</a>${detail}</td></tr>`;
+    });
+    if (section.more > 0) {
+      rows.push(
+        `<tr><td style="padding:6px 0;color:#6b7280">and ${section.more} more</td></tr>`,
+      );
+    }
+    return `<h2 style="font-size:18px;margin:24px 0 8px">${
+      escapeHtml(section.heading)
+    }</h2><table role="presentation" cellpadding="0" cellspacing="0">${
+      rows.join("")
+    }</table>`;
+  });
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Your week on Stream Owl</title></head>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111827;max-width:600px;margin:0 auto;padding:24px">
+<h1 style="font-size:22px">Your week on Stream Owl</h1>
+<p>${escapeHtml(greeting)}</p>
+<p>${intro}</p>
+${htmlSections.join("\n")}
+<p style="margin-top:32px;color:#6b7280;font-size:13px">You're receiving this because the weekly digest is turned on. <a href="${
+    escapeHtml(settingsUrl)
+  }" style="color:#6b7280">Change your notification settings</a>.</p>
+</body>
+</html>`;
+
+  const textSections = sections.map((section) => {
+    const lines = section.titles.map((title) =>
+      `- ${title.title}${
+        title.detail ? ` (${title.detail})` : ""
+      }: ${baseUrl}/content/${title.tmdb_id}`
+    );
+    if (section.more > 0) {
+      lines.push(`- and ${section.more} more`);
+    }
+    return `${section.heading}\n${lines.join("\n")}`;
+  });
+
+  const text = [
+    greeting,
+    intro,
+    ...textSections,
+    `Change your notification settings: ${settingsUrl}`,
+  ].join("\n\n");
+
+  return {
+    subject: "Your week on Stream Owl",
+    html,
+    text,
+  };
+}
@@ -0,0 +1,392 @@
+/**
+ * Weekly digest
+ *
+ * Builds a personalised weekly summary for each user who has turned the
+ * weekly digest on — watchlist titles that started streaming in their region,
+ * watchlist titles leaving soon, new arrivals on their services and a couple
+ * of recommendations — and sends it as a push notification and an email.
+ * Deliveries are recorded per user and week, so a retried run doesn't send
+ * anyone the same digest twice.
+ */
+
+import { generateRecommendationCandidates } from "../ai/recommendations.ts";
+import { query } from "../db.ts";
+import { sendWeeklyDigestEmail } from "../email/sender.ts";
+import { DEFAULT_REGION } from "../region.ts";
+import {
+  buildDigestNotification,
+  type DigestItem,
+  getWeekStart,
+  isDigestEmpty,
+  renderDigestEmail,
+  type WeeklyDigest,
+} from "./digest-message.ts";
+import { LEAVING_SOON_ALERT_DAYS } from "./leaving-soon.ts";
+import { sendPushToUser } from "./push.ts";
+
+/**
+ * How far back the digest looks for new availability
+ */
+export const DIGEST_DAYS = 7;
+
+// Recommendations included in each digest
+const DIGEST_RECOMMENDATIONS = 2;
+
+// Rows fetched per section; the email shows fewer and says "and N more"
+const DIGEST_SECTION_LIMIT = 20;
+
+/**
+ * Outcome of a weekly digest run
+ */
+export interface WeeklyDigestResult {
+  /** Reachable users with the digest turned on and not yet sent this week */
+  users: number;
+  /** Users who received the digest by push, email or both */
+  sent: number;
+  /** Users with nothing to report this week */
+  empty: number;
+  /** Users whose digest couldn't be delivered */
+  failed: number;
+}
+
+/**
+ * Get the base URL used for links in digest emails
+ */
+function getAppBaseUrl(): string {
+  return (Deno.env.get("APP_BASE_URL") || "http://localhost:8000").replace(
+    /\/$/,
+    "",
+  );
+}
+
+/**
+ * Titles added this week to services carrying the user's library
+ *
+ * A user's services are the ones they've marked as theirs or, if they
+ * haven't picked any, the subscription services in their region that carry
+ * any title in their library. Titles already in the library are left out.
+ */
+function findNewArrivals(
+  userId: string,
+  region: string,
+): Promise<DigestItem[]> {
+  return query<DigestItem>(
+    `WITH chosen_services AS (
+       SELECT service_id FROM user_streaming_services WHERE user_id = $1
+     ),
+     user_services AS (
+       SELECT service_id FROM chosen_services
+       UNION
+       SELECT cs.service_id
+       FROM user_content uc
+       JOIN content_streaming cs
+         ON cs.content_id = uc.content_id
+        AND cs.type = 'subscription'
+        AND cs.region = $2
+       WHERE uc.user_id = $1
+         AND NOT EXISTS (SELECT 1 FROM chosen_services)
+     )
+     SELECT
+       c.id AS content_id,
+       c.tmdb_id,
+       c.title,
+       c.poster_path,
+       ss.name AS service_name,
+       NULL AS available_until
+     FROM content_streaming cs
+     JOIN content c ON c.id = cs.content_id
+     JOIN streaming_services ss ON ss.id = cs.service_id
+     WHERE cs.region = $2
+       AND cs.type = 'subscription'
+       AND cs.created_at >= NOW() - $3 * INTERVAL '1 day'
+       AND cs.service_id IN (SELECT service_id FROM user_services)
+       AND NOT EXISTS (
+         SELECT 1 FROM user_content uc
+         WHERE uc.user_id = $1 AND uc.content_id = c.id
+       )
+     ORDER BY cs.created_at DESC, c.title
+     LIMIT $4`,
+    [userId, region, DIGEST_DAYS, DIGEST_SECTION_LIMIT],
+  );
+}
+
+/**
+ * Watchlist titles that started streaming in the user's region this week
+ *
+ * A title counts only if it wasn't already on a subscription service in the
+ * region before the week began.
+ */
+function findNowAvailable(
+  userId: string,
+  region: string,
+): Promise<DigestItem[]> {
+  return query<DigestItem>(
+    `SELECT
+       c.id AS content_id,
+       c.tmdb_id,
+       c.title,
+       c.poster_path,
+       ss.name AS service_name,
+       NULL AS available_until
+     FROM user_content uc
+     JOIN content c ON c.id = uc.content_id
+     JOIN content_streaming cs
+       ON cs.content_id = c.id
+      AND cs.type = 'subscription'
+      AND cs.region = $2
+     JOIN streaming_services ss ON ss.id = cs.service_id
+     WHERE uc.user_id = $1
+       AND uc.status = 'to_watch'
+       AND cs.created_at >= NOW() - $3 * INTERVAL '1 day'
+       AND NOT EXISTS (
+         SELECT 1 FROM content_streaming earlier
+         WHERE earlier.content_id = c.id
+           AND earlier.type = 'subscription'
+           AND earlier.region = $2
+           AND earlier.created_at < NOW() - $3 * INTERVAL '1 day'
+       )
+     ORDER BY cs.created_at DESC, c.title
+     LIMIT $4`,
+    [userId, region, DIGEST_DAYS, DIGEST_SECTION_LIMIT],
+  );
+}
+
+/**
+ * Watchlist titles leaving a subscription service in the user's region soon
+ */
+function findLeavingSoon(
+  userId: string,
+  region: string,
+): Promise<DigestItem[]> {
+  return query<DigestItem>(
+    `SELECT
+       c.id AS content_id,
+       c.tmdb_id,
+       c.title,
+       c.poster_path,
+       ss.name AS service_name,
+       cs.available_until::text
+     FROM user_content uc
+     JOIN content c ON c.id = uc.content_id
+     JOIN content_streaming cs
+       ON cs.content_id = c.id
+      AND cs.type = 'subscription'
+      AND cs.region = $2
+     JOIN streaming_services ss ON ss.id = cs.service_id
+     WHERE uc.user_id = $1
+       AND uc.status = 'to_watch'
+       AND cs.available_until >= CURRENT_DATE
+       AND cs.available_until <= CURRENT_DATE + $3 * INTERVAL '1 day'
+     ORDER BY cs.available_until, c.title
+     LIMIT $4`,
+    [userId, region, LEAVING_SOON_ALERT_DAYS, DIGEST_SECTION_LIMIT],
+  );
+}
+
+/**
+ * Pick a couple of recommendations for the digest
+ *
+ * Recommendations are a nice-to-have, so a failure (e.g. the embedding
+ * service being down) leaves the section empty rather than failing the digest.
+ */
+async function findRecommendations(userId: string): Promise<DigestItem[]> {
+  try {
+    const candidates = await generateRecommendationCandidates(
+      userId,
+      DIGEST_RECOMMENDATIONS,
+    );
+    return candidates.map((candidate) => ({
+      content_id: candidate.id,
+      tmdb_id: candidate.tmdb_id,
+      title: candidate.title,
+      poster_path: candidate.poster_path,
+      service_name: null,
+      available_until: null,
+    }));
+  } catch (error) {
+    console.error(`Failed to get digest recommendations for ${userId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Build a user's weekly digest
+ *
+ * Users who haven't chosen a region are matched against the default region.
+ *
+ * @param userId User ID
+ * @param now Time the digest is built for
+ * @returns The digest, or null if the user doesn't exist
+ */
+export async function buildWeeklyDigest(
+  userId: string,
+  now: Date = new Date(),
+): Promise<WeeklyDigest | null> {
+  const users = await query<{ display_name: string | null; region: string }>(
+    `SELECT display_name, COALESCE(preferences->>'region', $2) AS region
+     FROM users
+     WHERE id = $1`,
+    [userId, DEFAULT_REGION],
+  );
+
+  if (users.length === 0) {
+    return null;
+  }
+
+  const { display_name, region } = users[0];
+  const [newArrivals, nowAvailable, leavingSoon, recommendations] =
+    await Promise.all([
+      findNewArrivals(userId, region),
+      findNowAvailable(userId, region),
+      findLeavingSoon(userId, region),
+      findRecommendations(userId),
+    ]);
+
+  return {
+    week_of: getWeekStart(now),
+    display_name,
+    new_arrivals: newArrivals,
+    now_available: nowAvailable,
+    leaving_soon: leavingSoon,
+    recommendations,
+  };
+}
+
+/**
+ * Record that a user's digest has been delivered this week
+ */
+async function recordDigest(
+  userId: string,
+  weekOf: string,
+  pushed: boolean,
+  emailed: boolean,
+): Promise<void> {
+  await query(
+    `INSERT INTO weekly_digests (user_id, week_of, pushed, emailed)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, week_of) DO NOTHING`,
+    [userId, weekOf, pushed, emailed],
+  );
+}
+
+/**
+ * Send this week's digest to every user who has turned it on
+ *
+ * Each digest goes out as a push notification (to users with an active
+ * device) and as an email (to users with a verified address); users with
+ * neither are left out. A digest is
+ * recorded as sent once either channel succeeds; users whose delivery failed
+ * entirely are picked up again on retry.
+ *
+ * @param now Time the digests are built for
+ * @returns Counts of users sent, empty and failed
+ * @throws Error if there were digests to send and every delivery failed, so
+ *   the job queue retries
+ */
+export async function sendWeeklyDigests(
+  now: Date = new Date(),
+): Promise<WeeklyDigestResult> {
+  const weekOf = getWeekStart(now);
+  const today = now.toISOString().slice(0, 10);
+  const baseUrl = getAppBaseUrl();
+
+  const users = await query<{
+    id: string;
+    email: string;
+    email_verified: boolean;
+  }>(
+    `SELECT u.id, u.email, u.email_verified_at IS NOT NULL AS email_verified
+     FROM users u
+     WHERE u.preferences->'notification_types'->>'weekly_digest' = 'true'
+       AND (
+         u.email_verified_at IS NOT NULL
+         OR EXISTS (
+           SELECT 1 FROM push_subscriptions ps
+           WHERE ps.user_id = u.id AND ps.is_active = true
+         )
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM weekly_digests d
+         WHERE d.user_id = u.id AND d.week_of = $1
+       )
+     ORDER BY u.created_at`,
+    [weekOf],
+  );
+
+  const result: WeeklyDigestResult = {
+    users: users.length,
+    sent: 0,
+    empty: 0,
+    failed: 0,
+  };
+
+  for (const user of users) {
+    try {
+      const digest = await buildWeeklyDigest(user.id, now);
+      if (!digest || isDigestEmpty(digest)) {
+        result.empty++;
+        continue;
+      }
+
+      let pushed = false;
+      try {
+        const push = await sendPushToUser(
+          user.id,
+          "weekly_digest",
+          buildDigestNotification(digest),
+        );
+        pushed = push.sent > 0;
+      } catch (error) {
+        console.error(`Failed to push weekly digest to ${user.id}:`, error);
+      }
+
+      let emailed = false;
+      if (user.email_verified) {
+        const email = renderDigestEmail(digest, baseUrl, today);
+        try {
+          emailed = await sendWeeklyDigestEmail(
+            user.email,
+            email.subject,
+            email.html,
+            email.text,
+          );
+        } catch (error) {
+          console.error(`Failed to email weekly digest to ${user.id}:`, error);
+        }
+      }
+
+      if (!pushed && !emailed) {
+        result.failed++;
+        continue;
+      }
+
+      await recordDigest(user.id, weekOf, pushed, emailed);
+      result.sent++;
+    } catch (error) {
+      console.error(`Failed to send weekly digest to ${user.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  if (result.failed > 0 && result.sent === 0) {
+    throw new Error(
+      `Failed to deliver weekly digests to all ${result.failed} users`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Delete digest records older than a few weeks
+ *
+ * @returns Number of records deleted
+ */
+export async function pruneWeeklyDigests(): Promise<number> {
+  const rows = await query<{ user_id: string }>(
+    `DELETE FROM weekly_digests
+     WHERE week_of < CURRENT_DATE - INTERVAL '28 days'
+     RETURNING user_id`,
+  );
+  return rows.length;
+}
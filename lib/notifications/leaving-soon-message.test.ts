@@ -0,0 +1,74 @@
+/**
+ * Unit tests for leaving-soon alert message formatting
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  buildLeavingSoonNotification,
+  describeDeparture,
+  type LeavingSoonItem,
+} from "./leaving-soon-message.ts";
+
+const TODAY = "2024-03-11"; // a Monday
+
+function item(
+  overrides: Partial<LeavingSoonItem> & { content_id: string; title: string },
+): LeavingSoonItem {
+  return {
+    tmdb_id: 1,
+    service_id: "netflix",
+    service_name: "Netflix",
+    available_until: "2024-03-15",
+    ...overrides,
+  };
+}
+
+Deno.test("describeDeparture should describe dates relative to today", () => {
+  assertEquals(describeDeparture("2024-03-11", TODAY), "today");
+  assertEquals(describeDeparture("2024-03-12", TODAY), "tomorrow");
+  assertEquals(describeDeparture("2024-03-15", TODAY), "on Friday");
+  assertEquals(describeDeparture("2024-03-25", TODAY), "on 25 Mar");
+});
+
+Deno.test("buildLeavingSoonNotification should name a single title and link to it", () => {
+  const payload = buildLeavingSoonNotification([
+    item({ content_id: "a", tmdb_id: 550, title: "Fight Club" }),
+  ], TODAY);
+
+  assertEquals(payload.title, "Fight Club is leaving Netflix");
+  assertEquals(payload.body, "Last chance to watch it on Friday.");
+  assertEquals(payload.url, "/content/550");
+  assertEquals(payload.tag, "leaving-soon");
+});
+
+Deno.test("buildLeavingSoonNotification should list a title leaving several services once", () => {
+  const payload = buildLeavingSoonNotification([
+    item({ content_id: "a", title: "Fight Club" }),
+    item({
+      content_id: "a",
+      title: "Fight Club",
+      service_id: "prime",
+      service_name: "Prime Video",
+      available_until: "2024-03-12",
+    }),
+  ], TODAY);
+
+  assertEquals(payload.title, "Fight Club is leaving Netflix and Prime Video");
+  assertEquals(payload.body, "Last chance to watch it tomorrow.");
+});
+
+Deno.test("buildLeavingSoonNotification should group several titles soonest first", () => {
+  const payload = buildLeavingSoonNotification([
+    item({ content_id: "a", title: "Alien", available_until: "2024-03-20" }),
+    item({ content_id: "b", title: "Heat", available_until: "2024-03-12" }),
+    item({ content_id: "c", title: "Se7en", available_until: "2024-03-14" }),
+    item({ content_id: "d", title: "Zodiac", available_until: "2024-03-16" }),
+  ], TODAY);
+
+  assertEquals(payload.title, "4 titles on your watchlist are leaving soon");
+  assertEquals(
+    payload.body,
+    "Heat (Netflix, tomorrow); Se7en (Netflix, on Thursday); Zodiac (Netflix, on Saturday); and 1 more",
+  );
+  assertEquals(payload.url, "/library");
+});
@@ -0,0 +1,144 @@
+/**
+ * Leaving-soon alert message formatting
+ *
+ * Pure helpers for turning a user's watchlist titles that are about to leave
+ * their streaming services into a single grouped push notification.
+ */
+
+import type { NotificationPayload } from "./push.ts";
+
+/**
+ * A watchlist title leaving one of the user's region's services
+ */
+export interface LeavingSoonItem {
+  content_id: string;
+  tmdb_id: number;
+  title: string;
+  service_id: string;
+  service_name: string;
+  /** Last day on the service (YYYY-MM-DD) */
+  available_until: string;
+}
+
+// Titles named in the notification body before "and N more"
+const MAX_LISTED_TITLES = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Describe a departure date relative to today
+ *
+ * @param date Last day on the service (YYYY-MM-DD)
+ * @param today Today's date (YYYY-MM-DD)
+ * @returns "today", "tomorrow", "on Friday" within a week, else "on 12 Mar"
+ */
+export function describeDeparture(date: string, today: string): string {
+  const departure = new Date(`${date}T00:00:00Z`);
+  const days = Math.round(
+    (departure.getTime() - new Date(`${today}T00:00:00Z`).getTime()) /
+      MS_PER_DAY,
+  );
+
+  if (days <= 0) {
+    return "today";
+  }
+  if (days === 1) {
+    return "tomorrow";
+  }
+  if (days < 7) {
+    return `on ${
+      departure.toLocaleDateString("en-GB", {
+        weekday: "long",
+        timeZone: "UTC",
+      })
+    }`;
+  }
+  return `on ${
+    departure.toLocaleDateString("en-GB", {
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    })
+  }`;
+}
+
+/**
+ * Group items by title, keeping each title's earliest departure
+ *
+ * A title leaving several services is listed once, with every service.
+ */
+function groupByTitle(
+  items: LeavingSoonItem[],
+): { tmdb_id: number; title: string; services: string[]; date: string }[] {
+  const groups = new Map<
+    string,
+    { tmdb_id: number; title: string; services: string[]; date: string }
+  >();
+
+  for (const item of items) {
+    const group = groups.get(item.content_id);
+    if (!group) {
+      groups.set(item.content_id, {
+        tmdb_id: item.tmdb_id,
+        title: item.title,
+        services: [item.service_name],
+        date: item.available_until,
+      });
+      continue;
+    }
+    if (!group.services.includes(item.service_name)) {
+      group.services.push(item.service_name);
+    }
+    if (item.available_until < group.date) {
+      group.date = item.available_until;
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || a.title.localeCompare(b.title)
+  );
+}
+
+/**
+ * Build the grouped leaving-soon notification for one user
+ *
+ * @param items The user's leaving-soon watchlist items (at least one)
+ * @param today Today's date (YYYY-MM-DD)
+ * @returns Notification payload
+ */
+export function buildLeavingSoonNotification(
+  items: LeavingSoonItem[],
+  today: string,
+): NotificationPayload {
+  const titles = groupByTitle(items);
+  const first = titles[0];
+
+  if (titles.length === 1) {
+    return {
+      title: `${first.title} is leaving ${first.services.join(" and ")}`,
+      body: `Last chance to watch it ${describeDeparture(first.date, today)}.`,
+      icon: "/logo.svg",
+      badge: "/logo.svg",
+      tag: "leaving-soon",
+      url: `/content/${first.tmdb_id}`,
+      type: "leaving_soon",
+    };
+  }
+
+  const listed = titles.slice(0, MAX_LISTED_TITLES).map((group) =>
+    `${group.title} (${group.services.join(", ")}, ${
+      describeDeparture(group.date, today)
+    })`
+  );
+  const remaining = titles.length - listed.length;
+
+  return {
+    title: `${titles.length} titles on your watchlist are leaving soon`,
+    body: listed.join("; ") + (remaining > 0 ? `; and ${remaining} more` : ""),
+    icon: "/logo.svg",
+    badge: "/logo.svg",
+    tag: "leaving-soon",
+    url: "/library",
+    type: "leaving_soon",
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Leaving-soon push alerts (premium)
+ *
+ * Finds watchlist titles about to leave a subscription service in each
+ * premium user's region and sends every user one grouped push notification.
+ * Sent alerts are recorded per title, service and departure date, so a title
+ * is only alerted again if its departure date changes.
+ */
+
+import { getEntitlements } from "../auth/entitlements.ts";
+import { query } from "../db.ts";
+import { DEFAULT_REGION } from "../region.ts";
+import {
+  buildLeavingSoonNotification,
+  type LeavingSoonItem,
+} from "./leaving-soon-message.ts";
+import { sendPushToUser } from "./push.ts";
+
+/**
+ * Alert about titles leaving within this many days
+ */
+export const LEAVING_SOON_ALERT_DAYS = 7;
+
+/**
+ * Outcome of a leaving-soon alert run
+ */
+export interface LeavingSoonAlertResult {
+  /** Users with titles to alert about */
+  users: number;
+  /** Users who received a notification on at least one device */
+  notified: number;
+  /** Users who have turned leaving-soon alerts off */
+  skipped: number;
+  /** Users whose notification couldn't be delivered */
+  failed: number;
+}
+
+/**
+ * Find un-alerted leaving-soon watchlist items for premium users
+ *
+ * Only users with an active push subscription are included. Users who
+ * haven't chosen a region are matched against the default region.
+ *
+ * @param daysAhead Include titles leaving within this many days
+ * @returns Items grouped by user ID
+ */
+export async function findLeavingSoonAlerts(
+  daysAhead: number = LEAVING_SOON_ALERT_DAYS,
+): Promise<Map<string, LeavingSoonItem[]>> {
+  const rows = await query<LeavingSoonItem & { user_id: string }>(
+    `SELECT
+       uc.user_id,
+       c.id AS content_id,
+       c.tmdb_id,
+       c.title,
+       cs.service_id,
+       ss.name AS service_name,
+       cs.available_until::text
+     FROM user_content uc
+     JOIN users u ON u.id = uc.user_id
+     JOIN content c ON c.id = uc.content_id
+     JOIN content_streaming cs
+       ON cs.content_id = c.id
+      AND cs.type = 'subscription'
+      AND cs.region = COALESCE(u.preferences->>'region', $2)
+     JOIN streaming_services ss ON ss.id = cs.service_id
+     WHERE uc.status = 'to_watch'
+       AND cs.available_until >= CURRENT_DATE
+       AND cs.available_until <= CURRENT_DATE + $1 * INTERVAL '1 day'
+       AND EXISTS (
+         SELECT 1 FROM push_subscriptions ps
+         WHERE ps.user_id = uc.user_id AND ps.is_active = true
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM leaving_soon_alerts a
+         WHERE a.user_id = uc.user_id
+           AND a.content_id = c.id
+           AND a.service_id = cs.service_id
+           AND a.available_until = cs.available_until
+       )
+     ORDER BY uc.user_id, cs.available_until, c.title`,
+    [daysAhead, DEFAULT_REGION],
+  );
+
+  const byUser = new Map<string, LeavingSoonItem[]>();
+  for (const { user_id, ...item } of rows) {
+    const items = byUser.get(user_id) ?? [];
+    items.push(item);
+    byUser.set(user_id, items);
+  }
+
+  for (const userId of byUser.keys()) {
+    if (!(await getEntitlements(userId)).leavingSoonAlerts) {
+      byUser.delete(userId);
+    }
+  }
+
+  return byUser;
+}
+
+/**
+ * Record that a user has been alerted about items
+ */
+async function recordAlerts(
+  userId: string,
+  items: LeavingSoonItem[],
+): Promise<void> {
+  await query(
+    `INSERT INTO leaving_soon_alerts
+       (user_id, content_id, service_id, available_until)
+     SELECT $1, item.content_id, item.service_id, item.available_until
+     FROM UNNEST($2::uuid[], $3::uuid[], $4::date[])
+       AS item(content_id, service_id, available_until)
+     ON CONFLICT (user_id, content_id, service_id, available_until) DO NOTHING`,
+    [
+      userId,
+      items.map((item) => item.content_id),
+      items.map((item) => item.service_id),
+      items.map((item) => item.available_until),
+    ],
+  );
+}
+
+/**
+ * Send grouped leaving-soon alerts to every eligible user
+ *
+ * Items are only recorded as alerted once the notification reached at least
+ * one device, so users whose delivery failed are picked up on the next run.
+ *
+ * @param daysAhead Include titles leaving within this many days
+ * @returns Counts of users notified, skipped and failed
+ * @throws Error if there were users to notify and every delivery failed, so
+ *   the job queue retries
+ */
+export async function sendLeavingSoonAlerts(
+  daysAhead: number = LEAVING_SOON_ALERT_DAYS,
+): Promise<LeavingSoonAlertResult> {
+  const alerts = await findLeavingSoonAlerts(daysAhead);
+  const today = new Date().toISOString().slice(0, 10);
+  const result: LeavingSoonAlertResult = {
+    users: alerts.size,
+    notified: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const [userId, items] of alerts) {
+    try {
+      const push = await sendPushToUser(
+        userId,
+        "leaving_soon",
+        buildLeavingSoonNotification(items, today),
+      );
+
+      if (push.skipped) {
+        result.skipped++;
+      } else if (push.sent > 0) {
+        await recordAlerts(userId, items);
+        result.notified++;
+      }
+    } catch (error) {
+      console.error(`Failed to send leaving-soon alert to ${userId}:`, error);
+      result.failed++;
+    }
+  }
+
+  if (result.failed > 0 && result.notified === 0 && result.skipped === 0) {
+    throw new Error(
+      `Failed to deliver leaving-soon alerts to all ${result.failed} users`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Delete alert records for departure dates that have passed
+ *
+ * @returns Number of records deleted
+ */
+export async function pruneLeavingSoonAlerts(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `DELETE FROM leaving_soon_alerts
+     WHERE available_until < CURRENT_DATE
+     RETURNING id`,
+  );
+  return rows.length;
+}
@@ -0,0 +1,27 @@
+/**
+ * Unit tests for "now available" alert message formatting
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { buildNowAvailableNotification } from "./now-available-message.ts";
+
+Deno.test("buildNowAvailableNotification should name the service and link to the title", () => {
+  const payload = buildNowAvailableNotification(
+    { tmdb_id: 550, title: "Fight Club" },
+    ["Netflix"],
+  );
+
+  assertEquals(payload.title, "Fight Club is now on Netflix");
+  assertEquals(payload.url, "/content/550");
+  assertEquals(payload.tag, "now-available-550");
+  assertEquals(payload.type, "new_releases");
+});
+
+Deno.test("buildNowAvailableNotification should list several services", () => {
+  const payload = buildNowAvailableNotification(
+    { tmdb_id: 550, title: "Fight Club" },
+    ["Hulu", "Netflix", "Peacock"],
+  );
+
+  assertEquals(payload.title, "Fight Club is now on Hulu, Netflix and Peacock");
+});
@@ -0,0 +1,34 @@
+/**
+ * "Now available" alert message formatting
+ *
+ * Pure helper for the push notification sent when a watchlist title starts
+ * streaming on one of the user's services.
+ */
+
+import type { NotificationPayload } from "./push.ts";
+
+/**
+ * Build the "now available" notification for one title
+ *
+ * @param content The title that became available
+ * @param services Names of the user's services it arrived on (at least one)
+ * @returns Notification payload
+ */
+export function buildNowAvailableNotification(
+  content: { tmdb_id: number; title: string },
+  services: string[],
+): NotificationPayload {
+  const serviceList = services.length > 1
+    ? `${services.slice(0, -1).join(", ")} and ${services[services.length - 1]}`
+    : services[0];
+
+  return {
+    title: `${content.title} is now on ${serviceList}`,
+    body: "It's on your watchlist and ready to stream with your subscription.",
+    icon: "/logo.svg",
+    badge: "/logo.svg",
+    tag: `now-available-${content.tmdb_id}`,
+    url: `/content/${content.tmdb_id}`,
+    type: "new_releases",
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * "Now available" push alerts
+ *
+ * When the streaming sync sees a title start streaming by subscription on a
+ * service, users who have it on their watchlist and have marked that service
+ * as theirs (in their region) are sent a new_releases push notification.
+ */
+
+import type { PoolClient } from "../db.ts";
+import { DEFAULT_REGION } from "../region.ts";
+import type { AvailabilityChange } from "../streaming/availability-diff.ts";
+import { buildNowAvailableNotification } from "./now-available-message.ts";
+import { enqueuePushNotification } from "./push.ts";
+
+/**
+ * Queue "now available" alerts for a title's availability changes
+ *
+ * Runs inside the sync transaction, after the title's content_streaming rows
+ * have been updated, so alerts are only queued if the changes commit. A user
+ * is only alerted if the title wasn't already streaming on another of their
+ * services, and only users with an active push subscription are considered.
+ *
+ * @param client Transaction client
+ * @param content The synced title
+ * @param changes Availability changes recorded for the title
+ * @returns Number of alerts queued
+ */
+export async function queueNowAvailableAlerts(
+  client: PoolClient,
+  content: { id: string; tmdb_id: number; title: string },
+  changes: AvailabilityChange[],
+): Promise<number> {
+  const added = changes.filter((change) =>
+    change.change === "added" && change.type === "subscription"
+  );
+  if (added.length === 0) {
+    return 0;
+  }
+
+  const result = await client.queryObject<
+    { user_id: string; services: string[] }
+  >(
+    `SELECT uc.user_id, array_agg(DISTINCT ss.name ORDER BY ss.name) AS services
+     FROM user_content uc
+     JOIN users u ON u.id = uc.user_id
+     JOIN user_streaming_services us ON us.user_id = uc.user_id
+     JOIN streaming_services ss ON ss.id = us.service_id
+     JOIN UNNEST($2::uuid[], $3::text[]) AS added(service_id, region)
+       ON added.service_id = us.service_id
+      AND added.region = COALESCE(u.preferences->>'region', $4)
+     WHERE uc.content_id = $1
+       AND uc.status = 'to_watch'
+       AND EXISTS (
+         SELECT 1 FROM push_subscriptions ps
+         WHERE ps.user_id = uc.user_id AND ps.is_active = true
+       )
+       AND NOT EXISTS (
+         SELECT 1
+         FROM content_streaming cs
+         JOIN user_streaming_services other
+           ON other.service_id = cs.service_id AND other.user_id = uc.user_id
+         WHERE cs.content_id = $1
+           AND cs.type = 'subscription'
+           AND cs.region = COALESCE(u.preferences->>'region', $4)
+           AND NOT (cs.service_id = ANY($2::uuid[]))
+       )
+     GROUP BY uc.user_id`,
+    [
+      content.id,
+      added.map((change) => change.service_id),
+      added.map((change) => change.region),
+      DEFAULT_REGION,
+    ],
+  );
+
+  for (const { user_id, services } of result.rows) {
+    await enqueuePushNotification(
+      user_id,
+      "new_releases",
+      buildNowAvailableNotification(content, services),
+      { dedupeKey: `now_available:${content.id}`, client },
+    );
+  }
+
+  return result.rows.length;
+}
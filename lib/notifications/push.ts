@@ -13,7 +13,8 @@
  * web-push service or the npm web-push package via Deno's npm: specifier.
  */
 
-import { query } from "../db.ts";
+import { type PoolClient, query } from "../db.ts";
+import { enqueueJob } from "../jobs/queue.ts";
 
 interface PushSubscription {
   endpoint: string;
@@ -43,7 +44,7 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: Record<string, boolean> = {
   weekly_digest: false,
 };
 
-interface NotificationPayload {
+export interface NotificationPayload {
   title: string;
   body: string;
   icon?: string;
@@ -539,3 +540,137 @@ export async function sendPushNotificationWithPreferenceCheck(
     throw error;
   }
 }
+
+/**
+ * Result of sending a notification to all of a user's devices
+ */
+export interface UserPushResult {
+  sent: number;
+  failed: number;
+  /** Set when nothing was sent because the user disabled this type */
+  skipped?: boolean;
+}
+
+/**
+ * Send a push notification to every active device of a user
+ *
+ * Each device goes through sendPushNotificationWithPreferenceCheck(), so
+ * nothing is sent if the user has turned this notification type off.
+ * Subscriptions the push service reports as gone (404/410) are deactivated.
+ *
+ * @param userId - The user's ID
+ * @param notificationType - The type of notification being sent
+ * @param payload - The notification payload
+ * @returns Number of devices reached and failed
+ * @throws Error if the user has devices but none could be reached, so the
+ *   job queue retries
+ */
+export async function sendPushToUser(
+  userId: string,
+  notificationType: NotificationType,
+  payload: NotificationPayload,
+): Promise<UserPushResult> {
+  const subscriptions = await query<{
+    id: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+  }>(
+    `SELECT id, endpoint, p256dh, auth
+     FROM push_subscriptions
+     WHERE user_id = $1 AND is_active = true`,
+    [userId],
+  );
+
+  let skipped = false;
+  const results = await Promise.allSettled(
+    subscriptions.map(async (sub) => {
+      try {
+        const result = await sendPushNotificationWithPreferenceCheck(
+          userId,
+          {
+            endpoint: sub.endpoint,
+            keys: { p256dh: sub.p256dh, auth: sub.auth },
+          },
+          payload,
+          notificationType,
+        );
+        if (!result.sent) {
+          skipped = true;
+          return;
+        }
+
+        await query(
+          `UPDATE push_subscriptions SET last_push_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [sub.id],
+        );
+      } catch (error) {
+        // If subscription is invalid (410 Gone or 404), mark as inactive
+        if (
+          error instanceof Error &&
+          (error.message.includes("410") || error.message.includes("404"))
+        ) {
+          await query(
+            `UPDATE push_subscriptions SET is_active = false WHERE id = $1`,
+            [sub.id],
+          );
+        }
+        throw error;
+      }
+    }),
+  );
+
+  if (skipped) {
+    return { sent: 0, failed: 0, skipped: true };
+  }
+
+  const sent = results.filter((r) => r.status === "fulfilled").length;
+  const failed = results.length - sent;
+
+  if (sent === 0 && failed > 0) {
+    const firstError = results.find((r) => r.status === "rejected") as
+      | PromiseRejectedResult
+      | undefined;
+    throw new Error(
+      `Failed to reach any of ${failed} device(s): ${
+        firstError?.reason instanceof Error
+          ? firstError.reason.message
+          : String(firstError?.reason)
+      }`,
+    );
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Queue a push notification to all of a user's devices
+ *
+ * Delivery happens on the background job queue, with retries if the push
+ * service is unavailable.
+ *
+ * @param userId - The user's ID
+ * @param notificationType - The type of notification being sent
+ * @param payload - The notification payload
+ * @param options - Optional priority, dedupe key (e.g. one alert per title)
+ *   and transaction client, so the notification is only queued if the
+ *   transaction commits
+ * @returns Job ID, or null if an identical notification is already queued
+ */
+export async function enqueuePushNotification(
+  userId: string,
+  notificationType: NotificationType,
+  payload: NotificationPayload,
+  options: { priority?: number; dedupeKey?: string; client?: PoolClient } = {},
+): Promise<string | null> {
+  return await enqueueJob("notification.push", {
+    userId,
+    type: notificationType,
+    notification: payload,
+  }, {
+    priority: options.priority,
+    dedupeKey: options.dedupeKey ? `${userId}:${options.dedupeKey}` : undefined,
+    maxAttempts: 3,
+    client: options.client,
+  });
+}
@@ -11,18 +11,28 @@
  */
 
 import { redisCache } from "../cache/redis.ts";
+import { fetchWithFixtures, getFixtureMode } from "../fixtures/http.ts";
 
-const OMDB_API_BASE_URL = "https://www.omdbapi.com";
+const DEFAULT_OMDB_API_BASE_URL = "https://www.omdbapi.com";
 
 // Cache TTL: 7 days (ratings don't change frequently)
 const CACHE_TTL_SECONDS = 604800;
 
+/**
+ * Get the OMDb API base URL (OMDB_API_BASE_URL overrides the default)
+ */
+function getBaseUrl(): string {
+  return Deno.env.get("OMDB_API_BASE_URL") || DEFAULT_OMDB_API_BASE_URL;
+}
+
 /**
  * Get OMDb API key from environment variable
- * Returns null if not configured (optional feature)
+ * Returns null if not configured (optional feature). Replayed fixtures
+ * stand in for a real key.
  */
 function getApiKey(): string | null {
-  return Deno.env.get("OMDB_API_KEY") || null;
+  return Deno.env.get("OMDB_API_KEY") ||
+    (getFixtureMode() === "replay" ? "replay" : null);
 }
 
 /**
@@ -173,17 +183,17 @@ export async function getRatingsByImdbId(
 
   // Check cache first
   const cacheKey = `omdb:${imdbId}`;
-  const cached = await redisCache.getCached<AggregateRatings>(cacheKey, {});
+  const cached = await redisCache.get<AggregateRatings>(cacheKey);
   if (cached !== null) {
     return cached;
   }
 
   try {
-    const url = new URL(OMDB_API_BASE_URL);
+    const url = new URL(getBaseUrl());
     url.searchParams.set("apikey", apiKey);
     url.searchParams.set("i", imdbId);
 
-    const response = await fetch(url.toString());
+    const response = await fetchWithFixtures("omdb", "/", url);
 
     if (!response.ok) {
       console.error(`OMDb API request failed: ${response.status}`);
@@ -200,7 +210,7 @@ export async function getRatingsByImdbId(
     const ratings = extractRatings(data);
 
     // Cache the result
-    await redisCache.setCached(cacheKey, {}, ratings, CACHE_TTL_SECONDS);
+    await redisCache.set(cacheKey, ratings, CACHE_TTL_SECONDS);
 
     return ratings;
   } catch (error) {
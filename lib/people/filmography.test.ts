@@ -0,0 +1,112 @@
+/**
+ * Unit tests for person filmography helpers
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import type {
+  PersonCastCredit,
+  PersonCreditBase,
+  PersonCrewCredit,
+} from "../tmdb/client.ts";
+import { buildFilmography, getPersonRole } from "./filmography.ts";
+
+function movie(
+  id: number,
+  releaseDate: string,
+): PersonCreditBase {
+  return {
+    id,
+    credit_id: `credit-${id}`,
+    media_type: "movie",
+    title: `Movie ${id}`,
+    release_date: releaseDate,
+    poster_path: null,
+    vote_average: 7,
+    vote_count: 100,
+    popularity: 10,
+  };
+}
+
+function cast(
+  id: number,
+  releaseDate: string,
+  character: string,
+): PersonCastCredit {
+  return { ...movie(id, releaseDate), character };
+}
+
+function crew(
+  id: number,
+  releaseDate: string,
+  department: string,
+  job: string,
+): PersonCrewCredit {
+  return { ...movie(id, releaseDate), department, job };
+}
+
+Deno.test("buildFilmography should put the known-for department first", () => {
+  const sections = buildFilmography({
+    cast: [cast(1, "2010-01-01", "Hero")],
+    crew: [
+      crew(2, "2012-01-01", "Writing", "Screenplay"),
+      crew(3, "2015-01-01", "Directing", "Director"),
+    ],
+  }, "Directing");
+
+  assertEquals(sections.map((section) => section.key), [
+    "Directing",
+    "Acting",
+    "Writing",
+  ]);
+});
+
+Deno.test("buildFilmography should merge several jobs on one title", () => {
+  const [section] = buildFilmography({
+    cast: [],
+    crew: [
+      crew(1, "2010-01-01", "Writing", "Screenplay"),
+      crew(1, "2010-01-01", "Writing", "Story"),
+      crew(1, "2010-01-01", "Writing", "Story"),
+    ],
+  }, "Writing");
+
+  assertEquals(section.entries.length, 1);
+  assertEquals(section.entries[0].roles, ["Screenplay", "Story"]);
+});
+
+Deno.test("buildFilmography should sort newest first with undated titles on top", () => {
+  const [section] = buildFilmography({
+    cast: [
+      cast(1, "2001-05-01", "A"),
+      cast(2, "", "B"),
+      cast(3, "2019-05-01", "C"),
+    ],
+    crew: [],
+  }, "Acting");
+
+  assertEquals(section.entries.map((entry) => entry.tmdb_id), [2, 3, 1]);
+  assertEquals(section.entries[0].release_date, null);
+});
+
+Deno.test("buildFilmography should keep appearances as themselves apart", () => {
+  const sections = buildFilmography({
+    cast: [
+      cast(1, "2010-01-01", "Hero"),
+      cast(2, "2011-01-01", "Self - Guest"),
+      cast(3, "2012-01-01", "Herself"),
+    ],
+    crew: [],
+  }, "Acting");
+
+  assertEquals(sections.map((section) => section.key), [
+    "Acting",
+    "Appearances",
+  ]);
+  assertEquals(sections[1].entries.map((entry) => entry.tmdb_id), [3, 2]);
+});
+
+Deno.test("getPersonRole should map departments to roles", () => {
+  assertEquals(getPersonRole("Acting"), "actor");
+  assertEquals(getPersonRole("Directing"), "director");
+  assertEquals(getPersonRole("Visual Effects"), "person");
+});
@@ -0,0 +1,196 @@
+/**
+ * Filmography helpers for person pages
+ *
+ * Turns a person's TMDB combined credits into sections by role (acting,
+ * directing, writing...), with one entry per title in each section.
+ */
+
+import type {
+  PersonCastCredit,
+  PersonCombinedCredits,
+  PersonCrewCredit,
+} from "../tmdb/client.ts";
+
+/**
+ * A title in a filmography section
+ */
+export interface FilmographyEntry {
+  tmdb_id: number;
+  type: "movie" | "tv";
+  title: string;
+  poster_path: string | null;
+  release_date: string | null;
+  /** Characters played or jobs done on this title */
+  roles: string[];
+  /** Episodes worked on, for TV credits */
+  episode_count: number | null;
+}
+
+/**
+ * Filmography section for one role
+ */
+export interface FilmographySection {
+  key: string;
+  heading: string;
+  entries: FilmographyEntry[];
+}
+
+// Crew departments in the order they're shown, after acting
+const DEPARTMENT_ORDER = [
+  "Directing",
+  "Writing",
+  "Creator",
+  "Production",
+  "Editing",
+  "Camera",
+  "Sound",
+];
+
+// Talk shows, documentaries and awards shows credit people as themselves
+const SELF_APPEARANCE = /^(self|himself|herself|themselves)\b/i;
+
+/**
+ * Check whether an acting credit is an appearance as themselves
+ */
+function isSelfAppearance(credit: PersonCastCredit): boolean {
+  return SELF_APPEARANCE.test(credit.character?.trim() || "");
+}
+
+/**
+ * Add a credit to a section, merging roles for titles already in it
+ */
+function addEntry(
+  entries: Map<string, FilmographyEntry>,
+  credit: PersonCastCredit | PersonCrewCredit,
+  role: string,
+): void {
+  const key = `${credit.media_type}-${credit.id}`;
+  const existing = entries.get(key);
+
+  if (existing) {
+    if (role && !existing.roles.includes(role)) {
+      existing.roles.push(role);
+    }
+    if (credit.episode_count) {
+      existing.episode_count = Math.max(
+        existing.episode_count || 0,
+        credit.episode_count,
+      );
+    }
+    return;
+  }
+
+  const isMovie = credit.media_type === "movie";
+  entries.set(key, {
+    tmdb_id: credit.id,
+    type: credit.media_type,
+    title: (isMovie ? credit.title : credit.name) || "Untitled",
+    poster_path: credit.poster_path,
+    release_date: (isMovie ? credit.release_date : credit.first_air_date) ||
+      null,
+    roles: role ? [role] : [],
+    episode_count: credit.episode_count || null,
+  });
+}
+
+/**
+ * Sort entries newest first, with undated (usually upcoming) titles on top
+ */
+function sortEntries(entries: Iterable<FilmographyEntry>): FilmographyEntry[] {
+  return [...entries].sort((a, b) => {
+    if (!a.release_date || !b.release_date) {
+      return (a.release_date ? 1 : 0) - (b.release_date ? 1 : 0);
+    }
+    return b.release_date.localeCompare(a.release_date);
+  });
+}
+
+/**
+ * Build a person's filmography, split by role
+ *
+ * The department the person is known for comes first, then acting, then
+ * the main crew departments. Appearances as themselves are kept apart so
+ * they don't bury actual acting credits.
+ *
+ * @param credits Combined credits from TMDB
+ * @param knownForDepartment Department the person is best known for
+ * @returns Non-empty sections in display order
+ */
+export function buildFilmography(
+  credits: PersonCombinedCredits,
+  knownForDepartment: string,
+): FilmographySection[] {
+  const acting = new Map<string, FilmographyEntry>();
+  const appearances = new Map<string, FilmographyEntry>();
+  const departments = new Map<string, Map<string, FilmographyEntry>>();
+
+  for (const credit of credits.cast) {
+    if (credit.media_type !== "movie" && credit.media_type !== "tv") continue;
+    if (isSelfAppearance(credit)) {
+      addEntry(appearances, credit, "");
+    } else {
+      addEntry(acting, credit, credit.character?.trim() || "");
+    }
+  }
+
+  for (const credit of credits.crew) {
+    if (credit.media_type !== "movie" && credit.media_type !== "tv") continue;
+    const department = credit.department || "Crew";
+    if (!departments.has(department)) {
+      departments.set(department, new Map());
+    }
+    addEntry(departments.get(department)!, credit, credit.job);
+  }
+
+  const sections: FilmographySection[] = [
+    { key: "Acting", heading: "Acting", entries: sortEntries(acting.values()) },
+    ...[...departments.entries()].map(([department, entries]) => ({
+      key: department,
+      heading: department,
+      entries: sortEntries(entries.values()),
+    })),
+  ];
+
+  const rank = (key: string) => {
+    if (key === knownForDepartment) return -2;
+    if (key === "Acting") return -1;
+    const index = DEPARTMENT_ORDER.indexOf(key);
+    return index === -1 ? DEPARTMENT_ORDER.length : index;
+  };
+  sections.sort((a, b) =>
+    rank(a.key) - rank(b.key) || a.heading.localeCompare(b.heading)
+  );
+
+  if (appearances.size > 0) {
+    sections.push({
+      key: "Appearances",
+      heading: "Appearances",
+      entries: sortEntries(appearances.values()),
+    });
+  }
+
+  return sections.filter((section) => section.entries.length > 0);
+}
+
+/**
+ * Describe what a person is followed as, from their main department
+ *
+ * @param knownForDepartment Department the person is best known for
+ * @returns e.g. "actor" or "director"
+ */
+export function getPersonRole(knownForDepartment: string): string {
+  switch (knownForDepartment) {
+    case "Acting":
+      return "actor";
+    case "Directing":
+      return "director";
+    case "Writing":
+      return "writer";
+    case "Production":
+      return "producer";
+    case "Creator":
+      return "creator";
+    default:
+      return "person";
+  }
+}
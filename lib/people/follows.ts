@@ -0,0 +1,129 @@
+/**
+ * Follows for cast and crew
+ *
+ * Users can follow actors, directors and other people from TMDB. Follows
+ * keep a copy of the person's name and photo so they can be listed without
+ * calling TMDB, and alerts can look up who follows the people on a title.
+ */
+
+import { query } from "../db.ts";
+import type { PersonDetails } from "../tmdb/client.ts";
+
+/**
+ * A person followed by a user
+ */
+export interface FollowedPerson {
+  tmdb_person_id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string | null;
+  created_at: Date;
+}
+
+/**
+ * Follow a person
+ *
+ * Idempotent: following again refreshes the stored name and photo.
+ *
+ * @param userId User doing the following
+ * @param person Person details from TMDB
+ */
+export async function followPerson(
+  userId: string,
+  person: Pick<
+    PersonDetails,
+    "id" | "name" | "profile_path" | "known_for_department"
+  >,
+): Promise<void> {
+  await query(
+    `INSERT INTO person_follows
+       (user_id, tmdb_person_id, name, profile_path, known_for_department)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, tmdb_person_id) DO UPDATE SET
+       name = EXCLUDED.name,
+       profile_path = EXCLUDED.profile_path,
+       known_for_department = EXCLUDED.known_for_department`,
+    [
+      userId,
+      person.id,
+      person.name,
+      person.profile_path,
+      person.known_for_department || null,
+    ],
+  );
+}
+
+/**
+ * Unfollow a person
+ *
+ * @param userId User doing the unfollowing
+ * @param personId TMDB person ID
+ */
+export async function unfollowPerson(
+  userId: string,
+  personId: number,
+): Promise<void> {
+  await query(
+    "DELETE FROM person_follows WHERE user_id = $1 AND tmdb_person_id = $2",
+    [userId, personId],
+  );
+}
+
+/**
+ * Check whether a user follows a person
+ *
+ * @param userId User ID
+ * @param personId TMDB person ID
+ * @returns true if the user follows the person
+ */
+export async function isFollowingPerson(
+  userId: string,
+  personId: number,
+): Promise<boolean> {
+  const result = await query<{ tmdb_person_id: number }>(
+    "SELECT tmdb_person_id FROM person_follows WHERE user_id = $1 AND tmdb_person_id = $2",
+    [userId, personId],
+  );
+  return result.length > 0;
+}
+
+/**
+ * List the people a user follows, most recently followed first
+ *
+ * @param userId User ID
+ * @returns Followed people
+ */
+export async function listFollowedPeople(
+  userId: string,
+): Promise<FollowedPerson[]> {
+  return await query<FollowedPerson>(
+    `SELECT tmdb_person_id, name, profile_path, known_for_department, created_at
+     FROM person_follows
+     WHERE user_id = $1
+     ORDER BY created_at DESC`,
+    [userId],
+  );
+}
+
+/**
+ * Find the followers of any of the given people
+ *
+ * For alerts about a title: pass its cast and crew IDs to find who cares.
+ *
+ * @param personIds TMDB person IDs
+ * @returns One row per follow, with the person followed
+ */
+export async function getPersonFollowers(
+  personIds: number[],
+): Promise<{ user_id: string; tmdb_person_id: number; name: string }[]> {
+  if (personIds.length === 0) {
+    return [];
+  }
+
+  return await query<{ user_id: string; tmdb_person_id: number; name: string }>(
+    `SELECT user_id, tmdb_person_id, name
+     FROM person_follows
+     WHERE tmdb_person_id = ANY($1::int[])`,
+    [personIds],
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the in-memory real-time broker
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { InMemoryBroker, userChannel } from "./broker.ts";
+import type { RealtimeEvent } from "./events.ts";
+
+const event: RealtimeEvent = {
+  type: "list_items",
+  list_id: "list-1",
+  version: 3,
+};
+
+Deno.test("InMemoryBroker should deliver events to every subscriber of a channel", async () => {
+  const broker = new InMemoryBroker();
+  const received: RealtimeEvent[] = [];
+
+  broker.subscribe("user:a", (e) => received.push(e));
+  broker.subscribe("user:a", (e) => received.push(e));
+  await broker.publish("user:a", event);
+
+  assertEquals(received, [event, event]);
+});
+
+Deno.test("InMemoryBroker should not deliver events to other channels", async () => {
+  const broker = new InMemoryBroker();
+  const received: RealtimeEvent[] = [];
+
+  broker.subscribe("user:b", (e) => received.push(e));
+  await broker.publish("user:a", event);
+
+  assertEquals(received, []);
+});
+
+Deno.test("InMemoryBroker should stop delivering after unsubscribe", async () => {
+  const broker = new InMemoryBroker();
+  const received: RealtimeEvent[] = [];
+
+  const unsubscribe = broker.subscribe("user:a", (e) => received.push(e));
+  unsubscribe();
+  await broker.publish("user:a", event);
+
+  assertEquals(received, []);
+  assertEquals(broker.subscriberCount("user:a"), 0);
+});
+
+Deno.test("InMemoryBroker should keep delivering when a listener throws", async () => {
+  const broker = new InMemoryBroker();
+  const received: RealtimeEvent[] = [];
+  const originalError = console.error;
+  console.error = () => {};
+
+  try {
+    broker.subscribe("user:a", () => {
+      throw new Error("boom");
+    });
+    broker.subscribe("user:a", (e) => received.push(e));
+    await broker.publish("user:a", event);
+  } finally {
+    console.error = originalError;
+  }
+
+  assertEquals(received, [event]);
+});
+
+Deno.test("userChannel should namespace channels by user ID", () => {
+  assertEquals(userChannel("abc"), "user:abc");
+});
@@ -0,0 +1,105 @@
+/**
+ * Real-time event broker
+ *
+ * Fans events out to the server-sent event streams opened by
+ * /api/events. Each signed-in user has their own channel, so every tab and
+ * device they have open receives the same events.
+ *
+ * The default broker is in-memory and only reaches streams held by this
+ * process. To run several instances, implement RealtimeBroker on top of a
+ * shared pub/sub (Redis, Postgres LISTEN/NOTIFY, etc.) and install it with
+ * setRealtimeBroker() at startup.
+ */
+
+import type { RealtimeEvent } from "./events.ts";
+
+/**
+ * Callback invoked for each event published to a channel
+ */
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+/**
+ * Publish/subscribe transport for real-time events
+ */
+export interface RealtimeBroker {
+  /**
+   * Publish an event to every subscriber of a channel
+   */
+  publish(channel: string, event: RealtimeEvent): Promise<void>;
+
+  /**
+   * Subscribe to a channel
+   *
+   * @returns Function that removes the subscription
+   */
+  subscribe(channel: string, listener: RealtimeListener): () => void;
+}
+
+/**
+ * Single-process broker backed by in-memory listener sets
+ */
+export class InMemoryBroker implements RealtimeBroker {
+  private channels = new Map<string, Set<RealtimeListener>>();
+
+  publish(channel: string, event: RealtimeEvent): Promise<void> {
+    const listeners = this.channels.get(channel);
+    if (listeners) {
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error("Realtime listener failed:", error);
+        }
+      }
+    }
+    return Promise.resolve();
+  }
+
+  subscribe(channel: string, listener: RealtimeListener): () => void {
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) {
+        this.channels.delete(channel);
+      }
+    };
+  }
+
+  /**
+   * Number of subscribers on a channel
+   */
+  subscriberCount(channel: string): number {
+    return this.channels.get(channel)?.size ?? 0;
+  }
+}
+
+let broker: RealtimeBroker = new InMemoryBroker();
+
+/**
+ * Get the active broker
+ */
+export function getRealtimeBroker(): RealtimeBroker {
+  return broker;
+}
+
+/**
+ * Replace the active broker
+ *
+ * Call once at startup, before any streams are opened.
+ */
+export function setRealtimeBroker(next: RealtimeBroker): void {
+  broker = next;
+}
+
+/**
+ * Channel carrying a user's events
+ */
+export function userChannel(userId: string): string {
+  return `user:${userId}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Browser side of real-time sync
+ *
+ * All islands on a page share one EventSource connected to /api/events.
+ * Islands subscribe with useRealtimeEvents() and apply the events that
+ * concern them.
+ */
+
+import { IS_BROWSER } from "$fresh/runtime.ts";
+import { useEffect, useRef } from "preact/hooks";
+import type { RealtimeEvent } from "./events.ts";
+
+/**
+ * Message delivered to islands
+ *
+ * `resync` is sent after the connection drops and comes back, since events
+ * published while disconnected are lost; islands should refetch their data.
+ */
+export type RealtimeMessage = RealtimeEvent | { type: "resync" };
+
+type Handler = (message: RealtimeMessage) => void;
+
+const EVENT_TYPES: RealtimeEvent["type"][] = ["content", "list_items", "lists"];
+
+const handlers = new Set<Handler>();
+let source: EventSource | null = null;
+let disconnected = false;
+
+/**
+ * Deliver a message to every subscribed island
+ */
+function dispatch(message: RealtimeMessage): void {
+  for (const handler of handlers) {
+    try {
+      handler(message);
+    } catch (error) {
+      console.error("Realtime handler failed:", error);
+    }
+  }
+}
+
+/**
+ * Open the shared event stream if it isn't open already
+ */
+function connect(): void {
+  if (source) {
+    return;
+  }
+
+  source = new EventSource("/api/events");
+
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (e) => {
+      try {
+        dispatch(JSON.parse((e as MessageEvent).data));
+      } catch (error) {
+        console.error("Invalid realtime event:", error);
+      }
+    });
+  }
+
+  source.addEventListener("open", () => {
+    if (disconnected) {
+      disconnected = false;
+      dispatch({ type: "resync" });
+    }
+  });
+
+  source.addEventListener("error", () => {
+    if (source?.readyState === EventSource.CLOSED) {
+      // Server refused the stream (e.g. signed out); don't retry
+      source = null;
+    } else {
+      disconnected = true;
+    }
+  });
+}
+
+/**
+ * Close the shared event stream once no island needs it
+ */
+function disconnect(): void {
+  if (handlers.size === 0 && source) {
+    source.close();
+    source = null;
+    disconnected = false;
+  }
+}
+
+/**
+ * Subscribe an island to real-time events for the signed-in user
+ *
+ * The handler can change between renders; the latest one is always called.
+ *
+ * @param handler Called for each event, and with `resync` after a reconnect
+ * @param enabled Set to false to skip subscribing, e.g. for signed-out users
+ */
+export function useRealtimeEvents(
+  handler: (message: RealtimeMessage) => void,
+  enabled = true,
+): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!IS_BROWSER || !enabled) {
+      return;
+    }
+
+    const listener: Handler = (message) => handlerRef.current(message);
+    handlers.add(listener);
+    connect();
+
+    return () => {
+      handlers.delete(listener);
+      disconnect();
+    };
+  }, [enabled]);
+}
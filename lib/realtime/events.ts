@@ -0,0 +1,144 @@
+/**
+ * Real-time events published by the content and list API handlers
+ *
+ * Events describe what changed rather than carrying whole records; islands
+ * either apply the included state directly (status, rating) or refetch what
+ * they display. Publishing never fails the request that triggered it.
+ */
+
+import { query } from "../db.ts";
+import { getRealtimeBroker, userChannel } from "./broker.ts";
+
+/**
+ * Which part of a user's content record changed
+ */
+export type ContentChange =
+  | "status"
+  | "rating"
+  | "notes"
+  | "tags"
+  | "episodes";
+
+/**
+ * Library status of a title
+ */
+export type LibraryStatus = "watched" | "to_watch" | "favourite";
+
+/**
+ * Events delivered on a user's channel
+ */
+export type RealtimeEvent =
+  | {
+    /** The user's record for a title changed */
+    type: "content";
+    tmdb_id: number;
+    change: ContentChange;
+    /** Current status after the change, null if not in the library */
+    status: LibraryStatus | null;
+    rating: number | null;
+  }
+  | {
+    /** Items in a list were added, removed or reordered */
+    type: "list_items";
+    list_id: string;
+    version: number;
+  }
+  | {
+    /** A list was created, deleted, renamed, shared or had its settings changed */
+    type: "lists";
+    list_id: string;
+  };
+
+/**
+ * Publish an event to one user's tabs and devices
+ *
+ * @param userId User ID
+ * @param event Event to publish
+ */
+export async function publishToUser(
+  userId: string,
+  event: RealtimeEvent,
+): Promise<void> {
+  try {
+    await getRealtimeBroker().publish(userChannel(userId), event);
+  } catch (error) {
+    console.error("Error publishing realtime event:", error);
+    // Don't fail the request if publishing fails
+  }
+}
+
+/**
+ * Publish a change to a user's record for a title
+ *
+ * Reads the current status and rating so every session converges on the
+ * same state regardless of the order events arrive in.
+ *
+ * @param userId User ID
+ * @param tmdbId TMDB ID of the title
+ * @param change What changed
+ */
+export async function publishContentChange(
+  userId: string,
+  tmdbId: number,
+  change: ContentChange,
+): Promise<void> {
+  try {
+    const result = await query<{
+      status: LibraryStatus;
+      rating: number | null;
+    }>(
+      `SELECT uc.status, uc.rating
+       FROM user_content uc
+       INNER JOIN content c ON uc.content_id = c.id
+       WHERE uc.user_id = $1 AND c.tmdb_id = $2`,
+      [userId, tmdbId],
+    );
+
+    await publishToUser(userId, {
+      type: "content",
+      tmdb_id: tmdbId,
+      change,
+      status: result[0]?.status ?? null,
+      rating: result[0]?.rating !== undefined && result[0]?.rating !== null
+        ? Number(result[0].rating)
+        : null,
+    });
+  } catch (error) {
+    console.error("Error publishing content change:", error);
+    // Don't fail the request if publishing fails
+  }
+}
+
+/**
+ * Publish an event to a list's owner and collaborators
+ *
+ * @param listId List ID
+ * @param event Event to publish
+ * @param extraUserIds Users to notify in addition to current members, e.g.
+ *   a collaborator who has just been removed
+ */
+export async function publishListChange(
+  listId: string,
+  event: RealtimeEvent,
+  extraUserIds: string[] = [],
+): Promise<void> {
+  try {
+    const members = await query<{ user_id: string }>(
+      `SELECT user_id FROM lists WHERE id = $1
+       UNION
+       SELECT user_id FROM list_collaborators WHERE list_id = $1`,
+      [listId],
+    );
+
+    const userIds = new Set([
+      ...members.map((member) => member.user_id),
+      ...extraUserIds,
+    ]);
+    await Promise.all(
+      Array.from(userIds).map((userId) => publishToUser(userId, event)),
+    );
+  } catch (error) {
+    console.error("Error publishing list change:", error);
+    // Don't fail the request if publishing fails
+  }
+}
@@ -28,7 +28,7 @@ const LANGUAGE_TO_REGION: Record<string, SupportedRegion> = {
 /**
  * Default region if detection fails
  */
-const DEFAULT_REGION: SupportedRegion = "US";
+export const DEFAULT_REGION: SupportedRegion = "US";
 
 /**
  * Detect user region from Accept-Language header
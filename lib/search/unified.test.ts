@@ -0,0 +1,95 @@
+/**
+ * Unit tests for unified search helpers
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import type {
+  CollectionSummary,
+  Content,
+  PersonSummary,
+} from "../tmdb/client.ts";
+import { normaliseSearchText, orderSearchSections } from "./unified.ts";
+
+const title: Content = {
+  tmdb_id: 27205,
+  type: "movie",
+  title: "Inception",
+  overview: null,
+  release_date: "2010-07-15",
+  poster_path: null,
+  backdrop_path: null,
+  metadata: {},
+};
+
+function person(name: string): PersonSummary {
+  return {
+    kind: "person",
+    tmdb_id: 525,
+    name,
+    profile_path: null,
+    known_for_department: "Directing",
+    known_for: [],
+  };
+}
+
+function collection(name: string): CollectionSummary {
+  return {
+    kind: "collection",
+    tmdb_id: 10194,
+    name,
+    overview: null,
+    poster_path: null,
+    backdrop_path: null,
+  };
+}
+
+Deno.test("normaliseSearchText should drop case, accents and punctuation", () => {
+  assertEquals(normaliseSearchText("  Amélie: Poulain! "), "amelie poulain");
+});
+
+Deno.test("orderSearchSections should put people first for a surname", () => {
+  assertEquals(
+    orderSearchSections("Nolan", {
+      titles: [title],
+      people: [person("Christopher Nolan")],
+      collections: [],
+    }, "title"),
+    ["person", "title"],
+  );
+});
+
+Deno.test("orderSearchSections should put a named collection first", () => {
+  assertEquals(
+    orderSearchSections("toy story", {
+      titles: [title],
+      people: [person("Tom Hanks")],
+      collections: [collection("Toy Story Collection")],
+    }),
+    ["collection", "title", "person"],
+  );
+});
+
+Deno.test("orderSearchSections should follow TMDB's top result otherwise", () => {
+  const results = {
+    titles: [title],
+    people: [person("Leonardo DiCaprio")],
+    collections: [],
+  };
+
+  assertEquals(orderSearchSections("inception", results, "title"), [
+    "title",
+    "person",
+  ]);
+  assertEquals(orderSearchSections("leo", results, "person"), [
+    "person",
+    "title",
+  ]);
+  assertEquals(
+    orderSearchSections("nothing", {
+      titles: [],
+      people: [],
+      collections: [],
+    }),
+    [],
+  );
+});
@@ -0,0 +1,136 @@
+/**
+ * Unified search response
+ *
+ * /api/search returns titles, people and collections together. This module
+ * holds the response shape shared by the API and the search page, and
+ * decides which kind of result to show first.
+ */
+
+import type {
+  CollectionSummary,
+  Content,
+  PersonSummary,
+} from "../tmdb/client.ts";
+
+/**
+ * What to search for; "all" searches titles, people and collections
+ */
+export type UnifiedSearchType =
+  | "all"
+  | "movie"
+  | "tv"
+  | "person"
+  | "collection";
+
+export const SEARCH_TYPES: readonly UnifiedSearchType[] = [
+  "all",
+  "movie",
+  "tv",
+  "person",
+  "collection",
+];
+
+/**
+ * Kinds of result, each shown as its own section
+ */
+export type SearchResultKind = "title" | "person" | "collection";
+
+/**
+ * Response from GET /api/search
+ */
+export interface UnifiedSearchResponse {
+  type: UnifiedSearchType;
+  /** Movies and TV shows */
+  results: Content[];
+  people: PersonSummary[];
+  collections: CollectionSummary[];
+  /** Non-empty result kinds, best match first */
+  sections: SearchResultKind[];
+  total_results: number;
+  page: number;
+  total_pages: number;
+}
+
+const DEFAULT_ORDER: SearchResultKind[] = ["title", "person", "collection"];
+
+/**
+ * Normalise a name for matching: lowercase, no accents or punctuation
+ */
+export function normaliseSearchText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Check whether a query names a person, in full or by surname
+ */
+function matchesPerson(query: string, person: PersonSummary): boolean {
+  const name = normaliseSearchText(person.name);
+  return name === query ||
+    (!query.includes(" ") && name.split(" ").at(-1) === query);
+}
+
+/**
+ * Check whether a query names a collection, e.g. "toy story" for
+ * "Toy Story Collection"
+ */
+function matchesCollection(
+  query: string,
+  collection: CollectionSummary,
+): boolean {
+  const name = normaliseSearchText(collection.name).replace(
+    / collection$/,
+    "",
+  );
+  return name === query;
+}
+
+/**
+ * Order the result sections so the most likely intent comes first
+ *
+ * A query naming a person or collection outright ("Nolan", "Toy Story")
+ * puts that section first. Otherwise TMDB's own top result decides, and
+ * the rest follow in the default order.
+ *
+ * @param query Search query
+ * @param results Results by kind
+ * @param topKind Kind of TMDB's top multi search result, if known
+ * @returns Non-empty kinds in display order
+ */
+export function orderSearchSections(
+  query: string,
+  results: {
+    titles: Content[];
+    people: PersonSummary[];
+    collections: CollectionSummary[];
+  },
+  topKind: SearchResultKind | null = null,
+): SearchResultKind[] {
+  const normalised = normaliseSearchText(query);
+  const counts: Record<SearchResultKind, number> = {
+    title: results.titles.length,
+    person: results.people.length,
+    collection: results.collections.length,
+  };
+
+  let first = topKind;
+  if (results.people.some((person) => matchesPerson(normalised, person))) {
+    first = "person";
+  } else if (
+    results.collections.some((collection) =>
+      matchesCollection(normalised, collection)
+    )
+  ) {
+    first = "collection";
+  }
+
+  const order = first
+    ? [first, ...DEFAULT_ORDER.filter((kind) => kind !== first)]
+    : DEFAULT_ORDER;
+
+  return order.filter((kind) => counts[kind] > 0);
+}
@@ -14,6 +14,7 @@ import {
   getCsrfTokenFromCookie,
   getCsrfTokenFromForm,
   getCsrfTokenFromJson,
+  isSameOriginRequest,
   setCsrfCookie,
   validateCsrfToken,
   validateCsrfTokenFromJson,
@@ -238,3 +239,33 @@ Deno.test("createCsrfErrorResponse should create 403 response", async () => {
   assertEquals(body.error, "Forbidden");
   assertEquals(body.message, "Invalid CSRF token");
 });
+
+Deno.test("isSameOriginRequest should trust Sec-Fetch-Site", () => {
+  const request = (site: string) =>
+    new Request("https://example.com/api/lists", {
+      method: "POST",
+      headers: { "Sec-Fetch-Site": site },
+    });
+
+  assertEquals(isSameOriginRequest(request("same-origin")), true);
+  assertEquals(isSameOriginRequest(request("none")), true);
+  assertEquals(isSameOriginRequest(request("same-site")), false);
+  assertEquals(isSameOriginRequest(request("cross-site")), false);
+});
+
+Deno.test("isSameOriginRequest should fall back to Origin", () => {
+  const request = (headers: Record<string, string>) =>
+    new Request("https://example.com/api/lists", { method: "POST", headers });
+
+  assertEquals(
+    isSameOriginRequest(request({ Origin: "https://example.com" })),
+    true,
+  );
+  assertEquals(
+    isSameOriginRequest(request({ Origin: "https://evil.example" })),
+    false,
+  );
+  assertEquals(isSameOriginRequest(request({ Origin: "null" })), false);
+  // Not from a browser
+  assertEquals(isSameOriginRequest(request({})), true);
+});
@@ -181,6 +181,39 @@ export function validateCsrfTokenFromJson(
   return constantTimeEquals(cookieToken, bodyToken);
 }
 
+/**
+ * Check that a state-changing request came from one of our own pages
+ *
+ * Browsers send Sec-Fetch-Site (or, in older ones, Origin) with every
+ * request, and pages on other sites can't change them. Islands call the API
+ * with fetch and can't read the HttpOnly token cookie, so the middleware
+ * checks this for all /api calls; forms also carry the double-submit token.
+ * Requests with neither header (curl, cron services, webhooks) don't come
+ * from a browser holding our cookies, so they pass.
+ *
+ * @param request Request object
+ * @returns true if the request is same-origin or not from a browser
+ */
+export function isSameOriginRequest(request: Request): boolean {
+  const fetchSite = request.headers.get("Sec-Fetch-Site");
+  if (fetchSite) {
+    // "none" means the user typed the URL or used a bookmark
+    return fetchSite === "same-origin" || fetchSite === "none";
+  }
+
+  const origin = request.headers.get("Origin");
+  if (!origin) {
+    return true;
+  }
+
+  const allowed = [new URL(request.url).origin];
+  const appBaseUrl = Deno.env.get("APP_BASE_URL");
+  if (appBaseUrl) {
+    allowed.push(new URL(appBaseUrl).origin);
+  }
+  return allowed.includes(origin);
+}
+
 /**
  * Constant-time string comparison to prevent timing attacks
  *
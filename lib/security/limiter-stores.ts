@@ -0,0 +1,268 @@
+/**
+ * Storage for the shared rate limiter (./limiter.ts)
+ *
+ * - "postgres": the rate_limits table, locked per key while it's updated
+ * - "upstash": Upstash Redis, updated with compare-and-set
+ * - "memory": in-process only, for development and tests
+ *
+ * RATE_LIMIT_STORE picks one. By default Upstash is used when configured,
+ * then Postgres when DATABASE_URL is set, and memory otherwise.
+ */
+
+import { UpstashCacheBackend } from "../cache/upstash.ts";
+import { query, transaction } from "../db.ts";
+import type { RateLimitState } from "./limiter.ts";
+
+/**
+ * Where rate limit state lives
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  get(key: string): Promise<RateLimitState | null>;
+  /**
+   * Atomically replace a key's state
+   *
+   * apply may be called more than once if another instance updates the key
+   * at the same time; only the last call's state is kept.
+   *
+   * @param ttlSeconds How long to keep the state after this update
+   */
+  update(
+    key: string,
+    ttlSeconds: number,
+    apply: (state: RateLimitState | null) => RateLimitState,
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process store
+ *
+ * Not shared between instances, so only suitable for a single process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private entries = new Map<
+    string,
+    { state: RateLimitState; expiresAt: number }
+  >();
+
+  get(key: string): Promise<RateLimitState | null> {
+    return Promise.resolve(this.read(key));
+  }
+
+  update(
+    key: string,
+    ttlSeconds: number,
+    apply: (state: RateLimitState | null) => RateLimitState,
+  ): Promise<void> {
+    // Read and write without awaiting in between, so concurrent hits can't
+    // both start from the same state
+    this.sweep();
+    const state = apply(this.read(key));
+    this.entries.set(key, {
+      state,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  private read(key: string): RateLimitState | null {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.state;
+  }
+
+  /**
+   * Drop expired keys once the map gets large
+   */
+  private sweep(): void {
+    if (this.entries.size < 10000) {
+      return;
+    }
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Postgres store
+ *
+ * Each update runs in a transaction holding the key's row lock, so
+ * concurrent hits from different instances are applied one after another.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const rows = await query<{ state: RateLimitState }>(
+      `SELECT state FROM rate_limits
+       WHERE key = $1 AND expires_at > CURRENT_TIMESTAMP`,
+      [key],
+    );
+    return rows[0]?.state ?? null;
+  }
+
+  async update(
+    key: string,
+    ttlSeconds: number,
+    apply: (state: RateLimitState | null) => RateLimitState,
+  ): Promise<void> {
+    await transaction(async (client) => {
+      // Make sure the row exists so there is something to lock
+      await client.queryObject(
+        `INSERT INTO rate_limits (key, state, expires_at)
+         VALUES ($1, 'null'::jsonb, CURRENT_TIMESTAMP)
+         ON CONFLICT (key) DO NOTHING`,
+        [key],
+      );
+      const result = await client.queryObject<
+        { state: RateLimitState | null; expired: boolean }
+      >(
+        `SELECT state, expires_at <= CURRENT_TIMESTAMP AS expired
+         FROM rate_limits WHERE key = $1 FOR UPDATE`,
+        [key],
+      );
+      const row = result.rows[0];
+      const state = apply(row && !row.expired ? row.state : null);
+      await client.queryObject(
+        `UPDATE rate_limits
+         SET state = $2, expires_at = CURRENT_TIMESTAMP + make_interval(secs => $3)
+         WHERE key = $1`,
+        [key, JSON.stringify(state), ttlSeconds],
+      );
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await query("DELETE FROM rate_limits WHERE key = $1", [key]);
+  }
+}
+
+/**
+ * Delete expired rate limit rows
+ *
+ * @returns Number of rows deleted
+ */
+export async function pruneRateLimits(): Promise<number> {
+  const rows = await query<{ key: string }>(
+    "DELETE FROM rate_limits WHERE expires_at <= CURRENT_TIMESTAMP RETURNING key",
+  );
+  return rows.length;
+}
+
+// Sets KEYS[1] to ARGV[2] with a PX expiry of ARGV[3], but only if it still
+// holds ARGV[1] ("" meaning missing). Returns 1 on success.
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if (current or "") ~= ARGV[1] then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "PX", ARGV[3])
+return 1
+`;
+
+// Give up after this many conflicting updates and let the hit through
+const MAX_CAS_ATTEMPTS = 5;
+
+/**
+ * Upstash Redis store
+ *
+ * Updates read the key, apply the algorithm and write it back only if
+ * nobody else changed it in between, retrying on conflict.
+ */
+export class UpstashRateLimitStore implements RateLimitStore {
+  readonly name = "upstash";
+
+  constructor(private readonly redis: UpstashCacheBackend) {}
+
+  private static key(key: string): string {
+    return `ratelimit:${key}`;
+  }
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const raw = await this.redis.get(UpstashRateLimitStore.key(key));
+    return raw === null ? null : JSON.parse(raw) as RateLimitState;
+  }
+
+  async update(
+    key: string,
+    ttlSeconds: number,
+    apply: (state: RateLimitState | null) => RateLimitState,
+  ): Promise<void> {
+    const redisKey = UpstashRateLimitStore.key(key);
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const current = await this.redis.get(redisKey);
+      const next = apply(
+        current === null ? null : JSON.parse(current) as RateLimitState,
+      );
+      const swapped = await this.redis.command([
+        "EVAL",
+        COMPARE_AND_SET_SCRIPT,
+        "1",
+        redisKey,
+        current ?? "",
+        JSON.stringify(next),
+        String(ttlSeconds * 1000),
+      ]);
+      if (Number(swapped) === 1) {
+        return;
+      }
+    }
+    throw new Error(`Too many concurrent updates to ${key}`);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redis.delete(UpstashRateLimitStore.key(key));
+  }
+}
+
+/**
+ * Create the rate limit store configured by the environment
+ */
+export function createRateLimitStoreFromEnv(): RateLimitStore {
+  const choice = Deno.env.get("RATE_LIMIT_STORE")?.toLowerCase();
+  const redisUrl = Deno.env.get("UPSTASH_REDIS_REST_URL");
+  const redisToken = Deno.env.get("UPSTASH_REDIS_REST_TOKEN");
+  const upstash = redisUrl && redisToken
+    ? new UpstashRateLimitStore(new UpstashCacheBackend(redisUrl, redisToken))
+    : null;
+
+  switch (choice) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres":
+      return new PostgresRateLimitStore();
+    case "upstash":
+      if (upstash) {
+        return upstash;
+      }
+      console.warn(
+        "RATE_LIMIT_STORE is upstash but Upstash isn't configured; using postgres",
+      );
+      return new PostgresRateLimitStore();
+    case undefined:
+    case "":
+      if (upstash) {
+        return upstash;
+      }
+      return Deno.env.get("DATABASE_URL")
+        ? new PostgresRateLimitStore()
+        : new MemoryRateLimitStore();
+    default:
+      console.warn(`Unknown RATE_LIMIT_STORE "${choice}"; using memory`);
+      return new MemoryRateLimitStore();
+  }
+}
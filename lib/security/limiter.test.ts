@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the shared rate limiter
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  applyRateLimit,
+  getRateLimitHeaders,
+  RateLimiter,
+  type RateLimitPolicy,
+  type RateLimitState,
+} from "./limiter.ts";
+import { MemoryRateLimitStore } from "./limiter-stores.ts";
+
+const WINDOW: RateLimitPolicy = {
+  algorithm: "sliding-window",
+  limit: 10,
+  windowSeconds: 60,
+};
+const BUCKET: RateLimitPolicy = {
+  algorithm: "token-bucket",
+  limit: 10,
+  windowSeconds: 10,
+};
+
+Deno.test("applyRateLimit sliding window should refuse hits over the limit", () => {
+  let state: RateLimitState | null = null;
+  const now = 60_000;
+
+  for (let i = 0; i < 10; i++) {
+    const applied = applyRateLimit(WINDOW, state, now);
+    assert(applied.result.allowed);
+    state = applied.state;
+  }
+  const refused = applyRateLimit(WINDOW, state, now);
+
+  assertEquals(refused.result.allowed, false);
+  assertEquals(refused.result.remaining, 0);
+  assertEquals(refused.result.retryAfterMs, 66_000);
+  assertEquals(refused.state, state);
+});
+
+Deno.test("applyRateLimit sliding window should weight the previous window", () => {
+  const state: RateLimitState = {
+    algorithm: "sliding-window",
+    windowStart: 0,
+    count: 10,
+    previous: 0,
+  };
+
+  // A quarter into the next window, 7.5 of the 10 earlier hits still count
+  const result = applyRateLimit(WINDOW, state, 75_000, 0).result;
+  assertEquals(result.remaining, 2);
+
+  const refused = applyRateLimit(WINDOW, state, 75_000, 3).result;
+  assertEquals(refused.allowed, false);
+  // Allowed again once only 7 of them count, 30% into the window
+  assertEquals(refused.retryAfterMs, 3_000);
+});
+
+Deno.test("applyRateLimit token bucket should allow bursts and refill", () => {
+  let state: RateLimitState | null = null;
+
+  for (let i = 0; i < 10; i++) {
+    state = applyRateLimit(BUCKET, state, 0).state;
+  }
+  const refused = applyRateLimit(BUCKET, state, 0).result;
+  assertEquals(refused.allowed, false);
+  assertEquals(refused.retryAfterMs, 1_000);
+
+  const refilled = applyRateLimit(BUCKET, state, 2_500).result;
+  assert(refilled.allowed);
+  assertEquals(refilled.remaining, 1);
+});
+
+Deno.test("RateLimiter should count hits per key and reset them", async () => {
+  const limiter = new RateLimiter(new MemoryRateLimitStore());
+  const policy: RateLimitPolicy = { ...WINDOW, limit: 2 };
+
+  assert((await limiter.consume("a", policy)).allowed);
+  assert((await limiter.consume("a", policy)).allowed);
+  assertEquals((await limiter.consume("a", policy)).allowed, false);
+  assert((await limiter.consume("b", policy)).allowed);
+  assertEquals((await limiter.check("a", policy)).allowed, false);
+
+  await limiter.reset("a");
+  assertEquals((await limiter.check("a", policy)).remaining, 1);
+});
+
+Deno.test("RateLimiter should not over-allow concurrent hits in memory", async () => {
+  const limiter = new RateLimiter(new MemoryRateLimitStore());
+  const policy: RateLimitPolicy = { ...WINDOW, limit: 2 };
+
+  const results = await Promise.all(
+    [1, 2, 3, 4].map(() => limiter.consume("a", policy)),
+  );
+  assertEquals(results.filter((result) => result.allowed).length, 2);
+});
+
+Deno.test("RateLimiter should allow hits when the store fails", async () => {
+  const limiter = new RateLimiter({
+    name: "broken",
+    get: () => Promise.reject(new Error("down")),
+    update: () => Promise.reject(new Error("down")),
+    delete: () => Promise.reject(new Error("down")),
+  });
+  const warn = console.warn;
+  console.warn = () => {};
+
+  try {
+    assert((await limiter.consume("a", WINDOW)).allowed);
+    assert((await limiter.check("a", WINDOW)).allowed);
+  } finally {
+    console.warn = warn;
+  }
+});
+
+Deno.test("getRateLimitHeaders should add Retry-After only when refused", () => {
+  assertEquals(
+    getRateLimitHeaders({
+      allowed: true,
+      limit: 60,
+      remaining: 59,
+      resetMs: 1_500,
+      retryAfterMs: null,
+    }),
+    {
+      "RateLimit-Limit": "60",
+      "RateLimit-Remaining": "59",
+      "RateLimit-Reset": "2",
+    },
+  );
+  assertEquals(
+    getRateLimitHeaders({
+      allowed: false,
+      limit: 60,
+      remaining: 0,
+      resetMs: 30_000,
+      retryAfterMs: 200,
+    })["Retry-After"],
+    "1",
+  );
+});
@@ -0,0 +1,309 @@
+/**
+ * Shared rate limiter
+ *
+ * Limits are counted in a store shared by every instance (./limiter-stores.ts),
+ * so they hold however many copies of the app are running. Two algorithms
+ * are supported:
+ *
+ * - "sliding-window": at most `limit` hits in any `windowSeconds`, estimated
+ *   from the current and previous fixed windows (the previous window's count
+ *   is weighted by how much of it still overlaps the sliding window)
+ * - "token-bucket": bursts of up to `limit`, refilled evenly over
+ *   `windowSeconds`
+ *
+ * The algorithms are pure functions of the stored state, so every store runs
+ * the same maths and only has to make the read-modify-write atomic.
+ */
+
+import {
+  createRateLimitStoreFromEnv,
+  type RateLimitStore,
+} from "./limiter-stores.ts";
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+/**
+ * How many hits a key may make
+ */
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  /** Hits per window (sliding window) or bucket size (token bucket) */
+  limit: number;
+  /** Window length, or the time to refill an empty bucket */
+  windowSeconds: number;
+}
+
+/**
+ * Stored state for one key
+ */
+export type RateLimitState =
+  | {
+    algorithm: "sliding-window";
+    /** Start of the current fixed window (ms since epoch) */
+    windowStart: number;
+    count: number;
+    /** Hits in the fixed window before windowStart */
+    previous: number;
+  }
+  | {
+    algorithm: "token-bucket";
+    tokens: number;
+    /** When tokens was last refilled (ms since epoch) */
+    updatedAt: number;
+  };
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Hits left after this one */
+  remaining: number;
+  /** Until the window ends or the bucket is full again */
+  resetMs: number;
+  /** How long to wait before retrying, when not allowed */
+  retryAfterMs: number | null;
+}
+
+/**
+ * Apply a hit to a key's state
+ *
+ * Denied hits are not counted, so a client that keeps retrying doesn't push
+ * its own reset further away.
+ *
+ * @param policy Limit to apply
+ * @param state Stored state, or null for a new key
+ * @param now Current time (ms since epoch)
+ * @param cost Hits to take; 0 reports the state without using any
+ * @returns The new state and the outcome
+ */
+export function applyRateLimit(
+  policy: RateLimitPolicy,
+  state: RateLimitState | null,
+  now: number,
+  cost = 1,
+): { state: RateLimitState; result: RateLimitResult } {
+  return policy.algorithm === "token-bucket"
+    ? applyTokenBucket(policy, state, now, cost)
+    : applySlidingWindow(policy, state, now, cost);
+}
+
+function applySlidingWindow(
+  policy: RateLimitPolicy,
+  state: RateLimitState | null,
+  now: number,
+  cost: number,
+): { state: RateLimitState; result: RateLimitResult } {
+  const { limit } = policy;
+  const windowMs = policy.windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previous = 0;
+  if (state?.algorithm === "sliding-window") {
+    if (state.windowStart === windowStart) {
+      count = state.count;
+      previous = state.previous;
+    } else if (state.windowStart === windowStart - windowMs) {
+      previous = state.count;
+    }
+  }
+
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const allowed = previous * overlap + count + cost <= limit;
+  if (allowed) {
+    count += cost;
+  }
+
+  let retryAfterMs: number | null = null;
+  if (!allowed) {
+    // Wait for the previous window to slide out far enough, or failing that
+    // for the current window to become the previous one
+    const retryAt = count + cost <= limit && previous > 0
+      ? windowStart + windowMs * (1 - (limit - count - cost) / previous)
+      : windowStart + windowMs +
+        (count > 0 ? windowMs * Math.max(0, 1 - (limit - cost) / count) : 0);
+    retryAfterMs = Math.max(0, Math.ceil(retryAt - now));
+  }
+
+  return {
+    state: { algorithm: "sliding-window", windowStart, count, previous },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - previous * overlap - count)),
+      resetMs: windowStart + windowMs - now,
+      retryAfterMs,
+    },
+  };
+}
+
+function applyTokenBucket(
+  policy: RateLimitPolicy,
+  state: RateLimitState | null,
+  now: number,
+  cost: number,
+): { state: RateLimitState; result: RateLimitResult } {
+  const { limit } = policy;
+  const refillPerMs = limit / (policy.windowSeconds * 1000);
+
+  let tokens = limit;
+  if (state?.algorithm === "token-bucket") {
+    tokens = Math.min(
+      limit,
+      state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs,
+    );
+  }
+
+  const allowed = tokens >= cost;
+  if (allowed) {
+    tokens -= cost;
+  }
+
+  return {
+    state: { algorithm: "token-bucket", tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? null : Math.ceil((cost - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * How long a key's state matters: after this a missing key behaves the same
+ */
+function stateTtlSeconds(policy: RateLimitPolicy): number {
+  return Math.ceil(policy.windowSeconds) * 2;
+}
+
+/**
+ * Rate limiter over a shared store
+ *
+ * Store failures are logged and the hit is allowed, so an outage of the
+ * store never takes the API down with it.
+ */
+export class RateLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  /**
+   * Name of the active store
+   */
+  getStoreName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Replace the store, e.g. in tests
+   */
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Take hits from a key's allowance
+   *
+   * @param key Who is being limited, e.g. "api:user:<id>"
+   * @param policy Limit to apply
+   * @param cost Hits to take (default: 1)
+   */
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+    cost = 1,
+  ): Promise<RateLimitResult> {
+    let result = applyRateLimit(policy, null, Date.now(), cost).result;
+    try {
+      await this.store.update(key, stateTtlSeconds(policy), (state) => {
+        const applied = applyRateLimit(policy, state, Date.now(), cost);
+        result = applied.result;
+        return applied.state;
+      });
+    } catch (error) {
+      this.logError("consume", error);
+    }
+    return result;
+  }
+
+  /**
+   * Check whether a hit would be allowed, without taking it
+   */
+  async check(
+    key: string,
+    policy: RateLimitPolicy,
+    cost = 1,
+  ): Promise<RateLimitResult> {
+    let state: RateLimitState | null = null;
+    try {
+      state = await this.store.get(key);
+    } catch (error) {
+      this.logError("check", error);
+    }
+    return applyRateLimit(policy, state, Date.now(), cost).result;
+  }
+
+  /**
+   * Wait until a hit is allowed, then take it
+   *
+   * For outgoing requests to rate-limited APIs.
+   */
+  async acquire(key: string, policy: RateLimitPolicy): Promise<void> {
+    while (true) {
+      const result = await this.consume(key, policy);
+      if (result.allowed) {
+        return;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.max(1, result.retryAfterMs ?? 1000))
+      );
+    }
+  }
+
+  /**
+   * Forget a key's hits
+   */
+  async reset(key: string): Promise<void> {
+    try {
+      await this.store.delete(key);
+    } catch (error) {
+      this.logError("reset", error);
+    }
+  }
+
+  private logError(action: string, error: unknown): void {
+    console.warn(
+      `Rate limit ${action} error (${this.store.name}): ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
+/**
+ * Standard rate limit headers for a result
+ *
+ * RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset (seconds) follow
+ * the IETF RateLimit header fields draft; Retry-After is added when the hit
+ * was refused.
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+  };
+  if (result.retryAfterMs !== null) {
+    headers["Retry-After"] = String(
+      Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+    );
+  }
+  return headers;
+}
+
+// Singleton limiter instance
+export const rateLimiter = new RateLimiter(createRateLimitStoreFromEnv());
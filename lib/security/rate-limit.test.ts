@@ -13,6 +13,10 @@ import {
   getRateLimitStatus,
   recordFailedAttempt,
 } from "./rate-limit.ts";
+import { rateLimiter } from "./limiter.ts";
+import { MemoryRateLimitStore } from "./limiter-stores.ts";
+
+rateLimiter.setStore(new MemoryRateLimitStore());
 
 Deno.test("getClientIp should extract IP from X-Forwarded-For header", () => {
   const headers = new Headers();
@@ -49,106 +53,106 @@ Deno.test("getClientIp should return 'unknown' when no headers present", () => {
   assertEquals(ip, "unknown");
 });
 
-Deno.test("checkRateLimit should return not blocked for new identifier", () => {
+Deno.test("checkRateLimit should return not blocked for new identifier", async () => {
   const identifier = "test-ip-1";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
-  const result = checkRateLimit(identifier);
+  const result = await checkRateLimit(identifier);
   assertEquals(result.isBlocked, false);
   assertEquals(result.remainingSeconds, null);
 });
 
-Deno.test("recordFailedAttempt should track attempts", () => {
+Deno.test("recordFailedAttempt should track attempts", async () => {
   const identifier = "test-ip-2";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
-  recordFailedAttempt(identifier);
-  const status = getRateLimitStatus(identifier);
+  await recordFailedAttempt(identifier);
+  const status = await getRateLimitStatus(identifier);
   assertEquals(status.attemptCount, 1);
 });
 
-Deno.test("recordFailedAttempt should block after max attempts", () => {
+Deno.test("recordFailedAttempt should block after max attempts", async () => {
   const identifier = "test-ip-3";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
   // Record 10 failed attempts (the limit)
   for (let i = 0; i < 10; i++) {
-    recordFailedAttempt(identifier);
+    await recordFailedAttempt(identifier);
   }
 
-  const result = checkRateLimit(identifier);
+  const result = await checkRateLimit(identifier);
   assertEquals(result.isBlocked, true);
   assert(result.remainingSeconds !== null);
   assert(result.remainingSeconds! > 0);
 });
 
-Deno.test("clearFailedAttempts should reset rate limit", () => {
+Deno.test("clearFailedAttempts should reset rate limit", async () => {
   const identifier = "test-ip-4";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
-  recordFailedAttempt(identifier);
-  clearFailedAttempts(identifier);
+  await recordFailedAttempt(identifier);
+  await clearFailedAttempts(identifier);
 
-  const result = checkRateLimit(identifier);
+  const result = await checkRateLimit(identifier);
   assertEquals(result.isBlocked, false);
   assertEquals(result.remainingSeconds, null);
 
-  const status = getRateLimitStatus(identifier);
+  const status = await getRateLimitStatus(identifier);
   assertEquals(status.attemptCount, 0);
 });
 
-Deno.test("getRateLimitStatus should return correct attempt count", () => {
+Deno.test("getRateLimitStatus should return correct attempt count", async () => {
   const identifier = "test-ip-5";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
-  recordFailedAttempt(identifier);
-  recordFailedAttempt(identifier);
+  await recordFailedAttempt(identifier);
+  await recordFailedAttempt(identifier);
 
-  const status = getRateLimitStatus(identifier);
+  const status = await getRateLimitStatus(identifier);
   assertEquals(status.attemptCount, 2);
 });
 
-Deno.test("getRateLimitStatus should return null remainingSeconds when not blocked", () => {
+Deno.test("getRateLimitStatus should return null remainingSeconds when not blocked", async () => {
   const identifier = "test-ip-6";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
-  recordFailedAttempt(identifier);
+  await recordFailedAttempt(identifier);
 
-  const status = getRateLimitStatus(identifier);
+  const status = await getRateLimitStatus(identifier);
   assertEquals(status.remainingSeconds, null);
 });
 
-Deno.test("getRateLimitStatus should return remainingSeconds when blocked", () => {
+Deno.test("getRateLimitStatus should return remainingSeconds when blocked", async () => {
   const identifier = "test-ip-7";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
   // Record 10 failed attempts to trigger block
   for (let i = 0; i < 10; i++) {
-    recordFailedAttempt(identifier);
+    await recordFailedAttempt(identifier);
   }
 
-  const status = getRateLimitStatus(identifier);
+  const status = await getRateLimitStatus(identifier);
   assertEquals(status.attemptCount, 10);
   assert(status.remainingSeconds !== null);
   assert(status.remainingSeconds! > 0);
 });
 
-Deno.test("checkRateLimit should clean up old attempts outside window", () => {
+Deno.test("checkRateLimit should clean up old attempts outside window", async () => {
   const identifier = "test-ip-8";
-  clearFailedAttempts(identifier);
+  await clearFailedAttempts(identifier);
 
   // This test verifies that old attempts are cleaned up
   // We can't easily test time-based cleanup without mocking time,
   // but we can verify the function handles it correctly
-  recordFailedAttempt(identifier);
-  const result1 = checkRateLimit(identifier);
+  await recordFailedAttempt(identifier);
+  const result1 = await checkRateLimit(identifier);
   assertEquals(result1.isBlocked, false);
 
   // Record many attempts
   for (let i = 0; i < 5; i++) {
-    recordFailedAttempt(identifier);
+    await recordFailedAttempt(identifier);
   }
 
-  const result2 = checkRateLimit(identifier);
+  const result2 = await checkRateLimit(identifier);
   assertEquals(result2.isBlocked, false); // Should not be blocked yet
 });
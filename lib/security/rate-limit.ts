@@ -2,47 +2,32 @@
  * Rate limiting utilities for authentication endpoints
  *
  * Implements rate limiting to prevent brute force attacks on login and signup endpoints.
- * Uses a sliding window approach to track failed attempts per identifier (IP address or email).
+ * Failed attempts per identifier (IP address or email) are counted by the shared
+ * rate limiter, so the limit holds across every app instance.
  */
 
-// Rate limit configuration: 10 failed attempts per 15 minutes
-const MAX_FAILED_ATTEMPTS = 10;
-const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+import {
+  rateLimiter,
+  type RateLimitPolicy,
+  type RateLimitResult,
+} from "./limiter.ts";
 
-/**
- * Rate limit entry tracking failed attempts
- */
-interface RateLimitEntry {
-  attempts: number[];
-  blockedUntil: number | null;
+// Rate limit configuration: 10 failed attempts per 15 minutes
+const FAILED_ATTEMPTS_POLICY: RateLimitPolicy = {
+  algorithm: "sliding-window",
+  limit: 10,
+  windowSeconds: 15 * 60,
+};
+
+function failedAttemptsKey(identifier: string): string {
+  return `auth:${identifier}`;
 }
 
-/**
- * In-memory store for rate limit entries
- * Key: identifier (IP address or email)
- * Value: RateLimitEntry with attempt timestamps
- */
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-/**
- * Clean up old entries periodically to prevent memory leaks
- */
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    // Remove entries that are no longer blocked and have no recent attempts
-    if (
-      (!entry.blockedUntil || entry.blockedUntil < now) &&
-      entry.attempts.length === 0
-    ) {
-      rateLimitStore.delete(key);
-    } else {
-      // Clean up old attempts outside the window
-      const windowStart = now - RATE_LIMIT_WINDOW_MS;
-      entry.attempts = entry.attempts.filter((time) => time > windowStart);
-    }
-  }
-}, 5 * 60 * 1000); // Clean up every 5 minutes
+function toRemainingSeconds(result: RateLimitResult): number | null {
+  return result.allowed
+    ? null
+    : Math.max(1, Math.ceil((result.retryAfterMs ?? 0) / 1000));
+}
 
 /**
  * Get client IP address from request
@@ -72,40 +57,17 @@ export function getClientIp(req: Request): string {
  * @param identifier Unique identifier (IP address or email)
  * @returns Object with isBlocked flag and remaining time in seconds if blocked
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
-): { isBlocked: boolean; remainingSeconds: number | null } {
-  const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
-
-  // No previous attempts, allow request
-  if (!entry) {
-    return { isBlocked: false, remainingSeconds: null };
-  }
-
-  // Check if currently blocked
-  if (entry.blockedUntil && entry.blockedUntil > now) {
-    const remainingSeconds = Math.ceil((entry.blockedUntil - now) / 1000);
-    return { isBlocked: true, remainingSeconds };
-  }
-
-  // Clean up old attempts outside the window
-  const windowStart = now - RATE_LIMIT_WINDOW_MS;
-  entry.attempts = entry.attempts.filter((time) => time > windowStart);
-
-  // Check if limit exceeded
-  if (entry.attempts.length >= MAX_FAILED_ATTEMPTS) {
-    // Block for the remaining window time
-    const oldestAttempt = Math.min(...entry.attempts);
-    const blockUntil = oldestAttempt + RATE_LIMIT_WINDOW_MS;
-    entry.blockedUntil = blockUntil;
-    const remainingSeconds = Math.ceil((blockUntil - now) / 1000);
-    return { isBlocked: true, remainingSeconds };
-  }
-
-  // Not blocked, clear any previous block
-  entry.blockedUntil = null;
-  return { isBlocked: false, remainingSeconds: null };
+): Promise<{ isBlocked: boolean; remainingSeconds: number | null }> {
+  const result = await rateLimiter.check(
+    failedAttemptsKey(identifier),
+    FAILED_ATTEMPTS_POLICY,
+  );
+  return {
+    isBlocked: !result.allowed,
+    remainingSeconds: toRemainingSeconds(result),
+  };
 }
 
 /**
@@ -113,27 +75,11 @@ export function checkRateLimit(
  *
  * @param identifier Unique identifier (IP address or email)
  */
-export function recordFailedAttempt(identifier: string): void {
-  const now = Date.now();
-  let entry = rateLimitStore.get(identifier);
-
-  if (!entry) {
-    entry = { attempts: [], blockedUntil: null };
-    rateLimitStore.set(identifier, entry);
-  }
-
-  // Add current timestamp to attempts
-  entry.attempts.push(now);
-
-  // Clean up old attempts outside the window
-  const windowStart = now - RATE_LIMIT_WINDOW_MS;
-  entry.attempts = entry.attempts.filter((time) => time > windowStart);
-
-  // Check if limit exceeded and set block
-  if (entry.attempts.length >= MAX_FAILED_ATTEMPTS) {
-    const oldestAttempt = Math.min(...entry.attempts);
-    entry.blockedUntil = oldestAttempt + RATE_LIMIT_WINDOW_MS;
-  }
+export async function recordFailedAttempt(identifier: string): Promise<void> {
+  await rateLimiter.consume(
+    failedAttemptsKey(identifier),
+    FAILED_ATTEMPTS_POLICY,
+  );
 }
 
 /**
@@ -141,8 +87,8 @@ export function recordFailedAttempt(identifier: string): void {
  *
  * @param identifier Unique identifier (IP address or email)
  */
-export function clearFailedAttempts(identifier: string): void {
-  rateLimitStore.delete(identifier);
+export async function clearFailedAttempts(identifier: string): Promise<void> {
+  await rateLimiter.reset(failedAttemptsKey(identifier));
 }
 
 /**
@@ -151,26 +97,17 @@ export function clearFailedAttempts(identifier: string): void {
  * @param identifier Unique identifier (IP address or email)
  * @returns Object with attempt count and remaining time
  */
-export function getRateLimitStatus(identifier: string): {
+export async function getRateLimitStatus(identifier: string): Promise<{
   attemptCount: number;
   remainingSeconds: number | null;
-} {
-  const entry = rateLimitStore.get(identifier);
-  if (!entry) {
-    return { attemptCount: 0, remainingSeconds: null };
-  }
-
-  const now = Date.now();
-  const windowStart = now - RATE_LIMIT_WINDOW_MS;
-  const recentAttempts = entry.attempts.filter((time) => time > windowStart);
-
-  let remainingSeconds: number | null = null;
-  if (entry.blockedUntil && entry.blockedUntil > now) {
-    remainingSeconds = Math.ceil((entry.blockedUntil - now) / 1000);
-  }
+}> {
+  const key = failedAttemptsKey(identifier);
+  // A zero-cost check reports the attempts used without needing another one
+  const usage = await rateLimiter.check(key, FAILED_ATTEMPTS_POLICY, 0);
+  const next = await rateLimiter.check(key, FAILED_ATTEMPTS_POLICY);
 
   return {
-    attemptCount: recentAttempts.length,
-    remainingSeconds,
+    attemptCount: usage.limit - usage.remaining,
+    remainingSeconds: toRemainingSeconds(next),
   };
 }
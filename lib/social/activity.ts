@@ -0,0 +1,234 @@
+/**
+ * Activity events and the social feed
+ *
+ * Records watched, rated and list events as users act, and reads them back
+ * for followers. Privacy is applied at read time: events only appear while
+ * the actor's profile is public, list events only for public lists, and
+ * events whose underlying library entry or list item has since been removed
+ * are hidden.
+ */
+
+import { query } from "../db.ts";
+import { publicProfileCondition } from "./follows.ts";
+
+export type ActivityEventType = "watched" | "rated" | "list_add";
+
+/**
+ * Feed entry as returned to clients
+ */
+export interface FeedEvent {
+  id: string;
+  type: ActivityEventType;
+  created_at: string;
+  rating: number | null;
+  user: {
+    id: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  };
+  content: {
+    tmdb_id: number;
+    type: "movie" | "tv" | "documentary";
+    title: string;
+    poster_path: string | null;
+  };
+  list: { id: string; name: string } | null;
+}
+
+/**
+ * Followed user who has watched a title
+ */
+export interface FriendWhoWatched {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  rating: number | null;
+  watched_at: string | null;
+}
+
+interface FeedRow {
+  id: string;
+  event_type: ActivityEventType;
+  rating: string | number | null;
+  created_at: Date;
+  user_id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  tmdb_id: number;
+  content_type: "movie" | "tv" | "documentary";
+  title: string;
+  poster_path: string | null;
+  list_id: string | null;
+  list_name: string | null;
+}
+
+/**
+ * Record an activity event for a user
+ *
+ * Keeps a single event per user, type, title and list: repeating an action
+ * (re-rating, re-watching) moves the event to the top of the feed rather than
+ * adding a duplicate. Failures are logged and swallowed so the user's action
+ * never fails because of the feed.
+ *
+ * @param userId User who acted
+ * @param eventType Type of event
+ * @param contentId Content record ID
+ * @param options List ID for list events, rating for rated events
+ */
+export async function recordActivity(
+  userId: string,
+  eventType: ActivityEventType,
+  contentId: string,
+  options: { listId?: string; rating?: number } = {},
+): Promise<void> {
+  try {
+    await query(
+      `DELETE FROM activity_events
+       WHERE user_id = $1 AND event_type = $2 AND content_id = $3
+         AND list_id IS NOT DISTINCT FROM $4`,
+      [userId, eventType, contentId, options.listId ?? null],
+    );
+    await query(
+      `INSERT INTO activity_events (user_id, event_type, content_id, list_id, rating)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        userId,
+        eventType,
+        contentId,
+        options.listId ?? null,
+        options.rating ?? null,
+      ],
+    );
+  } catch (error) {
+    console.error("Error recording activity event:", error);
+  }
+}
+
+/**
+ * Get the activity feed for a user
+ *
+ * @param userId User whose feed to build (the follower)
+ * @param options Page size and an optional cursor (events before this time)
+ * @returns Feed events, newest first
+ */
+export async function getFeed(
+  userId: string,
+  options: { limit: number; before?: Date | null },
+): Promise<FeedEvent[]> {
+  const rows = await query<FeedRow>(
+    `SELECT
+       ae.id,
+       ae.event_type,
+       ae.rating,
+       ae.created_at,
+       u.id AS user_id,
+       u.display_name,
+       u.avatar_url,
+       c.tmdb_id,
+       c.type AS content_type,
+       c.title,
+       c.poster_path,
+       l.id AS list_id,
+       l.name AS list_name
+     FROM follows f
+     INNER JOIN users u ON u.id = f.following_id
+     INNER JOIN activity_events ae ON ae.user_id = f.following_id
+     INNER JOIN content c ON c.id = ae.content_id
+     LEFT JOIN lists l ON l.id = ae.list_id
+     WHERE f.follower_id = $1
+       AND ${publicProfileCondition("u")}
+       AND ($2::timestamptz IS NULL OR ae.created_at < $2)
+       AND CASE ae.event_type
+         WHEN 'list_add' THEN l.is_public = true AND EXISTS (
+           SELECT 1 FROM list_items li
+           WHERE li.list_id = l.id AND li.content_id = ae.content_id
+         )
+         WHEN 'rated' THEN EXISTS (
+           SELECT 1 FROM user_content uc
+           WHERE uc.user_id = ae.user_id AND uc.content_id = ae.content_id
+             AND uc.rating IS NOT NULL
+         )
+         ELSE EXISTS (
+           SELECT 1 FROM user_content uc
+           WHERE uc.user_id = ae.user_id AND uc.content_id = ae.content_id
+             AND uc.status IN ('watched', 'favourite')
+         )
+       END
+     ORDER BY ae.created_at DESC
+     LIMIT $3`,
+    [userId, options.before ?? null, options.limit],
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    type: row.event_type,
+    created_at: row.created_at.toISOString(),
+    rating: row.rating === null ? null : Number(row.rating),
+    user: {
+      id: row.user_id,
+      display_name: row.display_name,
+      avatar_url: row.avatar_url,
+    },
+    content: {
+      tmdb_id: row.tmdb_id,
+      type: row.content_type,
+      title: row.title,
+      poster_path: row.poster_path,
+    },
+    list: row.list_id && row.list_name
+      ? { id: row.list_id, name: row.list_name }
+      : null,
+  }));
+}
+
+/**
+ * Get followed users who have watched a title
+ *
+ * @param userId Viewing user
+ * @param contentId Content record ID
+ * @param limit Maximum number of friends to return
+ * @returns Friends who watched (most recent first) and the total count
+ */
+export async function getFriendsWhoWatched(
+  userId: string,
+  contentId: string,
+  limit: number,
+): Promise<{ friends: FriendWhoWatched[]; total: number }> {
+  const rows = await query<{
+    id: string;
+    display_name: string | null;
+    avatar_url: string | null;
+    rating: string | number | null;
+    watched_at: Date | null;
+    total: number;
+  }>(
+    `SELECT
+       u.id,
+       u.display_name,
+       u.avatar_url,
+       uc.rating,
+       uc.watched_at,
+       COUNT(*) OVER ()::int AS total
+     FROM follows f
+     INNER JOIN users u ON u.id = f.following_id
+     INNER JOIN user_content uc ON uc.user_id = u.id
+     WHERE f.follower_id = $1
+       AND uc.content_id = $2
+       AND uc.status IN ('watched', 'favourite')
+       AND ${publicProfileCondition("u")}
+     ORDER BY uc.watched_at DESC NULLS LAST
+     LIMIT $3`,
+    [userId, contentId, limit],
+  );
+
+  return {
+    friends: rows.map((row) => ({
+      id: row.id,
+      display_name: row.display_name,
+      avatar_url: row.avatar_url,
+      rating: row.rating === null ? null : Number(row.rating),
+      watched_at: row.watched_at?.toISOString() ?? null,
+    })),
+    total: rows[0]?.total ?? 0,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Follow relationships between users
+ *
+ * Follows are one-way. Only users with a public profile can be followed, and
+ * a followed user who later makes their profile private simply drops out of
+ * their followers' feeds until they make it public again.
+ */
+
+import { query } from "../db.ts";
+
+/**
+ * Follower and following counts for a user
+ */
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+/**
+ * SQL condition matching users whose profile is public
+ *
+ * @param alias Table alias for the users table
+ */
+export function publicProfileCondition(alias: string): string {
+  return `COALESCE((${alias}.preferences->>'public_profile_enabled')::boolean, false) = true`;
+}
+
+/**
+ * Check whether a user exists and has a public profile
+ *
+ * @param userId User ID
+ * @returns true if the user's profile is public
+ */
+export async function hasPublicProfile(userId: string): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    `SELECT u.id FROM users u WHERE u.id = $1 AND ${
+      publicProfileCondition("u")
+    }`,
+    [userId],
+  );
+  return result.length > 0;
+}
+
+/**
+ * Follow a user
+ *
+ * Idempotent: following someone twice is a no-op.
+ *
+ * @param followerId User doing the following
+ * @param followingId User being followed
+ */
+export async function followUser(
+  followerId: string,
+  followingId: string,
+): Promise<void> {
+  await query(
+    `INSERT INTO follows (follower_id, following_id)
+     VALUES ($1, $2)
+     ON CONFLICT (follower_id, following_id) DO NOTHING`,
+    [followerId, followingId],
+  );
+}
+
+/**
+ * Unfollow a user
+ *
+ * @param followerId User doing the unfollowing
+ * @param followingId User being unfollowed
+ */
+export async function unfollowUser(
+  followerId: string,
+  followingId: string,
+): Promise<void> {
+  await query(
+    "DELETE FROM follows WHERE follower_id = $1 AND following_id = $2",
+    [followerId, followingId],
+  );
+}
+
+/**
+ * Check whether one user follows another
+ *
+ * @param followerId Potential follower
+ * @param followingId Potentially followed user
+ * @returns true if followerId follows followingId
+ */
+export async function isFollowing(
+  followerId: string,
+  followingId: string,
+): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    "SELECT id FROM follows WHERE follower_id = $1 AND following_id = $2",
+    [followerId, followingId],
+  );
+  return result.length > 0;
+}
+
+/**
+ * Get follower and following counts for a user
+ *
+ * @param userId User ID
+ * @returns Follower and following counts
+ */
+export async function getFollowCounts(userId: string): Promise<FollowCounts> {
+  const result = await query<{ followers: number; following: number }>(
+    `SELECT
+       (SELECT COUNT(*)::int FROM follows WHERE following_id = $1) AS followers,
+       (SELECT COUNT(*)::int FROM follows WHERE follower_id = $1) AS following`,
+    [userId],
+  );
+  return {
+    followers: result[0]?.followers || 0,
+    following: result[0]?.following || 0,
+  };
+}
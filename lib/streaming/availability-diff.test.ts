@@ -0,0 +1,86 @@
+/**
+ * Unit tests for streaming availability diffing
+ */
+
+import { assertEquals } from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  type AvailabilityOffer,
+  diffAvailability,
+} from "./availability-diff.ts";
+
+function offer(
+  overrides: Partial<AvailabilityOffer> = {},
+): AvailabilityOffer {
+  return {
+    service_id: "netflix",
+    region: "US",
+    type: "subscription",
+    price: null,
+    ...overrides,
+  };
+}
+
+Deno.test("diffAvailability should report nothing when availability is unchanged", () => {
+  assertEquals(
+    diffAvailability([offer(), offer({ type: "rent" })], [
+      offer({ type: "rent" }),
+      offer(),
+    ]),
+    [],
+  );
+});
+
+Deno.test("diffAvailability should report added and removed offers", () => {
+  const changes = diffAvailability(
+    [offer(), offer({ region: "GB" })],
+    [offer(), offer({ service_id: "hulu" })],
+  );
+
+  assertEquals(changes, [
+    { ...offer({ service_id: "hulu" }), change: "added", previous_price: null },
+    {
+      ...offer({ region: "GB" }),
+      change: "removed",
+      previous_price: null,
+      price: null,
+    },
+  ]);
+});
+
+Deno.test("diffAvailability should treat a new type on the same service as added", () => {
+  const changes = diffAvailability([offer({ type: "rent" })], [
+    offer({ type: "rent" }),
+    offer({ type: "subscription" }),
+  ]);
+
+  assertEquals(changes.map((c) => [c.type, c.change]), [
+    ["subscription", "added"],
+  ]);
+});
+
+Deno.test("diffAvailability should report price changes only when both prices are known", () => {
+  const changes = diffAvailability(
+    [
+      offer({ type: "rent", price: 3.99 }),
+      offer({ type: "buy", price: null }),
+    ],
+    [
+      offer({ type: "rent", price: 2.99 }),
+      offer({ type: "buy", price: 9.99 }),
+    ],
+  );
+
+  assertEquals(changes, [
+    {
+      ...offer({ type: "rent", price: 2.99 }),
+      change: "price_changed",
+      previous_price: 3.99,
+    },
+  ]);
+});
+
+Deno.test("diffAvailability should collapse duplicate current offers", () => {
+  const changes = diffAvailability([], [offer(), offer()]);
+
+  assertEquals(changes.length, 1);
+});
@@ -0,0 +1,83 @@
+/**
+ * Streaming availability diffing
+ *
+ * Pure helpers for comparing a title's stored availability with what TMDB
+ * reports now, producing the transitions the sync job records.
+ */
+
+export type StreamingType = "subscription" | "rent" | "buy";
+
+/**
+ * One way to watch a title: a service, region and availability type
+ */
+export interface AvailabilityOffer {
+  service_id: string;
+  region: string;
+  type: StreamingType;
+  price: number | null;
+}
+
+export type AvailabilityChangeKind = "added" | "removed" | "price_changed";
+
+/**
+ * A transition in one offer between two syncs
+ */
+export interface AvailabilityChange extends AvailabilityOffer {
+  change: AvailabilityChangeKind;
+  /** Price before the change (null for added offers) */
+  previous_price: number | null;
+}
+
+/**
+ * Key identifying an offer, matching content_streaming's unique constraint
+ */
+export function offerKey(offer: AvailabilityOffer): string {
+  return `${offer.service_id}:${offer.region}:${offer.type}`;
+}
+
+/**
+ * Compare stored offers with current ones
+ *
+ * Offers are compared by service, region and type. Duplicate current offers
+ * (TMDB sometimes lists a provider twice) are collapsed.
+ *
+ * @param previous Offers stored before the sync
+ * @param current Offers reported now
+ * @returns Added, removed and re-priced offers
+ */
+export function diffAvailability(
+  previous: AvailabilityOffer[],
+  current: AvailabilityOffer[],
+): AvailabilityChange[] {
+  const before = new Map(previous.map((offer) => [offerKey(offer), offer]));
+  const after = new Map(current.map((offer) => [offerKey(offer), offer]));
+  const changes: AvailabilityChange[] = [];
+
+  for (const [key, offer] of after) {
+    const old = before.get(key);
+    if (!old) {
+      changes.push({ ...offer, change: "added", previous_price: null });
+    } else if (
+      old.price !== null && offer.price !== null && old.price !== offer.price
+    ) {
+      changes.push({
+        ...offer,
+        change: "price_changed",
+        previous_price: old.price,
+      });
+    }
+  }
+
+  for (const [key, offer] of before) {
+    if (!after.has(key)) {
+      changes.push({
+        ...offer,
+        change: "removed",
+        previous_price: offer.price,
+        price: null,
+      });
+    }
+  }
+
+  return changes;
+}
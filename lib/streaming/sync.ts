@@ -2,10 +2,12 @@
  * Streaming availability sync module
  *
  * Provides functions to sync streaming availability data from TMDB API
- * to the content_streaming table. Handles rate limiting and batch processing.
+ * to the content_streaming table. TMDB requests are made at background
+ * priority, so page loads are served first; the TMDB client handles rate
+ * limiting.
  */
 
-import { query } from "../db.ts";
+import { type PoolClient, query, transaction } from "../db.ts";
 import {
   getMovieWatchProviders,
   getTvWatchProviders,
@@ -14,6 +16,12 @@ import {
   type WatchProvidersResponse,
 } from "../tmdb/client.ts";
 import type { ContentRecord } from "../content.ts";
+import { queueNowAvailableAlerts } from "../notifications/now-available.ts";
+import {
+  type AvailabilityChange,
+  type AvailabilityOffer,
+  diffAvailability,
+} from "./availability-diff.ts";
 
 /**
  * Streaming service record from database
@@ -49,6 +57,10 @@ export interface ContentSyncResult {
   tmdbId: number;
   success: boolean;
   providersAdded: number;
+  /** Availability transitions recorded since the last sync */
+  changes: number;
+  /** "Now available" alerts queued for watchlist users */
+  alertsQueued: number;
   errorMessage?: string;
 }
 
@@ -60,6 +72,8 @@ export interface SyncJobResult {
   successCount: number;
   failCount: number;
   providersAdded: number;
+  changes: number;
+  alertsQueued: number;
   expiredRemoved: number;
   duration: number;
 }
@@ -102,64 +116,149 @@ async function getOrCreateStreamingService(
   return result[0].id;
 }
 
+/**
+ * Save a title's current streaming availability and record what changed
+ *
+ * Runs in a transaction holding the content row lock, so concurrent syncs of
+ * the same title can't record the same transition twice. Offers in the synced
+ * regions that TMDB no longer reports are removed.
+ *
+ * @param content Content record being synced
+ * @param regions Regions that were synced
+ * @param offers Offers TMDB reports now
+ * @returns Changes recorded and "now available" alerts queued
+ */
+async function saveStreamingAvailability(
+  content: ContentRecord,
+  regions: readonly SupportedRegion[],
+  offers: AvailabilityOffer[],
+): Promise<{ changes: AvailabilityChange[]; alertsQueued: number }> {
+  return await transaction(async (client) => {
+    const locked = await client.queryObject<
+      { streaming_synced_at: Date | null }
+    >(
+      `SELECT streaming_synced_at FROM content WHERE id = $1 FOR UPDATE`,
+      [content.id],
+    );
+
+    const previous = await client.queryObject<AvailabilityOffer>(
+      `SELECT service_id, region, type::text AS type, price::float8 AS price
+       FROM content_streaming
+       WHERE content_id = $1 AND region = ANY($2::text[])`,
+      [content.id, [...regions]],
+    );
+
+    const changes = diffAvailability(previous.rows, offers);
+
+    for (const offer of offers) {
+      await upsertStreamingAvailability(client, content.id, offer);
+    }
+
+    for (const change of changes) {
+      if (change.change === "removed") {
+        await client.queryObject(
+          `DELETE FROM content_streaming
+           WHERE content_id = $1 AND service_id = $2 AND region = $3 AND type = $4`,
+          [content.id, change.service_id, change.region, change.type],
+        );
+      }
+
+      await client.queryObject(
+        `INSERT INTO content_availability_changes
+           (content_id, service_id, region, type, change, previous_price, price)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          content.id,
+          change.service_id,
+          change.region,
+          change.type,
+          change.change,
+          change.previous_price,
+          change.price,
+        ],
+      );
+    }
+
+    await client.queryObject(
+      `UPDATE content SET streaming_synced_at = NOW() WHERE id = $1`,
+      [content.id],
+    );
+
+    // A title's first sync is a baseline, not news
+    const alertsQueued = locked.rows[0]?.streaming_synced_at
+      ? await queueNowAvailableAlerts(client, content, changes)
+      : 0;
+
+    return { changes, alertsQueued };
+  });
+}
+
 /**
  * Upsert streaming availability record
  *
  * Inserts or updates a content_streaming record.
  *
+ * @param client Transaction client
  * @param contentId Content database ID
- * @param serviceId Streaming service database ID
- * @param region Region code (e.g., "US", "GB")
- * @param type Availability type (subscription, rent, buy)
- * @param price Optional price for rent/buy
+ * @param offer Service, region, type (subscription, rent, buy) and price
  */
 async function upsertStreamingAvailability(
+  client: PoolClient,
   contentId: string,
-  serviceId: string,
-  region: string,
-  type: "subscription" | "rent" | "buy",
-  price: number | null = null,
+  offer: AvailabilityOffer,
 ): Promise<void> {
-  await query(
+  await client.queryObject(
     `INSERT INTO content_streaming (content_id, service_id, region, type, price)
      VALUES ($1, $2, $3, $4, $5)
      ON CONFLICT (service_id, content_id, region, type)
      DO UPDATE SET
        price = EXCLUDED.price,
        updated_at = NOW()`,
-    [contentId, serviceId, region, type, price],
+    [contentId, offer.service_id, offer.region, offer.type, offer.price],
   );
 }
 
+/**
+ * Fetch a title's watch providers from TMDB at background priority
+ */
+function fetchWatchProviders(
+  content: ContentRecord,
+): Promise<WatchProvidersResponse> {
+  return content.type === "movie"
+    ? getMovieWatchProviders(content.tmdb_id, "background")
+    : getTvWatchProviders(content.tmdb_id, "background");
+}
+
 /**
  * Sync streaming availability for a single content item
  *
- * Fetches watch providers from TMDB and updates the database.
+ * Fetches watch providers from TMDB, updates the database and records any
+ * availability changes since the last sync.
  *
  * @param content Content record to sync
  * @param regions Regions to sync availability for
+ * @param prefetched Watch providers already being fetched, if any
  * @returns Sync result
  */
 export async function syncContentStreamingAvailability(
   content: ContentRecord,
   regions: readonly SupportedRegion[] = SUPPORTED_REGIONS,
+  prefetched?: Promise<WatchProvidersResponse>,
 ): Promise<ContentSyncResult> {
   const result: ContentSyncResult = {
     contentId: content.id,
     tmdbId: content.tmdb_id,
     success: false,
     providersAdded: 0,
+    changes: 0,
+    alertsQueued: 0,
   };
 
   try {
     // Fetch watch providers from TMDB
-    let providers: WatchProvidersResponse;
+    const providers = await (prefetched ?? fetchWatchProviders(content));
 
-    if (content.type === "movie") {
-      providers = await getMovieWatchProviders(content.tmdb_id);
-    } else {
-      providers = await getTvWatchProviders(content.tmdb_id);
-    }
+    const offers: AvailabilityOffer[] = [];
 
     // Process each region
     for (const region of regions) {
@@ -175,13 +274,12 @@ export async function syncContentStreamingAvailability(
             provider.provider_name,
             provider.logo_path,
           );
-          await upsertStreamingAvailability(
-            content.id,
-            serviceId,
+          offers.push({
+            service_id: serviceId,
             region,
-            "subscription",
-          );
-          result.providersAdded++;
+            type: "subscription",
+            price: null,
+          });
         }
       }
 
@@ -192,13 +290,12 @@ export async function syncContentStreamingAvailability(
             provider.provider_name,
             provider.logo_path,
           );
-          await upsertStreamingAvailability(
-            content.id,
-            serviceId,
+          offers.push({
+            service_id: serviceId,
             region,
-            "rent",
-          );
-          result.providersAdded++;
+            type: "rent",
+            price: null,
+          });
         }
       }
 
@@ -209,17 +306,20 @@ export async function syncContentStreamingAvailability(
             provider.provider_name,
             provider.logo_path,
           );
-          await upsertStreamingAvailability(
-            content.id,
-            serviceId,
+          offers.push({
+            service_id: serviceId,
             region,
-            "buy",
-          );
-          result.providersAdded++;
+            type: "buy",
+            price: null,
+          });
         }
       }
     }
 
+    const saved = await saveStreamingAvailability(content, regions, offers);
+    result.providersAdded = offers.length;
+    result.changes = saved.changes.length;
+    result.alertsQueued = saved.alertsQueued;
     result.success = true;
   } catch (error) {
     result.errorMessage = error instanceof Error
@@ -237,14 +337,22 @@ export async function syncContentStreamingAvailability(
 /**
  * Remove expired streaming availability records
  *
- * Removes records where available_until date has passed.
+ * Removes records where available_until date has passed, recording each as a
+ * removed availability change.
  *
  * @returns Number of records removed
  */
 export async function removeExpiredAvailability(): Promise<number> {
-  const result = await query<{ count: string }>(
-    `DELETE FROM content_streaming
-     WHERE available_until < CURRENT_DATE
+  const result = await query<{ id: string }>(
+    `WITH expired AS (
+       DELETE FROM content_streaming
+       WHERE available_until < CURRENT_DATE
+       RETURNING content_id, service_id, region, type, price
+     )
+     INSERT INTO content_availability_changes
+       (content_id, service_id, region, type, change, previous_price)
+     SELECT content_id, service_id, region, type, 'removed', price
+     FROM expired
      RETURNING id`,
   );
 
@@ -255,8 +363,8 @@ export async function removeExpiredAvailability(): Promise<number> {
  * Get content items that need streaming availability updates
  *
  * Returns content that either:
- * - Has no streaming availability records
- * - Has streaming records older than the specified age
+ * - Has never been synced
+ * - Was last synced longer ago than the specified age
  *
  * @param limit Maximum number of items to return
  * @param maxAgeHours Maximum age of streaming data before refresh (default: 24 hours)
@@ -266,19 +374,14 @@ export async function getContentNeedingStreamingSync(
   limit: number = 100,
   maxAgeHours: number = 24,
 ): Promise<ContentRecord[]> {
-  // Get content that either has no streaming data or has stale data
+  // Get content that has never been synced or was synced too long ago
   const results = await query<ContentRecord>(
     `SELECT c.*
      FROM content c
-     LEFT JOIN (
-       SELECT content_id, MAX(updated_at) as last_updated
-       FROM content_streaming
-       GROUP BY content_id
-     ) cs ON c.id = cs.content_id
-     WHERE cs.content_id IS NULL
-        OR cs.last_updated < NOW() - INTERVAL '1 hour' * $1
+     WHERE c.streaming_synced_at IS NULL
+        OR c.streaming_synced_at < NOW() - INTERVAL '1 hour' * $1
      ORDER BY
-       cs.last_updated NULLS FIRST,
+       c.streaming_synced_at NULLS FIRST,
        c.updated_at DESC
      LIMIT $2`,
     [maxAgeHours, limit],
@@ -290,16 +393,16 @@ export async function getContentNeedingStreamingSync(
 /**
  * Process streaming availability sync job
  *
- * Syncs streaming availability for content items with rate limiting.
+ * Syncs streaming availability for content items. Watch providers for every
+ * item are requested up front, and the TMDB client's queue spreads them out;
+ * database updates then run one item at a time.
  *
  * @param maxItems Maximum number of items to process
- * @param delayMs Delay between API calls in milliseconds (default: 25ms = 40 req/sec)
  * @param maxAgeHours Maximum age of streaming data before refresh (default: 24 hours)
  * @returns Sync job result
  */
 export async function processStreamingSyncJob(
   maxItems: number = 50,
-  delayMs: number = 25,
   maxAgeHours: number = 24,
 ): Promise<SyncJobResult> {
   const startTime = Date.now();
@@ -308,6 +411,8 @@ export async function processStreamingSyncJob(
     successCount: 0,
     failCount: 0,
     providersAdded: 0,
+    changes: 0,
+    alertsQueued: 0,
     expiredRemoved: 0,
     duration: 0,
   };
@@ -322,22 +427,29 @@ export async function processStreamingSyncJob(
       maxAgeHours,
     );
 
-    // Process each content item with rate limiting
-    for (const content of contentToSync) {
-      const syncResult = await syncContentStreamingAvailability(content);
+    // Start every TMDB fetch now; failures are handled per item below
+    const fetches = contentToSync.map((content) => {
+      const providers = fetchWatchProviders(content);
+      providers.catch(() => {});
+      return providers;
+    });
+
+    for (const [index, content] of contentToSync.entries()) {
+      const syncResult = await syncContentStreamingAvailability(
+        content,
+        SUPPORTED_REGIONS,
+        fetches[index],
+      );
 
       result.totalProcessed++;
       if (syncResult.success) {
         result.successCount++;
         result.providersAdded += syncResult.providersAdded;
+        result.changes += syncResult.changes;
+        result.alertsQueued += syncResult.alertsQueued;
       } else {
         result.failCount++;
       }
-
-      // Rate limiting: wait between API calls
-      if (result.totalProcessed < contentToSync.length) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
     }
   } catch (error) {
     console.error("Error during streaming sync job:", error);
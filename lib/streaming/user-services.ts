@@ -0,0 +1,113 @@
+/**
+ * "My services" store
+ *
+ * The streaming services each user subscribes to. A user's services apply in
+ * their preferred region, and drive "now available" alerts and the new
+ * arrivals section of the weekly digest.
+ */
+
+import { query, transaction } from "../db.ts";
+
+/**
+ * A streaming service, flagged if the user has marked it as theirs
+ */
+export interface UserStreamingService {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  selected: boolean;
+  /** Titles on the service by subscription in the user's region */
+  title_count: number;
+}
+
+/**
+ * List every streaming service for a user to choose from
+ *
+ * Services with the most subscription titles in the region come first, so
+ * the big services aren't lost among the long tail TMDB reports.
+ *
+ * @param userId User ID
+ * @param region Region to count titles in
+ * @returns Services, with the user's own flagged as selected
+ */
+export async function listUserStreamingServices(
+  userId: string,
+  region: string,
+): Promise<UserStreamingService[]> {
+  const rows = await query<
+    Omit<UserStreamingService, "title_count"> & { title_count: string }
+  >(
+    `SELECT
+       ss.id,
+       ss.name,
+       ss.logo_url,
+       (us.user_id IS NOT NULL) AS selected,
+       COUNT(cs.id) AS title_count
+     FROM streaming_services ss
+     LEFT JOIN user_streaming_services us
+       ON us.service_id = ss.id AND us.user_id = $1
+     LEFT JOIN content_streaming cs
+       ON cs.service_id = ss.id
+      AND cs.type = 'subscription'
+      AND cs.region = $2
+     GROUP BY ss.id, us.user_id
+     ORDER BY COUNT(cs.id) DESC, ss.name`,
+    [userId, region],
+  );
+
+  return rows.map((row) => ({
+    ...row,
+    title_count: parseInt(row.title_count, 10),
+  }));
+}
+
+/**
+ * Get the IDs of the services a user has marked as theirs
+ *
+ * @param userId User ID
+ * @returns Service IDs
+ */
+export async function getUserServiceIds(userId: string): Promise<string[]> {
+  const rows = await query<{ service_id: string }>(
+    `SELECT service_id FROM user_streaming_services WHERE user_id = $1`,
+    [userId],
+  );
+  return rows.map((row) => row.service_id);
+}
+
+/**
+ * Replace the services a user has marked as theirs
+ *
+ * Unknown service IDs are ignored.
+ *
+ * @param userId User ID
+ * @param serviceIds Service IDs to keep or add
+ * @returns The user's service IDs after the update
+ */
+export async function setUserServices(
+  userId: string,
+  serviceIds: string[],
+): Promise<string[]> {
+  return await transaction(async (client) => {
+    await client.queryObject(
+      `DELETE FROM user_streaming_services
+       WHERE user_id = $1 AND NOT (service_id = ANY($2::uuid[]))`,
+      [userId, serviceIds],
+    );
+
+    await client.queryObject(
+      `INSERT INTO user_streaming_services (user_id, service_id)
+       SELECT $1, ss.id
+       FROM streaming_services ss
+       WHERE ss.id = ANY($2::uuid[])
+       ON CONFLICT (user_id, service_id) DO NOTHING`,
+      [userId, serviceIds],
+    );
+
+    const result = await client.queryObject<{ service_id: string }>(
+      `SELECT service_id FROM user_streaming_services WHERE user_id = $1`,
+      [userId],
+    );
+    return result.rows.map((row) => row.service_id);
+  });
+}
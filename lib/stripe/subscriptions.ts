@@ -0,0 +1,351 @@
+/**
+ * Stripe subscription mirror
+ *
+ * Keeps the subscriptions table in step with Stripe from webhook events, and
+ * records which events have been processed so redelivered events are only
+ * applied once. A delivery leases its event while applying it, so deliveries
+ * of the same event arriving together don't both apply it. Whether a subscription grants premium is decided in
+ * lib/auth/entitlements.ts.
+ */
+
+import type Stripe from "stripe";
+import { query } from "../db.ts";
+
+/**
+ * A mirrored Stripe subscription
+ */
+export interface SubscriptionRecord {
+  id: string;
+  user_id: string;
+  stripe_subscription_id: string;
+  stripe_customer_id: string;
+  status: string;
+  price_id: string | null;
+  plan_name: string | null;
+  billing_interval: string | null;
+  current_period_start: Date | null;
+  current_period_end: Date | null;
+  trial_end: Date | null;
+  cancel_at_period_end: boolean;
+  canceled_at: Date | null;
+  ended_at: Date | null;
+  payment_failed_at: Date | null;
+  last_event_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * The columns taken from a Stripe subscription object
+ */
+export type SubscriptionFields = Pick<
+  SubscriptionRecord,
+  | "stripe_subscription_id"
+  | "stripe_customer_id"
+  | "status"
+  | "price_id"
+  | "plan_name"
+  | "billing_interval"
+  | "current_period_start"
+  | "current_period_end"
+  | "trial_end"
+  | "cancel_at_period_end"
+  | "canceled_at"
+  | "ended_at"
+>;
+
+/**
+ * Outcome of claiming a webhook event
+ */
+export type StripeEventClaim =
+  | { claimed: true; lockToken: string }
+  | { claimed: false; processed: boolean };
+
+/**
+ * Stripe events are kept this long after they arrive
+ */
+const STRIPE_EVENT_RETENTION_DAYS = 30;
+
+/**
+ * How long a delivery may hold an event before another may claim it
+ */
+const STRIPE_EVENT_LEASE_SECONDS = 5 * 60;
+
+function fromUnixSeconds(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+/**
+ * Get the ID of an expandable Stripe field
+ */
+export function stripeId(
+  value: string | { id: string } | null | undefined,
+): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === "string" ? value : value.id;
+}
+
+/**
+ * Map a Stripe subscription to subscriptions table columns
+ *
+ * The plan is taken from the first item; checkout only creates
+ * single-price subscriptions.
+ */
+export function toSubscriptionFields(
+  subscription: Stripe.Subscription,
+): SubscriptionFields {
+  const price = subscription.items.data[0]?.price;
+  return {
+    stripe_subscription_id: subscription.id,
+    stripe_customer_id: stripeId(subscription.customer)!,
+    status: subscription.status,
+    price_id: price?.id ?? null,
+    plan_name: price?.nickname || price?.id || null,
+    billing_interval: price?.recurring?.interval ?? null,
+    current_period_start: fromUnixSeconds(subscription.current_period_start),
+    current_period_end: fromUnixSeconds(subscription.current_period_end),
+    trial_end: fromUnixSeconds(subscription.trial_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    canceled_at: fromUnixSeconds(subscription.canceled_at),
+    ended_at: fromUnixSeconds(subscription.ended_at),
+  };
+}
+
+/**
+ * Save a subscription's state from Stripe
+ *
+ * Events can arrive out of order, so state from an event older than the one
+ * last applied is ignored. A failed payment is forgotten once the
+ * subscription is active again.
+ *
+ * @param userId User the subscription belongs to
+ * @param subscription Subscription object from Stripe
+ * @param eventCreated When Stripe created the event (Unix seconds)
+ * @returns false if newer state had already been saved
+ */
+export async function upsertSubscription(
+  userId: string,
+  subscription: Stripe.Subscription,
+  eventCreated: number,
+): Promise<boolean> {
+  const fields = toSubscriptionFields(subscription);
+  const rows = await query<{ id: string }>(
+    `INSERT INTO subscriptions (
+       user_id, stripe_subscription_id, stripe_customer_id, status, price_id,
+       plan_name, billing_interval, current_period_start, current_period_end,
+       trial_end, cancel_at_period_end, canceled_at, ended_at, last_event_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, to_timestamp($14))
+     ON CONFLICT (stripe_subscription_id) DO UPDATE SET
+       stripe_customer_id = EXCLUDED.stripe_customer_id,
+       status = EXCLUDED.status,
+       price_id = EXCLUDED.price_id,
+       plan_name = EXCLUDED.plan_name,
+       billing_interval = EXCLUDED.billing_interval,
+       current_period_start = EXCLUDED.current_period_start,
+       current_period_end = EXCLUDED.current_period_end,
+       trial_end = EXCLUDED.trial_end,
+       cancel_at_period_end = EXCLUDED.cancel_at_period_end,
+       canceled_at = EXCLUDED.canceled_at,
+       ended_at = EXCLUDED.ended_at,
+       payment_failed_at = CASE
+         WHEN EXCLUDED.status IN ('active', 'trialing') THEN NULL
+         ELSE subscriptions.payment_failed_at
+       END,
+       last_event_at = EXCLUDED.last_event_at,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE subscriptions.last_event_at <= EXCLUDED.last_event_at
+     RETURNING id`,
+    [
+      userId,
+      fields.stripe_subscription_id,
+      fields.stripe_customer_id,
+      fields.status,
+      fields.price_id,
+      fields.plan_name,
+      fields.billing_interval,
+      fields.current_period_start,
+      fields.current_period_end,
+      fields.trial_end,
+      fields.cancel_at_period_end,
+      fields.canceled_at,
+      fields.ended_at,
+      eventCreated,
+    ],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Record a failed payment for a subscription
+ *
+ * Only the first failure is kept, so the grace period runs from it rather
+ * than from each of Stripe's retries.
+ *
+ * @param failedAt When the payment failed (Unix seconds)
+ */
+export async function markPaymentFailed(
+  stripeSubscriptionId: string,
+  failedAt: number,
+): Promise<void> {
+  await query(
+    `UPDATE subscriptions
+     SET payment_failed_at = COALESCE(payment_failed_at, to_timestamp($2)),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE stripe_subscription_id = $1`,
+    [stripeSubscriptionId, failedAt],
+  );
+}
+
+/**
+ * Forget a failed payment once a later payment succeeds
+ */
+export async function clearPaymentFailed(
+  stripeSubscriptionId: string,
+): Promise<void> {
+  await query(
+    `UPDATE subscriptions
+     SET payment_failed_at = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE stripe_subscription_id = $1 AND payment_failed_at IS NOT NULL`,
+    [stripeSubscriptionId],
+  );
+}
+
+/**
+ * Find the user a Stripe subscription or customer belongs to
+ *
+ * @returns The user ID, or null if neither has been seen before
+ */
+export async function findSubscriptionUser(
+  stripeSubscriptionId: string | null,
+  stripeCustomerId: string | null,
+): Promise<string | null> {
+  const rows = await query<{ user_id: string }>(
+    `SELECT user_id FROM subscriptions
+     WHERE stripe_subscription_id = $1 OR stripe_customer_id = $2
+     ORDER BY (stripe_subscription_id = $1) DESC, created_at DESC
+     LIMIT 1`,
+    [stripeSubscriptionId, stripeCustomerId],
+  );
+  return rows[0]?.user_id ?? null;
+}
+
+/**
+ * Get a user's most recent subscription
+ *
+ * @returns The subscription, or null if the user has never subscribed
+ */
+export async function getLatestSubscription(
+  userId: string,
+): Promise<SubscriptionRecord | null> {
+  const rows = await query<SubscriptionRecord>(
+    `SELECT * FROM subscriptions
+     WHERE user_id = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [userId],
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Get a user's Stripe customer ID
+ *
+ * @returns The customer ID, or null if the user has never subscribed
+ */
+export async function getStripeCustomerId(
+  userId: string,
+): Promise<string | null> {
+  return (await getLatestSubscription(userId))?.stripe_customer_id ?? null;
+}
+
+/**
+ * Claim a webhook event for processing
+ *
+ * Leases the event to this delivery unless it has been processed or another
+ * delivery holds an unexpired lease. The upsert locks the event's row, so
+ * only one of several concurrent deliveries can claim it.
+ *
+ * @returns The lock token to finish or release the event with, or whether it
+ *   was refused because the event has already been processed
+ */
+export async function claimStripeEvent(
+  eventId: string,
+  type: string,
+): Promise<StripeEventClaim> {
+  const lockToken = crypto.randomUUID();
+  const rows = await query<{ id: string }>(
+    `INSERT INTO stripe_events (id, type, locked_by, locked_until)
+     VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(secs => $4))
+     ON CONFLICT (id) DO UPDATE SET
+       attempts = stripe_events.attempts + 1,
+       locked_by = EXCLUDED.locked_by,
+       locked_until = EXCLUDED.locked_until
+     WHERE stripe_events.processed_at IS NULL
+       AND (stripe_events.locked_until IS NULL
+         OR stripe_events.locked_until <= CURRENT_TIMESTAMP)
+     RETURNING id`,
+    [eventId, type, lockToken, STRIPE_EVENT_LEASE_SECONDS],
+  );
+  if (rows.length > 0) {
+    return { claimed: true, lockToken };
+  }
+
+  const existing = await query<{ processed: boolean }>(
+    `SELECT processed_at IS NOT NULL AS processed
+     FROM stripe_events WHERE id = $1`,
+    [eventId],
+  );
+  return { claimed: false, processed: existing[0]?.processed ?? false };
+}
+
+/**
+ * Mark a claimed webhook event as processed, so redeliveries are skipped
+ *
+ * @param lockToken Token from claimStripeEvent
+ */
+export async function markStripeEventProcessed(
+  eventId: string,
+  lockToken: string,
+): Promise<void> {
+  await query(
+    `UPDATE stripe_events
+     SET processed_at = CURRENT_TIMESTAMP, locked_by = NULL, locked_until = NULL
+     WHERE id = $1 AND locked_by = $2`,
+    [eventId, lockToken],
+  );
+}
+
+/**
+ * Release a claimed webhook event that failed, so a retry can claim it
+ * straight away
+ *
+ * @param lockToken Token from claimStripeEvent
+ */
+export async function releaseStripeEvent(
+  eventId: string,
+  lockToken: string,
+): Promise<void> {
+  await query(
+    `UPDATE stripe_events SET locked_by = NULL, locked_until = NULL
+     WHERE id = $1 AND locked_by = $2 AND processed_at IS NULL`,
+    [eventId, lockToken],
+  );
+}
+
+/**
+ * Delete webhook events older than Stripe will redeliver
+ *
+ * @returns Number of events deleted
+ */
+export async function pruneStripeEvents(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `DELETE FROM stripe_events
+     WHERE received_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 day'
+     RETURNING id`,
+    [STRIPE_EVENT_RETENTION_DAYS],
+  );
+  return rows.length;
+}
@@ -3,67 +3,66 @@
  *
  * Provides a client for interacting with the TMDB API with rate limiting,
  * caching, and error handling. Rate limit: 50 requests per second.
+ * Concurrent identical requests share one network call, and at most
+ * MAX_CONCURRENT_REQUESTS run at once, interactive ones first.
  */
 
 import { redisCache } from "../cache/redis.ts";
+import { fetchWithFixtures, getFixtureMode } from "../fixtures/http.ts";
+import { RateLimiter, type RateLimitPolicy } from "../security/limiter.ts";
+import { MemoryRateLimitStore } from "../security/limiter-stores.ts";
+import {
+  RequestCoalescer,
+  type RequestPriority,
+  RequestQueue,
+} from "./queue.ts";
+
+export type { RequestPriority } from "./queue.ts";
+
+const DEFAULT_TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
+
+// TMDB allows around 50 requests per second. The bucket is kept in each
+// process: sharing it through the API limiter's store would cost a database
+// round-trip on one hot row for every request
+const TMDB_RATE_LIMIT_KEY = "tmdb:requests";
+const TMDB_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  algorithm: "token-bucket",
+  limit: 50,
+  windowSeconds: 1,
+};
 
-const TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
-const RATE_LIMIT_REQUESTS_PER_SECOND = 50;
-const RATE_LIMIT_WINDOW_MS = 1000; // 1 second
+// TMDB allows 20 simultaneous connections per IP; leave room for other
+// instances behind the same address
+const MAX_CONCURRENT_REQUESTS = 10;
 
 // Default cache TTL: 24 hours (86400 seconds)
 // TMDB data doesn't change frequently, so longer cache is beneficial
 const DEFAULT_CACHE_TTL_SECONDS = 86400;
 
+// Singleton request scheduling instances
+const rateLimiter = new RateLimiter(new MemoryRateLimitStore());
+const requestQueue = new RequestQueue(MAX_CONCURRENT_REQUESTS);
+const inFlightRequests = new RequestCoalescer();
+
 /**
- * Rate limiter implementation using a sliding window
+ * Get the TMDB API base URL
+ * TMDB_API_BASE_URL points the client at a stand-in such as the fixture
+ * server (scripts/fixture-server.ts)
  */
-class RateLimiter {
-  private requests: number[] = [];
-
-  /**
-   * Check if a request can be made within rate limits
-   * @returns true if request can proceed, false if rate limit exceeded
-   */
-  canMakeRequest(): boolean {
-    const now = Date.now();
-    const windowStart = now - RATE_LIMIT_WINDOW_MS;
-
-    // Remove requests outside the current window
-    this.requests = this.requests.filter((time) => time > windowStart);
-
-    // Check if we're under the limit
-    if (this.requests.length < RATE_LIMIT_REQUESTS_PER_SECOND) {
-      this.requests.push(now);
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Wait until a request can be made
-   * @returns Promise that resolves when request can proceed
-   */
-  async waitForAvailability(): Promise<void> {
-    while (!this.canMakeRequest()) {
-      const oldestRequest = Math.min(...this.requests);
-      const waitTime = RATE_LIMIT_WINDOW_MS - (Date.now() - oldestRequest);
-      if (waitTime > 0) {
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-      }
-    }
-  }
+function getBaseUrl(): string {
+  return (Deno.env.get("TMDB_API_BASE_URL") || DEFAULT_TMDB_API_BASE_URL)
+    .replace(/\/+$/, "");
 }
 
-// Singleton rate limiter instance
-const rateLimiter = new RateLimiter();
-
 /**
  * Get TMDB API key from environment variable
+ * Replayed fixtures don't need a real key
  */
 function getApiKey(): string {
   const apiKey = Deno.env.get("TMDB_API_KEY");
+  if (!apiKey && getFixtureMode() === "replay") {
+    return "replay";
+  }
   if (!apiKey) {
     throw new Error(
       "TMDB_API_KEY environment variable is not set. Please set it in your .env file or environment.",
@@ -93,27 +92,55 @@ export interface TMDBResponse<T> {
 /**
  * Make a request to the TMDB API with rate limiting, caching, and error handling
  *
+ * Responses are cached with stale-while-revalidate: once the TTL passes, the
+ * cached response is still served for another TTL while a fresh copy is
+ * fetched in the background. Callers asking for the same endpoint and
+ * parameters at the same time share one request.
+ *
  * @param endpoint API endpoint (e.g., "/movie/550")
  * @param params Optional query parameters
  * @param ttlSeconds Optional cache TTL in seconds (default: 24 hours)
+ * @param priority Queue priority if the request goes to the network
  * @returns Response data or throws error
  */
 async function request<T>(
   endpoint: string,
   params?: Record<string, string | number | boolean>,
   ttlSeconds: number = DEFAULT_CACHE_TTL_SECONDS,
+  priority: RequestPriority = "interactive",
 ): Promise<T> {
-  // Check cache first
-  const cached = await redisCache.getCached<T>(endpoint, params);
-  if (cached !== null) {
-    return cached;
-  }
+  const key = [
+    endpoint,
+    ...Object.keys(params ?? {}).sort().map((name) =>
+      `${name}=${params![name]}`
+    ),
+  ].join(":");
+
+  return await inFlightRequests.run(key, () =>
+    redisCache.getOrRevalidate<T>(
+      endpoint,
+      params,
+      () => requestQueue.run(() => fetchFromApi<T>(endpoint, params), priority),
+      ttlSeconds,
+    ));
+}
 
+/**
+ * Fetch from the TMDB API, bypassing the cache
+ *
+ * @param endpoint API endpoint (e.g., "/movie/550")
+ * @param params Optional query parameters
+ * @returns Response data or throws error
+ */
+async function fetchFromApi<T>(
+  endpoint: string,
+  params?: Record<string, string | number | boolean>,
+): Promise<T> {
   // Wait for rate limit availability
-  await rateLimiter.waitForAvailability();
+  await rateLimiter.acquire(TMDB_RATE_LIMIT_KEY, TMDB_RATE_LIMIT_POLICY);
 
   const apiKey = getApiKey();
-  const url = new URL(`${TMDB_API_BASE_URL}${endpoint}`);
+  const url = new URL(`${getBaseUrl()}${endpoint}`);
 
   // Add API key
   url.searchParams.set("api_key", apiKey);
@@ -126,7 +153,7 @@ async function request<T>(
   }
 
   try {
-    const response = await fetch(url.toString());
+    const response = await fetchWithFixtures("tmdb", endpoint, url);
 
     // Parse response body first to check for TMDB error structure
     const responseData = await response.json() as T | TMDBError;
@@ -157,12 +184,8 @@ async function request<T>(
       );
     }
 
-    const data = responseData as T;
-
-    // Cache successful responses (don't cache errors)
-    await redisCache.setCached(endpoint, params, data, ttlSeconds);
-
-    return data;
+    // Only successful responses reach the cache
+    return responseData as T;
   } catch (error) {
     if (error instanceof Error) {
       // Re-throw our custom errors
@@ -239,11 +262,56 @@ export interface MovieDetails {
   vote_count: number;
   runtime: number | null;
   genres: Array<{ id: number; name: string }>;
+  /** Franchise the movie is part of, if any */
+  belongs_to_collection?: CollectionReference | null;
   credits?: Credits;
   images?: Images;
+  videos?: AppendedVideos;
+  external_ids?: AppendedExternalIds;
+  similar?: TMDBSearchResponse;
+  "watch/providers"?: AppendedWatchProviders;
   [key: string]: unknown; // Allow additional fields
 }
 
+/**
+ * Sub-requests that can be folded into a movie or TV details request with
+ * TMDB's append_to_response
+ */
+export type DetailsAppend =
+  | "credits"
+  | "images"
+  | "videos"
+  | "external_ids"
+  | "similar"
+  | "watch/providers";
+
+/**
+ * Everything the content detail page shows, fetched in one request
+ */
+export const CONTENT_PAGE_APPENDS: readonly DetailsAppend[] = [
+  "credits",
+  "images",
+  "videos",
+  "external_ids",
+  "similar",
+  "watch/providers",
+];
+
+// Appended responses are the same as the standalone ones minus the ID
+type AppendedVideos = Omit<VideosResponse, "id">;
+type AppendedExternalIds = Omit<ExternalIds, "id">;
+type AppendedWatchProviders = Omit<WatchProvidersResponse, "id">;
+
+/**
+ * Collection reference included in movie details from TMDB API
+ */
+export interface CollectionReference {
+  id: number;
+  name: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+}
+
 /**
  * TV details from TMDB API (with credits and images)
  */
@@ -258,8 +326,59 @@ export interface TvDetails {
   vote_count: number;
   episode_run_time: number[];
   genres: Array<{ id: number; name: string }>;
+  number_of_seasons?: number;
+  number_of_episodes?: number;
+  seasons?: TvSeasonSummary[];
+  created_by?: Array<{ id: number; name: string; profile_path: string | null }>;
   credits?: Credits;
   images?: Images;
+  videos?: AppendedVideos;
+  external_ids?: AppendedExternalIds;
+  similar?: TMDBSearchTVResponse;
+  "watch/providers"?: AppendedWatchProviders;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Season summary included in TV details from TMDB API
+ */
+export interface TvSeasonSummary {
+  id: number;
+  name: string;
+  season_number: number;
+  episode_count: number;
+  air_date: string | null;
+  poster_path: string | null;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * TV episode from TMDB API
+ */
+export interface TvEpisode {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  episode_number: number;
+  air_date: string | null;
+  runtime: number | null;
+  still_path: string | null;
+  vote_average: number;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * TV season details from TMDB API (with episode list)
+ */
+export interface TvSeasonDetails {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  air_date: string | null;
+  poster_path: string | null;
+  episodes: TvEpisode[];
   [key: string]: unknown; // Allow additional fields
 }
 
@@ -359,16 +478,20 @@ export async function getMovieById(movieId: number): Promise<MovieDetails> {
  * Fetch full movie details including cast, crew, and images
  *
  * @param movieId TMDB movie ID
- * @returns Movie details with credits and images
+ * @param append Sub-requests to include (default: credits and images)
+ * @returns Movie details with the appended responses
  * @throws Error if movie not found or API request fails
  */
-export async function getMovieDetails(movieId: number): Promise<MovieDetails> {
+export async function getMovieDetails(
+  movieId: number,
+  append: readonly DetailsAppend[] = ["credits", "images"],
+): Promise<MovieDetails> {
   if (!Number.isInteger(movieId) || movieId <= 0) {
     throw new Error(`Invalid movie ID: ${movieId}`);
   }
 
   const movie = await request<MovieDetails>(`/movie/${movieId}`, {
-    append_to_response: "credits,images",
+    append_to_response: append.join(","),
   });
   return movie;
 }
@@ -377,20 +500,107 @@ export async function getMovieDetails(movieId: number): Promise<MovieDetails> {
  * Fetch full TV show details including cast, crew, and images
  *
  * @param tvId TMDB TV show ID
- * @returns TV show details with credits and images
+ * @param append Sub-requests to include (default: credits and images)
+ * @returns TV show details with the appended responses
  * @throws Error if TV show not found or API request fails
  */
-export async function getTvDetails(tvId: number): Promise<TvDetails> {
+export async function getTvDetails(
+  tvId: number,
+  append: readonly DetailsAppend[] = ["credits", "images"],
+): Promise<TvDetails> {
   if (!Number.isInteger(tvId) || tvId <= 0) {
     throw new Error(`Invalid TV show ID: ${tvId}`);
   }
 
   const tv = await request<TvDetails>(`/tv/${tvId}`, {
-    append_to_response: "credits,images",
+    append_to_response: append.join(","),
   });
   return tv;
 }
 
+/**
+ * Map the similar titles appended to movie or TV details
+ *
+ * @param details Details fetched with "similar" appended
+ * @returns Similar titles mapped to internal content model, or null if not
+ *   appended
+ */
+export function getSimilarFromDetails(
+  details: MovieDetails | TvDetails,
+): SearchResults | null {
+  if (!details.similar) {
+    return null;
+  }
+
+  const { page, total_pages, total_results } = details.similar;
+  return {
+    page,
+    total_pages,
+    total_results,
+    results: "title" in details
+      ? (details as MovieDetails).similar!.results.map(mapTMDBMovieToContent)
+      : (details as TvDetails).similar!.results.map(mapTMDBTVToContent),
+  };
+}
+
+/**
+ * Fetch TV season details including its episode list
+ *
+ * @param tvId TMDB TV show ID
+ * @param seasonNumber Season number (0 for specials)
+ * @returns Season details with episodes
+ * @throws Error if season not found or API request fails
+ */
+export async function getTvSeasonDetails(
+  tvId: number,
+  seasonNumber: number,
+): Promise<TvSeasonDetails> {
+  if (!Number.isInteger(tvId) || tvId <= 0) {
+    throw new Error(`Invalid TV show ID: ${tvId}`);
+  }
+
+  if (!Number.isInteger(seasonNumber) || seasonNumber < 0) {
+    throw new Error(`Invalid season number: ${seasonNumber}`);
+  }
+
+  const season = await request<TvSeasonDetails>(
+    `/tv/${tvId}/season/${seasonNumber}`,
+  );
+  return season;
+}
+
+/**
+ * Fetch a single TV episode
+ *
+ * @param tvId TMDB TV show ID
+ * @param seasonNumber Season number (0 for specials)
+ * @param episodeNumber Episode number within the season
+ * @returns Episode details
+ * @throws Error if episode not found or API request fails
+ */
+export async function getTvEpisodeDetails(
+  tvId: number,
+  seasonNumber: number,
+  episodeNumber: number,
+): Promise<TvEpisode> {
+  if (!Number.isInteger(tvId) || tvId <= 0) {
+    throw new Error(`Invalid TV show ID: ${tvId}`);
+  }
+
+  if (!Number.isInteger(seasonNumber) || seasonNumber < 0) {
+    throw new Error(`Invalid season number: ${seasonNumber}`);
+  }
+
+  if (!Number.isInteger(episodeNumber) || episodeNumber <= 0) {
+    throw new Error(`Invalid episode number: ${episodeNumber}`);
+  }
+
+  const episode = await request<TvEpisode>(
+    `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`,
+  );
+  return episode;
+}
+
 /**
  * Map TMDB movie search result to internal content model
  *
@@ -503,6 +713,276 @@ export async function searchTv(
   };
 }
 
+/**
+ * Person search result from TMDB API
+ */
+export interface TMDBPersonSearchResult {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;
+  popularity: number;
+  known_for?: Array<
+    | (TMDBMovieSearchResult & { media_type: "movie" })
+    | (TMDBTVSearchResult & { media_type: "tv" })
+  >;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Collection search result from TMDB API
+ */
+export interface TMDBCollectionSearchResult {
+  id: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Multi search result from TMDB API (movie, TV show or person)
+ */
+export type TMDBMultiSearchResult =
+  | (TMDBMovieSearchResult & { media_type: "movie" })
+  | (TMDBTVSearchResult & { media_type: "tv" })
+  | (TMDBPersonSearchResult & { media_type: "person" });
+
+/**
+ * Person in search results
+ */
+export interface PersonSummary {
+  kind: "person";
+  tmdb_id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;
+  /** Titles TMDB lists the person as best known for */
+  known_for: Content[];
+}
+
+/**
+ * Collection (film series) in search results
+ */
+export interface CollectionSummary {
+  kind: "collection";
+  tmdb_id: number;
+  name: string;
+  overview: string | null;
+  poster_path: string | null;
+  backdrop_path: string | null;
+}
+
+/**
+ * Paginated multi search results, split by kind
+ */
+export interface MultiSearchResults {
+  page: number;
+  total_pages: number;
+  total_results: number;
+  titles: Content[];
+  people: PersonSummary[];
+  /** Kind of the first result, which TMDB ranks as the best match */
+  top_kind: "title" | "person" | null;
+}
+
+/**
+ * Paginated person search results
+ */
+export interface PersonSearchResults {
+  page: number;
+  total_pages: number;
+  total_results: number;
+  results: PersonSummary[];
+}
+
+/**
+ * Paginated collection search results
+ */
+export interface CollectionSearchResults {
+  page: number;
+  total_pages: number;
+  total_results: number;
+  results: CollectionSummary[];
+}
+
+/**
+ * Map TMDB person search result to a person summary
+ *
+ * @param tmdbPerson TMDB person search result
+ * @returns Person summary
+ */
+function mapTMDBPersonToSummary(
+  tmdbPerson: TMDBPersonSearchResult,
+): PersonSummary {
+  return {
+    kind: "person",
+    tmdb_id: tmdbPerson.id,
+    name: tmdbPerson.name,
+    profile_path: tmdbPerson.profile_path || null,
+    known_for_department: tmdbPerson.known_for_department,
+    known_for: (tmdbPerson.known_for || [])
+      .filter((item) => item.media_type === "movie" || item.media_type === "tv")
+      .map((item) =>
+        item.media_type === "tv"
+          ? mapTMDBTVToContent(item)
+          : mapTMDBMovieToContent(item as TMDBMovieSearchResult)
+      ),
+  };
+}
+
+/**
+ * Map TMDB collection search result to a collection summary
+ *
+ * @param tmdbCollection TMDB collection search result
+ * @returns Collection summary
+ */
+function mapTMDBCollectionToSummary(
+  tmdbCollection: TMDBCollectionSearchResult,
+): CollectionSummary {
+  return {
+    kind: "collection",
+    tmdb_id: tmdbCollection.id,
+    name: tmdbCollection.name,
+    overview: tmdbCollection.overview || null,
+    poster_path: tmdbCollection.poster_path || null,
+    backdrop_path: tmdbCollection.backdrop_path || null,
+  };
+}
+
+/**
+ * Search movies, TV shows and people at once using TMDB multi search
+ *
+ * Results keep TMDB's relevance order within each kind.
+ *
+ * @param query Search query string
+ * @param page Page number (default: 1)
+ * @returns Paginated results split into titles and people
+ * @throws Error if API request fails
+ */
+export async function searchMulti(
+  query: string,
+  page: number = 1,
+): Promise<MultiSearchResults> {
+  if (!query || typeof query !== "string" || query.trim().length === 0) {
+    throw new Error("Search query must be a non-empty string");
+  }
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`Page number must be a positive integer, got: ${page}`);
+  }
+
+  const response = await request<{
+    page: number;
+    results: TMDBMultiSearchResult[];
+    total_pages: number;
+    total_results: number;
+  }>("/search/multi", {
+    query: query.trim(),
+    page,
+  });
+
+  const titles: Content[] = [];
+  const people: PersonSummary[] = [];
+  for (const item of response.results) {
+    if (item.media_type === "movie") {
+      titles.push(mapTMDBMovieToContent(item));
+    } else if (item.media_type === "tv") {
+      titles.push(mapTMDBTVToContent(item));
+    } else if (item.media_type === "person") {
+      people.push(mapTMDBPersonToSummary(item));
+    }
+  }
+
+  const first = response.results[0]?.media_type;
+
+  return {
+    page: response.page,
+    total_pages: response.total_pages,
+    total_results: response.total_results,
+    titles,
+    people,
+    top_kind: first === "person" ? "person" : first ? "title" : null,
+  };
+}
+
+/**
+ * Search for people (cast and crew) using TMDB API with pagination
+ *
+ * @param query Search query string
+ * @param page Page number (default: 1)
+ * @returns Paginated person results
+ * @throws Error if API request fails
+ */
+export async function searchPeople(
+  query: string,
+  page: number = 1,
+): Promise<PersonSearchResults> {
+  if (!query || typeof query !== "string" || query.trim().length === 0) {
+    throw new Error("Search query must be a non-empty string");
+  }
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`Page number must be a positive integer, got: ${page}`);
+  }
+
+  const response = await request<{
+    page: number;
+    results: TMDBPersonSearchResult[];
+    total_pages: number;
+    total_results: number;
+  }>("/search/person", {
+    query: query.trim(),
+    page,
+  });
+
+  return {
+    page: response.page,
+    total_pages: response.total_pages,
+    total_results: response.total_results,
+    results: response.results.map(mapTMDBPersonToSummary),
+  };
+}
+
+/**
+ * Search for collections (film series) using TMDB API with pagination
+ *
+ * @param query Search query string
+ * @param page Page number (default: 1)
+ * @returns Paginated collection results
+ * @throws Error if API request fails
+ */
+export async function searchCollections(
+  query: string,
+  page: number = 1,
+): Promise<CollectionSearchResults> {
+  if (!query || typeof query !== "string" || query.trim().length === 0) {
+    throw new Error("Search query must be a non-empty string");
+  }
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`Page number must be a positive integer, got: ${page}`);
+  }
+
+  const response = await request<{
+    page: number;
+    results: TMDBCollectionSearchResult[];
+    total_pages: number;
+    total_results: number;
+  }>("/search/collection", {
+    query: query.trim(),
+    page,
+  });
+
+  return {
+    page: response.page,
+    total_pages: response.total_pages,
+    total_results: response.total_results,
+    results: response.results.map(mapTMDBCollectionToSummary),
+  };
+}
+
 /**
  * Watch provider from TMDB API
  */
@@ -559,11 +1039,13 @@ export type SupportedRegion = typeof SUPPORTED_REGIONS[number];
  * Fetch watch providers for a movie by TMDB ID
  *
  * @param movieId TMDB movie ID
+ * @param priority Queue priority; background jobs should pass "background"
  * @returns Watch providers response
  * @throws Error if movie not found or API request fails
  */
 export async function getMovieWatchProviders(
   movieId: number,
+  priority: RequestPriority = "interactive",
 ): Promise<WatchProvidersResponse> {
   if (!Number.isInteger(movieId) || movieId <= 0) {
     throw new Error(`Invalid movie ID: ${movieId}`);
@@ -571,6 +1053,9 @@ export async function getMovieWatchProviders(
 
   const providers = await request<WatchProvidersResponse>(
     `/movie/${movieId}/watch/providers`,
+    undefined,
+    DEFAULT_CACHE_TTL_SECONDS,
+    priority,
   );
   return providers;
 }
@@ -579,11 +1064,13 @@ export async function getMovieWatchProviders(
  * Fetch watch providers for a TV show by TMDB ID
  *
  * @param tvId TMDB TV show ID
+ * @param priority Queue priority; background jobs should pass "background"
  * @returns Watch providers response
  * @throws Error if TV show not found or API request fails
  */
 export async function getTvWatchProviders(
   tvId: number,
+  priority: RequestPriority = "interactive",
 ): Promise<WatchProvidersResponse> {
   if (!Number.isInteger(tvId) || tvId <= 0) {
     throw new Error(`Invalid TV show ID: ${tvId}`);
@@ -591,6 +1078,9 @@ export async function getTvWatchProviders(
 
   const providers = await request<WatchProvidersResponse>(
     `/tv/${tvId}/watch/providers`,
+    undefined,
+    DEFAULT_CACHE_TTL_SECONDS,
+    priority,
   );
   return providers;
 }
@@ -603,7 +1093,7 @@ export async function getTvWatchProviders(
  * @returns Categorised watch providers for the specified region, or null if region not available
  */
 export function filterWatchProvidersByRegion(
-  providers: WatchProvidersResponse,
+  providers: Pick<WatchProvidersResponse, "results">,
   region: SupportedRegion,
 ): CategorisedWatchProviders | null {
   const regionData = providers.results[region];
@@ -779,6 +1269,156 @@ export async function getOnTheAirTv(
   };
 }
 
+/**
+ * Sort orders supported by discover
+ */
+export type DiscoverSortBy = "popularity" | "rating" | "newest";
+
+/**
+ * Filters for TMDB discover
+ */
+export interface DiscoverOptions {
+  page?: number;
+  sortBy?: DiscoverSortBy;
+  /** Genre IDs; results must have all of them */
+  genres?: number[];
+  /** Earliest release (or first air) year, inclusive */
+  yearFrom?: number | null;
+  /** Latest release (or first air) year, inclusive */
+  yearTo?: number | null;
+  /** Minimum vote average (0-10) */
+  minRating?: number | null;
+  /** Minimum vote count */
+  minVotes?: number | null;
+  /** Minimum runtime in minutes (episode runtime for TV) */
+  runtimeMin?: number | null;
+  /** Maximum runtime in minutes (episode runtime for TV) */
+  runtimeMax?: number | null;
+  /** ISO 639-1 original language */
+  language?: string | null;
+  /** Watch provider IDs; results must be on any of them */
+  providers?: number[];
+  /** Region the providers apply in (required by TMDB with providers) */
+  watchRegion?: SupportedRegion | null;
+}
+
+/**
+ * Build TMDB discover query parameters from options
+ *
+ * Movies filter on primary release date and TV on first air date. Sorting by
+ * rating adds a vote count floor (unless one is given) so titles with a
+ * handful of perfect scores don't crowd the top.
+ */
+function buildDiscoverParams(
+  type: "movie" | "tv",
+  options: DiscoverOptions,
+): Record<string, string | number> {
+  const dateField = type === "movie"
+    ? "primary_release_date"
+    : "first_air_date";
+  const sortFields: Record<DiscoverSortBy, string> = {
+    popularity: "popularity.desc",
+    rating: "vote_average.desc",
+    newest: `${dateField}.desc`,
+  };
+  const sortBy = options.sortBy ?? "popularity";
+
+  const params: Record<string, string | number> = {
+    page: options.page ?? 1,
+    sort_by: sortFields[sortBy],
+    include_adult: "false",
+  };
+
+  if (options.genres?.length) {
+    params.with_genres = options.genres.join(",");
+  }
+  if (options.yearFrom) {
+    params[`${dateField}.gte`] = `${options.yearFrom}-01-01`;
+  }
+  if (options.yearTo) {
+    params[`${dateField}.lte`] = `${options.yearTo}-12-31`;
+  } else if (sortBy === "newest") {
+    // Keep announced titles with far-future dates off the top
+    params[`${dateField}.lte`] = new Date().toISOString().slice(0, 10);
+  }
+  if (options.minRating != null) {
+    params["vote_average.gte"] = options.minRating;
+  }
+  if (options.minVotes != null) {
+    params["vote_count.gte"] = options.minVotes;
+  } else if (sortBy === "rating") {
+    params["vote_count.gte"] = 200;
+  }
+  if (options.runtimeMin != null) {
+    params["with_runtime.gte"] = options.runtimeMin;
+  }
+  if (options.runtimeMax != null) {
+    params["with_runtime.lte"] = options.runtimeMax;
+  }
+  if (options.language) {
+    params.with_original_language = options.language;
+  }
+  if (options.providers?.length) {
+    params.with_watch_providers = options.providers.join("|");
+    params.watch_region = options.watchRegion ?? "US";
+  } else if (options.watchRegion) {
+    params.watch_region = options.watchRegion;
+  }
+
+  return params;
+}
+
+/**
+ * Discover movies or TV shows by filter using TMDB API
+ *
+ * @param type Content type to discover
+ * @param options Filters, sort order and page
+ * @returns Paginated results mapped to internal content model
+ * @throws Error if options are invalid or API request fails
+ */
+export async function discover(
+  type: "movie" | "tv",
+  options: DiscoverOptions = {},
+): Promise<SearchResults> {
+  if (type !== "movie" && type !== "tv") {
+    throw new Error(`Invalid discover type: ${type}. Must be "movie" or "tv"`);
+  }
+
+  const page = options.page ?? 1;
+  if (!Number.isInteger(page) || page < 1 || page > 500) {
+    throw new Error(`Page number must be between 1 and 500, got: ${page}`);
+  }
+
+  const params = buildDiscoverParams(type, options);
+
+  // Use shorter cache TTL (1 hour) since popularity and ratings change daily
+  if (type === "movie") {
+    const response = await request<TMDBSearchResponse>(
+      "/discover/movie",
+      params,
+      3600, // 1 hour cache TTL
+    );
+    return {
+      page: response.page,
+      total_pages: Math.min(response.total_pages, 500),
+      total_results: response.total_results,
+      results: response.results.map(mapTMDBMovieToContent),
+    };
+  }
+
+  const response = await request<TMDBSearchTVResponse>(
+    "/discover/tv",
+    params,
+    3600, // 1 hour cache TTL
+  );
+  return {
+    page: response.page,
+    total_pages: Math.min(response.total_pages, 500),
+    total_results: response.total_results,
+    results: response.results.map(mapTMDBTVToContent),
+  };
+}
+
 /**
  * Video from TMDB API
  */
@@ -842,7 +1482,9 @@ export async function getTvVideos(tvId: number): Promise<VideosResponse> {
  * @param videos Videos response from TMDB API
  * @returns YouTube video key, or null if no trailer found
  */
-export function extractTrailerKey(videos: VideosResponse): string | null {
+export function extractTrailerKey(
+  videos: Pick<VideosResponse, "results">,
+): string | null {
   if (!videos.results || videos.results.length === 0) {
     return null;
   }
@@ -988,6 +1630,223 @@ export async function getTvExternalIds(tvId: number): Promise<ExternalIds> {
   return externalIds;
 }
 
+/**
+ * TMDB find-by-external-ID response structure
+ */
+export interface TMDBFindResponse {
+  movie_results: TMDBMovieSearchResult[];
+  tv_results: TMDBTVSearchResult[];
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Find movies and TV shows by IMDb ID
+ *
+ * @param imdbId IMDb ID (e.g., "tt0137523")
+ * @returns Matching content mapped to internal content model (movies first)
+ * @throws Error if IMDb ID is invalid or API request fails
+ */
+export async function findByImdbId(imdbId: string): Promise<Content[]> {
+  if (!/^tt\d+$/.test(imdbId)) {
+    throw new Error(`Invalid IMDb ID: ${imdbId}`);
+  }
+
+  const response = await request<TMDBFindResponse>(`/find/${imdbId}`, {
+    external_source: "imdb_id",
+  });
+
+  return [
+    ...(response.movie_results || []).map(mapTMDBMovieToContent),
+    ...(response.tv_results || []).map(mapTMDBTVToContent),
+  ];
+}
+
+/**
+ * Movie in a collection from TMDB API
+ */
+export interface CollectionPart {
+  id: number;
+  title: string;
+  overview: string;
+  release_date: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  vote_average: number;
+  vote_count: number;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Collection (film series) details from TMDB API
+ */
+export interface CollectionDetails {
+  id: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  /** Movies in the collection, in no particular order */
+  parts: CollectionPart[];
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Fetch a collection and the movies in it
+ *
+ * @param collectionId TMDB collection ID
+ * @returns Collection details with its parts
+ * @throws Error if collection not found or API request fails
+ */
+export async function getCollectionDetails(
+  collectionId: number,
+): Promise<CollectionDetails> {
+  if (!Number.isInteger(collectionId) || collectionId <= 0) {
+    throw new Error(`Invalid collection ID: ${collectionId}`);
+  }
+
+  return await request<CollectionDetails>(`/collection/${collectionId}`);
+}
+
+/**
+ * Person details from TMDB API
+ */
+export interface PersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  known_for_department: string;
+  profile_path: string | null;
+  imdb_id: string | null;
+  combined_credits?: PersonCombinedCredits;
+  images?: PersonImages;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Credit shared by a person's cast and crew entries
+ *
+ * Combined credits mix movies and TV shows; `media_type` says which, and the
+ * title and date fields follow the usual movie/TV naming.
+ */
+export interface PersonCreditBase {
+  id: number;
+  /** Unique per credit, as a person can have several credits on one title */
+  credit_id: string;
+  media_type: "movie" | "tv";
+  title?: string;
+  name?: string;
+  release_date?: string;
+  first_air_date?: string;
+  poster_path: string | null;
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  [key: string]: unknown; // Allow additional fields
+}
+
+/**
+ * Acting credit from a person's combined credits
+ */
+export interface PersonCastCredit extends PersonCreditBase {
+  character: string;
+  episode_count?: number;
+}
+
+/**
+ * Crew credit from a person's combined credits
+ */
+export interface PersonCrewCredit extends PersonCreditBase {
+  job: string;
+  department: string;
+  episode_count?: number;
+}
+
+/**
+ * Combined movie and TV credits for a person
+ */
+export interface PersonCombinedCredits {
+  cast: PersonCastCredit[];
+  crew: PersonCrewCredit[];
+}
+
+/**
+ * Profile images for a person
+ */
+export interface PersonImages {
+  profiles: Image[];
+}
+
+/**
+ * Fetch person details by TMDB ID
+ *
+ * @param personId TMDB person ID
+ * @returns Person details
+ * @throws Error if person not found or API request fails
+ */
+export async function getPersonById(personId: number): Promise<PersonDetails> {
+  if (!Number.isInteger(personId) || personId <= 0) {
+    throw new Error(`Invalid person ID: ${personId}`);
+  }
+
+  return await request<PersonDetails>(`/person/${personId}`);
+}
+
+/**
+ * Fetch full person details including combined credits and images
+ *
+ * @param personId TMDB person ID
+ * @returns Person details with combined credits and images
+ * @throws Error if person not found or API request fails
+ */
+export async function getPersonDetails(
+  personId: number,
+): Promise<PersonDetails> {
+  if (!Number.isInteger(personId) || personId <= 0) {
+    throw new Error(`Invalid person ID: ${personId}`);
+  }
+
+  return await request<PersonDetails>(`/person/${personId}`, {
+    append_to_response: "combined_credits,images",
+  });
+}
+
+/**
+ * Fetch a person's combined movie and TV credits
+ *
+ * @param personId TMDB person ID
+ * @returns Cast and crew credits across movies and TV
+ * @throws Error if person not found or API request fails
+ */
+export async function getPersonCombinedCredits(
+  personId: number,
+): Promise<PersonCombinedCredits> {
+  if (!Number.isInteger(personId) || personId <= 0) {
+    throw new Error(`Invalid person ID: ${personId}`);
+  }
+
+  return await request<PersonCombinedCredits>(
+    `/person/${personId}/combined_credits`,
+  );
+}
+
+/**
+ * Fetch a person's profile images
+ *
+ * @param personId TMDB person ID
+ * @returns Profile images
+ * @throws Error if person not found or API request fails
+ */
+export async function getPersonImages(personId: number): Promise<PersonImages> {
+  if (!Number.isInteger(personId) || personId <= 0) {
+    throw new Error(`Invalid person ID: ${personId}`);
+  }
+
+  return await request<PersonImages>(`/person/${personId}/images`);
+}
+
 /**
  * TMDB API client instance
  */
@@ -995,14 +1854,21 @@ export const tmdbClient = {
   getMovieById,
   getMovieDetails,
   getTvDetails,
+  getSimilarFromDetails,
+  getTvSeasonDetails,
+  getTvEpisodeDetails,
   searchMovies,
   searchTv,
+  searchMulti,
+  searchPeople,
+  searchCollections,
   getMovieWatchProviders,
   getTvWatchProviders,
   getMovieWatchProvidersByRegion,
   getTvWatchProvidersByRegion,
   filterWatchProvidersByRegion,
   getTrending,
+  discover,
   getMovieVideos,
   getTvVideos,
   extractTrailerKey,
@@ -1010,5 +1876,11 @@ export const tmdbClient = {
   getTvSimilar,
   getMovieExternalIds,
   getTvExternalIds,
+  findByImdbId,
+  getCollectionDetails,
+  getPersonById,
+  getPersonDetails,
+  getPersonCombinedCredits,
+  getPersonImages,
   request,
 };
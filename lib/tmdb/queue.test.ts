@@ -0,0 +1,89 @@
+/**
+ * Unit tests for TMDB request scheduling
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import { RequestCoalescer, RequestQueue } from "./queue.ts";
+
+/**
+ * A task that finishes when the test says so
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => resolve = res);
+  return { promise, resolve };
+}
+
+Deno.test("RequestQueue should cap concurrent tasks", async () => {
+  const queue = new RequestQueue(2);
+  const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+  let peak = 0;
+
+  const runs = gates.map((gate) =>
+    queue.run(async () => {
+      peak = Math.max(peak, queue.activeCount);
+      await gate.promise;
+    })
+  );
+
+  assertEquals(queue.activeCount, 2);
+  assertEquals(queue.pendingCount, 1);
+  gates.forEach((gate) => gate.resolve());
+  await Promise.all(runs);
+
+  assertEquals(peak, 2);
+  assertEquals(queue.activeCount, 0);
+});
+
+Deno.test("RequestQueue should run interactive tasks before background ones", async () => {
+  const queue = new RequestQueue(1);
+  const gate = deferred<void>();
+  const order: string[] = [];
+
+  const blocker = queue.run(() => gate.promise);
+  const runs = [
+    queue.run(() => Promise.resolve(order.push("background 1")), "background"),
+    queue.run(() => Promise.resolve(order.push("interactive")), "interactive"),
+    queue.run(() => Promise.resolve(order.push("background 2")), "background"),
+  ];
+
+  gate.resolve();
+  await Promise.all([blocker, ...runs]);
+
+  assertEquals(order, ["interactive", "background 1", "background 2"]);
+});
+
+Deno.test("RequestQueue should free the slot when a task fails", async () => {
+  const queue = new RequestQueue(1);
+
+  await assertRejects(() => queue.run(() => Promise.reject(new Error("x"))));
+
+  assertEquals(await queue.run(() => Promise.resolve("ok")), "ok");
+  assertEquals(queue.activeCount, 0);
+});
+
+Deno.test("RequestCoalescer should share one request between callers", async () => {
+  const coalescer = new RequestCoalescer();
+  const gate = deferred<string>();
+  let calls = 0;
+  const task = () => {
+    calls++;
+    return gate.promise;
+  };
+
+  const first = coalescer.run("/movie/550", task);
+  const second = coalescer.run("/movie/550", task);
+  const other = coalescer.run("/movie/551", () => Promise.resolve("other"));
+  gate.resolve("fight club");
+
+  assertEquals(await Promise.all([first, second, other]), [
+    "fight club",
+    "fight club",
+    "other",
+  ]);
+  assertEquals(calls, 1);
+  assertEquals(coalescer.size, 0);
+});
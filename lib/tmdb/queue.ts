@@ -0,0 +1,126 @@
+/**
+ * Request scheduling for the TMDB client
+ *
+ * RequestQueue caps how many requests are in flight at once and lets
+ * interactive requests (page loads, API calls) jump ahead of background work
+ * such as the streaming sync. RequestCoalescer shares one request between
+ * concurrent callers asking for the same thing.
+ */
+
+/**
+ * Who is waiting on a request
+ * - interactive: a user is waiting (default)
+ * - background: jobs and prefetching; runs when nothing interactive is queued
+ */
+export type RequestPriority = "interactive" | "background";
+
+const PRIORITY_ORDER: readonly RequestPriority[] = [
+  "interactive",
+  "background",
+];
+
+/**
+ * Bounded-concurrency task queue with priorities
+ *
+ * Tasks of the same priority run in the order they were queued.
+ */
+export class RequestQueue {
+  private active = 0;
+  private waiting: Record<RequestPriority, Array<() => void>> = {
+    interactive: [],
+    background: [],
+  };
+
+  constructor(private readonly maxConcurrent: number) {}
+
+  /**
+   * Number of tasks running
+   */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  get pendingCount(): number {
+    return PRIORITY_ORDER.reduce(
+      (total, priority) => total + this.waiting[priority].length,
+      0,
+    );
+  }
+
+  /**
+   * Run a task once a slot is free
+   *
+   * @param task Task to run
+   * @param priority Queue to wait in (default: interactive)
+   * @returns The task's result
+   */
+  async run<T>(
+    task: () => Promise<T>,
+    priority: RequestPriority = "interactive",
+  ): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) =>
+        this.waiting[priority].push(resolve)
+      );
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hand the finished task's slot to the next waiting task, if any
+   */
+  private release(): void {
+    for (const priority of PRIORITY_ORDER) {
+      const next = this.waiting[priority].shift();
+      if (next) {
+        next();
+        return;
+      }
+    }
+    this.active--;
+  }
+}
+
+/**
+ * Deduplicates concurrent identical requests
+ */
+export class RequestCoalescer {
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Number of distinct requests in flight
+   */
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Run a request, or join the one already in flight for the same key
+   *
+   * @param key Identifies the request, e.g. endpoint and parameters
+   * @param task Makes the request
+   * @returns The shared result
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = task().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Episode tracking database operations
+ *
+ * Stores per-episode watch state in user_episodes and keeps the aggregated
+ * user_seasons rows and the show-level user_content status in sync.
+ */
+
+import { type PoolClient, query, transaction } from "../db.ts";
+import {
+  type EpisodeRef,
+  isShowComplete,
+  type SeasonEpisodeCount,
+  summariseSeasonProgress,
+} from "./progress.ts";
+
+/**
+ * Watched episode record
+ */
+export interface WatchedEpisodeRecord {
+  season_number: number;
+  episode_number: number;
+  watched_at: Date;
+}
+
+/**
+ * TV show the user has started but may not have finished
+ */
+export interface ShowInProgress {
+  content_id: string;
+  tmdb_id: number;
+  title: string;
+  poster_path: string | null;
+  release_date: string | null;
+  last_watched_at: Date;
+}
+
+/**
+ * Get all episodes a user has watched for a show
+ *
+ * @param userId User ID
+ * @param contentId Content database ID
+ * @returns Watched episodes in airing order
+ */
+export async function getWatchedEpisodes(
+  userId: string,
+  contentId: string,
+): Promise<WatchedEpisodeRecord[]> {
+  return await query<WatchedEpisodeRecord>(
+    `SELECT season_number, episode_number, watched_at
+     FROM user_episodes
+     WHERE user_id = $1 AND content_id = $2
+     ORDER BY season_number, episode_number`,
+    [userId, contentId],
+  );
+}
+
+/**
+ * Recalculate user_seasons rows and show-level status from user_episodes
+ *
+ * Seasons with no watched episodes are removed. When every regular season is
+ * complete the show is marked as watched in user_content, unless the user
+ * has already marked it as a favourite.
+ */
+async function syncProgress(
+  client: PoolClient,
+  userId: string,
+  contentId: string,
+  seasons: SeasonEpisodeCount[],
+): Promise<void> {
+  const watched = await client.queryObject<EpisodeRef>(
+    `SELECT season_number, episode_number
+     FROM user_episodes
+     WHERE user_id = $1 AND content_id = $2`,
+    [userId, contentId],
+  );
+
+  const progress = summariseSeasonProgress(seasons, watched.rows);
+
+  for (const season of progress) {
+    if (season.watched_episodes === 0) {
+      await client.queryObject(
+        `DELETE FROM user_seasons
+         WHERE user_id = $1 AND content_id = $2 AND season_number = $3`,
+        [userId, contentId, season.season_number],
+      );
+      continue;
+    }
+
+    await client.queryObject(
+      `INSERT INTO user_seasons (
+        user_id, content_id, season_number, watched_episodes, total_episodes, completed_at
+      ) VALUES ($1, $2, $3, $4, $5, CASE WHEN $6 THEN CURRENT_TIMESTAMP END)
+      ON CONFLICT (user_id, content_id, season_number)
+      DO UPDATE SET
+        watched_episodes = EXCLUDED.watched_episodes,
+        total_episodes = EXCLUDED.total_episodes,
+        completed_at = CASE
+          WHEN $6 THEN COALESCE(user_seasons.completed_at, CURRENT_TIMESTAMP)
+        END`,
+      [
+        userId,
+        contentId,
+        season.season_number,
+        season.watched_episodes,
+        season.total_episodes,
+        season.completed,
+      ],
+    );
+  }
+
+  if (isShowComplete(seasons, watched.rows)) {
+    await client.queryObject(
+      `INSERT INTO user_content (user_id, content_id, status, watched_at)
+       VALUES ($1, $2, 'watched', CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id, content_id)
+       DO UPDATE SET status = 'watched', watched_at = CURRENT_TIMESTAMP
+       WHERE user_content.status = 'to_watch'`,
+      [userId, contentId],
+    );
+  }
+}
+
+/**
+ * Mark episodes as watched
+ *
+ * Already-watched episodes keep their original watched_at timestamp.
+ *
+ * @param userId User ID
+ * @param contentId Content database ID
+ * @param episodes Episodes to mark as watched
+ * @param seasons Season list from TMDB (used for progress totals)
+ */
+export async function markEpisodesWatched(
+  userId: string,
+  contentId: string,
+  episodes: EpisodeRef[],
+  seasons: SeasonEpisodeCount[],
+): Promise<void> {
+  await transaction(async (client) => {
+    for (const episode of episodes) {
+      await client.queryObject(
+        `INSERT INTO user_episodes (user_id, content_id, season_number, episode_number)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_id, content_id, season_number, episode_number) DO NOTHING`,
+        [userId, contentId, episode.season_number, episode.episode_number],
+      );
+    }
+
+    await syncProgress(client, userId, contentId, seasons);
+  });
+}
+
+/**
+ * Remove watched state for episodes
+ *
+ * @param userId User ID
+ * @param contentId Content database ID
+ * @param episodes Episodes to unmark
+ * @param seasons Season list from TMDB (used for progress totals)
+ */
+export async function unmarkEpisodesWatched(
+  userId: string,
+  contentId: string,
+  episodes: EpisodeRef[],
+  seasons: SeasonEpisodeCount[],
+): Promise<void> {
+  await transaction(async (client) => {
+    for (const episode of episodes) {
+      await client.queryObject(
+        `DELETE FROM user_episodes
+         WHERE user_id = $1 AND content_id = $2
+           AND season_number = $3 AND episode_number = $4`,
+        [userId, contentId, episode.season_number, episode.episode_number],
+      );
+    }
+
+    await syncProgress(client, userId, contentId, seasons);
+  });
+}
+
+/**
+ * Get TV shows the user has watched episodes of, most recent first
+ *
+ * @param userId User ID
+ * @param limit Maximum number of shows to return
+ * @returns Shows ordered by the last time an episode was watched
+ */
+export async function getShowsInProgress(
+  userId: string,
+  limit: number = 20,
+): Promise<ShowInProgress[]> {
+  return await query<ShowInProgress>(
+    `SELECT
+      c.id AS content_id,
+      c.tmdb_id,
+      c.title,
+      c.poster_path,
+      c.release_date,
+      MAX(ue.watched_at) AS last_watched_at
+    FROM user_episodes ue
+    INNER JOIN content c ON ue.content_id = c.id
+    WHERE ue.user_id = $1
+    GROUP BY c.id, c.tmdb_id, c.title, c.poster_path, c.release_date
+    ORDER BY last_watched_at DESC
+    LIMIT $2`,
+    [userId, limit],
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for TV progress calculation utilities
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.216.0/assert/mod.ts";
+import {
+  findNextEpisode,
+  getRegularSeasons,
+  isShowComplete,
+  isValidEpisode,
+  summariseSeasonProgress,
+} from "./progress.ts";
+
+const seasons = [
+  { season_number: 0, episode_count: 3 },
+  { season_number: 2, episode_count: 2 },
+  { season_number: 1, episode_count: 3 },
+];
+
+Deno.test("getRegularSeasons should drop specials and sort by season number", () => {
+  const regular = getRegularSeasons(seasons);
+
+  assertEquals(regular.map((s) => s.season_number), [1, 2]);
+});
+
+Deno.test("isValidEpisode should check season and episode range", () => {
+  assert(isValidEpisode(seasons, { season_number: 1, episode_number: 3 }));
+  assert(isValidEpisode(seasons, { season_number: 0, episode_number: 1 }));
+  assert(!isValidEpisode(seasons, { season_number: 1, episode_number: 4 }));
+  assert(!isValidEpisode(seasons, { season_number: 3, episode_number: 1 }));
+});
+
+Deno.test("summariseSeasonProgress should count unique watched episodes", () => {
+  const progress = summariseSeasonProgress(seasons, [
+    { season_number: 1, episode_number: 1 },
+    { season_number: 1, episode_number: 1 },
+    { season_number: 1, episode_number: 2 },
+    { season_number: 2, episode_number: 1 },
+    { season_number: 2, episode_number: 2 },
+  ]);
+
+  assertEquals(progress, [
+    {
+      season_number: 0,
+      watched_episodes: 0,
+      total_episodes: 3,
+      completed: false,
+    },
+    {
+      season_number: 1,
+      watched_episodes: 2,
+      total_episodes: 3,
+      completed: false,
+    },
+    {
+      season_number: 2,
+      watched_episodes: 2,
+      total_episodes: 2,
+      completed: true,
+    },
+  ]);
+});
+
+Deno.test("isShowComplete should ignore specials", () => {
+  const watched = [
+    { season_number: 1, episode_number: 1 },
+    { season_number: 1, episode_number: 2 },
+    { season_number: 1, episode_number: 3 },
+    { season_number: 2, episode_number: 1 },
+    { season_number: 2, episode_number: 2 },
+  ];
+
+  assert(isShowComplete(seasons, watched));
+  assert(!isShowComplete(seasons, watched.slice(1)));
+});
+
+Deno.test("findNextEpisode should start at the first episode", () => {
+  assertEquals(findNextEpisode(seasons, []), {
+    season_number: 1,
+    episode_number: 1,
+  });
+});
+
+Deno.test("findNextEpisode should continue within a season", () => {
+  const next = findNextEpisode(seasons, [
+    { season_number: 1, episode_number: 1 },
+    { season_number: 1, episode_number: 2 },
+  ]);
+
+  assertEquals(next, { season_number: 1, episode_number: 3 });
+});
+
+Deno.test("findNextEpisode should roll over to the next season", () => {
+  const next = findNextEpisode(seasons, [
+    { season_number: 1, episode_number: 3 },
+  ]);
+
+  assertEquals(next, { season_number: 2, episode_number: 1 });
+});
+
+Deno.test("findNextEpisode should return null when caught up", () => {
+  const next = findNextEpisode(seasons, [
+    { season_number: 2, episode_number: 2 },
+  ]);
+
+  assertEquals(next, null);
+});
+
+Deno.test("findNextEpisode should ignore watched specials", () => {
+  const next = findNextEpisode(seasons, [
+    { season_number: 0, episode_number: 2 },
+  ]);
+
+  assertEquals(next, { season_number: 1, episode_number: 1 });
+});
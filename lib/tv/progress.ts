@@ -0,0 +1,178 @@
+/**
+ * TV progress calculation utilities
+ *
+ * Pure helpers for working out season completion and the next episode to
+ * watch from a show's season list and the episodes a user has watched.
+ * Season 0 (specials) is tracked but never counts towards show progress.
+ */
+
+/**
+ * Reference to a single episode of a show
+ */
+export interface EpisodeRef {
+  season_number: number;
+  episode_number: number;
+}
+
+/**
+ * Episode count for a season (subset of TMDB season summary)
+ */
+export interface SeasonEpisodeCount {
+  season_number: number;
+  episode_count: number;
+}
+
+/**
+ * Watch progress for a single season
+ */
+export interface SeasonProgress {
+  season_number: number;
+  watched_episodes: number;
+  total_episodes: number;
+  completed: boolean;
+}
+
+/**
+ * Get regular seasons (excluding specials and empty seasons) in airing order
+ *
+ * @param seasons Season list from TMDB
+ * @returns Seasons with at least one episode, sorted by season number
+ */
+export function getRegularSeasons(
+  seasons: SeasonEpisodeCount[],
+): SeasonEpisodeCount[] {
+  return seasons
+    .filter((season) => season.season_number > 0 && season.episode_count > 0)
+    .sort((a, b) => a.season_number - b.season_number);
+}
+
+/**
+ * Compare two episodes by airing order
+ *
+ * @returns Negative if a comes before b, positive if after, 0 if equal
+ */
+export function compareEpisodes(a: EpisodeRef, b: EpisodeRef): number {
+  if (a.season_number !== b.season_number) {
+    return a.season_number - b.season_number;
+  }
+  return a.episode_number - b.episode_number;
+}
+
+/**
+ * Check whether an episode exists in the given season list
+ *
+ * @param seasons Season list from TMDB
+ * @param episode Episode to check
+ * @returns true if the season exists and the episode number is within range
+ */
+export function isValidEpisode(
+  seasons: SeasonEpisodeCount[],
+  episode: EpisodeRef,
+): boolean {
+  const season = seasons.find((s) => s.season_number === episode.season_number);
+  return !!season && episode.episode_number >= 1 &&
+    episode.episode_number <= season.episode_count;
+}
+
+/**
+ * Summarise watch progress for every season of a show
+ *
+ * @param seasons Season list from TMDB
+ * @param watched Episodes the user has watched
+ * @returns Progress per season, in season number order
+ */
+export function summariseSeasonProgress(
+  seasons: SeasonEpisodeCount[],
+  watched: EpisodeRef[],
+): SeasonProgress[] {
+  return [...seasons]
+    .sort((a, b) => a.season_number - b.season_number)
+    .map((season) => {
+      const watchedEpisodes = new Set(
+        watched
+          .filter((episode) =>
+            episode.season_number === season.season_number &&
+            episode.episode_number <= season.episode_count
+          )
+          .map((episode) => episode.episode_number),
+      ).size;
+
+      return {
+        season_number: season.season_number,
+        watched_episodes: watchedEpisodes,
+        total_episodes: season.episode_count,
+        completed: season.episode_count > 0 &&
+          watchedEpisodes >= season.episode_count,
+      };
+    });
+}
+
+/**
+ * Check whether every regular season of a show has been watched
+ *
+ * @param seasons Season list from TMDB
+ * @param watched Episodes the user has watched
+ * @returns true if the show has regular seasons and all are complete
+ */
+export function isShowComplete(
+  seasons: SeasonEpisodeCount[],
+  watched: EpisodeRef[],
+): boolean {
+  const regular = getRegularSeasons(seasons);
+  if (regular.length === 0) {
+    return false;
+  }
+
+  return summariseSeasonProgress(regular, watched).every((season) =>
+    season.completed
+  );
+}
+
+/**
+ * Find the next episode to watch
+ *
+ * Picks the episode after the furthest one watched in a regular season,
+ * rolling over to the first episode of the next season. Returns the first
+ * episode of the show when nothing has been watched yet.
+ *
+ * @param seasons Season list from TMDB
+ * @param watched Episodes the user has watched
+ * @returns Next episode, or null if the user has caught up
+ */
+export function findNextEpisode(
+  seasons: SeasonEpisodeCount[],
+  watched: EpisodeRef[],
+): EpisodeRef | null {
+  const regular = getRegularSeasons(seasons);
+  if (regular.length === 0) {
+    return null;
+  }
+
+  const furthest = watched
+    .filter((episode) => episode.season_number > 0)
+    .sort(compareEpisodes)
+    .at(-1);
+
+  if (!furthest) {
+    return { season_number: regular[0].season_number, episode_number: 1 };
+  }
+
+  const currentSeason = regular.find((season) =>
+    season.season_number === furthest.season_number
+  );
+  if (currentSeason && furthest.episode_number < currentSeason.episode_count) {
+    return {
+      season_number: currentSeason.season_number,
+      episode_number: furthest.episode_number + 1,
+    };
+  }
+
+  const nextSeason = regular.find((season) =>
+    season.season_number > furthest.season_number
+  );
+  if (!nextSeason) {
+    return null;
+  }
+
+  return { season_number: nextSeason.season_number, episode_number: 1 };
+}
@@ -0,0 +1,38 @@
+-- Migration: Create episode and season tracking tables
+-- Description: Adds per-episode and per-season watch state for TV content on top of user_content
+
+-- Step 1: Create user_episodes table (one row per watched episode)
+CREATE TABLE IF NOT EXISTS user_episodes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  content_id UUID NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  season_number INTEGER NOT NULL CHECK (season_number >= 0),
+  episode_number INTEGER NOT NULL CHECK (episode_number > 0),
+  watched_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, content_id, season_number, episode_number)
+);
+
+-- Step 2: Create user_seasons table (aggregated progress per season)
+CREATE TABLE IF NOT EXISTS user_seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  content_id UUID NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  season_number INTEGER NOT NULL CHECK (season_number >= 0),
+  watched_episodes INTEGER NOT NULL DEFAULT 0,
+  total_episodes INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, content_id, season_number)
+);
+
+-- Step 3: Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_user_episodes_user_content ON user_episodes(user_id, content_id);
+CREATE INDEX IF NOT EXISTS idx_user_episodes_watched_at ON user_episodes(user_id, watched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_seasons_user_content ON user_seasons(user_id, content_id);
+
+-- Step 4: Keep updated_at current on season progress rows
+CREATE TRIGGER update_user_seasons_updated_at
+  BEFORE UPDATE ON user_seasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
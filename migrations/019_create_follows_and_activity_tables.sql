@@ -0,0 +1,33 @@
+-- Migration: Create follows and activity_events tables
+-- Description: Adds one-way follow relationships between users and an activity log used to build the social feed
+
+-- Step 1: Create follows table (follower_id follows following_id)
+CREATE TABLE IF NOT EXISTS follows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+-- Step 2: Create enum type for activity event types
+CREATE TYPE activity_event_type AS ENUM ('watched', 'rated', 'list_add');
+
+-- Step 3: Create activity_events table
+-- Privacy settings are applied when the feed is read, not when events are recorded
+CREATE TABLE IF NOT EXISTS activity_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type activity_event_type NOT NULL,
+  content_id UUID NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  list_id UUID REFERENCES lists(id) ON DELETE CASCADE,
+  rating NUMERIC(3, 1),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Step 4: Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON follows(follower_id);
+CREATE INDEX IF NOT EXISTS idx_follows_following_id ON follows(following_id);
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_created ON activity_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_content_id ON activity_events(content_id);
@@ -0,0 +1,49 @@
+-- Migration: Create list collaboration tables
+-- Description: Lets list owners share lists with viewer/editor collaborators via email or link invites, and records who added each list item
+
+-- Step 1: Create enum type for collaborator roles
+CREATE TYPE list_role AS ENUM ('viewer', 'editor');
+
+-- Step 2: Create list_collaborators table (owner stays on lists.user_id)
+CREATE TABLE IF NOT EXISTS list_collaborators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role list_role NOT NULL DEFAULT 'viewer',
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(list_id, user_id)
+);
+
+-- Step 3: Create list_invites table
+-- Email invites (email set) can be accepted once by that account; link
+-- invites (email NULL) can be accepted by anyone with the link until revoked
+-- or expired.
+CREATE TABLE IF NOT EXISTS list_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  token VARCHAR(255) NOT NULL UNIQUE,
+  email VARCHAR(255),
+  role list_role NOT NULL DEFAULT 'viewer',
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Step 4: Record who added each list item, backfilling existing items to the list owner
+ALTER TABLE list_items ADD COLUMN IF NOT EXISTS added_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE list_items li
+SET added_by = l.user_id
+FROM lists l
+WHERE li.list_id = l.id AND li.added_by IS NULL;
+
+-- Step 5: Version counter bumped on every item change, used to detect concurrent edits
+ALTER TABLE lists ADD COLUMN IF NOT EXISTS items_version INTEGER NOT NULL DEFAULT 0;
+
+-- Step 6: Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_list_collaborators_list_id ON list_collaborators(list_id);
+CREATE INDEX IF NOT EXISTS idx_list_collaborators_user_id ON list_collaborators(user_id);
+CREATE INDEX IF NOT EXISTS idx_list_invites_list_id ON list_invites(list_id);
+CREATE INDEX IF NOT EXISTS idx_list_invites_token ON list_invites(token);
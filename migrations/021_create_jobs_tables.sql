@@ -0,0 +1,66 @@
+-- Migration: Create background jobs tables
+-- Description: Replaces embedding_jobs with a generic Postgres-backed job queue (retries with backoff, dead-letter state, visibility timeouts) and cron-style job schedules
+
+-- Step 1: Create enum type for job status
+-- 'failed' jobs are waiting for a retry at run_at. 'running' jobs hold a lease
+-- until locked_until; a worker that dies simply lets the lease expire and the
+-- job becomes claimable again. Jobs that fail max_attempts times move to
+-- 'dead' and stay there until retried by an admin.
+CREATE TYPE job_status AS ENUM ('pending', 'running', 'completed', 'failed', 'dead');
+
+-- Step 2: Create jobs table
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status job_status NOT NULL DEFAULT 'pending',
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  dedupe_key VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Step 3: Create indexes for claiming and inspecting jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_ready ON jobs(priority DESC, run_at) WHERE status IN ('pending', 'failed');
+CREATE INDEX IF NOT EXISTS idx_jobs_locked_until ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_status_type ON jobs(status, type);
+CREATE INDEX IF NOT EXISTS idx_jobs_completed_at ON jobs(completed_at) WHERE completed_at IS NOT NULL;
+
+-- Step 4: Only one not-yet-started job per dedupe key
+-- Running jobs don't count, so a change made while a job runs still queues a
+-- fresh one.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe ON jobs(type, dedupe_key) WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'failed');
+
+-- Step 5: Create trigger to automatically update updated_at on row updates
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 6: Create job_schedules table for recurring jobs
+CREATE TABLE IF NOT EXISTS job_schedules (
+  name VARCHAR(100) PRIMARY KEY,
+  job_type VARCHAR(100) NOT NULL,
+  cron VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Step 7: Move outstanding embedding jobs onto the new queue
+INSERT INTO jobs (type, payload, dedupe_key, created_at)
+SELECT 'embedding.generate', jsonb_build_object('contentId', content_id), content_id::text, created_at
+FROM embedding_jobs
+WHERE status IN ('pending', 'processing')
+ON CONFLICT DO NOTHING;
+
+-- Step 8: Drop the old embedding queue
+DROP TABLE IF EXISTS embedding_jobs;
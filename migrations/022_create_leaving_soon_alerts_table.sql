@@ -0,0 +1,21 @@
+-- Migration: Create leaving_soon_alerts table
+-- Description: Records which leaving-soon push alerts each user has been sent so nobody is alerted twice for the same title, service and departure date
+
+-- Step 1: Create leaving_soon_alerts table
+-- A new row is only needed if the departure date changes, so the date is
+-- part of the key.
+CREATE TABLE IF NOT EXISTS leaving_soon_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  content_id UUID NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES streaming_services(id) ON DELETE CASCADE,
+  available_until DATE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, content_id, service_id, available_until)
+);
+
+-- Step 2: Create index for pruning old alerts
+CREATE INDEX IF NOT EXISTS idx_leaving_soon_alerts_available_until ON leaving_soon_alerts(available_until);
+
+-- Step 3: Create index for finding content leaving soon
+CREATE INDEX IF NOT EXISTS idx_content_streaming_available_until ON content_streaming(available_until) WHERE available_until IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Migration: Create weekly_digests table
+-- Description: Records which weekly digests have been delivered so a retried digest job doesn't send anyone the same week's digest twice
+
+-- Step 1: Create weekly_digests table
+-- week_of is the Monday of the week the digest was sent.
+CREATE TABLE IF NOT EXISTS weekly_digests (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  week_of DATE NOT NULL,
+  pushed BOOLEAN NOT NULL DEFAULT false,
+  emailed BOOLEAN NOT NULL DEFAULT false,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, week_of)
+);
+
+-- Step 2: Create index for pruning old digest records
+CREATE INDEX IF NOT EXISTS idx_weekly_digests_week_of ON weekly_digests(week_of);
+
+-- Step 3: Create index for finding recent streaming arrivals
+CREATE INDEX IF NOT EXISTS idx_content_streaming_region_created_at ON content_streaming(region, created_at);
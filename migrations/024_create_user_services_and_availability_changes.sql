@@ -0,0 +1,57 @@
+-- Migration: Create user_streaming_services and content_availability_changes tables
+-- Description: Stores the streaming services each user subscribes to, and a history of streaming availability transitions recorded by the sync job
+
+-- Step 1: Create user_streaming_services table
+-- A user's services apply in their preferred region.
+CREATE TABLE IF NOT EXISTS user_streaming_services (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES streaming_services(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, service_id)
+);
+
+-- Step 2: Create index for finding the users of a service
+CREATE INDEX IF NOT EXISTS idx_user_streaming_services_service_id ON user_streaming_services(service_id);
+
+-- Step 3: Create enum type for availability transitions
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'availability_change') THEN
+    CREATE TYPE availability_change AS ENUM ('added', 'removed', 'price_changed');
+  END IF;
+END$$;
+
+-- Step 4: Create content_availability_changes table
+-- One row per offer (service, region, type) that appeared, disappeared or
+-- changed price between two syncs of a title.
+CREATE TABLE IF NOT EXISTS content_availability_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES streaming_services(id) ON DELETE CASCADE,
+  region VARCHAR(10) NOT NULL,
+  type streaming_type NOT NULL,
+  change availability_change NOT NULL,
+  previous_price NUMERIC(10, 2),
+  price NUMERIC(10, 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Step 5: Create indexes for a title's history and recent changes
+CREATE INDEX IF NOT EXISTS idx_content_availability_changes_content_id ON content_availability_changes(content_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_availability_changes_created_at ON content_availability_changes(created_at);
+
+-- Step 6: Track when each title's availability was last synced
+-- Titles that have never been synced have no baseline to diff against, so
+-- their first sync doesn't raise alerts.
+ALTER TABLE content ADD COLUMN IF NOT EXISTS streaming_synced_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE content c
+SET streaming_synced_at = cs.last_updated
+FROM (
+  SELECT content_id, MAX(updated_at) AS last_updated
+  FROM content_streaming
+  GROUP BY content_id
+) cs
+WHERE cs.content_id = c.id AND c.streaming_synced_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_content_streaming_synced_at ON content(streaming_synced_at NULLS FIRST);
@@ -0,0 +1,17 @@
+-- Migration: Create person_follows table
+-- Description: Lets users follow actors, directors and other people from TMDB, so alerts can pick up their new titles
+
+-- Step 1: Create person_follows table
+-- People aren't stored locally, so their name and photo are copied in for listing follows
+CREATE TABLE IF NOT EXISTS person_follows (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tmdb_person_id INTEGER NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  profile_path TEXT,
+  known_for_department VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, tmdb_person_id)
+);
+
+-- Step 2: Index for finding a person's followers
+CREATE INDEX IF NOT EXISTS idx_person_follows_tmdb_person_id ON person_follows(tmdb_person_id);
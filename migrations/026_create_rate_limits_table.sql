@@ -0,0 +1,13 @@
+-- Migration: Create rate_limits table
+-- Description: Shares rate limit state between app instances when Upstash Redis isn't configured
+
+-- Step 1: Create rate_limits table
+-- state holds the limiter algorithm's JSON state (see lib/security/limiter.ts)
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  state JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Step 2: Index for pruning expired rows
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
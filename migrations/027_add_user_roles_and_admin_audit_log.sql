@@ -0,0 +1,36 @@
+-- Migration: Add user roles and admin_audit_log table
+-- Description: Replaces the "first user is the admin" rule with a role on each user, and records what staff do in the admin area
+
+-- Step 1: Create enum type for user roles
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role') THEN
+    CREATE TYPE user_role AS ENUM ('user', 'support', 'admin');
+  END IF;
+END$$;
+
+-- Step 2: Add role column to users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role user_role NOT NULL DEFAULT 'user';
+
+-- Step 3: Keep the existing admin (the first user to sign up) as an admin
+UPDATE users SET role = 'admin'
+WHERE id = (SELECT id FROM users ORDER BY created_at ASC LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin');
+
+-- Step 4: Create admin_audit_log table
+-- actor_id is the staff member; target_user_id the user acted on, if any.
+-- Both are kept as plain IDs when a user is deleted so the trail survives.
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  action VARCHAR(100) NOT NULL,
+  target_user_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Step 5: Indexes for listing the log, by staff member and by user
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor_id ON admin_audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target_user_id ON admin_audit_log(target_user_id, created_at DESC);
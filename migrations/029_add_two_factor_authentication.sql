@@ -0,0 +1,37 @@
+-- Migration: Add two-factor authentication
+-- Description: Optional TOTP second factor for password sign-in, with hashed one-time recovery codes and devices trusted to skip the second step
+
+-- Step 1: Add TOTP columns to users
+-- totp_secret is stored when setup starts; 2FA is on once totp_enabled_at is set.
+-- totp_last_used_step stops a code being accepted twice.
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+  ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT;
+
+-- Step 2: Create recovery codes table
+-- Only SHA-256 hashes of the codes are stored
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user_id
+  ON two_factor_recovery_codes(user_id);
+
+-- Step 3: Create trusted devices table
+-- Devices whose "remember this device" cookie token (hashed here) skips the second step
+CREATE TABLE IF NOT EXISTS trusted_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_user_id ON trusted_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_expires_at ON trusted_devices(expires_at);
@@ -0,0 +1,29 @@
+-- Migration: Create user identities table
+-- Description: Accounts at OpenID Connect providers linked to users, replacing users.google_id so one user can sign in with several providers
+
+-- Step 1: Create user_identities table
+-- subject is the provider's stable ID for the user (the ID token's sub);
+-- email is what the provider reported, kept for display only
+CREATE TABLE IF NOT EXISTS user_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (provider, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
+
+-- Step 2: Move existing Google sign-ins across
+-- Google's OIDC sub is the same ID its userinfo endpoint returned
+INSERT INTO user_identities (user_id, provider, subject, email)
+SELECT id, 'google', google_id, email FROM users
+WHERE google_id IS NOT NULL
+ON CONFLICT (provider, subject) DO NOTHING;
+
+-- Step 3: Drop the old column
+DROP INDEX IF EXISTS idx_users_google_id;
+ALTER TABLE users DROP COLUMN IF EXISTS google_id;
@@ -0,0 +1,85 @@
+-- Migration: Create subscriptions tables
+-- Description: Mirrors Stripe subscriptions (plan, interval, period, trial, cancellation, failed payments) and records processed webhook events, replacing the premium flags in users.preferences
+
+-- Step 1: Create subscriptions table
+-- One row per Stripe subscription, updated from webhook events. status is
+-- Stripe's: trialing, active, past_due, canceled, unpaid, incomplete,
+-- incomplete_expired or paused. last_event_at is when Stripe created the
+-- newest event applied, so older events delivered late are ignored.
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  stripe_subscription_id VARCHAR(255) NOT NULL UNIQUE,
+  stripe_customer_id VARCHAR(255) NOT NULL,
+  status VARCHAR(30) NOT NULL,
+  price_id VARCHAR(255),
+  plan_name VARCHAR(255),
+  billing_interval VARCHAR(10) CHECK (billing_interval IN ('day', 'week', 'month', 'year')),
+  current_period_start TIMESTAMP WITH TIME ZONE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  trial_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  payment_failed_at TIMESTAMP WITH TIME ZONE,
+  last_event_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_stripe_customer_id ON subscriptions(stripe_customer_id);
+
+-- Step 2: Create Stripe events table
+-- Stripe delivers each event at least once; an event with processed_at set
+-- has been applied and is acknowledged without applying it again
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id VARCHAR(255) PRIMARY KEY,
+  type VARCHAR(100) NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_received_at ON stripe_events(received_at);
+
+-- Step 3: Add complimentary premium, granted by admins outside Stripe
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS complimentary_premium BOOLEAN NOT NULL DEFAULT false;
+
+-- Step 4: Move existing subscriptions out of preferences
+-- Only the fields the old webhook kept are known; the next event for each
+-- subscription fills in the rest
+INSERT INTO subscriptions (
+  user_id, stripe_subscription_id, stripe_customer_id, status, plan_name,
+  current_period_end, last_event_at
+)
+SELECT
+  id,
+  preferences->>'stripe_subscription_id',
+  preferences->>'stripe_customer_id',
+  CASE WHEN (preferences->>'premium')::boolean THEN 'active' ELSE 'canceled' END,
+  preferences->>'subscription_plan_name',
+  to_timestamp((preferences->>'subscription_current_period_end')::bigint),
+  to_timestamp(0)
+FROM users
+WHERE preferences ? 'stripe_subscription_id'
+  AND preferences ? 'stripe_customer_id'
+ON CONFLICT (stripe_subscription_id) DO NOTHING;
+
+-- Premium without a subscription was granted by an admin
+UPDATE users SET complimentary_premium = true
+WHERE (preferences->>'premium')::boolean
+  AND NOT preferences ? 'stripe_subscription_id';
+
+UPDATE users
+SET preferences = preferences
+  - 'premium'
+  - 'stripe_customer_id'
+  - 'stripe_subscription_id'
+  - 'subscription_current_period_end'
+  - 'subscription_plan_name'
+WHERE preferences ?| ARRAY[
+  'premium', 'stripe_customer_id', 'stripe_subscription_id',
+  'subscription_current_period_end', 'subscription_plan_name'
+];
@@ -0,0 +1,10 @@
+-- Migration: Add Stripe event leases
+-- Description: Lets one webhook delivery at a time hold an event while it's applied, so deliveries of the same event arriving together don't both apply it
+
+-- Step 1: Add lease columns
+-- locked_by is a random token for the delivery holding the event, which it
+-- holds until locked_until. A delivery that dies lets the lease expire, and
+-- Stripe's next retry can claim the event.
+ALTER TABLE stripe_events
+  ADD COLUMN IF NOT EXISTS locked_by UUID,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
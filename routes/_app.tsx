@@ -3,12 +3,20 @@ import Navigation from "../islands/Navigation.tsx";
 import Footer from "../components/Footer.tsx";
 import NotificationPrompt from "../islands/NotificationPrompt.tsx";
 import Analytics from "../islands/Analytics.tsx";
+import ImpersonationBanner from "../components/ImpersonationBanner.tsx";
+import type { AppState } from "../lib/auth/middleware.ts";
 
-export default function App({ Component, url, data }: PageProps) {
+export default function App(
+  { Component, url, data, state }: PageProps<
+    { isAuthenticated?: boolean } | undefined,
+    AppState
+  >,
+) {
   // Get currentPath from Fresh's url prop (always available)
   // Get isAuthenticated from route data if provided, default to false
   const currentPath = url.pathname;
   const isAuthenticated = data?.isAuthenticated ?? false;
+  const session = state?.session;
 
   return (
     <html class="h-full">
@@ -81,6 +89,9 @@ export default function App({ Component, url, data }: PageProps) {
         </style>
       </head>
       <body class="flex flex-col min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+        {session?.impersonatorId && (
+          <ImpersonationBanner email={session.email} />
+        )}
         <Navigation
           currentPath={currentPath}
           isAuthenticated={isAuthenticated}
@@ -0,0 +1,194 @@
+/**
+ * Root middleware for every page and API request
+ *
+ * - Assigns a request ID (kept from X-Request-ID if a proxy set one) and
+ *   returns it in X-Request-ID
+ * - Attaches the session to ctx.state (see AppState)
+ * - Enforces the access rules in lib/auth/access.ts
+ * - Refuses cross-site POST, PUT, PATCH and DELETE calls to /api, except
+ *   sign-in provider callbacks
+ * - Records every request made while impersonating a user in the audit log
+ * - Writes a structured access log line
+ */
+
+import { FreshContext } from "$fresh/server.ts";
+import {
+  createErrorResponse,
+  createForbiddenResponse,
+  createUnauthorizedResponse,
+} from "../lib/api/errors.ts";
+import { withHeaders } from "../lib/api/headers.ts";
+import { recordAuditEvent } from "../lib/admin/audit.ts";
+import { getRouteAccess, hasJobsApiKey } from "../lib/auth/access.ts";
+import {
+  type AppState,
+  getSessionFromRequest,
+} from "../lib/auth/middleware.ts";
+import { getUserRole, hasRole, type UserRole } from "../lib/auth/roles.ts";
+import { logAccess, setRequestId } from "../lib/logging/logger.ts";
+import { isSameOriginRequest } from "../lib/security/csrf.ts";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Providers using form_post return users with a cross-site POST; the
+// callback checks the state it carries against the flow cookie instead
+const CROSS_SITE_CALLBACK_PATTERN = /^\/api\/auth\/[^/]+\/callback$/;
+
+// Accept proxy-assigned IDs only if they look like IDs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+function getOrCreateRequestId(req: Request): string {
+  const incoming = req.headers.get("X-Request-ID");
+  return incoming && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
+
+/**
+ * Load the signed-in user's role onto ctx.state and check it
+ */
+async function hasRequiredRole(
+  ctx: FreshContext<AppState>,
+  required: UserRole,
+): Promise<boolean> {
+  const { session } = ctx.state;
+  if (!session) {
+    return false;
+  }
+  ctx.state.role ??= await getUserRole(session.userId) ?? undefined;
+  return !!ctx.state.role && hasRole(ctx.state.role, required);
+}
+
+/**
+ * Refuse the request if the route's access rule or CSRF protection says so
+ *
+ * @returns An error response, or null to carry on
+ */
+async function authorise(
+  req: Request,
+  ctx: FreshContext<AppState>,
+  pathname: string,
+): Promise<Response | null> {
+  const { session } = ctx.state;
+  const isApi = pathname.startsWith("/api/");
+
+  if (
+    isApi && !SAFE_METHODS.has(req.method) && !isSameOriginRequest(req) &&
+    !CROSS_SITE_CALLBACK_PATTERN.test(pathname)
+  ) {
+    return createErrorResponse(
+      403,
+      "Forbidden",
+      "Cross-site request refused",
+      undefined,
+      "CSRF_ORIGIN_MISMATCH",
+    );
+  }
+
+  const access = getRouteAccess(pathname, req.method);
+  if (access === "public") {
+    return null;
+  }
+  if (access === "jobs" && hasJobsApiKey(req)) {
+    return null;
+  }
+
+  if (!session) {
+    if (isApi) {
+      return createUnauthorizedResponse();
+    }
+    const returnTo = encodeURIComponent(pathname + new URL(req.url).search);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: `/login?returnTo=${returnTo}` },
+    });
+  }
+
+  if (access === "user") {
+    return null;
+  }
+
+  // Without the API key, jobs routes are open to admins
+  const required: UserRole = access === "support" ? "support" : "admin";
+  if (await hasRequiredRole(ctx, required)) {
+    return null;
+  }
+
+  // Don't reveal staff pages to users who can't use them
+  if (!isApi) {
+    return await ctx.renderNotFound();
+  }
+  if (access === "jobs") {
+    return createUnauthorizedResponse();
+  }
+  return required === "admin"
+    ? createForbiddenResponse("Admin privileges required", "ADMIN_REQUIRED")
+    : createForbiddenResponse(
+      "Support privileges required",
+      "SUPPORT_REQUIRED",
+    );
+}
+
+/**
+ * Add a request made while impersonating to the audit log
+ *
+ * The request has already been handled, so a failure here is logged rather
+ * than turned into an error response.
+ */
+async function recordImpersonatedRequest(
+  req: Request,
+  impersonatorId: string,
+  userId: string,
+  pathname: string,
+  status: number,
+): Promise<void> {
+  try {
+    await recordAuditEvent(
+      req,
+      impersonatorId,
+      "impersonation.request",
+      userId,
+      { method: req.method, path: pathname, status },
+    );
+  } catch (error) {
+    console.error("Failed to record impersonated request:", error);
+  }
+}
+
+export async function handler(req: Request, ctx: FreshContext<AppState>) {
+  // Static files and Fresh's own assets need none of this
+  if (ctx.destination === "static" || ctx.destination === "internal") {
+    return await ctx.next();
+  }
+
+  const start = performance.now();
+  const requestId = getOrCreateRequestId(req);
+  setRequestId(req, requestId);
+
+  const session = await getSessionFromRequest(req);
+  ctx.state.requestId = requestId;
+  ctx.state.session = session;
+  ctx.state.isAuthenticated = session !== null;
+
+  let response: Response;
+  try {
+    const pathname = new URL(req.url).pathname;
+    response = await authorise(req, ctx, pathname) ?? await ctx.next();
+
+    if (session?.impersonatorId) {
+      await recordImpersonatedRequest(
+        req,
+        session.impersonatorId,
+        session.userId,
+        pathname,
+        response.status,
+      );
+    }
+  } catch (error) {
+    logAccess(req, 500, performance.now() - start, session);
+    throw error;
+  }
+
+  logAccess(req, response.status, performance.now() - start, session);
+  return withHeaders(response, { "X-Request-ID": requestId });
+}
@@ -1,7 +1,8 @@
 import { type Handlers, type PageProps } from "$fresh/server.ts";
-import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
 import { getAnalyticsSummary } from "../../lib/analytics/tracker.ts";
-import { query } from "../../lib/db.ts";
+import type { AppState } from "../../lib/auth/middleware.ts";
+import type { UserRole } from "../../lib/auth/roles.ts";
+import AdminNav from "../../components/AdminNav.tsx";
 
 interface AnalyticsData {
   totalPageViews: number;
@@ -12,51 +13,19 @@ interface AnalyticsData {
   topSearches: Array<{ query: string; count: number }>;
   eventCounts: Array<{ event_type: string; count: number }>;
   dailyPageViews: Array<{ date: string; count: number }>;
-  isAdmin: boolean;
+  role: UserRole;
   error?: string;
 }
 
-export const handler: Handlers<AnalyticsData> = {
-  async GET(req, ctx) {
+// Admins only (see lib/auth/access.ts)
+export const handler: Handlers<AnalyticsData, AppState> = {
+  async GET(_req, ctx) {
+    const role = ctx.state.role ?? "admin";
     try {
-      // Require authentication
-      const session = await getSessionFromRequest(req);
-      if (!session) {
-        // Redirect to login
-        return new Response(null, {
-          status: 302,
-          headers: { Location: "/login?redirect=/admin/analytics" },
-        });
-      }
-
-      // Check if user is admin (for now, check if they are the first user)
-      const users = await query<{ id: string }>(
-        "SELECT id FROM users ORDER BY created_at ASC LIMIT 1",
-      );
-      const isAdmin = users.length > 0 && users[0].id === session.userId;
-
-      if (!isAdmin) {
-        return ctx.render({
-          totalPageViews: 0,
-          uniqueVisitors: 0,
-          totalSearches: 0,
-          totalSignups: 0,
-          topPages: [],
-          topSearches: [],
-          eventCounts: [],
-          dailyPageViews: [],
-          isAdmin: false,
-          error: "Access denied. Admin privileges required.",
-        });
-      }
-
       // Get analytics summary for the last 30 days
       const summary = await getAnalyticsSummary(30);
 
-      return ctx.render({
-        ...summary,
-        isAdmin: true,
-      });
+      return ctx.render({ ...summary, role });
     } catch (error) {
       console.error("Error loading analytics:", error);
       return ctx.render({
@@ -68,17 +37,20 @@ export const handler: Handlers<AnalyticsData> = {
         topSearches: [],
         eventCounts: [],
         dailyPageViews: [],
-        isAdmin: false,
+        role,
         error: "Failed to load analytics data",
       });
     }
   },
 };
 
-export default function AnalyticsDashboard({ data }: PageProps<AnalyticsData>) {
+export default function AnalyticsDashboard(
+  { data, url }: PageProps<AnalyticsData>,
+) {
   if (data.error) {
     return (
       <div class="max-w-7xl mx-auto px-4 py-8">
+        <AdminNav currentPath={url.pathname} role={data.role} />
         <div
           class="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded"
           role="alert"
@@ -91,6 +63,7 @@ export default function AnalyticsDashboard({ data }: PageProps<AnalyticsData>) {
 
   return (
     <div class="max-w-7xl mx-auto px-4 py-8">
+      <AdminNav currentPath={url.pathname} role={data.role} />
       <h1 class="text-3xl font-bold text-gray-900 dark:text-white mb-8">
         Analytics Dashboard
       </h1>
@@ -0,0 +1,155 @@
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { type AuditEvent, listAuditEvents } from "../../lib/admin/audit.ts";
+import type { AppState } from "../../lib/auth/middleware.ts";
+import type { UserRole } from "../../lib/auth/roles.ts";
+import AdminNav from "../../components/AdminNav.tsx";
+
+const PAGE_SIZE = 100;
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface AuditPageData {
+  events: AuditEvent[];
+  userId: string | null;
+  role: UserRole;
+  error?: string;
+}
+
+// Admins only (see lib/auth/access.ts)
+export const handler: Handlers<AuditPageData, AppState> = {
+  async GET(req, ctx) {
+    const role = ctx.state.role ?? "admin";
+    const userParam = new URL(req.url).searchParams.get("user_id");
+    const userId = userParam && UUID_REGEX.test(userParam) ? userParam : null;
+
+    try {
+      const events = await listAuditEvents(
+        { userId: userId ?? undefined },
+        PAGE_SIZE,
+      );
+      return ctx.render({ events, userId, role });
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      return ctx.render({
+        events: [],
+        userId,
+        role,
+        error: "Failed to load audit log",
+      });
+    }
+  },
+};
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatDetails(details: Record<string, unknown>): string {
+  return Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(", ");
+}
+
+function UserLink(
+  { id, email }: { id: string | null; email: string | null },
+) {
+  if (!id) {
+    return <span class="text-gray-400">—</span>;
+  }
+  return (
+    <a
+      href={`/admin/audit?user_id=${id}`}
+      class="text-indigo-600 dark:text-indigo-400 hover:underline"
+    >
+      {email ?? id}
+    </a>
+  );
+}
+
+export default function AdminAudit({ data, url }: PageProps<AuditPageData>) {
+  return (
+    <div class="max-w-7xl mx-auto px-4 py-8">
+      <AdminNav currentPath={url.pathname} role={data.role} />
+      <h1 class="text-3xl font-bold text-gray-900 dark:text-white mb-8">
+        Audit Log
+      </h1>
+
+      {data.userId && (
+        <p class="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          Showing events by or about one user.{" "}
+          <a
+            href="/admin/audit"
+            class="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Show all
+          </a>
+        </p>
+      )}
+
+      {data.error && (
+        <div
+          class="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded mb-6"
+          role="alert"
+        >
+          <p>{data.error}</p>
+        </div>
+      )}
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        {data.events.length > 0
+          ? (
+            <table class="w-full">
+              <thead>
+                <tr class="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th class="pb-2">When</th>
+                  <th class="pb-2">Staff</th>
+                  <th class="pb-2">Action</th>
+                  <th class="pb-2">User</th>
+                  <th class="pb-2">Details</th>
+                  <th class="pb-2">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.events.map((event) => (
+                  <tr
+                    key={event.id}
+                    class="border-b border-gray-100 dark:border-gray-700 text-sm"
+                  >
+                    <td class="py-2 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {formatDateTime(event.created_at)}
+                    </td>
+                    <td class="py-2">
+                      <UserLink id={event.actor_id} email={event.actor_email} />
+                    </td>
+                    <td class="py-2 text-gray-900 dark:text-gray-100 font-mono">
+                      {event.action}
+                    </td>
+                    <td class="py-2">
+                      <UserLink
+                        id={event.target_user_id}
+                        email={event.target_email}
+                      />
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400 break-all">
+                      {formatDetails(event.details)}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400 font-mono">
+                      {event.ip_address ?? "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+          : <p class="text-gray-500 dark:text-gray-400">No events yet</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { countContentWithoutEmbeddings } from "../../lib/ai/embedding-queue.ts";
+import type { AppState } from "../../lib/auth/middleware.ts";
+import type { UserRole } from "../../lib/auth/roles.ts";
+import { getJobCounts, type JobStatus } from "../../lib/jobs/queue.ts";
+import {
+  getJobSchedules,
+  type JobScheduleRecord,
+} from "../../lib/jobs/scheduler.ts";
+import { getStreamingAvailabilityStats } from "../../lib/streaming/sync.ts";
+import AdminNav from "../../components/AdminNav.tsx";
+import TriggerJobButton from "../../islands/TriggerJobButton.tsx";
+
+interface OverviewPageData {
+  sync: Awaited<ReturnType<typeof getStreamingAvailabilityStats>> | null;
+  contentWithoutEmbeddings: number;
+  jobTotals: Record<JobStatus, number>;
+  syncSchedule: JobScheduleRecord | null;
+  role: UserRole;
+  error?: string;
+}
+
+const EMPTY_TOTALS: Record<JobStatus, number> = {
+  pending: 0,
+  running: 0,
+  completed: 0,
+  failed: 0,
+  dead: 0,
+};
+
+// Admins only (see lib/auth/access.ts)
+export const handler: Handlers<OverviewPageData, AppState> = {
+  async GET(_req, ctx) {
+    const role = ctx.state.role ?? "admin";
+    try {
+      const [sync, contentWithoutEmbeddings, counts, schedules] = await Promise
+        .all([
+          getStreamingAvailabilityStats(),
+          countContentWithoutEmbeddings(),
+          getJobCounts(),
+          getJobSchedules(),
+        ]);
+
+      const jobTotals = { ...EMPTY_TOTALS };
+      for (const row of counts) {
+        jobTotals[row.status] += row.count;
+      }
+
+      return ctx.render({
+        sync,
+        contentWithoutEmbeddings,
+        jobTotals,
+        syncSchedule: schedules.find((schedule) =>
+          schedule.job_type === "streaming.sync"
+        ) ?? null,
+        role,
+      });
+    } catch (error) {
+      console.error("Error loading admin overview:", error);
+      return ctx.render({
+        sync: null,
+        contentWithoutEmbeddings: 0,
+        jobTotals: EMPTY_TOTALS,
+        syncSchedule: null,
+        role,
+        error: "Failed to load admin overview",
+      });
+    }
+  },
+};
+
+function formatDateTime(date: Date | string | null): string {
+  if (!date) {
+    return "—";
+  }
+  return new Date(date).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminOverview(
+  { data, url }: PageProps<OverviewPageData>,
+) {
+  if (data.error || !data.sync) {
+    return (
+      <div class="max-w-7xl mx-auto px-4 py-8">
+        <AdminNav currentPath={url.pathname} role={data.role} />
+        <div
+          class="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded"
+          role="alert"
+        >
+          <p>{data.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { sync, jobTotals } = data;
+
+  return (
+    <div class="max-w-7xl mx-auto px-4 py-8">
+      <AdminNav currentPath={url.pathname} role={data.role} />
+      <h1 class="text-3xl font-bold text-gray-900 dark:text-white mb-8">
+        Admin Overview
+      </h1>
+
+      {/* Streaming availability sync health */}
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+        <div class="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 class="text-xl font-semibold text-gray-900 dark:text-white">
+              Streaming Sync
+            </h2>
+            <p class="text-sm text-gray-500 dark:text-gray-400">
+              Last run {formatDateTime(data.syncSchedule?.last_run_at ?? null)}
+              {" · "}
+              Next run {formatDateTime(data.syncSchedule?.next_run_at ?? null)}
+            </p>
+          </div>
+          <TriggerJobButton type="streaming.sync" label="Sync now" />
+        </div>
+        <dl class="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Content" value={sync.totalContent} />
+          <Stat label="With availability" value={sync.contentWithStreaming} />
+          <Stat
+            label="Without availability"
+            value={sync.contentWithoutStreaming}
+          />
+          <Stat label="Expired records" value={sync.expiredRecords} />
+        </dl>
+      </div>
+
+      {/* Embeddings */}
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+        <div class="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <h2 class="text-xl font-semibold text-gray-900 dark:text-white">
+            Embeddings
+          </h2>
+          <TriggerJobButton
+            type="embedding.backfill"
+            label="Queue missing embeddings"
+          />
+        </div>
+        <dl class="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat
+            label="Content without embeddings"
+            value={data.contentWithoutEmbeddings}
+          />
+        </dl>
+      </div>
+
+      {/* Job queue health */}
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <div class="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <h2 class="text-xl font-semibold text-gray-900 dark:text-white">
+            Jobs
+          </h2>
+          <a
+            href="/admin/jobs"
+            class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            View all jobs
+          </a>
+        </div>
+        <dl class="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Pending" value={jobTotals.pending} />
+          <Stat label="Running" value={jobTotals.running} />
+          <Stat label="Failed (retrying)" value={jobTotals.failed} />
+          <Stat label="Dead" value={jobTotals.dead} />
+        </dl>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div>
+      <dt class="text-sm font-medium text-gray-500 dark:text-gray-400">
+        {label}
+      </dt>
+      <dd class="text-2xl font-bold text-gray-900 dark:text-white mt-1">
+        {value.toLocaleString()}
+      </dd>
+    </div>
+  );
+}
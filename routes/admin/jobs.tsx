@@ -0,0 +1,287 @@
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import type { AppState } from "../../lib/auth/middleware.ts";
+import type { UserRole } from "../../lib/auth/roles.ts";
+import {
+  getJobCounts,
+  isJobStatus,
+  JOB_STATUSES,
+  type JobRecord,
+  type JobStatus,
+  listJobs,
+} from "../../lib/jobs/queue.ts";
+import {
+  getJobSchedules,
+  type JobScheduleRecord,
+} from "../../lib/jobs/scheduler.ts";
+import AdminNav from "../../components/AdminNav.tsx";
+import RetryJobButton from "../../islands/RetryJobButton.tsx";
+
+interface JobsPageData {
+  counts: { type: string; status: JobStatus; count: number }[];
+  schedules: JobScheduleRecord[];
+  jobs: JobRecord[];
+  status: JobStatus | null;
+  role: UserRole;
+  error?: string;
+}
+
+const EMPTY: Omit<JobsPageData, "error" | "role"> = {
+  counts: [],
+  schedules: [],
+  jobs: [],
+  status: null,
+};
+
+// Admins only (see lib/auth/access.ts)
+export const handler: Handlers<JobsPageData, AppState> = {
+  async GET(req, ctx) {
+    const role = ctx.state.role ?? "admin";
+    try {
+      const url = new URL(req.url);
+      const statusParam = url.searchParams.get("status");
+      const status = statusParam && isJobStatus(statusParam)
+        ? statusParam
+        : null;
+
+      const [counts, schedules, jobs] = await Promise.all([
+        getJobCounts(),
+        getJobSchedules(),
+        listJobs({ status: status ?? undefined }, 100),
+      ]);
+
+      return ctx.render({ counts, schedules, jobs, status, role });
+    } catch (error) {
+      console.error("Error loading jobs:", error);
+      return ctx.render({ ...EMPTY, role, error: "Failed to load jobs" });
+    }
+  },
+};
+
+function formatDateTime(date: Date | string | null): string {
+  if (!date) {
+    return "—";
+  }
+  return new Date(date).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  pending: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+  running: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  completed:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  failed:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  dead: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+export default function JobsDashboard(
+  { data, url }: PageProps<JobsPageData>,
+) {
+  if (data.error) {
+    return (
+      <div class="max-w-7xl mx-auto px-4 py-8">
+        <AdminNav currentPath={url.pathname} role={data.role} />
+        <div
+          class="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded"
+          role="alert"
+        >
+          <p>{data.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const types = [...new Set(data.counts.map((row) => row.type))];
+  const countFor = (type: string, status: JobStatus) =>
+    data.counts.find((row) => row.type === type && row.status === status)
+      ?.count ?? 0;
+
+  return (
+    <div class="max-w-7xl mx-auto px-4 py-8">
+      <AdminNav currentPath={url.pathname} role={data.role} />
+      <h1 class="text-3xl font-bold text-gray-900 dark:text-white mb-8">
+        Background Jobs
+      </h1>
+
+      {/* Counts by type and status */}
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+        <h2 class="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+          Queue
+        </h2>
+        {types.length > 0
+          ? (
+            <table class="w-full">
+              <thead>
+                <tr class="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th class="pb-2">Type</th>
+                  {JOB_STATUSES.map((status) => (
+                    <th key={status} class="pb-2 text-right capitalize">
+                      {status}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {types.map((type) => (
+                  <tr
+                    key={type}
+                    class="border-b border-gray-100 dark:border-gray-700"
+                  >
+                    <td class="py-2 text-gray-900 dark:text-gray-100 font-mono text-sm">
+                      {type}
+                    </td>
+                    {JOB_STATUSES.map((status) => (
+                      <td
+                        key={status}
+                        class="py-2 text-right text-gray-600 dark:text-gray-400"
+                      >
+                        {countFor(type, status).toLocaleString()}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+          : <p class="text-gray-500 dark:text-gray-400">No jobs yet</p>}
+      </div>
+
+      {/* Schedules */}
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+        <h2 class="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+          Schedules
+        </h2>
+        {data.schedules.length > 0
+          ? (
+            <table class="w-full">
+              <thead>
+                <tr class="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th class="pb-2">Name</th>
+                  <th class="pb-2">Cron (UTC)</th>
+                  <th class="pb-2">Last run</th>
+                  <th class="pb-2">Next run</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.schedules.map((schedule) => (
+                  <tr
+                    key={schedule.name}
+                    class="border-b border-gray-100 dark:border-gray-700"
+                  >
+                    <td class="py-2 text-gray-900 dark:text-gray-100">
+                      {schedule.name}
+                      {!schedule.enabled && (
+                        <span class="ml-2 text-xs text-gray-500">(paused)</span>
+                      )}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400 font-mono text-sm">
+                      {schedule.cron}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400">
+                      {formatDateTime(schedule.last_run_at)}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400">
+                      {formatDateTime(schedule.next_run_at)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+          : (
+            <p class="text-gray-500 dark:text-gray-400">
+              Schedules appear after the first worker run
+            </p>
+          )}
+      </div>
+
+      {/* Jobs */}
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <div class="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 class="text-xl font-semibold text-gray-900 dark:text-white">
+            Recent Jobs
+          </h2>
+          <nav class="flex flex-wrap gap-2 text-sm">
+            <a
+              href="/admin/jobs"
+              class={data.status === null
+                ? "font-semibold text-indigo-600 dark:text-indigo-400"
+                : "text-gray-600 dark:text-gray-400 hover:underline"}
+            >
+              All
+            </a>
+            {JOB_STATUSES.map((status) => (
+              <a
+                key={status}
+                href={`/admin/jobs?status=${status}`}
+                class={`capitalize ${
+                  data.status === status
+                    ? "font-semibold text-indigo-600 dark:text-indigo-400"
+                    : "text-gray-600 dark:text-gray-400 hover:underline"
+                }`}
+              >
+                {status}
+              </a>
+            ))}
+          </nav>
+        </div>
+        {data.jobs.length > 0
+          ? (
+            <table class="w-full">
+              <thead>
+                <tr class="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th class="pb-2">Type</th>
+                  <th class="pb-2">Status</th>
+                  <th class="pb-2 text-right">Attempts</th>
+                  <th class="pb-2">Run at</th>
+                  <th class="pb-2">Last error</th>
+                  <th class="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.jobs.map((job) => (
+                  <tr
+                    key={job.id}
+                    class="border-b border-gray-100 dark:border-gray-700 align-top"
+                  >
+                    <td class="py-2 text-gray-900 dark:text-gray-100 font-mono text-sm">
+                      {job.type}
+                    </td>
+                    <td class="py-2">
+                      <span
+                        class={`px-2 py-0.5 text-xs font-medium rounded ${
+                          STATUS_CLASSES[job.status]
+                        }`}
+                      >
+                        {job.status}
+                      </span>
+                    </td>
+                    <td class="py-2 text-right text-gray-600 dark:text-gray-400">
+                      {job.attempts}/{job.max_attempts}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400">
+                      {formatDateTime(job.run_at)}
+                    </td>
+                    <td class="py-2 text-sm text-gray-600 dark:text-gray-400 max-w-md break-words">
+                      {job.last_error || "—"}
+                    </td>
+                    <td class="py-2">
+                      {(job.status === "failed" || job.status === "dead") && (
+                        <RetryJobButton jobId={job.id} />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+          : <p class="text-gray-500 dark:text-gray-400">No matching jobs</p>}
+      </div>
+    </div>
+  );
+}
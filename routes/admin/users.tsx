@@ -0,0 +1,189 @@
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { type AdminUserSummary, listUsers } from "../../lib/admin/users.ts";
+import type { AppState } from "../../lib/auth/middleware.ts";
+import { hasRole, isStaffRole, type UserRole } from "../../lib/auth/roles.ts";
+import AdminNav from "../../components/AdminNav.tsx";
+import AdminUserActions from "../../islands/AdminUserActions.tsx";
+
+const PAGE_SIZE = 50;
+
+interface UsersPageData {
+  users: AdminUserSummary[];
+  search: string;
+  page: number;
+  viewerId: string;
+  role: UserRole;
+  error?: string;
+}
+
+// Support and admins (see lib/auth/access.ts)
+export const handler: Handlers<UsersPageData, AppState> = {
+  async GET(req, ctx) {
+    const role = ctx.state.role ?? "support";
+    const viewerId = ctx.state.session?.userId ?? "";
+    const url = new URL(req.url);
+    const search = url.searchParams.get("q")?.trim() ?? "";
+    const page = Math.max(
+      1,
+      parseInt(url.searchParams.get("page") || "1", 10) || 1,
+    );
+
+    try {
+      const users = await listUsers(
+        search || null,
+        PAGE_SIZE + 1,
+        (page - 1) * PAGE_SIZE,
+      );
+      return ctx.render({ users, search, page, viewerId, role });
+    } catch (error) {
+      console.error("Error loading users:", error);
+      return ctx.render({
+        users: [],
+        search,
+        page,
+        viewerId,
+        role,
+        error: "Failed to load users",
+      });
+    }
+  },
+};
+
+function pageHref(search: string, page: number): string {
+  const params = new URLSearchParams();
+  if (search) {
+    params.set("q", search);
+  }
+  params.set("page", String(page));
+  return `/admin/users?${params}`;
+}
+
+export default function AdminUsers({ data, url }: PageProps<UsersPageData>) {
+  const canManage = hasRole(data.role, "admin");
+  // One extra row is fetched to tell whether there's a next page
+  const users = data.users.slice(0, PAGE_SIZE);
+  const hasNext = data.users.length > PAGE_SIZE;
+
+  return (
+    <div class="max-w-7xl mx-auto px-4 py-8">
+      <AdminNav currentPath={url.pathname} role={data.role} />
+      <h1 class="text-3xl font-bold text-gray-900 dark:text-white mb-8">
+        Users
+      </h1>
+
+      <form method="GET" class="flex gap-2 mb-6" role="search">
+        <input
+          type="search"
+          name="q"
+          value={data.search}
+          placeholder="Search by email or name"
+          aria-label="Search users"
+          class="flex-1 max-w-md rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2"
+        />
+        <button
+          type="submit"
+          class="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+        >
+          Search
+        </button>
+      </form>
+
+      {data.error && (
+        <div
+          class="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-4 py-3 rounded mb-6"
+          role="alert"
+        >
+          <p>{data.error}</p>
+        </div>
+      )}
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        {users.length > 0
+          ? (
+            <table class="w-full">
+              <thead>
+                <tr class="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th class="pb-2">User</th>
+                  <th class="pb-2">Role</th>
+                  <th class="pb-2">Premium</th>
+                  <th class="pb-2">Joined</th>
+                  <th class="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr
+                    key={user.id}
+                    class="border-b border-gray-100 dark:border-gray-700"
+                  >
+                    <td class="py-2">
+                      <p class="text-gray-900 dark:text-gray-100">
+                        {user.email}
+                        {!user.email_verified && (
+                          <span class="ml-2 text-xs text-gray-500">
+                            (unverified)
+                          </span>
+                        )}
+                      </p>
+                      {user.display_name && (
+                        <p class="text-sm text-gray-500 dark:text-gray-400">
+                          {user.display_name}
+                        </p>
+                      )}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400 capitalize">
+                      {user.role}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400">
+                      {user.premium
+                        ? "Complimentary"
+                        : user.subscription_status
+                        ? user.subscription_status.replace("_", " ")
+                        : "No"}
+                    </td>
+                    <td class="py-2 text-gray-600 dark:text-gray-400">
+                      {new Date(user.created_at).toLocaleDateString("en-GB")}
+                    </td>
+                    <td class="py-2">
+                      <AdminUserActions
+                        userId={user.id}
+                        email={user.email}
+                        role={user.role}
+                        premium={user.premium}
+                        canManage={canManage && user.id !== data.viewerId}
+                        canImpersonate={!isStaffRole(user.role)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+          : <p class="text-gray-500 dark:text-gray-400">No users found</p>}
+
+        {(data.page > 1 || hasNext) && (
+          <div class="flex justify-between mt-4 text-sm">
+            {data.page > 1
+              ? (
+                <a
+                  href={pageHref(data.search, data.page - 1)}
+                  class="text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  Previous
+                </a>
+              )
+              : <span />}
+            {hasNext && (
+              <a
+                href={pageHref(data.search, data.page + 1)}
+                class="text-indigo-600 dark:text-indigo-400 hover:underline"
+              >
+                Next
+              </a>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,11 @@
 /**
  * Analytics Dashboard Page
  *
- * Displays key metrics and analytics data for authenticated users.
+ * Displays key metrics and analytics data. Admins only (see
+ * lib/auth/access.ts), as is the summary API it reads from.
  */
 
 import { type Handlers, type PageProps } from "$fresh/server.ts";
-import { getSessionToken } from "../lib/auth/cookies.ts";
-import { verifySessionToken } from "../lib/auth/jwt.ts";
 import AnalyticsDashboard from "../islands/AnalyticsDashboard.tsx";
 
 interface AnalyticsPageData {
@@ -14,29 +13,8 @@ interface AnalyticsPageData {
 }
 
 export const handler: Handlers<AnalyticsPageData> = {
-  async GET(req, ctx) {
-    // Check authentication
-    const token = getSessionToken(req);
-    if (!token) {
-      // Redirect to login
-      const url = new URL(req.url);
-      return Response.redirect(
-        new URL(`/login?redirect=${encodeURIComponent(url.pathname)}`, url),
-        302,
-      );
-    }
-
-    try {
-      await verifySessionToken(token);
-      return ctx.render({ isAuthenticated: true });
-    } catch {
-      // Invalid token, redirect to login
-      const url = new URL(req.url);
-      return Response.redirect(
-        new URL(`/login?redirect=${encodeURIComponent(url.pathname)}`, url),
-        302,
-      );
-    }
+  GET(_req, ctx) {
+    return ctx.render({ isAuthenticated: true });
   },
 };
 
@@ -0,0 +1,56 @@
+/**
+ * Rate limiting for the API
+ *
+ * Signed-in requests are limited per user and anonymous ones per IP address,
+ * using the shared rate limiter so limits hold across instances. Every
+ * response carries RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset;
+ * refused requests get a 429 with Retry-After.
+ */
+
+import { FreshContext } from "$fresh/server.ts";
+import { createTooManyRequestsResponse } from "../../lib/api/errors.ts";
+import { withHeaders } from "../../lib/api/headers.ts";
+import { getSession } from "../../lib/auth/middleware.ts";
+import {
+  getRateLimitHeaders,
+  rateLimiter,
+  type RateLimitPolicy,
+} from "../../lib/security/limiter.ts";
+import { getClientIp } from "../../lib/security/rate-limit.ts";
+
+// Token buckets, so pages that make a burst of calls on load aren't refused
+const USER_POLICY: RateLimitPolicy = {
+  algorithm: "token-bucket",
+  limit: 300,
+  windowSeconds: 60,
+};
+const IP_POLICY: RateLimitPolicy = {
+  algorithm: "token-bucket",
+  limit: 120,
+  windowSeconds: 60,
+};
+
+// Called by services rather than people, and authenticated separately
+const EXEMPT_PATHS = new Set(["/api/jobs/run", "/api/premium/webhook"]);
+
+export async function handler(req: Request, ctx: FreshContext) {
+  if (EXEMPT_PATHS.has(new URL(req.url).pathname)) {
+    return await ctx.next();
+  }
+
+  const session = getSession(ctx);
+  const result = session
+    ? await rateLimiter.consume(`api:user:${session.userId}`, USER_POLICY)
+    : await rateLimiter.consume(`api:ip:${getClientIp(req)}`, IP_POLICY);
+  const headers = getRateLimitHeaders(result);
+
+  if (!result.allowed) {
+    return createTooManyRequestsResponse(
+      "Too many requests. Please slow down and try again shortly.",
+      Number(headers["Retry-After"]),
+      headers,
+    );
+  }
+
+  return withHeaders(await ctx.next(), headers);
+}
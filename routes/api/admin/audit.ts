@@ -0,0 +1,59 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../lib/api/caching.ts";
+import { listAuditEvents } from "../../../lib/admin/audit.ts";
+
+const MAX_LIMIT = 200;
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for reading the admin audit log (admin only)
+ *
+ * GET /api/admin/audit?user_id=...&limit=50&offset=0
+ * - Returns audit events newest first; user_id matches events by or about
+ *   that user
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    try {
+      const url = new URL(req.url);
+      const userId = url.searchParams.get("user_id") || undefined;
+      const limit = Math.min(
+        Math.max(1, parseInt(url.searchParams.get("limit") || "50", 10) || 50),
+        MAX_LIMIT,
+      );
+      const offset = Math.max(
+        0,
+        parseInt(url.searchParams.get("offset") || "0", 10) || 0,
+      );
+
+      if (userId !== undefined && !UUID_REGEX.test(userId)) {
+        return createBadRequestResponse("Invalid user ID", "user_id");
+      }
+
+      const events = await listAuditEvents({ userId }, limit, offset);
+
+      return await handleConditionalRequest(
+        req,
+        { events },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load audit log",
+        req,
+        error,
+      );
+    }
+  },
+};
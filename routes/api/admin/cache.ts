@@ -0,0 +1,58 @@
+import { type Handlers } from "$fresh/server.ts";
+import { createInternalServerErrorResponse } from "../../../lib/api/errors.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../lib/api/caching.ts";
+import { redisCache } from "../../../lib/cache/redis.ts";
+
+/**
+ * API endpoint for cache effectiveness (admin only)
+ *
+ * GET /api/admin/cache
+ * - Returns the active cache backend and hit/miss counts by key namespace
+ *   (e.g. "tmdb") since this instance started
+ *
+ * DELETE /api/admin/cache
+ * - Resets the counts
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    try {
+      return await handleConditionalRequest(
+        req,
+        redisCache.getMetrics(),
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load cache metrics",
+        req,
+        error,
+      );
+    }
+  },
+
+  DELETE(req) {
+    try {
+      redisCache.resetMetrics();
+
+      return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to reset cache metrics",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,141 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../lib/api/caching.ts";
+import { recordAuditEvent } from "../../../lib/admin/audit.ts";
+import { enqueueMissingEmbeddings } from "../../../lib/ai/embedding-queue.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  enqueueJob,
+  getJobCounts,
+  isJobStatus,
+  listJobs,
+} from "../../../lib/jobs/queue.ts";
+import { getJobSchedules } from "../../../lib/jobs/scheduler.ts";
+
+const MAX_LIMIT = 200;
+
+/**
+ * Work an admin can start by hand
+ *
+ * - streaming.sync: queue a streaming availability sync now
+ * - embedding.backfill: queue embedding jobs for content without one
+ */
+const TRIGGERS = ["streaming.sync", "embedding.backfill"] as const;
+type Trigger = typeof TRIGGERS[number];
+
+function isTrigger(value: unknown): value is Trigger {
+  return typeof value === "string" &&
+    (TRIGGERS as readonly string[]).includes(value);
+}
+
+/**
+ * API endpoint for inspecting the background job queue (admin only)
+ *
+ * GET /api/admin/jobs?status=dead&type=embedding.generate&limit=50&offset=0
+ * - Returns job counts by type and status, the recurring schedules, and the
+ *   most recently updated jobs matching the filters
+ *
+ * POST /api/admin/jobs
+ * Body: { type: "streaming.sync" | "embedding.backfill" }
+ * - Queues the work and records it in the admin audit log
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    try {
+      const url = new URL(req.url);
+      const status = url.searchParams.get("status") || undefined;
+      const type = url.searchParams.get("type") || undefined;
+      const limit = Math.min(
+        Math.max(1, parseInt(url.searchParams.get("limit") || "50", 10) || 50),
+        MAX_LIMIT,
+      );
+      const offset = Math.max(
+        0,
+        parseInt(url.searchParams.get("offset") || "0", 10) || 0,
+      );
+
+      if (status !== undefined && !isJobStatus(status)) {
+        return createBadRequestResponse("Invalid job status", "status");
+      }
+
+      const [counts, schedules, jobs] = await Promise.all([
+        getJobCounts(),
+        getJobSchedules(),
+        listJobs({ status, type }, limit, offset),
+      ]);
+
+      return await handleConditionalRequest(
+        req,
+        { counts, schedules, jobs },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load jobs",
+        req,
+        error,
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+
+      let body: { type?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return createBadRequestResponse("Invalid JSON body");
+      }
+      if (!isTrigger(body.type)) {
+        return createBadRequestResponse(
+          "type must be streaming.sync or embedding.backfill",
+          "type",
+        );
+      }
+
+      let queued: number;
+      if (body.type === "streaming.sync") {
+        // Collapses into a manual sync that's already waiting
+        const jobId = await enqueueJob("streaming.sync", {}, {
+          dedupeKey: "manual",
+        });
+        queued = jobId ? 1 : 0;
+      } else {
+        queued = await enqueueMissingEmbeddings();
+      }
+
+      await recordAuditEvent(req, session.userId, "job.trigger", null, {
+        type: body.type,
+        queued,
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, type: body.type, queued }),
+        {
+          status: 202,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to queue jobs",
+        req,
+        error,
+      );
+    }
+  },
+};
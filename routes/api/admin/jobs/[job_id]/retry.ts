@@ -0,0 +1,54 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createErrorResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../../lib/api/errors.ts";
+import { getJobById, retryJob } from "../../../../../lib/jobs/queue.ts";
+
+/**
+ * API endpoint for retrying a failed or dead job (admin only)
+ *
+ * POST /api/admin/jobs/:job_id/retry
+ * - Requeues the job to run immediately with a fresh set of attempts
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const { job_id } = ctx.params;
+
+      const job = await getJobById(job_id);
+      if (!job) {
+        return createNotFoundResponse("Job not found");
+      }
+
+      const retried = await retryJob(job_id);
+      if (!retried) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          job.status === "failed" || job.status === "dead"
+            ? "An identical job is already queued"
+            : `Only failed or dead jobs can be retried (job is ${job.status})`,
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, job: retried }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to retry job",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,50 @@
+import { type Handlers } from "$fresh/server.ts";
+import { createInternalServerErrorResponse } from "../../../lib/api/errors.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../lib/api/caching.ts";
+import { listUsers } from "../../../lib/admin/users.ts";
+
+const MAX_LIMIT = 200;
+
+/**
+ * API endpoint for looking up users (support and admin)
+ *
+ * GET /api/admin/users?q=alex&limit=50&offset=0
+ * - Returns users whose email or display name contains q, newest first,
+ *   with their role and premium status
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    try {
+      const url = new URL(req.url);
+      const search = url.searchParams.get("q")?.trim() || null;
+      const limit = Math.min(
+        Math.max(1, parseInt(url.searchParams.get("limit") || "50", 10) || 50),
+        MAX_LIMIT,
+      );
+      const offset = Math.max(
+        0,
+        parseInt(url.searchParams.get("offset") || "0", 10) || 0,
+      );
+
+      const users = await listUsers(search, limit, offset);
+
+      return await handleConditionalRequest(
+        req,
+        { users },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load users",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,122 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { recordAuditEvent } from "../../../../lib/admin/audit.ts";
+import { getUserSummary } from "../../../../lib/admin/users.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { setComplimentaryPremium } from "../../../../lib/auth/entitlements.ts";
+import {
+  isUserRole,
+  setUserRole,
+  type UserRole,
+} from "../../../../lib/auth/roles.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for changing a user's complimentary premium or role (admin only)
+ *
+ * PATCH /api/admin/users/:user_id
+ * Body: { premium?: boolean, role?: "user" | "support" | "admin" }
+ * - premium grants or removes complimentary premium; it doesn't affect a
+ *   Stripe subscription
+ * - Each change is recorded in the admin audit log with its old and new value
+ */
+export const handler: Handlers = {
+  async PATCH(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { user_id } = ctx.params;
+
+      let body: { premium?: unknown; role?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return createBadRequestResponse("Invalid JSON body");
+      }
+
+      if (body.premium !== undefined && typeof body.premium !== "boolean") {
+        return createBadRequestResponse("premium must be a boolean", "premium");
+      }
+      if (
+        body.role !== undefined &&
+        (typeof body.role !== "string" || !isUserRole(body.role))
+      ) {
+        return createBadRequestResponse(
+          "role must be user, support or admin",
+          "role",
+        );
+      }
+      if (body.premium === undefined && body.role === undefined) {
+        return createBadRequestResponse("Nothing to update");
+      }
+      const premium = body.premium as boolean | undefined;
+      const role = body.role as UserRole | undefined;
+
+      if (!UUID_REGEX.test(user_id)) {
+        return createNotFoundResponse("User not found");
+      }
+
+      const user = await getUserSummary(user_id);
+      if (!user) {
+        return createNotFoundResponse("User not found");
+      }
+
+      // Admins can't demote themselves, so there is always one left
+      if (
+        role !== undefined && user_id === session.userId &&
+        role !== "admin"
+      ) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "You can't remove your own admin role",
+        );
+      }
+
+      if (premium !== undefined && premium !== user.premium) {
+        await setComplimentaryPremium(user_id, premium);
+        await recordAuditEvent(
+          req,
+          session.userId,
+          "user.premium_update",
+          user_id,
+          { from: user.premium, to: premium },
+        );
+      }
+
+      if (role !== undefined && role !== user.role) {
+        await setUserRole(user_id, role);
+        await recordAuditEvent(
+          req,
+          session.userId,
+          "user.role_update",
+          user_id,
+          { from: user.role, to: role },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, user: await getUserSummary(user_id) }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to update user",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,107 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../../lib/api/errors.ts";
+import { recordAuditEvent } from "../../../../../lib/admin/audit.ts";
+import { getUserSummary } from "../../../../../lib/admin/users.ts";
+import { setSessionCookie } from "../../../../../lib/auth/cookies.ts";
+import { requireAuth } from "../../../../../lib/auth/middleware.ts";
+import { isStaffRole } from "../../../../../lib/auth/roles.ts";
+import {
+  revokeSession,
+  startSession,
+} from "../../../../../lib/auth/sessions.ts";
+
+// Impersonation sessions end on their own after an hour
+const IMPERSONATION_SESSION_SECONDS = 60 * 60;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for impersonating a user (support and admin)
+ *
+ * POST /api/admin/users/:user_id/impersonate
+ * Body: { reason?: string }
+ * - Replaces the staff member's session with one for the user, marked with
+ *   the staff member's ID so every request made with it is audited. The
+ *   staff member's own session is revoked, since its cookie is overwritten
+ * - Staff accounts can't be impersonated
+ * - POST /api/impersonation/stop switches back
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { user_id } = ctx.params;
+
+      let reason: string | null = null;
+      try {
+        const body = await req.json();
+        if (typeof body?.reason === "string" && body.reason.trim()) {
+          reason = body.reason.trim().slice(0, 500);
+        }
+      } catch {
+        // The reason is optional, so an empty body is fine
+      }
+
+      if (!UUID_REGEX.test(user_id)) {
+        return createNotFoundResponse("User not found");
+      }
+
+      if (user_id === session.userId) {
+        return createBadRequestResponse("You can't impersonate yourself");
+      }
+
+      const user = await getUserSummary(user_id);
+      if (!user) {
+        return createNotFoundResponse("User not found");
+      }
+      if (isStaffRole(user.role)) {
+        return createForbiddenResponse(
+          "Staff accounts can't be impersonated",
+          "IMPERSONATION_NOT_ALLOWED",
+        );
+      }
+
+      const token = await startSession(req, user, {
+        expiresInSeconds: IMPERSONATION_SESSION_SECONDS,
+        impersonatorId: session.userId,
+      });
+
+      // Stopping starts a fresh staff session, so this one would only be
+      // left behind
+      if (session.sessionId) {
+        await revokeSession(session.sessionId, session.userId);
+      }
+
+      await recordAuditEvent(
+        req,
+        session.userId,
+        "impersonation.start",
+        user.id,
+        { reason },
+      );
+
+      const headers = new Headers({ "Content-Type": "application/json" });
+      setSessionCookie(headers, token);
+
+      return new Response(
+        JSON.stringify({ success: true, redirectTo: "/dashboard" }),
+        { status: 200, headers },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to start impersonation",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { getSessionFromRequest } from "../../../lib/auth/middleware.ts";
+import { getSession } from "../../../lib/auth/middleware.ts";
 import { trackEvent, type AnalyticsEventType } from "../../../lib/analytics/tracker.ts";
 
 /**
@@ -25,7 +25,7 @@ function getCookieValue(req: Request, name: string): string | undefined {
  * - Associates events with user if authenticated
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
       // Parse request body
       const body = await req.json();
@@ -74,16 +74,8 @@ export const handler: Handlers = {
         headers.set("Set-Cookie", cookieValue);
       }
 
-      // Get user ID if authenticated
-      let userId: string | undefined;
-      try {
-        const session = await getSessionFromRequest(req);
-        if (session) {
-          userId = session.userId;
-        }
-      } catch {
-        // Not authenticated - that's fine, track as anonymous
-      }
+      // Get user ID if authenticated; anonymous events are tracked too
+      const userId = getSession(ctx)?.userId;
 
       // Get user agent from request
       const userAgent = req.headers.get("user-agent") || undefined;
@@ -0,0 +1,81 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createForbiddenResponse,
+  createNotFoundResponse,
+} from "../../../lib/api/errors.ts";
+import { setOidcFlowCookie } from "../../../lib/auth/cookies.ts";
+import { createOidcFlowToken } from "../../../lib/auth/jwt.ts";
+import { getSession } from "../../../lib/auth/middleware.ts";
+import { beginAuthorization, getProvider } from "../../../lib/auth/oidc.ts";
+import { getSafeReturnTo } from "../../../lib/auth/return-to.ts";
+
+/**
+ * Sign in with an OpenID Connect provider
+ *
+ * GET /api/auth/:provider?returnTo=/path
+ * - Sends the user to the provider, which returns them to
+ *   /api/auth/:provider/callback
+ *
+ * GET /api/auth/:provider?link=true
+ * - Links the provider to the signed-in user's account instead, returning
+ *   to settings
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    const provider = getProvider(ctx.params.provider);
+    if (!provider) {
+      return createNotFoundResponse("Sign-in provider not found");
+    }
+
+    const url = new URL(req.url);
+    const linking = url.searchParams.get("link") === "true";
+    const session = getSession(ctx);
+
+    let linkUserId: string | undefined;
+    if (linking) {
+      if (!session) {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            Location: `/login?returnTo=${encodeURIComponent("/settings")}`,
+          },
+        });
+      }
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Sign-in providers can't be linked while impersonating",
+          "IMPERSONATING",
+        );
+      }
+      linkUserId = session.userId;
+    }
+
+    const returnTo = linking
+      ? "/settings"
+      : getSafeReturnTo(url.searchParams.get("returnTo"));
+
+    try {
+      const { url: authUrl, flow } = await beginAuthorization(req, provider, {
+        returnTo,
+        linkUserId,
+      });
+
+      // The state, nonce and PKCE verifier stay with this browser
+      const headers = new Headers({ Location: authUrl });
+      setOidcFlowCookie(headers, await createOidcFlowToken(flow));
+
+      return new Response(null, { status: 302, headers });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`${provider.name} sign-in initiation error:`, message);
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: linking
+            ? "/settings?error=provider_unavailable"
+            : "/login?error=provider_unavailable",
+        },
+      });
+    }
+  },
+};
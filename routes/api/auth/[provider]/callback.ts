@@ -0,0 +1,192 @@
+import { type FreshContext, type Handlers } from "$fresh/server.ts";
+import {
+  clearOidcFlowCookie,
+  getOidcFlowToken,
+  setSessionCookie,
+  setTwoFactorChallengeCookie,
+} from "../../../../lib/auth/cookies.ts";
+import {
+  createUserWithIdentity,
+  findIdentity,
+  findUserByEmail,
+  linkIdentity,
+  recordIdentityUse,
+} from "../../../../lib/auth/identities.ts";
+import {
+  createTwoFactorChallengeToken,
+  TWO_FACTOR_CHALLENGE_SECONDS,
+  verifyOidcFlowToken,
+} from "../../../../lib/auth/jwt.ts";
+import { getSession } from "../../../../lib/auth/middleware.ts";
+import {
+  completeAuthorization,
+  getProvider,
+  getRedirectUri,
+} from "../../../../lib/auth/oidc.ts";
+import { startSession } from "../../../../lib/auth/sessions.ts";
+import {
+  isSecondFactorRequired,
+  isTwoFactorEnabled,
+} from "../../../../lib/auth/two-factor.ts";
+
+function redirect(headers: Headers, location: string): Response {
+  headers.set("Location", location);
+  return new Response(null, { status: 303, headers });
+}
+
+/**
+ * Finish signing in (or linking) with the provider's response
+ *
+ * @param params The callback's query string, or form body for form_post
+ */
+async function handleCallback(
+  req: Request,
+  ctx: FreshContext,
+  params: URLSearchParams,
+): Promise<Response> {
+  // The flow is single-use, however it ends
+  const headers = new Headers();
+  clearOidcFlowCookie(headers);
+
+  const flowToken = getOidcFlowToken(req);
+  const flow = flowToken ? await verifyOidcFlowToken(flowToken) : null;
+  const failed = (error: string) =>
+    redirect(
+      headers,
+      flow?.linkUserId ? `/settings?error=${error}` : `/login?error=${error}`,
+    );
+
+  const provider = getProvider(ctx.params.provider);
+  if (!provider) {
+    return failed("oauth_failed");
+  }
+
+  try {
+    if (params.get("error")) {
+      console.error(`${provider.name} sign-in error:`, params.get("error"));
+      return failed("oauth_failed");
+    }
+
+    // The state must be the one this browser was sent off with
+    if (
+      !flow || flow.provider !== provider.id ||
+      params.get("state") !== flow.state
+    ) {
+      return failed("oauth_callback_failed");
+    }
+
+    const code = params.get("code");
+    if (!code) {
+      return failed("oauth_callback_failed");
+    }
+
+    const profile = await completeAuthorization(provider, {
+      code,
+      redirectUri: getRedirectUri(req, provider),
+      codeVerifier: flow.codeVerifier,
+      nonce: flow.nonce,
+    });
+    const identity = await findIdentity(provider.id, profile.subject);
+
+    if (flow.linkUserId) {
+      // form_post callbacks are cross-site, so carry no session cookie; the
+      // signed flow says who started linking
+      const session = getSession(ctx);
+      if (session && session.userId !== flow.linkUserId) {
+        return failed("oauth_callback_failed");
+      }
+      if (identity && identity.user_id !== flow.linkUserId) {
+        return failed("identity_in_use");
+      }
+      if (!identity) {
+        await linkIdentity(flow.linkUserId, provider.id, profile);
+      }
+      return redirect(headers, `${flow.returnTo}?linked=${provider.id}`);
+    }
+
+    let user: { id: string; email: string };
+    if (identity) {
+      user = { id: identity.user_id, email: identity.email };
+      await recordIdentityUse(identity.id, user.id, profile);
+    } else {
+      // Only a verified email can sign up, or link to an account with the
+      // same address
+      if (!profile.email || !profile.emailVerified) {
+        return failed("email_not_verified");
+      }
+      const existing = await findUserByEmail(profile.email);
+      if (existing) {
+        // Someone with only the email address mustn't be able to add a way
+        // in that skips the second factor; these users link from settings
+        if (await isTwoFactorEnabled(existing.id)) {
+          return failed("link_requires_sign_in");
+        }
+        await linkIdentity(existing.id, provider.id, profile);
+        user = existing;
+      } else {
+        user = await createUserWithIdentity(provider.id, {
+          ...profile,
+          email: profile.email,
+        });
+      }
+    }
+
+    // As with password sign-in, a second factor is needed before the
+    // session starts; the login page asks for it
+    if (await isSecondFactorRequired(req, user.id)) {
+      setTwoFactorChallengeCookie(
+        headers,
+        await createTwoFactorChallengeToken(user.id),
+        TWO_FACTOR_CHALLENGE_SECONDS,
+      );
+      return redirect(
+        headers,
+        `/login?twoFactor=true&returnTo=${encodeURIComponent(flow.returnTo)}`,
+      );
+    }
+
+    // Start a session for this device
+    const token = await startSession(req, user);
+    setSessionCookie(headers, token);
+
+    return redirect(headers, flow.returnTo);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${provider.name} sign-in callback error:`, message);
+    return failed("oauth_callback_failed");
+  }
+}
+
+/**
+ * OpenID Connect callback
+ *
+ * GET /api/auth/:provider/callback?code=...&state=...
+ * POST /api/auth/:provider/callback (providers using form_post)
+ * - Checks the state against the flow cookie set by /api/auth/:provider,
+ *   exchanges the code and verifies the ID token
+ * - Signs in the user linked to the provider account; otherwise links it to
+ *   the account with the same verified email (unless that account has
+ *   two-factor authentication), or creates an account
+ * - Users with two-factor authentication are sent to /login?twoFactor=true
+ *   for a code, with the challenge in a cookie, unless the device is trusted
+ * - When linking from settings, links it to the signed-in user unless
+ *   another user already has it
+ * - Redirects to the page the flow started from, or to /login (or
+ *   /settings) with ?error= on failure
+ */
+export const handler: Handlers = {
+  GET(req, ctx) {
+    return handleCallback(req, ctx, new URL(req.url).searchParams);
+  },
+
+  async POST(req, ctx) {
+    const form = await req.formData().catch(() => new FormData());
+    const params = new URLSearchParams();
+    for (const [name, value] of form) {
+      if (typeof value === "string") {
+        params.set(name, value);
+      }
+    }
+    return handleCallback(req, ctx, params);
+  },
+};
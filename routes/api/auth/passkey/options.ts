@@ -0,0 +1,45 @@
+import { type Handlers } from "$fresh/server.ts";
+import { createInternalServerErrorResponse } from "../../../../lib/api/errors.ts";
+import {
+  buildAuthenticationOptions,
+  createPasskeyChallenge,
+  getRelyingParty,
+} from "../../../../lib/auth/passkeys.ts";
+
+/**
+ * API endpoint to start signing in with a passkey
+ *
+ * POST /api/auth/passkey/options
+ * - Returns { challengeId, publicKey }, where publicKey is the options for
+ *   navigator.credentials.get() with binary fields base64url encoded
+ */
+export const handler: Handlers = {
+  async POST(req) {
+    try {
+      const { id, challenge } = await createPasskeyChallenge("authentication");
+
+      return new Response(
+        JSON.stringify({
+          challengeId: id,
+          publicKey: buildAuthenticationOptions(
+            getRelyingParty(req),
+            challenge,
+          ),
+        }),
+        {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        },
+      );
+    } catch (error) {
+      return createInternalServerErrorResponse(
+        "Failed to start passkey sign-in",
+        req,
+        error,
+      );
+    }
+  },
+};
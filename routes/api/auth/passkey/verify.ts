@@ -0,0 +1,138 @@
+import { type Handlers } from "$fresh/server.ts";
+import { query } from "../../../../lib/db.ts";
+import { setSessionCookie } from "../../../../lib/auth/cookies.ts";
+import {
+  consumePasskeyChallenge,
+  findPasskey,
+  getRelyingParty,
+  isUserHandleFor,
+  recordPasskeyUse,
+} from "../../../../lib/auth/passkeys.ts";
+import { getSafeReturnTo } from "../../../../lib/auth/return-to.ts";
+import { startSession } from "../../../../lib/auth/sessions.ts";
+import {
+  type AuthenticationResponseJSON,
+  verifyAuthenticationResponse,
+} from "../../../../lib/auth/webauthn.ts";
+import {
+  createCsrfErrorResponse,
+  validateCsrfTokenFromJson,
+} from "../../../../lib/security/csrf.ts";
+import {
+  checkRateLimit,
+  clearFailedAttempts,
+  getClientIp,
+  recordFailedAttempt,
+} from "../../../../lib/security/rate-limit.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createTooManyRequestsResponse,
+  createUnauthorizedResponse,
+} from "../../../../lib/api/errors.ts";
+
+/**
+ * API endpoint to finish signing in with a passkey
+ *
+ * POST /api/auth/passkey/verify
+ * - Body: { challengeId, credential, returnTo?, csrf_token }, where
+ *   credential is the navigator.credentials.get() response with binary
+ *   fields base64url encoded
+ * - Sets the session cookie and returns { success, redirectTo }
+ *
+ * Passkeys verify the user on the device, so they don't also need the
+ * two-factor step password sign-in has.
+ */
+export const handler: Handlers = {
+  async POST(req) {
+    try {
+      const body = await req.json().catch(() => null);
+      if (!body || typeof body !== "object") {
+        return createBadRequestResponse("Invalid request body");
+      }
+      if (!validateCsrfTokenFromJson(req, body)) {
+        return createCsrfErrorResponse();
+      }
+
+      const clientIp = getClientIp(req);
+      const rateLimitCheck = await checkRateLimit(clientIp);
+      if (rateLimitCheck.isBlocked) {
+        return createTooManyRequestsResponse(
+          "Too many failed login attempts. Please try again later.",
+          rateLimitCheck.remainingSeconds,
+        );
+      }
+
+      const { challengeId, credential } = body as {
+        challengeId?: unknown;
+        credential?: AuthenticationResponseJSON;
+      };
+      if (
+        typeof challengeId !== "string" ||
+        typeof credential?.rawId !== "string" ||
+        typeof credential.response !== "object"
+      ) {
+        return createBadRequestResponse("Passkey response is required");
+      }
+
+      const challenge = await consumePasskeyChallenge(
+        challengeId,
+        "authentication",
+      );
+      if (!challenge) {
+        return createBadRequestResponse(
+          "Passkey sign-in timed out. Please try again.",
+        );
+      }
+
+      const passkey = await findPasskey(credential.rawId);
+      if (
+        !passkey ||
+        !isUserHandleFor(credential.response.userHandle, passkey.user_id)
+      ) {
+        await recordFailedAttempt(clientIp);
+        return createUnauthorizedResponse(
+          "This passkey isn't registered with Stream Owl",
+        );
+      }
+
+      let signCount: number;
+      try {
+        ({ signCount } = await verifyAuthenticationResponse(
+          credential,
+          challenge,
+          getRelyingParty(req),
+          { publicKey: passkey.public_key, signCount: passkey.sign_count },
+        ));
+      } catch (error) {
+        await recordFailedAttempt(clientIp);
+        return createUnauthorizedResponse(
+          error instanceof Error ? error.message : "Passkey sign-in failed",
+        );
+      }
+
+      await clearFailedAttempts(clientIp);
+      await recordPasskeyUse(passkey.id, signCount);
+
+      const users = await query<{ id: string; email: string }>(
+        "SELECT id, email FROM users WHERE id = $1",
+        [passkey.user_id],
+      );
+      const token = await startSession(req, users[0]);
+
+      const redirectTo = getSafeReturnTo(
+        typeof body.returnTo === "string" ? body.returnTo : null,
+      );
+
+      const headers = new Headers({ "Content-Type": "application/json" });
+      setSessionCookie(headers, token);
+
+      return new Response(
+        JSON.stringify({ success: true, redirectTo }),
+        { status: 200, headers },
+      );
+    } catch (error) {
+      return createInternalServerErrorResponse("Failed to log in", req, error);
+    }
+  },
+};
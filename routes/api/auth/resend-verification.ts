@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import {
   isEmailVerified,
   resendEmailVerification,
@@ -19,9 +19,9 @@ import {
  * Requires authentication
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Check if email is already verified
       const verified = await isEmailVerified(session.userId);
@@ -46,7 +46,7 @@ export const handler: Handlers = {
         baseUrl,
         verificationToken,
       );
-      sendVerificationEmail(users[0].email, verificationUrl);
+      await sendVerificationEmail(users[0].email, verificationUrl);
 
       return new Response(
         JSON.stringify({
@@ -0,0 +1,92 @@
+import { type Handlers } from "$fresh/server.ts";
+import { handleConditionalRequest } from "../../lib/api/caching.ts";
+import { CachePresets } from "../../lib/api/caching.ts";
+import { type Content, discover } from "../../lib/tmdb/client.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../lib/api/errors.ts";
+import { getSession } from "../../lib/auth/middleware.ts";
+import { parseBrowseFilters } from "../../lib/browse/filters.ts";
+import { getUserRegion } from "../../lib/region.ts";
+
+interface BrowseResponse {
+  results: Content[];
+  total_results: number;
+  page: number;
+  total_pages: number;
+  /** Region provider filters were applied in */
+  region: string | null;
+}
+
+/**
+ * API handler for the browse catalogue
+ * Returns movies or TV shows from TMDB discover, filtered by genre, year,
+ * rating, runtime, original language and streaming provider
+ *
+ * Provider filters apply in the `region` parameter, falling back to the
+ * user's region preference or detected region.
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const url = new URL(req.url);
+      const parsed = parseBrowseFilters(url.searchParams);
+
+      if (parsed.error) {
+        return createBadRequestResponse(
+          parsed.error.message,
+          parsed.error.field,
+        );
+      }
+
+      const filters = parsed.filters;
+
+      // Only provider filtering depends on region; resolve the user's region
+      // when it's needed and not given
+      let region = filters.region;
+      if (!region && filters.providers.length > 0) {
+        const session = getSession(ctx);
+        region = await getUserRegion(req, session);
+      }
+
+      const results = await discover(filters.type, {
+        page: filters.page,
+        sortBy: filters.sort,
+        genres: filters.genres,
+        yearFrom: filters.yearFrom,
+        yearTo: filters.yearTo,
+        minRating: filters.minRating,
+        minVotes: filters.minVotes,
+        runtimeMin: filters.runtimeMin,
+        runtimeMax: filters.runtimeMax,
+        language: filters.language,
+        providers: filters.providers,
+        watchRegion: region,
+      });
+
+      const response: BrowseResponse = {
+        results: results.results,
+        total_results: results.total_results,
+        page: results.page,
+        total_pages: results.total_pages,
+        region: filters.providers.length > 0 ? region : null,
+      };
+
+      // A region resolved from the user makes the response user-specific
+      return await handleConditionalRequest(
+        req,
+        response,
+        region && !filters.region
+          ? CachePresets.PRIVATE_1H
+          : CachePresets.PUBLIC_1H,
+      );
+    } catch (error) {
+      return createInternalServerErrorResponse(
+        "Failed to fetch browse results",
+        req,
+        error,
+      );
+    }
+  },
+};
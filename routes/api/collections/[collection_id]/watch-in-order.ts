@@ -0,0 +1,71 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { createWatchInOrderList } from "../../../../lib/collections/watch-order.ts";
+import {
+  hasReachedListLimit,
+  LIST_LIMIT_MESSAGE,
+} from "../../../../lib/lists/limits.ts";
+import {
+  type CollectionDetails,
+  getCollectionDetails,
+} from "../../../../lib/tmdb/client.ts";
+
+/**
+ * API endpoint to turn a collection into a "watch in order" list
+ *
+ * POST /api/collections/[collection_id]/watch-in-order
+ * - Creates a custom list of the collection's movies in release order
+ * - Counts towards the free tier list limit
+ * - Returns: { list: { id, name, item_count } }
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const collectionId = parseInt(ctx.params.collection_id, 10);
+
+      if (!Number.isInteger(collectionId) || collectionId <= 0) {
+        return createBadRequestResponse(
+          "Invalid collection ID",
+          "collection_id",
+        );
+      }
+
+      if (await hasReachedListLimit(session.userId)) {
+        return createForbiddenResponse(
+          LIST_LIMIT_MESSAGE,
+          "LIST_LIMIT_REACHED",
+        );
+      }
+
+      let collection: CollectionDetails;
+      try {
+        collection = await getCollectionDetails(collectionId);
+      } catch (_error) {
+        return createNotFoundResponse("Collection not found");
+      }
+
+      const list = await createWatchInOrderList(session.userId, collection);
+
+      return new Response(JSON.stringify({ list }), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to create watch-in-order list",
+        req,
+        error,
+      );
+    }
+  },
+};
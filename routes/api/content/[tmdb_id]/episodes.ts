@@ -0,0 +1,262 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../../lib/api/caching.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  getContentByTmdbId,
+  getOrCreateContent,
+} from "../../../../lib/content.ts";
+import {
+  getWatchedEpisodes,
+  markEpisodesWatched,
+  unmarkEpisodesWatched,
+} from "../../../../lib/tv/episodes.ts";
+import {
+  type EpisodeRef,
+  findNextEpisode,
+  isValidEpisode,
+  type SeasonEpisodeCount,
+  summariseSeasonProgress,
+} from "../../../../lib/tv/progress.ts";
+import { getTvDetails, type TvDetails } from "../../../../lib/tmdb/client.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
+
+/**
+ * Resolve the episodes targeted by a POST/DELETE request body
+ *
+ * Accepts { season_number, episode_number } for a single episode, or
+ * { season_number } on its own for every episode in that season.
+ *
+ * @returns Episodes to update, or a validation error message
+ */
+function parseEpisodeSelection(
+  body: { season_number?: unknown; episode_number?: unknown },
+  seasons: SeasonEpisodeCount[],
+): EpisodeRef[] | string {
+  const seasonNumber = body.season_number;
+  if (typeof seasonNumber !== "number" || !Number.isInteger(seasonNumber)) {
+    return "season_number must be an integer";
+  }
+
+  const season = seasons.find((s) => s.season_number === seasonNumber);
+  if (!season) {
+    return `Season ${seasonNumber} does not exist`;
+  }
+
+  if (body.episode_number === undefined || body.episode_number === null) {
+    return Array.from({ length: season.episode_count }, (_, i) => ({
+      season_number: seasonNumber,
+      episode_number: i + 1,
+    }));
+  }
+
+  const episode = {
+    season_number: seasonNumber,
+    episode_number: body.episode_number as number,
+  };
+  if (
+    typeof body.episode_number !== "number" ||
+    !isValidEpisode(seasons, episode)
+  ) {
+    return `Episode ${body.episode_number} does not exist in season ${seasonNumber}`;
+  }
+
+  return [episode];
+}
+
+/**
+ * Get season episode counts from TV details
+ */
+function getSeasonCounts(tvDetails: TvDetails): SeasonEpisodeCount[] {
+  return (tvDetails.seasons || []).map((season) => ({
+    season_number: season.season_number,
+    episode_count: season.episode_count,
+  }));
+}
+
+/**
+ * Fetch TV details, returning null if the ID is not a TV show
+ */
+async function fetchTvDetails(tmdbId: number): Promise<TvDetails | null> {
+  try {
+    return await getTvDetails(tmdbId);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * API endpoint for per-episode TV watch progress
+ *
+ * GET /api/content/[tmdb_id]/episodes
+ * - Returns season progress, watched episodes and the next episode to watch
+ *
+ * POST /api/content/[tmdb_id]/episodes
+ * - Marks an episode (or a whole season) as watched
+ * - Body: { season_number: number, episode_number?: number }
+ * - Marks the show as watched once every regular season is complete
+ *
+ * DELETE /api/content/[tmdb_id]/episodes
+ * - Removes watched state for an episode (or a whole season)
+ * - Body: { season_number: number, episode_number?: number }
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const userId = session.userId;
+
+      const tmdbId = parseInt(ctx.params.tmdb_id, 10);
+      if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
+        return createBadRequestResponse("Invalid content ID", "tmdb_id");
+      }
+
+      const tvDetails = await fetchTvDetails(tmdbId);
+      if (!tvDetails) {
+        return createNotFoundResponse("TV show not found");
+      }
+
+      const seasons = getSeasonCounts(tvDetails);
+      const content = await getContentByTmdbId(tmdbId);
+      const watched = content && content.type === "tv"
+        ? await getWatchedEpisodes(userId, content.id)
+        : [];
+
+      const progress = summariseSeasonProgress(seasons, watched);
+      const response = {
+        seasons: progress.map((season) => ({
+          ...season,
+          name: tvDetails.seasons?.find((s) =>
+            s.season_number === season.season_number
+          )?.name ?? `Season ${season.season_number}`,
+        })),
+        watched: watched.map((episode) => ({
+          season_number: episode.season_number,
+          episode_number: episode.episode_number,
+          watched_at: episode.watched_at.toISOString(),
+        })),
+        next_episode: findNextEpisode(seasons, watched),
+      };
+
+      return await handleConditionalRequest(
+        req,
+        response,
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch episode progress",
+        req,
+        error,
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const userId = session.userId;
+
+      const tmdbId = parseInt(ctx.params.tmdb_id, 10);
+      if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
+        return createBadRequestResponse("Invalid content ID", "tmdb_id");
+      }
+
+      const tvDetails = await fetchTvDetails(tmdbId);
+      if (!tvDetails) {
+        return createNotFoundResponse("TV show not found");
+      }
+
+      const seasons = getSeasonCounts(tvDetails);
+      const body = await req.json().catch(() => ({}));
+      const episodes = parseEpisodeSelection(body, seasons);
+      if (typeof episodes === "string") {
+        return createBadRequestResponse(episodes);
+      }
+
+      const contentId = await getOrCreateContent(tvDetails, "tv");
+      await markEpisodesWatched(userId, contentId, episodes, seasons);
+
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "episodes");
+
+      return new Response(
+        JSON.stringify({ success: true, marked: episodes.length }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to mark episodes as watched",
+        req,
+        error,
+      );
+    }
+  },
+
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const userId = session.userId;
+
+      const tmdbId = parseInt(ctx.params.tmdb_id, 10);
+      if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
+        return createBadRequestResponse("Invalid content ID", "tmdb_id");
+      }
+
+      const content = await getContentByTmdbId(tmdbId);
+      if (!content || content.type !== "tv") {
+        return createNotFoundResponse("TV show not found");
+      }
+
+      const tvDetails = await fetchTvDetails(tmdbId);
+      if (!tvDetails) {
+        return createNotFoundResponse("TV show not found");
+      }
+
+      const seasons = getSeasonCounts(tvDetails);
+      const body = await req.json().catch(() => ({}));
+      const episodes = parseEpisodeSelection(body, seasons);
+      if (typeof episodes === "string") {
+        return createBadRequestResponse(episodes);
+      }
+
+      await unmarkEpisodesWatched(userId, content.id, episodes, seasons);
+
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "episodes");
+
+      return new Response(
+        JSON.stringify({ success: true, unmarked: episodes.length }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to remove episode progress",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,97 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../../../lib/api/caching.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../../lib/auth/middleware.ts";
+import { getContentByTmdbId } from "../../../../../lib/content.ts";
+import { getWatchedEpisodes } from "../../../../../lib/tv/episodes.ts";
+import {
+  getTvSeasonDetails,
+  type TvSeasonDetails,
+} from "../../../../../lib/tmdb/client.ts";
+
+/**
+ * API endpoint for a single season's episode list with watch state
+ *
+ * GET /api/content/[tmdb_id]/episodes/[season_number]
+ * - Returns the season's episodes from TMDB
+ * - Each episode includes watched flag and watched_at for the authenticated user
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const userId = session.userId;
+
+      const tmdbId = parseInt(ctx.params.tmdb_id, 10);
+      if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
+        return createBadRequestResponse("Invalid content ID", "tmdb_id");
+      }
+
+      const seasonNumber = parseInt(ctx.params.season_number, 10);
+      if (!Number.isInteger(seasonNumber) || seasonNumber < 0) {
+        return createBadRequestResponse(
+          "Invalid season number",
+          "season_number",
+        );
+      }
+
+      let season: TvSeasonDetails;
+      try {
+        season = await getTvSeasonDetails(tmdbId, seasonNumber);
+      } catch {
+        return createNotFoundResponse("Season not found");
+      }
+
+      const content = await getContentByTmdbId(tmdbId);
+      const watched = content && content.type === "tv"
+        ? await getWatchedEpisodes(userId, content.id)
+        : [];
+      const watchedAt = new Map(
+        watched
+          .filter((episode) => episode.season_number === seasonNumber)
+          .map((episode) => [episode.episode_number, episode.watched_at]),
+      );
+
+      const response = {
+        season_number: season.season_number,
+        name: season.name,
+        overview: season.overview || null,
+        air_date: season.air_date,
+        poster_path: season.poster_path,
+        episodes: season.episodes.map((episode) => ({
+          episode_number: episode.episode_number,
+          name: episode.name,
+          overview: episode.overview || null,
+          air_date: episode.air_date,
+          runtime: episode.runtime,
+          still_path: episode.still_path,
+          watched: watchedAt.has(episode.episode_number),
+          watched_at: watchedAt.get(episode.episode_number)?.toISOString() ||
+            null,
+        })),
+      };
+
+      return await handleConditionalRequest(
+        req,
+        response,
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch season episodes",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
 import { query, transaction } from "../../../../lib/db.ts";
 import {
@@ -8,6 +8,7 @@ import {
   type MovieDetails,
   type TvDetails,
 } from "../../../../lib/tmdb/client.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
 
 /**
  * API endpoint to add/remove content from favourites
@@ -21,10 +22,9 @@ import {
  * - Removes content from favourites for the authenticated user
  */
 export const handler: Handlers = {
-  async POST(req, ctx) {
+  async POST(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -95,6 +95,9 @@ export const handler: Handlers = {
         }
       });
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "status");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
@@ -113,10 +116,9 @@ export const handler: Handlers = {
       );
     }
   },
-  async DELETE(req, ctx) {
+  async DELETE(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -159,6 +161,9 @@ export const handler: Handlers = {
         [userId, contentId],
       );
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "status");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
@@ -0,0 +1,55 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../../lib/api/caching.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { getContentByTmdbId } from "../../../../lib/content.ts";
+import { getFriendsWhoWatched } from "../../../../lib/social/activity.ts";
+
+const FRIENDS_LIMIT = 8;
+
+/**
+ * API endpoint for "Friends who watched"
+ *
+ * GET /api/content/[tmdb_id]/friends
+ * - Returns users the authenticated user follows (with public profiles) who
+ *   have watched or favourited this title, with their ratings
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+
+      const tmdbId = parseInt(ctx.params.tmdb_id, 10);
+      if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
+        return createBadRequestResponse("Invalid content ID", "tmdb_id");
+      }
+
+      // Nobody can have watched a title we've never stored
+      const content = await getContentByTmdbId(tmdbId);
+      const result = content
+        ? await getFriendsWhoWatched(session.userId, content.id, FRIENDS_LIMIT)
+        : { friends: [], total: 0 };
+
+      return await handleConditionalRequest(
+        req,
+        result,
+        CachePresets.PRIVATE_5M,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch friends who watched",
+        req,
+        error,
+      );
+    }
+  },
+};
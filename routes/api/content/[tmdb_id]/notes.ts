@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
 import { query, transaction } from "../../../../lib/db.ts";
 import {
@@ -13,6 +13,7 @@ import {
   createInternalServerErrorResponse,
   createNotFoundResponse,
 } from "../../../../lib/api/errors.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
 
 /**
  * API endpoint for user notes on content
@@ -26,10 +27,9 @@ import {
  * - Creates or updates user_content record with notes
  */
 export const handler: Handlers = {
-  async GET(req, ctx) {
+  async GET(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -97,8 +97,7 @@ export const handler: Handlers = {
 
   async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -179,6 +178,9 @@ export const handler: Handlers = {
         }
       });
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "notes");
+
       return new Response(
         JSON.stringify({ success: true, notes: normalisedNotes }),
         {
@@ -1,8 +1,11 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
-import { recalculateTasteProfile } from "../../../../lib/ai/taste-profile.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  enqueueTasteProfileRecalculation,
+} from "../../../../lib/ai/taste-profile.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
 import { query, transaction } from "../../../../lib/db.ts";
+import { recordActivity } from "../../../../lib/social/activity.ts";
 import {
   getMovieDetails,
   getTvDetails,
@@ -15,6 +18,7 @@ import {
   createNotFoundResponse,
 } from "../../../../lib/api/errors.ts";
 import { trackContentAction } from "../../../../lib/analytics/tracker.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
 
 /**
  * API endpoint to set user rating for content
@@ -27,8 +31,7 @@ import { trackContentAction } from "../../../../lib/analytics/tracker.ts";
 export const handler: Handlers = {
   async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -100,18 +103,25 @@ export const handler: Handlers = {
         }
       });
 
-      // Recalculate taste profile (non-blocking - log errors but don't fail request)
+      // Share with followers' feeds (non-blocking)
+      await recordActivity(userId, "rated", contentId, {
+        rating: roundedRating,
+      });
+
+      // Recalculate taste profile in the background (log errors but don't fail request)
       try {
-        await recalculateTasteProfile(userId);
+        await enqueueTasteProfileRecalculation(userId);
       } catch (error) {
-        console.error("Error recalculating taste profile:", error);
-        // Don't fail the request if taste profile calculation fails
+        console.error("Error queueing taste profile recalculation:", error);
       }
 
       // Track analytics event (non-blocking)
       const title = ("title" in tmdbDetails ? tmdbDetails.title : (tmdbDetails as TvDetails).name) as string;
       trackContentAction("rate_content", tmdbId, contentType, title, { userId, rating: roundedRating });
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "rating");
+
       return new Response(
         JSON.stringify({ success: true, rating: roundedRating }),
         {
@@ -126,10 +136,9 @@ export const handler: Handlers = {
       );
     }
   },
-  async DELETE(req, ctx) {
+  async DELETE(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -161,14 +170,16 @@ export const handler: Handlers = {
         [userId, contentId],
       );
 
-      // Recalculate taste profile (non-blocking - log errors but don't fail request)
+      // Recalculate taste profile in the background (log errors but don't fail request)
       try {
-        await recalculateTasteProfile(userId);
+        await enqueueTasteProfileRecalculation(userId);
       } catch (error) {
-        console.error("Error recalculating taste profile:", error);
-        // Don't fail the request if taste profile calculation fails
+        console.error("Error queueing taste profile recalculation:", error);
       }
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "rating");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
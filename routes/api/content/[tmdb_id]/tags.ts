@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
 import { query } from "../../../../lib/db.ts";
 import {
@@ -13,6 +13,7 @@ import {
   createInternalServerErrorResponse,
   createNotFoundResponse,
 } from "../../../../lib/api/errors.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
 
 interface Tag {
   id: string;
@@ -41,10 +42,9 @@ interface ContentTag {
  * - Removes a tag from content
  */
 export const handler: Handlers = {
-  async GET(req, ctx) {
+  async GET(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -108,8 +108,7 @@ export const handler: Handlers = {
 
   async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -176,6 +175,9 @@ export const handler: Handlers = {
         [tag_id],
       );
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "tags");
+
       return new Response(
         JSON.stringify({ tag: appliedTag[0] }),
         {
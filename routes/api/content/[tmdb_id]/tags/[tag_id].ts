@@ -1,11 +1,12 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../../../lib/auth/middleware.ts";
 import { query } from "../../../../../lib/db.ts";
 import {
   createBadRequestResponse,
   createInternalServerErrorResponse,
   createNotFoundResponse,
 } from "../../../../../lib/api/errors.ts";
+import { publishContentChange } from "../../../../../lib/realtime/events.ts";
 
 /**
  * API endpoint for removing tags from content
@@ -15,10 +16,9 @@ import {
  * - Verifies tag belongs to user before removal
  */
 export const handler: Handlers = {
-  async DELETE(req, ctx) {
+  async DELETE(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID and tag ID from route params
@@ -64,6 +64,9 @@ export const handler: Handlers = {
         [tag_id, contentId],
       );
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "tags");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
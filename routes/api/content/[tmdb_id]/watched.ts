@@ -1,14 +1,18 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
-import { recalculateTasteProfile } from "../../../../lib/ai/taste-profile.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  enqueueTasteProfileRecalculation,
+} from "../../../../lib/ai/taste-profile.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
 import { query, transaction } from "../../../../lib/db.ts";
+import { recordActivity } from "../../../../lib/social/activity.ts";
 import {
   getMovieDetails,
   getTvDetails,
   type MovieDetails,
   type TvDetails,
 } from "../../../../lib/tmdb/client.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
 
 /**
  * API endpoint to mark content as watched
@@ -19,10 +23,9 @@ import {
  * - Sets watched_at timestamp
  */
 export const handler: Handlers = {
-  async POST(req, ctx) {
+  async POST(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -93,14 +96,19 @@ export const handler: Handlers = {
         }
       });
 
-      // Recalculate taste profile (non-blocking - log errors but don't fail request)
+      // Share with followers' feeds (non-blocking)
+      await recordActivity(userId, "watched", contentId);
+
+      // Recalculate taste profile in the background (log errors but don't fail request)
       try {
-        await recalculateTasteProfile(userId);
+        await enqueueTasteProfileRecalculation(userId);
       } catch (error) {
-        console.error("Error recalculating taste profile:", error);
-        // Don't fail the request if taste profile calculation fails
+        console.error("Error queueing taste profile recalculation:", error);
       }
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "status");
+
       return new Response(
         JSON.stringify({ success: true, watched_at: new Date().toISOString() }),
         {
@@ -119,10 +127,9 @@ export const handler: Handlers = {
       );
     }
   },
-  async DELETE(req, ctx) {
+  async DELETE(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -164,14 +171,16 @@ export const handler: Handlers = {
         [userId, contentId],
       );
 
-      // Recalculate taste profile (non-blocking - log errors but don't fail request)
+      // Recalculate taste profile in the background (log errors but don't fail request)
       try {
-        await recalculateTasteProfile(userId);
+        await enqueueTasteProfileRecalculation(userId);
       } catch (error) {
-        console.error("Error recalculating taste profile:", error);
-        // Don't fail the request if taste profile calculation fails
+        console.error("Error queueing taste profile recalculation:", error);
       }
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "status");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
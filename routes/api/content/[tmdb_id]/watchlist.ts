@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
 import { query, transaction } from "../../../../lib/db.ts";
 import {
@@ -9,6 +9,7 @@ import {
   type TvDetails,
 } from "../../../../lib/tmdb/client.ts";
 import { trackContentAction } from "../../../../lib/analytics/tracker.ts";
+import { publishContentChange } from "../../../../lib/realtime/events.ts";
 
 /**
  * API endpoint to add/remove content from watchlist
@@ -22,10 +23,9 @@ import { trackContentAction } from "../../../../lib/analytics/tracker.ts";
  * - Removes content from watchlist for the authenticated user
  */
 export const handler: Handlers = {
-  async POST(req, ctx) {
+  async POST(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -100,6 +100,9 @@ export const handler: Handlers = {
       const title = ("title" in tmdbDetails ? tmdbDetails.title : (tmdbDetails as TvDetails).name) as string;
       trackContentAction("add_to_watchlist", tmdbId, contentType, title, { userId });
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "status");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
@@ -118,10 +121,9 @@ export const handler: Handlers = {
       );
     }
   },
-  async DELETE(req, ctx) {
+  async DELETE(_req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get TMDB ID from route params
@@ -167,6 +169,9 @@ export const handler: Handlers = {
       // Track analytics event (non-blocking)
       trackContentAction("remove_from_watchlist", tmdbId, "movie", "Unknown", { userId });
 
+      // Update the user's other tabs and devices
+      await publishContentChange(userId, tmdbId, "status");
+
       return new Response(
         JSON.stringify({ success: true }),
         {
@@ -0,0 +1,105 @@
+import { type Handlers } from "$fresh/server.ts";
+import { createInternalServerErrorResponse } from "../../lib/api/errors.ts";
+import { requireAuth } from "../../lib/auth/middleware.ts";
+import { getRealtimeBroker, userChannel } from "../../lib/realtime/broker.ts";
+import type { RealtimeEvent } from "../../lib/realtime/events.ts";
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Tell EventSource how long to wait before reconnecting
+const RETRY_MS = 3000;
+
+/**
+ * Encode an event in server-sent events wire format
+ */
+function formatEvent(event: RealtimeEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Server-sent event stream of the user's library and list changes
+ *
+ * GET /api/events
+ * - Streams `content`, `list_items` and `lists` events published by the
+ *   content and list API handlers, so other tabs and devices stay in sync
+ * - Each event's data is the JSON-encoded RealtimeEvent
+ * - Clients should refetch anything they display after reconnecting, since
+ *   events published while disconnected are not replayed
+ */
+export const handler: Handlers = {
+  GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const encoder = new TextEncoder();
+
+      let unsubscribe: (() => void) | null = null;
+      let heartbeat: number | null = null;
+
+      const cleanup = () => {
+        unsubscribe?.();
+        unsubscribe = null;
+        if (heartbeat !== null) {
+          clearInterval(heartbeat);
+          heartbeat = null;
+        }
+      };
+
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const send = (chunk: string) => {
+            try {
+              controller.enqueue(encoder.encode(chunk));
+            } catch {
+              // Stream already closed
+              cleanup();
+            }
+          };
+
+          send(`retry: ${RETRY_MS}\n\n`);
+
+          unsubscribe = getRealtimeBroker().subscribe(
+            userChannel(session.userId),
+            (event) => send(formatEvent(event)),
+          );
+
+          heartbeat = setInterval(
+            () => send(": heartbeat\n\n"),
+            HEARTBEAT_INTERVAL_MS,
+          );
+
+          req.signal.addEventListener("abort", () => {
+            cleanup();
+            try {
+              controller.close();
+            } catch {
+              // Already closed
+            }
+          });
+        },
+        cancel() {
+          cleanup();
+        },
+      });
+
+      return new Response(body, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-store, must-revalidate",
+          "Connection": "keep-alive",
+          "X-Accel-Buffering": "no",
+        },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to open event stream",
+        req,
+        error,
+      );
+    }
+  },
+};
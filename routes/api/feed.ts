@@ -0,0 +1,69 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../lib/api/caching.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../lib/api/errors.ts";
+import { requireAuth } from "../../lib/auth/middleware.ts";
+import { getFeed } from "../../lib/social/activity.ts";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * API endpoint for the activity feed
+ *
+ * GET /api/feed?limit={limit}&before={timestamp}
+ * - Returns watched, rated and list events from users the authenticated user
+ *   follows, newest first
+ * - Only includes users with public profiles and items on public lists
+ * - Pass `next_before` from the previous response as `before` to page
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+
+      const url = new URL(req.url);
+      const requestedLimit = parseInt(
+        url.searchParams.get("limit") || String(DEFAULT_LIMIT),
+        10,
+      );
+      const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+        ? Math.min(requestedLimit, MAX_LIMIT)
+        : DEFAULT_LIMIT;
+
+      const beforeParam = url.searchParams.get("before");
+      const before = beforeParam ? new Date(beforeParam) : null;
+      if (before && isNaN(before.getTime())) {
+        return createBadRequestResponse(
+          "before must be an ISO 8601 timestamp",
+          "before",
+        );
+      }
+
+      const events = await getFeed(session.userId, { limit, before });
+      const nextBefore = events.length === limit
+        ? events[events.length - 1].created_at
+        : null;
+
+      return await handleConditionalRequest(
+        req,
+        { events, next_before: nextBefore },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch activity feed",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -61,8 +61,13 @@ export const handler: Handlers = {
         const baseUrl = `${url.protocol}//${url.host}`;
         const resetUrl = generatePasswordResetUrl(baseUrl, resetToken);
 
-        // Send password reset email
-        await sendPasswordResetEmail(email, resetToken, resetUrl);
+        // Send password reset email; a failure isn't shown, since that
+        // would reveal the account exists
+        try {
+          await sendPasswordResetEmail(email, resetToken, resetUrl);
+        } catch (error) {
+          console.error("Failed to send password reset email:", error);
+        }
       }
 
       // Always redirect to success page (don't reveal if email exists)
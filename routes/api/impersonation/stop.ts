@@ -0,0 +1,65 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import { recordAuditEvent } from "../../../lib/admin/audit.ts";
+import { getUserSummary } from "../../../lib/admin/users.ts";
+import {
+  clearSessionCookie,
+  setSessionCookie,
+} from "../../../lib/auth/cookies.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import { revokeSession, startSession } from "../../../lib/auth/sessions.ts";
+
+/**
+ * API endpoint for ending an impersonation session
+ *
+ * POST /api/impersonation/stop
+ * - Ends the impersonation session and signs the staff member back in with
+ *   a new session, returning them to the users page of the admin area
+ * - Posted as a form by the impersonation banner, so it redirects
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (!session.impersonatorId) {
+        return createBadRequestResponse("You aren't impersonating anyone");
+      }
+
+      await recordAuditEvent(
+        req,
+        session.impersonatorId,
+        "impersonation.stop",
+        session.userId,
+      );
+
+      if (session.sessionId) {
+        await revokeSession(session.sessionId, session.userId);
+      }
+
+      const headers = new Headers();
+      const staff = await getUserSummary(session.impersonatorId);
+      if (staff) {
+        setSessionCookie(headers, await startSession(req, staff));
+        headers.set("Location", "/admin/users");
+      } else {
+        // The staff account was deleted while impersonating
+        clearSessionCookie(headers);
+        headers.set("Location", "/");
+      }
+
+      return new Response(null, { status: 302, headers });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to stop impersonation",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,74 @@
+/**
+ * API endpoint for running background jobs
+ *
+ * Enqueues due scheduled jobs, then runs queued jobs (embeddings, streaming
+ * sync, taste profiles, notifications) until the queue is empty or maxJobs
+ * is reached. Intended for cron services on platforms that can't host the
+ * long-running `deno task jobs:work` worker; call it every minute.
+ *
+ * Callers need JOBS_API_KEY (Authorization: Bearer <key>) or an admin
+ * session; see lib/auth/access.ts.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import { isJobType } from "../../../lib/jobs/handlers.ts";
+import type { JobType } from "../../../lib/jobs/queue.ts";
+import { runJobs } from "../../../lib/jobs/worker.ts";
+
+// Keep each call well inside typical cron/HTTP timeouts
+const MAX_JOBS_PER_CALL = 100;
+
+export const handler: Handlers = {
+  async POST(req) {
+    try {
+      // Parse optional parameters from request body
+      const body = await req.json().catch(() => ({}));
+      const maxJobs = Math.min(
+        Math.max(1, parseInt(body.maxJobs, 10) || 20),
+        MAX_JOBS_PER_CALL,
+      );
+
+      // Optionally restrict the run to some job types
+      const types: JobType[] = [];
+      for (const type of Array.isArray(body.types) ? body.types : []) {
+        if (typeof type !== "string" || !isJobType(type)) {
+          return createBadRequestResponse(
+            `Unknown job type: ${String(type)}`,
+            "types",
+          );
+        }
+        types.push(type);
+      }
+
+      const result = await runJobs({ maxJobs, types });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          ...result,
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to run background jobs",
+        req,
+        error,
+      );
+    }
+  },
+  GET(req, ctx) {
+    // Allow GET for simple cron triggers
+    return handler.POST!(req, ctx);
+  },
+};
@@ -0,0 +1,176 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../lib/api/caching.ts";
+import { createInternalServerErrorResponse } from "../../../lib/api/errors.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import { query } from "../../../lib/db.ts";
+import {
+  getShowsInProgress,
+  getWatchedEpisodes,
+} from "../../../lib/tv/episodes.ts";
+import { findNextEpisode } from "../../../lib/tv/progress.ts";
+import { getTvDetails, getTvSeasonDetails } from "../../../lib/tmdb/client.ts";
+
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 20;
+
+interface NextEpisode {
+  season_number: number;
+  episode_number: number;
+  name: string | null;
+  air_date: string | null;
+  still_path: string | null;
+}
+
+interface ContinueWatchingItem {
+  tmdb_id: number;
+  type: "movie" | "tv" | "documentary";
+  title: string;
+  poster_path: string | null;
+  release_date: string | null;
+  watched_at: string;
+  next_episode: NextEpisode | null;
+}
+
+/**
+ * Look up the next unwatched, already-aired episode for a show
+ *
+ * @returns Next episode details, or null if the user has caught up
+ */
+async function getNextEpisodeForShow(
+  userId: string,
+  contentId: string,
+  tmdbId: number,
+): Promise<NextEpisode | null> {
+  const tvDetails = await getTvDetails(tmdbId);
+  const watched = await getWatchedEpisodes(userId, contentId);
+  const next = findNextEpisode(tvDetails.seasons || [], watched);
+  if (!next) {
+    return null;
+  }
+
+  const season = await getTvSeasonDetails(tmdbId, next.season_number);
+  const episode = season.episodes.find((e) =>
+    e.episode_number === next.episode_number
+  );
+
+  // Skip episodes that haven't aired yet - the user is up to date
+  if (!episode?.air_date || new Date(episode.air_date) > new Date()) {
+    return null;
+  }
+
+  return {
+    season_number: next.season_number,
+    episode_number: next.episode_number,
+    name: episode.name || null,
+    air_date: episode.air_date,
+    still_path: episode.still_path,
+  };
+}
+
+/**
+ * API endpoint for the Continue Watching feed
+ *
+ * GET /api/library/continue-watching?limit={limit}
+ * - Returns TV shows in progress with their next unwatched episode first
+ * - Fills remaining slots with recently watched titles
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const userId = session.userId;
+
+      const url = new URL(req.url);
+      const requestedLimit = parseInt(
+        url.searchParams.get("limit") || String(DEFAULT_LIMIT),
+        10,
+      );
+      const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+        ? Math.min(requestedLimit, MAX_LIMIT)
+        : DEFAULT_LIMIT;
+
+      const items: ContinueWatchingItem[] = [];
+      const shows = await getShowsInProgress(userId, limit * 2);
+
+      for (const show of shows) {
+        if (items.length >= limit) {
+          break;
+        }
+
+        try {
+          const nextEpisode = await getNextEpisodeForShow(
+            userId,
+            show.content_id,
+            show.tmdb_id,
+          );
+          if (nextEpisode) {
+            items.push({
+              tmdb_id: show.tmdb_id,
+              type: "tv",
+              title: show.title,
+              poster_path: show.poster_path,
+              release_date: show.release_date,
+              watched_at: show.last_watched_at.toISOString(),
+              next_episode: nextEpisode,
+            });
+          }
+        } catch (error) {
+          // Don't fail the whole feed if one show can't be resolved
+          console.error(
+            `Failed to resolve next episode for ${show.tmdb_id}:`,
+            error,
+          );
+        }
+      }
+
+      if (items.length < limit) {
+        const showIds = shows.map((show) => show.content_id);
+        const recentlyWatched = await query<{
+          tmdb_id: number;
+          type: "movie" | "tv" | "documentary";
+          title: string;
+          poster_path: string | null;
+          release_date: string | null;
+          watched_at: Date;
+        }>(
+          `SELECT c.tmdb_id, c.type, c.title, c.poster_path, c.release_date, uc.watched_at
+           FROM user_content uc
+           INNER JOIN content c ON uc.content_id = c.id
+           WHERE uc.user_id = $1
+             AND uc.status = 'watched'
+             AND uc.watched_at IS NOT NULL
+             AND NOT (c.id = ANY($2::uuid[]))
+           ORDER BY uc.watched_at DESC
+           LIMIT $3`,
+          [userId, showIds, limit - items.length],
+        );
+
+        for (const item of recentlyWatched) {
+          items.push({
+            ...item,
+            watched_at: item.watched_at.toISOString(),
+            next_episode: null,
+          });
+        }
+      }
+
+      return await handleConditionalRequest(
+        req,
+        { content: items },
+        CachePresets.PRIVATE_5M,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch continue watching feed",
+        req,
+        error,
+      );
+    }
+  },
+};
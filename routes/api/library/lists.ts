@@ -1,24 +1,24 @@
 import { type Handlers } from "$fresh/server.ts";
 import { handleConditionalRequest } from "../../../lib/api/caching.ts";
 import { CachePresets } from "../../../lib/api/caching.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
+import type { ListRole } from "../../../lib/lists/permissions.ts";
 
 /**
  * API endpoint to fetch user's custom lists
  *
  * GET /api/library/lists
- * - Returns list of custom lists created by the authenticated user
- * - Includes list metadata and item counts
+ * - Returns custom lists the authenticated user owns or collaborates on
+ * - Includes list metadata, item counts and the user's role on each list
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
-      // Fetch user's lists with item counts
+      // Fetch owned and shared lists with item counts
       const lists = await query<{
         id: string;
         name: string;
@@ -27,6 +27,7 @@ export const handler: Handlers = {
         created_at: Date;
         updated_at: Date;
         item_count: number;
+        role: ListRole;
       }>(
         `SELECT 
           l.id,
@@ -35,11 +36,13 @@ export const handler: Handlers = {
           l.is_public,
           l.created_at,
           l.updated_at,
-          COALESCE(COUNT(li.id), 0)::INTEGER as item_count
+          COALESCE(COUNT(li.id), 0)::INTEGER as item_count,
+          CASE WHEN l.user_id = $1 THEN 'owner' ELSE lc.role::text END as role
         FROM lists l
+        LEFT JOIN list_collaborators lc ON lc.list_id = l.id AND lc.user_id = $1
         LEFT JOIN list_items li ON l.id = li.list_id
-        WHERE l.user_id = $1
-        GROUP BY l.id, l.name, l.description, l.is_public, l.created_at, l.updated_at
+        WHERE l.user_id = $1 OR lc.user_id IS NOT NULL
+        GROUP BY l.id, l.name, l.description, l.is_public, l.created_at, l.updated_at, lc.role
         ORDER BY l.created_at DESC`,
         [userId],
       );
@@ -53,6 +56,7 @@ export const handler: Handlers = {
           created_at: list.created_at.toISOString(),
           updated_at: list.updated_at.toISOString(),
           item_count: list.item_count,
+          role: list.role,
         })),
       };
 
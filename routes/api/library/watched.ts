@@ -1,7 +1,7 @@
 import { type Handlers } from "$fresh/server.ts";
 import { handleConditionalRequest } from "../../../lib/api/caching.ts";
 import { CachePresets } from "../../../lib/api/caching.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 
 /**
@@ -12,10 +12,9 @@ import { query } from "../../../lib/db.ts";
  * - Includes watched_at timestamp
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Fetch watched content with content details, ratings, and tags
@@ -1,12 +1,16 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../lib/auth/middleware.ts";
-import { isPremiumUser } from "../../lib/auth/premium.ts";
+import { requireAuth } from "../../lib/auth/middleware.ts";
 import { query } from "../../lib/db.ts";
 import {
   createBadRequestResponse,
   createForbiddenResponse,
   createInternalServerErrorResponse,
 } from "../../lib/api/errors.ts";
+import {
+  hasReachedListLimit,
+  LIST_LIMIT_MESSAGE,
+} from "../../lib/lists/limits.ts";
+import { publishToUser } from "../../lib/realtime/events.ts";
 
 /**
  * API endpoint for managing custom lists
@@ -17,10 +21,9 @@ import {
  * - Returns: { list: { id, name, description, is_public, created_at } }
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Parse request body
@@ -48,25 +51,12 @@ export const handler: Handlers = {
         );
       }
 
-      // Check user's premium status
-      const isPremium = await isPremiumUser(userId);
-
       // Check user's list count (free tier limit: 3 lists, premium: unlimited)
-      if (!isPremium) {
-        const listCountResult = await query<{ count: number }>(
-          `SELECT COUNT(*)::INTEGER as count FROM lists WHERE user_id = $1`,
-          [userId],
+      if (await hasReachedListLimit(userId)) {
+        return createForbiddenResponse(
+          LIST_LIMIT_MESSAGE,
+          "LIST_LIMIT_REACHED",
         );
-
-        const listCount = listCountResult[0]?.count || 0;
-        const FREE_TIER_LIST_LIMIT = 3;
-
-        if (listCount >= FREE_TIER_LIST_LIMIT) {
-          return createForbiddenResponse(
-            `You've reached the limit of ${FREE_TIER_LIST_LIMIT} custom lists for free accounts. Upgrade to Premium for unlimited lists.`,
-            "LIST_LIMIT_REACHED",
-          );
-        }
       }
 
       // Create list in database
@@ -89,6 +79,9 @@ export const handler: Handlers = {
 
       const list = result[0];
 
+      // Show the new list in the user's other tabs and devices
+      await publishToUser(userId, { type: "lists", list_id: list.id });
+
       return new Response(
         JSON.stringify({
           list: {
@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -7,6 +7,7 @@ import {
   createInternalServerErrorResponse,
   createNotFoundResponse,
 } from "../../../lib/api/errors.ts";
+import { publishListChange } from "../../../lib/realtime/events.ts";
 
 /**
  * API endpoint for updating list settings
@@ -19,8 +20,7 @@ import {
 export const handler: Handlers = {
   async PATCH(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get list ID from route params
@@ -85,6 +85,9 @@ export const handler: Handlers = {
 
       const updatedList = updateResult[0];
 
+      // Update collaborators' open copies of the list
+      await publishListChange(list_id, { type: "lists", list_id });
+
       return new Response(
         JSON.stringify({
           list: {
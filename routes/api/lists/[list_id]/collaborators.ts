@@ -0,0 +1,84 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../../lib/api/caching.ts";
+import {
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { generateListInviteUrl } from "../../../../lib/email/sender.ts";
+import {
+  getCollaborators,
+  getPendingInvites,
+} from "../../../../lib/lists/collaborators.ts";
+import { getListAccess } from "../../../../lib/lists/permissions.ts";
+
+/**
+ * API endpoint for a list's collaborators
+ *
+ * GET /api/lists/[list_id]/collaborators
+ * - Owner only
+ * - Returns collaborators with their roles, and invites that haven't been
+ *   accepted, revoked or expired yet (including each invite's link)
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { list_id } = ctx.params;
+
+      const access = await getListAccess(list_id, session.userId);
+      if (!access) {
+        return createNotFoundResponse("List not found");
+      }
+      if (access.role !== "owner") {
+        return createForbiddenResponse(
+          "Only the list owner can manage collaborators",
+          "NOT_LIST_OWNER",
+        );
+      }
+
+      const [collaborators, invites] = await Promise.all([
+        getCollaborators(list_id),
+        getPendingInvites(list_id),
+      ]);
+
+      const url = new URL(req.url);
+      const baseUrl = `${url.protocol}//${url.host}`;
+
+      return await handleConditionalRequest(
+        req,
+        {
+          collaborators: collaborators.map((collaborator) => ({
+            user_id: collaborator.user_id,
+            display_name: collaborator.display_name,
+            email: collaborator.email,
+            role: collaborator.role,
+            added_at: collaborator.created_at.toISOString(),
+          })),
+          invites: invites.map((invite) => ({
+            id: invite.id,
+            email: invite.email,
+            role: invite.role,
+            url: generateListInviteUrl(baseUrl, invite.token),
+            expires_at: invite.expires_at.toISOString(),
+            created_at: invite.created_at.toISOString(),
+          })),
+        },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch collaborators",
+        req,
+        error,
+      );
+    }
+  },
+};
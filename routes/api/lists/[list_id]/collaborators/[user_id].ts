@@ -0,0 +1,123 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../../lib/auth/middleware.ts";
+import {
+  removeCollaborator,
+  setCollaboratorRole,
+} from "../../../../../lib/lists/collaborators.ts";
+import {
+  getListAccess,
+  isCollaboratorRole,
+} from "../../../../../lib/lists/permissions.ts";
+import { publishListChange } from "../../../../../lib/realtime/events.ts";
+
+/**
+ * API endpoint for managing a single list collaborator
+ *
+ * PATCH /api/lists/[list_id]/collaborators/[user_id]
+ * - Owner only
+ * - Body: { role: "viewer" | "editor" }
+ *
+ * DELETE /api/lists/[list_id]/collaborators/[user_id]
+ * - Removes a collaborator; the owner can remove anyone, and collaborators
+ *   can remove themselves to leave the list
+ * - Items they added stay in the list
+ */
+export const handler: Handlers = {
+  async PATCH(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { list_id, user_id } = ctx.params;
+
+      const body = await req.json();
+      if (!isCollaboratorRole(body.role)) {
+        return createBadRequestResponse(
+          "Role must be 'viewer' or 'editor'",
+          "role",
+        );
+      }
+
+      const access = await getListAccess(list_id, session.userId);
+      if (!access) {
+        return createNotFoundResponse("List not found");
+      }
+      if (access.role !== "owner") {
+        return createForbiddenResponse(
+          "Only the list owner can change roles",
+          "NOT_LIST_OWNER",
+        );
+      }
+
+      const updated = await setCollaboratorRole(list_id, user_id, body.role);
+      if (!updated) {
+        return createNotFoundResponse("Collaborator not found");
+      }
+
+      await publishListChange(list_id, { type: "lists", list_id });
+
+      return new Response(
+        JSON.stringify({ success: true, role: body.role }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to update collaborator",
+        req,
+        error,
+      );
+    }
+  },
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { list_id, user_id } = ctx.params;
+
+      const access = await getListAccess(list_id, session.userId);
+      if (!access || access.role === null) {
+        return createNotFoundResponse("List not found");
+      }
+      if (access.role !== "owner" && user_id !== session.userId) {
+        return createForbiddenResponse(
+          "Only the list owner can remove other collaborators",
+          "NOT_LIST_OWNER",
+        );
+      }
+
+      const removed = await removeCollaborator(list_id, user_id);
+      if (!removed) {
+        return createNotFoundResponse("Collaborator not found");
+      }
+
+      // Include the removed user so their open copies lose access
+      await publishListChange(list_id, { type: "lists", list_id }, [user_id]);
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to remove collaborator",
+        req,
+        error,
+      );
+    }
+  },
+};
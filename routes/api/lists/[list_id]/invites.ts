@@ -0,0 +1,132 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { query } from "../../../../lib/db.ts";
+import {
+  generateListInviteUrl,
+  sendListInviteEmail,
+} from "../../../../lib/email/sender.ts";
+import { createInvite } from "../../../../lib/lists/collaborators.ts";
+import {
+  getListAccess,
+  isCollaboratorRole,
+} from "../../../../lib/lists/permissions.ts";
+
+/**
+ * API endpoint to invite collaborators to a list
+ *
+ * POST /api/lists/[list_id]/invites
+ * - Owner only
+ * - Body: { role: "viewer" | "editor", email?: string }
+ * - With an email, sends a single-use invite that only the account with
+ *   that email can accept
+ * - Without an email, creates a shareable link invite that works until it
+ *   expires or is revoked
+ * - Returns the invite including its URL
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { list_id } = ctx.params;
+
+      const body = await req.json();
+      const role = body.role ?? "viewer";
+      if (!isCollaboratorRole(role)) {
+        return createBadRequestResponse(
+          "Role must be 'viewer' or 'editor'",
+          "role",
+        );
+      }
+
+      let email: string | null = null;
+      if (
+        body.email !== undefined && body.email !== null && body.email !== ""
+      ) {
+        if (typeof body.email !== "string") {
+          return createBadRequestResponse("Invalid email format", "email");
+        }
+        email = body.email.trim().toLowerCase();
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(email!)) {
+          return createBadRequestResponse("Invalid email format", "email");
+        }
+      }
+
+      const access = await getListAccess(list_id, session.userId);
+      if (!access) {
+        return createNotFoundResponse("List not found");
+      }
+      if (access.role !== "owner") {
+        return createForbiddenResponse(
+          "Only the list owner can invite collaborators",
+          "NOT_LIST_OWNER",
+        );
+      }
+
+      if (email && email === session.email.toLowerCase()) {
+        return createBadRequestResponse(
+          "You can't invite yourself to your own list",
+          "email",
+        );
+      }
+
+      const invite = await createInvite(list_id, session.userId, role, email);
+
+      const url = new URL(req.url);
+      const baseUrl = `${url.protocol}//${url.host}`;
+      const inviteUrl = generateListInviteUrl(baseUrl, invite.token);
+
+      if (email) {
+        const ownerResult = await query<{ display_name: string | null }>(
+          "SELECT display_name FROM users WHERE id = $1",
+          [session.userId],
+        );
+        // The invite link is returned too, so it can be shared another way
+        try {
+          await sendListInviteEmail(
+            email,
+            ownerResult[0]?.display_name || session.email,
+            access.list.name,
+            role,
+            inviteUrl,
+          );
+        } catch (error) {
+          console.error("Failed to send list invite email:", error);
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          invite: {
+            id: invite.id,
+            email: invite.email,
+            role: invite.role,
+            url: inviteUrl,
+            expires_at: invite.expires_at.toISOString(),
+            created_at: invite.created_at.toISOString(),
+          },
+        }),
+        {
+          status: 201,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to create invite",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,59 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../../lib/auth/middleware.ts";
+import { revokeInvite } from "../../../../../lib/lists/collaborators.ts";
+import { getListAccess } from "../../../../../lib/lists/permissions.ts";
+
+/**
+ * API endpoint to revoke a list invite
+ *
+ * DELETE /api/lists/[list_id]/invites/[invite_id]
+ * - Owner only
+ * - The invite link stops working immediately; people who already accepted
+ *   stay collaborators
+ */
+export const handler: Handlers = {
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { list_id, invite_id } = ctx.params;
+
+      const access = await getListAccess(list_id, session.userId);
+      if (!access) {
+        return createNotFoundResponse("List not found");
+      }
+      if (access.role !== "owner") {
+        return createForbiddenResponse(
+          "Only the list owner can revoke invites",
+          "NOT_LIST_OWNER",
+        );
+      }
+
+      const revoked = await revokeInvite(list_id, invite_id);
+      if (!revoked) {
+        return createNotFoundResponse("Invite not found");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to revoke invite",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -1,7 +1,21 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../../lib/api/caching.ts";
+import { getSession, requireAuth } from "../../../../lib/auth/middleware.ts";
 import { getOrCreateContent } from "../../../../lib/content.ts";
-import { query, transaction } from "../../../../lib/db.ts";
+import { type PoolClient, query, transaction } from "../../../../lib/db.ts";
+import { getListItems } from "../../../../lib/lists/items.ts";
+import { applyPositionUpdates } from "../../../../lib/lists/ordering.ts";
+import {
+  canEditList,
+  canViewList,
+  getListAccess,
+  type ListAccess,
+} from "../../../../lib/lists/permissions.ts";
+import { publishListChange } from "../../../../lib/realtime/events.ts";
+import { recordActivity } from "../../../../lib/social/activity.ts";
 import {
   getMovieDetails,
   getTvDetails,
@@ -10,28 +24,112 @@ import {
 } from "../../../../lib/tmdb/client.ts";
 
 /**
- * API endpoint to add/remove/reorder content in a custom list
+ * Build a JSON error response in this endpoint's format
+ */
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error }),
+    {
+      status,
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+}
+
+/**
+ * Check that a list exists and the user can edit its items
+ *
+ * @returns Error response, or null if the user can edit the list
+ */
+function checkEditAccess(access: ListAccess | null): Response | null {
+  if (!access) {
+    return errorResponse("List not found", 404);
+  }
+  if (!canEditList(access)) {
+    return errorResponse("Access denied", 403);
+  }
+  return null;
+}
+
+/**
+ * Bump a list's item version after its items change
+ *
+ * @returns The new version
+ */
+async function bumpItemsVersion(
+  client: PoolClient,
+  listId: string,
+): Promise<number> {
+  const result = await client.queryObject<{ items_version: number }>(
+    `UPDATE lists SET items_version = items_version + 1
+     WHERE id = $1
+     RETURNING items_version`,
+    [listId],
+  );
+  return result.rows[0].items_version;
+}
+
+/**
+ * API endpoint to list/add/remove/reorder content in a custom list
+ *
+ * Owners and editors can change items; viewers and visitors to public lists
+ * can only read them. Every change locks the list row and bumps
+ * lists.items_version, so collaborators editing at the same time can't
+ * interleave and clients can detect that their copy is stale.
+ *
+ * GET /api/lists/[list_id]/items
+ * - Returns the list's items, current version and the user's role
  *
  * POST /api/lists/[list_id]/items
- * - Adds content to a list for the authenticated user
+ * - Adds content to a list
  * - Body: { tmdb_id: number }
  * - Creates content record if it doesn't exist
- * - Sets position to end of list
+ * - Sets position to end of list and records who added it
  *
  * DELETE /api/lists/[list_id]/items
- * - Removes content from a list for the authenticated user
+ * - Removes content from a list
  * - Body: { tmdb_id: number }
  *
  * PATCH /api/lists/[list_id]/items
- * - Reorders items in a list for the authenticated user
- * - Body: { items: Array<{ tmdb_id: number, position: number }> }
- * - Updates positions for all items in the array
+ * - Reorders items in a list
+ * - Body: { items: Array<{ tmdb_id: number, position: number }>, version?: number }
+ * - Items not in the request keep their relative order after the others
+ * - If version is given and the list has changed since, nothing is updated
+ *   and 409 is returned with the current items and version
  */
 export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = getSession(ctx);
+      const { list_id } = ctx.params;
+
+      const access = await getListAccess(list_id, session?.userId ?? null);
+      if (!access) {
+        return errorResponse("List not found", 404);
+      }
+      if (!canViewList(access)) {
+        return errorResponse("Access denied", 403);
+      }
+
+      const items = await getListItems(list_id);
+
+      return await handleConditionalRequest(
+        req,
+        {
+          version: access.list.items_version,
+          role: access.role,
+          items,
+        },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      console.error("Error fetching list items:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  },
   async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get list ID from route params
@@ -44,40 +142,15 @@ export const handler: Handlers = {
       // Validate TMDB ID
       const tmdbId = parseInt(tmdb_id, 10);
       if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
-        return new Response(
-          JSON.stringify({ error: "Invalid content ID" }),
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
+        return errorResponse("Invalid content ID", 400);
       }
 
-      // Verify list exists and belongs to user
-      const listResult = await query<{ id: string; user_id: string }>(
-        "SELECT id, user_id FROM lists WHERE id = $1",
-        [list_id],
+      // Verify list exists and user can edit it
+      const accessError = checkEditAccess(
+        await getListAccess(list_id, userId),
       );
-
-      if (listResult.length === 0) {
-        return new Response(
-          JSON.stringify({ error: "List not found" }),
-          {
-            status: 404,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
-      }
-
-      const list = listResult[0];
-      if (list.user_id !== userId) {
-        return new Response(
-          JSON.stringify({ error: "Access denied" }),
-          {
-            status: 403,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
+      if (accessError) {
+        return accessError;
       }
 
       // Fetch content details from TMDB to determine type
@@ -92,13 +165,7 @@ export const handler: Handlers = {
           tmdbDetails = await getTvDetails(tmdbId);
           contentType = "tv";
         } catch (_tvError) {
-          return new Response(
-            JSON.stringify({ error: "Content not found" }),
-            {
-              status: 404,
-              headers: { "Content-Type": "application/json" },
-            },
-          );
+          return errorResponse("Content not found", 404);
         }
       }
 
@@ -106,7 +173,15 @@ export const handler: Handlers = {
       const contentId = await getOrCreateContent(tmdbDetails, contentType);
 
       // Add to list (check for duplicates, set position to end)
-      await transaction(async (client) => {
+      const result = await transaction(async (client) => {
+        // Lock the list and re-check access, which may have been revoked
+        // while we were talking to TMDB
+        const access = await getListAccess(list_id, userId, client);
+        const lockedError = checkEditAccess(access);
+        if (lockedError) {
+          return { error: lockedError };
+        }
+
         // Check if item already exists in list
         const existing = await client.queryObject<{ id: string }>(
           "SELECT id FROM list_items WHERE list_id = $1 AND content_id = $2",
@@ -115,7 +190,7 @@ export const handler: Handlers = {
 
         if (existing.rows.length > 0) {
           // Item already in list, return success (idempotent)
-          return;
+          return { added: false, version: access!.list.items_version };
         }
 
         // Get max position in list
@@ -131,34 +206,52 @@ export const handler: Handlers = {
 
         // Insert new list item
         await client.queryObject(
-          `INSERT INTO list_items (list_id, content_id, position)
-           VALUES ($1, $2, $3)`,
-          [list_id, contentId, nextPosition],
+          `INSERT INTO list_items (list_id, content_id, position, added_by)
+           VALUES ($1, $2, $3, $4)`,
+          [list_id, contentId, nextPosition, userId],
         );
+        return {
+          added: true,
+          version: await bumpItemsVersion(client, list_id),
+        };
       });
 
+      if (result.error) {
+        return result.error;
+      }
+
+      if (result.added) {
+        // Update collaborators' open copies of the list
+        await publishListChange(list_id, {
+          type: "list_items",
+          list_id,
+          version: result.version!,
+        });
+
+        // Share with followers' feeds (non-blocking)
+        await recordActivity(userId, "list_add", contentId, {
+          listId: list_id,
+        });
+      }
+
       return new Response(
-        JSON.stringify({ success: true }),
+        JSON.stringify({ success: true, version: result.version }),
         {
           status: 200,
           headers: { "Content-Type": "application/json" },
         },
       );
     } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
       console.error("Error adding content to list:", error);
-      return new Response(
-        JSON.stringify({ error: "Internal server error" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        },
-      );
+      return errorResponse("Internal server error", 500);
     }
   },
   async DELETE(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get list ID from route params
@@ -171,40 +264,7 @@ export const handler: Handlers = {
       // Validate TMDB ID
       const tmdbId = parseInt(tmdb_id, 10);
       if (!Number.isInteger(tmdbId) || tmdbId <= 0) {
-        return new Response(
-          JSON.stringify({ error: "Invalid content ID" }),
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
-      }
-
-      // Verify list exists and belongs to user
-      const listResult = await query<{ id: string; user_id: string }>(
-        "SELECT id, user_id FROM lists WHERE id = $1",
-        [list_id],
-      );
-
-      if (listResult.length === 0) {
-        return new Response(
-          JSON.stringify({ error: "List not found" }),
-          {
-            status: 404,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
-      }
-
-      const list = listResult[0];
-      if (list.user_id !== userId) {
-        return new Response(
-          JSON.stringify({ error: "Access denied" }),
-          {
-            status: 403,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
+        return errorResponse("Invalid content ID", 400);
       }
 
       // Find content record
@@ -213,46 +273,65 @@ export const handler: Handlers = {
         [tmdbId],
       );
 
-      if (contentResult.length === 0) {
-        return new Response(
-          JSON.stringify({ error: "Content not found" }),
-          {
-            status: 404,
-            headers: { "Content-Type": "application/json" },
-          },
+      const result = await transaction(async (client) => {
+        // Lock the list and verify the user can edit it
+        const access = await getListAccess(list_id, userId, client);
+        const accessError = checkEditAccess(access);
+        if (accessError) {
+          return { error: accessError };
+        }
+
+        if (contentResult.length === 0) {
+          return { error: errorResponse("Content not found", 404) };
+        }
+
+        // Remove from list
+        const deleted = await client.queryObject<{ id: string }>(
+          `DELETE FROM list_items WHERE list_id = $1 AND content_id = $2
+           RETURNING id`,
+          [list_id, contentResult[0].id],
         );
-      }
 
-      const contentId = contentResult[0].id;
+        if (deleted.rows.length === 0) {
+          return { removed: false, version: access!.list.items_version };
+        }
+        return {
+          removed: true,
+          version: await bumpItemsVersion(client, list_id),
+        };
+      });
 
-      // Remove from list
-      await query(
-        "DELETE FROM list_items WHERE list_id = $1 AND content_id = $2",
-        [list_id, contentId],
-      );
+      if (result.error) {
+        return result.error;
+      }
+
+      if (result.removed) {
+        // Update collaborators' open copies of the list
+        await publishListChange(list_id, {
+          type: "list_items",
+          list_id,
+          version: result.version!,
+        });
+      }
 
       return new Response(
-        JSON.stringify({ success: true }),
+        JSON.stringify({ success: true, version: result.version }),
         {
           status: 200,
           headers: { "Content-Type": "application/json" },
         },
       );
     } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
       console.error("Error removing content from list:", error);
-      return new Response(
-        JSON.stringify({ error: "Internal server error" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        },
-      );
+      return errorResponse("Internal server error", 500);
     }
   },
   async PATCH(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Get list ID from route params
@@ -260,17 +339,11 @@ export const handler: Handlers = {
 
       // Parse request body
       const body = await req.json();
-      const { items } = body;
+      const { items, version } = body;
 
       // Validate items array
       if (!Array.isArray(items) || items.length === 0) {
-        return new Response(
-          JSON.stringify({ error: "Items array is required" }),
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
+        return errorResponse("Items array is required", 400);
       }
 
       // Validate each item
@@ -281,99 +354,113 @@ export const handler: Handlers = {
           item.tmdb_id <= 0 ||
           item.position < 0
         ) {
-          return new Response(
-            JSON.stringify({
-              error: "Each item must have valid tmdb_id and position",
-            }),
-            {
-              status: 400,
-              headers: { "Content-Type": "application/json" },
-            },
+          return errorResponse(
+            "Each item must have valid tmdb_id and position",
+            400,
           );
         }
       }
 
-      // Verify list exists and belongs to user
-      const listResult = await query<{ id: string; user_id: string }>(
-        "SELECT id, user_id FROM lists WHERE id = $1",
-        [list_id],
-      );
-
-      if (listResult.length === 0) {
-        return new Response(
-          JSON.stringify({ error: "List not found" }),
-          {
-            status: 404,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
-      }
-
-      const list = listResult[0];
-      if (list.user_id !== userId) {
-        return new Response(
-          JSON.stringify({ error: "Access denied" }),
-          {
-            status: 403,
-            headers: { "Content-Type": "application/json" },
-          },
-        );
+      if (version !== undefined && !Number.isInteger(version)) {
+        return errorResponse("Version must be an integer", 400);
       }
 
       // Update positions in a transaction
-      await transaction(async (client) => {
-        // Get content IDs for all TMDB IDs
-        const tmdbIds = items.map((item) => item.tmdb_id);
-        const placeholders = tmdbIds.map((_, i) => `$${i + 1}`).join(", ");
+      const result = await transaction(async (client) => {
+        // Lock the list and verify the user can edit it
+        const access = await getListAccess(list_id, userId, client);
+        const accessError = checkEditAccess(access);
+        if (accessError) {
+          return { error: accessError };
+        }
 
-        const contentResult = await client.queryObject<{
-          id: string;
+        const currentVersion = access!.list.items_version;
+        if (version !== undefined && version !== currentVersion) {
+          // The client reordered a stale copy; send it the latest so it can
+          // replay the move
+          return {
+            conflict: {
+              version: currentVersion,
+              items: await getListItems(list_id, client),
+            },
+          };
+        }
+
+        const currentResult = await client.queryObject<{
+          content_id: string;
           tmdb_id: number;
+          position: number;
         }>(
-          `SELECT id, tmdb_id FROM content WHERE tmdb_id IN (${placeholders})`,
-          tmdbIds,
+          `SELECT li.content_id, c.tmdb_id, li.position
+           FROM list_items li
+           INNER JOIN content c ON li.content_id = c.id
+           WHERE li.list_id = $1
+           ORDER BY li.position ASC, li.created_at ASC`,
+          [list_id],
         );
-
-        // Create a map of tmdb_id to content_id
+        const current = currentResult.rows;
         const contentMap = new Map(
-          contentResult.rows.map((row) => [row.tmdb_id, row.id]),
+          current.map((row) => [row.tmdb_id, row]),
+        );
+
+        const order = applyPositionUpdates(
+          current.map((row) => row.tmdb_id),
+          items,
         );
 
-        // Verify all items exist in content table
-        for (const item of items) {
-          if (!contentMap.has(item.tmdb_id)) {
-            throw new Error(`Content with tmdb_id ${item.tmdb_id} not found`);
+        // Renumber from 0, only touching rows whose position changes
+        for (const [position, tmdbId] of order.entries()) {
+          const row = contentMap.get(tmdbId)!;
+          if (row.position !== position) {
+            await client.queryObject(
+              `UPDATE list_items
+               SET position = $1
+               WHERE list_id = $2 AND content_id = $3`,
+              [position, list_id, row.content_id],
+            );
           }
         }
 
-        // Update positions for each item
-        for (const item of items) {
-          const contentId = contentMap.get(item.tmdb_id)!;
-          await client.queryObject(
-            `UPDATE list_items 
-             SET position = $1 
-             WHERE list_id = $2 AND content_id = $3`,
-            [item.position, list_id, contentId],
-          );
-        }
+        return { version: await bumpItemsVersion(client, list_id) };
+      });
+
+      if (result.error) {
+        return result.error;
+      }
+
+      if (result.conflict) {
+        return new Response(
+          JSON.stringify({
+            error: "List has changed",
+            ...result.conflict,
+          }),
+          {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      // Update collaborators' open copies of the list
+      await publishListChange(list_id, {
+        type: "list_items",
+        list_id,
+        version: result.version!,
       });
 
       return new Response(
-        JSON.stringify({ success: true }),
+        JSON.stringify({ success: true, version: result.version }),
         {
           status: 200,
           headers: { "Content-Type": "application/json" },
         },
       );
     } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
       console.error("Error reordering list items:", error);
-      return new Response(
-        JSON.stringify({ error: "Internal server error" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        },
-      );
+      return errorResponse("Internal server error", 500);
     }
   },
 };
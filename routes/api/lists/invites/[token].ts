@@ -0,0 +1,76 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { acceptInvite } from "../../../../lib/lists/collaborators.ts";
+import { publishListChange } from "../../../../lib/realtime/events.ts";
+
+/**
+ * API endpoint to accept a list invite
+ *
+ * POST /api/lists/invites/[token]
+ * - Adds the authenticated user to the list with the invite's role
+ * - Email invites can only be accepted by the account with that email, once
+ * - Returns the list ID so the client can redirect to the list
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const result = await acceptInvite(ctx.params.token, session.userId);
+
+      switch (result.status) {
+        case "invalid":
+          return createNotFoundResponse(
+            "This invite is invalid or has expired",
+          );
+        case "wrong_email":
+          return createForbiddenResponse(
+            "This invite was sent to a different email address",
+            "INVITE_EMAIL_MISMATCH",
+          );
+        case "owner":
+          return new Response(
+            JSON.stringify({
+              success: true,
+              list_id: result.listId,
+              role: "owner",
+            }),
+            {
+              status: 200,
+              headers: { "Content-Type": "application/json" },
+            },
+          );
+      }
+
+      await publishListChange(result.listId, {
+        type: "lists",
+        list_id: result.listId,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          list_id: result.listId,
+          role: result.role,
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to accept invite",
+        req,
+        error,
+      );
+    }
+  },
+};
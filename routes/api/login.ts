@@ -1,8 +1,11 @@
 import { type Handlers } from "$fresh/server.ts";
 import { query } from "../../lib/db.ts";
 import { verifyPassword } from "../../lib/auth/password.ts";
-import { createSessionToken } from "../../lib/auth/jwt.ts";
+import { getSafeReturnTo } from "../../lib/auth/return-to.ts";
+import { startSession } from "../../lib/auth/sessions.ts";
 import { setSessionCookie } from "../../lib/auth/cookies.ts";
+import { createTwoFactorChallengeToken } from "../../lib/auth/jwt.ts";
+import { isSecondFactorRequired } from "../../lib/auth/two-factor.ts";
 import {
   createCsrfErrorResponse,
   validateCsrfToken,
@@ -28,6 +31,11 @@ interface LoginRequest {
 /**
  * API handler for user login
  * Authenticates existing users with email and password
+ *
+ * Users with two-factor authentication get a 200 JSON response with
+ * twoFactorRequired and a challenge token instead of a session, unless this
+ * device is trusted. The challenge and a code then go to
+ * /api/login/two-factor.
  */
 export const handler: Handlers = {
   async POST(req) {
@@ -44,7 +52,7 @@ export const handler: Handlers = {
 
       // Check rate limit before processing authentication
       const clientIp = getClientIp(req);
-      const rateLimitCheck = checkRateLimit(clientIp);
+      const rateLimitCheck = await checkRateLimit(clientIp);
       if (rateLimitCheck.isBlocked) {
         return createTooManyRequestsResponse(
           "Too many failed login attempts. Please try again later.",
@@ -75,7 +83,7 @@ export const handler: Handlers = {
 
       if (users.length === 0) {
         // Record failed attempt for invalid email
-        recordFailedAttempt(clientIp);
+        await recordFailedAttempt(clientIp);
         return createUnauthorizedResponse("Invalid email or password");
       }
 
@@ -89,21 +97,31 @@ export const handler: Handlers = {
 
       if (!isValidPassword) {
         // Record failed attempt for invalid password
-        recordFailedAttempt(clientIp);
+        await recordFailedAttempt(clientIp);
         return createUnauthorizedResponse("Invalid email or password");
       }
 
       // Clear failed attempts on successful login
-      clearFailedAttempts(clientIp);
+      await clearFailedAttempts(clientIp);
+
+      if (await isSecondFactorRequired(req, user.id)) {
+        return new Response(
+          JSON.stringify({
+            twoFactorRequired: true,
+            challenge: await createTwoFactorChallengeToken(user.id),
+          }),
+          {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
 
-      // Create session token
-      const token = await createSessionToken(user.id, user.email);
+      // Start a session for this device
+      const token = await startSession(req, user);
 
       // Get return URL from form data or default to dashboard
-      const returnTo = formData.get("returnTo")?.toString() || "/dashboard";
-
-      // Validate returnTo to prevent open redirects (must be relative path)
-      const returnUrl = returnTo.startsWith("/") ? returnTo : "/dashboard";
+      const returnUrl = getSafeReturnTo(formData.get("returnTo")?.toString());
 
       // Set session cookie and redirect to return URL
       const headers = new Headers();
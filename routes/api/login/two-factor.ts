@@ -0,0 +1,131 @@
+import { type Handlers } from "$fresh/server.ts";
+import { query } from "../../../lib/db.ts";
+import {
+  clearTwoFactorChallengeCookie,
+  setSessionCookie,
+  setTrustedDeviceCookie,
+} from "../../../lib/auth/cookies.ts";
+import { verifyTwoFactorChallengeToken } from "../../../lib/auth/jwt.ts";
+import { getSafeReturnTo } from "../../../lib/auth/return-to.ts";
+import { startSession } from "../../../lib/auth/sessions.ts";
+import {
+  createTrustedDevice,
+  getTwoFactorAttemptsKey,
+  TRUSTED_DEVICE_SECONDS,
+  verifySecondFactor,
+} from "../../../lib/auth/two-factor.ts";
+import {
+  createCsrfErrorResponse,
+  validateCsrfToken,
+} from "../../../lib/security/csrf.ts";
+import {
+  checkRateLimit,
+  clearFailedAttempts,
+  getClientIp,
+  recordFailedAttempt,
+} from "../../../lib/security/rate-limit.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createTooManyRequestsResponse,
+  createUnauthorizedResponse,
+} from "../../../lib/api/errors.ts";
+
+/**
+ * API handler for the second step of sign-in
+ *
+ * Takes the challenge token from /api/login (or, for provider sign-in, the
+ * challenge cookie passed on by the login page) and a code from the user's
+ * authenticator app or a recovery code. Failed codes count against both the
+ * IP address and the user.
+ * With rememberDevice set, the device skips this step for 30 days.
+ */
+export const handler: Handlers = {
+  async POST(req) {
+    try {
+      const formData = await req.formData();
+
+      // Validate CSRF token
+      const isValidCsrf = await validateCsrfToken(req, formData);
+      if (!isValidCsrf) {
+        return createCsrfErrorResponse();
+      }
+      const challenge = formData.get("challenge")?.toString();
+      const code = formData.get("code")?.toString().trim();
+      const rememberDevice = formData.get("rememberDevice") === "true";
+
+      const clientIp = getClientIp(req);
+      const ipRateLimit = await checkRateLimit(clientIp);
+      if (ipRateLimit.isBlocked) {
+        return createTooManyRequestsResponse(
+          "Too many failed login attempts. Please try again later.",
+          ipRateLimit.remainingSeconds,
+        );
+      }
+
+      if (!challenge || !code) {
+        return createBadRequestResponse("Verification code is required");
+      }
+
+      const userId = await verifyTwoFactorChallengeToken(challenge);
+      if (!userId) {
+        return createUnauthorizedResponse(
+          "Your sign-in has expired. Please sign in again.",
+        );
+      }
+
+      const userLimitKey = getTwoFactorAttemptsKey(userId);
+      const userRateLimit = await checkRateLimit(userLimitKey);
+      if (userRateLimit.isBlocked) {
+        return createTooManyRequestsResponse(
+          "Too many failed verification attempts. Please try again later.",
+          userRateLimit.remainingSeconds,
+        );
+      }
+
+      const method = await verifySecondFactor(userId, code);
+      if (!method) {
+        await recordFailedAttempt(clientIp);
+        await recordFailedAttempt(userLimitKey);
+        return createUnauthorizedResponse("Invalid verification code");
+      }
+
+      await clearFailedAttempts(clientIp);
+      await clearFailedAttempts(userLimitKey);
+
+      const users = await query<{ id: string; email: string }>(
+        "SELECT id, email FROM users WHERE id = $1",
+        [userId],
+      );
+      if (users.length === 0) {
+        return createUnauthorizedResponse(
+          "Your sign-in has expired. Please sign in again.",
+        );
+      }
+
+      // Start a session for this device
+      const token = await startSession(req, users[0]);
+
+      const returnUrl = getSafeReturnTo(formData.get("returnTo")?.toString());
+
+      const headers = new Headers();
+      setSessionCookie(headers, token);
+      clearTwoFactorChallengeCookie(headers);
+      if (rememberDevice) {
+        setTrustedDeviceCookie(
+          headers,
+          await createTrustedDevice(req, userId),
+          TRUSTED_DEVICE_SECONDS,
+        );
+      }
+      headers.set("Location", returnUrl);
+
+      return new Response(null, {
+        status: 303, // See Other (redirect after POST)
+        headers,
+      });
+    } catch (error) {
+      return createInternalServerErrorResponse("Failed to log in", req, error);
+    }
+  },
+};
@@ -1,16 +1,28 @@
-import { type Handlers } from "$fresh/server.ts";
+import { type FreshContext, type Handlers } from "$fresh/server.ts";
 import { clearSessionCookie } from "../../lib/auth/cookies.ts";
+import { getSession } from "../../lib/auth/middleware.ts";
+import { revokeSession } from "../../lib/auth/sessions.ts";
 import {
   createCsrfErrorResponse,
   validateCsrfToken,
 } from "../../lib/security/csrf.ts";
 
+/**
+ * End the request's session so its token can't be used again
+ */
+async function endSession(ctx: FreshContext): Promise<void> {
+  const session = getSession(ctx);
+  if (session?.sessionId) {
+    await revokeSession(session.sessionId, session.userId);
+  }
+}
+
 /**
  * API handler for user logout
- * Clears the session cookie and redirects to homepage
+ * Revokes the session, clears the session cookie and redirects to homepage
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     // Validate CSRF token for POST requests
     const formData = await req.formData();
     const isValidCsrf = await validateCsrfToken(req, formData);
@@ -18,6 +30,8 @@ export const handler: Handlers = {
       return createCsrfErrorResponse();
     }
 
+    await endSession(ctx);
+
     const headers = new Headers();
     clearSessionCookie(headers);
 
@@ -28,9 +42,11 @@ export const handler: Handlers = {
       headers,
     });
   },
-  GET(_req) {
+  async GET(_req, ctx) {
     // Support GET requests for logout (e.g., from links)
     // GET requests don't need CSRF protection as they're idempotent
+    await endSession(ctx);
+
     const headers = new Headers();
     clearSessionCookie(headers);
 
@@ -0,0 +1,90 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  CachePresets,
+  handleConditionalRequest,
+} from "../../../../lib/api/caching.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { buildWeeklyDigest } from "../../../../lib/notifications/digest.ts";
+import {
+  buildDigestNotification,
+  buildDigestSections,
+  isDigestEmpty,
+  renderDigestEmail,
+} from "../../../../lib/notifications/digest-message.ts";
+
+const PREVIEW_FORMATS = ["json", "html", "text"] as const;
+type PreviewFormat = typeof PREVIEW_FORMATS[number];
+
+/**
+ * API endpoint for previewing the current user's weekly digest
+ * GET: Render this week's digest without sending it
+ *
+ * Query parameters:
+ * - format: "json" (default) for the digest data, push notification and
+ *   email subject; "html" or "text" for the email body
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const url = new URL(req.url);
+
+      const format =
+        (url.searchParams.get("format") || "json") as PreviewFormat;
+      if (!PREVIEW_FORMATS.includes(format)) {
+        return createBadRequestResponse(
+          `format must be one of: ${PREVIEW_FORMATS.join(", ")}`,
+          "format",
+        );
+      }
+
+      const digest = await buildWeeklyDigest(session.userId);
+      if (!digest) {
+        return createNotFoundResponse("User not found");
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const baseUrl = `${url.protocol}//${url.host}`;
+      const email = renderDigestEmail(digest, baseUrl, today);
+
+      if (format !== "json") {
+        return new Response(format === "html" ? email.html : email.text, {
+          headers: {
+            "Content-Type": format === "html"
+              ? "text/html; charset=utf-8"
+              : "text/plain; charset=utf-8",
+            "Cache-Control": CachePresets.NO_CACHE,
+          },
+        });
+      }
+
+      const empty = isDigestEmpty(digest);
+
+      return await handleConditionalRequest(
+        req,
+        {
+          digest,
+          empty,
+          sections: buildDigestSections(digest, today),
+          notification: empty ? null : buildDigestNotification(digest),
+          email: { subject: email.subject },
+        },
+        CachePresets.NO_CACHE,
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to preview weekly digest",
+        req,
+        error,
+      );
+    }
+  },
+};
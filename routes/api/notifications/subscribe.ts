@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -24,9 +24,9 @@ export const handler: Handlers = {
   /**
    * Check if the user has an active push subscription
    */
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Check for active subscriptions
       const result = await query<{ endpoint: string; created_at: string }>(
@@ -57,9 +57,9 @@ export const handler: Handlers = {
   /**
    * Subscribe to push notifications
    */
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const { subscription, resubscribe } = body as {
@@ -156,9 +156,9 @@ export const handler: Handlers = {
   /**
    * Unsubscribe from push notifications
    */
-  async DELETE(req) {
+  async DELETE(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Check for endpoint in query params or body
       const url = new URL(req.url);
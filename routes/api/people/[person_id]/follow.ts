@@ -0,0 +1,125 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import {
+  followPerson,
+  isFollowingPerson,
+  unfollowPerson,
+} from "../../../../lib/people/follows.ts";
+import { getPersonById } from "../../../../lib/tmdb/client.ts";
+
+/**
+ * Parse and validate the person ID route parameter
+ */
+function parsePersonId(value: string): number | null {
+  const personId = parseInt(value, 10);
+  return Number.isInteger(personId) && personId > 0 ? personId : null;
+}
+
+/**
+ * Build the follow state response for a person
+ */
+function followStateResponse(following: boolean): Response {
+  return new Response(JSON.stringify({ following }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * API endpoint for following cast and crew
+ *
+ * GET /api/people/[person_id]/follow
+ * - Returns whether the authenticated user follows this person
+ *
+ * POST /api/people/[person_id]/follow
+ * - Follows the person (must exist on TMDB)
+ *
+ * DELETE /api/people/[person_id]/follow
+ * - Unfollows the person
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const personId = parsePersonId(ctx.params.person_id);
+
+      if (personId === null) {
+        return createBadRequestResponse("Invalid person ID", "person_id");
+      }
+
+      return followStateResponse(
+        await isFollowingPerson(session.userId, personId),
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch follow status",
+        req,
+        error,
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const personId = parsePersonId(ctx.params.person_id);
+
+      if (personId === null) {
+        return createBadRequestResponse("Invalid person ID", "person_id");
+      }
+
+      // Store the name and photo from TMDB rather than trusting the client
+      let person;
+      try {
+        person = await getPersonById(personId);
+      } catch (_error) {
+        return createNotFoundResponse("Person not found");
+      }
+
+      await followPerson(session.userId, person);
+
+      return followStateResponse(true);
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to follow person",
+        req,
+        error,
+      );
+    }
+  },
+
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const personId = parsePersonId(ctx.params.person_id);
+
+      if (personId === null) {
+        return createBadRequestResponse("Invalid person ID", "person_id");
+      }
+
+      await unfollowPerson(session.userId, personId);
+
+      return followStateResponse(false);
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to unfollow person",
+        req,
+        error,
+      );
+    }
+  },
+};
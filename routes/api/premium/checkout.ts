@@ -6,20 +6,29 @@
  */
 
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { getAppBaseUrl, getStripeClient } from "../../../lib/stripe/client.ts";
 import {
   createBadRequestResponse,
+  createForbiddenResponse,
   createInternalServerErrorResponse,
 } from "../../../lib/api/errors.ts";
+import { getStripeCustomerId } from "../../../lib/stripe/subscriptions.ts";
 
 /**
  * API handler for creating Stripe checkout session
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Checkout can't be started while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
       const stripe = getStripeClient();
       const baseUrl = getAppBaseUrl();
 
@@ -33,6 +42,10 @@ export const handler: Handlers = {
         );
       }
 
+      // Reuse the customer from an earlier subscription, so the portal shows
+      // the whole billing history
+      const customerId = await getStripeCustomerId(session.userId);
+
       // Create Stripe Checkout Session
       const checkoutSession = await stripe.checkout.sessions.create({
         mode: "subscription",
@@ -43,7 +56,9 @@ export const handler: Handlers = {
             quantity: 1,
           },
         ],
-        customer_email: session.email,
+        ...(customerId
+          ? { customer: customerId }
+          : { customer_email: session.email }),
         client_reference_id: session.userId,
         success_url: `${baseUrl}/settings?session_id={CHECKOUT_SESSION_ID}`,
         cancel_url: `${baseUrl}/settings?canceled=true`,
@@ -6,39 +6,33 @@
  */
 
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { getAppBaseUrl, getStripeClient } from "../../../lib/stripe/client.ts";
 import {
   createBadRequestResponse,
+  createForbiddenResponse,
   createInternalServerErrorResponse,
 } from "../../../lib/api/errors.ts";
-import { query } from "../../../lib/db.ts";
+import { getStripeCustomerId } from "../../../lib/stripe/subscriptions.ts";
 
 /**
  * API handler for creating Stripe Customer Portal session
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
-      const stripe = getStripeClient();
-      const baseUrl = getAppBaseUrl();
-
-      // Get user's Stripe customer ID from preferences
-      const result = await query<{
-        preferences: Record<string, unknown>;
-      }>(
-        "SELECT preferences FROM users WHERE id = $1",
-        [session.userId],
-      );
-
-      if (result.length === 0) {
-        return createBadRequestResponse("User not found");
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "The billing portal can't be opened while impersonating",
+          "IMPERSONATING",
+        );
       }
 
-      const preferences = result[0].preferences || {};
-      const customerId = preferences.stripe_customer_id as string | undefined;
+      const stripe = getStripeClient();
+      const baseUrl = getAppBaseUrl();
 
+      const customerId = await getStripeCustomerId(session.userId);
       if (!customerId) {
         return createBadRequestResponse(
           "No active subscription found. Please subscribe first.",
@@ -1,13 +1,20 @@
 /**
  * Stripe webhook endpoint for handling subscription events
  *
- * Handles Stripe webhook events to update user premium status:
+ * Mirrors each subscription into the subscriptions table, which premium
+ * entitlements are worked out from:
  * - checkout.session.completed: User completed checkout
  * - customer.subscription.created: Subscription created
- * - customer.subscription.updated: Subscription updated (e.g., plan change)
- * - customer.subscription.deleted: Subscription cancelled
+ * - customer.subscription.updated: Subscription updated (e.g., plan change,
+ *   trial ending, cancellation at period end)
+ * - customer.subscription.deleted: Subscription ended
  * - invoice.payment_succeeded: Successful payment
- * - invoice.payment_failed: Failed payment
+ * - invoice.payment_failed: Failed payment (starts the grace period)
+ *
+ * Events are recorded by ID. Redelivered events that were already processed
+ * are acknowledged without being applied again, and an event that fails is
+ * left unprocessed so Stripe retries it. A delivery that arrives while
+ * another is applying the same event gets 409, so Stripe retries it later.
  */
 
 import { type Handlers } from "$fresh/server.ts";
@@ -15,87 +22,58 @@ import {
   getStripeClient,
   getStripeWebhookSecret,
 } from "../../../lib/stripe/client.ts";
-import { query } from "../../../lib/db.ts";
+import {
+  claimStripeEvent,
+  clearPaymentFailed,
+  findSubscriptionUser,
+  markPaymentFailed,
+  markStripeEventProcessed,
+  releaseStripeEvent,
+  stripeId,
+  upsertSubscription,
+} from "../../../lib/stripe/subscriptions.ts";
 import { createInternalServerErrorResponse } from "../../../lib/api/errors.ts";
 import Stripe from "stripe";
 
-/**
- * Update user premium status in database
- */
-async function updatePremiumStatus(
-  userId: string,
-  isPremium: boolean,
-): Promise<void> {
-  await query(
-    `UPDATE users 
-     SET preferences = jsonb_set(
-       COALESCE(preferences, '{}'::jsonb),
-       '{premium}',
-       $1::jsonb
-     )
-     WHERE id = $2`,
-    [JSON.stringify(isPremium), userId],
-  );
-}
-
-/**
- * Update user subscription details in database
- */
-async function updateSubscriptionDetails(
-  userId: string,
-  customerId: string,
-  subscriptionId: string,
-  currentPeriodEnd: number,
-  planName: string | null,
-): Promise<void> {
-  await query(
-    `UPDATE users 
-     SET preferences = jsonb_set(
-       jsonb_set(
-         jsonb_set(
-           jsonb_set(
-             COALESCE(preferences, '{}'::jsonb),
-             '{stripe_customer_id}',
-             $1::jsonb
-           ),
-           '{stripe_subscription_id}',
-           $2::jsonb
-         ),
-         '{subscription_current_period_end}',
-         $3::jsonb
-       ),
-       '{subscription_plan_name}',
-       $4::jsonb
-     )
-     WHERE id = $5`,
-    [
-      JSON.stringify(customerId),
-      JSON.stringify(subscriptionId),
-      JSON.stringify(currentPeriodEnd),
-      planName ? JSON.stringify(planName) : "null",
-      userId,
-    ],
-  );
+function receivedResponse(): Response {
+  return new Response(JSON.stringify({ received: true }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
 }
 
 /**
- * Clear subscription details when subscription is cancelled
+ * Get the subscription and customer an event is about
  */
-async function clearSubscriptionDetails(userId: string): Promise<void> {
-  await query(
-    `UPDATE users 
-     SET preferences = preferences 
-       - 'stripe_customer_id' 
-       - 'stripe_subscription_id' 
-       - 'subscription_current_period_end' 
-       - 'subscription_plan_name'
-     WHERE id = $1`,
-    [userId],
-  );
+function getEventSubscription(
+  event: Stripe.Event,
+): { subscriptionId: string | null; customerId: string | null } {
+  if (event.type.startsWith("customer.subscription.")) {
+    const subscription = event.data.object as Stripe.Subscription;
+    return {
+      subscriptionId: subscription.id,
+      customerId: stripeId(subscription.customer),
+    };
+  }
+  if (event.type.startsWith("invoice.")) {
+    const invoice = event.data.object as Stripe.Invoice;
+    return {
+      subscriptionId: stripeId(invoice.subscription),
+      customerId: stripeId(invoice.customer),
+    };
+  }
+  if (event.type === "checkout.session.completed") {
+    const session = event.data.object as Stripe.Checkout.Session;
+    return {
+      subscriptionId: stripeId(session.subscription),
+      customerId: stripeId(session.customer),
+    };
+  }
+  return { subscriptionId: null, customerId: null };
 }
 
 /**
- * Get user ID from Stripe event metadata or customer
+ * Get user ID from Stripe event metadata, our subscriptions or the customer
  */
 async function getUserIdFromEvent(
   event: Stripe.Event,
@@ -103,7 +81,7 @@ async function getUserIdFromEvent(
   // Try to get userId from metadata
   if (event.data.object && "metadata" in event.data.object) {
     const metadata = event.data.object.metadata as Record<string, unknown>;
-    if (metadata.userId && typeof metadata.userId === "string") {
+    if (metadata?.userId && typeof metadata.userId === "string") {
       return metadata.userId;
     }
   }
@@ -116,31 +94,104 @@ async function getUserIdFromEvent(
     }
   }
 
-  // For subscription events, get from customer metadata
-  if (
-    event.type.startsWith("customer.subscription.") ||
-    event.type.startsWith("invoice.")
-  ) {
-    const subscription = event.data.object as
-      | Stripe.Subscription
-      | Stripe.Invoice;
-    if (subscription.customer) {
-      const customerId = typeof subscription.customer === "string"
-        ? subscription.customer
-        : subscription.customer.id;
+  const { subscriptionId, customerId } = getEventSubscription(event);
+  if (!subscriptionId && !customerId) {
+    return null;
+  }
 
-      // Retrieve customer to get metadata
-      const stripe = getStripeClient();
-      const customer = await stripe.customers.retrieve(customerId);
-      if (!customer.deleted && customer.metadata?.userId) {
-        return customer.metadata.userId;
-      }
+  const userId = await findSubscriptionUser(subscriptionId, customerId);
+  if (userId) {
+    return userId;
+  }
+
+  // Fall back to customer metadata, set after checkout
+  if (customerId) {
+    const customer = await getStripeClient().customers.retrieve(customerId);
+    if (!customer.deleted && customer.metadata?.userId) {
+      return customer.metadata.userId;
     }
   }
 
   return null;
 }
 
+/**
+ * Apply an event to the subscriptions table
+ */
+async function processEvent(
+  stripe: Stripe,
+  event: Stripe.Event,
+  userId: string,
+): Promise<void> {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const subscriptionId = stripeId(session.subscription);
+      if (session.mode !== "subscription" || !subscriptionId) {
+        break;
+      }
+
+      // The session doesn't include the subscription, so fetch its current
+      // state; that's newer than any event created before now
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+      await upsertSubscription(
+        userId,
+        subscription,
+        Math.floor(Date.now() / 1000),
+      );
+
+      // Ensure customer metadata has userId for future lookups
+      await stripe.customers.update(stripeId(subscription.customer)!, {
+        metadata: { userId },
+      });
+
+      console.log(`Subscription ${subscriptionId} started for user ${userId}`);
+      break;
+    }
+
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+      const applied = await upsertSubscription(
+        userId,
+        subscription,
+        event.created,
+      );
+      console.log(
+        applied
+          ? `Subscription ${subscription.id} for user ${userId} is ${subscription.status}`
+          : `Ignored out-of-date ${event.type} for subscription ${subscription.id}`,
+      );
+      break;
+    }
+
+    case "invoice.payment_succeeded": {
+      const invoice = event.data.object as Stripe.Invoice;
+      const subscriptionId = stripeId(invoice.subscription);
+      if (subscriptionId) {
+        await clearPaymentFailed(subscriptionId);
+      }
+      break;
+    }
+
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      const subscriptionId = stripeId(invoice.subscription);
+      if (subscriptionId) {
+        await markPaymentFailed(subscriptionId, event.created);
+        console.log(
+          `Payment failed for subscription ${subscriptionId} (user ${userId})`,
+        );
+      }
+      break;
+    }
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
 /**
  * API handler for Stripe webhook events
  */
@@ -173,122 +224,33 @@ export const handler: Handlers = {
         return new Response("Invalid signature", { status: 400 });
       }
 
-      // Handle different event types
-      const userId = await getUserIdFromEvent(event);
-      if (!userId) {
-        console.warn("Could not determine userId from event:", event.type);
-        // Return 200 to acknowledge receipt even if we can't process
-        return new Response(JSON.stringify({ received: true }), {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
+      const claim = await claimStripeEvent(event.id, event.type);
+      if (!claim.claimed) {
+        if (claim.processed) {
+          console.log(`Skipping already processed event ${event.id}`);
+          return receivedResponse();
+        }
+        return new Response("Event is already being processed", {
+          status: 409,
         });
       }
 
-      switch (event.type) {
-        case "checkout.session.completed": {
-          const session = event.data.object as Stripe.Checkout.Session;
-          if (session.mode === "subscription" && session.subscription) {
-            await updatePremiumStatus(userId, true);
-
-            // Retrieve subscription to get details
-            const subscriptionId = typeof session.subscription === "string"
-              ? session.subscription
-              : session.subscription.id;
-            const subscription = await stripe.subscriptions.retrieve(
-              subscriptionId,
-            );
-
-            const customerId = typeof subscription.customer === "string"
-              ? subscription.customer
-              : subscription.customer.id;
-
-            // Get plan name from subscription items
-            const planName = subscription.items.data[0]?.price.nickname ||
-              subscription.items.data[0]?.price.id || null;
-
-            await updateSubscriptionDetails(
-              userId,
-              customerId,
-              subscriptionId,
-              subscription.current_period_end,
-              planName,
-            );
-
-            // Ensure customer metadata has userId for future lookups
-            const customerIdForMetadata =
-              typeof subscription.customer === "string"
-                ? subscription.customer
-                : subscription.customer.id;
-            await stripe.customers.update(customerIdForMetadata, {
-              metadata: { userId },
-            });
-
-            console.log(`Premium activated for user ${userId}`);
-          }
-          break;
-        }
-
-        case "customer.subscription.created":
-        case "customer.subscription.updated": {
-          const subscription = event.data.object as Stripe.Subscription;
-          const isActive = subscription.status === "active" ||
-            subscription.status === "trialing";
-          await updatePremiumStatus(userId, isActive);
-
-          if (isActive) {
-            const customerId = typeof subscription.customer === "string"
-              ? subscription.customer
-              : subscription.customer.id;
-
-            const planName = subscription.items.data[0]?.price.nickname ||
-              subscription.items.data[0]?.price.id || null;
-
-            await updateSubscriptionDetails(
-              userId,
-              customerId,
-              subscription.id,
-              subscription.current_period_end,
-              planName,
-            );
-          }
-
-          console.log(
-            `Premium status updated for user ${userId}: ${isActive}`,
-          );
-          break;
-        }
-
-        case "customer.subscription.deleted": {
-          await updatePremiumStatus(userId, false);
-          await clearSubscriptionDetails(userId);
-          console.log(`Premium cancelled for user ${userId}`);
-          break;
-        }
-
-        case "invoice.payment_succeeded": {
-          const invoice = event.data.object as Stripe.Invoice;
-          if (invoice.subscription) {
-            await updatePremiumStatus(userId, true);
-            console.log(`Premium confirmed for user ${userId} after payment`);
-          }
-          break;
-        }
-
-        case "invoice.payment_failed": {
-          // Optionally downgrade user if payment fails multiple times
-          // For now, we'll keep premium status but could add logic here
-          console.log(`Payment failed for user ${userId}`);
-          break;
+      try {
+        const userId = await getUserIdFromEvent(event);
+        if (!userId) {
+          console.warn("Could not determine userId from event:", event.type);
+        } else {
+          await processEvent(stripe, event, userId);
         }
-
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
+      } catch (error) {
+        await releaseStripeEvent(event.id, claim.lockToken);
+        throw error;
       }
 
-      return new Response(JSON.stringify({ received: true }), {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      });
+      // Events we can't match to a user are acknowledged too, so they
+      // aren't redelivered
+      await markStripeEventProcessed(event.id, claim.lockToken);
+      return receivedResponse();
     } catch (error) {
       console.error("Error processing webhook:", error);
       return createInternalServerErrorResponse("Webhook processing failed");
@@ -0,0 +1,132 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import {
+  followUser,
+  getFollowCounts,
+  hasPublicProfile,
+  isFollowing,
+  unfollowUser,
+} from "../../../../lib/social/follows.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Build the follow state response for a profile
+ */
+async function followStateResponse(
+  viewerId: string,
+  userId: string,
+): Promise<Response> {
+  const [following, counts] = await Promise.all([
+    isFollowing(viewerId, userId),
+    getFollowCounts(userId),
+  ]);
+
+  return new Response(
+    JSON.stringify({
+      following,
+      followers: counts.followers,
+      followingCount: counts.following,
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+}
+
+/**
+ * API endpoint for following users
+ *
+ * GET /api/profile/[user_id]/follow
+ * - Returns whether the authenticated user follows this user, plus counts
+ *
+ * POST /api/profile/[user_id]/follow
+ * - Follows the user (only public profiles can be followed)
+ *
+ * DELETE /api/profile/[user_id]/follow
+ * - Unfollows the user
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { user_id } = ctx.params;
+
+      if (!UUID_REGEX.test(user_id)) {
+        return createBadRequestResponse("Invalid user ID", "user_id");
+      }
+
+      return await followStateResponse(session.userId, user_id);
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to fetch follow status",
+        req,
+        error,
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { user_id } = ctx.params;
+
+      if (!UUID_REGEX.test(user_id)) {
+        return createBadRequestResponse("Invalid user ID", "user_id");
+      }
+      if (user_id === session.userId) {
+        return createBadRequestResponse("You can't follow yourself", "user_id");
+      }
+      if (!(await hasPublicProfile(user_id))) {
+        return createNotFoundResponse("User not found");
+      }
+
+      await followUser(session.userId, user_id);
+
+      return await followStateResponse(session.userId, user_id);
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to follow user",
+        req,
+        error,
+      );
+    }
+  },
+
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const { user_id } = ctx.params;
+
+      if (!UUID_REGEX.test(user_id)) {
+        return createBadRequestResponse("Invalid user ID", "user_id");
+      }
+
+      await unfollowUser(session.userId, user_id);
+
+      return await followStateResponse(session.userId, user_id);
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to unfollow user",
+        req,
+        error,
+      );
+    }
+  },
+};
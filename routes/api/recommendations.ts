@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../lib/auth/middleware.ts";
+import { requireAuth } from "../../lib/auth/middleware.ts";
 import { handleConditionalRequest } from "../../lib/api/caching.ts";
 import { CachePresets } from "../../lib/api/caching.ts";
 import {
@@ -37,10 +37,9 @@ function getDailyCacheKey(userId: string): string {
  * Recommendations are cached per user per day
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Check cache first
       const cacheKey = getDailyCacheKey(session.userId);
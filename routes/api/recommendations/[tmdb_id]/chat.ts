@@ -1,6 +1,6 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../../lib/auth/middleware.ts";
-import { isPremiumUser } from "../../../../lib/auth/premium.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { getEntitlements } from "../../../../lib/auth/entitlements.ts";
 import { query } from "../../../../lib/db.ts";
 import {
   type ChatMessage,
@@ -77,12 +77,11 @@ async function getWatchedContentHistory(userId: string): Promise<string> {
 export const handler: Handlers = {
   async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
-      // Check if user is premium
-      const isPremium = await isPremiumUser(session.userId);
-      if (!isPremium) {
+      // Check the user's plan includes AI chat
+      const { aiChat } = await getEntitlements(session.userId);
+      if (!aiChat) {
         return createUnauthorizedResponse(
           "This feature is only available for premium users. Please upgrade to access AI chat.",
         );
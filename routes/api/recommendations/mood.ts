@@ -1,6 +1,6 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
-import { isPremiumUser } from "../../../lib/auth/premium.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import { getEntitlements } from "../../../lib/auth/entitlements.ts";
 import {
   generateMoodBasedRecommendations,
   type RecommendationCandidate,
@@ -25,14 +25,13 @@ interface MoodRecommendationsResponse {
  * Premium users only - allows requesting recommendations by mood/context
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
-      // Check if user is premium
-      const isPremium = await isPremiumUser(session.userId);
-      if (!isPremium) {
+      // Check the user's plan includes AI chat
+      const { aiChat } = await getEntitlements(session.userId);
+      if (!aiChat) {
         return createUnauthorizedResponse(
           "This feature is only available for premium users. Please upgrade to access mood-based recommendations.",
         );
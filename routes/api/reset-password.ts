@@ -6,6 +6,8 @@ import {
   markPasswordResetTokenAsUsed,
   validatePasswordResetToken,
 } from "../../lib/auth/password-reset.ts";
+import { revokeAllSessions } from "../../lib/auth/sessions.ts";
+import { forgetTrustedDevices } from "../../lib/auth/two-factor.ts";
 import {
   createCsrfErrorResponse,
   validateCsrfToken,
@@ -17,7 +19,7 @@ import {
 
 /**
  * API handler for password reset
- * Validates token and updates user password
+ * Validates token, updates user password and signs the user out everywhere
  */
 export const handler: Handlers = {
   async POST(req) {
@@ -90,6 +92,11 @@ export const handler: Handlers = {
       await markPasswordResetTokenAsUsed(token);
       await invalidateUserPasswordResetTokens(userId);
 
+      // Whoever knew the old password may still be signed in somewhere,
+      // or on a device that skips two-factor sign-in
+      await revokeAllSessions(userId);
+      await forgetTrustedDevices(userId);
+
       // Redirect to login with success message
       const headers = new Headers();
       headers.set("Location", "/login?reset=success");
@@ -1,31 +1,46 @@
 import { type Handlers } from "$fresh/server.ts";
 import { handleConditionalRequest } from "../../lib/api/caching.ts";
 import { CachePresets } from "../../lib/api/caching.ts";
-import { type Content, searchMovies, searchTv } from "../../lib/tmdb/client.ts";
+import {
+  type CollectionSearchResults,
+  type Content,
+  type MultiSearchResults,
+  type PersonSearchResults,
+  searchCollections,
+  searchMovies,
+  searchMulti,
+  searchPeople,
+  type SearchResults,
+  searchTv,
+} from "../../lib/tmdb/client.ts";
 import {
   createBadRequestResponse,
   createInternalServerErrorResponse,
 } from "../../lib/api/errors.ts";
 import { trackSearch } from "../../lib/analytics/tracker.ts";
-import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
+import { getSession } from "../../lib/auth/middleware.ts";
+import {
+  orderSearchSections,
+  SEARCH_TYPES,
+  type UnifiedSearchResponse,
+  type UnifiedSearchType,
+} from "../../lib/search/unified.ts";
 
-interface SearchResponse {
-  results: Content[];
-  total_results: number;
-  page: number;
-  total_pages: number;
-}
+const EMPTY_PAGE = { page: 1, total_pages: 0, total_results: 0 };
 
 /**
- * API handler for content search
- * Searches both movies and TV shows, combining results
+ * API handler for unified search
+ * Searches titles, people and collections, returning each kind separately.
+ * With `type=all` (the default) this uses TMDB multi search plus collection
+ * search; other types search just that kind.
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(req, ctx) {
     try {
       const url = new URL(req.url);
       const query = url.searchParams.get("q");
       const page = parseInt(url.searchParams.get("page") || "1", 10);
+      const type = (url.searchParams.get("type") || "all") as UnifiedSearchType;
 
       // Validate query
       if (!query || query.trim().length === 0) {
@@ -40,55 +55,84 @@ export const handler: Handlers = {
         );
       }
 
-      // Search both movies and TV shows in parallel
-      const [movieResults, tvResults] = await Promise.all([
-        searchMovies(query.trim(), page).catch(() => ({
-          page: 1,
-          total_pages: 0,
-          total_results: 0,
-          results: [] as Content[],
-        })),
-        searchTv(query.trim(), page).catch(() => ({
-          page: 1,
-          total_pages: 0,
-          total_results: 0,
-          results: [] as Content[],
-        })),
-      ]);
+      // Validate search type
+      if (!SEARCH_TYPES.includes(type)) {
+        return createBadRequestResponse(
+          `Type must be one of: ${SEARCH_TYPES.join(", ")}`,
+          "type",
+        );
+      }
 
-      // Combine results from both movies and TV shows
-      const combinedResults: Content[] = [
-        ...movieResults.results,
-        ...tvResults.results,
-      ];
+      const q = query.trim();
+      // A failed search for one kind shouldn't hide the others
+      const emptyTitles = (): SearchResults => ({ ...EMPTY_PAGE, results: [] });
+      const emptyPeople = (): PersonSearchResults => ({
+        ...EMPTY_PAGE,
+        results: [],
+      });
+      const emptyCollections = (): CollectionSearchResults => ({
+        ...EMPTY_PAGE,
+        results: [],
+      });
 
-      // Sort combined results by relevance
-      // Sort by vote_average (descending), then by vote_count (descending) as tiebreaker
-      combinedResults.sort((a, b) => {
-        const aVoteAvg = (a.metadata.vote_average as number) || 0;
-        const bVoteAvg = (b.metadata.vote_average as number) || 0;
-        const aVoteCount = (a.metadata.vote_count as number) || 0;
-        const bVoteCount = (b.metadata.vote_count as number) || 0;
+      let titles: SearchResults = emptyTitles();
+      let people: PersonSearchResults = emptyPeople();
+      let collections: CollectionSearchResults = emptyCollections();
+      let topKind: MultiSearchResults["top_kind"] = null;
 
-        // Sort by vote_average first (higher = more relevant)
-        if (aVoteAvg !== bVoteAvg) {
-          return bVoteAvg - aVoteAvg;
+      switch (type) {
+        case "all": {
+          const [multi, collectionResults] = await Promise.all([
+            searchMulti(q, page).catch((): MultiSearchResults => ({
+              ...EMPTY_PAGE,
+              titles: [],
+              people: [],
+              top_kind: null,
+            })),
+            searchCollections(q, page).catch(emptyCollections),
+          ]);
+          // Multi search totals cover titles and people together
+          titles = { ...multi, results: multi.titles };
+          people = { ...EMPTY_PAGE, results: multi.people };
+          collections = collectionResults;
+          topKind = multi.top_kind;
+          break;
         }
+        case "movie":
+          titles = await searchMovies(q, page).catch(emptyTitles);
+          break;
+        case "tv":
+          titles = await searchTv(q, page).catch(emptyTitles);
+          break;
+        case "person":
+          people = await searchPeople(q, page).catch(emptyPeople);
+          break;
+        case "collection":
+          collections = await searchCollections(q, page).catch(
+            emptyCollections,
+          );
+          break;
+      }
 
-        // If vote_average is equal, sort by vote_count (more votes = more reliable)
-        return bVoteCount - aVoteCount;
-      });
-
-      // Calculate combined totals
-      const total_results = movieResults.total_results +
-        tvResults.total_results;
+      const results: Content[] = titles.results;
+      const total_results = titles.total_results + people.total_results +
+        collections.total_results;
       const total_pages = Math.max(
-        movieResults.total_pages,
-        tvResults.total_pages,
+        titles.total_pages,
+        people.total_pages,
+        collections.total_pages,
       );
 
-      const response: SearchResponse = {
-        results: combinedResults,
+      const response: UnifiedSearchResponse = {
+        type,
+        results,
+        people: people.results,
+        collections: collections.results,
+        sections: orderSearchSections(q, {
+          titles: results,
+          people: people.results,
+          collections: collections.results,
+        }, topKind),
         total_results,
         page,
         total_pages,
@@ -96,8 +140,8 @@ export const handler: Handlers = {
 
       // Track search event (non-blocking)
       try {
-        const session = await getSessionFromRequest(req).catch(() => null);
-        trackSearch(query.trim(), total_results, {
+        const session = getSession(ctx);
+        trackSearch(q, total_results, {
           userId: session?.userId,
           pagePath: "/search",
         });
@@ -5,7 +5,7 @@ import {
   type SupportedRegion,
 } from "../../../lib/tmdb/client.ts";
 import { getUserRegion } from "../../../lib/region.ts";
-import { getSessionFromRequest } from "../../../lib/auth/middleware.ts";
+import { getSession } from "../../../lib/auth/middleware.ts";
 import {
   createBadRequestResponse,
   createInternalServerErrorResponse,
@@ -37,7 +37,7 @@ interface ProviderAvailabilityResponse {
  * Accepts an array of content items and returns their streaming availability
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
       const body: ProviderAvailabilityRequest = await req.json();
 
@@ -66,7 +66,7 @@ export const handler: Handlers = {
 
       // Get user region (checks preference first, then detects from headers)
       // Or use provided region from request body
-      const session = await getSessionFromRequest(req);
+      const session = getSession(ctx);
       const region = body.region ||
         (await getUserRegion(req, session)) || "US";
 
@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { verifyPassword } from "../../../lib/auth/password.ts";
 import { clearSessionCookie } from "../../../lib/auth/cookies.ts";
 import { query, transaction } from "../../../lib/db.ts";
@@ -13,7 +13,7 @@ interface UserRecord {
   id: string;
   email: string;
   password_hash: string | null;
-  google_id: string | null;
+  has_identity: boolean;
 }
 
 /**
@@ -24,16 +24,18 @@ interface UserRecord {
  * For OAuth-only accounts: requires email confirmation
  */
 export const handler: Handlers = {
-  async DELETE(req) {
+  async DELETE(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const { password, confirmEmail } = body;
 
       // Fetch user details to determine account type
       const users = await query<UserRecord>(
-        "SELECT id, email, password_hash, google_id FROM users WHERE id = $1",
+        `SELECT id, email, password_hash,
+           EXISTS (SELECT 1 FROM user_identities i WHERE i.user_id = users.id) AS has_identity
+         FROM users WHERE id = $1`,
         [session.userId],
       );
 
@@ -45,7 +47,7 @@ export const handler: Handlers = {
 
       // Determine account type and validate confirmation
       const hasPassword = !!user.password_hash;
-      const isOAuthOnly = !hasPassword && !!user.google_id;
+      const isOAuthOnly = !hasPassword && user.has_identity;
 
       if (hasPassword) {
         // Password-based account: require password confirmation
@@ -93,7 +95,8 @@ export const handler: Handlers = {
         }
       }
 
-      // Delete the user - CASCADE will remove all related data
+      // Delete the user - CASCADE will remove all related data, including
+      // sessions, so every device is signed out
       await transaction(async (client) => {
         await client.queryObject(
           "DELETE FROM users WHERE id = $1",
@@ -126,13 +129,15 @@ export const handler: Handlers = {
   /**
    * GET: Check account type to determine what confirmation is needed
    */
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Fetch user details
       const users = await query<UserRecord>(
-        "SELECT id, email, password_hash, google_id FROM users WHERE id = $1",
+        `SELECT id, email, password_hash,
+           EXISTS (SELECT 1 FROM user_identities i WHERE i.user_id = users.id) AS has_identity
+         FROM users WHERE id = $1`,
         [session.userId],
       );
 
@@ -142,7 +147,7 @@ export const handler: Handlers = {
 
       const user = users[0];
       const hasPassword = !!user.password_hash;
-      const isOAuthOnly = !hasPassword && !!user.google_id;
+      const isOAuthOnly = !hasPassword && user.has_identity;
 
       return new Response(
         JSON.stringify({
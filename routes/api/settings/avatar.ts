@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -18,9 +18,9 @@ const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
  * DELETE: Remove the current avatar
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Parse multipart form data
       const contentType = req.headers.get("content-type") || "";
@@ -95,9 +95,9 @@ export const handler: Handlers = {
     }
   },
 
-  async DELETE(req) {
+  async DELETE(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Remove user's avatar_url from database
       const result = await query<{ avatar_url: string | null }>(
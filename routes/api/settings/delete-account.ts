@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import { verifyPassword } from "../../../lib/auth/password.ts";
 import { clearSessionCookie } from "../../../lib/auth/cookies.ts";
@@ -21,11 +21,12 @@ import {
  * - password_reset_tokens
  * - email_verification_tokens
  * - dismissed_recommendations
+ * - sessions, which signs the user out on every device
  */
 export const handler: Handlers = {
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const { password } = body;
@@ -41,9 +42,11 @@ export const handler: Handlers = {
       // Fetch user's password hash
       const userResult = await query<{
         password_hash: string | null;
-        google_id: string | null;
+        has_identity: boolean;
       }>(
-        "SELECT password_hash, google_id FROM users WHERE id = $1",
+        `SELECT password_hash,
+           EXISTS (SELECT 1 FROM user_identities i WHERE i.user_id = users.id) AS has_identity
+         FROM users WHERE id = $1`,
         [session.userId],
       );
 
@@ -59,7 +62,7 @@ export const handler: Handlers = {
         // For now, we don't allow OAuth-only users to delete via password
         // They would need a different verification method (e.g., re-authentication)
         return createBadRequestResponse(
-          "Your account uses Google Sign-In and cannot be deleted with a password. Please contact support.",
+          "Your account signs in with a linked provider and cannot be deleted with a password. Please contact support.",
           "password",
         );
       }
@@ -1,95 +1,13 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
-import { isPremiumUser } from "../../../lib/auth/premium.ts";
-import { query } from "../../../lib/db.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import { getEntitlements } from "../../../lib/auth/entitlements.ts";
+import { type ExportData, getExportData } from "../../../lib/export.ts";
 import {
   createBadRequestResponse,
   createForbiddenResponse,
   createInternalServerErrorResponse,
 } from "../../../lib/api/errors.ts";
 
-interface UserProfile {
-  email: string;
-  display_name: string | null;
-  avatar_url: string | null;
-  created_at: Date;
-}
-
-interface UserContentItem {
-  tmdb_id: number;
-  content_type: string;
-  title: string;
-  status: string;
-  rating: number | null;
-  notes: string | null;
-  watched_at: Date | null;
-  added_at: Date;
-}
-
-interface ListItem {
-  list_name: string;
-  list_description: string | null;
-  is_public: boolean;
-  tmdb_id: number;
-  content_type: string;
-  title: string;
-  position: number;
-  added_at: Date;
-}
-
-interface Tag {
-  name: string;
-  colour: string;
-}
-
-interface ContentTag {
-  tag_name: string;
-  tmdb_id: number;
-  content_type: string;
-  title: string;
-}
-
-interface ExportData {
-  exportedAt: string;
-  profile: {
-    email: string;
-    displayName: string | null;
-    avatarUrl: string | null;
-    createdAt: string;
-  };
-  library: {
-    tmdbId: number;
-    contentType: string;
-    title: string;
-    status: string;
-    rating: number | null;
-    notes: string | null;
-    watchedAt: string | null;
-    addedAt: string;
-  }[];
-  lists: {
-    name: string;
-    description: string | null;
-    isPublic: boolean;
-    items: {
-      tmdbId: number;
-      contentType: string;
-      title: string;
-      position: number;
-      addedAt: string;
-    }[];
-  }[];
-  tags: {
-    name: string;
-    colour: string;
-    content: {
-      tmdbId: number;
-      contentType: string;
-      title: string;
-    }[];
-  }[];
-}
-
 /**
  * Convert export data to CSV format
  * Creates multiple sections for different data types
@@ -192,14 +110,14 @@ function toCSV(data: ExportData): string {
  * - Returns all user data in the specified format
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
-      // Check premium status
-      const isPremium = await isPremiumUser(userId);
-      if (!isPremium) {
+      // Check the user's plan includes data export
+      const { dataExport } = await getEntitlements(userId);
+      if (!dataExport) {
         return createForbiddenResponse(
           "Data export is a premium feature. Please upgrade to export your data.",
           "PREMIUM_REQUIRED",
@@ -217,171 +135,11 @@ export const handler: Handlers = {
         );
       }
 
-      // Fetch user profile
-      const profileResult = await query<UserProfile>(
-        `SELECT email, display_name, avatar_url, created_at
-         FROM users WHERE id = $1`,
-        [userId],
-      );
-
-      if (profileResult.length === 0) {
+      const exportData = await getExportData(userId);
+      if (!exportData) {
         return createInternalServerErrorResponse("User not found");
       }
 
-      const profile = profileResult[0];
-
-      // Fetch user library (user_content with content details)
-      const libraryResult = await query<UserContentItem>(
-        `SELECT 
-          c.tmdb_id,
-          c.type AS content_type,
-          c.title,
-          uc.status,
-          uc.rating,
-          uc.notes,
-          uc.watched_at,
-          uc.created_at AS added_at
-        FROM user_content uc
-        INNER JOIN content c ON uc.content_id = c.id
-        WHERE uc.user_id = $1
-        ORDER BY uc.created_at DESC`,
-        [userId],
-      );
-
-      // Fetch custom lists with their items
-      const listItemsResult = await query<ListItem>(
-        `SELECT 
-          l.name AS list_name,
-          l.description AS list_description,
-          l.is_public,
-          c.tmdb_id,
-          c.type AS content_type,
-          c.title,
-          li.position,
-          li.created_at AS added_at
-        FROM lists l
-        LEFT JOIN list_items li ON li.list_id = l.id
-        LEFT JOIN content c ON li.content_id = c.id
-        WHERE l.user_id = $1
-        ORDER BY l.name, li.position`,
-        [userId],
-      );
-
-      // Fetch tags
-      const tagsResult = await query<Tag>(
-        `SELECT name, colour FROM tags WHERE user_id = $1 ORDER BY name`,
-        [userId],
-      );
-
-      // Fetch content tagged by user
-      const contentTagsResult = await query<ContentTag>(
-        `SELECT 
-          t.name AS tag_name,
-          c.tmdb_id,
-          c.type AS content_type,
-          c.title
-        FROM content_tags ct
-        INNER JOIN tags t ON ct.tag_id = t.id
-        INNER JOIN content c ON ct.content_id = c.id
-        WHERE t.user_id = $1
-        ORDER BY t.name, c.title`,
-        [userId],
-      );
-
-      // Build lists structure
-      const listsMap = new Map<
-        string,
-        {
-          name: string;
-          description: string | null;
-          isPublic: boolean;
-          items: {
-            tmdbId: number;
-            contentType: string;
-            title: string;
-            position: number;
-            addedAt: string;
-          }[];
-        }
-      >();
-
-      for (const item of listItemsResult) {
-        if (!listsMap.has(item.list_name)) {
-          listsMap.set(item.list_name, {
-            name: item.list_name,
-            description: item.list_description,
-            isPublic: item.is_public,
-            items: [],
-          });
-        }
-
-        // Only add item if it has content (not an empty list)
-        if (item.tmdb_id !== null) {
-          listsMap.get(item.list_name)!.items.push({
-            tmdbId: item.tmdb_id,
-            contentType: item.content_type,
-            title: item.title,
-            position: item.position,
-            addedAt: item.added_at.toISOString(),
-          });
-        }
-      }
-
-      // Build tags structure with their content
-      const tagsMap = new Map<
-        string,
-        {
-          name: string;
-          colour: string;
-          content: {
-            tmdbId: number;
-            contentType: string;
-            title: string;
-          }[];
-        }
-      >();
-
-      for (const tag of tagsResult) {
-        tagsMap.set(tag.name, {
-          name: tag.name,
-          colour: tag.colour,
-          content: [],
-        });
-      }
-
-      for (const item of contentTagsResult) {
-        if (tagsMap.has(item.tag_name)) {
-          tagsMap.get(item.tag_name)!.content.push({
-            tmdbId: item.tmdb_id,
-            contentType: item.content_type,
-            title: item.title,
-          });
-        }
-      }
-
-      // Build export data
-      const exportData: ExportData = {
-        exportedAt: new Date().toISOString(),
-        profile: {
-          email: profile.email,
-          displayName: profile.display_name,
-          avatarUrl: profile.avatar_url,
-          createdAt: profile.created_at.toISOString(),
-        },
-        library: libraryResult.map((item) => ({
-          tmdbId: item.tmdb_id,
-          contentType: item.content_type,
-          title: item.title,
-          status: item.status,
-          rating: item.rating,
-          notes: item.notes,
-          watchedAt: item.watched_at?.toISOString() || null,
-          addedAt: item.added_at.toISOString(),
-        })),
-        lists: Array.from(listsMap.values()),
-        tags: Array.from(tagsMap.values()),
-      };
-
       // Return in requested format
       if (format === "csv") {
         const csv = toCSV(exportData);
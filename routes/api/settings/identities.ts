@@ -0,0 +1,39 @@
+import { type Handlers } from "$fresh/server.ts";
+import { createInternalServerErrorResponse } from "../../../lib/api/errors.ts";
+import { listIdentities } from "../../../lib/auth/identities.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import { getConfiguredProviders } from "../../../lib/auth/oidc.ts";
+
+/**
+ * API endpoint for the sign-in providers linked to the user's account
+ *
+ * GET /api/settings/identities
+ * - Lists linked identities, oldest first, and the providers that can be
+ *   linked. To link one, send the user to /api/auth/:provider?link=true
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const identities = await listIdentities(session.userId);
+      const providers = getConfiguredProviders().map(({ id, name }) => ({
+        id,
+        name,
+      }));
+
+      return new Response(JSON.stringify({ identities, providers }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load linked accounts",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,71 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createErrorResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import {
+  canSignInWithout,
+  unlinkIdentity,
+} from "../../../../lib/auth/identities.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for one of the user's linked sign-in providers
+ *
+ * DELETE /api/settings/identities/:identity_id
+ * - Unlinks the provider; signing in with it afterwards creates a new
+ *   account unless the email matches. Refused with 409 if the user would be
+ *   left with no way to sign in (no password, passkey or other provider).
+ */
+export const handler: Handlers = {
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Sign-in providers can't be unlinked while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const { identity_id } = ctx.params;
+      if (!UUID_REGEX.test(identity_id)) {
+        return createNotFoundResponse("Linked account not found");
+      }
+
+      if (!(await canSignInWithout(session.userId, identity_id))) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "This is your only way to sign in. Add a passkey or link another provider first.",
+        );
+      }
+
+      if (!(await unlinkIdentity(identity_id, session.userId))) {
+        return createNotFoundResponse("Linked account not found");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to unlink account",
+        req,
+        error,
+      );
+    }
+  },
+};
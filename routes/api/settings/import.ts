@@ -0,0 +1,195 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import {
+  type ImportFormat,
+  type ImportRow,
+  isImportFormat,
+  parseImportFile,
+  type UnmatchedRow,
+} from "../../../lib/import/formats.ts";
+import { importRows, MAX_IMPORT_ROWS } from "../../../lib/import/importer.ts";
+
+// Maximum upload size: 5MB
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const VALID_STATUSES = ["watched", "to_watch", "favourite"];
+
+/**
+ * Validate a manually fixed row resubmitted by the client
+ *
+ * @returns Normalised row, or an error message if invalid
+ */
+function validateFixedRow(value: unknown): ImportRow | string {
+  if (!value || typeof value !== "object") {
+    return "Each row must be an object";
+  }
+
+  const row = value as Partial<ImportRow>;
+
+  if (
+    typeof row.tmdb_id !== "number" || !Number.isInteger(row.tmdb_id) ||
+    row.tmdb_id <= 0
+  ) {
+    return "tmdb_id must be a positive integer";
+  }
+  if (row.content_type !== "movie" && row.content_type !== "tv") {
+    return "content_type must be 'movie' or 'tv'";
+  }
+  if (!row.status || !VALID_STATUSES.includes(row.status)) {
+    return `status must be one of: ${VALID_STATUSES.join(", ")}`;
+  }
+  if (
+    row.rating !== null && row.rating !== undefined &&
+    (typeof row.rating !== "number" || row.rating < 0 || row.rating > 10)
+  ) {
+    return "rating must be a number between 0 and 10";
+  }
+
+  return {
+    row: typeof row.row === "number" ? row.row : 0,
+    title: typeof row.title === "string" ? row.title : "",
+    year: typeof row.year === "number" ? row.year : null,
+    content_type: row.content_type,
+    tmdb_id: row.tmdb_id,
+    imdb_id: null,
+    status: row.status,
+    rating: row.rating ?? null,
+    notes: typeof row.notes === "string" ? row.notes : null,
+    watched_at: typeof row.watched_at === "string" &&
+        !isNaN(new Date(row.watched_at).getTime())
+      ? row.watched_at
+      : null,
+  };
+}
+
+/**
+ * API endpoint for importing a library from other services
+ *
+ * POST /api/settings/import
+ * - multipart/form-data with `file` (Letterboxd CSV, IMDb CSV or StreamOwl
+ *   JSON export) and optional `format` to override detection
+ * - application/json with `{ rows: ImportRow[] }` to resubmit unmatched rows
+ *   after the user has supplied a TMDB ID
+ *
+ * Returns import counts and the rows that could not be matched.
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const contentType = req.headers.get("content-type") || "";
+
+      let format: ImportFormat | null = null;
+      let rows: ImportRow[];
+      let skipped: UnmatchedRow[] = [];
+
+      if (contentType.includes("application/json")) {
+        let body: { rows?: unknown };
+        try {
+          body = await req.json();
+        } catch {
+          return createBadRequestResponse("Invalid JSON body");
+        }
+
+        if (!Array.isArray(body.rows) || body.rows.length === 0) {
+          return createBadRequestResponse(
+            "rows must be a non-empty array",
+            "rows",
+          );
+        }
+        if (body.rows.length > MAX_IMPORT_ROWS) {
+          return createBadRequestResponse(
+            `A maximum of ${MAX_IMPORT_ROWS} rows can be imported at once`,
+            "rows",
+          );
+        }
+
+        rows = [];
+        for (const value of body.rows) {
+          const row = validateFixedRow(value);
+          if (typeof row === "string") {
+            return createBadRequestResponse(row, "rows");
+          }
+          rows.push(row);
+        }
+      } else if (contentType.includes("multipart/form-data")) {
+        const formData = await req.formData();
+        const file = formData.get("file");
+        const requestedFormat = formData.get("format");
+
+        if (!file || !(file instanceof File)) {
+          return createBadRequestResponse("No import file provided", "file");
+        }
+        if (file.size > MAX_FILE_SIZE) {
+          return createBadRequestResponse(
+            "File too large. Maximum size is 5MB",
+            "file",
+          );
+        }
+        if (requestedFormat && !isImportFormat(requestedFormat)) {
+          return createBadRequestResponse("Invalid import format", "format");
+        }
+
+        let parsed;
+        try {
+          parsed = parseImportFile(await file.text(), {
+            filename: file.name,
+            format: requestedFormat
+              ? requestedFormat as ImportFormat
+              : undefined,
+          });
+        } catch (error) {
+          return createBadRequestResponse(
+            error instanceof Error ? error.message : "Could not read file",
+            "file",
+          );
+        }
+
+        if (parsed.rows.length > MAX_IMPORT_ROWS) {
+          return createBadRequestResponse(
+            `File contains ${parsed.rows.length} titles. A maximum of ${MAX_IMPORT_ROWS} can be imported at once`,
+            "file",
+          );
+        }
+
+        format = parsed.format;
+        rows = parsed.rows;
+        skipped = parsed.skipped;
+      } else {
+        return createBadRequestResponse(
+          "Request must be multipart/form-data or application/json",
+          "contentType",
+        );
+      }
+
+      const result = await importRows(session.userId, rows);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          format,
+          total: result.total + skipped.length,
+          imported: result.imported,
+          unmatched: [...skipped, ...result.unmatched],
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to import library",
+        req,
+        error,
+      );
+    }
+  },
+};
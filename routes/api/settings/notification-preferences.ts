@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -39,9 +39,9 @@ export const handler: Handlers = {
   /**
    * Get the user's notification preferences
    */
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Fetch user preferences from database
       const result = await query<
@@ -89,9 +89,9 @@ export const handler: Handlers = {
   /**
    * Update the user's notification preferences
    */
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const { notification_types } = body as {
@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -19,9 +19,9 @@ interface NotificationPreferences {
  * POST: Update user's notification preferences
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Fetch user preferences
       const result = await query<{ preferences: Record<string, unknown> }>(
@@ -60,9 +60,9 @@ export const handler: Handlers = {
     }
   },
 
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const {
@@ -0,0 +1,137 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  consumePasskeyChallenge,
+  findPasskey,
+  getRelyingParty,
+  listPasskeys,
+  savePasskey,
+} from "../../../lib/auth/passkeys.ts";
+import { describeUserAgent } from "../../../lib/auth/user-agent.ts";
+import {
+  type RegistrationResponseJSON,
+  verifyRegistrationResponse,
+} from "../../../lib/auth/webauthn.ts";
+
+/**
+ * API endpoint for the user's passkeys
+ *
+ * GET /api/settings/passkeys
+ * - Lists passkeys, newest first
+ *
+ * POST /api/settings/passkeys
+ * - Body: { challengeId, credential, name? }, after
+ *   POST /api/settings/passkeys/options; credential is the
+ *   navigator.credentials.create() response with binary fields base64url
+ *   encoded
+ * - Saves the passkey, named after the device unless a name is given
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const passkeys = await listPasskeys(session.userId);
+
+      return new Response(JSON.stringify({ passkeys }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load passkeys",
+        req,
+        error,
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Passkeys can't be added while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const body = await req.json().catch(() => ({}));
+      const { challengeId, credential, name } = body as {
+        challengeId?: unknown;
+        credential?: RegistrationResponseJSON;
+        name?: unknown;
+      };
+      if (
+        typeof challengeId !== "string" ||
+        typeof credential?.rawId !== "string" ||
+        typeof credential.response !== "object"
+      ) {
+        return createBadRequestResponse("Passkey response is required");
+      }
+
+      const challenge = await consumePasskeyChallenge(
+        challengeId,
+        "registration",
+        session.userId,
+      );
+      if (!challenge) {
+        return createBadRequestResponse(
+          "Adding the passkey timed out. Please try again.",
+        );
+      }
+
+      let registration;
+      try {
+        registration = await verifyRegistrationResponse(
+          credential,
+          challenge,
+          getRelyingParty(req),
+        );
+      } catch (error) {
+        return createBadRequestResponse(
+          error instanceof Error ? error.message : "Could not add passkey",
+        );
+      }
+
+      if (await findPasskey(registration.credentialId)) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "This passkey has already been added",
+        );
+      }
+
+      const passkeyName = typeof name === "string" && name.trim()
+        ? name.trim()
+        : describeUserAgent(req.headers.get("User-Agent"));
+      const passkey = await savePasskey(
+        session.userId,
+        registration,
+        passkeyName,
+      );
+
+      return new Response(JSON.stringify({ passkey }), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to add passkey",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,58 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { deletePasskey } from "../../../../lib/auth/passkeys.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for one of the user's passkeys
+ *
+ * DELETE /api/settings/passkeys/:passkey_id
+ * - Removes the passkey; it can't be used to sign in again. The copy on the
+ *   device stays until the user deletes it there.
+ */
+export const handler: Handlers = {
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Passkeys can't be removed while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const { passkey_id } = ctx.params;
+      if (!UUID_REGEX.test(passkey_id)) {
+        return createNotFoundResponse("Passkey not found");
+      }
+
+      if (!(await deletePasskey(passkey_id, session.userId))) {
+        return createNotFoundResponse("Passkey not found");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to remove passkey",
+        req,
+        error,
+      );
+    }
+  },
+};
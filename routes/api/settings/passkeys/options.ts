@@ -0,0 +1,75 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  buildRegistrationOptions,
+  createPasskeyChallenge,
+  getRelyingParty,
+  listPasskeyCredentials,
+} from "../../../../lib/auth/passkeys.ts";
+import { query } from "../../../../lib/db.ts";
+
+/**
+ * API endpoint to start adding a passkey
+ *
+ * POST /api/settings/passkeys/options
+ * - Returns { challengeId, publicKey }, where publicKey is the options for
+ *   navigator.credentials.create() with binary fields base64url encoded
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Passkeys can't be added while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const users = await query<{ display_name: string | null }>(
+        "SELECT display_name FROM users WHERE id = $1",
+        [session.userId],
+      );
+      const { id, challenge } = await createPasskeyChallenge(
+        "registration",
+        session.userId,
+      );
+
+      return new Response(
+        JSON.stringify({
+          challengeId: id,
+          publicKey: buildRegistrationOptions(
+            getRelyingParty(req),
+            {
+              id: session.userId,
+              email: session.email,
+              displayName: users[0]?.display_name ?? null,
+            },
+            challenge,
+            await listPasskeyCredentials(session.userId),
+          ),
+        }),
+        {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to start adding a passkey",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -18,9 +18,9 @@ interface UserProfile {
  * POST: Update user's profile (display_name only - email and avatar via other endpoints)
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Fetch user profile
       const result = await query<UserProfile>(
@@ -53,9 +53,9 @@ export const handler: Handlers = {
     }
   },
 
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const { displayName } = body;
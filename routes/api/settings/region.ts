@@ -1,5 +1,5 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
 import { query } from "../../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -14,9 +14,9 @@ import { isSupportedRegion } from "../../../lib/region.ts";
  * POST: Update user's region preference
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       // Fetch user preferences
       const result = await query<{ preferences: Record<string, unknown> }>(
@@ -50,9 +50,9 @@ export const handler: Handlers = {
     }
   },
 
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
       const body = await req.json();
       const { region } = body;
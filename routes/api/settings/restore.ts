@@ -0,0 +1,91 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import type { ExportData } from "../../../lib/export.ts";
+import { validateExportData } from "../../../lib/import/restore-diff.ts";
+import { restoreExportData } from "../../../lib/import/restore.ts";
+
+// Maximum body size: 5MB (matches /api/settings/import)
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+/**
+ * API endpoint for restoring a StreamOwl JSON export
+ *
+ * POST /api/settings/restore?mode=merge|replace&dry_run=true|false
+ * - Body is the JSON document produced by GET /api/settings/export?format=json
+ * - mode=merge (default) keeps data that isn't in the export; mode=replace
+ *   makes the library, lists and tags match the export exactly
+ * - dry_run=true returns the diff without writing anything
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+
+      const url = new URL(req.url);
+      const mode = url.searchParams.get("mode") || "merge";
+      const dryRun = url.searchParams.get("dry_run") === "true";
+
+      if (mode !== "merge" && mode !== "replace") {
+        return createBadRequestResponse(
+          "Invalid mode. Use 'merge' or 'replace'.",
+          "mode",
+        );
+      }
+
+      const contentLength = parseInt(
+        req.headers.get("content-length") || "0",
+        10,
+      );
+      if (contentLength > MAX_BODY_SIZE) {
+        return createBadRequestResponse(
+          "Export too large. Maximum size is 5MB",
+        );
+      }
+
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return createBadRequestResponse("Invalid JSON body");
+      }
+
+      let data: ExportData;
+      try {
+        data = validateExportData(body);
+      } catch (error) {
+        return createBadRequestResponse(
+          error instanceof Error ? error.message : "Invalid export document",
+        );
+      }
+
+      const result = await restoreExportData(session.userId, data, {
+        mode,
+        dryRun,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          ...result,
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to restore export",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,91 @@
+import { type Handlers } from "$fresh/server.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  createBadRequestResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import {
+  DEFAULT_REGION,
+  getUserRegionPreference,
+} from "../../../lib/region.ts";
+import {
+  listUserStreamingServices,
+  setUserServices,
+} from "../../../lib/streaming/user-services.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for managing the streaming services a user subscribes to
+ * GET: List streaming services, with the user's own marked as selected
+ * POST: Replace the user's services
+ *
+ * Services apply in the user's preferred region (or the default region if
+ * they haven't chosen one).
+ */
+export const handler: Handlers = {
+  async GET(_req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const region = await getUserRegionPreference(session.userId) ??
+        DEFAULT_REGION;
+
+      const services = await listUserStreamingServices(
+        session.userId,
+        region,
+      );
+
+      return new Response(JSON.stringify({ region, services }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      console.error("Error fetching streaming services:", error);
+      return createInternalServerErrorResponse(
+        "Failed to fetch streaming services",
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+
+      const body = await req.json();
+      const { service_ids } = body;
+
+      if (
+        !Array.isArray(service_ids) ||
+        !service_ids.every((id) =>
+          typeof id === "string" && UUID_REGEX.test(id)
+        )
+      ) {
+        return createBadRequestResponse(
+          "service_ids must be an array of service IDs",
+          "service_ids",
+        );
+      }
+
+      const serviceIds = await setUserServices(session.userId, service_ids);
+
+      return new Response(
+        JSON.stringify({ success: true, service_ids: serviceIds }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      console.error("Error updating streaming services:", error);
+      return createInternalServerErrorResponse(
+        "Failed to update streaming services",
+      );
+    }
+  },
+};
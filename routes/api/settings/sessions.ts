@@ -0,0 +1,90 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+} from "../../../lib/api/errors.ts";
+import { clearSessionCookie } from "../../../lib/auth/cookies.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  listActiveSessions,
+  revokeAllSessions,
+} from "../../../lib/auth/sessions.ts";
+import { forgetTrustedDevices } from "../../../lib/auth/two-factor.ts";
+import { describeUserAgent } from "../../../lib/auth/user-agent.ts";
+
+/**
+ * API endpoint for the user's signed-in devices
+ *
+ * GET /api/settings/sessions
+ * - Lists active sessions, most recently seen first, marking the current one
+ *
+ * DELETE /api/settings/sessions
+ * - Signs out everywhere, including this device, and forgets devices that
+ *   skip two-factor sign-in
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const sessions = await listActiveSessions(session.userId);
+
+      return new Response(
+        JSON.stringify({
+          sessions: sessions.map((row) => ({
+            id: row.id,
+            device: describeUserAgent(row.user_agent),
+            ip_address: row.ip_address,
+            created_at: row.created_at,
+            last_seen_at: row.last_seen_at,
+            current: row.id === session.sessionId,
+          })),
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load sessions",
+        req,
+        error,
+      );
+    }
+  },
+
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Sessions can't be signed out while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const revoked = await revokeAllSessions(session.userId);
+      await forgetTrustedDevices(session.userId);
+
+      const headers = new Headers({ "Content-Type": "application/json" });
+      clearSessionCookie(headers);
+
+      return new Response(
+        JSON.stringify({ success: true, revoked }),
+        { status: 200, headers },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to sign out everywhere",
+        req,
+        error,
+      );
+    }
+  },
+};
@@ -0,0 +1,65 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createNotFoundResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import { revokeSession } from "../../../../lib/auth/sessions.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * API endpoint for signing out one of the user's devices
+ *
+ * DELETE /api/settings/sessions/:session_id
+ * - Revokes the session; its token stops working on the next request
+ * - Use /api/logout to sign out of the current device
+ */
+export const handler: Handlers = {
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Sessions can't be signed out while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const { session_id } = ctx.params;
+
+      if (!UUID_REGEX.test(session_id)) {
+        return createNotFoundResponse("Session not found");
+      }
+      if (session_id === session.sessionId) {
+        return createBadRequestResponse(
+          "Use sign out to end the current session",
+        );
+      }
+
+      if (!(await revokeSession(session_id, session.userId))) {
+        return createNotFoundResponse("Session not found");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to sign out device",
+        req,
+        error,
+      );
+    }
+  },
+};
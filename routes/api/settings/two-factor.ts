@@ -0,0 +1,182 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createTooManyRequestsResponse,
+  createUnauthorizedResponse,
+} from "../../../lib/api/errors.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import { verifyPassword } from "../../../lib/auth/password.ts";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorAttemptsKey,
+  getTwoFactorStatus,
+  verifySecondFactor,
+} from "../../../lib/auth/two-factor.ts";
+import { query } from "../../../lib/db.ts";
+import {
+  checkRateLimit,
+  clearFailedAttempts,
+  recordFailedAttempt,
+} from "../../../lib/security/rate-limit.ts";
+
+/**
+ * API endpoint for two-factor authentication settings
+ *
+ * GET /api/settings/two-factor
+ * - Whether it's on, whether the account can use it, and how many recovery
+ *   codes are left
+ *
+ * POST /api/settings/two-factor
+ * - Body: { code } from the app, after POST /api/settings/two-factor/setup
+ * - Turns it on and returns the recovery codes, which are only shown once
+ *
+ * DELETE /api/settings/two-factor
+ * - Body: { password, code }, where code is from the app or a recovery code
+ * - Turns it off
+ *
+ * Changes are refused while impersonating, so support staff can't lock a
+ * user out of their account.
+ */
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      const status = await getTwoFactorStatus(session.userId);
+
+      return new Response(JSON.stringify(status), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to load two-factor settings",
+        req,
+        error,
+      );
+    }
+  },
+
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Two-factor settings can't be changed while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const body = await req.json().catch(() => ({}));
+      const code = typeof body.code === "string" ? body.code.trim() : "";
+      if (!code) {
+        return createBadRequestResponse(
+          "Verification code is required",
+          "code",
+        );
+      }
+
+      const recoveryCodes = await enableTwoFactor(session.userId, code);
+      if (!recoveryCodes) {
+        return createBadRequestResponse(
+          "That code didn't match. Check your app and try again.",
+          "code",
+        );
+      }
+
+      return new Response(JSON.stringify({ recoveryCodes }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to turn on two-factor authentication",
+        req,
+        error,
+      );
+    }
+  },
+
+  async DELETE(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Two-factor settings can't be changed while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const body = await req.json().catch(() => ({}));
+      const { password, code } = body;
+      if (!password || typeof password !== "string") {
+        return createBadRequestResponse("Password is required", "password");
+      }
+      if (!code || typeof code !== "string") {
+        return createBadRequestResponse(
+          "Verification code is required",
+          "code",
+        );
+      }
+
+      const attemptsKey = getTwoFactorAttemptsKey(session.userId);
+      const rateLimit = await checkRateLimit(attemptsKey);
+      if (rateLimit.isBlocked) {
+        return createTooManyRequestsResponse(
+          "Too many failed verification attempts. Please try again later.",
+          rateLimit.remainingSeconds,
+        );
+      }
+
+      const users = await query<{ password_hash: string | null }>(
+        "SELECT password_hash FROM users WHERE id = $1",
+        [session.userId],
+      );
+      const passwordHash = users[0]?.password_hash;
+      if (!passwordHash || !(await verifyPassword(password, passwordHash))) {
+        await recordFailedAttempt(attemptsKey);
+        return createUnauthorizedResponse("Incorrect password");
+      }
+
+      const status = await getTwoFactorStatus(session.userId);
+      if (!status.enabled) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "Two-factor authentication is already off",
+        );
+      }
+
+      if (!(await verifySecondFactor(session.userId, code.trim()))) {
+        await recordFailedAttempt(attemptsKey);
+        return createUnauthorizedResponse("Invalid verification code");
+      }
+
+      await clearFailedAttempts(attemptsKey);
+      await disableTwoFactor(session.userId);
+
+      return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to turn off two-factor authentication",
+        req,
+        error,
+      );
+    }
+  },
+};
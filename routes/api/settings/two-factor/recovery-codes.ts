@@ -0,0 +1,92 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createBadRequestResponse,
+  createErrorResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+  createTooManyRequestsResponse,
+  createUnauthorizedResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  getTwoFactorAttemptsKey,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "../../../../lib/auth/two-factor.ts";
+import {
+  checkRateLimit,
+  clearFailedAttempts,
+  recordFailedAttempt,
+} from "../../../../lib/security/rate-limit.ts";
+
+/**
+ * API endpoint to replace recovery codes
+ *
+ * POST /api/settings/two-factor/recovery-codes
+ * - Body: { code } from the app or an existing recovery code
+ * - Returns a new set of codes; the old ones stop working
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Two-factor settings can't be changed while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const body = await req.json().catch(() => ({}));
+      const code = typeof body.code === "string" ? body.code.trim() : "";
+      if (!code) {
+        return createBadRequestResponse(
+          "Verification code is required",
+          "code",
+        );
+      }
+
+      if (!(await isTwoFactorEnabled(session.userId))) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "Two-factor authentication is off",
+        );
+      }
+
+      const attemptsKey = getTwoFactorAttemptsKey(session.userId);
+      const rateLimit = await checkRateLimit(attemptsKey);
+      if (rateLimit.isBlocked) {
+        return createTooManyRequestsResponse(
+          "Too many failed verification attempts. Please try again later.",
+          rateLimit.remainingSeconds,
+        );
+      }
+
+      if (!(await verifySecondFactor(session.userId, code))) {
+        await recordFailedAttempt(attemptsKey);
+        return createUnauthorizedResponse("Invalid verification code");
+      }
+      await clearFailedAttempts(attemptsKey);
+
+      const recoveryCodes = await regenerateRecoveryCodes(session.userId);
+      return new Response(JSON.stringify({ recoveryCodes }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to replace recovery codes",
+        req,
+        error,
+      );
+    }
+  },
+};
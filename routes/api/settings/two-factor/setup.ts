@@ -0,0 +1,68 @@
+import { type Handlers } from "$fresh/server.ts";
+import {
+  createErrorResponse,
+  createForbiddenResponse,
+  createInternalServerErrorResponse,
+} from "../../../../lib/api/errors.ts";
+import { requireAuth } from "../../../../lib/auth/middleware.ts";
+import {
+  beginTwoFactorSetup,
+  getTwoFactorStatus,
+} from "../../../../lib/auth/two-factor.ts";
+
+/**
+ * API endpoint to start setting up two-factor authentication
+ *
+ * POST /api/settings/two-factor/setup
+ * - Creates a new secret and returns it with its otpauth:// URI, for the
+ *   user to scan or type into their authenticator app. It isn't used for
+ *   sign-in until confirmed with POST /api/settings/two-factor.
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    try {
+      const session = requireAuth(ctx);
+      if (session.impersonatorId) {
+        return createForbiddenResponse(
+          "Two-factor settings can't be changed while impersonating",
+          "IMPERSONATING",
+        );
+      }
+
+      const status = await getTwoFactorStatus(session.userId);
+      if (!status.available) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "Set a password before turning on two-factor authentication",
+        );
+      }
+
+      const setup = await beginTwoFactorSetup(session.userId, session.email);
+      if (!setup) {
+        return createErrorResponse(
+          409,
+          "Conflict",
+          "Two-factor authentication is already on",
+        );
+      }
+
+      return new Response(JSON.stringify(setup), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      if (error instanceof Response) {
+        return error;
+      }
+      return createInternalServerErrorResponse(
+        "Failed to start two-factor setup",
+        req,
+        error,
+      );
+    }
+  },
+};
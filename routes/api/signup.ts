@@ -1,7 +1,7 @@
 import { type Handlers } from "$fresh/server.ts";
 import { query, transaction } from "../../lib/db.ts";
 import { hashPassword } from "../../lib/auth/password.ts";
-import { createSessionToken } from "../../lib/auth/jwt.ts";
+import { startSession } from "../../lib/auth/sessions.ts";
 import { setSessionCookie } from "../../lib/auth/cookies.ts";
 import {
   createCsrfErrorResponse,
@@ -49,7 +49,7 @@ export const handler: Handlers = {
 
       // Check rate limit before processing signup
       const clientIp = getClientIp(req);
-      const rateLimitCheck = checkRateLimit(clientIp);
+      const rateLimitCheck = await checkRateLimit(clientIp);
       if (rateLimitCheck.isBlocked) {
         return createTooManyRequestsResponse(
           "Too many signup attempts. Please try again later.",
@@ -84,7 +84,7 @@ export const handler: Handlers = {
 
       if (existingUsers.length > 0) {
         // Record failed attempt for duplicate email (potential abuse)
-        recordFailedAttempt(clientIp);
+        await recordFailedAttempt(clientIp);
         return createErrorResponse(
           409,
           "Conflict",
@@ -108,11 +108,11 @@ export const handler: Handlers = {
         return result.rows[0];
       });
 
-      // Create session token
-      const token = await createSessionToken(newUser.id, newUser.email);
+      // Start a session for this device
+      const token = await startSession(req, newUser);
 
       // Clear failed attempts on successful signup
-      clearFailedAttempts(clientIp);
+      await clearFailedAttempts(clientIp);
 
       // Send email verification
       const baseUrl = new URL(req.url).origin;
@@ -121,7 +121,12 @@ export const handler: Handlers = {
         baseUrl,
         verificationToken,
       );
-      sendVerificationEmail(newUser.email, verificationUrl);
+      // The account is usable without it, and it can be resent from settings
+      try {
+        await sendVerificationEmail(newUser.email, verificationUrl);
+      } catch (error) {
+        console.error("Failed to send verification email:", error);
+      }
 
       // Set session cookie and redirect to dashboard
       const headers = new Headers();
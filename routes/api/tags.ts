@@ -1,7 +1,7 @@
 import { type Handlers } from "$fresh/server.ts";
 import { handleConditionalRequest } from "../../lib/api/caching.ts";
 import { CachePresets } from "../../lib/api/caching.ts";
-import { requireAuthForApi } from "../../lib/auth/middleware.ts";
+import { requireAuth } from "../../lib/auth/middleware.ts";
 import { query } from "../../lib/db.ts";
 import {
   createBadRequestResponse,
@@ -26,10 +26,9 @@ interface Tag {
  * - Requires: name (string), colour (string, optional, defaults to #3B82F6)
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Fetch user's tags
@@ -52,10 +51,9 @@ export const handler: Handlers = {
     }
   },
 
-  async POST(req) {
+  async POST(req, ctx) {
     try {
-      // Require authentication
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
       const userId = session.userId;
 
       // Parse request body
@@ -1,25 +1,31 @@
 import { type Handlers } from "$fresh/server.ts";
-import { requireAuthForApi } from "../../../lib/auth/middleware.ts";
-import { isPremiumUser } from "../../../lib/auth/premium.ts";
+import { requireAuth } from "../../../lib/auth/middleware.ts";
+import {
+  type Entitlements,
+  getEntitlements,
+} from "../../../lib/auth/entitlements.ts";
 import { createInternalServerErrorResponse } from "../../../lib/api/errors.ts";
 
 interface PremiumStatusResponse {
   isPremium: boolean;
+  entitlements: Entitlements;
 }
 
 /**
  * API endpoint to check if user has premium status
- * Premium status is stored in user preferences as preferences.premium = true
+ * Premium comes from an active subscription or complimentary premium (see
+ * lib/auth/entitlements.ts)
  */
 export const handler: Handlers = {
-  async GET(req) {
+  async GET(_req, ctx) {
     try {
-      const session = await requireAuthForApi(req);
+      const session = requireAuth(ctx);
 
-      const isPremium = await isPremiumUser(session.userId);
+      const entitlements = await getEntitlements(session.userId);
 
       const response: PremiumStatusResponse = {
-        isPremium,
+        isPremium: entitlements.plan === "premium",
+        entitlements,
       };
 
       return new Response(JSON.stringify(response), {
@@ -1,32 +1,41 @@
 import { Head } from "$fresh/runtime.ts";
 import { type PageProps } from "$fresh/server.ts";
 import BrowsePage from "../islands/BrowsePage.tsx";
+import {
+  DEFAULT_BROWSE_FILTERS,
+  parseBrowseFilters,
+} from "../lib/browse/filters.ts";
 
 /**
  * Browse page route
- * Displays trending content and other browse sections
+ * Displays a filterable catalogue; filters are read from the URL so links
+ * to a filtered view can be shared
  */
-export default function Browse(_props: PageProps) {
+export default function Browse(props: PageProps) {
+  // Invalid filters in a shared link fall back to the default catalogue
+  const initialFilters = parseBrowseFilters(props.url.searchParams).filters ??
+    DEFAULT_BROWSE_FILTERS;
+
   return (
     <>
       <Head>
         <title>Browse Movies & TV Shows - Stream Owl</title>
         <meta
           name="description"
-          content="Browse trending movies, TV shows, new releases, and content leaving streaming services soon. Find what to watch next."
+          content="Browse movies and TV shows by genre, year, rating and streaming service, plus new releases and content leaving streaming services soon. Find what to watch next."
         />
         <meta property="og:title" content="Browse Movies & TV Shows - Stream Owl" />
-        <meta property="og:description" content="Browse trending movies, TV shows, new releases, and content leaving streaming services soon. Find what to watch next." />
+        <meta property="og:description" content="Browse movies and TV shows by genre, year, rating and streaming service, plus new releases and content leaving streaming services soon. Find what to watch next." />
         <meta property="og:type" content="website" />
         <meta property="og:site_name" content="Stream Owl" />
         <meta name="twitter:card" content="summary" />
         <meta name="twitter:title" content="Browse Movies & TV Shows - Stream Owl" />
-        <meta name="twitter:description" content="Browse trending movies, TV shows, new releases, and content leaving streaming services soon. Find what to watch next." />
+        <meta name="twitter:description" content="Browse movies and TV shows by genre, year, rating and streaming service, plus new releases and content leaving streaming services soon. Find what to watch next." />
       </Head>
       <div class="min-h-screen bg-gray-50">
         <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <h1 class="text-3xl font-bold text-gray-900 mb-8">Browse</h1>
-          <BrowsePage />
+          <BrowsePage initialFilters={initialFilters} />
         </div>
       </div>
     </>
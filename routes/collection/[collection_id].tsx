@@ -0,0 +1,284 @@
+import { Head } from "$fresh/runtime.ts";
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
+import {
+  type CollectionDetails,
+  getCollectionDetails,
+} from "../../lib/tmdb/client.ts";
+import { getLibraryStatuses } from "../../lib/content.ts";
+import {
+  type CollectionProgress,
+  getCollectionProgress,
+  isReleased,
+  orderCollectionParts,
+} from "../../lib/collections/progress.ts";
+import {
+  getBackdropSrcSet,
+  getBackdropUrl,
+  getPosterSrcSet,
+  getPosterUrl,
+} from "../../lib/images.ts";
+import WatchInOrderButton from "../../islands/WatchInOrderButton.tsx";
+
+type LibraryStatus = "watched" | "to_watch" | "favourite";
+
+interface CollectionPageProps {
+  collection: CollectionDetails;
+  libraryStatuses: Record<number, LibraryStatus>;
+  progress: CollectionProgress | null;
+  isAuthenticated: boolean;
+  today: string;
+  canonicalUrl: string;
+}
+
+const STATUS_LABELS: Record<LibraryStatus, { label: string; class: string }> = {
+  watched: { label: "Watched", class: "bg-green-600 text-white" },
+  to_watch: { label: "Watchlist", class: "bg-indigo-600 text-white" },
+  favourite: { label: "Favourite", class: "bg-pink-600 text-white" },
+};
+
+/**
+ * Collection page route handler
+ * Fetches a franchise from TMDB with its movies in release order, and the
+ * viewer's progress through it
+ */
+export const handler: Handlers<CollectionPageProps> = {
+  async GET(req, ctx) {
+    const collectionId = parseInt(ctx.params.collection_id, 10);
+
+    if (!Number.isInteger(collectionId) || collectionId <= 0) {
+      return new Response("Invalid collection ID", { status: 400 });
+    }
+
+    let collection: CollectionDetails;
+    try {
+      collection = await getCollectionDetails(collectionId);
+    } catch (_error) {
+      return new Response("Collection not found", { status: 404 });
+    }
+    collection = {
+      ...collection,
+      parts: orderCollectionParts(collection.parts),
+    };
+
+    const session = await getSessionFromRequest(req);
+    const now = new Date();
+    let libraryStatuses: Record<number, LibraryStatus> = {};
+    let progress: CollectionProgress | null = null;
+    if (session) {
+      try {
+        libraryStatuses = await getLibraryStatuses(
+          session.userId,
+          collection.parts.map((part) => part.id),
+        );
+        progress = getCollectionProgress(
+          collection.parts,
+          libraryStatuses,
+          now,
+        );
+      } catch (error) {
+        // Log error but don't fail the page if the library lookup fails
+        console.error("Failed to fetch library statuses:", error);
+      }
+    }
+
+    // Build canonical URL for SEO
+    const baseUrl = Deno.env.get("APP_BASE_URL") || new URL(req.url).origin;
+
+    return ctx.render({
+      collection,
+      libraryStatuses,
+      progress,
+      isAuthenticated: session !== null,
+      today: now.toISOString(),
+      canonicalUrl: `${baseUrl}/collection/${collectionId}`,
+    });
+  },
+};
+
+/**
+ * Helper function to format a release date
+ */
+function formatReleaseDate(dateString: string): string {
+  if (!dateString) {
+    return "Release date TBA";
+  }
+  return new Date(dateString).toLocaleDateString("en-GB", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export default function CollectionPage(
+  { data }: PageProps<CollectionPageProps>,
+) {
+  const {
+    collection,
+    libraryStatuses,
+    progress,
+    isAuthenticated,
+    canonicalUrl,
+  } = data;
+  const today = new Date(data.today);
+  const backdropSrc = collection.backdrop_path
+    ? getBackdropUrl(collection.backdrop_path, "w1280")
+    : null;
+  const percent = progress && progress.released > 0
+    ? Math.round((progress.watched / progress.released) * 100)
+    : 0;
+
+  const pageTitle = `${collection.name} - Stream Owl`;
+  const pageDescription = collection.overview
+    ? collection.overview.length > 160
+      ? collection.overview.slice(0, 157) + "..."
+      : collection.overview
+    : `Every film in ${collection.name}, in release order.`;
+  const ogImage = collection.poster_path
+    ? `https://image.tmdb.org/t/p/w500${collection.poster_path}`
+    : null;
+
+  return (
+    <>
+      <Head>
+        <title>{pageTitle}</title>
+        <meta name="description" content={pageDescription} />
+        <link rel="canonical" href={canonicalUrl} />
+        <meta property="og:title" content={pageTitle} />
+        <meta property="og:description" content={pageDescription} />
+        <meta property="og:type" content="website" />
+        <meta property="og:url" content={canonicalUrl} />
+        <meta property="og:site_name" content="Stream Owl" />
+        {ogImage && <meta property="og:image" content={ogImage} />}
+        <meta name="twitter:card" content="summary" />
+        <meta name="twitter:title" content={pageTitle} />
+        <meta name="twitter:description" content={pageDescription} />
+      </Head>
+      <div class="min-h-screen bg-gray-50">
+        {/* Backdrop Image */}
+        {backdropSrc && (
+          <div class="relative h-72 overflow-hidden">
+            <img
+              src={backdropSrc}
+              srcSet={getBackdropSrcSet(collection.backdrop_path)}
+              sizes="100vw"
+              alt={`${collection.name} backdrop`}
+              class="absolute inset-0 w-full h-full object-cover"
+              loading="eager"
+              width="1280"
+              height="720"
+            />
+            <div class="absolute inset-0 bg-black bg-opacity-50" />
+          </div>
+        )}
+
+        <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <h1 class="text-4xl font-bold text-gray-900 mb-4">
+            {collection.name}
+          </h1>
+          {collection.overview && (
+            <p class="text-gray-700 leading-relaxed mb-6 max-w-3xl">
+              {collection.overview}
+            </p>
+          )}
+
+          {/* Progress and actions */}
+          {isAuthenticated && (
+            <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-8 flex flex-col sm:flex-row sm:items-center gap-4">
+              {progress && progress.released > 0 && (
+                <div class="flex-1">
+                  <p class="text-sm font-medium text-gray-900 mb-2">
+                    {progress.watched} of {progress.released} watched
+                    {progress.watched === progress.released && " - complete!"}
+                  </p>
+                  <div
+                    class="w-full bg-gray-200 rounded-full h-2"
+                    role="progressbar"
+                    aria-valuenow={progress.watched}
+                    aria-valuemin={0}
+                    aria-valuemax={progress.released}
+                  >
+                    <div
+                      class="bg-indigo-600 h-2 rounded-full"
+                      style={`width: ${percent}%`}
+                    />
+                  </div>
+                  {progress.next && (
+                    <p class="text-sm text-gray-600 mt-2">
+                      Up next:{" "}
+                      <a
+                        href={`/content/${progress.next.id}`}
+                        class="text-indigo-600 hover:underline"
+                      >
+                        {progress.next.title}
+                      </a>
+                    </p>
+                  )}
+                </div>
+              )}
+              <WatchInOrderButton collectionId={collection.id} />
+            </div>
+          )}
+
+          {/* Movies in release order */}
+          <ol class="space-y-4">
+            {collection.parts.map((part, index) => {
+              const status = libraryStatuses[part.id];
+              return (
+                <li key={part.id}>
+                  <a
+                    href={`/content/${part.id}`}
+                    class="flex gap-4 bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow group"
+                  >
+                    <img
+                      src={getPosterUrl(part.poster_path, "w185")}
+                      srcSet={getPosterSrcSet(part.poster_path)}
+                      sizes="96px"
+                      alt={part.title}
+                      class="w-24 aspect-[2/3] object-cover flex-shrink-0"
+                      loading="lazy"
+                      width="96"
+                      height="144"
+                    />
+                    <div class="py-3 pr-4 flex-1 min-w-0">
+                      <div class="flex items-center gap-2 mb-1">
+                        <span class="text-sm font-semibold text-gray-500">
+                          {index + 1}.
+                        </span>
+                        <h2 class="font-semibold text-gray-900 group-hover:text-indigo-600">
+                          {part.title}
+                        </h2>
+                        {status && (
+                          <span
+                            class={`px-2 py-0.5 rounded text-xs font-medium ${
+                              STATUS_LABELS[status].class
+                            }`}
+                          >
+                            {STATUS_LABELS[status].label}
+                          </span>
+                        )}
+                        {!isReleased(part, today) && (
+                          <span class="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 text-gray-700">
+                            Upcoming
+                          </span>
+                        )}
+                      </div>
+                      <p class="text-xs text-gray-500 mb-2">
+                        {formatReleaseDate(part.release_date)}
+                      </p>
+                      {part.overview && (
+                        <p class="text-sm text-gray-700 line-clamp-2">
+                          {part.overview}
+                        </p>
+                      )}
+                    </div>
+                  </a>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </div>
+    </>
+  );
+}
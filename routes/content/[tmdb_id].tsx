@@ -3,17 +3,12 @@ import { type Handlers, type PageProps } from "$fresh/server.ts";
 import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
 import {
   type CategorisedWatchProviders,
+  CONTENT_PAGE_APPENDS,
   extractTrailerKey,
+  filterWatchProvidersByRegion,
   getMovieDetails,
-  getMovieExternalIds,
-  getMovieSimilar,
-  getMovieVideos,
-  getMovieWatchProvidersByRegion,
+  getSimilarFromDetails,
   getTvDetails,
-  getTvExternalIds,
-  getTvSimilar,
-  getTvVideos,
-  getTvWatchProvidersByRegion,
   type MovieDetails,
   type SearchResults,
   type SupportedRegion,
@@ -43,6 +38,8 @@ import AddToListButton from "../../islands/AddToListButton.tsx";
 import RatingComponent from "../../islands/RatingComponent.tsx";
 import NotesComponent from "../../islands/NotesComponent.tsx";
 import TagsComponent from "../../islands/TagsComponent.tsx";
+import EpisodeTracker from "../../islands/EpisodeTracker.tsx";
+import FriendsWhoWatched from "../../islands/FriendsWhoWatched.tsx";
 import ShareButton from "../../islands/ShareButton.tsx";
 import ContentGrid from "../../components/ContentGrid.tsx";
 import AggregateRatings from "../../components/AggregateRatings.tsx";
@@ -87,17 +84,18 @@ export const handler: Handlers<ContentDetailPageProps> = {
     const session = await getSessionFromRequest(_req);
     const region = await getUserRegion(_req, session);
 
-    // Try fetching as movie first, then as TV show
+    // Try fetching as movie first, then as TV show. Providers, videos,
+    // similar titles and external IDs come back in the same request
     let content: MovieDetails | TvDetails;
     let contentType: "movie" | "tv";
 
     try {
-      content = await getMovieDetails(contentId);
+      content = await getMovieDetails(contentId, CONTENT_PAGE_APPENDS);
       contentType = "movie";
     } catch (_movieError) {
       // If movie fetch fails, try as TV show
       try {
-        content = await getTvDetails(contentId);
+        content = await getTvDetails(contentId, CONTENT_PAGE_APPENDS);
         contentType = "tv";
       } catch (_tvError) {
         // Both failed, return 404
@@ -105,73 +103,33 @@ export const handler: Handlers<ContentDetailPageProps> = {
       }
     }
 
-    // Fetch watch providers using detected region
-    let watchProviders: CategorisedWatchProviders | null = null;
-    try {
-      if (contentType === "movie") {
-        watchProviders = await getMovieWatchProvidersByRegion(
-          contentId,
-          region,
-        );
-      } else {
-        watchProviders = await getTvWatchProvidersByRegion(contentId, region);
-      }
-    } catch (error) {
-      // Log error but don't fail the page if watch providers fail
-      console.error("Failed to fetch watch providers:", error);
-    }
+    // Watch providers for the detected region
+    const watchProviders: CategorisedWatchProviders | null =
+      content["watch/providers"]
+        ? filterWatchProvidersByRegion(content["watch/providers"], region)
+        : null;
 
-    // Fetch videos and extract trailer key
-    let trailerKey: string | null = null;
-    try {
-      if (contentType === "movie") {
-        const videos = await getMovieVideos(contentId);
-        trailerKey = extractTrailerKey(videos);
-      } else {
-        const videos = await getTvVideos(contentId);
-        trailerKey = extractTrailerKey(videos);
-      }
-    } catch (error) {
-      // Log error but don't fail the page if videos fail
-      console.error("Failed to fetch videos:", error);
-    }
+    // Trailer key from the videos
+    const trailerKey = content.videos
+      ? extractTrailerKey(content.videos)
+      : null;
 
-    // Fetch similar titles
-    let similarTitles: SearchResults | null = null;
-    try {
-      if (contentType === "movie") {
-        similarTitles = await getMovieSimilar(contentId, 1);
-        // Limit to 12 similar titles
-        if (similarTitles.results.length > 12) {
-          similarTitles.results = similarTitles.results.slice(0, 12);
-        }
-      } else {
-        similarTitles = await getTvSimilar(contentId, 1);
-        // Limit to 12 similar titles
-        if (similarTitles.results.length > 12) {
-          similarTitles.results = similarTitles.results.slice(0, 12);
-        }
-      }
-    } catch (error) {
-      // Log error but don't fail the page if similar titles fail
-      console.error("Failed to fetch similar titles:", error);
+    // Similar titles, limited to 12
+    const similarTitles = getSimilarFromDetails(content);
+    if (similarTitles && similarTitles.results.length > 12) {
+      similarTitles.results = similarTitles.results.slice(0, 12);
     }
 
-    // Fetch external IDs and ratings from OMDb (IMDb, Rotten Tomatoes)
+    // Fetch ratings from OMDb (IMDb, Rotten Tomatoes) using the IMDb ID
     let externalRatings: AggregateRatingsType | null = null;
-    try {
-      // Get external IDs (including IMDb ID) from TMDB
-      const externalIds = contentType === "movie"
-        ? await getMovieExternalIds(contentId)
-        : await getTvExternalIds(contentId);
-
-      // If we have an IMDb ID, fetch ratings from OMDb
-      if (externalIds?.imdb_id) {
-        externalRatings = await getRatingsByImdbId(externalIds.imdb_id);
+    const imdbId = content.external_ids?.imdb_id;
+    if (imdbId) {
+      try {
+        externalRatings = await getRatingsByImdbId(imdbId);
+      } catch (error) {
+        // Log error but don't fail the page if external ratings fail
+        console.error("Failed to fetch external ratings:", error);
       }
-    } catch (error) {
-      // Log error but don't fail the page if external ratings fail
-      console.error("Failed to fetch external ratings:", error);
     }
 
     // Fetch user status, rating, notes, and tags if authenticated
@@ -368,6 +326,15 @@ export default function ContentDetailPage(
     ? (content as MovieDetails).runtime
     : (content as TvDetails).episode_run_time;
   const cast = content.credits?.cast || [];
+  // Directors for movies; TV shows list their creators instead
+  const makers = isMovie
+    ? (content.credits?.crew || []).filter((member) =>
+      member.job === "Director"
+    )
+    : (content as TvDetails).created_by || [];
+  const collection = isMovie
+    ? (content as MovieDetails).belongs_to_collection
+    : null;
   const tmdbId = content.id;
 
   const backdropSrcSet = getBackdropSrcSet(content.backdrop_path);
@@ -472,6 +439,39 @@ export default function ContentDetailPage(
               </div>
             </div>
 
+            {/* Director or creators, linked to their person pages */}
+            {makers.length > 0 && (
+              <p class="mb-6 text-gray-600">
+                <span class="font-semibold">
+                  {isMovie ? "Directed by" : "Created by"}:
+                </span>{" "}
+                {makers.map((member, index) => (
+                  <span key={member.id}>
+                    {index > 0 && ", "}
+                    <a
+                      href={`/person/${member.id}`}
+                      class="text-indigo-600 hover:underline"
+                    >
+                      {member.name}
+                    </a>
+                  </span>
+                ))}
+              </p>
+            )}
+
+            {/* Franchise the movie belongs to */}
+            {collection && (
+              <p class="mb-6 text-gray-600">
+                Part of the{" "}
+                <a
+                  href={`/collection/${collection.id}`}
+                  class="text-indigo-600 hover:underline"
+                >
+                  {collection.name}
+                </a>
+              </p>
+            )}
+
             {/* Aggregate Ratings Section */}
             <AggregateRatings
               tmdb={{
@@ -543,6 +543,12 @@ export default function ContentDetailPage(
                     initialTags={userTags}
                   />
                 </div>
+                {/* Episode Tracker (TV shows only) */}
+                {!isMovie && (
+                  <div class="border-t pt-4">
+                    <EpisodeTracker tmdbId={tmdbId} />
+                  </div>
+                )}
               </div>
             )}
 
@@ -559,6 +565,9 @@ export default function ContentDetailPage(
               </div>
             )}
 
+            {/* Friends who watched (followed users with public profiles) */}
+            {isAuthenticated && <FriendsWhoWatched tmdbId={tmdbId} />}
+
             {/* Synopsis */}
             {content.overview && (
               <div class="mb-8">
@@ -595,9 +604,10 @@ export default function ContentDetailPage(
                 </h2>
                 <div class="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
                   {cast.slice(0, 12).map((member) => (
-                    <div
+                    <a
                       key={member.id}
-                      class="bg-white rounded-lg shadow-md overflow-hidden"
+                      href={`/person/${member.id}`}
+                      class="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow"
                     >
                       <img
                         src={getProfileUrl(member.profile_path)}
@@ -617,7 +627,7 @@ export default function ContentDetailPage(
                           </p>
                         )}
                       </div>
-                    </div>
+                    </a>
                   ))}
                 </div>
               </div>
@@ -6,6 +6,7 @@ import {
   setCsrfCookie,
 } from "../lib/security/csrf.ts";
 import SEO from "../components/SEO.tsx";
+import ActivityFeed from "../islands/ActivityFeed.tsx";
 
 interface DashboardPageProps {
   csrfToken: string;
@@ -73,6 +74,8 @@ export default function DashboardPage(props: PageProps<DashboardPageProps>) {
               </button>
             </form>
           </div>
+
+          <ActivityFeed />
         </div>
       </div>
     </>
@@ -1,8 +1,15 @@
 import { type Handlers } from "$fresh/server.ts";
 import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
 import { query } from "../../lib/db.ts";
+import {
+  canViewList,
+  getListAccess,
+  type ListRole,
+} from "../../lib/lists/permissions.ts";
+import { getListItems, type ListItemDetails } from "../../lib/lists/items.ts";
 import ReorderableList from "../../islands/ReorderableList.tsx";
 import ListSettings from "../../islands/ListSettings.tsx";
+import ListCollaborators from "../../islands/ListCollaborators.tsx";
 
 /**
  * Route for viewing a custom list
@@ -10,41 +17,25 @@ import ListSettings from "../../islands/ListSettings.tsx";
  * GET /lists/[list_id]
  * - Displays a custom list with its items
  * - Public lists can be viewed by anyone
- * - Private lists can only be viewed by the owner
+ * - Private lists can only be viewed by the owner and collaborators
  */
 export const handler: Handlers = {
   async GET(req, ctx) {
     const listId = ctx.params.list_id;
 
     try {
-      // Fetch list details
-      const listResult = await query<{
-        id: string;
-        user_id: string;
-        name: string;
-        description: string | null;
-        is_public: boolean;
-        created_at: Date;
-        updated_at: Date;
-      }>(
-        `SELECT id, user_id, name, description, is_public, created_at, updated_at
-         FROM lists
-         WHERE id = $1`,
-        [listId],
-      );
+      // Check if user can view this list
+      const session = await getSessionFromRequest(req);
+      const access = await getListAccess(listId, session?.userId ?? null);
 
-      if (listResult.length === 0) {
+      if (!access) {
         return new Response("List not found", { status: 404 });
       }
 
-      const list = listResult[0];
-
-      // Check if user can view this list
-      const session = await getSessionFromRequest(req);
-      const isOwner = session?.userId === list.user_id;
+      const { list, role } = access;
 
-      if (!list.is_public && !isOwner) {
-        // Private list, require authentication and ownership
+      if (!canViewList(access)) {
+        // Private list, require authentication and a role on the list
         if (!session) {
           const url = new URL(req.url);
           const returnTo = encodeURIComponent(url.pathname);
@@ -56,32 +47,19 @@ export const handler: Handlers = {
           });
         }
 
-        // Not the owner
+        // Not the owner or a collaborator
         return new Response("Access denied", { status: 403 });
       }
 
       // Fetch list items
-      const itemsResult = await query<{
-        tmdb_id: number;
-        type: "movie" | "tv" | "documentary";
-        title: string;
-        poster_path: string | null;
-        release_date: string | null;
-        position: number;
-      }>(
-        `SELECT 
-          c.tmdb_id,
-          c.type,
-          c.title,
-          c.poster_path,
-          c.release_date,
-          li.position
-        FROM list_items li
-        INNER JOIN content c ON li.content_id = c.id
-        WHERE li.list_id = $1
-        ORDER BY li.position ASC, li.created_at ASC`,
+      const items = await getListItems(listId);
+
+      // Attribution is only interesting once someone else can add items
+      const collaboratorResult = await query<{ count: number }>(
+        "SELECT COUNT(*)::INTEGER AS count FROM list_collaborators WHERE list_id = $1",
         [listId],
       );
+      const hasCollaborators = collaboratorResult[0].count > 0;
 
       return ctx.render({
         list: {
@@ -89,18 +67,14 @@ export const handler: Handlers = {
           name: list.name,
           description: list.description,
           is_public: list.is_public,
+          items_version: list.items_version,
           created_at: list.created_at.toISOString(),
           updated_at: list.updated_at.toISOString(),
         },
-        items: itemsResult.map((item) => ({
-          tmdb_id: item.tmdb_id,
-          type: item.type,
-          title: item.title,
-          poster_path: item.poster_path,
-          release_date: item.release_date,
-          position: item.position,
-        })),
-        isOwner,
+        items,
+        role,
+        userId: session?.userId ?? null,
+        hasCollaborators,
       });
     } catch (error) {
       console.error("Error fetching list:", error);
@@ -115,22 +89,19 @@ interface ListPageProps {
     name: string;
     description: string | null;
     is_public: boolean;
+    items_version: number;
     created_at: string;
     updated_at: string;
   };
-  items: Array<{
-    tmdb_id: number;
-    type: "movie" | "tv" | "documentary";
-    title: string;
-    poster_path: string | null;
-    release_date: string | null;
-    position: number;
-  }>;
-  isOwner: boolean;
+  items: ListItemDetails[];
+  role: ListRole | null;
+  userId: string | null;
+  hasCollaborators: boolean;
 }
 
 export default function ListPage({ data }: { data: ListPageProps }) {
-  const { list, items, isOwner } = data;
+  const { list, items, role, userId, hasCollaborators } = data;
+  const isOwner = role === "owner";
 
   return (
     <div class="min-h-screen bg-gray-50">
@@ -152,6 +123,11 @@ export default function ListPage({ data }: { data: ListPageProps }) {
                 Private
               </span>
             )}
+            {role && !isOwner && (
+              <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                {role === "editor" ? "Editor" : "Viewer"}
+              </span>
+            )}
           </div>
         </div>
 
@@ -164,10 +140,19 @@ export default function ListPage({ data }: { data: ListPageProps }) {
           </div>
         )}
 
+        {role && userId && (
+          <div class="mb-6">
+            <ListCollaborators listId={list.id} role={role} userId={userId} />
+          </div>
+        )}
+
         <ReorderableList
           listId={list.id}
           items={items}
-          isOwner={isOwner}
+          version={list.items_version}
+          canEdit={role === "owner" || role === "editor"}
+          showAddedBy={hasCollaborators}
+          live={userId !== null}
         />
       </div>
     </div>
@@ -0,0 +1,106 @@
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { getSessionFromRequest } from "../../../lib/auth/middleware.ts";
+import {
+  getInviteByToken,
+  type InviteDetails,
+} from "../../../lib/lists/collaborators.ts";
+import AcceptListInvite from "../../../islands/AcceptListInvite.tsx";
+
+interface ListInvitePageProps {
+  token: string;
+  invite: InviteDetails | null;
+}
+
+/**
+ * Route for accepting an invite to collaborate on a list
+ *
+ * GET /lists/invite/[token]
+ * - Requires authentication; redirects to login and back
+ * - Shows who shared which list and the role on offer
+ * - Owners opening their own invite are sent straight to the list
+ */
+export const handler: Handlers<ListInvitePageProps> = {
+  async GET(req, ctx) {
+    const session = await getSessionFromRequest(req);
+    if (!session) {
+      const url = new URL(req.url);
+      const returnTo = encodeURIComponent(url.pathname);
+
+      return new Response(null, {
+        status: 302,
+        headers: { Location: `/login?returnTo=${returnTo}` },
+      });
+    }
+
+    try {
+      const { token } = ctx.params;
+      const invite = await getInviteByToken(token);
+
+      if (invite && invite.owner_id === session.userId) {
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/lists/${invite.list_id}` },
+        });
+      }
+
+      return ctx.render({ token, invite });
+    } catch (error) {
+      console.error("Error fetching list invite:", error);
+      return new Response("Internal server error", { status: 500 });
+    }
+  },
+};
+
+export default function ListInvitePage(
+  props: PageProps<ListInvitePageProps>,
+) {
+  const { token, invite } = props.data;
+
+  return (
+    <div class="min-h-screen flex items-center justify-center bg-gray-50">
+      <div class="max-w-md w-full space-y-8 p-8">
+        {invite
+          ? (
+            <>
+              <div>
+                <h2 class="mt-6 text-center text-3xl font-extrabold text-gray-900">
+                  {invite.list_name}
+                </h2>
+                <p class="mt-2 text-center text-sm text-gray-600">
+                  {invite.owner_name || "Someone"} has invited you to{" "}
+                  {invite.role === "editor" ? "edit" : "view"} this list.
+                </p>
+                {invite.email && (
+                  <p class="mt-2 text-center text-xs text-gray-500">
+                    This invite is for {invite.email}.
+                  </p>
+                )}
+              </div>
+              <AcceptListInvite token={token} />
+            </>
+          )
+          : (
+            <>
+              <div>
+                <h2 class="mt-6 text-center text-3xl font-extrabold text-gray-900">
+                  Invite expired
+                </h2>
+                <p class="mt-2 text-center text-sm text-gray-600">
+                  This invite link is invalid, has expired or has already been
+                  used. Ask the list owner to send a new one.
+                </p>
+              </div>
+              <div class="text-center">
+                <a
+                  href="/library"
+                  class="font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  Go to your library
+                </a>
+              </div>
+            </>
+          )}
+      </div>
+    </div>
+  );
+}
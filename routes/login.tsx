@@ -6,15 +6,37 @@ import {
   setCsrfCookie,
 } from "../lib/security/csrf.ts";
 import LoginForm from "../islands/LoginForm.tsx";
+import SignInProviders from "../components/SignInProviders.tsx";
+import { getConfiguredProviders } from "../lib/auth/oidc.ts";
+import { getTwoFactorChallengeToken } from "../lib/auth/cookies.ts";
+import { verifyTwoFactorChallengeToken } from "../lib/auth/jwt.ts";
 
 interface LoginPageProps {
   csrfToken: string;
   returnTo: string;
   resetSuccess?: boolean;
+  providers: { id: string; name: string }[];
+  error?: string;
+  /** Set when a provider sign-in needs a second factor */
+  twoFactorChallenge?: string;
 }
 
+// Errors the provider sign-in callback redirects here with
+const SIGN_IN_ERRORS: Record<string, string> = {
+  oauth_failed: "Signing in with that provider was cancelled or failed.",
+  oauth_callback_failed:
+    "We couldn't complete signing in with that provider. Please try again.",
+  email_not_verified:
+    "That provider hasn't verified your email address, so we can't use it to sign you in.",
+  provider_unavailable:
+    "That sign-in provider isn't available right now. Please try again later.",
+  link_requires_sign_in:
+    "An account with this email uses two-factor authentication. Sign in with your password, then connect this provider from Settings.",
+  two_factor_expired: "Your sign-in has expired. Please sign in again.",
+};
+
 export const handler: Handlers<LoginPageProps> = {
-  GET(req, ctx) {
+  async GET(req, ctx) {
     // Generate CSRF token and set cookie
     const csrfToken = generateCsrfToken();
     const headers = new Headers();
@@ -23,13 +45,51 @@ export const handler: Handlers<LoginPageProps> = {
     const url = new URL(req.url);
     const returnTo = url.searchParams.get("returnTo") || "/dashboard";
     const resetSuccess = url.searchParams.get("reset") === "success";
+    let errorCode = url.searchParams.get("error");
+
+    // Provider sign-in leaves its challenge in a cookie, as it can't return
+    // JSON to the login form
+    let twoFactorChallenge: string | undefined;
+    if (url.searchParams.get("twoFactor") === "true") {
+      const token = getTwoFactorChallengeToken(req);
+      if (token && await verifyTwoFactorChallengeToken(token)) {
+        twoFactorChallenge = token;
+      } else {
+        errorCode = "two_factor_expired";
+      }
+    }
+
+    const error = errorCode && Object.hasOwn(SIGN_IN_ERRORS, errorCode)
+      ? SIGN_IN_ERRORS[errorCode]
+      : undefined;
+    const providers = getConfiguredProviders().map(({ id, name }) => ({
+      id,
+      name,
+    }));
 
-    return ctx.render({ csrfToken, returnTo, resetSuccess }, { headers });
+    return ctx.render(
+      {
+        csrfToken,
+        returnTo,
+        resetSuccess,
+        providers,
+        error,
+        twoFactorChallenge,
+      },
+      { headers },
+    );
   },
 };
 
 export default function LoginPage(props: PageProps<LoginPageProps>) {
-  const { csrfToken, returnTo, resetSuccess } = props.data;
+  const {
+    csrfToken,
+    returnTo,
+    resetSuccess,
+    providers,
+    error,
+    twoFactorChallenge,
+  } = props.data;
 
   return (
     <>
@@ -83,47 +143,19 @@ export default function LoginPage(props: PageProps<LoginPageProps>) {
           </div>
         )}
 
-        <LoginForm csrfToken={csrfToken} returnTo={returnTo} />
-
-        <div class="mt-6">
-          <div class="relative">
-            <div class="absolute inset-0 flex items-center">
-              <div class="w-full border-t border-gray-300"></div>
-            </div>
-            <div class="relative flex justify-center text-sm">
-              <span class="px-2 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
-                Or continue with
-              </span>
-            </div>
+        {error && (
+          <div class="rounded-md bg-red-50 p-4">
+            <p class="text-sm text-red-800">{error}</p>
           </div>
+        )}
 
-          <div class="mt-6">
-            <a
-              href={`/api/auth/google?returnTo=${encodeURIComponent(returnTo)}`}
-              class="w-full inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-            >
-              <svg class="h-5 w-5" viewBox="0 0 24 24">
-                <path
-                  fill="currentColor"
-                  d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                />
-              </svg>
-              <span class="ml-2">Continue with Google</span>
-            </a>
-          </div>
-        </div>
+        <LoginForm
+          csrfToken={csrfToken}
+          returnTo={returnTo}
+          twoFactorChallenge={twoFactorChallenge}
+        />
+
+        <SignInProviders providers={providers} returnTo={returnTo} />
 
         <div class="text-center">
           <a
@@ -0,0 +1,334 @@
+import { Head } from "$fresh/runtime.ts";
+import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
+import { getPersonDetails, type PersonDetails } from "../../lib/tmdb/client.ts";
+import { getLibraryStatuses } from "../../lib/content.ts";
+import { isFollowingPerson } from "../../lib/people/follows.ts";
+import {
+  buildFilmography,
+  type FilmographySection,
+  getPersonRole,
+} from "../../lib/people/filmography.ts";
+import { getPosterSrcSet, getPosterUrl } from "../../lib/images.ts";
+import FollowPersonButton from "../../islands/FollowPersonButton.tsx";
+import ContentGrid from "../../components/ContentGrid.tsx";
+
+type LibraryStatus = "watched" | "to_watch" | "favourite";
+
+interface PersonPageProps {
+  person: PersonDetails;
+  filmography: FilmographySection[];
+  libraryStatuses: Record<number, LibraryStatus>;
+  isAuthenticated: boolean;
+  isFollowing: boolean;
+  canonicalUrl: string;
+}
+
+const STATUS_LABELS: Record<LibraryStatus, { label: string; class: string }> = {
+  watched: { label: "Watched", class: "bg-green-600 text-white" },
+  to_watch: { label: "Watchlist", class: "bg-indigo-600 text-white" },
+  favourite: { label: "Favourite", class: "bg-pink-600 text-white" },
+};
+
+/**
+ * Person page route handler
+ * Fetches a cast or crew member from TMDB with their combined credits, and
+ * the viewer's library status for each title
+ */
+export const handler: Handlers<PersonPageProps> = {
+  async GET(req, ctx) {
+    const personId = parseInt(ctx.params.person_id, 10);
+
+    if (!Number.isInteger(personId) || personId <= 0) {
+      return new Response("Invalid person ID", { status: 400 });
+    }
+
+    let person: PersonDetails;
+    try {
+      person = await getPersonDetails(personId);
+    } catch (_error) {
+      return new Response("Person not found", { status: 404 });
+    }
+
+    const filmography = buildFilmography(
+      person.combined_credits || { cast: [], crew: [] },
+      person.known_for_department,
+    );
+
+    const session = await getSessionFromRequest(req);
+    let libraryStatuses: Record<number, LibraryStatus> = {};
+    let following = false;
+    if (session) {
+      try {
+        const tmdbIds = new Set(
+          filmography.flatMap((section) =>
+            section.entries.map((entry) => entry.tmdb_id)
+          ),
+        );
+        [libraryStatuses, following] = await Promise.all([
+          getLibraryStatuses(session.userId, [...tmdbIds]),
+          isFollowingPerson(session.userId, personId),
+        ]);
+      } catch (error) {
+        // Log error but don't fail the page if the library lookup fails
+        console.error("Failed to fetch library statuses:", error);
+      }
+    }
+
+    // Build canonical URL for SEO
+    const baseUrl = Deno.env.get("APP_BASE_URL") || new URL(req.url).origin;
+
+    return ctx.render({
+      person,
+      filmography,
+      libraryStatuses,
+      isAuthenticated: session !== null,
+      isFollowing: following,
+      canonicalUrl: `${baseUrl}/person/${personId}`,
+    });
+  },
+};
+
+/**
+ * Helper function to get profile image URL
+ */
+function getProfileUrl(
+  profilePath: string | null,
+  size: "w185" | "h632" = "w185",
+): string {
+  if (!profilePath) {
+    return "https://via.placeholder.com/185x278?text=No+Photo";
+  }
+  return `https://image.tmdb.org/t/p/${size}${profilePath}`;
+}
+
+/**
+ * Helper function to format a birth or death date
+ */
+function formatDate(dateString: string | null): string | null {
+  if (!dateString) {
+    return null;
+  }
+  return new Date(dateString).toLocaleDateString("en-GB", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export default function PersonPage({ data }: PageProps<PersonPageProps>) {
+  const {
+    person,
+    filmography,
+    libraryStatuses,
+    isAuthenticated,
+    isFollowing,
+    canonicalUrl,
+  } = data;
+  const role = getPersonRole(person.known_for_department);
+  const born = formatDate(person.birthday);
+  const died = formatDate(person.deathday);
+  // The main profile photo is already shown at the top
+  const photos = (person.images?.profiles || [])
+    .filter((image) => image.file_path !== person.profile_path)
+    .slice(0, 8);
+
+  const pageTitle = `${person.name} - Stream Owl`;
+  const pageDescription = person.biography
+    ? person.biography.length > 160
+      ? person.biography.slice(0, 157) + "..."
+      : person.biography
+    : `Movies and TV shows with ${person.name}, and where to stream them.`;
+  const ogImage = person.profile_path
+    ? `https://image.tmdb.org/t/p/w500${person.profile_path}`
+    : null;
+
+  return (
+    <>
+      <Head>
+        <title>{pageTitle}</title>
+        <meta name="description" content={pageDescription} />
+        <link rel="canonical" href={canonicalUrl} />
+        <meta property="og:title" content={pageTitle} />
+        <meta property="og:description" content={pageDescription} />
+        <meta property="og:type" content="profile" />
+        <meta property="og:url" content={canonicalUrl} />
+        <meta property="og:site_name" content="Stream Owl" />
+        {ogImage && <meta property="og:image" content={ogImage} />}
+        <meta name="twitter:card" content="summary" />
+        <meta name="twitter:title" content={pageTitle} />
+        <meta name="twitter:description" content={pageDescription} />
+      </Head>
+      <div class="min-h-screen bg-gray-50">
+        <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div class="flex flex-col md:flex-row gap-8 mb-10">
+            {/* Photo */}
+            <div class="flex-shrink-0">
+              <img
+                src={getProfileUrl(person.profile_path, "h632")}
+                alt={person.name}
+                class="w-48 md:w-64 rounded-lg shadow-lg"
+                width="256"
+                height="384"
+                loading="eager"
+              />
+            </div>
+
+            {/* Details */}
+            <div class="flex-1">
+              <h1 class="text-4xl font-bold text-gray-900 mb-4">
+                {person.name}
+              </h1>
+
+              <div class="flex flex-wrap gap-4 mb-6 text-gray-600">
+                {person.known_for_department && (
+                  <div>
+                    <span class="font-semibold">Known for:</span>{" "}
+                    {person.known_for_department}
+                  </div>
+                )}
+                {born && (
+                  <div>
+                    <span class="font-semibold">Born:</span> {born}
+                    {person.place_of_birth && ` in ${person.place_of_birth}`}
+                  </div>
+                )}
+                {died && (
+                  <div>
+                    <span class="font-semibold">Died:</span> {died}
+                  </div>
+                )}
+              </div>
+
+              <div class="mb-6">
+                {isAuthenticated
+                  ? (
+                    <FollowPersonButton
+                      personId={person.id}
+                      role={role}
+                      initialFollowing={isFollowing}
+                    />
+                  )
+                  : (
+                    <a
+                      href="/login"
+                      class="text-sm text-indigo-600 hover:underline"
+                    >
+                      Log in to follow this {role}
+                    </a>
+                  )}
+              </div>
+
+              {person.biography && (
+                <div class="mb-6">
+                  <h2 class="text-2xl font-semibold text-gray-900 mb-3">
+                    Biography
+                  </h2>
+                  {person.biography.split("\n\n").map((paragraph, index) => (
+                    <p key={index} class="text-gray-700 leading-relaxed mb-3">
+                      {paragraph}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {photos.length > 0 && (
+                <div class="flex gap-3 overflow-x-auto pb-2">
+                  {photos.map((image) => (
+                    <img
+                      key={image.file_path}
+                      src={getProfileUrl(image.file_path)}
+                      alt={person.name}
+                      class="h-36 rounded-md shadow"
+                      loading="lazy"
+                      width="96"
+                      height="144"
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Filmography */}
+          {filmography.length === 0 && (
+            <p class="text-gray-600">No credits found.</p>
+          )}
+          {filmography.map((section) => (
+            <section key={section.key} class="mb-10">
+              <h2 class="text-2xl font-semibold text-gray-900 mb-4">
+                {section.heading}
+                <span class="ml-2 text-base font-normal text-gray-500">
+                  {section.entries.length}
+                </span>
+              </h2>
+              <ContentGrid>
+                {section.entries.map((entry) => {
+                  const status = libraryStatuses[entry.tmdb_id];
+                  return (
+                    <a
+                      key={`${entry.type}-${entry.tmdb_id}`}
+                      href={`/content/${entry.tmdb_id}`}
+                      class="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow group"
+                    >
+                      <div class="relative w-full aspect-[2/3] bg-gray-200">
+                        <img
+                          src={getPosterUrl(entry.poster_path, "w300")}
+                          srcSet={getPosterSrcSet(entry.poster_path)}
+                          sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
+                          alt={entry.title}
+                          class="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
+                          loading="lazy"
+                          width="300"
+                          height="450"
+                        />
+                        {status && (
+                          <span
+                            class={`absolute top-2 left-2 px-2 py-0.5 rounded text-xs font-medium ${
+                              STATUS_LABELS[status].class
+                            }`}
+                          >
+                            {STATUS_LABELS[status].label}
+                          </span>
+                        )}
+                      </div>
+                      <div class="p-3">
+                        <p class="font-semibold text-sm text-gray-900 line-clamp-2 mb-1">
+                          {entry.title}
+                        </p>
+                        {entry.roles.length > 0 && (
+                          <p class="text-xs text-gray-600 line-clamp-2 mb-1">
+                            {entry.roles.join(", ")}
+                          </p>
+                        )}
+                        <div class="flex items-center gap-2 text-xs text-gray-500">
+                          <span class="uppercase">{entry.type}</span>
+                          <span>•</span>
+                          <span>
+                            {entry.release_date
+                              ? new Date(entry.release_date).getFullYear()
+                              : "TBA"}
+                          </span>
+                          {entry.episode_count && (
+                            <>
+                              <span>•</span>
+                              <span>
+                                {entry.episode_count} {entry.episode_count === 1
+                                  ? "episode"
+                                  : "episodes"}
+                              </span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </a>
+                  );
+                })}
+              </ContentGrid>
+            </section>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
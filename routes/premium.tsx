@@ -1,4 +1,5 @@
 import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { isPremiumUser } from "../lib/auth/entitlements.ts";
 import { getSessionFromRequest } from "../lib/auth/middleware.ts";
 import PremiumPricingPage from "../islands/PremiumPricingPage.tsx";
 
@@ -29,16 +30,7 @@ export const handler: Handlers<PremiumPageProps> = {
     }
 
     // Check if user already has premium
-    const { query } = await import("../lib/db.ts");
-    const userResult = await query<{
-      preferences: Record<string, unknown>;
-    }>(
-      "SELECT preferences FROM users WHERE id = $1",
-      [session.userId],
-    );
-
-    const preferences = userResult[0]?.preferences || {};
-    const isPremium = preferences.premium === true;
+    const isPremium = await isPremiumUser(session.userId);
 
     // Get Stripe price IDs from environment
     const monthlyPriceId = Deno.env.get("STRIPE_PRICE_ID_MONTHLY") || null;
@@ -1,5 +1,7 @@
 import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { getSessionFromRequest } from "../../lib/auth/middleware.ts";
 import { query } from "../../lib/db.ts";
+import { getFollowCounts, isFollowing } from "../../lib/social/follows.ts";
 import PublicProfilePage from "../../islands/PublicProfilePage.tsx";
 
 interface PublicProfilePageProps {
@@ -19,6 +21,11 @@ interface PublicProfilePageProps {
     poster_path: string | null;
     release_date: string | null;
   }>;
+  followers: number;
+  following: number;
+  /** Logged-in viewer's ID, or null for anonymous visitors */
+  viewerId: string | null;
+  viewerFollows: boolean;
 }
 
 /**
@@ -27,7 +34,7 @@ interface PublicProfilePageProps {
  * Only accessible if user has public_profile_enabled set to true
  */
 export const handler: Handlers<PublicProfilePageProps> = {
-  async GET(_req, ctx) {
+  async GET(req, ctx) {
     const userId = ctx.params.user_id;
 
     try {
@@ -111,12 +118,26 @@ export const handler: Handlers<PublicProfilePageProps> = {
         [userId],
       );
 
+      // Follow counts, and whether the viewer already follows this user
+      const session = await getSessionFromRequest(req);
+      const viewerId = session?.userId ?? null;
+      const [followCounts, viewerFollows] = await Promise.all([
+        getFollowCounts(userId),
+        viewerId && viewerId !== userId
+          ? isFollowing(viewerId, userId)
+          : Promise.resolve(false),
+      ]);
+
       return ctx.render({
         userId: user.id,
         displayName: user.display_name,
         avatarUrl: user.avatar_url,
         stats,
         favourites: favouritesResult,
+        followers: followCounts.followers,
+        following: followCounts.following,
+        viewerId,
+        viewerFollows,
       });
     } catch (error) {
       console.error("Error fetching public profile:", error);
@@ -4,14 +4,15 @@ import SEO from "../components/SEO.tsx";
 
 /**
  * Search page route
- * Displays search input and results for movies and TV shows
+ * Displays search input and results for movies, TV shows, people and
+ * collections
  */
 export default function Search(_props: PageProps) {
   return (
     <>
       <SEO
         title="Search"
-        description="Search for movies, TV shows, and documentaries. Find where to stream your favourite content across Netflix, Disney+, Amazon Prime, and more."
+        description="Search for movies, TV shows, documentaries, actors and directors. Find where to stream your favourite content across Netflix, Disney+, Amazon Prime, and more."
         url="/search"
       />
       <div class="min-h-screen bg-gray-50">
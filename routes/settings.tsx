@@ -1,5 +1,7 @@
 import { type Handlers, type PageProps } from "$fresh/server.ts";
+import { isPremiumUser } from "../lib/auth/entitlements.ts";
 import { getSessionFromRequest } from "../lib/auth/middleware.ts";
+import { getLatestSubscription } from "../lib/stripe/subscriptions.ts";
 import { getUserRegion } from "../lib/region.ts";
 import SettingsPage from "../islands/SettingsPage.tsx";
 import SEO from "../components/SEO.tsx";
@@ -15,8 +17,13 @@ interface SettingsPageProps {
   isPremium: boolean;
   subscriptionDetails: {
     planName: string | null;
+    billingInterval: string | null;
+    status: string;
     currentPeriodEnd: number | null;
-    customerId: string | null;
+    trialEnd: number | null;
+    cancelAtPeriodEnd: boolean;
+    paymentFailed: boolean;
+    customerId: string;
   } | null;
   userProfile: {
     email: string;
@@ -82,7 +89,7 @@ export const handler: Handlers<SettingsPageProps> = {
       avatarUrl: user?.avatar_url || null,
     };
     const publicProfileEnabled = preferences.public_profile_enabled === true;
-    const isPremium = preferences.premium === true;
+    const isPremium = await isPremiumUser(session.userId);
 
     // Extract notification preferences with defaults (enabled by default)
     const notificationPreferences = {
@@ -93,29 +100,36 @@ export const handler: Handlers<SettingsPageProps> = {
         preferences.notification_watchlist_available !== false,
     };
 
-    // Get subscription details if user has premium
-    let subscriptionDetails = null;
-    if (isPremium) {
-      subscriptionDetails = {
-        planName: preferences.subscription_plan_name as string | null || null,
-        currentPeriodEnd: preferences.subscription_current_period_end as
-          | number
-          | null || null,
-        customerId: preferences.stripe_customer_id as string | null || null,
-      };
-    }
+    // Get subscription details if user has premium from a subscription
+    const subscription = isPremium
+      ? await getLatestSubscription(session.userId)
+      : null;
+    const toUnixSeconds = (date: Date | null) =>
+      date ? Math.floor(date.getTime() / 1000) : null;
+    const subscriptionDetails = subscription && {
+      planName: subscription.plan_name,
+      billingInterval: subscription.billing_interval,
+      status: subscription.status,
+      currentPeriodEnd: toUnixSeconds(subscription.current_period_end),
+      trialEnd: toUnixSeconds(subscription.trial_end),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      paymentFailed: subscription.payment_failed_at !== null,
+      customerId: subscription.stripe_customer_id,
+    };
 
     // Get account info for deletion flow
     const accountResult = await query<{
       password_hash: string | null;
-      google_id: string | null;
+      has_identity: boolean;
     }>(
-      "SELECT password_hash, google_id FROM users WHERE id = $1",
+      `SELECT password_hash,
+         EXISTS (SELECT 1 FROM user_identities i WHERE i.user_id = users.id) AS has_identity
+       FROM users WHERE id = $1`,
       [session.userId],
     );
     const account = accountResult[0];
     const hasPassword = !!account?.password_hash;
-    const isOAuthOnly = !hasPassword && !!account?.google_id;
+    const isOAuthOnly = !hasPassword && !!account?.has_identity;
     const accountInfo = {
       requiresPassword: hasPassword,
       isOAuthOnly,
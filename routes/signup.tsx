@@ -6,9 +6,12 @@ import {
   setCsrfCookie,
 } from "../lib/security/csrf.ts";
 import SignupForm from "../islands/SignupForm.tsx";
+import SignInProviders from "../components/SignInProviders.tsx";
+import { getConfiguredProviders } from "../lib/auth/oidc.ts";
 
 interface SignupPageProps {
   csrfToken: string;
+  providers: { id: string; name: string }[];
 }
 
 export const handler: Handlers<SignupPageProps> = {
@@ -18,12 +21,17 @@ export const handler: Handlers<SignupPageProps> = {
     const headers = new Headers();
     setCsrfCookie(headers, csrfToken);
 
-    return ctx.render({ csrfToken }, { headers });
+    const providers = getConfiguredProviders().map(({ id, name }) => ({
+      id,
+      name,
+    }));
+
+    return ctx.render({ csrfToken, providers }, { headers });
   },
 };
 
 export default function SignupPage(props: PageProps<SignupPageProps>) {
-  const { csrfToken } = props.data;
+  const { csrfToken, providers } = props.data;
 
   return (
     <>
@@ -50,45 +58,7 @@ export default function SignupPage(props: PageProps<SignupPageProps>) {
           </div>
           <SignupForm csrfToken={csrfToken} />
 
-          <div class="mt-6">
-            <div class="relative">
-              <div class="absolute inset-0 flex items-center">
-                <div class="w-full border-t border-gray-300"></div>
-              </div>
-              <div class="relative flex justify-center text-sm">
-                <span class="px-2 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
-                  Or continue with
-                </span>
-              </div>
-            </div>
-
-            <div class="mt-6">
-              <a
-                href="/api/auth/google?returnTo=/dashboard"
-                class="w-full inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-              >
-                <svg class="h-5 w-5" viewBox="0 0 24 24">
-                  <path
-                    fill="currentColor"
-                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                  />
-                </svg>
-                <span class="ml-2">Continue with Google</span>
-              </a>
-            </div>
-          </div>
+          <SignInProviders providers={providers} returnTo="/dashboard" />
 
           <div class="text-center">
             <a
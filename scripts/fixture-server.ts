@@ -0,0 +1,80 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read
+
+/**
+ * Local stand-in for the TMDB and OMDb APIs
+ *
+ * Serves fixtures recorded with API_FIXTURES=record over HTTP, so the app,
+ * scripts and anything else speaking HTTP can run without network access.
+ * Requests are matched on path and query parameters; API keys are ignored.
+ *
+ * Usage:
+ *   deno run --allow-net --allow-env --allow-read scripts/fixture-server.ts
+ *   deno run --allow-net --allow-env --allow-read scripts/fixture-server.ts --port=9000
+ *
+ * Then point the clients at it:
+ *   TMDB_API_BASE_URL=http://localhost:8787/tmdb
+ *   OMDB_API_BASE_URL=http://localhost:8787/omdb
+ */
+
+import { getFixturesDir, readFixture } from "../lib/fixtures/http.ts";
+
+const DEFAULT_PORT = 8787;
+
+// Responses for requests with no fixture, shaped like each API's own
+// not-found error so the clients handle them the same way
+const NOT_FOUND_BODIES: Record<string, (endpoint: string) => unknown> = {
+  tmdb: (endpoint) => ({
+    success: false,
+    status_code: 34,
+    status_message: `No fixture recorded for ${endpoint}`,
+  }),
+  omdb: () => ({ Response: "False", Error: "No fixture recorded" }),
+};
+
+// Parse command line arguments
+function parseArgs(): { port: number } {
+  const port = parseInt(
+    Deno.args.find((arg) => arg.startsWith("--port="))?.split("=")[1] ||
+      String(DEFAULT_PORT),
+  );
+  return { port };
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const [, service, ...rest] = url.pathname.split("/");
+  const endpoint = `/${rest.join("/")}`;
+
+  if (!service || !Object.hasOwn(NOT_FOUND_BODIES, service)) {
+    return new Response(`Unknown service: ${service || "(none)"}`, {
+      status: 404,
+    });
+  }
+
+  const fixture = await readFixture(service, endpoint, url.searchParams);
+  if (!fixture) {
+    console.warn(`  ✗ ${service} ${endpoint} (no fixture)`);
+    // OMDb reports a missing title with a 200 and Response: "False"
+    return new Response(JSON.stringify(NOT_FOUND_BODIES[service](endpoint)), {
+      status: service === "omdb" ? 200 : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  console.log(`  ✓ ${service} ${endpoint}`);
+  return new Response(JSON.stringify(fixture.body), {
+    status: fixture.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function main() {
+  const { port } = parseArgs();
+
+  console.log(`Serving fixtures from ${getFixturesDir()}/`);
+  Deno.serve({ port }, handleRequest);
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,55 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env
+
+/**
+ * Local mock OpenID Connect provider
+ *
+ * Serves lib/fixtures/oidc-provider.ts over HTTP so "Sign in with..." can be
+ * tried without registering an app with a real provider. Sign-in is approved
+ * immediately as mock.user@example.com; add login_hint=<email> to the
+ * authorize URL to sign in as someone else.
+ *
+ * Usage:
+ *   deno run --allow-net --allow-env scripts/mock-oidc-server.ts
+ *   deno run --allow-net --allow-env scripts/mock-oidc-server.ts --port=9001
+ *
+ * Then configure the app to use it:
+ *   OIDC_ISSUER=http://localhost:8788
+ *   OIDC_CLIENT_ID=stream-owl
+ *   OIDC_CLIENT_SECRET=mock-secret
+ */
+
+import { createMockOidcProvider } from "../lib/fixtures/oidc-provider.ts";
+
+const DEFAULT_PORT = 8788;
+
+// Parse command line arguments
+function parseArgs(): { port: number } {
+  const port = parseInt(
+    Deno.args.find((arg) => arg.startsWith("--port="))?.split("=")[1] ||
+      String(DEFAULT_PORT),
+  );
+  return { port };
+}
+
+function main() {
+  const { port } = parseArgs();
+  const issuer = Deno.env.get("OIDC_ISSUER") || `http://localhost:${port}`;
+  const handler = createMockOidcProvider({
+    issuer,
+    clientId: Deno.env.get("OIDC_CLIENT_ID") || undefined,
+    clientSecret: Deno.env.get("OIDC_CLIENT_SECRET") || undefined,
+  });
+
+  console.log(`Mock OIDC provider at ${issuer}`);
+  Deno.serve({ port }, async (req) => {
+    const response = await handler(req);
+    console.log(
+      `  ${req.method} ${new URL(req.url).pathname} ${response.status}`,
+    );
+    return response;
+  });
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,93 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read
+
+/**
+ * Background job worker
+ *
+ * Runs queued jobs (embeddings, streaming sync, taste profiles,
+ * notifications) and enqueues scheduled ones. By default it keeps running
+ * and polls for new work; with --once it drains the queue and exits, for use
+ * from cron.
+ *
+ * Usage:
+ *   deno run --allow-net --allow-env scripts/run-jobs.ts
+ *   deno run --allow-net --allow-env scripts/run-jobs.ts --once --max-jobs=50
+ *   deno run --allow-net --allow-env scripts/run-jobs.ts --types=embedding.generate
+ */
+
+import { closePool } from "../lib/db.ts";
+import { isJobType } from "../lib/jobs/handlers.ts";
+import type { JobType } from "../lib/jobs/queue.ts";
+import { generateWorkerId, runJobs, runWorker } from "../lib/jobs/worker.ts";
+
+// Parse command line arguments
+function parseArgs(): {
+  once: boolean;
+  maxJobs: number;
+  idleMs: number;
+  types: JobType[];
+} {
+  const maxJobs = parseInt(
+    Deno.args.find((arg) => arg.startsWith("--max-jobs="))?.split("=")[1] ||
+      "20",
+  );
+  const idleMs = parseInt(
+    Deno.args.find((arg) => arg.startsWith("--idle-ms="))?.split("=")[1] ||
+      "5000",
+  );
+  const typesArg =
+    Deno.args.find((arg) => arg.startsWith("--types="))?.split("=")[1] || "";
+  const types = typesArg.split(",").filter(Boolean);
+
+  for (const type of types) {
+    if (!isJobType(type)) {
+      console.error(`Unknown job type: ${type}`);
+      Deno.exit(1);
+    }
+  }
+
+  return {
+    once: Deno.args.includes("--once"),
+    maxJobs,
+    idleMs,
+    types: types as JobType[],
+  };
+}
+
+async function main() {
+  const args = parseArgs();
+  const workerId = generateWorkerId();
+
+  if (args.once) {
+    const result = await runJobs({
+      maxJobs: args.maxJobs,
+      types: args.types,
+      workerId,
+    });
+    console.log(
+      `Processed ${result.processed} jobs (${result.completed} completed, ${result.retrying} retrying, ${result.dead} dead) in ${result.duration}ms`,
+    );
+    await closePool();
+    Deno.exit(0);
+  }
+
+  // Finish the current job before exiting on Ctrl+C or a deploy
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    Deno.addSignalListener(signal, () => controller.abort());
+  }
+
+  console.log(`Worker ${workerId} started`);
+  await runWorker({
+    maxJobs: args.maxJobs,
+    types: args.types,
+    workerId,
+    idleMs: args.idleMs,
+    signal: controller.signal,
+  });
+  console.log(`Worker ${workerId} stopped`);
+
+  await closePool();
+  Deno.exit(0);
+}
+
+main();
@@ -20,7 +20,6 @@ import {
 // Parse command line arguments
 function parseArgs(): {
   maxItems: number;
-  delayMs: number;
   maxAgeHours: number;
   statsOnly: boolean;
 } {
@@ -28,10 +27,6 @@ function parseArgs(): {
     Deno.args.find((arg) => arg.startsWith("--max-items="))?.split("=")[1] ||
       "50",
   );
-  const delayMs = parseInt(
-    Deno.args.find((arg) => arg.startsWith("--delay-ms="))?.split("=")[1] ||
-      "25",
-  );
   const maxAgeHours = parseInt(
     Deno.args.find((arg) => arg.startsWith("--max-age-hours="))?.split(
       "=",
@@ -40,7 +35,7 @@ function parseArgs(): {
   );
   const statsOnly = Deno.args.includes("--stats-only");
 
-  return { maxItems, delayMs, maxAgeHours, statsOnly };
+  return { maxItems, maxAgeHours, statsOnly };
 }
 
 async function main() {
@@ -64,12 +59,11 @@ async function main() {
   }
 
   console.log(
-    `Processing streaming availability sync (max: ${args.maxItems}, delay: ${args.delayMs}ms, max age: ${args.maxAgeHours}h)...`,
+    `Processing streaming availability sync (max: ${args.maxItems}, max age: ${args.maxAgeHours}h)...`,
   );
 
   const result = await processStreamingSyncJob(
     args.maxItems,
-    args.delayMs,
     args.maxAgeHours,
   );
 
@@ -78,6 +72,8 @@ async function main() {
   console.log(`  Successful: ${result.successCount}`);
   console.log(`  Failed: ${result.failCount}`);
   console.log(`  Providers added/updated: ${result.providersAdded}`);
+  console.log(`  Availability changes: ${result.changes}`);
+  console.log(`  "Now available" alerts queued: ${result.alertsQueued}`);
   console.log(`  Expired records removed: ${result.expiredRemoved}`);
   console.log(`  Duration: ${result.duration}ms`);
 
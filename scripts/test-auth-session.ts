@@ -145,8 +145,8 @@ async function runTests() {
     }
   });
 
-  // Test 7: Middleware session extraction
-  await test("Extract session from request with valid token", async () => {
+  // Test 7: Middleware rejects tokens without a stored session
+  await test("Middleware rejects token without a session ID", async () => {
     const userId = "123e4567-e89b-12d3-a456-426614174000";
     const email = "test@example.com";
     const token = await createSessionToken(userId, email, 3600);
@@ -158,8 +158,8 @@ async function runTests() {
     });
 
     const session = await getSessionFromRequest(request);
-    if (!session || session.userId !== userId || session.email !== email) {
-      throw new Error("Failed to extract session from request");
+    if (session !== null) {
+      throw new Error("Should have rejected token without a session ID");
     }
   });
 
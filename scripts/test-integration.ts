@@ -23,7 +23,7 @@ import {
   setCsrfCookie,
 } from "../lib/security/csrf.ts";
 import { query } from "../lib/db.ts";
-import { createSessionToken } from "../lib/auth/jwt.ts";
+import { startSession } from "../lib/auth/sessions.ts";
 import { setSessionCookie } from "../lib/auth/cookies.ts";
 
 /**
@@ -103,7 +103,7 @@ async function createAuthenticatedRequest(
   email: string,
   body?: BodyInit,
 ): Promise<Request> {
-  const token = await createSessionToken(userId, email);
+  const token = await startSession(new Request(url), { id: userId, email });
   const headers = new Headers();
   setSessionCookie(headers, token);
 
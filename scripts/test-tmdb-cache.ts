@@ -20,7 +20,9 @@ async function testCacheHit() {
   const cacheEnabled = redisCache.isEnabled();
   console.log(
     `Cache status: ${
-      cacheEnabled ? "ENABLED" : "DISABLED (Redis not configured)"
+      cacheEnabled
+        ? `ENABLED (${redisCache.getBackendName()})`
+        : "DISABLED (CACHE_BACKEND=none)"
     }\n`,
   );
 
@@ -157,6 +159,9 @@ async function testGracefulDegradation() {
     const movie = await getMovieById(603);
     console.log(`✓ Request succeeded: ${movie.title}`);
     console.log("✓ Graceful degradation working (app functions without cache)");
+    console.log(
+      `  Cache metrics: ${JSON.stringify(redisCache.getMetrics().namespaces)}`,
+    );
     return true;
   } catch (error) {
     console.error(